@@ -47,7 +47,7 @@ export class CareSummaryService {
           },
         }),
         this.prisma.appointment.findMany({
-          where: { careRecipientId, startTime: { gte: dayStart, lte: dayEnd } },
+          where: { careRecipientId, startTime: { gte: dayStart, lte: dayEnd }, status: { not: 'DRAFT' } },
           include: { doctor: { select: { name: true, specialty: true } } },
         }),
         this.prisma.caregiverShift.findMany({
@@ -138,7 +138,7 @@ Respond in this JSON format:
         },
       }),
       this.prisma.appointment.findMany({
-        where: { careRecipientId, startTime: { gte: weekStart, lte: weekEnd } },
+        where: { careRecipientId, startTime: { gte: weekStart, lte: weekEnd }, status: { not: 'DRAFT' } },
         include: { doctor: { select: { name: true, specialty: true } } },
       }),
     ]);
@@ -33,9 +33,11 @@ import { UserModule } from './user/user.module';
 import { FamilyModule } from './family/family.module';
 import { CareRecipientModule } from './care-recipient/care-recipient.module';
 import { AppointmentsModule } from './appointments/appointments.module';
+import { CalendarFeedsModule } from './calendar-feeds/calendar-feeds.module';
 import { MedicationsModule } from './medications/medications.module';
 import { DocumentsModule } from './documents/documents.module';
 import { EmergencyModule } from './emergency/emergency.module';
+import { HospitalStaysModule } from './hospital-stays/hospital-stays.module';
 import { CaregiverShiftsModule } from './caregiver-shifts/caregiver-shifts.module';
 import { TimelineModule } from './timeline/timeline.module';
 import { NotificationsModule } from './notifications/notifications.module';
@@ -160,9 +162,11 @@ import { AiModule } from './ai/ai.module';
     FamilyModule,
     CareRecipientModule,
     AppointmentsModule,
+    CalendarFeedsModule,
     MedicationsModule,
     DocumentsModule,
     EmergencyModule,
+    HospitalStaysModule,
     CaregiverShiftsModule,
     TimelineModule,
     NotificationsModule,
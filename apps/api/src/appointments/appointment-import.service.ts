@@ -0,0 +1,172 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { addMinutes } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { AppointmentsService } from './appointments.service';
+import { ImportAppointmentsDto } from './dto/import-appointments.dto';
+import { IcsImportHelper } from './ics-import.helper';
+
+const MAX_IMPORT_EVENTS = 200;
+
+/**
+ * Imports appointments from calendar invites. Previewing parses the file and
+ * changes nothing; the family picks what to keep and sends those back to be
+ * created through the usual appointment paths.
+ */
+@Injectable()
+export class AppointmentImportService {
+  constructor(
+    private prisma: PrismaService,
+    private appointmentsService: AppointmentsService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  async preview(careRecipientId: string, userId: string, content: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot import appointments');
+    }
+
+    if (!content.includes('BEGIN:VCALENDAR')) {
+      throw new BadRequestException('Not an iCalendar (.ics) file');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    let events;
+    try {
+      events = IcsImportHelper.parse(content, user?.timezone || 'UTC');
+    } catch {
+      throw new BadRequestException('Could not read the calendar file');
+    }
+
+    if (events.length === 0) {
+      throw new BadRequestException('The file has no events');
+    }
+
+    if (events.length > MAX_IMPORT_EVENTS) {
+      throw new BadRequestException(`Files can have at most ${MAX_IMPORT_EVENTS} events`);
+    }
+
+    const doctors = await this.prisma.doctor.findMany({
+      where: { careRecipientId },
+      select: { id: true, name: true, specialty: true, email: true, address: true },
+    });
+
+    const items = events.map((event) => {
+      const match = IcsImportHelper.matchDoctor(event, doctors);
+      const appointment = IcsImportHelper.toAppointment(event, match?.doctor.id);
+      let occurrences: Date[];
+      try {
+        occurrences = IcsImportHelper.occurrences(appointment);
+      } catch {
+        // An RRULE we cannot expand is imported as a single appointment
+        delete appointment.recurrenceRule;
+        delete appointment.isRecurring;
+        occurrences = [event.start];
+      }
+      return { event, match, appointment, occurrences };
+    });
+
+    const uids = [
+      ...new Set<string>(items.flatMap(({ appointment }) => [appointment.icsUid!, appointment.icsUid!.split('#')[0]])),
+    ];
+    const starts = items.flatMap((item) => item.occurrences.map((date) => date.getTime()));
+    const existing = await this.prisma.appointment.findMany({
+      where: {
+        careRecipientId,
+        status: { not: 'CANCELLED' },
+        OR: [
+          {
+            startTime: {
+              gte: addMinutes(new Date(Math.min(...starts)), -60),
+              lte: addMinutes(new Date(Math.max(...starts)), 60),
+            },
+          },
+          { icsUid: { in: uids } },
+        ],
+      },
+      select: { id: true, title: true, startTime: true, doctorId: true, location: true, icsUid: true },
+    });
+
+    return {
+      events: items.map(({ event, match, appointment, occurrences }) => {
+        const duplicates = IcsImportHelper.findDuplicates(appointment, occurrences, existing);
+
+        return {
+          appointment,
+          occurrences: occurrences.length,
+          allDay: event.allDay,
+          cancelled: event.cancelled,
+          organizer: event.organizer,
+          doctor: match && { id: match.doctor.id, name: match.doctor.name, matchedBy: match.matchedBy },
+          duplicates: duplicates.slice(0, 5).map(({ id, title, startTime }) => ({ id, title, startTime })),
+          duplicateCount: duplicates.length,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Creates the appointments chosen from a preview. Each is created on its
+   * own, so one bad entry does not stop the rest.
+   */
+  async import(careRecipientId: string, userId: string, dto: ImportAppointmentsDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot import appointments');
+    }
+
+    const created: { title: string; count: number }[] = [];
+    const failed: { title: string; error: string }[] = [];
+
+    for (const appointment of dto.appointments) {
+      try {
+        if (appointment.recurrenceRule) {
+          const series = await this.appointmentsService.createRecurringSeries(careRecipientId, userId, {
+            ...appointment,
+            isRecurring: true,
+          });
+          created.push({ title: appointment.title, count: series.totalCreated });
+        } else {
+          await this.appointmentsService.create(careRecipientId, userId, appointment);
+          created.push({ title: appointment.title, count: 1 });
+        }
+      } catch (error) {
+        failed.push({
+          title: appointment.title,
+          error: error instanceof Error ? error.message : 'Could not create appointment',
+        });
+      }
+    }
+
+    return {
+      created: created.reduce((total, item) => total + item.count, 0),
+      items: created,
+      failed,
+    };
+  }
+}
@@ -0,0 +1,517 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Appointment, AppointmentType, MedicationForm, MedicationFrequency, Prisma } from '@prisma/client';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { v4 as uuid } from 'uuid';
+import { PrismaService } from '../prisma/prisma.service';
+import { TimelineService } from '../timeline/timeline.service';
+import { MedicationsService } from '../medications/medications.service';
+import { DateHelper } from '../system/helper/date.helper';
+import { AppointmentsService } from './appointments.service';
+import {
+  ApplyMedicationChangeDto,
+  MedicationChangeAction,
+  MedicationChangeDto,
+  RecordAppointmentOutcomeDto,
+} from './dto/appointment-outcome.dto';
+
+export type OutcomeMedicationChange = {
+  id: string;
+  action: MedicationChangeAction;
+  name: string;
+  medicationId: string | null;
+  dosage: string | null;
+  form: MedicationForm | null;
+  frequency: MedicationFrequency | null;
+  instructions: string | null;
+  reason: string | null;
+  status: 'PENDING' | 'APPLIED' | 'DISMISSED';
+  appliedMedicationId: string | null;
+  resolvedAt: string | null;
+  resolvedById: string | null;
+};
+
+const OUTCOME_INCLUDE = {
+  recordedBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.AppointmentOutcomeInclude;
+
+const ACTION_LABELS: Record<MedicationChangeAction, string> = {
+  START: 'Start',
+  CHANGE: 'Change',
+  STOP: 'Stop',
+};
+
+/**
+ * Post-visit outcomes. Recording one completes the appointment, writes an
+ * APPOINTMENT_SUMMARY timeline entry and drafts follow-up appointments for
+ * the next visit and any ordered labs. Medication changes are only
+ * suggestions until a family member applies each one to the medication list.
+ */
+@Injectable()
+export class AppointmentOutcomeService {
+  constructor(
+    private prisma: PrismaService,
+    private appointmentsService: AppointmentsService,
+    private timelineService: TimelineService,
+    private medicationsService: MedicationsService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  private async getAppointment(id: string) {
+    const appointment = await this.prisma.appointment.findUnique({
+      where: { id },
+      include: { doctor: { select: { name: true } } },
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Appointment not found');
+    }
+
+    return appointment;
+  }
+
+  async findOne(appointmentId: string, userId: string) {
+    const appointment = await this.getAppointment(appointmentId);
+    await this.verifyAccess(appointment.careRecipientId, userId);
+
+    const [outcome, followUps] = await Promise.all([
+      this.prisma.appointmentOutcome.findUnique({
+        where: { appointmentId },
+        include: OUTCOME_INCLUDE,
+      }),
+      this.prisma.appointment.findMany({
+        where: { followUpOfId: appointmentId },
+        orderBy: { startTime: 'asc' },
+      }),
+    ]);
+
+    return { outcome, followUps };
+  }
+
+  /**
+   * Records or edits the outcome of a visit. Changes that were already
+   * applied or dismissed are kept as they are; drafts the family has since
+   * booked are left alone.
+   */
+  async record(appointmentId: string, userId: string, dto: RecordAppointmentOutcomeDto) {
+    const appointment = await this.getAppointment(appointmentId);
+    const { membership } = await this.verifyAccess(appointment.careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot record visit outcomes');
+    }
+
+    if (appointment.status === 'CANCELLED' || appointment.status === 'DRAFT') {
+      throw new BadRequestException('Only appointments that took place can have an outcome');
+    }
+
+    if (appointment.startTime > new Date()) {
+      throw new BadRequestException('The outcome can be recorded once the appointment has started');
+    }
+
+    const existing = await this.prisma.appointmentOutcome.findUnique({ where: { appointmentId } });
+
+    // Same rule as for the timeline entry the outcome writes
+    if (existing && existing.recordedById !== userId && membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only the person who recorded this outcome or an admin can edit it');
+    }
+
+    const timezone = await this.userTimezone(userId);
+    const nextVisitDate = dto.nextVisitDate ? this.visitTime(dto.nextVisitDate, appointment, timezone) : null;
+    const labsDueDate = dto.labsDueDate ? this.visitTime(dto.labsDueDate, appointment, timezone) : null;
+    const diagnoses = this.cleanList(dto.diagnoses);
+    const orderedLabs = this.cleanList(dto.orderedLabs);
+
+    if (labsDueDate && orderedLabs.length === 0) {
+      throw new BadRequestException('Add the ordered labs to set a due date for them');
+    }
+
+    const medicationChanges = await this.mergeChanges(
+      appointment.careRecipientId,
+      this.parseChanges(existing?.medicationChanges),
+      dto.medicationChanges || [],
+    );
+
+    const data = {
+      doctorNotes: dto.doctorNotes?.trim() || null,
+      diagnoses,
+      orderedLabs,
+      medicationChanges,
+      labsDueDate,
+      nextVisitDate,
+    };
+
+    const summary = {
+      title: `Visit summary: ${appointment.title}`,
+      description: this.describe(appointment, data, timezone),
+    };
+
+    let timelineEntryId = existing?.timelineEntryId;
+    if (timelineEntryId) {
+      await this.timelineService.update(timelineEntryId, userId, summary);
+    } else {
+      const entry = await this.timelineService.create(appointment.careRecipientId, userId, {
+        type: 'APPOINTMENT_SUMMARY',
+        ...summary,
+        occurredAt: appointment.endTime.toISOString(),
+      });
+      timelineEntryId = entry.id;
+    }
+
+    const outcome = await this.prisma.appointmentOutcome.upsert({
+      where: { appointmentId },
+      create: { appointmentId, recordedById: userId, timelineEntryId, ...data },
+      update: { timelineEntryId, ...data },
+      include: OUTCOME_INCLUDE,
+    });
+
+    if (appointment.status !== 'COMPLETED') {
+      await this.appointmentsService.update(appointmentId, userId, { status: 'COMPLETED' });
+    }
+
+    const visitType: AppointmentType = appointment.type === 'LAB_WORK' ? 'DOCTOR_VISIT' : appointment.type;
+    await this.syncFollowUp(appointment, visitType, nextVisitDate, `Follow-up: ${appointment.title}`);
+    await this.syncFollowUp(
+      appointment,
+      'LAB_WORK',
+      labsDueDate,
+      `Labs: ${orderedLabs.join(', ')}`.slice(0, 200),
+      orderedLabs.length > 0 ? `Ordered at ${appointment.title}:\n${orderedLabs.map((lab) => `- ${lab}`).join('\n')}` : undefined,
+    );
+
+    const followUps = await this.prisma.appointment.findMany({
+      where: { followUpOfId: appointmentId },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return { outcome, followUps };
+  }
+
+  /**
+   * Applies a suggested change to the medication list: starts a new
+   * medication, updates an existing one or stops it
+   */
+  async applyMedicationChange(
+    appointmentId: string,
+    changeId: string,
+    userId: string,
+    dto: ApplyMedicationChangeDto,
+  ) {
+    const { appointment, outcome } = await this.getPendingChange(appointmentId, changeId, userId);
+
+    return this.resolveChange(outcome.id, changeId, userId, async (change) => {
+      let medicationId: string;
+
+      if (change.action === MedicationChangeAction.START) {
+        const dosage = dto.dosage || change.dosage;
+        const form = dto.form || change.form;
+        const frequency = dto.frequency || change.frequency;
+
+        if (!dosage || !form || !frequency) {
+          throw new BadRequestException(`Dosage, form and frequency are needed to add ${change.name}`);
+        }
+
+        const medication = await this.medicationsService.create(appointment.careRecipientId, userId, {
+          name: change.name,
+          dosage,
+          form,
+          frequency,
+          timesPerDay: dto.timesPerDay,
+          scheduledTimes: dto.scheduledTimes,
+          instructions: dto.instructions || change.instructions || undefined,
+          prescribedBy: appointment.doctor?.name,
+          notes: change.reason ? `Started at ${appointment.title}: ${change.reason}` : `Started at ${appointment.title}`,
+        });
+        medicationId = medication.id;
+      } else {
+        const target = change.medicationId || (await this.findActiveMedication(appointment.careRecipientId, change.name));
+
+        if (!target) {
+          throw new BadRequestException(`${change.name} is not on the active medication list`);
+        }
+
+        if (change.action === MedicationChangeAction.STOP) {
+          await this.medicationsService.deactivate(target, userId);
+        } else {
+          await this.medicationsService.update(target, userId, {
+            dosage: dto.dosage || change.dosage || undefined,
+            form: dto.form || change.form || undefined,
+            frequency: dto.frequency || change.frequency || undefined,
+            timesPerDay: dto.timesPerDay,
+            scheduledTimes: dto.scheduledTimes,
+            instructions: dto.instructions || change.instructions || undefined,
+          });
+        }
+        medicationId = target;
+      }
+
+      return { status: 'APPLIED', appliedMedicationId: medicationId };
+    });
+  }
+
+  async dismissMedicationChange(appointmentId: string, changeId: string, userId: string) {
+    const { outcome } = await this.getPendingChange(appointmentId, changeId, userId);
+
+    return this.resolveChange(outcome.id, changeId, userId, async () => ({ status: 'DISMISSED' }));
+  }
+
+  private async getPendingChange(appointmentId: string, changeId: string, userId: string) {
+    const appointment = await this.getAppointment(appointmentId);
+    const { membership } = await this.verifyAccess(appointment.careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot change medications');
+    }
+
+    const outcome = await this.prisma.appointmentOutcome.findUnique({ where: { appointmentId } });
+
+    if (!outcome) {
+      throw new NotFoundException('No outcome has been recorded for this appointment');
+    }
+
+    const changes = this.parseChanges(outcome.medicationChanges);
+    const change = changes.find((c) => c.id === changeId);
+
+    if (!change) {
+      throw new NotFoundException('Medication change not found');
+    }
+
+    if (change.status !== 'PENDING') {
+      throw new BadRequestException(`This change was already ${change.status.toLowerCase()}`);
+    }
+
+    return { appointment, outcome, changes, change };
+  }
+
+  /**
+   * Resolves one change with the outcome row locked, so a double-clicked
+   * apply runs once and two changes resolved at the same time both stick.
+   * The change is re-checked under the lock before `resolve` runs.
+   */
+  private resolveChange(
+    outcomeId: string,
+    changeId: string,
+    userId: string,
+    resolve: (
+      change: OutcomeMedicationChange,
+    ) => Promise<Pick<OutcomeMedicationChange, 'status'> & Partial<OutcomeMedicationChange>>,
+  ) {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const locked = await tx.appointmentOutcome.update({
+          where: { id: outcomeId },
+          data: { updatedAt: new Date() },
+        });
+
+        const changes = this.parseChanges(locked.medicationChanges);
+        const change = changes.find((c) => c.id === changeId);
+
+        if (!change) {
+          throw new NotFoundException('Medication change not found');
+        }
+
+        if (change.status !== 'PENDING') {
+          throw new BadRequestException(`This change was already ${change.status.toLowerCase()}`);
+        }
+
+        const resolution = await resolve(change);
+        const resolvedAt = new Date().toISOString();
+
+        return tx.appointmentOutcome.update({
+          where: { id: outcomeId },
+          data: {
+            medicationChanges: changes.map((c) =>
+              c.id === changeId ? { ...c, ...resolution, resolvedAt, resolvedById: userId } : c,
+            ),
+          },
+          include: OUTCOME_INCLUDE,
+        });
+      },
+      // Applying a change writes the medication list while the lock is held
+      { timeout: 15000 },
+    );
+  }
+
+  /**
+   * Resolved changes stay as recorded. Pending ones are replaced by what was
+   * sent, keeping their IDs, and linked to a medication on the list by name
+   * when none was picked.
+   */
+  private async mergeChanges(
+    careRecipientId: string,
+    previous: OutcomeMedicationChange[],
+    incoming: MedicationChangeDto[],
+  ): Promise<OutcomeMedicationChange[]> {
+    const resolved = previous.filter((change) => change.status !== 'PENDING');
+    const resolvedIds = new Set(resolved.map((change) => change.id));
+    const pending: OutcomeMedicationChange[] = [];
+
+    for (const change of incoming) {
+      if (change.id && resolvedIds.has(change.id)) continue;
+
+      const medicationId =
+        change.action === MedicationChangeAction.START
+          ? null
+          : change.medicationId || (await this.findActiveMedication(careRecipientId, change.name));
+
+      pending.push({
+        id: change.id && previous.some((p) => p.id === change.id) ? change.id : uuid(),
+        action: change.action,
+        name: change.name.trim(),
+        medicationId,
+        dosage: change.dosage?.trim() || null,
+        form: change.form || null,
+        frequency: change.frequency || null,
+        instructions: change.instructions?.trim() || null,
+        reason: change.reason?.trim() || null,
+        status: 'PENDING',
+        appliedMedicationId: null,
+        resolvedAt: null,
+        resolvedById: null,
+      });
+    }
+
+    return [...resolved, ...pending];
+  }
+
+  private async findActiveMedication(careRecipientId: string, name: string): Promise<string | null> {
+    const medication = await this.prisma.medication.findFirst({
+      where: {
+        careRecipientId,
+        isActive: true,
+        OR: [
+          { name: { equals: name.trim(), mode: 'insensitive' } },
+          { genericName: { equals: name.trim(), mode: 'insensitive' } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return medication?.id ?? null;
+  }
+
+  /**
+   * Keeps one draft of each kind in step with the outcome. Once the family
+   * books a draft it is theirs, and later edits no longer move it.
+   */
+  private async syncFollowUp(
+    source: Appointment,
+    type: AppointmentType,
+    startTime: Date | null,
+    title: string,
+    notes?: string,
+  ) {
+    const existing = await this.prisma.appointment.findFirst({
+      where: { followUpOfId: source.id, type },
+    });
+
+    if (existing && existing.status !== 'DRAFT') {
+      return;
+    }
+
+    if (!startTime) {
+      if (existing) {
+        await this.prisma.appointment.delete({ where: { id: existing.id } });
+      }
+      return;
+    }
+
+    const endTime = new Date(startTime.getTime() + (source.endTime.getTime() - source.startTime.getTime()));
+
+    if (existing) {
+      await this.prisma.appointment.update({
+        where: { id: existing.id },
+        data: { startTime, endTime, title, notes },
+      });
+    } else {
+      await this.appointmentsService.createFollowUpDraft(source, { type, title, startTime, endTime, notes });
+    }
+  }
+
+  /**
+   * A date on its own means the same time of day as the original visit
+   */
+  private visitTime(value: string, appointment: Appointment, timezone: string): Date {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? fromZonedTime(`${value}T${formatInTimeZone(appointment.startTime, timezone, 'HH:mm')}:00`, timezone)
+      : new Date(value);
+
+    if (date <= appointment.startTime) {
+      throw new BadRequestException('Follow-up dates must be after the visit');
+    }
+
+    return date;
+  }
+
+  private describe(
+    appointment: Appointment & { doctor: { name: string } | null },
+    outcome: {
+      doctorNotes: string | null;
+      diagnoses: string[];
+      orderedLabs: string[];
+      medicationChanges: OutcomeMedicationChange[];
+      labsDueDate: Date | null;
+      nextVisitDate: Date | null;
+    },
+    timezone: string,
+  ): string {
+    const day = (date: Date) => formatInTimeZone(date, timezone, 'MMM d, yyyy');
+    const sections: string[] = [];
+
+    if (appointment.doctor) sections.push(`Seen by ${appointment.doctor.name}`);
+    if (outcome.doctorNotes) sections.push(outcome.doctorNotes);
+    if (outcome.diagnoses.length > 0) sections.push(`Diagnoses: ${outcome.diagnoses.join('; ')}`);
+
+    if (outcome.medicationChanges.length > 0) {
+      const lines = outcome.medicationChanges.map((change) => {
+        const details = [change.dosage, change.instructions, change.reason].filter(Boolean).join(', ');
+        return `- ${ACTION_LABELS[change.action]} ${change.name}${details ? ` (${details})` : ''}`;
+      });
+      sections.push(['Medication changes:', ...lines].join('\n'));
+    }
+
+    if (outcome.orderedLabs.length > 0) {
+      const due = outcome.labsDueDate ? ` by ${day(outcome.labsDueDate)}` : '';
+      sections.push(`Labs ordered${due}: ${outcome.orderedLabs.join(', ')}`);
+    }
+
+    if (outcome.nextVisitDate) sections.push(`Next visit: ${day(outcome.nextVisitDate)}`);
+
+    return sections.join('\n\n') || 'Visit completed';
+  }
+
+  private cleanList(values?: string[]): string[] {
+    return [...new Set((values || []).map((value) => value.trim()).filter(Boolean))];
+  }
+
+  private parseChanges(value: Prisma.JsonValue | undefined): OutcomeMedicationChange[] {
+    return Array.isArray(value) ? (value as unknown as OutcomeMedicationChange[]) : [];
+  }
+
+  private async userTimezone(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    return user?.timezone || DateHelper.DEFAULT_TIMEZONE;
+  }
+}
@@ -6,14 +6,23 @@ import {
   Patch,
   Param,
   Delete,
+  Put,
   Query,
   ParseUUIDPipe,
+  UploadedFile,
+  UseInterceptors,
+  BadRequestException,
 } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiBearerAuth } from "@nestjs/swagger";
+import { FileInterceptor } from "@nestjs/platform-express";
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from "@nestjs/swagger";
 import { AppointmentsService } from "./appointments.service";
+import { AppointmentImportService } from "./appointment-import.service";
+import { AppointmentOutcomeService } from "./appointment-outcome.service";
+import { ImportAppointmentsDto } from "./dto/import-appointments.dto";
 import { CreateAppointmentDto } from "./dto/create-appointment.dto";
 import { UpdateAppointmentDto } from "./dto/update-appointment.dto";
 import { AssignTransportDto } from "./dto/assign-transport.dto";
+import { ApplyMedicationChangeDto, RecordAppointmentOutcomeDto } from "./dto/appointment-outcome.dto";
 import { CurrentUser } from "../common/decorators/current-user.decorator";
 
 interface CurrentUserPayload {
@@ -25,7 +34,10 @@ interface CurrentUserPayload {
 @ApiBearerAuth('JWT-auth')
 @Controller("care-recipients/:careRecipientId/appointments")
 export class CareRecipientAppointmentsController {
-  constructor(private readonly appointmentsService: AppointmentsService) {}
+  constructor(
+    private readonly appointmentsService: AppointmentsService,
+    private readonly appointmentImportService: AppointmentImportService
+  ) {}
 
   @Post()
   @ApiOperation({ summary: "Create a new appointment" })
@@ -56,6 +68,35 @@ export class CareRecipientAppointmentsController {
     );
   }
 
+  @Post("import/preview")
+  @ApiOperation({
+    summary: "Preview appointments from a calendar invite (.ics)",
+    description: "Parses the file without saving anything, matching doctors and flagging existing appointments it would duplicate"
+  })
+  @ApiConsumes("multipart/form-data")
+  @UseInterceptors(FileInterceptor("file", { limits: { fileSize: 1024 * 1024 } }))
+  previewImport(
+    @Param("careRecipientId", ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @UploadedFile() file: Express.Multer.File
+  ) {
+    if (!file) {
+      throw new BadRequestException("File is required");
+    }
+
+    return this.appointmentImportService.preview(careRecipientId, user.id, file.buffer.toString("utf8"));
+  }
+
+  @Post("import")
+  @ApiOperation({ summary: "Create appointments chosen from an import preview" })
+  importAppointments(
+    @Param("careRecipientId", ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ImportAppointmentsDto
+  ) {
+    return this.appointmentImportService.import(careRecipientId, user.id, dto);
+  }
+
   @Get("recurring/series")
   @ApiOperation({ summary: "Get all recurring appointment series" })
   getRecurringSeries(
@@ -171,7 +212,10 @@ export class CareRecipientAppointmentsController {
 @ApiBearerAuth('JWT-auth')
 @Controller("appointments")
 export class AppointmentsController {
-  constructor(private readonly appointmentsService: AppointmentsService) {}
+  constructor(
+    private readonly appointmentsService: AppointmentsService,
+    private readonly appointmentOutcomeService: AppointmentOutcomeService
+  ) {}
 
   @Get(":id")
   @ApiOperation({ summary: "Get an appointment by ID" })
@@ -238,6 +282,49 @@ export class AppointmentsController {
   ) {
     return this.appointmentsService.assignTransport(id, user.id, dto);
   }
+
+  @Get(":id/outcome")
+  @ApiOperation({ summary: "Get the visit outcome and follow-up drafts of an appointment" })
+  getOutcome(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload
+  ) {
+    return this.appointmentOutcomeService.findOne(id, user.id);
+  }
+
+  @Put(":id/outcome")
+  @ApiOperation({
+    summary: "Record or edit the visit outcome",
+    description: "Completes the appointment, writes a visit summary to the timeline and drafts follow-up appointments",
+  })
+  recordOutcome(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: RecordAppointmentOutcomeDto
+  ) {
+    return this.appointmentOutcomeService.record(id, user.id, dto);
+  }
+
+  @Post(":id/outcome/medication-changes/:changeId/apply")
+  @ApiOperation({ summary: "Apply a medication change from the visit to the medication list" })
+  applyMedicationChange(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("changeId", ParseUUIDPipe) changeId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ApplyMedicationChangeDto
+  ) {
+    return this.appointmentOutcomeService.applyMedicationChange(id, changeId, user.id, dto);
+  }
+
+  @Post(":id/outcome/medication-changes/:changeId/dismiss")
+  @ApiOperation({ summary: "Dismiss a medication change without touching the medication list" })
+  dismissMedicationChange(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Param("changeId", ParseUUIDPipe) changeId: string,
+    @CurrentUser() user: CurrentUserPayload
+  ) {
+    return this.appointmentOutcomeService.dismissMedicationChange(id, changeId, user.id);
+  }
 }
 
 // Recurring series management controller
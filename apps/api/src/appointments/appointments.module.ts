@@ -1,13 +1,17 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { AppointmentsService } from './appointments.service';
+import { AppointmentImportService } from './appointment-import.service';
+import { AppointmentOutcomeService } from './appointment-outcome.service';
 import { AppointmentsController, CareRecipientAppointmentsController, RecurringAppointmentsController } from './appointments.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { AiModule } from '../ai/ai.module';
+import { TimelineModule } from '../timeline/timeline.module';
+import { MedicationsModule } from '../medications/medications.module';
 
 @Module({
-  imports: [forwardRef(() => NotificationsModule), AiModule],
+  imports: [forwardRef(() => NotificationsModule), AiModule, TimelineModule, MedicationsModule],
   controllers: [CareRecipientAppointmentsController, AppointmentsController, RecurringAppointmentsController],
-  providers: [AppointmentsService],
+  providers: [AppointmentsService, AppointmentImportService, AppointmentOutcomeService],
   exports: [AppointmentsService],
 })
 export class AppointmentsModule {}
@@ -10,7 +10,8 @@ import { AssignTransportDto } from './dto/assign-transport.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EmbeddingIndexerService } from '../ai/services/embedding-indexer.service';
 import { addMonths, startOfDay, endOfDay, format, addMinutes, differenceInMinutes } from 'date-fns';
-import { RRule, RRuleSet, Frequency } from 'rrule';
+import { RRule, RRuleSet, Frequency, rrulestr } from 'rrule';
+import { Appointment, AppointmentType } from '@prisma/client';
 
 @Injectable()
 export class AppointmentsService {
@@ -67,6 +68,7 @@ export class AppointmentsService {
         isRecurring: dto.isRecurring || false,
         recurrenceRule: dto.recurrenceRule,
         reminderMinutes: dto.reminderMinutes || [60, 1440],
+        icsUid: dto.icsUid,
       },
       include: {
         doctor: true,
@@ -199,6 +201,7 @@ export class AppointmentsService {
           where: {
             careRecipientId,
             startTime: { gte: startOfDay(date), lte: endOfDay(date) },
+            status: { not: 'DRAFT' },
           },
           include: {
             doctor: true,
@@ -365,6 +368,36 @@ export class AppointmentsService {
     return { success: true };
   }
 
+  /**
+   * A follow-up suggested by a visit outcome. Drafts get no reminders or
+   * notifications; the family books them by changing the status.
+   */
+  async createFollowUpDraft(
+    source: Appointment,
+    data: { type: AppointmentType; title: string; startTime: Date; endTime: Date; notes?: string },
+  ) {
+    const draft = await this.prisma.appointment.create({
+      data: {
+        careRecipientId: source.careRecipientId,
+        doctorId: data.type === 'LAB_WORK' ? null : source.doctorId,
+        followUpOfId: source.id,
+        status: 'DRAFT',
+        title: data.title,
+        type: data.type,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        location: data.type === 'LAB_WORK' ? null : source.location,
+        address: data.type === 'LAB_WORK' ? null : source.address,
+        notes: data.notes,
+        reminderMinutes: source.reminderMinutes,
+      },
+    });
+
+    await this.invalidateAppointmentCache(source.careRecipientId);
+
+    return draft;
+  }
+
   /**
    * Invalidate appointment caches
    */
@@ -505,8 +538,8 @@ export class AppointmentsService {
       throw new ForbiddenException('Recurrence rule is required for recurring appointments');
     }
 
-    // Parse and generate occurrences
-    const rule = RRule.fromString(rruleString);
+    // Parse and generate occurrences; EXDATE lines drop occurrences
+    const rule = rrulestr(rruleString, { forceset: true });
     const occurrences = rule.all((date, i) => i < maxOccurrences);
 
     this.logger.log(`Creating recurring series with ${occurrences.length} occurrences`);
@@ -536,6 +569,7 @@ export class AppointmentsService {
             recurringSeriesId: seriesId,
             recurringIndex: index,
             reminderMinutes: dto.reminderMinutes || [60, 1440],
+            icsUid: dto.icsUid,
           },
           include: {
             doctor: true,
@@ -585,7 +619,7 @@ export class AppointmentsService {
     }
 
     // Parse the RRULE
-    const rule = RRule.fromString(appointment.recurrenceRule);
+    const rule = rrulestr(appointment.recurrenceRule, { forceset: true });
     
     // Get occurrences within the date range
     const occurrences = rule.between(startDate, endDate);
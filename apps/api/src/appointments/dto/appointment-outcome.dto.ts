@@ -0,0 +1,153 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { MedicationForm, MedicationFrequency } from '@prisma/client';
+
+export enum MedicationChangeAction {
+  START = 'START',
+  CHANGE = 'CHANGE',
+  STOP = 'STOP',
+}
+
+export class MedicationChangeDto {
+  @ApiPropertyOptional({ description: 'ID of a change already on the outcome, to keep it when editing' })
+  @IsUUID()
+  @IsOptional()
+  id?: string;
+
+  @ApiProperty({ enum: MedicationChangeAction, example: 'START' })
+  @IsEnum(MedicationChangeAction)
+  action: MedicationChangeAction;
+
+  @ApiProperty({ description: 'Medication name as the doctor gave it', example: 'Metformin' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Medication on the list this changes or stops' })
+  @IsUUID()
+  @IsOptional()
+  medicationId?: string;
+
+  @ApiPropertyOptional({ example: '500mg' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  dosage?: string;
+
+  @ApiPropertyOptional({ enum: MedicationForm })
+  @IsEnum(MedicationForm)
+  @IsOptional()
+  form?: MedicationForm;
+
+  @ApiPropertyOptional({ enum: MedicationFrequency })
+  @IsEnum(MedicationFrequency)
+  @IsOptional()
+  frequency?: MedicationFrequency;
+
+  @ApiPropertyOptional({ example: 'Take with breakfast' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  instructions?: string;
+
+  @ApiPropertyOptional({ example: 'A1C above target' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class RecordAppointmentOutcomeDto {
+  @ApiPropertyOptional({ description: "Doctor's notes from the visit" })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10000)
+  doctorNotes?: string;
+
+  @ApiPropertyOptional({ example: ['Type 2 diabetes'], type: [String] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  @IsOptional()
+  diagnoses?: string[];
+
+  @ApiPropertyOptional({ type: [MedicationChangeDto] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => MedicationChangeDto)
+  @IsOptional()
+  medicationChanges?: MedicationChangeDto[];
+
+  @ApiPropertyOptional({ example: ['A1C', 'Lipid panel'], type: [String] })
+  @IsArray()
+  @ArrayMaxSize(30)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  @IsOptional()
+  orderedLabs?: string[];
+
+  @ApiPropertyOptional({ description: 'When the ordered labs should be done; drafts a lab appointment' })
+  @IsDateString()
+  @IsOptional()
+  labsDueDate?: string;
+
+  @ApiPropertyOptional({ description: 'When to come back; drafts a follow-up appointment' })
+  @IsDateString()
+  @IsOptional()
+  nextVisitDate?: string;
+}
+
+/**
+ * Details to fill in when a change is applied, for anything the visit notes
+ * left out
+ */
+export class ApplyMedicationChangeDto {
+  @ApiPropertyOptional({ example: '500mg' })
+  @IsString()
+  @IsOptional()
+  dosage?: string;
+
+  @ApiPropertyOptional({ enum: MedicationForm })
+  @IsEnum(MedicationForm)
+  @IsOptional()
+  form?: MedicationForm;
+
+  @ApiPropertyOptional({ enum: MedicationFrequency })
+  @IsEnum(MedicationFrequency)
+  @IsOptional()
+  frequency?: MedicationFrequency;
+
+  @ApiPropertyOptional({ example: 1, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  timesPerDay?: number;
+
+  @ApiPropertyOptional({ example: ['08:00'], type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  scheduledTimes?: string[];
+
+  @ApiPropertyOptional({ example: 'Take with breakfast' })
+  @IsString()
+  @IsOptional()
+  instructions?: string;
+}
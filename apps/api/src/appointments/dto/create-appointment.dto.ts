@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsEnum, IsOptional, IsDateString, IsArray, IsBoolean, IsInt, IsUUID, Min } from 'class-validator';
+import { IsString, IsNotEmpty, IsEnum, IsOptional, IsDateString, IsArray, IsBoolean, IsInt, IsUUID, Min, MaxLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { AppointmentType } from '@prisma/client';
 
@@ -118,6 +118,12 @@ export class CreateAppointmentDto {
   @IsOptional()
   reminderBefore?: string[];
 
+  @ApiPropertyOptional({ description: 'UID of the calendar invite the appointment was imported from' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  icsUid?: string;
+
   @ApiPropertyOptional({ description: 'ID of user assigned for transport', format: 'uuid' })
   @IsUUID()
   @IsOptional()
@@ -0,0 +1,17 @@
+import { ArrayMaxSize, ArrayMinSize, IsArray, ValidateNested } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { CreateAppointmentDto } from './create-appointment.dto';
+
+export class ImportAppointmentsDto {
+  @ApiProperty({
+    description: 'Appointments chosen from an import preview',
+    type: [CreateAppointmentDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => CreateAppointmentDto)
+  appointments: CreateAppointmentDto[];
+}
@@ -1,3 +1,4 @@
 export * from './create-appointment.dto';
 export * from './update-appointment.dto';
-
+export * from './import-appointments.dto';
+export * from './appointment-outcome.dto';
@@ -0,0 +1,138 @@
+import { IcsImportHelper } from './ics-import.helper';
+
+function calendar(...events: string[][]): string {
+  const body = events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']);
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...body, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('IcsImportHelper.parse', () => {
+  it('reads times in the TZID zone', () => {
+    const [event] = IcsImportHelper.parse(
+      calendar([
+        'UID:visit-1',
+        'SUMMARY:Cardiology follow-up',
+        'DTSTART;TZID=America/Los_Angeles:20240710T093000',
+        'DTEND;TZID=America/Los_Angeles:20240710T101500',
+      ]),
+      'America/New_York',
+    );
+
+    expect(event).toMatchObject({
+      uid: 'visit-1',
+      start: new Date('2024-07-10T16:30:00Z'),
+      end: new Date('2024-07-10T17:15:00Z'),
+      allDay: false,
+      timezone: 'America/Los_Angeles',
+    });
+  });
+
+  it('maps Windows and vendor-prefixed TZIDs to IANA zones', () => {
+    const events = IcsImportHelper.parse(
+      calendar(
+        ['UID:a', 'DTSTART;TZID=Central Standard Time:20240115T080000'],
+        ['UID:b', 'DTSTART;TZID=/mozilla.org/20050126_1/Europe/London:20240115T080000'],
+      ),
+      'America/New_York',
+    );
+
+    expect(events.map((event) => [event.timezone, event.start.toISOString()])).toEqual([
+      ['America/Chicago', '2024-01-15T14:00:00.000Z'],
+      ['Europe/London', '2024-01-15T08:00:00.000Z'],
+    ]);
+  });
+
+  it('reads floating times in the default zone and Z times as UTC', () => {
+    const events = IcsImportHelper.parse(
+      calendar(['UID:a', 'DTSTART:20240115T080000'], ['UID:b', 'DTSTART:20240115T080000Z', 'DURATION:PT30M']),
+      'America/Denver',
+    );
+
+    expect(events.map((event) => [event.timezone, event.start.toISOString(), event.end.toISOString()])).toEqual([
+      ['America/Denver', '2024-01-15T15:00:00.000Z', '2024-01-15T16:00:00.000Z'],
+      ['UTC', '2024-01-15T08:00:00.000Z', '2024-01-15T08:30:00.000Z'],
+    ]);
+  });
+
+  it('reads all-day events as a day in the default zone', () => {
+    const [event] = IcsImportHelper.parse(
+      calendar(['UID:labs', 'SUMMARY:Fasting labs', 'DTSTART;VALUE=DATE:20240301']),
+      'America/New_York',
+    );
+
+    expect(event).toMatchObject({
+      allDay: true,
+      start: new Date('2024-03-01T05:00:00Z'),
+      end: new Date('2024-03-02T05:00:00Z'),
+    });
+  });
+
+  it('moves overridden occurrences out of their series', () => {
+    const events = IcsImportHelper.parse(
+      calendar(
+        [
+          'UID:pt',
+          'SUMMARY:Physical therapy',
+          'LOCATION:Riverside Rehab',
+          'DTSTART;TZID=America/New_York:20240902T140000',
+          'RRULE:FREQ=WEEKLY;COUNT=4',
+        ],
+        [
+          'UID:pt',
+          'RECURRENCE-ID;TZID=America/New_York:20240909T140000',
+          'DTSTART;TZID=America/New_York:20240910T160000',
+        ],
+      ),
+      'America/New_York',
+    );
+
+    const [series, moved] = events;
+    expect(series.exdates).toEqual([new Date('2024-09-09T18:00:00Z')]);
+    expect(moved).toMatchObject({ location: 'Riverside Rehab', start: new Date('2024-09-10T20:00:00Z') });
+    expect(IcsImportHelper.toAppointment(moved).icsUid).toBe('pt#2024-09-09T18:00:00.000Z');
+  });
+
+  it('unfolds long lines and unescapes text', () => {
+    const content = calendar([
+      'UID:a',
+      'SUMMARY:Visit with Dr. Smith\\, cardiology',
+      'DESCRIPTION:Bring medication list\\nand insurance',
+      '  card',
+      'DTSTART:20240115T080000Z',
+    ]);
+
+    const [event] = IcsImportHelper.parse(content, 'UTC');
+
+    expect(event.summary).toBe('Visit with Dr. Smith, cardiology');
+    expect(event.description).toBe('Bring medication list\nand insurance card');
+  });
+});
+
+describe('IcsImportHelper.toAppointment', () => {
+  it('writes series with DTSTART and EXDATE in the event zone', () => {
+    const [event] = IcsImportHelper.parse(
+      calendar([
+        'UID:pt',
+        'SUMMARY:Physical therapy',
+        'DTSTART;TZID=America/New_York:20240902T140000',
+        'RRULE:FREQ=WEEKLY;COUNT=3',
+        'EXDATE;TZID=America/New_York:20240909T140000',
+      ]),
+      'UTC',
+    );
+
+    const dto = IcsImportHelper.toAppointment(event);
+
+    expect(dto).toMatchObject({ type: 'PHYSICAL_THERAPY', isRecurring: true, icsUid: 'pt' });
+    expect(dto.recurrenceRule).toBe(
+      [
+        'DTSTART;TZID=America/New_York:20240902T140000',
+        'RRULE:FREQ=WEEKLY;COUNT=3',
+        'EXDATE;TZID=America/New_York:20240909T140000',
+      ].join('\n'),
+    );
+    expect(IcsImportHelper.occurrences(dto).map((date) => date.toISOString())).toEqual([
+      '2024-09-02T18:00:00.000Z',
+      '2024-09-16T18:00:00.000Z',
+    ]);
+  });
+});
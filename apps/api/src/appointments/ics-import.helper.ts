@@ -0,0 +1,449 @@
+import { AppointmentType, Doctor } from '@prisma/client';
+import { addDays, addMinutes } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { rrulestr } from 'rrule';
+import { CreateAppointmentDto } from './dto/create-appointment.dto';
+
+export interface IcsOrganizer {
+  name: string | null;
+  email: string | null;
+}
+
+export interface IcsEventData {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  organizer: IcsOrganizer | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone: string;
+  rrule: string | null;
+  exdates: Date[];
+  recurrenceId: Date | null;
+  cancelled: boolean;
+}
+
+export type DoctorMatchReason = 'organizer' | 'location' | 'text';
+
+export type MatchableDoctor = Pick<Doctor, 'id' | 'name' | 'specialty' | 'email' | 'address'>;
+
+export interface ExistingAppointment {
+  id: string;
+  title: string;
+  startTime: Date;
+  doctorId: string | null;
+  location: string | null;
+  icsUid: string | null;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Past this many occurrences a series is cut off, as in createRecurringSeries
+export const MAX_IMPORT_OCCURRENCES = 52;
+
+const DUPLICATE_WINDOW_MINUTES = 30;
+
+// Outlook writes Windows zone names; these are the ones seen in practice
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Atlantic Standard Time': 'America/Halifax',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'India Standard Time': 'Asia/Kolkata',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  UTC: 'UTC',
+};
+
+const TYPE_KEYWORDS: [AppointmentType, RegExp][] = [
+  ['LAB_WORK', /\b(lab|labs|blood ?work|blood test|draw|specimen)\b/i],
+  ['IMAGING', /\b(x-?ray|mri|ct scan|cat scan|ultrasound|imaging|mammogram|radiology|scan)\b/i],
+  ['PHYSICAL_THERAPY', /\b(physical therapy|physiotherapy|physio|rehab|pt session)\b/i],
+  ['HOME_HEALTH', /\b(home health|home visit|visiting nurse)\b/i],
+  ['SPECIALIST', /\b(cardiology|neurology|oncology|dermatology|orthopa?edic|urology|specialist|ophthalmology|endocrinology)\b/i],
+];
+
+/**
+ * Reads calendar invites (.ics) into appointments: parses VEVENTs, resolves
+ * their timezones, picks an appointment type, matches the organizer or
+ * location to a known doctor and finds existing appointments they duplicate.
+ */
+export class IcsImportHelper {
+  /**
+   * Events in an iCalendar document. Times without a timezone are read in
+   * `defaultTimezone`. Occurrences that override part of a series are
+   * returned as their own events, and dropped from the series with an EXDATE.
+   */
+  static parse(content: string, defaultTimezone: string): IcsEventData[] {
+    const lines = content
+      .replace(/\r?\n[ \t]/g, '')
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== '')
+      .map((line) => this.parseLine(line));
+
+    const method = lines.find((line) => line.name === 'METHOD')?.value.toUpperCase();
+    const events: IcsEventData[] = [];
+    let current: ContentLine[] | null = null;
+    let depth = 0; // Nested components such as VALARM
+
+    for (const line of lines) {
+      if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+        current = [];
+        depth = 0;
+      } else if (current && line.name === 'BEGIN') {
+        depth++;
+      } else if (current && line.name === 'END' && depth > 0) {
+        depth--;
+      } else if (current && line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+        const event = this.toEvent(current, defaultTimezone, method === 'CANCEL');
+        if (event) events.push(event);
+        current = null;
+      } else if (current && depth === 0) {
+        current.push(line);
+      }
+    }
+
+    // Overridden occurrences leave the series, keeping what they do not change
+    for (const event of events) {
+      if (!event.recurrenceId) continue;
+      const master = events.find((e) => e.uid === event.uid && !e.recurrenceId && e.rrule);
+      if (!master) continue;
+
+      master.exdates.push(event.recurrenceId);
+      event.description ??= master.description;
+      event.location ??= master.location;
+      event.url ??= master.url;
+      event.organizer ??= master.organizer;
+    }
+
+    return events;
+  }
+
+  /**
+   * The appointment to create for an event. Series carry a recurrence rule
+   * with DTSTART and EXDATE lines, expanded in the event's own timezone.
+   */
+  static toAppointment(event: IcsEventData, doctorId?: string): CreateAppointmentDto {
+    const { location, address } = this.splitLocation(event.location);
+    const notes = [event.description, event.url].filter(Boolean).join('\n\n');
+
+    return {
+      title: event.summary,
+      type: this.guessType(event),
+      startTime: event.start.toISOString(),
+      endTime: event.end.toISOString(),
+      ...(doctorId && { doctorId }),
+      ...(location && { location }),
+      ...(address && { address }),
+      ...(notes && { notes: notes.slice(0, 5000) }),
+      ...(event.rrule && { isRecurring: true, recurrenceRule: this.recurrenceRule(event) }),
+      icsUid: event.recurrenceId ? `${event.uid}#${event.recurrenceId.toISOString()}` : event.uid,
+    };
+  }
+
+  /**
+   * Start times an appointment will have once created
+   */
+  static occurrences(dto: CreateAppointmentDto): Date[] {
+    if (!dto.recurrenceRule) {
+      return [new Date(dto.startTime!)];
+    }
+
+    return rrulestr(dto.recurrenceRule, { forceset: true }).all((_date, index) => index < MAX_IMPORT_OCCURRENCES);
+  }
+
+  static guessType(event: Pick<IcsEventData, 'summary' | 'description'>): AppointmentType {
+    const text = `${event.summary} ${event.description || ''}`;
+    return TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] || 'DOCTOR_VISIT';
+  }
+
+  /**
+   * The care recipient's doctor an invite is most likely from: the
+   * organizer's email or name first, then the address, then a mention of the
+   * doctor in the title or description
+   */
+  static matchDoctor(
+    event: IcsEventData,
+    doctors: MatchableDoctor[],
+  ): { doctor: MatchableDoctor; matchedBy: DoctorMatchReason } | null {
+    const organizerEmail = event.organizer?.email?.toLowerCase();
+    const organizerName = event.organizer?.name ? this.nameTokens(event.organizer.name) : null;
+
+    const byOrganizer = doctors.find(
+      (doctor) =>
+        (organizerEmail && doctor.email?.toLowerCase() === organizerEmail) ||
+        (organizerName && this.sameName(this.nameTokens(doctor.name), organizerName)),
+    );
+    if (byOrganizer) {
+      return { doctor: byOrganizer, matchedBy: 'organizer' };
+    }
+
+    const place = this.normalize(event.location || '');
+    const byLocation = doctors.find((doctor) => {
+      const street = this.normalize((doctor.address || '').split(',')[0]);
+      return street.length >= 6 && place.includes(street);
+    });
+    if (byLocation) {
+      return { doctor: byLocation, matchedBy: 'location' };
+    }
+
+    const text = ` ${this.normalize(`${event.summary} ${event.description || ''}`)} `;
+    const byText = doctors.find((doctor) => {
+      const tokens = this.nameTokens(doctor.name);
+      const surname = tokens[tokens.length - 1];
+      return (
+        (tokens.length > 1 && text.includes(` ${tokens.join(' ')} `)) ||
+        (surname?.length >= 3 && text.includes(` dr ${surname} `))
+      );
+    });
+
+    return byText ? { doctor: byText, matchedBy: 'text' } : null;
+  }
+
+  /**
+   * Existing appointments an import would repeat: the same invite imported
+   * before, or one starting within half an hour with a similar title or the
+   * same doctor or place
+   */
+  static findDuplicates(
+    dto: CreateAppointmentDto,
+    occurrences: Date[],
+    existing: ExistingAppointment[],
+  ): ExistingAppointment[] {
+    const baseUid = dto.icsUid?.split('#')[0];
+    const title = this.normalize(dto.title);
+    const place = this.normalize(dto.location || '');
+    const window = DUPLICATE_WINDOW_MINUTES * 60000;
+
+    return existing.filter((appointment) => {
+      if (baseUid && appointment.icsUid?.split('#')[0] === baseUid) {
+        return true;
+      }
+
+      const near = occurrences.some(
+        (start) => Math.abs(start.getTime() - appointment.startTime.getTime()) <= window,
+      );
+      if (!near) {
+        return false;
+      }
+
+      const otherTitle = this.normalize(appointment.title);
+      return (
+        (title.length > 0 && (otherTitle.includes(title) || title.includes(otherTitle))) ||
+        (!!dto.doctorId && appointment.doctorId === dto.doctorId) ||
+        (place.length > 0 && this.normalize(appointment.location || '') === place)
+      );
+    });
+  }
+
+  private static toEvent(lines: ContentLine[], defaultTimezone: string, cancelled: boolean): IcsEventData | null {
+    const get = (name: string) => lines.find((line) => line.name === name);
+    const dtstart = get('DTSTART');
+
+    if (!dtstart) {
+      return null;
+    }
+
+    const start = this.parseDate(dtstart, defaultTimezone);
+    if (!start) {
+      return null;
+    }
+
+    const dtend = get('DTEND');
+    const duration = get('DURATION');
+    const end =
+      (dtend && this.parseDate(dtend, defaultTimezone)?.date) ||
+      (duration && this.addDuration(start.date, duration.value)) ||
+      (start.allDay ? addDays(start.date, 1) : addMinutes(start.date, 60));
+
+    const organizer = get('ORGANIZER');
+    const recurrenceId = get('RECURRENCE-ID');
+    const exdates = lines
+      .filter((line) => line.name === 'EXDATE')
+      .flatMap((line) =>
+        line.value.split(',').map((value) => this.parseDate({ ...line, value }, defaultTimezone)?.date),
+      )
+      .filter((date): date is Date => !!date);
+
+    return {
+      uid: get('UID')?.value || `${start.date.toISOString()}-${get('SUMMARY')?.value || ''}`,
+      summary: this.unescape(get('SUMMARY')?.value || '').trim() || 'Imported appointment',
+      description: this.unescape(get('DESCRIPTION')?.value || '').trim() || null,
+      location: this.unescape(get('LOCATION')?.value || '').trim() || null,
+      url: get('URL')?.value || null,
+      organizer: organizer
+        ? {
+            name: organizer.params.CN ? organizer.params.CN.replace(/^"|"$/g, '') : null,
+            email: organizer.value.replace(/^mailto:/i, '') || null,
+          }
+        : null,
+      start: start.date,
+      end: end > start.date ? end : addMinutes(start.date, 60),
+      allDay: start.allDay,
+      timezone: start.timezone,
+      rrule: get('RRULE')?.value || null,
+      exdates,
+      recurrenceId: recurrenceId ? this.parseDate(recurrenceId, defaultTimezone)?.date || null : null,
+      cancelled: cancelled || get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    };
+  }
+
+  /**
+   * NAME;PARAM=VALUE;PARAM="quoted:value":value
+   */
+  private static parseLine(line: string): ContentLine {
+    let inQuotes = false;
+    let colon = -1;
+
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+
+    const head = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1);
+    const [name, ...params] = head.split(';');
+
+    return {
+      name: name.toUpperCase(),
+      params: Object.fromEntries(
+        params.map((param) => {
+          const [key, ...rest] = param.split('=');
+          return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+        }),
+      ),
+      value: value.trim(),
+    };
+  }
+
+  private static parseDate(
+    line: ContentLine,
+    defaultTimezone: string,
+  ): { date: Date; allDay: boolean; timezone: string } | null {
+    const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+    const allDay = line.params.VALUE === 'DATE' || match[4] === undefined;
+    const timezone = utc ? 'UTC' : this.resolveTimezone(line.params.TZID) || defaultTimezone;
+    const date = fromZonedTime(`${year}-${month}-${day}T${hour}:${minute}:${second}`, timezone);
+
+    return isNaN(date.getTime()) ? null : { date, allDay, timezone };
+  }
+
+  /**
+   * IANA name for a TZID, which may be a Windows zone name or carry a
+   * vendor prefix such as /mozilla.org/20050126_1/America/New_York
+   */
+  private static resolveTimezone(tzid?: string): string | null {
+    if (!tzid) return null;
+    if (WINDOWS_TIMEZONES[tzid]) return WINDOWS_TIMEZONES[tzid];
+
+    const candidates = [tzid, tzid.split('/').slice(-2).join('/'), tzid.split('/').slice(-3).join('/')];
+    return candidates.find((candidate) => this.isTimezone(candidate)) || null;
+  }
+
+  private static isTimezone(timezone: string): boolean {
+    try {
+      formatInTimeZone(new Date(), timezone, 'x');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * ISO 8601 durations as used by iCalendar, e.g. PT1H30M or P1D
+   */
+  private static addDuration(start: Date, value: string): Date | null {
+    const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, weeks = '0', days = '0', hours = '0', minutes = '0'] = match;
+    return addMinutes(addDays(start, Number(weeks) * 7 + Number(days)), Number(hours) * 60 + Number(minutes));
+  }
+
+  private static recurrenceRule(event: IcsEventData): string {
+    const stamp = (date: Date) =>
+      event.timezone === 'UTC'
+        ? `:${formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss")}Z`
+        : `;TZID=${event.timezone}:${formatInTimeZone(date, event.timezone, "yyyyMMdd'T'HHmmss")}`;
+
+    return [
+      `DTSTART${stamp(event.start)}`,
+      `RRULE:${event.rrule}`,
+      ...event.exdates.map((date) => `EXDATE${stamp(date)}`),
+    ].join('\n');
+  }
+
+  /**
+   * "Springfield Clinic, 123 Main St, Springfield" is a place and an address
+   */
+  private static splitLocation(value: string | null): { location?: string; address?: string } {
+    if (!value) return {};
+
+    const [first, ...rest] = value.split(',').map((part) => part.trim());
+    if (rest.length > 0 && !/\d/.test(first) && /^\d/.test(rest[0])) {
+      return { location: first, address: rest.join(', ') };
+    }
+
+    return /^\d/.test(value) ? { address: value } : { location: value };
+  }
+
+  private static unescape(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+  }
+
+  private static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Name words without titles or credentials, first name first:
+   * "Dr. Jane Smith, MD" and "Smith, Jane MD" -> jane smith
+   */
+  private static nameTokens(name: string): string[] {
+    const words = (text: string) =>
+      this.normalize(text)
+        .split(' ')
+        .filter((token) => token && !['dr', 'md', 'do', 'np', 'pa', 'rn', 'phd', 'dds'].includes(token));
+
+    const [head, ...tail] = name.split(',');
+    const rest = words(tail.join(' '));
+    return rest.length > 0 ? [...rest, ...words(head)] : words(head);
+  }
+
+  /**
+   * Same surname, and the same first initial when both names have one
+   */
+  private static sameName(a: string[], b: string[]): boolean {
+    if (a.length === 0 || b.length === 0 || a[a.length - 1] !== b[b.length - 1]) {
+      return false;
+    }
+    return a.length === 1 || b.length === 1 || a[0][0] === b[0][0];
+  }
+}
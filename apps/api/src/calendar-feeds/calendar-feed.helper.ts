@@ -0,0 +1,189 @@
+import { Appointment, CaregiverShift } from '@prisma/client';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { RRule } from 'rrule';
+import { IcsEvent } from './ics.helper';
+
+interface FeedCareRecipient {
+  fullName: string;
+  preferredName: string | null;
+}
+
+export type FeedAppointment = Appointment & {
+  careRecipient: FeedCareRecipient;
+  doctor: { name: string; specialty: string } | null;
+};
+
+export type FeedShift = CaregiverShift & { careRecipient: FeedCareRecipient };
+
+const UID_DOMAIN = 'carecircle';
+
+/**
+ * Turns appointments and shifts into calendar events. A recurring series,
+ * stored as one appointment per occurrence, becomes a single event with an
+ * RRULE; cancelled or missing occurrences become EXDATEs, and occurrences
+ * that were moved or edited are sent as overrides.
+ */
+export class CalendarFeedHelper {
+  static appointmentEvents(appointments: FeedAppointment[], timezone: string): IcsEvent[] {
+    const events: IcsEvent[] = [];
+    const series = new Map<string, FeedAppointment[]>();
+
+    for (const appointment of appointments) {
+      if (appointment.recurringSeriesId && appointment.recurrenceRule) {
+        const rows = series.get(appointment.recurringSeriesId) || [];
+        rows.push(appointment);
+        series.set(appointment.recurringSeriesId, rows);
+        continue;
+      }
+
+      if (appointment.status === 'CANCELLED') {
+        continue;
+      }
+
+      // A recurring appointment that was never expanded into a series
+      const rrule =
+        appointment.isRecurring && appointment.recurrenceRule
+          ? this.ruleValue(appointment.recurrenceRule)
+          : undefined;
+
+      events.push({
+        ...this.appointmentEvent(appointment),
+        uid: `appointment-${appointment.id}@${UID_DOMAIN}`,
+        ...(rrule && { rrule }),
+      });
+    }
+
+    for (const [seriesId, rows] of series) {
+      events.push(...this.seriesEvents(seriesId, rows, timezone));
+    }
+
+    return events;
+  }
+
+  static shiftEvent(shift: FeedShift): IcsEvent {
+    return {
+      uid: `shift-${shift.id}@${UID_DOMAIN}`,
+      start: shift.startTime,
+      end: shift.endTime,
+      summary: `Caregiving shift · ${this.recipientName(shift.careRecipient)}`,
+      description: shift.notes,
+      lastModified: shift.updatedAt,
+    };
+  }
+
+  /**
+   * Occurrences are expanded in the feed's timezone, the way calendar apps
+   * expand the RRULE, so occurrences stored at a different instant (for
+   * example a fixed UTC time across a daylight saving change) get overrides.
+   */
+  private static seriesEvents(seriesId: string, rows: FeedAppointment[], timezone: string): IcsEvent[] {
+    const sorted = [...rows].sort((a, b) => (a.recurringIndex ?? 0) - (b.recurringIndex ?? 0));
+    const base = sorted[0];
+    const uid = `appointment-series-${seriesId}@${UID_DOMAIN}`;
+
+    // EXDATE lines are left out; missing occurrences are excluded below anyway
+    const ruleLines = base.recurrenceRule!.split(/\r?\n/).filter((line) => /^(DTSTART|RRULE)[:;]/.test(line));
+    const { dtstart, until, count: _count, tzid, ...options } = RRule.parseString(ruleLines.join('\n'));
+    const lastIndex = Math.max(...sorted.map((row) => row.recurringIndex ?? 0));
+
+    // With a TZID, rrule gives DTSTART as that zone's wall-clock time
+    const firstStart = dtstart && tzid ? fromZonedTime(dtstart.toISOString().slice(0, 19), tzid) : dtstart;
+
+    const rule = new RRule({
+      ...options,
+      dtstart: this.floating(firstStart ?? base.startTime, timezone),
+      until: until ? this.floating(until, timezone) : null,
+    });
+    const expected = rule
+      .all((_date, index) => index <= lastIndex)
+      .map((date) => fromZonedTime(date.toISOString().slice(0, 19), timezone));
+
+    if (expected.length === 0) {
+      return [];
+    }
+
+    const byIndex = new Map(sorted.map((row) => [row.recurringIndex ?? 0, row]));
+    const duration = base.endTime.getTime() - base.startTime.getTime();
+    const master = this.appointmentEvent(base);
+    const exdates: Date[] = [];
+    const overrides: IcsEvent[] = [];
+
+    expected.forEach((start, index) => {
+      const row = byIndex.get(index);
+
+      if (!row || row.status === 'CANCELLED') {
+        exdates.push(start);
+        return;
+      }
+
+      const event = this.appointmentEvent(row);
+      const changed =
+        row.startTime.getTime() !== start.getTime() ||
+        row.endTime.getTime() - row.startTime.getTime() !== duration ||
+        event.summary !== master.summary ||
+        event.location !== master.location ||
+        event.description !== master.description;
+
+      if (changed) {
+        overrides.push({ ...event, uid, recurrenceId: start });
+      }
+    });
+
+    if (exdates.length === expected.length) {
+      return [];
+    }
+
+    return [
+      {
+        ...master,
+        uid,
+        start: expected[0],
+        end: new Date(expected[0].getTime() + duration),
+        rrule: RRule.optionsToString({ ...options, count: expected.length }).replace(/^RRULE:/, ''),
+        exdates,
+        lastModified: new Date(Math.max(...sorted.map((row) => row.updatedAt.getTime()))),
+      },
+      ...overrides,
+    ];
+  }
+
+  private static appointmentEvent(appointment: FeedAppointment) {
+    const type = appointment.type.charAt(0) + appointment.type.slice(1).toLowerCase().replace(/_/g, ' ');
+    const description = [
+      type,
+      appointment.doctor && `With ${appointment.doctor.name} (${appointment.doctor.specialty})`,
+      appointment.notes,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      start: appointment.startTime,
+      end: appointment.endTime,
+      summary: `${appointment.title} · ${this.recipientName(appointment.careRecipient)}`,
+      location: [appointment.location, appointment.address].filter(Boolean).join(', ') || null,
+      description,
+      lastModified: appointment.updatedAt,
+    };
+  }
+
+  /**
+   * The RRULE value from a stored rule, which may carry a DTSTART line
+   */
+  private static ruleValue(rule: string): string | undefined {
+    const line = rule.split(/\r?\n/).find((l) => l.startsWith('RRULE:') || l.startsWith('FREQ='));
+    return line?.replace(/^RRULE:/, '');
+  }
+
+  /**
+   * A date whose UTC fields are the wall-clock time in the timezone, which
+   * is how rrule expands rules without drifting across DST changes
+   */
+  private static floating(date: Date, timezone: string): Date {
+    return new Date(formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ss") + 'Z');
+  }
+
+  private static recipientName(careRecipient: FeedCareRecipient): string {
+    return careRecipient.preferredName || careRecipient.fullName;
+  }
+}
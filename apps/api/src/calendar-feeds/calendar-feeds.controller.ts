@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Res,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { CreateCalendarFeedDto } from './dto/create-calendar-feed.dto';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { Public } from '../system/decorator/public.decorator';
+
+interface CurrentUserPayload {
+  id: string;
+  email: string;
+}
+
+@ApiTags('Calendar Feeds')
+@ApiBearerAuth('JWT-auth')
+@Controller('calendar-feeds')
+export class CalendarFeedsController {
+  constructor(private readonly calendarFeedsService: CalendarFeedsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my calendar subscription feeds' })
+  getFeeds(@CurrentUser() user: CurrentUserPayload) {
+    return this.calendarFeedsService.getFeeds(user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a calendar subscription feed' })
+  createFeed(@CurrentUser() user: CurrentUserPayload, @Body() dto: CreateCalendarFeedDto) {
+    return this.calendarFeedsService.createFeed(user.id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke a calendar subscription feed' })
+  revokeFeed(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.calendarFeedsService.revokeFeed(user.id, id);
+  }
+
+  @Public()
+  @Get(':token.ics')
+  @ApiOperation({ summary: 'iCalendar feed of appointments and shifts (Public, authenticated by token)' })
+  @ApiResponse({ status: 404, description: 'Feed not found or revoked' })
+  async getIcs(@Param('token') token: string, @Res() res: Response) {
+    const ics = await this.calendarFeedsService.renderFeed(token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="carecircle.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(ics);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { CalendarFeedsController } from './calendar-feeds.controller';
+
+@Module({
+  controllers: [CalendarFeedsController],
+  providers: [CalendarFeedsService],
+})
+export class CalendarFeedsModule {}
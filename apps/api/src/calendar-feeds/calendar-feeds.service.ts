@@ -0,0 +1,131 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { subDays } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateHelper } from '../system/helper/date.helper';
+import { CreateCalendarFeedDto } from './dto/create-calendar-feed.dto';
+import { CalendarFeedHelper } from './calendar-feed.helper';
+import { IcsEvent, IcsHelper } from './ics.helper';
+
+// Past events stay in the feed this long
+const FEED_HISTORY_DAYS = 90;
+
+const MAX_FEEDS_PER_USER = 10;
+
+const CARE_RECIPIENT_SELECT = { fullName: true, preferredName: true } as const;
+
+/**
+ * Per-user iCalendar subscription feeds. Each feed has its own secret token
+ * so one leaked URL can be revoked without touching the others.
+ */
+@Injectable()
+export class CalendarFeedsService {
+  constructor(private prisma: PrismaService) {}
+
+  getFeeds(userId: string) {
+    return this.prisma.calendarFeed.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async createFeed(userId: string, dto: CreateCalendarFeedDto) {
+    if (dto.includeAppointments === false && dto.includeShifts === false) {
+      throw new BadRequestException('A feed must include appointments, shifts or both');
+    }
+
+    const active = await this.prisma.calendarFeed.count({ where: { userId, revokedAt: null } });
+
+    if (active >= MAX_FEEDS_PER_USER) {
+      throw new BadRequestException(`You can have up to ${MAX_FEEDS_PER_USER} calendar feeds`);
+    }
+
+    return this.prisma.calendarFeed.create({
+      data: {
+        userId,
+        token: randomBytes(32).toString('hex'),
+        name: dto.name?.trim() || null,
+        includeAppointments: dto.includeAppointments ?? true,
+        includeShifts: dto.includeShifts ?? true,
+      },
+    });
+  }
+
+  async revokeFeed(userId: string, feedId: string) {
+    const feed = await this.prisma.calendarFeed.findFirst({
+      where: { id: feedId, userId, revokedAt: null },
+    });
+
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feedId },
+      data: { revokedAt: new Date() },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * The feed as an .ics document, in the owner's timezone
+   */
+  async renderFeed(token: string): Promise<string> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { token },
+      include: { user: { select: { id: true, timezone: true } } },
+    });
+
+    if (!feed || feed.revokedAt) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const userId = feed.user.id;
+    const timezone = IcsHelper.isValidTimezone(feed.user.timezone)
+      ? feed.user.timezone
+      : DateHelper.DEFAULT_TIMEZONE;
+    const since = subDays(new Date(), FEED_HISTORY_DAYS);
+    const events: IcsEvent[] = [];
+
+    if (feed.includeAppointments) {
+      const appointments = await this.prisma.appointment.findMany({
+        where: {
+          endTime: { gte: since },
+          status: { not: 'DRAFT' },
+          careRecipient: {
+            family: { members: { some: { userId, isActive: true } } },
+          },
+        },
+        include: {
+          careRecipient: { select: CARE_RECIPIENT_SELECT },
+          doctor: { select: { name: true, specialty: true } },
+        },
+        orderBy: { startTime: 'asc' },
+      });
+
+      events.push(...CalendarFeedHelper.appointmentEvents(appointments, timezone));
+    }
+
+    if (feed.includeShifts) {
+      const shifts = await this.prisma.caregiverShift.findMany({
+        where: {
+          caregiverId: userId,
+          endTime: { gte: since },
+          status: { not: 'CANCELLED' },
+        },
+        include: { careRecipient: { select: CARE_RECIPIENT_SELECT } },
+        orderBy: { startTime: 'asc' },
+      });
+
+      events.push(...shifts.map((shift) => CalendarFeedHelper.shiftEvent(shift)));
+    }
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return IcsHelper.render({ name: feed.name ? `CareCircle · ${feed.name}` : 'CareCircle', timezone, events });
+  }
+}
@@ -0,0 +1,20 @@
+import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCalendarFeedDto {
+  @ApiPropertyOptional({ description: 'Label to tell feeds apart', example: 'Work phone' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Include appointments for every care recipient in your families', default: true })
+  @IsBoolean()
+  @IsOptional()
+  includeAppointments?: boolean;
+
+  @ApiPropertyOptional({ description: 'Include your own caregiver shifts', default: true })
+  @IsBoolean()
+  @IsOptional()
+  includeShifts?: boolean;
+}
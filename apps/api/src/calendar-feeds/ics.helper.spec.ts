@@ -0,0 +1,153 @@
+import { IcsHelper } from './ics.helper';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+function render(events: Parameters<typeof IcsHelper.render>[0]['events'], timezone = 'America/New_York') {
+  return IcsHelper.render({ name: 'Care calendar', timezone, events }, now).split('\r\n');
+}
+
+/** The lines between BEGIN:<name> and END:<name>, for each such component */
+function components(lines: string[], name: string): string[][] {
+  const result: string[][] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (line === `BEGIN:${name}`) {
+      current = [];
+    } else if (line === `END:${name}` && current) {
+      result.push(current);
+      current = null;
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  return result;
+}
+
+describe('IcsHelper', () => {
+  describe('render', () => {
+    it('writes event times as wall-clock times with a TZID', () => {
+      const lines = render([
+        {
+          uid: 'appt-1@carecircle',
+          start: new Date('2024-07-10T13:30:00Z'),
+          end: new Date('2024-07-10T14:15:00Z'),
+          summary: 'Cardiology; follow-up, bring list',
+          location: 'Springfield Clinic',
+        },
+      ]);
+
+      const [event] = components(lines, 'VEVENT');
+      expect(event).toEqual([
+        'UID:appt-1@carecircle',
+        'DTSTAMP:20240301T120000Z',
+        'DTSTART;TZID=America/New_York:20240710T093000',
+        'DTEND;TZID=America/New_York:20240710T101500',
+        'SUMMARY:Cardiology\\; follow-up\\, bring list',
+        'LOCATION:Springfield Clinic',
+      ]);
+      expect(lines).toContain('X-WR-TIMEZONE:America/New_York');
+      expect(lines[lines.length - 1]).toBe('');
+    });
+
+    it('writes recurrence ids and exdates in the calendar timezone', () => {
+      const lines = render(
+        [
+          {
+            uid: 'series-1',
+            start: new Date('2024-03-04T08:00:00Z'),
+            end: new Date('2024-03-04T09:00:00Z'),
+            summary: 'Physical therapy',
+            rrule: 'FREQ=WEEKLY;COUNT=4',
+            exdates: [new Date('2024-03-11T08:00:00Z'), new Date('2024-03-18T08:00:00Z')],
+          },
+          {
+            uid: 'series-1',
+            start: new Date('2024-03-26T09:00:00Z'),
+            end: new Date('2024-03-26T10:00:00Z'),
+            summary: 'Physical therapy',
+            recurrenceId: new Date('2024-03-25T08:00:00Z'),
+          },
+        ],
+        'Europe/London',
+      );
+
+      const [series, moved] = components(lines, 'VEVENT');
+      expect(series).toContain('RRULE:FREQ=WEEKLY;COUNT=4');
+      expect(series).toContain('EXDATE;TZID=Europe/London:20240311T080000,20240318T080000');
+      expect(moved).toContain('RECURRENCE-ID;TZID=Europe/London:20240325T080000');
+      // Daylight saving began on 31 March, after every event here
+      expect(moved).toContain('DTSTART;TZID=Europe/London:20240326T090000');
+    });
+
+    it('describes the daylight saving changes the events span', () => {
+      const lines = render([
+        {
+          uid: 'shift-1',
+          start: new Date('2024-03-01T14:00:00Z'),
+          end: new Date('2024-03-01T18:00:00Z'),
+          summary: 'Shift',
+        },
+        {
+          uid: 'shift-2',
+          start: new Date('2024-11-15T14:00:00Z'),
+          end: new Date('2024-11-15T18:00:00Z'),
+          summary: 'Shift',
+        },
+      ]);
+
+      expect(components(lines, 'STANDARD')).toEqual([
+        ['DTSTART:19700101T000000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0500'],
+        ['DTSTART:20241103T020000', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500'],
+      ]);
+      expect(components(lines, 'DAYLIGHT')).toEqual([
+        ['DTSTART:20240310T020000', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400'],
+      ]);
+    });
+
+    it('writes a single observance for zones without daylight saving', () => {
+      const lines = render(
+        [
+          {
+            uid: 'visit-1',
+            start: new Date('2024-06-01T10:00:00Z'),
+            end: new Date('2024-06-01T11:00:00Z'),
+            summary: 'Visit',
+          },
+        ],
+        'Asia/Kolkata',
+      );
+
+      expect(components(lines, 'STANDARD')).toEqual([
+        ['DTSTART:19700101T000000', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530'],
+      ]);
+      expect(components(lines, 'VEVENT')[0]).toContain('DTSTART;TZID=Asia/Kolkata:20240601T153000');
+    });
+  });
+
+  describe('fold', () => {
+    it('splits long lines at 75 octets without breaking characters', () => {
+      const line = `DESCRIPTION:${'é'.repeat(80)}`;
+
+      const folded = IcsHelper.fold(line).split('\r\n');
+
+      expect(folded.every((part) => Buffer.byteLength(part) <= 75)).toBe(true);
+      expect(folded.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+      expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    });
+
+    it('leaves short lines alone', () => {
+      expect(IcsHelper.fold('SUMMARY:Visit')).toBe('SUMMARY:Visit');
+    });
+  });
+
+  it('escapes text values', () => {
+    expect(IcsHelper.escape('Line one\nback\\slash; a, b')).toBe('Line one\\nback\\\\slash\\; a\\, b');
+  });
+
+  it('recognizes IANA timezones', () => {
+    expect(IcsHelper.isValidTimezone('America/Chicago')).toBe(true);
+    expect(IcsHelper.isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
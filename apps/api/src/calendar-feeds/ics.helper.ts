@@ -0,0 +1,228 @@
+import { addDays } from 'date-fns';
+import { formatInTimeZone, getTimezoneOffset } from 'date-fns-tz';
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  rrule?: string; // RRULE value, without the "RRULE:" prefix
+  exdates?: Date[];
+  recurrenceId?: Date; // Set on an occurrence that overrides part of a recurring event
+  lastModified?: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  timezone: string;
+  events: IcsEvent[];
+}
+
+const LOCAL_FORMAT = "yyyyMMdd'T'HHmmss";
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Serializes events to iCalendar (RFC 5545). Times are written as wall-clock
+ * times in the calendar's timezone, which is described by a VTIMEZONE built
+ * from the runtime's tz database, so recurring events keep their local time
+ * across daylight saving changes.
+ */
+export class IcsHelper {
+  static isValidTimezone(timezone: string): boolean {
+    return !isNaN(getTimezoneOffset(timezone, new Date()));
+  }
+
+  static render(calendar: IcsCalendar, now = new Date()): string {
+    const { timezone, events } = calendar;
+    const dates = events.flatMap((event) => [event.start, event.end, ...(event.exdates || [])]);
+    const from = dates.length > 0 ? new Date(Math.min(...dates.map((d) => d.getTime()))) : now;
+    const until = dates.length > 0 ? new Date(Math.max(...dates.map((d) => d.getTime()))) : now;
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//CareCircle//Calendar Feed//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(calendar.name)}`,
+      `X-WR-TIMEZONE:${timezone}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+      ...this.timezone(timezone, from, until),
+      ...events.flatMap((event) => this.event(event, timezone, now)),
+      'END:VCALENDAR',
+    ];
+
+    return lines.map((line) => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  static escape(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Splits a content line into 75-octet chunks, never inside a UTF-8 character
+   */
+  static fold(line: string): string {
+    if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+      return line;
+    }
+
+    const chunks: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      // Continuation lines start with a space, which counts towards the limit
+      const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+      if (octets + size > limit) {
+        chunks.push(current);
+        current = '';
+        octets = 0;
+      }
+
+      current += char;
+      octets += size;
+    }
+
+    chunks.push(current);
+    return chunks.join('\r\n ');
+  }
+
+  static utc(date: Date): string {
+    return formatInTimeZone(date, 'UTC', LOCAL_FORMAT) + 'Z';
+  }
+
+  static local(date: Date, timezone: string): string {
+    return formatInTimeZone(date, timezone, LOCAL_FORMAT);
+  }
+
+  private static event(event: IcsEvent, timezone: string, now: Date): string[] {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${this.utc(now)}`,
+      `DTSTART;TZID=${timezone}:${this.local(event.start, timezone)}`,
+      `DTEND;TZID=${timezone}:${this.local(event.end, timezone)}`,
+      `SUMMARY:${this.escape(event.summary)}`,
+    ];
+
+    if (event.recurrenceId) {
+      lines.push(`RECURRENCE-ID;TZID=${timezone}:${this.local(event.recurrenceId, timezone)}`);
+    }
+    if (event.rrule) {
+      lines.push(`RRULE:${event.rrule}`);
+    }
+    if (event.exdates?.length) {
+      lines.push(
+        `EXDATE;TZID=${timezone}:${event.exdates.map((date) => this.local(date, timezone)).join(',')}`,
+      );
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${this.escape(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${this.escape(event.description)}`);
+    }
+    if (event.lastModified) {
+      lines.push(`LAST-MODIFIED:${this.utc(event.lastModified)}`);
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  /**
+   * VTIMEZONE with one observance per UTC offset change between `from` and
+   * `until`, plus the offset in effect before the first of them
+   */
+  private static timezone(timezone: string, from: Date, until: Date): string[] {
+    const transitions = this.transitions(timezone, addDays(from, -1), addDays(until, 1));
+    const initialOffset = this.offsetAt(timezone, addDays(from, -1));
+    const offsets = [initialOffset, ...transitions.map((t) => t.offset)];
+    const standardOffset = Math.min(...offsets);
+
+    const observance = (onset: string, offsetFrom: number, offsetTo: number) => {
+      const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${onset}`,
+        `TZOFFSETFROM:${this.offset(offsetFrom)}`,
+        `TZOFFSETTO:${this.offset(offsetTo)}`,
+        `END:${kind}`,
+      ];
+    };
+
+    let previous = initialOffset;
+    const observances = observance('19700101T000000', initialOffset, initialOffset);
+
+    for (const transition of transitions) {
+      // Onsets are given in the local time in effect before the change
+      const onset = formatInTimeZone(
+        new Date(transition.at.getTime() + previous),
+        'UTC',
+        LOCAL_FORMAT,
+      );
+      observances.push(...observance(onset, previous, transition.offset));
+      previous = transition.offset;
+    }
+
+    return ['BEGIN:VTIMEZONE', `TZID:${timezone}`, ...observances, 'END:VTIMEZONE'];
+  }
+
+  /**
+   * Instants at which the zone's UTC offset changes, to the minute
+   */
+  private static transitions(timezone: string, from: Date, until: Date) {
+    const transitions: { at: Date; offset: number }[] = [];
+    // Whole minutes keep the search below from stalling
+    let previous = new Date(Math.floor(from.getTime() / 60000) * 60000);
+    let previousOffset = this.offsetAt(timezone, previous);
+
+    for (let day = addDays(previous, 1); previous < until; day = addDays(day, 1)) {
+      const offset = this.offsetAt(timezone, day);
+
+      if (offset !== previousOffset) {
+        let low = previous.getTime();
+        let high = day.getTime();
+        while (high - low > 60000) {
+          const mid = Math.floor((low + high) / 120000) * 60000;
+          if (this.offsetAt(timezone, new Date(mid)) === previousOffset) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+        transitions.push({ at: new Date(high), offset });
+        previousOffset = offset;
+      }
+
+      previous = day;
+    }
+
+    return transitions;
+  }
+
+  /**
+   * UTC offset in effect at an instant, in milliseconds
+   */
+  private static offsetAt(timezone: string, date: Date): number {
+    const wallClock = new Date(formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'"));
+    return wallClock.getTime() - date.getTime();
+  }
+
+  private static offset(ms: number): string {
+    const minutes = Math.abs(ms) / 60000;
+    const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+    const rest = String(minutes % 60).padStart(2, '0');
+    return `${ms < 0 ? '-' : '+'}${hours}${rest}`;
+  }
+}
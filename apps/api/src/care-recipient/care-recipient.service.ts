@@ -70,6 +70,9 @@ export class CareRecipientService {
         insuranceProvider: dto.insuranceProvider,
         insurancePolicyNo: dto.insurancePolicyNo,
         photoUrl: dto.photoUrl,
+        homeLatitude: dto.homeLatitude,
+        homeLongitude: dto.homeLongitude,
+        checkInRadiusMeters: dto.checkInRadiusMeters,
       },
     });
   }
@@ -144,6 +147,7 @@ export class CareRecipientService {
     if (dto.primaryHospital && dto.primaryHospital !== careRecipient.primaryHospital) changes.push('hospital');
     if (dto.insuranceProvider && dto.insuranceProvider !== careRecipient.insuranceProvider) changes.push('insurance');
     if (dto.photoUrl) changes.push('photo');
+    if (dto.homeLatitude !== undefined && dto.homeLatitude !== careRecipient.homeLatitude) changes.push('home location');
 
     const updated = await this.prisma.careRecipient.update({
       where: { id },
@@ -160,6 +164,9 @@ export class CareRecipientService {
         insuranceProvider: dto.insuranceProvider,
         insurancePolicyNo: dto.insurancePolicyNo,
         photoUrl: dto.photoUrl,
+        homeLatitude: dto.homeLatitude,
+        homeLongitude: dto.homeLongitude,
+        checkInRadiusMeters: dto.checkInRadiusMeters,
       },
     });
 
@@ -5,6 +5,10 @@ import {
   IsEnum,
   IsArray,
   IsUrl,
+  IsNumber,
+  IsInt,
+  Min,
+  Max,
   MaxLength,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -86,5 +90,25 @@ export class CreateCareRecipientDto {
   @IsOptional()
   @IsString()
   insurancePolicyNo?: string;
-}
 
+  @ApiPropertyOptional({ description: 'Home latitude, used to verify shift check-ins; null turns verification off', example: 39.7817 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  homeLatitude?: number | null;
+
+  @ApiPropertyOptional({ example: -89.6501 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  homeLongitude?: number | null;
+
+  @ApiPropertyOptional({ description: 'How far from home a check-in may be, in metres', example: 150 })
+  @IsOptional()
+  @IsInt()
+  @Min(25)
+  @Max(5000)
+  checkInRadiusMeters?: number;
+}
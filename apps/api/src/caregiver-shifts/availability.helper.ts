@@ -0,0 +1,139 @@
+import { AvailabilityBlackout, FamilyRole } from '@prisma/client';
+import { CoverageInterval, CoverageWindowTimes, findUncovered, getRequiredIntervals } from '@carecircle/scheduling';
+
+export type AvailabilityStatus = 'AVAILABLE' | 'PARTIAL' | 'UNAVAILABLE' | 'UNKNOWN';
+
+export type AvailabilityWarningCode = 'OUTSIDE_AVAILABILITY' | 'BLACKOUT' | 'MAX_HOURS';
+
+export interface AvailabilityWarning {
+  code: AvailabilityWarningCode;
+  message: string;
+}
+
+export interface CaregiverCandidate {
+  userId: string;
+  fullName: string;
+  avatarUrl: string | null;
+  role: FamilyRole;
+  availability: AvailabilityStatus;
+  outsideMinutes: number; // Minutes of the slot outside the member's availability
+  blackout: Pick<AvailabilityBlackout, 'startDate' | 'endDate' | 'reason'> | null;
+  hasConflict: boolean; // Already on another shift during the slot
+  weekHours: number; // Hours already scheduled in the slot's week
+  projectedWeekHours: number; // Including the slot
+  maxHoursPerWeek: number | null;
+  recentHours: number; // Hours worked over the last RECENT_DAYS
+  eligible: boolean;
+  reasons: string[];
+}
+
+export const RECENT_DAYS = 14;
+
+const STATUS_ORDER: Record<AvailabilityStatus, number> = {
+  AVAILABLE: 0,
+  UNKNOWN: 1,
+  PARTIAL: 2,
+  UNAVAILABLE: 3,
+};
+
+/**
+ * Matches a shift slot against a member's weekly availability, and ranks
+ * members for a slot. Availability windows use the same wall-clock rules as
+ * coverage windows.
+ */
+export class AvailabilityHelper {
+  /**
+   * How much of a slot falls within a member's availability windows. Members
+   * with no windows have not said, which is UNKNOWN rather than unavailable.
+   */
+  static matchWindows(
+    windows: CoverageWindowTimes[],
+    start: Date,
+    end: Date,
+  ): { availability: AvailabilityStatus; outsideMinutes: number } {
+    if (windows.length === 0) {
+      return { availability: 'UNKNOWN', outsideMinutes: 0 };
+    }
+
+    const available = getRequiredIntervals(windows, start, end);
+    const outsideMinutes = findUncovered([{ start, end }], available).reduce(
+      (total, gap) => total + gap.durationMinutes,
+      0,
+    );
+    const slotMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+
+    if (outsideMinutes === 0) {
+      return { availability: 'AVAILABLE', outsideMinutes };
+    }
+
+    return { availability: outsideMinutes >= slotMinutes ? 'UNAVAILABLE' : 'PARTIAL', outsideMinutes };
+  }
+
+  /**
+   * Hours of the given intervals that fall between `from` and `until`
+   */
+  static hoursWithin(intervals: CoverageInterval[], from: Date, until: Date): number {
+    const minutes = intervals.reduce((total, interval) => {
+      const start = interval.start > from ? interval.start : from;
+      const end = interval.end < until ? interval.end : until;
+      return end > start ? total + (end.getTime() - start.getTime()) / 60000 : total;
+    }, 0);
+
+    return Math.round((minutes / 60) * 10) / 10;
+  }
+
+  /**
+   * Warnings for assigning a member to a slot. None of them block the
+   * assignment; admins often know about arrangements the app does not.
+   */
+  static warnings(candidate: CaregiverCandidate): AvailabilityWarning[] {
+    const warnings: AvailabilityWarning[] = [];
+
+    if (candidate.blackout) {
+      warnings.push({
+        code: 'BLACKOUT',
+        message: `${candidate.fullName} is away${candidate.blackout.reason ? ` (${candidate.blackout.reason})` : ''}`,
+      });
+    }
+
+    if (candidate.availability === 'UNAVAILABLE' || candidate.availability === 'PARTIAL') {
+      warnings.push({
+        code: 'OUTSIDE_AVAILABILITY',
+        message:
+          candidate.availability === 'UNAVAILABLE'
+            ? `${candidate.fullName} is not available at this time`
+            : `${candidate.outsideMinutes} minutes of this shift are outside ${candidate.fullName}'s availability`,
+      });
+    }
+
+    if (candidate.maxHoursPerWeek && candidate.projectedWeekHours > candidate.maxHoursPerWeek) {
+      warnings.push({
+        code: 'MAX_HOURS',
+        message: `This brings ${candidate.fullName} to ${candidate.projectedWeekHours} hours this week (limit ${candidate.maxHoursPerWeek})`,
+      });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Best candidates first: members free for the whole slot, then those who
+   * have not set availability, then partial matches. Within each group,
+   * members staying under their weekly limit and with fewer recent hours
+   * come first, spreading the work around.
+   */
+  static rank(candidates: CaregiverCandidate[]): CaregiverCandidate[] {
+    const overLimit = (c: CaregiverCandidate) =>
+      c.maxHoursPerWeek !== null && c.projectedWeekHours > c.maxHoursPerWeek ? 1 : 0;
+
+    return [...candidates].sort(
+      (a, b) =>
+        Number(b.eligible) - Number(a.eligible) ||
+        STATUS_ORDER[a.availability] - STATUS_ORDER[b.availability] ||
+        overLimit(a) - overLimit(b) ||
+        a.recentHours - b.recentHours ||
+        a.weekHours - b.weekHours ||
+        a.fullName.localeCompare(b.fullName),
+    );
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { FamilyMember, Prisma } from '@prisma/client';
+import { endOfDay, endOfWeek, isValid, parseISO, startOfDay, startOfWeek, subDays } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { COVERING_SHIFT_STATUSES } from '@carecircle/scheduling';
+import { CreateBlackoutDto, UpdateAvailabilityDto } from './dto/availability.dto';
+import {
+  AvailabilityHelper,
+  AvailabilityWarning,
+  CaregiverCandidate,
+  RECENT_DAYS,
+} from './availability.helper';
+
+const MEMBER_INCLUDE = {
+  user: { select: { id: true, fullName: true, avatarUrl: true } },
+  availabilityWindows: { orderBy: { startTime: 'asc' } },
+  blackouts: { orderBy: { startDate: 'asc' } },
+} satisfies Prisma.FamilyMemberInclude;
+
+type MemberWithAvailability = Prisma.FamilyMemberGetPayload<{ include: typeof MEMBER_INCLUDE }>;
+
+/**
+ * When family members can take shifts: weekly availability windows, days
+ * away and a preferred weekly hour limit. Used to warn when a shift is
+ * assigned outside someone's availability and to suggest who to ask.
+ */
+@Injectable()
+export class AvailabilityService {
+  constructor(private prisma: PrismaService) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  /**
+   * Availability of every member who can take shifts. Past days away are left out.
+   */
+  async getAvailability(careRecipientId: string, userId: string) {
+    const { careRecipient } = await this.verifyAccess(careRecipientId, userId);
+    const members = await this.getSchedulableMembers(careRecipient.familyId);
+    const today = startOfDay(new Date());
+
+    return members.map((member) => this.toResponse(member, today));
+  }
+
+  async updateAvailability(
+    careRecipientId: string,
+    userId: string,
+    memberUserId: string,
+    dto: UpdateAvailabilityDto,
+  ) {
+    const member = await this.getEditableMember(careRecipientId, userId, memberUserId);
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.availabilityWindow.deleteMany({ where: { familyMemberId: member.id } });
+
+      if (dto.windows.length > 0) {
+        await tx.availabilityWindow.createMany({
+          data: dto.windows.map((window) => ({
+            familyMemberId: member.id,
+            daysOfWeek: [...new Set(window.daysOfWeek || [])].sort((a, b) => a - b),
+            startTime: window.startTime,
+            endTime: window.endTime,
+          })),
+        });
+      }
+
+      return tx.familyMember.update({
+        where: { id: member.id },
+        data: {
+          ...(dto.maxHoursPerWeek !== undefined && { maxHoursPerWeek: dto.maxHoursPerWeek }),
+        },
+        include: MEMBER_INCLUDE,
+      });
+    });
+
+    return this.toResponse(updated, startOfDay(new Date()));
+  }
+
+  async addBlackout(careRecipientId: string, userId: string, memberUserId: string, dto: CreateBlackoutDto) {
+    const member = await this.getEditableMember(careRecipientId, userId, memberUserId);
+
+    const startDate = startOfDay(parseISO(dto.startDate));
+    const endDate = endOfDay(parseISO(dto.endDate));
+
+    if (!isValid(startDate) || !isValid(endDate)) {
+      throw new BadRequestException('Invalid dates');
+    }
+
+    if (endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+
+    return this.prisma.availabilityBlackout.create({
+      data: {
+        familyMemberId: member.id,
+        startDate,
+        endDate,
+        reason: dto.reason?.trim() || null,
+      },
+    });
+  }
+
+  async removeBlackout(careRecipientId: string, userId: string, memberUserId: string, blackoutId: string) {
+    const member = await this.getEditableMember(careRecipientId, userId, memberUserId);
+
+    const blackout = await this.prisma.availabilityBlackout.findFirst({
+      where: { id: blackoutId, familyMemberId: member.id },
+    });
+
+    if (!blackout) {
+      throw new NotFoundException('Blackout not found');
+    }
+
+    await this.prisma.availabilityBlackout.delete({ where: { id: blackoutId } });
+
+    return { success: true };
+  }
+
+  /**
+   * Members ranked by how well they fit a slot
+   */
+  async suggestCaregivers(careRecipientId: string, userId: string, startTime: string, endTime: string) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot schedule shifts');
+    }
+
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+
+    if (!isValid(start) || !isValid(end) || end <= start) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+
+    const members = await this.getSchedulableMembers(careRecipient.familyId);
+    const candidates = await this.evaluate(members, start, end);
+
+    return {
+      startTime: start,
+      endTime: end,
+      candidates: AvailabilityHelper.rank(candidates),
+    };
+  }
+
+  /**
+   * Warnings for assigning a caregiver to a slot; empty when it fits or the
+   * caregiver is not a family member
+   */
+  async checkAssignment(
+    familyId: string,
+    caregiverId: string,
+    start: Date,
+    end: Date,
+    excludeShiftIds: string[] = [],
+  ): Promise<AvailabilityWarning[]> {
+    const member = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId, userId: caregiverId } },
+      include: MEMBER_INCLUDE,
+    });
+
+    if (!member) {
+      return [];
+    }
+
+    const [candidate] = await this.evaluate([member], start, end, excludeShiftIds);
+    return AvailabilityHelper.warnings(candidate);
+  }
+
+  private async evaluate(
+    members: MemberWithAvailability[],
+    start: Date,
+    end: Date,
+    excludeShiftIds: string[] = [],
+  ): Promise<CaregiverCandidate[]> {
+    const weekStart = startOfWeek(start);
+    const weekEnd = endOfWeek(start);
+    const recentFrom = subDays(new Date(), RECENT_DAYS);
+    const slotHours = AvailabilityHelper.hoursWithin([{ start, end }], weekStart, weekEnd);
+
+    // Every shift the members have anywhere, not just for this care recipient
+    const [scheduled, worked] = await Promise.all([
+      this.prisma.caregiverShift.findMany({
+        where: {
+          caregiverId: { in: members.map((member) => member.userId) },
+          status: { in: COVERING_SHIFT_STATUSES },
+          id: { notIn: excludeShiftIds },
+          startTime: { lt: end > weekEnd ? end : weekEnd },
+          endTime: { gt: weekStart },
+        },
+        select: { caregiverId: true, startTime: true, endTime: true },
+      }),
+      this.prisma.caregiverShift.findMany({
+        where: {
+          caregiverId: { in: members.map((member) => member.userId) },
+          checkedInAt: { gte: recentFrom },
+          checkedOutAt: { not: null },
+        },
+        select: { caregiverId: true, checkedInAt: true, checkedOutAt: true },
+      }),
+    ]);
+
+    return members.map((member) => {
+      const shifts = scheduled
+        .filter((shift) => shift.caregiverId === member.userId)
+        .map((shift) => ({ start: shift.startTime, end: shift.endTime }));
+      const recent = worked
+        .filter((shift) => shift.caregiverId === member.userId)
+        .map((shift) => ({ start: shift.checkedInAt!, end: shift.checkedOutAt! }));
+
+      const { availability, outsideMinutes } = AvailabilityHelper.matchWindows(
+        member.availabilityWindows,
+        start,
+        end,
+      );
+      const blackout = member.blackouts.find((b) => b.startDate < end && b.endDate > start) || null;
+      const hasConflict = shifts.some((shift) => shift.start < end && shift.end > start);
+      const weekHours = AvailabilityHelper.hoursWithin(shifts, weekStart, weekEnd);
+      const projectedWeekHours = Math.round((weekHours + slotHours) * 10) / 10;
+
+      const reasons: string[] = [];
+      if (hasConflict) reasons.push('Already on another shift');
+      if (blackout) reasons.push(blackout.reason ? `Away: ${blackout.reason}` : 'Away');
+      if (availability === 'UNAVAILABLE') reasons.push('Outside availability');
+      if (availability === 'PARTIAL') reasons.push(`${outsideMinutes} min outside availability`);
+      if (availability === 'UNKNOWN') reasons.push('Availability not set');
+      if (member.maxHoursPerWeek && projectedWeekHours > member.maxHoursPerWeek) {
+        reasons.push(`Over ${member.maxHoursPerWeek} h/week limit`);
+      }
+
+      return {
+        userId: member.userId,
+        fullName: member.user.fullName,
+        avatarUrl: member.user.avatarUrl,
+        role: member.role,
+        availability,
+        outsideMinutes,
+        blackout: blackout && { startDate: blackout.startDate, endDate: blackout.endDate, reason: blackout.reason },
+        hasConflict,
+        weekHours,
+        projectedWeekHours,
+        maxHoursPerWeek: member.maxHoursPerWeek,
+        recentHours: AvailabilityHelper.hoursWithin(recent, recentFrom, new Date()),
+        eligible: !hasConflict && !blackout && availability !== 'UNAVAILABLE',
+        reasons,
+      };
+    });
+  }
+
+  private getSchedulableMembers(familyId: string): Promise<MemberWithAvailability[]> {
+    return this.prisma.familyMember.findMany({
+      where: { familyId, isActive: true, role: { in: ['ADMIN', 'CAREGIVER'] } },
+      include: MEMBER_INCLUDE,
+      orderBy: { joinedAt: 'asc' },
+    });
+  }
+
+  /**
+   * Members manage their own availability; admins can manage anyone's
+   */
+  private async getEditableMember(careRecipientId: string, userId: string, memberUserId: string): Promise<FamilyMember> {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (memberUserId !== userId && membership.role !== 'ADMIN') {
+      throw new ForbiddenException("Only admins can change other members' availability");
+    }
+
+    const member = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId: memberUserId } },
+    });
+
+    if (!member) {
+      throw new NotFoundException('Family member not found');
+    }
+
+    return member;
+  }
+
+  private toResponse(member: MemberWithAvailability, today: Date) {
+    return {
+      userId: member.userId,
+      fullName: member.user.fullName,
+      avatarUrl: member.user.avatarUrl,
+      role: member.role,
+      maxHoursPerWeek: member.maxHoursPerWeek,
+      windows: member.availabilityWindows.map(({ id, daysOfWeek, startTime, endTime }) => ({
+        id,
+        daysOfWeek,
+        startTime,
+        endTime,
+      })),
+      blackouts: member.blackouts.filter((blackout) => blackout.endDate >= today),
+    };
+  }
+}
@@ -4,14 +4,36 @@ import {
   Post,
   Body,
   Patch,
+  Put,
+  Delete,
   Param,
   Query,
   ParseUUIDPipe,
+  ParseEnumPipe,
+  Res,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { endOfWeek, format, startOfWeek } from 'date-fns';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { CaregiverShiftsService } from './caregiver-shifts.service';
+import { ShiftSeriesService } from './shift-series.service';
+import { ShiftSwapsService } from './shift-swaps.service';
+import { CoverageService } from './coverage.service';
+import { ShiftHandoffsService } from './shift-handoffs.service';
+import { TimesheetsService } from './timesheets.service';
+import { AvailabilityService } from './availability.service';
+import { TimesheetHelper } from './timesheet.helper';
+import { TimesheetPdfHelper } from './timesheet-pdf.helper';
 import { CreateShiftDto } from './dto/create-shift.dto';
+import { CreateShiftSeriesDto } from './dto/create-shift-series.dto';
+import { ShiftEditScope, UpdateShiftDto } from './dto/update-shift.dto';
+import { ClaimShiftSwapDto, CreateShiftSwapDto } from './dto/shift-swap.dto';
+import { UpdateCoverageDto } from './dto/coverage.dto';
+import { CreateTimeCorrectionDto, ReviewTimeCorrectionDto } from './dto/time-correction.dto';
+import { CreateBlackoutDto, UpdateAvailabilityDto } from './dto/availability.dto';
+import { ShiftSwapStatus, TimeCorrectionStatus } from '@prisma/client';
 import { CheckOutDto } from './dto/check-out.dto';
+import { CheckInDto, ReviewShiftLocationDto } from './dto/check-in.dto';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 
 interface CurrentUserPayload {
@@ -23,7 +45,11 @@ interface CurrentUserPayload {
 @ApiBearerAuth('JWT-auth')
 @Controller('care-recipients/:careRecipientId/shifts')
 export class CaregiverShiftsController {
-  constructor(private readonly shiftsService: CaregiverShiftsService) {}
+  constructor(
+    private readonly shiftsService: CaregiverShiftsService,
+    private readonly shiftSeriesService: ShiftSeriesService,
+    private readonly handoffsService: ShiftHandoffsService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new shift' })
@@ -35,6 +61,25 @@ export class CaregiverShiftsController {
     return this.shiftsService.createShift(careRecipientId, user.id, dto);
   }
 
+  @Post('series')
+  @ApiOperation({ summary: 'Create a recurring shift series' })
+  createSeries(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateShiftSeriesDto,
+  ) {
+    return this.shiftSeriesService.createSeries(careRecipientId, user.id, dto);
+  }
+
+  @Get('series')
+  @ApiOperation({ summary: 'Get active recurring shift series' })
+  getSeries(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shiftSeriesService.getSeries(careRecipientId, user.id);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all shifts for a care recipient' })
   getAll(
@@ -98,6 +143,48 @@ export class CaregiverShiftsController {
     return this.shiftsService.getForDay(careRecipientId, user.id, new Date(date));
   }
 
+  @Get('history')
+  @ApiOperation({ summary: 'Get completed shifts with their handoff reports' })
+  getHistory(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('limit') limit?: string,
+    @Query('before') before?: string,
+  ) {
+    return this.handoffsService.getHistory(careRecipientId, user.id, {
+      limit: limit ? parseInt(limit, 10) : undefined,
+      before: before ? new Date(before) : undefined,
+    });
+  }
+
+  @Get('handoffs/latest')
+  @ApiOperation({ summary: 'Get the most recent handoff report' })
+  getLatestHandoff(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.handoffsService.getLatest(careRecipientId, user.id);
+  }
+
+  @Get('location-reviews')
+  @ApiOperation({ summary: 'Get shifts checked in or out away from home, awaiting review (admin only)' })
+  getLocationReviews(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shiftsService.getLocationReviews(careRecipientId, user.id);
+  }
+
+  @Get(':shiftId/handoff')
+  @ApiOperation({ summary: 'Get the handoff report written at the end of a shift' })
+  getHandoff(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('shiftId', ParseUUIDPipe) shiftId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.handoffsService.getForShift(careRecipientId, shiftId, user.id);
+  }
+
   @Get(':shiftId')
   @ApiOperation({ summary: 'Get a specific shift by ID' })
   getById(
@@ -108,23 +195,46 @@ export class CaregiverShiftsController {
     return this.shiftsService.getById(careRecipientId, shiftId, user.id);
   }
 
+  @Patch(':shiftId')
+  @ApiOperation({ summary: 'Edit a shift, or this and following / all shifts in its series' })
+  update(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('shiftId', ParseUUIDPipe) shiftId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateShiftDto,
+  ) {
+    return this.shiftSeriesService.updateShift(careRecipientId, shiftId, user.id, dto);
+  }
+
+  @Post(':id/location-review')
+  @ApiOperation({ summary: 'Mark a flagged check-in location as reviewed (admin only)' })
+  reviewLocation(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ReviewShiftLocationDto,
+  ) {
+    return this.shiftsService.reviewLocation(careRecipientId, id, user.id, dto);
+  }
+
   @Post(':id/checkin')
   @ApiOperation({ summary: 'Check in to a shift' })
   checkIn(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CheckInDto,
   ) {
-    return this.shiftsService.checkIn(id, user.id);
+    return this.shiftsService.checkIn(id, user.id, dto);
   }
 
   @Post(':id/checkout')
-  @ApiOperation({ summary: 'Check out from a shift' })
+  @ApiOperation({ summary: 'Check out from a shift and write the handoff report' })
   checkOut(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: CurrentUserPayload,
     @Body() dto: CheckOutDto,
   ) {
-    return this.shiftsService.checkOut(id, user.id, dto.handoffNotes);
+    return this.shiftsService.checkOut(id, user.id, dto);
   }
 
   @Post(':id/confirm')
@@ -137,12 +247,275 @@ export class CaregiverShiftsController {
   }
 
   @Patch(':id/cancel')
-  @ApiOperation({ summary: 'Cancel a shift' })
+  @ApiOperation({ summary: 'Cancel a shift, or this and following / all shifts in its series' })
   cancelShift(
     @Param('id', ParseUUIDPipe) id: string,
     @CurrentUser() user: CurrentUserPayload,
+    @Query('scope', new ParseEnumPipe(ShiftEditScope, { optional: true })) scope?: ShiftEditScope,
+  ) {
+    return this.shiftSeriesService.cancelShift(id, user.id, scope);
+  }
+}
+
+@ApiTags('Shift Swaps')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/shift-swaps')
+export class ShiftSwapsController {
+  constructor(private readonly shiftSwapsService: ShiftSwapsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Offer a shift for another caregiver to take' })
+  offer(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateShiftSwapDto,
+  ) {
+    return this.shiftSwapsService.offer(careRecipientId, user.id, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get open shift swaps, or swaps with a given status' })
+  getSwaps(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('status', new ParseEnumPipe(ShiftSwapStatus, { optional: true })) status?: ShiftSwapStatus,
+  ) {
+    return this.shiftSwapsService.getSwaps(careRecipientId, user.id, status);
+  }
+
+  @Post(':swapId/claim')
+  @ApiOperation({ summary: 'Claim an offered shift, optionally trading one of your own' })
+  claim(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ClaimShiftSwapDto,
+  ) {
+    return this.shiftSwapsService.claim(careRecipientId, swapId, user.id, dto);
+  }
+
+  @Post(':swapId/approve')
+  @ApiOperation({ summary: 'Approve a claimed swap and reassign the shift' })
+  approve(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shiftSwapsService.approve(careRecipientId, swapId, user.id);
+  }
+
+  @Post(':swapId/decline')
+  @ApiOperation({ summary: 'Decline a claim and reopen the offer' })
+  decline(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shiftSwapsService.decline(careRecipientId, swapId, user.id);
+  }
+
+  @Patch(':swapId/cancel')
+  @ApiOperation({ summary: 'Withdraw a shift swap offer' })
+  cancel(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('swapId', ParseUUIDPipe) swapId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shiftSwapsService.cancel(careRecipientId, swapId, user.id);
+  }
+}
+
+@ApiTags('Shift Coverage')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/coverage')
+export class CoverageController {
+  constructor(private readonly coverageService: CoverageService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get required coverage windows' })
+  getCoverage(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.coverageService.getCoverage(careRecipientId, user.id);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Replace required coverage windows (admin only)' })
+  updateCoverage(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateCoverageDto,
+  ) {
+    return this.coverageService.updateCoverage(careRecipientId, user.id, dto);
+  }
+
+  @Get('gaps')
+  @ApiOperation({ summary: 'Get uncovered intervals over the next N days' })
+  getGaps(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('days') days?: string,
+  ) {
+    return this.coverageService.getGaps(careRecipientId, user.id, days ? parseInt(days, 10) || 14 : 14);
+  }
+}
+
+@ApiTags('Caregiver Availability')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/availability')
+export class AvailabilityController {
+  constructor(private readonly availabilityService: AvailabilityService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get every schedulable member's availability" })
+  getAvailability(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.availabilityService.getAvailability(careRecipientId, user.id);
+  }
+
+  @Get('suggestions')
+  @ApiOperation({
+    summary: 'Rank caregivers for a shift slot',
+    description: 'Orders members by availability, days away, weekly hour limits and hours worked recently.',
+  })
+  @ApiQuery({ name: 'startTime', example: '2024-03-15T08:00:00Z' })
+  @ApiQuery({ name: 'endTime', example: '2024-03-15T16:00:00Z' })
+  suggestCaregivers(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('startTime') startTime: string,
+    @Query('endTime') endTime: string,
+  ) {
+    return this.availabilityService.suggestCaregivers(careRecipientId, user.id, startTime, endTime);
+  }
+
+  @Put(':userId')
+  @ApiOperation({ summary: "Replace a member's weekly availability (self or admin)" })
+  updateAvailability(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateAvailabilityDto,
+  ) {
+    return this.availabilityService.updateAvailability(careRecipientId, user.id, memberUserId, dto);
+  }
+
+  @Post(':userId/blackouts')
+  @ApiOperation({ summary: 'Add days a member is away (self or admin)' })
+  addBlackout(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateBlackoutDto,
+  ) {
+    return this.availabilityService.addBlackout(careRecipientId, user.id, memberUserId, dto);
+  }
+
+  @Delete(':userId/blackouts/:blackoutId')
+  @ApiOperation({ summary: 'Remove days away (self or admin)' })
+  removeBlackout(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @Param('blackoutId', ParseUUIDPipe) blackoutId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.availabilityService.removeBlackout(careRecipientId, user.id, memberUserId, blackoutId);
+  }
+}
+
+@ApiTags('Timesheets')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/timesheets')
+export class TimesheetsController {
+  constructor(private readonly timesheetsService: TimesheetsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Export caregiver timesheets for a pay period',
+    description: 'Hours worked per shift from check-in/out times, with per-caregiver totals and weekly overtime. Defaults to the current week.',
+  })
+  @ApiQuery({ name: 'from', required: false, example: '2024-03-01' })
+  @ApiQuery({ name: 'to', required: false, example: '2024-03-15' })
+  @ApiQuery({ name: 'caregiverId', required: false })
+  @ApiQuery({ name: 'overtimeHours', required: false, example: 40 })
+  @ApiQuery({ name: 'format', enum: ['json', 'csv', 'pdf'], required: false })
+  async getTimesheet(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('caregiverId') caregiverId?: string,
+    @Query('overtimeHours') overtimeHours?: string,
+    @Query('format') exportFormat: 'json' | 'csv' | 'pdf' = 'json',
+  ) {
+    const sheet = await this.timesheetsService.getTimesheet(careRecipientId, user.id, {
+      from: from || format(startOfWeek(new Date()), 'yyyy-MM-dd'),
+      to: to || format(endOfWeek(new Date()), 'yyyy-MM-dd'),
+      caregiverId,
+      overtimeHours: overtimeHours ? parseFloat(overtimeHours) : undefined,
+    });
+    const filename = `timesheet-${sheet.from}-to-${sheet.to}`;
+
+    if (exportFormat === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(TimesheetHelper.toCsv(sheet));
+    }
+
+    if (exportFormat === 'pdf') {
+      const pdf = await TimesheetPdfHelper.render(sheet);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(pdf);
+    }
+
+    return res.json(sheet);
+  }
+
+  @Get('corrections')
+  @ApiOperation({ summary: 'List shift time corrections (caregivers see their own)' })
+  getCorrections(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('status', new ParseEnumPipe(TimeCorrectionStatus, { optional: true })) status?: TimeCorrectionStatus,
+  ) {
+    return this.timesheetsService.getCorrections(careRecipientId, user.id, status);
+  }
+
+  @Post('corrections')
+  @ApiOperation({ summary: "Request a correction to a shift's check-in/out times" })
+  requestCorrection(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateTimeCorrectionDto,
+  ) {
+    return this.timesheetsService.requestCorrection(careRecipientId, user.id, dto);
+  }
+
+  @Post('corrections/:correctionId/approve')
+  @ApiOperation({ summary: 'Approve a time correction and apply it (admin only)' })
+  approveCorrection(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('correctionId', ParseUUIDPipe) correctionId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ReviewTimeCorrectionDto,
+  ) {
+    return this.timesheetsService.approve(careRecipientId, correctionId, user.id, dto);
+  }
+
+  @Post('corrections/:correctionId/reject')
+  @ApiOperation({ summary: 'Reject a time correction (admin only)' })
+  rejectCorrection(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('correctionId', ParseUUIDPipe) correctionId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ReviewTimeCorrectionDto,
   ) {
-    return this.shiftsService.cancelShift(id, user.id);
+    return this.timesheetsService.reject(careRecipientId, correctionId, user.id, dto);
   }
 }
 
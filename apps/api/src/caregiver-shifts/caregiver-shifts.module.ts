@@ -1,12 +1,42 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { CaregiverShiftsService } from './caregiver-shifts.service';
-import { CaregiverShiftsController, MyShiftsController } from './caregiver-shifts.controller';
+import { ShiftSeriesService } from './shift-series.service';
+import { ShiftSeriesScheduler } from './shift-series.scheduler';
+import { ShiftSwapsService } from './shift-swaps.service';
+import { CoverageService } from './coverage.service';
+import { ShiftHandoffsService } from './shift-handoffs.service';
+import { TimesheetsService } from './timesheets.service';
+import { AvailabilityService } from './availability.service';
+import {
+  AvailabilityController,
+  CaregiverShiftsController,
+  CoverageController,
+  MyShiftsController,
+  ShiftSwapsController,
+  TimesheetsController,
+} from './caregiver-shifts.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [forwardRef(() => NotificationsModule)],
-  controllers: [CaregiverShiftsController, MyShiftsController],
-  providers: [CaregiverShiftsService],
-  exports: [CaregiverShiftsService],
+  controllers: [
+    CaregiverShiftsController,
+    ShiftSwapsController,
+    CoverageController,
+    AvailabilityController,
+    TimesheetsController,
+    MyShiftsController,
+  ],
+  providers: [
+    CaregiverShiftsService,
+    ShiftSeriesService,
+    ShiftSwapsService,
+    CoverageService,
+    ShiftHandoffsService,
+    TimesheetsService,
+    AvailabilityService,
+    ShiftSeriesScheduler,
+  ],
+  exports: [CaregiverShiftsService, ShiftSeriesService],
 })
 export class CaregiverShiftsModule {}
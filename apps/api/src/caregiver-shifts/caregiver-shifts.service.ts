@@ -3,20 +3,34 @@ import {
   NotFoundException,
   ForbiddenException,
   ConflictException,
+  BadRequestException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CacheService, CACHE_KEYS, CACHE_TTL } from '../system/module/cache';
+import { ShiftStatus } from '@prisma/client';
 import { CreateShiftDto } from './dto/create-shift.dto';
+import { UpdateShiftDto } from './dto/update-shift.dto';
+import { CheckOutDto } from './dto/check-out.dto';
+import { CheckInDto, ReviewShiftLocationDto } from './dto/check-in.dto';
+import { GeoHelper } from './geo.helper';
+import { ShiftHandoffsService } from './shift-handoffs.service';
+import { AvailabilityService } from './availability.service';
+import { ShiftSlot } from './shift-recurrence.helper';
 import { NotificationsService } from '../notifications/notifications.service';
 import { addDays, startOfDay, endOfDay, format } from 'date-fns';
 
+// Shifts that have not started yet and can still be moved or reassigned
+export const EDITABLE_SHIFT_STATUSES: ShiftStatus[] = ['SCHEDULED', 'CONFIRMED'];
+
 @Injectable()
 export class CaregiverShiftsService {
   constructor(
     private prisma: PrismaService,
     private cacheService: CacheService,
+    private handoffs: ShiftHandoffsService,
+    private availability: AvailabilityService,
     @Inject(forwardRef(() => NotificationsService))
     private notifications: NotificationsService,
   ) {}
@@ -41,37 +55,25 @@ export class CaregiverShiftsService {
     return { careRecipient, membership };
   }
 
+  /**
+   * Create a shift. Assigning someone outside their availability, while they
+   * are away or past their weekly hours is allowed, but comes back with warnings.
+   */
   async createShift(careRecipientId: string, userId: string, dto: CreateShiftDto) {
-    const { membership } = await this.verifyAccess(careRecipientId, userId);
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
 
     if (membership.role === 'VIEWER') {
       throw new ForbiddenException('Viewers cannot create shifts');
     }
 
     // Check for conflicts
-    const conflict = await this.prisma.caregiverShift.findFirst({
-      where: {
-        careRecipientId,
-        caregiverId: dto.caregiverId,
-        status: { not: 'CANCELLED' },
-        OR: [
-          {
-            startTime: { lte: new Date(dto.startTime) },
-            endTime: { gt: new Date(dto.startTime) },
-          },
-          {
-            startTime: { lt: new Date(dto.endTime) },
-            endTime: { gte: new Date(dto.endTime) },
-          },
-          {
-            startTime: { gte: new Date(dto.startTime) },
-            endTime: { lte: new Date(dto.endTime) },
-          },
-        ],
-      },
-    });
+    const startTime = new Date(dto.startTime);
+    const endTime = new Date(dto.endTime);
+    const conflicts = await this.findConflicts(careRecipientId, dto.caregiverId, [
+      { start: startTime, end: endTime },
+    ]);
 
-    if (conflict) {
+    if (conflicts.length > 0) {
       throw new ConflictException('Shift overlaps with an existing shift');
     }
 
@@ -79,8 +81,8 @@ export class CaregiverShiftsService {
       data: {
         careRecipientId,
         caregiverId: dto.caregiverId,
-        startTime: new Date(dto.startTime),
-        endTime: new Date(dto.endTime),
+        startTime,
+        endTime,
         notes: dto.notes,
       },
       include: {
@@ -93,19 +95,158 @@ export class CaregiverShiftsService {
       },
     });
 
+    const warnings = await this.availability.checkAssignment(
+      careRecipient.familyId,
+      dto.caregiverId,
+      startTime,
+      endTime,
+      [shift.id],
+    );
+
     // Notify assigned caregiver
     await this.notifications.notifyShiftAssigned(shift);
 
     // Invalidate cache
     await this.invalidateShiftCache(careRecipientId);
 
-    return shift;
+    return { ...shift, warnings };
+  }
+
+  /**
+   * Edit a single shift. A shift in a recurring series becomes an exception,
+   * so later changes to the series leave it alone.
+   */
+  async updateShift(careRecipientId: string, shiftId: string, userId: string, dto: UpdateShiftDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot edit shifts');
+    }
+
+    const shift = await this.prisma.caregiverShift.findFirst({
+      where: { id: shiftId, careRecipientId },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    if (!EDITABLE_SHIFT_STATUSES.includes(shift.status)) {
+      throw new BadRequestException('Only shifts that have not started can be edited');
+    }
+
+    const startTime = dto.startTime ? new Date(dto.startTime) : shift.startTime;
+    const endTime = dto.endTime ? new Date(dto.endTime) : shift.endTime;
+    const caregiverId = dto.caregiverId || shift.caregiverId;
+
+    if (endTime <= startTime) {
+      throw new BadRequestException('Shift must end after it starts');
+    }
+
+    const rescheduled =
+      startTime.getTime() !== shift.startTime.getTime() ||
+      endTime.getTime() !== shift.endTime.getTime() ||
+      caregiverId !== shift.caregiverId;
+
+    if (rescheduled) {
+      const conflicts = await this.findConflicts(
+        careRecipientId,
+        caregiverId,
+        [{ start: startTime, end: endTime }],
+        [shiftId],
+      );
+
+      if (conflicts.length > 0) {
+        throw new ConflictException('Shift overlaps with an existing shift');
+      }
+    }
+
+    const updated = await this.prisma.caregiverShift.update({
+      where: { id: shiftId },
+      data: {
+        caregiverId,
+        startTime,
+        endTime,
+        notes: dto.notes !== undefined ? dto.notes : shift.notes,
+        // A moved or reassigned shift needs confirming again
+        ...(rescheduled && { status: 'SCHEDULED' }),
+        ...(shift.seriesId && { isSeriesException: true }),
+      },
+      include: {
+        caregiver: {
+          select: { id: true, fullName: true, phone: true },
+        },
+        careRecipient: {
+          select: { fullName: true, preferredName: true },
+        },
+      },
+    });
+
+    if (rescheduled) {
+      await this.closeSwapRequests([shiftId]);
+    }
+
+    if (caregiverId !== shift.caregiverId) {
+      await this.notifications.notifyShiftAssigned(updated);
+    }
+
+    await this.invalidateShiftCache(careRecipientId, shiftId);
+
+    return updated;
+  }
+
+  /**
+   * Returns the slots that overlap a caregiver's existing, non-cancelled
+   * shifts for the care recipient
+   */
+  async findConflicts(
+    careRecipientId: string,
+    caregiverId: string,
+    slots: ShiftSlot[],
+    excludeShiftIds: string[] = [],
+  ): Promise<ShiftSlot[]> {
+    if (slots.length === 0) {
+      return [];
+    }
+
+    const rangeStart = new Date(Math.min(...slots.map((slot) => slot.start.getTime())));
+    const rangeEnd = new Date(Math.max(...slots.map((slot) => slot.end.getTime())));
+
+    const existing = await this.prisma.caregiverShift.findMany({
+      where: {
+        careRecipientId,
+        caregiverId,
+        status: { not: 'CANCELLED' },
+        id: { notIn: excludeShiftIds },
+        startTime: { lt: rangeEnd },
+        endTime: { gt: rangeStart },
+      },
+      select: { startTime: true, endTime: true },
+    });
+
+    return slots.filter((slot) =>
+      existing.some((shift) => shift.startTime < slot.end && shift.endTime > slot.start),
+    );
+  }
+
+  /**
+   * Withdraws open swap offers on shifts that were cancelled, moved or
+   * reassigned, since they no longer describe the shift being offered
+   */
+  async closeSwapRequests(shiftIds: string[]): Promise<void> {
+    await this.prisma.shiftSwapRequest.updateMany({
+      where: {
+        status: { in: ['OPEN', 'CLAIMED'] },
+        OR: [{ shiftId: { in: shiftIds } }, { tradeShiftId: { in: shiftIds } }],
+      },
+      data: { status: 'CANCELLED', resolvedAt: new Date() },
+    });
   }
 
   /**
    * Invalidate shift caches
    */
-  private async invalidateShiftCache(careRecipientId: string, shiftId?: string): Promise<void> {
+  async invalidateShiftCache(careRecipientId: string, shiftId?: string): Promise<void> {
     const keys = [
       CACHE_KEYS.SHIFT_CURRENT(careRecipientId),
       CACHE_KEYS.SHIFTS_UPCOMING(careRecipientId),
@@ -307,9 +448,19 @@ export class CaregiverShiftsService {
     });
   }
 
-  async checkIn(shiftId: string, userId: string) {
+  /**
+   * Check in to a shift. When the care recipient has a home location, the
+   * reported position is checked against it and shifts checked in from
+   * elsewhere (or with no position) are flagged for an admin to review.
+   */
+  async checkIn(shiftId: string, userId: string, dto: CheckInDto = {}) {
     const shift = await this.prisma.caregiverShift.findUnique({
       where: { id: shiftId },
+      include: {
+        careRecipient: {
+          select: { homeLatitude: true, homeLongitude: true, checkInRadiusMeters: true },
+        },
+      },
     });
 
     if (!shift) {
@@ -324,11 +475,18 @@ export class CaregiverShiftsService {
       throw new ForbiddenException('Shift cannot be checked into');
     }
 
+    const location = GeoHelper.check(shift.careRecipient, dto);
+
     const updated = await this.prisma.caregiverShift.update({
       where: { id: shiftId },
       data: {
         status: 'IN_PROGRESS',
         checkedInAt: new Date(),
+        checkInLatitude: dto.latitude ?? null,
+        checkInLongitude: dto.longitude ?? null,
+        checkInDistanceMeters: location?.distanceMeters ?? null,
+        checkInLocation: location?.verification ?? null,
+        ...(location && location.verification !== 'VERIFIED' && { locationFlagged: true }),
       },
       include: {
         careRecipient: {
@@ -337,13 +495,16 @@ export class CaregiverShiftsService {
       },
     });
 
+    // The incoming caregiver receives the last handoff
+    const handoff = await this.handoffs.acknowledgeForShift(shift, userId);
+
     // Invalidate cache
     await this.invalidateShiftCache(shift.careRecipientId, shiftId);
 
-    return updated;
+    return { ...updated, handoff };
   }
 
-  async checkOut(shiftId: string, userId: string, handoffNotes?: string) {
+  async checkOut(shiftId: string, userId: string, dto: CheckOutDto) {
     const shift = await this.prisma.caregiverShift.findUnique({
       where: { id: shiftId },
       include: {
@@ -363,12 +524,18 @@ export class CaregiverShiftsService {
       throw new ForbiddenException('Shift is not in progress');
     }
 
+    const location = GeoHelper.check(shift.careRecipient, dto);
+
     const updated = await this.prisma.caregiverShift.update({
       where: { id: shiftId },
       data: {
         status: 'COMPLETED',
         checkedOutAt: new Date(),
-        notes: handoffNotes || shift.notes,
+        checkOutLatitude: dto.latitude ?? null,
+        checkOutLongitude: dto.longitude ?? null,
+        checkOutDistanceMeters: location?.distanceMeters ?? null,
+        checkOutLocation: location?.verification ?? null,
+        ...(location && location.verification !== 'VERIFIED' && { locationFlagged: true }),
       },
       include: {
         caregiver: {
@@ -384,8 +551,9 @@ export class CaregiverShiftsService {
     const nextShift = await this.prisma.caregiverShift.findFirst({
       where: {
         careRecipientId: shift.careRecipientId,
-        startTime: { gt: new Date() },
-        status: { not: 'CANCELLED' },
+        id: { not: shiftId },
+        endTime: { gt: new Date() },
+        status: { in: EDITABLE_SHIFT_STATUSES },
       },
       include: {
         caregiver: true,
@@ -393,19 +561,94 @@ export class CaregiverShiftsService {
       orderBy: { startTime: 'asc' },
     });
 
+    const handoff = await this.handoffs.createForShift(shift, userId, dto, nextShift?.id ?? null);
+
     if (nextShift) {
       await this.notifications.notifyShiftHandoff(
         updated.caregiver,
         nextShift.caregiver,
-        updated.careRecipient,
-        handoffNotes,
+        { id: shift.careRecipientId, ...updated.careRecipient },
+        dto.handoffNotes,
+        handoff.id,
       );
     }
 
     // Invalidate cache
     await this.invalidateShiftCache(shift.careRecipientId, shiftId);
 
-    return updated;
+    return { ...updated, handoff };
+  }
+
+  /**
+   * Shifts whose check-in or check-out location has not been reviewed yet
+   */
+  async getLocationReviews(careRecipientId: string, userId: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only admins can review check-in locations');
+    }
+
+    return this.prisma.caregiverShift.findMany({
+      where: { careRecipientId, locationFlagged: true, locationReviewedAt: null },
+      include: {
+        caregiver: { select: { id: true, fullName: true, avatarUrl: true } },
+      },
+      orderBy: { startTime: 'desc' },
+    });
+  }
+
+  async reviewLocation(careRecipientId: string, shiftId: string, userId: string, dto: ReviewShiftLocationDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only admins can review check-in locations');
+    }
+
+    const shift = await this.prisma.caregiverShift.findFirst({
+      where: { id: shiftId, careRecipientId },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    if (!shift.locationFlagged) {
+      throw new BadRequestException('This shift was not flagged for review');
+    }
+
+    const reviewed = await this.prisma.caregiverShift.update({
+      where: { id: shiftId },
+      data: {
+        locationReviewedById: userId,
+        locationReviewedAt: new Date(),
+        locationReviewNote: dto.note?.trim() || null,
+      },
+      include: {
+        caregiver: { select: { id: true, fullName: true, avatarUrl: true } },
+        locationReviewedBy: { select: { id: true, fullName: true } },
+      },
+    });
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'SHIFT_LOCATION_REVIEWED',
+        resource: 'caregiver_shift',
+        resourceId: shiftId,
+        metadata: {
+          checkInLocation: shift.checkInLocation,
+          checkInDistanceMeters: shift.checkInDistanceMeters,
+          checkOutLocation: shift.checkOutLocation,
+          checkOutDistanceMeters: shift.checkOutDistanceMeters,
+          note: dto.note || null,
+        },
+      },
+    });
+
+    await this.invalidateShiftCache(careRecipientId, shiftId);
+
+    return reviewed;
   }
 
   async confirmShift(shiftId: string, userId: string) {
@@ -453,6 +696,8 @@ export class CaregiverShiftsService {
       data: { status: 'CANCELLED' },
     });
 
+    await this.closeSwapRequests([shiftId]);
+
     // Invalidate cache
     await this.invalidateShiftCache(shift.careRecipientId, shiftId);
 
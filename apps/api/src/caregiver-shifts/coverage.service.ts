@@ -0,0 +1,129 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { addDays } from 'date-fns';
+import { COVERING_SHIFT_STATUSES, findCoverageGaps } from '@carecircle/scheduling';
+import { PrismaService } from '../prisma/prisma.service';
+import { UpdateCoverageDto } from './dto/coverage.dto';
+
+const MAX_GAP_DAYS = 60;
+
+/**
+ * Required coverage windows per care recipient and the gaps left in them by
+ * the shift schedule. The workers scheduler alerts admins ahead of the same
+ * gaps.
+ */
+@Injectable()
+export class CoverageService {
+  constructor(private prisma: PrismaService) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  async getCoverage(careRecipientId: string, userId: string) {
+    const { careRecipient } = await this.verifyAccess(careRecipientId, userId);
+
+    const windows = await this.prisma.coverageWindow.findMany({
+      where: { careRecipientId },
+      orderBy: [{ startTime: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return { alertDays: careRecipient.coverageAlertDays, windows };
+  }
+
+  async updateCoverage(careRecipientId: string, userId: string, dto: UpdateCoverageDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only admins can change coverage requirements');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.coverageWindow.deleteMany({ where: { careRecipientId } });
+
+      if (dto.windows.length > 0) {
+        await tx.coverageWindow.createMany({
+          data: dto.windows.map((window) => ({
+            careRecipientId,
+            daysOfWeek: [...new Set(window.daysOfWeek || [])].sort((a, b) => a - b),
+            startTime: window.startTime,
+            endTime: window.endTime,
+            label: window.label,
+          })),
+        });
+      }
+
+      if (dto.alertDays !== undefined) {
+        await tx.careRecipient.update({
+          where: { id: careRecipientId },
+          data: { coverageAlertDays: dto.alertDays },
+        });
+      }
+    });
+
+    return this.getCoverage(careRecipientId, userId);
+  }
+
+  /**
+   * Uncovered intervals from now through the next `days` days. Home coverage
+   * isn't needed while the care recipient is in hospital, so an open stay
+   * reports no gaps until discharge.
+   */
+  async getGaps(careRecipientId: string, userId: string, days = 14) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const from = new Date();
+    const until = addDays(from, Math.min(Math.max(days, 1), MAX_GAP_DAYS));
+
+    const [windows, admitted] = await Promise.all([
+      this.prisma.coverageWindow.findMany({
+        where: { careRecipientId },
+      }),
+      this.prisma.hospitalStay.count({
+        where: { careRecipientId, dischargedAt: null },
+      }),
+    ]);
+
+    if (windows.length === 0) {
+      return { from, until, hasRequirements: false, pausedForHospitalStay: false, gaps: [] };
+    }
+
+    if (admitted > 0) {
+      return { from, until, hasRequirements: true, pausedForHospitalStay: true, gaps: [] };
+    }
+
+    const shifts = await this.prisma.caregiverShift.findMany({
+      where: {
+        careRecipientId,
+        status: { in: COVERING_SHIFT_STATUSES },
+        startTime: { lt: until },
+        endTime: { gt: from },
+      },
+      select: { startTime: true, endTime: true },
+    });
+
+    const gaps = findCoverageGaps(
+      windows,
+      shifts.map((shift) => ({ start: shift.startTime, end: shift.endTime })),
+      from,
+      until,
+    );
+
+    return { from, until, hasRequirements: true, pausedForHospitalStay: false, gaps };
+  }
+}
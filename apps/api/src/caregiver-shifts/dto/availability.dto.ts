@@ -0,0 +1,73 @@
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class AvailabilityWindowDto {
+  @ApiPropertyOptional({
+    description: 'Days the window applies to (0 = Sunday). Omit or leave empty for every day.',
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  daysOfWeek?: number[];
+
+  @ApiProperty({ example: '08:00' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'At or before startTime runs past midnight; equal to startTime covers the whole day',
+    example: '17:00',
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+}
+
+/**
+ * Replaces a member's weekly availability. An empty list means the member
+ * has not said when they are available.
+ */
+export class UpdateAvailabilityDto {
+  @ApiProperty({ type: [AvailabilityWindowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AvailabilityWindowDto)
+  windows: AvailabilityWindowDto[];
+
+  @ApiPropertyOptional({ description: 'Most hours a week the member wants to work; null for no limit', example: 30 })
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  @IsOptional()
+  maxHoursPerWeek?: number | null;
+}
+
+export class CreateBlackoutDto {
+  @ApiProperty({ description: 'First day away', example: '2024-07-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day away (inclusive)', example: '2024-07-14' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiPropertyOptional({ example: 'Vacation' })
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  reason?: string;
+}
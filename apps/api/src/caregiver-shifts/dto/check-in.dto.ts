@@ -0,0 +1,40 @@
+import { IsNumber, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CheckInDto {
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @IsString()
+  @IsOptional()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Device latitude, checked against the home location', example: 39.7817 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Device longitude', example: -89.6501 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Reported accuracy of the position in metres', example: 20 })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  accuracy?: number;
+}
+
+export class ReviewShiftLocationDto {
+  @ApiPropertyOptional({ description: 'Why the check-in location was accepted' })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string;
+}
@@ -1,4 +1,15 @@
-import { IsOptional, IsString } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CheckOutDto {
   @IsString()
@@ -9,7 +20,42 @@ export class CheckOutDto {
   @IsOptional()
   location?: string;
 
+  @ApiPropertyOptional({ description: 'Device latitude, checked against the home location', example: 39.7817 })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  @IsOptional()
+  latitude?: number;
+
+  @ApiPropertyOptional({ description: 'Device longitude', example: -89.6501 })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  @IsOptional()
+  longitude?: number;
+
+  @ApiPropertyOptional({ description: 'Reported accuracy of the position in metres', example: 20 })
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  accuracy?: number;
+
+  @ApiPropertyOptional({ description: 'Notes for the incoming caregiver' })
   @IsString()
   @IsOptional()
   handoffNotes?: string;
+
+  @ApiPropertyOptional({ description: 'New to-dos for the incoming caregiver', example: ['Call pharmacy about refill'] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  @IsOptional()
+  todos?: string[];
+
+  @ApiPropertyOptional({ description: 'Carried-over to-dos finished during this shift' })
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  completedTodoIds?: string[];
 }
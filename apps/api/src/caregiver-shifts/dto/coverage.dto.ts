@@ -0,0 +1,62 @@
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class CoverageWindowDto {
+  @ApiPropertyOptional({
+    description: 'Days the window applies to (0 = Sunday). Omit or leave empty for every day.',
+    example: [1, 2, 3, 4, 5],
+  })
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  daysOfWeek?: number[];
+
+  @ApiProperty({ example: '08:00' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'startTime must be in HH:mm format' })
+  startTime: string;
+
+  @ApiProperty({
+    description: 'At or before startTime runs past midnight; equal to startTime covers the whole day',
+    example: '22:00',
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'endTime must be in HH:mm format' })
+  endTime: string;
+
+  @ApiPropertyOptional({ example: 'Daytime supervision' })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  label?: string;
+}
+
+/**
+ * Replaces a care recipient's coverage windows. An empty list turns coverage
+ * tracking off.
+ */
+export class UpdateCoverageDto {
+  @ApiProperty({ type: [CoverageWindowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CoverageWindowDto)
+  windows: CoverageWindowDto[];
+
+  @ApiPropertyOptional({ description: 'Days before a gap starts that admins are alerted', example: 2 })
+  @IsInt()
+  @Min(1)
+  @Max(14)
+  @IsOptional()
+  alertDays?: number;
+}
@@ -0,0 +1,40 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RecurrencePattern } from '../../appointments/dto/create-appointment.dto';
+import { CreateShiftDto } from './create-shift.dto';
+
+/**
+ * A recurring shift rotation. startTime and endTime describe the first shift;
+ * later shifts repeat it at the same time of day.
+ */
+export class CreateShiftSeriesDto extends CreateShiftDto {
+  @ApiPropertyOptional({
+    description: 'Recurrence rule (iCal RRULE format, without DTSTART)',
+    example: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  })
+  @IsString()
+  @IsOptional()
+  recurrenceRule?: string;
+
+  @ApiPropertyOptional({
+    description: 'Simple recurrence pattern, used when no recurrenceRule is given',
+    enum: RecurrencePattern,
+    example: RecurrencePattern.WEEKLY,
+  })
+  @IsEnum(RecurrencePattern)
+  @IsOptional()
+  recurrence?: RecurrencePattern;
+
+  @ApiPropertyOptional({ description: 'When the rotation ends; open-ended if omitted', example: '2024-12-31T23:59:59Z' })
+  @IsDateString()
+  @IsOptional()
+  recurrenceEndDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Create the rest of the series when some occurrences overlap existing shifts',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  skipConflicts?: boolean;
+}
@@ -1,3 +1,9 @@
 export * from './create-shift.dto';
+export * from './create-shift-series.dto';
+export * from './update-shift.dto';
+export * from './check-in.dto';
 export * from './check-out.dto';
-
+export * from './shift-swap.dto';
+export * from './coverage.dto';
+export * from './time-correction.dto';
+export * from './availability.dto';
@@ -0,0 +1,29 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateShiftSwapDto {
+  @ApiProperty({ description: 'ID of the shift being offered', format: 'uuid' })
+  @IsUUID()
+  @IsNotEmpty()
+  shiftId: string;
+
+  @ApiPropertyOptional({ description: 'Why the shift needs cover', example: 'Work trip that week' })
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class ClaimShiftSwapDto {
+  @ApiPropertyOptional({
+    description: 'One of your own upcoming shifts to give the requester in exchange',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @IsOptional()
+  tradeShiftId?: string;
+
+  @ApiPropertyOptional({ description: 'Note for the requester', example: 'Happy to take it' })
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
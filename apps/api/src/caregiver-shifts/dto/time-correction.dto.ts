@@ -0,0 +1,32 @@
+import { IsDateString, IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTimeCorrectionDto {
+  @ApiProperty({ description: 'ID of the shift whose times are being corrected', format: 'uuid' })
+  @IsUUID()
+  @IsNotEmpty()
+  shiftId: string;
+
+  @ApiProperty({ description: 'Corrected check-in time', example: '2024-03-04T08:00:00.000Z' })
+  @IsDateString()
+  checkedInAt: string;
+
+  @ApiPropertyOptional({ description: 'Corrected check-out time', example: '2024-03-04T16:00:00.000Z' })
+  @IsDateString()
+  @IsOptional()
+  checkedOutAt?: string;
+
+  @ApiProperty({ description: 'Why the recorded times are wrong', example: 'Forgot to check out' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
+
+export class ReviewTimeCorrectionDto {
+  @ApiPropertyOptional({ description: 'Note for the caregiver who asked for the correction' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
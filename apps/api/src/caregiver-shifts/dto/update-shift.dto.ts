@@ -0,0 +1,47 @@
+import { IsBoolean, IsDateString, IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum ShiftEditScope {
+  THIS = 'this',
+  FOLLOWING = 'following',
+  ALL = 'all',
+}
+
+export class UpdateShiftDto {
+  @ApiPropertyOptional({ description: 'Shift start time (ISO 8601)', example: '2024-03-15T08:00:00Z' })
+  @IsDateString()
+  @IsOptional()
+  startTime?: string;
+
+  @ApiPropertyOptional({ description: 'Shift end time (ISO 8601)', example: '2024-03-15T16:00:00Z' })
+  @IsDateString()
+  @IsOptional()
+  endTime?: string;
+
+  @ApiPropertyOptional({ description: 'ID of the caregiver assigned to this shift', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  caregiverId?: string;
+
+  @ApiPropertyOptional({ description: 'Additional notes for the shift' })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+
+  @ApiPropertyOptional({
+    description: 'For shifts in a recurring series: change this shift, this and following shifts, or the whole series',
+    enum: ShiftEditScope,
+    default: ShiftEditScope.THIS,
+  })
+  @IsEnum(ShiftEditScope)
+  @IsOptional()
+  scope?: ShiftEditScope;
+
+  @ApiPropertyOptional({
+    description: 'Skip regenerated occurrences that overlap existing shifts instead of failing',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  skipConflicts?: boolean;
+}
@@ -0,0 +1,66 @@
+import { CareRecipient, LocationVerification } from '@prisma/client';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ReportedLocation {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number; // Metres, as reported by the device
+}
+
+export interface LocationCheck {
+  verification: LocationVerification;
+  distanceMeters: number | null;
+}
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+/**
+ * Checks client-reported positions against a care recipient's home using
+ * the haversine great-circle distance; no maps service involved.
+ */
+export class GeoHelper {
+  static distanceMeters(a: GeoPoint, b: GeoPoint): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLon = toRadians(b.longitude - a.longitude);
+
+    const h =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  /**
+   * Null when the care recipient has no home location. The device's reported
+   * accuracy is given the benefit of the doubt, up to the radius itself, so a
+   * poor fix just outside the radius is not flagged.
+   */
+  static check(
+    home: Pick<CareRecipient, 'homeLatitude' | 'homeLongitude' | 'checkInRadiusMeters'>,
+    reported: ReportedLocation,
+  ): LocationCheck | null {
+    if (home.homeLatitude === null || home.homeLongitude === null) {
+      return null;
+    }
+
+    if (reported.latitude === undefined || reported.longitude === undefined) {
+      return { verification: 'NOT_PROVIDED', distanceMeters: null };
+    }
+
+    const distance = this.distanceMeters(
+      { latitude: home.homeLatitude, longitude: home.homeLongitude },
+      { latitude: reported.latitude, longitude: reported.longitude },
+    );
+    const tolerance = Math.min(reported.accuracy ?? 0, home.checkInRadiusMeters);
+
+    return {
+      verification: distance - tolerance <= home.checkInRadiusMeters ? 'VERIFIED' : 'OUTSIDE_RADIUS',
+      distanceMeters: Math.round(distance),
+    };
+  }
+}
@@ -0,0 +1,283 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  AlertStatus,
+  CaregiverShift,
+  EmergencyType,
+  MedicationLogStatus,
+  Prisma,
+  Severity,
+  TimelineType,
+} from '@prisma/client';
+import { v4 as uuid } from 'uuid';
+import { PrismaService } from '../prisma/prisma.service';
+import { CheckOutDto } from './dto/check-out.dto';
+
+export type HandoffTodo = {
+  id: string;
+  text: string;
+  done: boolean;
+  carriedOver: boolean;
+};
+
+export type HandoffDose = {
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  status: MedicationLogStatus;
+  scheduledTime: string;
+  givenTime: string | null;
+  givenBy: string | null;
+};
+
+export type HandoffSummary = {
+  from: string;
+  until: string;
+  medications: {
+    given: HandoffDose[];
+    missed: HandoffDose[];
+    skipped: HandoffDose[];
+  };
+  timelineEntries: {
+    id: string;
+    type: TimelineType;
+    title: string;
+    severity: Severity | null;
+    occurredAt: string;
+    createdBy: string;
+  }[];
+  openAlerts: {
+    id: string;
+    type: EmergencyType;
+    title: string;
+    status: AlertStatus;
+    createdAt: string;
+  }[];
+};
+
+const HANDOFF_INCLUDE = {
+  author: { select: { id: true, fullName: true, avatarUrl: true } },
+  acknowledgedBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.ShiftHandoffInclude;
+
+const MAX_HISTORY = 50;
+
+/**
+ * Structured shift handoffs. Check-out compiles what happened during the
+ * shift (doses logged, timeline entries, alerts still open) alongside the
+ * caregiver's notes and to-dos; the next caregiver to check in acknowledges it.
+ */
+@Injectable()
+export class ShiftHandoffsService {
+  constructor(private prisma: PrismaService) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  /**
+   * Write the handoff for a shift being checked out. Open to-dos from the
+   * previous handoff carry over unless they were ticked off.
+   */
+  async createForShift(
+    shift: CaregiverShift,
+    userId: string,
+    dto: CheckOutDto,
+    nextShiftId: string | null,
+  ) {
+    const until = new Date();
+    const summary = await this.compileSummary(shift.careRecipientId, shift.checkedInAt || shift.startTime, until);
+
+    const previous = await this.prisma.shiftHandoff.findFirst({
+      where: { careRecipientId: shift.careRecipientId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const completed = new Set(dto.completedTodoIds || []);
+    const carried: HandoffTodo[] = this.parseTodos(previous?.todos)
+      .filter((todo) => !todo.done)
+      .map((todo) => ({ ...todo, done: completed.has(todo.id), carriedOver: true }));
+
+    const added: HandoffTodo[] = (dto.todos || [])
+      .map((text) => text.trim())
+      .filter(Boolean)
+      .map((text) => ({ id: uuid(), text, done: false, carriedOver: false }));
+
+    return this.prisma.shiftHandoff.create({
+      data: {
+        shiftId: shift.id,
+        careRecipientId: shift.careRecipientId,
+        authorId: userId,
+        nextShiftId,
+        summary,
+        notes: dto.handoffNotes?.trim() || null,
+        todos: [...carried, ...added],
+      },
+      include: HANDOFF_INCLUDE,
+    });
+  }
+
+  /**
+   * Mark the latest unacknowledged handoff as received by the caregiver
+   * checking in. Returns it so the check-in response can show it.
+   */
+  async acknowledgeForShift(shift: CaregiverShift, userId: string) {
+    const pending = await this.prisma.shiftHandoff.findFirst({
+      where: {
+        careRecipientId: shift.careRecipientId,
+        acknowledgedAt: null,
+        authorId: { not: userId },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!pending) {
+      return null;
+    }
+
+    return this.prisma.shiftHandoff.update({
+      where: { id: pending.id },
+      data: { acknowledgedById: userId, acknowledgedAt: new Date() },
+      include: HANDOFF_INCLUDE,
+    });
+  }
+
+  /**
+   * The most recent handoff, for the incoming caregiver to read before
+   * checking in
+   */
+  async getLatest(careRecipientId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    return this.prisma.shiftHandoff.findFirst({
+      where: { careRecipientId },
+      include: {
+        ...HANDOFF_INCLUDE,
+        shift: { select: { id: true, startTime: true, endTime: true, checkedInAt: true, checkedOutAt: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async getForShift(careRecipientId: string, shiftId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const handoff = await this.prisma.shiftHandoff.findFirst({
+      where: { shiftId, careRecipientId },
+      include: HANDOFF_INCLUDE,
+    });
+
+    if (!handoff) {
+      throw new NotFoundException('Handoff not found');
+    }
+
+    return handoff;
+  }
+
+  /**
+   * Completed shifts, newest first, with their handoffs
+   */
+  async getHistory(careRecipientId: string, userId: string, options: { limit?: number; before?: Date }) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    return this.prisma.caregiverShift.findMany({
+      where: {
+        careRecipientId,
+        status: 'COMPLETED',
+        ...(options.before && { startTime: { lt: options.before } }),
+      },
+      include: {
+        caregiver: { select: { id: true, fullName: true, avatarUrl: true } },
+        handoff: { include: HANDOFF_INCLUDE },
+      },
+      orderBy: { startTime: 'desc' },
+      take: Math.min(Math.max(options.limit || 20, 1), MAX_HISTORY),
+    });
+  }
+
+  /**
+   * What happened for a care recipient between check-in and check-out
+   */
+  async compileSummary(careRecipientId: string, from: Date, until: Date): Promise<HandoffSummary> {
+    const [logs, entries, alerts] = await Promise.all([
+      this.prisma.medicationLog.findMany({
+        where: {
+          medication: { careRecipientId },
+          status: { in: ['GIVEN', 'MISSED', 'SKIPPED'] },
+          OR: [
+            { givenTime: { gte: from, lte: until } },
+            { givenTime: null, scheduledTime: { gte: from, lte: until } },
+          ],
+        },
+        include: {
+          medication: { select: { id: true, name: true, dosage: true } },
+          givenBy: { select: { fullName: true } },
+        },
+        orderBy: { scheduledTime: 'asc' },
+      }),
+      this.prisma.timelineEntry.findMany({
+        where: { careRecipientId, occurredAt: { gte: from, lte: until } },
+        include: { createdBy: { select: { fullName: true } } },
+        orderBy: { occurredAt: 'asc' },
+      }),
+      this.prisma.emergencyAlert.findMany({
+        where: { careRecipientId, status: { in: ['ACTIVE', 'ACKNOWLEDGED'] } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const doses: HandoffDose[] = logs.map((log) => ({
+      medicationId: log.medication.id,
+      medicationName: log.medication.name,
+      dosage: log.medication.dosage,
+      status: log.status,
+      scheduledTime: log.scheduledTime.toISOString(),
+      givenTime: log.givenTime?.toISOString() ?? null,
+      givenBy: log.givenBy?.fullName ?? null,
+    }));
+
+    return {
+      from: from.toISOString(),
+      until: until.toISOString(),
+      medications: {
+        given: doses.filter((dose) => dose.status === 'GIVEN'),
+        missed: doses.filter((dose) => dose.status === 'MISSED'),
+        skipped: doses.filter((dose) => dose.status === 'SKIPPED'),
+      },
+      timelineEntries: entries.map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        title: entry.title,
+        severity: entry.severity,
+        occurredAt: entry.occurredAt.toISOString(),
+        createdBy: entry.createdBy.fullName,
+      })),
+      openAlerts: alerts.map((alert) => ({
+        id: alert.id,
+        type: alert.type,
+        title: alert.title,
+        status: alert.status,
+        createdAt: alert.createdAt.toISOString(),
+      })),
+    };
+  }
+
+  private parseTodos(value: Prisma.JsonValue | undefined): HandoffTodo[] {
+    return Array.isArray(value) ? (value as unknown as HandoffTodo[]) : [];
+  }
+}
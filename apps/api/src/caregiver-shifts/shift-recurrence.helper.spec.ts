@@ -0,0 +1,131 @@
+import { RRule } from 'rrule';
+import { RecurrencePattern } from '../appointments/dto/create-appointment.dto';
+import { ShiftRecurrenceHelper } from './shift-recurrence.helper';
+
+// Monday 1 January 2024, 08:00 UTC
+const firstShift = new Date('2024-01-01T08:00:00Z');
+
+function rule(recurrenceRule: string): RRule {
+  const built = ShiftRecurrenceHelper.build(firstShift, { recurrenceRule });
+  expect(built.error).toBeNull();
+  return built.rule!;
+}
+
+function iso(dates: Date[]): string[] {
+  return dates.map((date) => date.toISOString());
+}
+
+describe('ShiftRecurrenceHelper', () => {
+  describe('build', () => {
+    it('anchors the rule at the first shift', () => {
+      const built = ShiftRecurrenceHelper.build(firstShift, {
+        recurrence: RecurrencePattern.BIWEEKLY,
+        recurrenceEndDate: new Date('2024-02-01T00:00:00Z'),
+      });
+
+      expect(iso(built.rule!.all())).toEqual([
+        '2024-01-01T08:00:00.000Z',
+        '2024-01-15T08:00:00.000Z',
+        '2024-01-29T08:00:00.000Z',
+      ]);
+    });
+
+    it.each([
+      ['FREQ=HOURLY;INTERVAL=4', 'Shifts can only repeat daily, weekly or monthly'],
+      ['FREQ=WEEKLY;UNTIL=20231201T000000Z', 'Recurrence end date must be after the first shift'],
+      ['not a rule', 'recurrenceRule is not a valid RRULE'],
+    ])('rejects %s', (recurrenceRule, error) => {
+      expect(ShiftRecurrenceHelper.build(firstShift, { recurrenceRule }).error).toBe(error);
+    });
+  });
+
+  describe('split', () => {
+    it('ends the first part just before the anchor and starts the rest at it', () => {
+      const weekly = rule('FREQ=WEEKLY;BYDAY=MO,TH');
+      const anchor = new Date('2024-01-11T08:00:00Z');
+
+      const { before, after } = ShiftRecurrenceHelper.split(weekly, anchor);
+
+      expect(iso(before!.all())).toEqual([
+        '2024-01-01T08:00:00.000Z',
+        '2024-01-04T08:00:00.000Z',
+        '2024-01-08T08:00:00.000Z',
+      ]);
+      expect(iso(after.all((_date, i) => i < 3))).toEqual([
+        '2024-01-11T08:00:00.000Z',
+        '2024-01-15T08:00:00.000Z',
+        '2024-01-18T08:00:00.000Z',
+      ]);
+    });
+
+    it('keeps what is left of a COUNT after the anchor', () => {
+      const daily = rule('FREQ=DAILY;COUNT=10');
+
+      const { before, after } = ShiftRecurrenceHelper.split(daily, new Date('2024-01-04T08:00:00Z'));
+
+      expect(before!.all()).toHaveLength(3);
+      expect(after.all()).toHaveLength(7);
+      expect(after.all()[6].toISOString()).toBe('2024-01-10T08:00:00.000Z');
+    });
+
+    it('has no first part when split at the first shift', () => {
+      const { before, after } = ShiftRecurrenceHelper.split(rule('FREQ=DAILY;COUNT=3'), firstShift);
+
+      expect(before).toBeNull();
+      expect(after.all()).toHaveLength(3);
+    });
+  });
+
+  describe('reschedule', () => {
+    it('moves the time of day of every occurrence', () => {
+      const { after } = ShiftRecurrenceHelper.split(rule('FREQ=WEEKLY;BYDAY=MO,TH'), new Date('2024-01-11T08:00:00Z'));
+
+      const moved = ShiftRecurrenceHelper.reschedule(after, new Date('2024-01-11T14:30:00Z'));
+
+      expect(iso(moved.all((_date, i) => i < 3))).toEqual([
+        '2024-01-11T14:30:00.000Z',
+        '2024-01-15T14:30:00.000Z',
+        '2024-01-18T14:30:00.000Z',
+      ]);
+    });
+
+    it('shifts BYDAY weekdays when the anchor moves to another day', () => {
+      const { after } = ShiftRecurrenceHelper.split(rule('FREQ=WEEKLY;BYDAY=MO,TH'), new Date('2024-01-11T08:00:00Z'));
+
+      // Thursday to Friday: every Monday moves to Tuesday as well
+      const moved = ShiftRecurrenceHelper.reschedule(after, new Date('2024-01-12T08:00:00Z'));
+
+      expect(iso(moved.all((_date, i) => i < 4))).toEqual([
+        '2024-01-12T08:00:00.000Z',
+        '2024-01-16T08:00:00.000Z',
+        '2024-01-19T08:00:00.000Z',
+        '2024-01-23T08:00:00.000Z',
+      ]);
+    });
+
+    it('wraps weekdays moved past Sunday', () => {
+      const moved = ShiftRecurrenceHelper.reschedule(rule('FREQ=WEEKLY;BYDAY=SA'), new Date('2024-01-02T08:00:00Z'));
+
+      expect(moved.origOptions.byweekday).toEqual([RRule.SU]);
+    });
+  });
+
+  describe('slots', () => {
+    it('gives each occurrence an end and spots overlapping shifts', () => {
+      const slots = ShiftRecurrenceHelper.slots(
+        rule('FREQ=DAILY'),
+        25 * 60,
+        firstShift,
+        new Date('2024-01-03T08:00:00Z'),
+      );
+
+      expect(slots.map((slot) => slot.end.toISOString())).toEqual([
+        '2024-01-02T09:00:00.000Z',
+        '2024-01-03T09:00:00.000Z',
+        '2024-01-04T09:00:00.000Z',
+      ]);
+      expect(ShiftRecurrenceHelper.overlapsItself(slots)).toBe(true);
+      expect(ShiftRecurrenceHelper.slots(rule('FREQ=DAILY'), 60, firstShift, firstShift, false)).toEqual([]);
+    });
+  });
+});
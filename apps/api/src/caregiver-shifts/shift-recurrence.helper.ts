@@ -0,0 +1,147 @@
+import { RRule, Frequency, Options, Weekday } from 'rrule';
+import { RecurrencePattern } from '../appointments/dto/create-appointment.dto';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Shift rotations repeat by day, week or month; anything finer would
+// materialize thousands of shifts
+const ALLOWED_FREQUENCIES = [Frequency.DAILY, Frequency.WEEKLY, Frequency.MONTHLY];
+
+export interface ShiftSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Builds, expands and splits the RRULEs behind recurring shift series.
+ * The rule's DTSTART is always the start of the series' first shift, so the
+ * time of day of every occurrence comes from it.
+ */
+export class ShiftRecurrenceHelper {
+  /**
+   * Builds a rule from either a raw RRULE (any DTSTART in it is replaced by
+   * the first shift's start) or a simple pattern with an optional end date
+   */
+  static build(
+    startTime: Date,
+    input: { recurrenceRule?: string; recurrence?: RecurrencePattern; recurrenceEndDate?: Date },
+  ): { rule: RRule | null; error: string | null } {
+    let options: Partial<Options>;
+
+    if (input.recurrenceRule) {
+      try {
+        options = RRule.parseString(input.recurrenceRule.trim());
+      } catch {
+        return { rule: null, error: 'recurrenceRule is not a valid RRULE' };
+      }
+    } else if (input.recurrence && input.recurrence !== RecurrencePattern.NONE) {
+      options = this.patternOptions(input.recurrence);
+      if (input.recurrenceEndDate) {
+        options.until = input.recurrenceEndDate;
+      }
+    } else {
+      return { rule: null, error: 'recurrence or recurrenceRule is required for a recurring shift' };
+    }
+
+    if (options.freq === undefined || !ALLOWED_FREQUENCIES.includes(options.freq)) {
+      return { rule: null, error: 'Shifts can only repeat daily, weekly or monthly' };
+    }
+
+    if (options.until && options.until < startTime) {
+      return { rule: null, error: 'Recurrence end date must be after the first shift' };
+    }
+
+    const rule = new RRule({ ...options, dtstart: startTime, tzid: null });
+
+    if (!rule.after(startTime, true)) {
+      return { rule: null, error: 'Recurrence rule does not produce any shifts' };
+    }
+
+    return { rule, error: null };
+  }
+
+  static parse(recurrenceRule: string): RRule {
+    return RRule.fromString(recurrenceRule);
+  }
+
+  /**
+   * Occurrence slots starting after `from` (inclusive when `inclusive`) and
+   * on or before `until`
+   */
+  static slots(rule: RRule, durationMinutes: number, from: Date, until: Date, inclusive = true): ShiftSlot[] {
+    return rule
+      .between(from, until, true)
+      .filter((start) => inclusive || start > from)
+      .map((start) => ({ start, end: new Date(start.getTime() + durationMinutes * 60 * 1000) }));
+  }
+
+  /**
+   * True when a shift would still be running when the next one in the
+   * series starts
+   */
+  static overlapsItself(slots: ShiftSlot[]): boolean {
+    return slots.some((slot, i) => i > 0 && slots[i - 1].end > slot.start);
+  }
+
+  /**
+   * Splits a rule at an occurrence, for "this and following" edits.
+   * `before` is null when the occurrence is the first one; `after` starts at
+   * the occurrence and keeps whatever is left of a COUNT.
+   */
+  static split(rule: RRule, at: Date): { before: RRule | null; after: RRule } {
+    const { dtstart, ...options } = rule.origOptions;
+    const earlier = rule.all((date) => date < at).length;
+
+    const before =
+      earlier > 0
+        ? new RRule({ ...options, dtstart, count: null, until: new Date(at.getTime() - 1000) })
+        : null;
+
+    const after = new RRule({
+      ...options,
+      dtstart: at,
+      count: options.count ? Math.max(options.count - earlier, 1) : options.count,
+    });
+
+    return { before, after };
+  }
+
+  /**
+   * Moves a rule to a new first occurrence. Weekdays in BYDAY move with it,
+   * so moving a Monday shift to Tuesday moves every Monday in the rotation.
+   */
+  static reschedule(rule: RRule, newStart: Date): RRule {
+    const options = rule.origOptions;
+    const oldStart = options.dtstart || newStart;
+    const dayDelta = Math.round((this.utcDay(newStart) - this.utcDay(oldStart)) / MS_PER_DAY);
+
+    const byweekday =
+      dayDelta !== 0 && options.byweekday
+        ? (Array.isArray(options.byweekday) ? options.byweekday : [options.byweekday]).map((day) => {
+            const weekday = typeof day === 'number' ? new Weekday(day) : typeof day === 'string' ? Weekday.fromStr(day) : day;
+            return new Weekday((((weekday.weekday + dayDelta) % 7) + 7) % 7, weekday.n);
+          })
+        : options.byweekday;
+
+    return new RRule({ ...options, dtstart: newStart, byweekday });
+  }
+
+  private static patternOptions(pattern: RecurrencePattern): Partial<Options> {
+    switch (pattern) {
+      case RecurrencePattern.DAILY:
+        return { freq: Frequency.DAILY };
+      case RecurrencePattern.WEEKLY:
+        return { freq: Frequency.WEEKLY };
+      case RecurrencePattern.BIWEEKLY:
+        return { freq: Frequency.WEEKLY, interval: 2 };
+      case RecurrencePattern.MONTHLY:
+        return { freq: Frequency.MONTHLY };
+      default:
+        return {};
+    }
+  }
+
+  private static utcDay(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CronStatus } from '@prisma/client';
+import { addDays } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { LockHelper } from '../system/helper/lock.helper';
+import { SHIFT_MATERIALIZE_DAYS, ShiftSeriesService } from './shift-series.service';
+
+/**
+ * Keeps recurring shift series materialized SHIFT_MATERIALIZE_DAYS ahead.
+ * Runs nightly with the same locking and cron logging as the reminder scheduler.
+ */
+@Injectable()
+export class ShiftSeriesScheduler {
+  private readonly logger = new Logger(ShiftSeriesScheduler.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly shiftSeriesService: ShiftSeriesService,
+    private readonly lockHelper: LockHelper,
+  ) {}
+
+  @Cron('0 2 * * *') // Every day at 2 AM
+  async materializeShiftSeries() {
+    const lockAcquired = await this.lockHelper.acquire('cron:shift-series', 300);
+    if (!lockAcquired) {
+      this.logger.debug('Shift series cron skipped - another instance is running');
+      return;
+    }
+
+    const startTime = new Date();
+    const log = await this.prisma.cronLog
+      .create({ data: { jobName: 'shift-series-materialize', status: CronStatus.STARTED } })
+      .catch((error) => {
+        this.logger.warn(`Failed to log cron start: ${error.message}`);
+        return null;
+      });
+    let itemsProcessed = 0;
+
+    try {
+      const series = await this.prisma.shiftSeries.findMany({
+        where: {
+          isActive: true,
+          materializedUntil: { lt: addDays(startTime, SHIFT_MATERIALIZE_DAYS) },
+        },
+        include: {
+          careRecipient: { select: { fullName: true, preferredName: true } },
+        },
+      });
+
+      for (const s of series) {
+        try {
+          itemsProcessed += await this.shiftSeriesService.materialize(s);
+        } catch (error) {
+          this.logger.error(`Failed to materialize shift series ${s.id}: ${error.message}`);
+        }
+      }
+
+      await this.finishLog(log?.id, startTime, { status: CronStatus.COMPLETED, itemsProcessed });
+    } catch (error) {
+      this.logger.error(`Shift series materialization failed: ${error.message}`);
+      await this.finishLog(log?.id, startTime, { status: CronStatus.FAILED, error: error.message });
+    } finally {
+      await this.lockHelper.release('cron:shift-series');
+    }
+  }
+
+  private async finishLog(
+    logId: string | undefined,
+    startTime: Date,
+    data: { status: CronStatus; itemsProcessed?: number; error?: string },
+  ): Promise<void> {
+    if (!logId) return;
+    try {
+      await this.prisma.cronLog.update({
+        where: { id: logId },
+        data: { ...data, duration: Date.now() - startTime.getTime(), completedAt: new Date() },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to log cron completion: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,515 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+  Logger,
+} from '@nestjs/common';
+import { ShiftSeries } from '@prisma/client';
+import { addDays, differenceInMinutes, format } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CaregiverShiftsService, EDITABLE_SHIFT_STATUSES } from './caregiver-shifts.service';
+import { CreateShiftSeriesDto } from './dto/create-shift-series.dto';
+import { ShiftEditScope, UpdateShiftDto } from './dto/update-shift.dto';
+import { ShiftRecurrenceHelper, ShiftSlot } from './shift-recurrence.helper';
+
+// Shifts are created this many days ahead; ShiftSeriesScheduler keeps the
+// window rolling forward
+export const SHIFT_MATERIALIZE_DAYS = 28;
+
+const SERIES_INCLUDE = {
+  caregiver: {
+    select: { id: true, fullName: true, phone: true },
+  },
+  careRecipient: {
+    select: { fullName: true, preferredName: true },
+  },
+};
+
+/**
+ * Recurring shift rotations. A series stores the RRULE and shift length;
+ * its shifts are materialized as ordinary CaregiverShift rows, each checked
+ * against the caregiver's existing shifts before it is created.
+ */
+@Injectable()
+export class ShiftSeriesService {
+  private readonly logger = new Logger(ShiftSeriesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private shiftsService: CaregiverShiftsService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  async createSeries(careRecipientId: string, userId: string, dto: CreateShiftSeriesDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot create shifts');
+    }
+
+    const startTime = new Date(dto.startTime);
+    const endTime = new Date(dto.endTime);
+
+    if (endTime <= startTime) {
+      throw new BadRequestException('Shift must end after it starts');
+    }
+
+    const { rule, error } = ShiftRecurrenceHelper.build(startTime, {
+      recurrenceRule: dto.recurrenceRule,
+      recurrence: dto.recurrence,
+      recurrenceEndDate: dto.recurrenceEndDate ? new Date(dto.recurrenceEndDate) : undefined,
+    });
+
+    if (!rule) {
+      throw new BadRequestException(error);
+    }
+
+    const durationMinutes = differenceInMinutes(endTime, startTime);
+    const materializedUntil = this.horizon(startTime);
+    const slots = ShiftRecurrenceHelper.slots(rule, durationMinutes, startTime, materializedUntil);
+    const open = await this.checkSlots(careRecipientId, dto.caregiverId, slots, [], dto.skipConflicts);
+
+    const series = await this.prisma.shiftSeries.create({
+      data: {
+        careRecipientId,
+        caregiverId: dto.caregiverId,
+        createdById: userId,
+        recurrenceRule: rule.toString(),
+        durationMinutes,
+        notes: dto.notes,
+        materializedUntil,
+        shifts: {
+          createMany: {
+            data: open.map((slot) => ({
+              careRecipientId,
+              caregiverId: dto.caregiverId,
+              startTime: slot.start,
+              endTime: slot.end,
+              occurrenceStart: slot.start,
+              notes: dto.notes,
+            })),
+          },
+        },
+      },
+      include: SERIES_INCLUDE,
+    });
+
+    const description = rule.toText();
+    this.logger.log(`Created shift series ${series.id} with ${open.length} shifts`);
+
+    await this.notifications.notifyShiftSeries(series, 'assigned', { description });
+    await this.shiftsService.invalidateShiftCache(careRecipientId);
+
+    return {
+      ...series,
+      description,
+      shiftsCreated: open.length,
+      skipped: this.skippedStarts(slots, open),
+    };
+  }
+
+  async getSeries(careRecipientId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const series = await this.prisma.shiftSeries.findMany({
+      where: { careRecipientId, isActive: true },
+      include: {
+        caregiver: {
+          select: { id: true, fullName: true, email: true, avatarUrl: true },
+        },
+        _count: {
+          select: {
+            shifts: { where: { startTime: { gte: new Date() }, status: { in: EDITABLE_SHIFT_STATUSES } } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return series.map(({ _count, ...s }) => ({
+      ...s,
+      description: ShiftRecurrenceHelper.parse(s.recurrenceRule).toText(),
+      upcomingShifts: _count.shifts,
+    }));
+  }
+
+  /**
+   * Edit a shift with an optional series scope. "this" edits only the shift;
+   * "following" and "all" end the current series at the anchor occurrence and
+   * continue it as a new series, with the edited shift's times and caregiver
+   * as the new pattern. "all" only changes shifts that have not started.
+   */
+  async updateShift(careRecipientId: string, shiftId: string, userId: string, dto: UpdateShiftDto) {
+    if (!dto.scope || dto.scope === ShiftEditScope.THIS) {
+      return this.shiftsService.updateShift(careRecipientId, shiftId, userId, dto);
+    }
+
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot edit shifts');
+    }
+
+    const shift = await this.prisma.caregiverShift.findFirst({
+      where: { id: shiftId, careRecipientId },
+      include: { series: true },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    if (!shift.series) {
+      throw new BadRequestException('Shift is not part of a recurring series');
+    }
+
+    if (!EDITABLE_SHIFT_STATUSES.includes(shift.status)) {
+      throw new BadRequestException('Only shifts that have not started can be edited');
+    }
+
+    const series = shift.series;
+    const startTime = dto.startTime ? new Date(dto.startTime) : shift.startTime;
+    const endTime = dto.endTime ? new Date(dto.endTime) : shift.endTime;
+
+    if (endTime <= startTime) {
+      throw new BadRequestException('Shift must end after it starts');
+    }
+
+    const occurrence = shift.occurrenceStart || shift.startTime;
+    const anchor = dto.scope === ShiftEditScope.ALL ? await this.firstUpcomingOccurrence(series, occurrence) : occurrence;
+
+    const caregiverId = dto.caregiverId || series.caregiverId;
+    const notes = dto.notes !== undefined ? dto.notes : series.notes;
+    const durationMinutes = differenceInMinutes(endTime, startTime);
+    const offset = startTime.getTime() - occurrence.getTime();
+    const rescheduled = offset !== 0 || durationMinutes !== series.durationMinutes;
+
+    const { before, after } = ShiftRecurrenceHelper.split(ShiftRecurrenceHelper.parse(series.recurrenceRule), anchor);
+    const newStart = new Date(anchor.getTime() + offset);
+    const rule = rescheduled ? ShiftRecurrenceHelper.reschedule(after, newStart) : after;
+
+    const affected = await this.prisma.caregiverShift.findMany({
+      where: {
+        seriesId: series.id,
+        occurrenceStart: { gte: anchor },
+        status: { in: EDITABLE_SHIFT_STATUSES },
+      },
+      select: { id: true, startTime: true, endTime: true, isSeriesException: true },
+    });
+    const affectedIds = affected.map((s) => s.id);
+
+    // Rescheduling regenerates the shifts from the new pattern; otherwise the
+    // existing shifts move to the new series and only the caregiver and notes change
+    let slots: ShiftSlot[] = [];
+    let open: ShiftSlot[] = [];
+    let materializedUntil = series.materializedUntil;
+    const reassigned = affected.filter((s) => !s.isSeriesException || s.id === shiftId);
+
+    if (rescheduled) {
+      // Regenerating deletes the affected shifts, and their swap requests with
+      // them, so swaps have to be settled first
+      const swaps = await this.prisma.shiftSwapRequest.count({
+        where: {
+          status: { in: ['OPEN', 'CLAIMED', 'APPROVED'] },
+          OR: [{ shiftId: { in: affectedIds } }, { tradeShiftId: { in: affectedIds } }],
+        },
+      });
+
+      if (swaps > 0) {
+        throw new ConflictException(
+          'Some of these shifts have swaps in progress or approved. Cancel open swaps, or edit swapped ' +
+            'shifts one at a time, before changing the times.',
+        );
+      }
+
+      materializedUntil = this.horizon(newStart);
+      slots = ShiftRecurrenceHelper.slots(rule, durationMinutes, newStart, materializedUntil);
+      open = await this.checkSlots(careRecipientId, caregiverId, slots, affectedIds, dto.skipConflicts);
+    } else {
+      await this.checkSlots(
+        careRecipientId,
+        caregiverId,
+        reassigned.map((s) => ({ start: s.startTime, end: s.endTime })),
+        affectedIds,
+      );
+    }
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      await tx.shiftSeries.update({
+        where: { id: series.id },
+        data: before ? { recurrenceRule: before.toString() } : { isActive: false },
+      });
+
+      const next = await tx.shiftSeries.create({
+        data: {
+          careRecipientId,
+          caregiverId,
+          createdById: userId,
+          recurrenceRule: rule.toString(),
+          durationMinutes,
+          notes,
+          materializedUntil,
+        },
+        include: SERIES_INCLUDE,
+      });
+
+      if (rescheduled) {
+        await tx.caregiverShift.deleteMany({ where: { id: { in: affectedIds } } });
+        await tx.caregiverShift.createMany({
+          data: open.map((slot) => ({
+            careRecipientId,
+            caregiverId,
+            seriesId: next.id,
+            startTime: slot.start,
+            endTime: slot.end,
+            occurrenceStart: slot.start,
+            notes,
+          })),
+        });
+      } else {
+        await tx.caregiverShift.updateMany({
+          where: { seriesId: series.id, occurrenceStart: { gte: anchor } },
+          data: { seriesId: next.id },
+        });
+        await tx.caregiverShift.updateMany({
+          where: { id: { in: reassigned.map((s) => s.id) } },
+          data: {
+            caregiverId,
+            notes,
+            isSeriesException: false,
+            ...(caregiverId !== series.caregiverId && { status: 'SCHEDULED' }),
+          },
+        });
+      }
+
+      return next;
+    });
+
+    if (!rescheduled && caregiverId !== series.caregiverId) {
+      await this.shiftsService.closeSwapRequests(reassigned.map((s) => s.id));
+    }
+
+    const description = rule.toText();
+
+    if (rescheduled || caregiverId !== series.caregiverId) {
+      await this.notifications.notifyShiftSeries(created, 'assigned', { description });
+    }
+
+    await this.shiftsService.invalidateShiftCache(careRecipientId, shiftId);
+
+    return {
+      ...created,
+      description,
+      skipped: this.skippedStarts(slots, open),
+    };
+  }
+
+  /**
+   * Cancel a shift, or with a scope, end the series: "following" cancels this
+   * and later shifts, "all" cancels every shift that has not started yet
+   */
+  async cancelShift(shiftId: string, userId: string, scope?: ShiftEditScope) {
+    if (!scope || scope === ShiftEditScope.THIS) {
+      return this.shiftsService.cancelShift(shiftId, userId);
+    }
+
+    const shift = await this.prisma.caregiverShift.findUnique({
+      where: { id: shiftId },
+      include: { series: true },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    if (!shift.series) {
+      throw new BadRequestException('Shift is not part of a recurring series');
+    }
+
+    const { membership } = await this.verifyAccess(shift.careRecipientId, userId);
+
+    // Only admins or the series' caregiver can cancel a series
+    if (membership.role !== 'ADMIN' && shift.series.caregiverId !== userId) {
+      throw new ForbiddenException('You cannot cancel this series');
+    }
+
+    const anchor = scope === ShiftEditScope.FOLLOWING ? shift.occurrenceStart || shift.startTime : null;
+    const before = anchor
+      ? ShiftRecurrenceHelper.split(ShiftRecurrenceHelper.parse(shift.series.recurrenceRule), anchor).before
+      : null;
+
+    const cancelledShifts = await this.prisma.caregiverShift.findMany({
+      where: {
+        seriesId: shift.series.id,
+        status: { in: EDITABLE_SHIFT_STATUSES },
+        ...(anchor ? { occurrenceStart: { gte: anchor } } : { startTime: { gte: new Date() } }),
+      },
+      select: { id: true },
+    });
+    const cancelledIds = cancelledShifts.map((s) => s.id);
+
+    const [, result] = await this.prisma.$transaction([
+      this.prisma.shiftSeries.update({
+        where: { id: shift.series.id },
+        data: before ? { recurrenceRule: before.toString() } : { isActive: false },
+      }),
+      this.prisma.caregiverShift.updateMany({
+        where: { id: { in: cancelledIds } },
+        data: { status: 'CANCELLED' },
+      }),
+    ]);
+
+    await this.shiftsService.closeSwapRequests(cancelledIds);
+
+    await this.shiftsService.invalidateShiftCache(shift.careRecipientId, shiftId);
+
+    return {
+      seriesId: shift.series.id,
+      cancelledCount: result.count,
+    };
+  }
+
+  /**
+   * Creates the series' shifts up to the rolling horizon. Occurrences that
+   * overlap an existing shift are skipped and reported to whoever set the
+   * series up. Used by ShiftSeriesScheduler.
+   *
+   * Nothing is created while the care recipient is in hospital; the first
+   * run after discharge carries on from then without backfilling the stay.
+   *
+   * @returns the number of shifts created
+   */
+  async materialize(series: ShiftSeries & { careRecipient: { fullName: string; preferredName: string | null } }) {
+    const admitted = await this.prisma.hospitalStay.count({
+      where: { careRecipientId: series.careRecipientId, dischargedAt: null },
+    });
+
+    if (admitted > 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const materializedUntil = series.materializedUntil || series.createdAt;
+    const from = materializedUntil > now ? materializedUntil : now;
+    const until = this.horizon(now);
+
+    if (until <= from) {
+      return 0;
+    }
+
+    const rule = ShiftRecurrenceHelper.parse(series.recurrenceRule);
+    const slots = ShiftRecurrenceHelper.slots(rule, series.durationMinutes, from, until, false);
+    const conflicts = await this.shiftsService.findConflicts(series.careRecipientId, series.caregiverId, slots);
+    const open = slots.filter((slot) => !conflicts.includes(slot));
+
+    await this.prisma.$transaction([
+      this.prisma.caregiverShift.createMany({
+        data: open.map((slot) => ({
+          careRecipientId: series.careRecipientId,
+          caregiverId: series.caregiverId,
+          seriesId: series.id,
+          startTime: slot.start,
+          endTime: slot.end,
+          occurrenceStart: slot.start,
+          notes: series.notes,
+        })),
+        skipDuplicates: true,
+      }),
+      this.prisma.shiftSeries.update({
+        where: { id: series.id },
+        data: { materializedUntil: until },
+      }),
+    ]);
+
+    if (conflicts.length > 0) {
+      await this.notifications.notifyShiftSeries(series, 'conflicts', {
+        skipped: conflicts.map((slot) => slot.start),
+      });
+    }
+
+    if (open.length > 0) {
+      await this.shiftsService.invalidateShiftCache(series.careRecipientId);
+    }
+
+    return open.length;
+  }
+
+  /**
+   * Runs the overlap check for every slot. Conflicts fail the request unless
+   * `skipConflicts` is set, in which case the free slots are returned.
+   */
+  private async checkSlots(
+    careRecipientId: string,
+    caregiverId: string,
+    slots: ShiftSlot[],
+    excludeShiftIds: string[],
+    skipConflicts = false,
+  ): Promise<ShiftSlot[]> {
+    if (ShiftRecurrenceHelper.overlapsItself(slots)) {
+      throw new BadRequestException('Each shift must end before the next one in the series starts');
+    }
+
+    const conflicts = await this.shiftsService.findConflicts(careRecipientId, caregiverId, slots, excludeShiftIds);
+
+    if (conflicts.length > 0 && !skipConflicts) {
+      const dates = conflicts.slice(0, 5).map((slot) => format(slot.start, 'EEE MMM d, h:mm a'));
+      throw new ConflictException(
+        `${conflicts.length} shift${conflicts.length === 1 ? '' : 's'} in the series overlap existing shifts: ${dates.join('; ')}${conflicts.length > 5 ? '…' : ''}`,
+      );
+    }
+
+    return slots.filter((slot) => !conflicts.includes(slot));
+  }
+
+  /**
+   * The earliest occurrence that has not started, so "all" edits leave past
+   * shifts as they were
+   */
+  private async firstUpcomingOccurrence(series: ShiftSeries, fallback: Date): Promise<Date> {
+    const upcoming = await this.prisma.caregiverShift.findFirst({
+      where: {
+        seriesId: series.id,
+        status: { in: EDITABLE_SHIFT_STATUSES },
+        startTime: { gte: new Date() },
+      },
+      orderBy: { occurrenceStart: 'asc' },
+    });
+
+    return upcoming?.occurrenceStart && upcoming.occurrenceStart < fallback ? upcoming.occurrenceStart : fallback;
+  }
+
+  private horizon(from: Date): Date {
+    const start = from > new Date() ? from : new Date();
+    return addDays(start, SHIFT_MATERIALIZE_DAYS);
+  }
+
+  private skippedStarts(slots: ShiftSlot[], open: ShiftSlot[]): Date[] {
+    return slots.filter((slot) => !open.includes(slot)).map((slot) => slot.start);
+  }
+}
@@ -0,0 +1,484 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { CaregiverShift, FamilyRole, Prisma, ShiftSwapStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CaregiverShiftsService, EDITABLE_SHIFT_STATUSES } from './caregiver-shifts.service';
+import { ClaimShiftSwapDto, CreateShiftSwapDto } from './dto/shift-swap.dto';
+
+export const ACTIVE_SWAP_STATUSES: ShiftSwapStatus[] = ['OPEN', 'CLAIMED'];
+
+const SWAP_INCLUDE = {
+  shift: {
+    include: {
+      caregiver: { select: { id: true, fullName: true, avatarUrl: true } },
+      careRecipient: { select: { id: true, fullName: true, preferredName: true } },
+    },
+  },
+  tradeShift: { select: { id: true, startTime: true, endTime: true, status: true } },
+  requestedBy: { select: { id: true, fullName: true } },
+  claimedBy: { select: { id: true, fullName: true, avatarUrl: true } },
+  resolvedBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.ShiftSwapRequestInclude;
+
+/**
+ * Shift swaps between family caregivers. The assigned caregiver offers a
+ * shift, another caregiver claims it (optionally trading one of their own),
+ * and the assigned caregiver or an admin approves the reassignment. Each step
+ * is written to the audit log.
+ */
+@Injectable()
+export class ShiftSwapsService {
+  constructor(
+    private prisma: PrismaService,
+    private shiftsService: CaregiverShiftsService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  async offer(careRecipientId: string, userId: string, dto: CreateShiftSwapDto) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot offer shifts');
+    }
+
+    const shift = await this.prisma.caregiverShift.findFirst({
+      where: { id: dto.shiftId, careRecipientId },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    if (shift.caregiverId !== userId && membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only the assigned caregiver or an admin can offer this shift');
+    }
+
+    if (!this.isUpcoming(shift)) {
+      throw new BadRequestException('Only upcoming shifts can be offered');
+    }
+
+    const existing = await this.prisma.shiftSwapRequest.findFirst({
+      where: { shiftId: shift.id, status: { in: ACTIVE_SWAP_STATUSES } },
+    });
+
+    if (existing) {
+      throw new ConflictException('This shift is already up for swap');
+    }
+
+    const swap = await this.prisma.shiftSwapRequest.create({
+      data: {
+        shiftId: shift.id,
+        requestedById: userId,
+        reason: dto.reason,
+      },
+      include: SWAP_INCLUDE,
+    });
+
+    await this.logAudit(userId, 'SHIFT_SWAP_OFFERED', shift.id, { swapId: swap.id });
+
+    const caregivers = await this.memberIds(careRecipient.familyId, ['ADMIN', 'CAREGIVER']);
+    await this.notifications.notifyShiftSwap(
+      swap,
+      'offered',
+      caregivers.filter((id) => id !== shift.caregiverId && id !== userId),
+      swap.shift.caregiver.fullName,
+    );
+
+    return swap;
+  }
+
+  /**
+   * Open and claimed swaps for upcoming shifts, or every swap with the given status
+   */
+  async getSwaps(careRecipientId: string, userId: string, status?: ShiftSwapStatus) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    return this.prisma.shiftSwapRequest.findMany({
+      where: status
+        ? { status, shift: { careRecipientId } }
+        : { status: { in: ACTIVE_SWAP_STATUSES }, shift: { careRecipientId, startTime: { gt: new Date() } } },
+      include: SWAP_INCLUDE,
+      orderBy: { shift: { startTime: 'asc' } },
+    });
+  }
+
+  async claim(careRecipientId: string, swapId: string, userId: string, dto: ClaimShiftSwapDto) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot claim shifts');
+    }
+
+    const swap = await this.getSwap(careRecipientId, swapId);
+
+    if (swap.status !== 'OPEN') {
+      throw new ConflictException('This shift is no longer open for claiming');
+    }
+
+    if (swap.shift.caregiverId === userId) {
+      throw new BadRequestException('You cannot claim your own shift');
+    }
+
+    if (!this.isUpcoming(swap.shift)) {
+      throw new BadRequestException('This shift has already started');
+    }
+
+    const tradeShift = dto.tradeShiftId ? await this.getTradeShift(careRecipientId, dto.tradeShiftId, userId) : null;
+    await this.assertAvailable(swap.shift, tradeShift, userId);
+
+    const claimed = await this.transition(
+      this.prisma,
+      swapId,
+      { status: 'OPEN' },
+      {
+        status: 'CLAIMED',
+        claimedById: userId,
+        tradeShiftId: tradeShift?.id ?? null,
+        claimNote: dto.note,
+        claimedAt: new Date(),
+      },
+      'This shift is no longer open for claiming',
+    );
+
+    await this.logAudit(userId, 'SHIFT_SWAP_CLAIMED', swap.shiftId, {
+      swapId,
+      tradeShiftId: tradeShift?.id ?? null,
+    });
+
+    const admins = await this.memberIds(careRecipient.familyId, ['ADMIN']);
+    await this.notifications.notifyShiftSwap(
+      claimed,
+      'claimed',
+      [...new Set([swap.shift.caregiverId, ...admins])].filter((id) => id !== userId),
+      claimed.claimedBy?.fullName || 'A caregiver',
+    );
+
+    return claimed;
+  }
+
+  /**
+   * Reassigns the shift to the claimer, and a traded shift to the original
+   * assignee. Availability is checked again, as schedules may have changed
+   * since the claim.
+   */
+  async approve(careRecipientId: string, swapId: string, userId: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+    const swap = await this.getSwap(careRecipientId, swapId);
+
+    if (swap.status !== 'CLAIMED' || !swap.claimedById) {
+      throw new BadRequestException('Only claimed swaps can be approved');
+    }
+
+    this.assertCanResolve(swap.shift, userId, membership.role);
+
+    if (!this.isUpcoming(swap.shift)) {
+      throw new BadRequestException('This shift has already started');
+    }
+
+    const claimerId = swap.claimedById;
+    const originalId = swap.shift.caregiverId;
+    const tradeShift = swap.tradeShiftId
+      ? await this.getTradeShift(careRecipientId, swap.tradeShiftId, claimerId)
+      : null;
+    await this.assertAvailable(swap.shift, tradeShift, claimerId);
+
+    const now = new Date();
+    const shiftIds = [swap.shiftId, ...(tradeShift ? [tradeShift.id] : [])];
+
+    const approved = await this.prisma.$transaction(async (tx) => {
+      // Claimed first, so a concurrent approve or decline rolls this one back
+      const resolved = await this.transition(
+        tx,
+        swapId,
+        { status: 'CLAIMED', claimedById: claimerId },
+        { status: 'APPROVED', resolvedById: userId, resolvedAt: now },
+        'This swap has already been resolved',
+      );
+
+      await tx.caregiverShift.update({
+        where: { id: swap.shiftId },
+        data: {
+          caregiverId: claimerId,
+          status: 'SCHEDULED',
+          ...(swap.shift.seriesId && { isSeriesException: true }),
+        },
+      });
+
+      if (tradeShift) {
+        await tx.caregiverShift.update({
+          where: { id: tradeShift.id },
+          data: {
+            caregiverId: originalId,
+            status: 'SCHEDULED',
+            ...(tradeShift.seriesId && { isSeriesException: true }),
+          },
+        });
+      }
+
+      // Other offers on these shifts were made by their previous caregivers
+      await tx.shiftSwapRequest.updateMany({
+        where: {
+          id: { not: swapId },
+          status: { in: ACTIVE_SWAP_STATUSES },
+          OR: [{ shiftId: { in: shiftIds } }, { tradeShiftId: { in: shiftIds } }],
+        },
+        data: { status: 'CANCELLED', resolvedAt: now },
+      });
+
+      await tx.auditLog.createMany({
+        data: [
+          {
+            userId,
+            action: 'SHIFT_REASSIGNED',
+            resource: 'caregiver_shift',
+            resourceId: swap.shiftId,
+            metadata: { swapId, fromCaregiverId: originalId, toCaregiverId: claimerId },
+          },
+          ...(tradeShift
+            ? [
+                {
+                  userId,
+                  action: 'SHIFT_REASSIGNED',
+                  resource: 'caregiver_shift',
+                  resourceId: tradeShift.id,
+                  metadata: { swapId, fromCaregiverId: claimerId, toCaregiverId: originalId },
+                },
+              ]
+            : []),
+        ],
+      });
+
+      return resolved;
+    });
+
+    const approver = await this.prisma.user.findUnique({ where: { id: userId }, select: { fullName: true } });
+    await this.notifications.notifyShiftSwap(
+      approved,
+      'approved',
+      [claimerId, originalId].filter((id) => id !== userId),
+      approver?.fullName || 'An admin',
+    );
+
+    for (const shiftId of shiftIds) {
+      await this.shiftsService.invalidateShiftCache(careRecipientId, shiftId);
+    }
+
+    return approved;
+  }
+
+  /**
+   * Turns down a claim; the shift goes back on offer for other caregivers
+   */
+  async decline(careRecipientId: string, swapId: string, userId: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+    const swap = await this.getSwap(careRecipientId, swapId);
+
+    if (swap.status !== 'CLAIMED' || !swap.claimedById) {
+      throw new BadRequestException('Only claimed swaps can be declined');
+    }
+
+    this.assertCanResolve(swap.shift, userId, membership.role);
+
+    const reopened = await this.transition(
+      this.prisma,
+      swapId,
+      { status: 'CLAIMED', claimedById: swap.claimedById },
+      {
+        status: 'OPEN',
+        claimedById: null,
+        tradeShiftId: null,
+        claimNote: null,
+        claimedAt: null,
+      },
+      'This swap has already been resolved',
+    );
+
+    await this.logAudit(userId, 'SHIFT_SWAP_DECLINED', swap.shiftId, {
+      swapId,
+      claimedById: swap.claimedById,
+      tradeShiftId: swap.tradeShiftId,
+    });
+
+    const decliner = await this.prisma.user.findUnique({ where: { id: userId }, select: { fullName: true } });
+    await this.notifications.notifyShiftSwap(swap, 'declined', [swap.claimedById], decliner?.fullName || 'An admin');
+
+    return reopened;
+  }
+
+  async cancel(careRecipientId: string, swapId: string, userId: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+    const swap = await this.getSwap(careRecipientId, swapId);
+
+    if (!ACTIVE_SWAP_STATUSES.includes(swap.status)) {
+      throw new BadRequestException('This swap has already been resolved');
+    }
+
+    if (swap.requestedById !== userId) {
+      this.assertCanResolve(swap.shift, userId, membership.role);
+    }
+
+    const cancelled = await this.transition(
+      this.prisma,
+      swapId,
+      { status: { in: ACTIVE_SWAP_STATUSES } },
+      { status: 'CANCELLED', resolvedById: userId, resolvedAt: new Date() },
+      'This swap has already been resolved',
+    );
+
+    await this.logAudit(userId, 'SHIFT_SWAP_CANCELLED', swap.shiftId, { swapId });
+
+    if (swap.claimedById && swap.claimedById !== userId) {
+      await this.notifications.notifyShiftSwap(swap, 'cancelled', [swap.claimedById], swap.shift.caregiver.fullName);
+    }
+
+    return cancelled;
+  }
+
+  /**
+   * Moves a swap on only if it is still in the state it was read in, so two
+   * people acting on the same swap at once can't both succeed
+   */
+  private async transition(
+    client: Prisma.TransactionClient,
+    swapId: string,
+    expected: Prisma.ShiftSwapRequestWhereInput,
+    data: Prisma.ShiftSwapRequestUncheckedUpdateManyInput,
+    conflictMessage: string,
+  ) {
+    const { count } = await client.shiftSwapRequest.updateMany({
+      where: { id: swapId, ...expected },
+      data,
+    });
+
+    if (count === 0) {
+      throw new ConflictException(conflictMessage);
+    }
+
+    return client.shiftSwapRequest.findUniqueOrThrow({
+      where: { id: swapId },
+      include: SWAP_INCLUDE,
+    });
+  }
+
+  private async getSwap(careRecipientId: string, swapId: string) {
+    const swap = await this.prisma.shiftSwapRequest.findFirst({
+      where: { id: swapId, shift: { careRecipientId } },
+      include: SWAP_INCLUDE,
+    });
+
+    if (!swap) {
+      throw new NotFoundException('Shift swap not found');
+    }
+
+    return swap;
+  }
+
+  private async getTradeShift(careRecipientId: string, tradeShiftId: string, claimerId: string) {
+    const tradeShift = await this.prisma.caregiverShift.findFirst({
+      where: { id: tradeShiftId, careRecipientId },
+    });
+
+    if (!tradeShift) {
+      throw new NotFoundException('Trade shift not found');
+    }
+
+    if (tradeShift.caregiverId !== claimerId) {
+      throw new BadRequestException('The trade shift must be one of the claimer\'s own shifts');
+    }
+
+    if (!this.isUpcoming(tradeShift)) {
+      throw new BadRequestException('The trade shift must be an upcoming shift');
+    }
+
+    return tradeShift;
+  }
+
+  /**
+   * Runs the shift overlap check for both sides of the swap
+   */
+  private async assertAvailable(shift: CaregiverShift, tradeShift: CaregiverShift | null, claimerId: string) {
+    const claimerConflicts = await this.shiftsService.findConflicts(
+      shift.careRecipientId,
+      claimerId,
+      [{ start: shift.startTime, end: shift.endTime }],
+      tradeShift ? [tradeShift.id] : [],
+    );
+
+    if (claimerConflicts.length > 0) {
+      throw new ConflictException('The claiming caregiver already has a shift that overlaps this one');
+    }
+
+    if (tradeShift) {
+      const requesterConflicts = await this.shiftsService.findConflicts(
+        shift.careRecipientId,
+        shift.caregiverId,
+        [{ start: tradeShift.startTime, end: tradeShift.endTime }],
+        [shift.id],
+      );
+
+      if (requesterConflicts.length > 0) {
+        throw new ConflictException('The assigned caregiver already has a shift that overlaps the trade shift');
+      }
+    }
+  }
+
+  private assertCanResolve(shift: CaregiverShift, userId: string, role: FamilyRole) {
+    if (shift.caregiverId !== userId && role !== 'ADMIN') {
+      throw new ForbiddenException('Only the assigned caregiver or an admin can do this');
+    }
+  }
+
+  private isUpcoming(shift: CaregiverShift): boolean {
+    return EDITABLE_SHIFT_STATUSES.includes(shift.status) && shift.startTime > new Date();
+  }
+
+  private async memberIds(familyId: string, roles: FamilyRole[]): Promise<string[]> {
+    const members = await this.prisma.familyMember.findMany({
+      where: { familyId, isActive: true, role: { in: roles } },
+      select: { userId: true },
+    });
+
+    return members.map((m) => m.userId);
+  }
+
+  private async logAudit(userId: string, action: string, shiftId: string, metadata: Record<string, any>) {
+    await this.prisma.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource: 'caregiver_shift',
+        resourceId: shiftId,
+        metadata,
+      },
+    });
+  }
+}
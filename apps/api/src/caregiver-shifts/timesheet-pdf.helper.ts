@@ -0,0 +1,185 @@
+import PDFDocument from 'pdfkit';
+import { format, parse } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Timesheet, TimesheetCaregiver, TimesheetHelper } from './timesheet.helper';
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 16;
+const COLUMNS = [
+  { label: 'Date', width: 70 },
+  { label: 'Scheduled', width: 70 },
+  { label: 'Check In', width: 60 },
+  { label: 'Check Out', width: 70 },
+  { label: 'Hours', width: 45, align: 'right' as const },
+  { label: 'OT', width: 40, align: 'right' as const },
+  { label: 'Notes', width: 177 },
+];
+
+/**
+ * Renders a timesheet as a portrait PDF: one table per caregiver with their
+ * totals and a signature line, then the period totals.
+ */
+export class TimesheetPdfHelper {
+  static render(sheet: Timesheet): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'LETTER', margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const bottom = doc.page.height - PAGE_MARGIN - 20;
+    const time = (date: Date, pattern: string) => formatInTimeZone(date, sheet.timezone, pattern);
+    let y = this.drawPageHeader(doc, sheet);
+
+    if (sheet.caregivers.length === 0) {
+      doc.font('Helvetica-Oblique').fontSize(9).fillColor('#6B7280');
+      doc.text('No shifts were checked in during this period.', PAGE_MARGIN, y + 8);
+    }
+
+    for (const caregiver of sheet.caregivers) {
+      // Keep the caregiver heading, table header and at least one row together
+      if (y + ROW_HEIGHT * 4 > bottom) {
+        this.drawFooter(doc, sheet);
+        doc.addPage();
+        y = this.drawPageHeader(doc, sheet);
+      }
+
+      y = this.drawCaregiverHeader(doc, caregiver, y);
+
+      for (const entry of caregiver.entries) {
+        if (y + ROW_HEIGHT > bottom) {
+          this.drawFooter(doc, sheet);
+          doc.addPage();
+          y = this.drawCaregiverHeader(doc, caregiver, this.drawPageHeader(doc, sheet));
+        }
+
+        const cells = [
+          time(entry.checkedInAt, 'EEE MMM d'),
+          `${time(entry.scheduledStart, 'h:mma')}-${time(entry.scheduledEnd, 'h:mma')}`.toLowerCase(),
+          time(entry.checkedInAt, 'h:mm a'),
+          entry.checkedOutAt ? time(entry.checkedOutAt, 'MMM d h:mm a') : '—',
+          entry.hours.toFixed(2),
+          entry.overtimeHours > 0 ? entry.overtimeHours.toFixed(2) : '',
+          TimesheetHelper.flagText(entry.flags),
+        ];
+
+        this.drawRow(doc, cells, y, entry.overtimeHours > 0 ? '#B45309' : '#111827');
+        y += ROW_HEIGHT;
+      }
+
+      if (y + ROW_HEIGHT * 3 > bottom) {
+        this.drawFooter(doc, sheet);
+        doc.addPage();
+        y = this.drawPageHeader(doc, sheet);
+      }
+
+      doc.font('Helvetica-Bold').fontSize(8).fillColor('#111827');
+      doc.text(
+        `${caregiver.shiftCount} shifts   Regular ${caregiver.regularHours.toFixed(2)} h   ` +
+          `Overtime ${caregiver.overtimeHours.toFixed(2)} h   Total ${caregiver.totalHours.toFixed(2)} h`,
+        PAGE_MARGIN,
+        y + 5,
+      );
+      y += ROW_HEIGHT + 10;
+
+      doc.lineWidth(0.5).strokeColor('#9CA3AF');
+      doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + 200, y).stroke();
+      doc.moveTo(PAGE_MARGIN + 260, y).lineTo(PAGE_MARGIN + 400, y).stroke();
+      doc.font('Helvetica').fontSize(6.5).fillColor('#6B7280');
+      doc.text('Caregiver signature', PAGE_MARGIN, y + 2);
+      doc.text('Date', PAGE_MARGIN + 260, y + 2);
+      y += 24;
+    }
+
+    if (sheet.caregivers.length > 1) {
+      if (y + ROW_HEIGHT > bottom) {
+        this.drawFooter(doc, sheet);
+        doc.addPage();
+        y = this.drawPageHeader(doc, sheet);
+      }
+
+      doc.font('Helvetica-Bold').fontSize(9).fillColor('#111827');
+      doc.text(
+        `Period total   Regular ${sheet.totals.regularHours.toFixed(2)} h   ` +
+          `Overtime ${sheet.totals.overtimeHours.toFixed(2)} h   Total ${sheet.totals.totalHours.toFixed(2)} h`,
+        PAGE_MARGIN,
+        y,
+      );
+    }
+
+    this.drawFooter(doc, sheet);
+    doc.end();
+
+    return done;
+  }
+
+  private static drawPageHeader(doc: PDFKit.PDFDocument, sheet: Timesheet): number {
+    const x = PAGE_MARGIN;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const period = [sheet.from, sheet.to]
+      .map((date) => format(parse(date, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy'))
+      .join(' – ');
+
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827');
+    doc.text('Caregiver Timesheet', x, PAGE_MARGIN);
+    doc.font('Helvetica').fontSize(10).text(period, x, PAGE_MARGIN + 2, { width, align: 'right' });
+
+    doc.font('Helvetica').fontSize(8).fillColor('#374151');
+    doc.text(
+      `Care recipient: ${sheet.careRecipient.name}     Overtime after ${sheet.overtimeThresholdHours} h per week`,
+      x,
+      PAGE_MARGIN + 20,
+      { width },
+    );
+
+    return PAGE_MARGIN + 40;
+  }
+
+  private static drawCaregiverHeader(doc: PDFKit.PDFDocument, caregiver: TimesheetCaregiver, y: number): number {
+    doc.font('Helvetica-Bold').fontSize(10).fillColor('#111827');
+    doc.text(caregiver.fullName, PAGE_MARGIN, y);
+    y += 14;
+
+    doc.rect(PAGE_MARGIN, y, doc.page.width - PAGE_MARGIN * 2, ROW_HEIGHT).fill('#F3F4F6');
+    doc.font('Helvetica-Bold').fontSize(7);
+    this.drawRow(doc, COLUMNS.map((column) => column.label), y, '#111827', false);
+
+    return y + ROW_HEIGHT;
+  }
+
+  private static drawRow(doc: PDFKit.PDFDocument, cells: string[], y: number, color: string, border = true): void {
+    let x = PAGE_MARGIN;
+
+    if (border) {
+      doc.lineWidth(0.5).strokeColor('#E5E7EB');
+      doc.moveTo(PAGE_MARGIN, y + ROW_HEIGHT).lineTo(doc.page.width - PAGE_MARGIN, y + ROW_HEIGHT).stroke();
+      doc.font('Helvetica').fontSize(7);
+    }
+
+    doc.fillColor(color);
+    cells.forEach((cell, index) => {
+      const column = COLUMNS[index];
+      doc.text(cell, x + 3, y + 5, {
+        width: column.width - 6,
+        height: 8,
+        align: column.align || 'left',
+        ellipsis: true,
+        lineBreak: false,
+      });
+      x += column.width;
+    });
+  }
+
+  private static drawFooter(doc: PDFKit.PDFDocument, sheet: Timesheet): void {
+    doc.font('Helvetica').fontSize(7).fillColor('#9CA3AF');
+    doc.text(
+      `Generated ${formatInTimeZone(sheet.generatedAt, sheet.timezone, 'MM/dd/yyyy h:mm a')}`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN - 10,
+      { width: doc.page.width - PAGE_MARGIN * 2, align: 'right' },
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { fromZonedTime } from 'date-fns-tz';
+import { TimesheetHelper, TimesheetShift } from './timesheet.helper';
+
+const TIMEZONE = 'America/Chicago';
+
+const careRecipient = { fullName: 'Margaret Smith', preferredName: null };
+
+/** A local time in the sheet's timezone, e.g. "2024-03-04T08:00" */
+function at(local: string): Date {
+  return fromZonedTime(local, TIMEZONE);
+}
+
+let shiftCount = 0;
+
+function shift(checkedIn: string, checkedOut: string | null, overrides: Partial<TimesheetShift> = {}): TimesheetShift {
+  const checkedInAt = at(checkedIn);
+  return {
+    id: `shift-${++shiftCount}`,
+    caregiverId: 'user-1',
+    startTime: checkedInAt,
+    endTime: checkedOut ? at(checkedOut) : checkedInAt,
+    checkedInAt,
+    checkedOutAt: checkedOut ? at(checkedOut) : null,
+    status: checkedOut ? 'COMPLETED' : 'IN_PROGRESS',
+    caregiver: { id: 'user-1', fullName: 'Ana Lopez' },
+    timeCorrections: [],
+    ...overrides,
+  };
+}
+
+describe('TimesheetHelper.build', () => {
+  // Wednesday 6 March to Tuesday 12 March 2024; the workweek starts Sunday 3 March
+  const periodStart = at('2024-03-06T00:00:00');
+  const periodEnd = at('2024-03-12T23:59:59.999');
+
+  it('counts hours past the threshold as overtime on the shift that crosses it', () => {
+    const shifts = [
+      shift('2024-03-06T08:00', '2024-03-06T20:00'),
+      shift('2024-03-07T08:00', '2024-03-07T20:00'),
+      shift('2024-03-08T08:00', '2024-03-08T20:00'),
+      shift('2024-03-09T08:00', '2024-03-09T16:00'),
+    ];
+
+    const sheet = TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, TIMEZONE, 40);
+    const [caregiver] = sheet.caregivers;
+
+    expect(caregiver).toMatchObject({ regularHours: 40, overtimeHours: 4, totalHours: 44, shiftCount: 4 });
+    expect(caregiver.entries.map((entry) => entry.overtimeHours)).toEqual([0, 0, 0, 4]);
+    expect(caregiver.entries[3].flags).toEqual(['OVERTIME']);
+  });
+
+  it('counts shifts earlier in the week without listing them', () => {
+    const shifts = [
+      shift('2024-03-04T08:00', '2024-03-04T20:00'),
+      shift('2024-03-05T08:00', '2024-03-05T20:00'),
+      shift('2024-03-06T08:00', '2024-03-06T20:00'),
+      shift('2024-03-07T08:00', '2024-03-07T16:00'),
+    ];
+
+    const sheet = TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, TIMEZONE, 40);
+    const [caregiver] = sheet.caregivers;
+
+    expect(caregiver.entries.map((entry) => entry.date)).toEqual(['2024-03-06', '2024-03-07']);
+    expect(caregiver).toMatchObject({ regularHours: 16, overtimeHours: 4, totalHours: 20 });
+  });
+
+  it('starts a new week on Sunday in the sheet timezone', () => {
+    const shifts = [
+      shift('2024-03-06T08:00', '2024-03-06T20:00'),
+      shift('2024-03-07T08:00', '2024-03-07T20:00'),
+      shift('2024-03-08T08:00', '2024-03-08T20:00'),
+      // Saturday evening locally, already Sunday in UTC
+      shift('2024-03-09T19:00', '2024-03-09T23:30'),
+      shift('2024-03-10T08:00', '2024-03-10T20:00'),
+    ];
+
+    const sheet = TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, TIMEZONE, 40);
+    const entries = sheet.caregivers[0].entries;
+
+    expect(entries.map((entry) => entry.date)).toEqual([
+      '2024-03-06',
+      '2024-03-07',
+      '2024-03-08',
+      '2024-03-09',
+      '2024-03-10',
+    ]);
+    expect(entries.map((entry) => entry.overtimeHours)).toEqual([0, 0, 0, 0.5, 0]);
+  });
+
+  it('flags open and corrected shifts and leaves open ones at zero hours', () => {
+    const shifts = [
+      shift('2024-03-06T08:00', '2024-03-06T12:00', { timeCorrections: [{ status: 'APPROVED' }] }),
+      shift('2024-03-07T08:00', null, { timeCorrections: [{ status: 'PENDING' }] }),
+    ];
+
+    const sheet = TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, TIMEZONE);
+    const [caregiver] = sheet.caregivers;
+
+    expect(caregiver.openShifts).toBe(1);
+    expect(caregiver.entries.map((entry) => [entry.hours, entry.flags])).toEqual([
+      [4, ['CORRECTED']],
+      [0, ['OPEN', 'PENDING_CORRECTION']],
+    ]);
+  });
+
+  it('reports the period and CSV times in the sheet timezone', () => {
+    const shifts = [shift('2024-03-06T21:30', '2024-03-07T01:15')];
+
+    const sheet = TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, TIMEZONE);
+    const csv = TimesheetHelper.toCsv(sheet).split('\n');
+
+    expect(sheet).toMatchObject({ from: '2024-03-06', to: '2024-03-12', timezone: TIMEZONE });
+    expect(csv[1]).toBe('Ana Lopez,2024-03-06,21:30-01:15,2024-03-06 21:30,2024-03-07 01:15,3.75,0.00,');
+  });
+});
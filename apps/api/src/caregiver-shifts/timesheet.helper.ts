@@ -0,0 +1,222 @@
+import { CareRecipient, CaregiverShift, TimeCorrectionStatus } from '@prisma/client';
+import { differenceInMinutes, format, startOfWeek } from 'date-fns';
+import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+
+export type TimesheetShift = Pick<
+  CaregiverShift,
+  'id' | 'caregiverId' | 'startTime' | 'endTime' | 'checkedInAt' | 'checkedOutAt' | 'status'
+> & {
+  caregiver: { id: string; fullName: string };
+  timeCorrections: { status: TimeCorrectionStatus }[];
+};
+
+export type TimesheetFlag = 'OPEN' | 'CORRECTED' | 'PENDING_CORRECTION' | 'OVERTIME';
+
+export interface TimesheetEntry {
+  shiftId: string;
+  date: string; // yyyy-MM-dd of check-in, in the sheet's timezone
+  scheduledStart: Date;
+  scheduledEnd: Date;
+  checkedInAt: Date;
+  checkedOutAt: Date | null;
+  scheduledHours: number;
+  hours: number; // 0 while the caregiver is still checked in
+  overtimeHours: number;
+  flags: TimesheetFlag[];
+}
+
+export interface TimesheetCaregiver {
+  caregiverId: string;
+  fullName: string;
+  shiftCount: number;
+  regularHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  openShifts: number;
+  entries: TimesheetEntry[];
+}
+
+export interface Timesheet {
+  from: string; // yyyy-MM-dd
+  to: string; // yyyy-MM-dd, inclusive
+  timezone: string; // IANA zone the dates, weeks and times are in
+  overtimeThresholdHours: number;
+  careRecipient: { name: string };
+  caregivers: TimesheetCaregiver[];
+  totals: { regularHours: number; overtimeHours: number; totalHours: number };
+  generatedAt: Date;
+}
+
+export const DEFAULT_OVERTIME_HOURS = 40;
+
+/**
+ * Builds pay-period timesheets from shift check-in and check-out times.
+ *
+ * Overtime is counted per caregiver per workweek (Sunday to Saturday in the
+ * given timezone): hours past the threshold are overtime, attributed to the
+ * shifts that crossed it.
+ * Shifts checked in before the period but in the same week are passed in so
+ * a period starting mid-week still counts the whole week; they are not listed.
+ */
+export class TimesheetHelper {
+  static build(
+    careRecipient: Pick<CareRecipient, 'fullName' | 'preferredName'>,
+    shifts: TimesheetShift[],
+    periodStart: Date,
+    periodEnd: Date,
+    timezone: string,
+    overtimeHours: number = DEFAULT_OVERTIME_HOURS,
+    now: Date = new Date(),
+  ): Timesheet {
+    const thresholdMinutes = overtimeHours * 60;
+    const byCaregiver = new Map<string, TimesheetShift[]>();
+
+    for (const shift of shifts) {
+      if (!shift.checkedInAt) {
+        continue;
+      }
+      byCaregiver.set(shift.caregiverId, [...(byCaregiver.get(shift.caregiverId) || []), shift]);
+    }
+
+    const caregivers: TimesheetCaregiver[] = [];
+
+    for (const caregiverShifts of byCaregiver.values()) {
+      caregiverShifts.sort((a, b) => a.checkedInAt!.getTime() - b.checkedInAt!.getTime());
+
+      const weekMinutes = new Map<string, number>();
+      const entries: TimesheetEntry[] = [];
+      let regularMinutes = 0;
+      let overtimeMinutes = 0;
+
+      for (const shift of caregiverShifts) {
+        const checkedInAt = shift.checkedInAt!;
+        const minutes = shift.checkedOutAt ? Math.max(differenceInMinutes(shift.checkedOutAt, checkedInAt), 0) : 0;
+
+        const week = format(startOfWeek(toZonedTime(checkedInAt, timezone)), 'yyyy-MM-dd');
+        const before = weekMinutes.get(week) || 0;
+        weekMinutes.set(week, before + minutes);
+
+        if (checkedInAt < periodStart || checkedInAt > periodEnd) {
+          continue;
+        }
+
+        const overtime = Math.min(Math.max(before + minutes - thresholdMinutes, 0), minutes);
+        regularMinutes += minutes - overtime;
+        overtimeMinutes += overtime;
+
+        const flags: TimesheetFlag[] = [];
+        if (!shift.checkedOutAt) flags.push('OPEN');
+        if (shift.timeCorrections.some((c) => c.status === 'APPROVED')) flags.push('CORRECTED');
+        if (shift.timeCorrections.some((c) => c.status === 'PENDING')) flags.push('PENDING_CORRECTION');
+        if (overtime > 0) flags.push('OVERTIME');
+
+        entries.push({
+          shiftId: shift.id,
+          date: formatInTimeZone(checkedInAt, timezone, 'yyyy-MM-dd'),
+          scheduledStart: shift.startTime,
+          scheduledEnd: shift.endTime,
+          checkedInAt,
+          checkedOutAt: shift.checkedOutAt,
+          scheduledHours: this.toHours(differenceInMinutes(shift.endTime, shift.startTime)),
+          hours: this.toHours(minutes),
+          overtimeHours: this.toHours(overtime),
+          flags,
+        });
+      }
+
+      if (entries.length === 0) {
+        continue;
+      }
+
+      caregivers.push({
+        caregiverId: caregiverShifts[0].caregiver.id,
+        fullName: caregiverShifts[0].caregiver.fullName,
+        shiftCount: entries.length,
+        regularHours: this.toHours(regularMinutes),
+        overtimeHours: this.toHours(overtimeMinutes),
+        totalHours: this.toHours(regularMinutes + overtimeMinutes),
+        openShifts: entries.filter((entry) => entry.flags.includes('OPEN')).length,
+        entries,
+      });
+    }
+
+    caregivers.sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+    const sum = (key: 'regularHours' | 'overtimeHours' | 'totalHours') =>
+      this.toHours(caregivers.reduce((total, caregiver) => total + caregiver[key] * 60, 0));
+
+    return {
+      from: formatInTimeZone(periodStart, timezone, 'yyyy-MM-dd'),
+      to: formatInTimeZone(periodEnd, timezone, 'yyyy-MM-dd'),
+      timezone,
+      overtimeThresholdHours: overtimeHours,
+      careRecipient: { name: careRecipient.preferredName || careRecipient.fullName },
+      caregivers,
+      totals: { regularHours: sum('regularHours'), overtimeHours: sum('overtimeHours'), totalHours: sum('totalHours') },
+      generatedAt: now,
+    };
+  }
+
+  static toCsv(sheet: Timesheet): string {
+    const header = ['Caregiver', 'Date', 'Scheduled', 'Check In', 'Check Out', 'Hours', 'Overtime', 'Notes'];
+    const rows: string[][] = [];
+    const time = (date: Date, pattern: string) => formatInTimeZone(date, sheet.timezone, pattern);
+
+    for (const caregiver of sheet.caregivers) {
+      for (const entry of caregiver.entries) {
+        rows.push([
+          caregiver.fullName,
+          entry.date,
+          `${time(entry.scheduledStart, 'HH:mm')}-${time(entry.scheduledEnd, 'HH:mm')}`,
+          time(entry.checkedInAt, 'yyyy-MM-dd HH:mm'),
+          entry.checkedOutAt ? time(entry.checkedOutAt, 'yyyy-MM-dd HH:mm') : '',
+          entry.hours.toFixed(2),
+          entry.overtimeHours.toFixed(2),
+          this.flagText(entry.flags),
+        ]);
+      }
+    }
+
+    const totals = [
+      [],
+      ['Caregiver', 'Shifts', 'Regular Hours', 'Overtime Hours', 'Total Hours'],
+      ...sheet.caregivers.map((caregiver) => [
+        caregiver.fullName,
+        String(caregiver.shiftCount),
+        caregiver.regularHours.toFixed(2),
+        caregiver.overtimeHours.toFixed(2),
+        caregiver.totalHours.toFixed(2),
+      ]),
+      [
+        'Total',
+        '',
+        sheet.totals.regularHours.toFixed(2),
+        sheet.totals.overtimeHours.toFixed(2),
+        sheet.totals.totalHours.toFixed(2),
+      ],
+    ];
+
+    return [header, ...rows, ...totals]
+      .map((cells) => cells.map((value) => this.escapeCsv(value)).join(','))
+      .join('\n');
+  }
+
+  static flagText(flags: TimesheetFlag[]): string {
+    const labels: Record<TimesheetFlag, string> = {
+      OPEN: 'still checked in',
+      CORRECTED: 'times corrected',
+      PENDING_CORRECTION: 'correction pending',
+      OVERTIME: 'overtime',
+    };
+    return flags.map((flag) => labels[flag]).join('; ');
+  }
+
+  private static toHours(minutes: number): number {
+    return Math.round((minutes / 60) * 100) / 100;
+  }
+
+  private static escapeCsv(value: string | undefined): string {
+    const text = value ?? '';
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
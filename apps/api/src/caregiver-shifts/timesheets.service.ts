@@ -0,0 +1,442 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { FamilyRole, Prisma, ShiftStatus, TimeCorrectionStatus } from '@prisma/client';
+import { differenceInCalendarDays, format, isValid, parse, startOfWeek } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateHelper } from '../system/helper/date.helper';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CaregiverShiftsService } from './caregiver-shifts.service';
+import { CreateTimeCorrectionDto, ReviewTimeCorrectionDto } from './dto/time-correction.dto';
+import { DEFAULT_OVERTIME_HOURS, Timesheet, TimesheetHelper } from './timesheet.helper';
+
+const CORRECTABLE_SHIFT_STATUSES: ShiftStatus[] = ['IN_PROGRESS', 'COMPLETED'];
+
+const MAX_PERIOD_DAYS = 62;
+
+const CORRECTION_INCLUDE = {
+  shift: {
+    select: {
+      id: true,
+      careRecipientId: true,
+      caregiverId: true,
+      startTime: true,
+      endTime: true,
+      status: true,
+      checkedInAt: true,
+      checkedOutAt: true,
+      caregiver: { select: { id: true, fullName: true } },
+      careRecipient: { select: { id: true, fullName: true, preferredName: true, familyId: true } },
+    },
+  },
+  requestedBy: { select: { id: true, fullName: true } },
+  reviewedBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.ShiftTimeCorrectionInclude;
+
+/**
+ * Caregiver timesheets built from shift check-in and check-out times, and
+ * corrections to those times. Caregivers ask for a correction with a reason;
+ * an admin approves it (rewriting the shift's times) or rejects it. Admins'
+ * own corrections apply straight away. Both steps are written to the audit log.
+ */
+@Injectable()
+export class TimesheetsService {
+  constructor(
+    private prisma: PrismaService,
+    private shiftsService: CaregiverShiftsService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  /**
+   * Timesheet for a pay period (inclusive dates). Admins see every
+   * caregiver; caregivers see only their own hours.
+   */
+  async getTimesheet(
+    careRecipientId: string,
+    userId: string,
+    options: { from: string; to: string; caregiverId?: string; overtimeHours?: number },
+  ): Promise<Timesheet> {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot see timesheets');
+    }
+
+    if (membership.role !== 'ADMIN' && options.caregiverId && options.caregiverId !== userId) {
+      throw new ForbiddenException("Only admins can see other caregivers' timesheets");
+    }
+
+    const from = this.parseDate(options.from, 'from');
+    const to = this.parseDate(options.to, 'to');
+
+    if (to < from) {
+      throw new BadRequestException('to must not be before from');
+    }
+
+    if (differenceInCalendarDays(to, from) >= MAX_PERIOD_DAYS) {
+      throw new BadRequestException(`Timesheets cover at most ${MAX_PERIOD_DAYS} days`);
+    }
+
+    const overtimeHours = options.overtimeHours ?? DEFAULT_OVERTIME_HOURS;
+    if (!Number.isFinite(overtimeHours) || overtimeHours <= 0 || overtimeHours > 168) {
+      throw new BadRequestException('overtimeHours must be between 1 and 168');
+    }
+
+    const caregiverId = membership.role === 'ADMIN' ? options.caregiverId : userId;
+
+    // Pay periods and workweeks follow the requesting user's calendar days
+    const timezone = await this.userTimezone(userId);
+    const dayStart = (date: Date) => fromZonedTime(`${format(date, 'yyyy-MM-dd')}T00:00:00`, timezone);
+    const periodStart = dayStart(from);
+    const periodEnd = fromZonedTime(`${options.to}T23:59:59.999`, timezone);
+
+    const shifts = await this.prisma.caregiverShift.findMany({
+      where: {
+        careRecipientId,
+        ...(caregiverId && { caregiverId }),
+        // From the start of the week so overtime counts the days before the period
+        checkedInAt: { gte: dayStart(startOfWeek(from)), lte: periodEnd },
+      },
+      select: {
+        id: true,
+        caregiverId: true,
+        startTime: true,
+        endTime: true,
+        checkedInAt: true,
+        checkedOutAt: true,
+        status: true,
+        caregiver: { select: { id: true, fullName: true } },
+        timeCorrections: {
+          where: { status: { in: ['PENDING', 'APPROVED'] } },
+          select: { status: true },
+        },
+      },
+      orderBy: { checkedInAt: 'asc' },
+    });
+
+    return TimesheetHelper.build(careRecipient, shifts, periodStart, periodEnd, timezone, overtimeHours);
+  }
+
+  async getCorrections(careRecipientId: string, userId: string, status?: TimeCorrectionStatus) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot see timesheet corrections');
+    }
+
+    return this.prisma.shiftTimeCorrection.findMany({
+      where: {
+        shift: {
+          careRecipientId,
+          ...(membership.role !== 'ADMIN' && { caregiverId: userId }),
+        },
+        ...(status && { status }),
+      },
+      include: CORRECTION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * Ask for a shift's check-in/out times to be corrected. Caregivers may
+   * correct their own shifts; an admin's correction is approved immediately.
+   */
+  async requestCorrection(careRecipientId: string, userId: string, dto: CreateTimeCorrectionDto) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot correct shift times');
+    }
+
+    const shift = await this.prisma.caregiverShift.findFirst({
+      where: { id: dto.shiftId, careRecipientId },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('Shift not found');
+    }
+
+    const isAdmin = membership.role === 'ADMIN';
+
+    if (shift.caregiverId !== userId && !isAdmin) {
+      throw new ForbiddenException('You can only correct the times of your own shifts');
+    }
+
+    if (!CORRECTABLE_SHIFT_STATUSES.includes(shift.status)) {
+      throw new BadRequestException('Only shifts that were checked in can have their times corrected');
+    }
+
+    const checkedInAt = new Date(dto.checkedInAt);
+    const checkedOutAt = dto.checkedOutAt ? new Date(dto.checkedOutAt) : null;
+
+    if (checkedOutAt && checkedOutAt <= checkedInAt) {
+      throw new BadRequestException('Check-out must be after check-in');
+    }
+
+    if (checkedInAt > new Date() || (checkedOutAt && checkedOutAt > new Date())) {
+      throw new BadRequestException('Corrected times cannot be in the future');
+    }
+
+    if (!checkedOutAt && shift.status === 'COMPLETED') {
+      throw new BadRequestException('A completed shift needs a check-out time');
+    }
+
+    const pending = await this.prisma.shiftTimeCorrection.findFirst({
+      where: { shiftId: shift.id, status: 'PENDING' },
+    });
+
+    if (pending) {
+      throw new ConflictException('This shift already has a correction awaiting approval');
+    }
+
+    let correction;
+    try {
+      correction = await this.prisma.shiftTimeCorrection.create({
+        data: {
+          shiftId: shift.id,
+          requestedById: userId,
+          originalCheckedInAt: shift.checkedInAt,
+          originalCheckedOutAt: shift.checkedOutAt,
+          checkedInAt,
+          checkedOutAt,
+          reason: dto.reason.trim(),
+        },
+        include: CORRECTION_INCLUDE,
+      });
+    } catch (error) {
+      // The pending-correction unique index catches a request that raced the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('This shift already has a correction awaiting approval');
+      }
+      throw error;
+    }
+
+    if (isAdmin) {
+      return this.apply(careRecipientId, correction.id, userId);
+    }
+
+    const admins = await this.memberIds(careRecipient.familyId, ['ADMIN']);
+    await this.notifications.notifyTimeCorrection(
+      correction,
+      'requested',
+      admins.filter((id) => id !== userId),
+      correction.requestedBy.fullName,
+    );
+
+    return correction;
+  }
+
+  async approve(careRecipientId: string, correctionId: string, userId: string, dto: ReviewTimeCorrectionDto) {
+    await this.assertAdmin(careRecipientId, userId, 'approve');
+    await this.getPending(careRecipientId, correctionId);
+
+    return this.apply(careRecipientId, correctionId, userId, dto.note);
+  }
+
+  async reject(careRecipientId: string, correctionId: string, userId: string, dto: ReviewTimeCorrectionDto) {
+    await this.assertAdmin(careRecipientId, userId, 'reject');
+    const correction = await this.getPending(careRecipientId, correctionId);
+
+    const rejected = await this.prisma.$transaction(async (tx) => {
+      const reviewed = await this.review(tx, correctionId, {
+        status: 'REJECTED',
+        reviewedById: userId,
+        reviewedAt: new Date(),
+        reviewNote: dto.note?.trim() || null,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'SHIFT_TIME_CORRECTION_REJECTED',
+          resource: 'caregiver_shift',
+          resourceId: correction.shiftId,
+          metadata: { correctionId, note: dto.note || null },
+        },
+      });
+
+      return reviewed;
+    });
+
+    await this.notifyRequester(rejected, 'rejected', userId);
+
+    return rejected;
+  }
+
+  /**
+   * Approve a pending correction and rewrite the shift's times. An
+   * in-progress shift given a check-out time is completed.
+   */
+  private async apply(careRecipientId: string, correctionId: string, userId: string, note?: string) {
+    const correction = await this.getPending(careRecipientId, correctionId);
+
+    const approved = await this.prisma.$transaction(async (tx) => {
+      // Claimed first, so a concurrent approve or reject rolls this one back
+      const reviewed = await this.review(tx, correctionId, {
+        status: 'APPROVED',
+        reviewedById: userId,
+        reviewedAt: new Date(),
+        reviewNote: note?.trim() || null,
+      });
+
+      await tx.caregiverShift.update({
+        where: { id: correction.shiftId },
+        data: {
+          checkedInAt: correction.checkedInAt,
+          ...(correction.checkedOutAt && { checkedOutAt: correction.checkedOutAt, status: 'COMPLETED' }),
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'SHIFT_TIME_CORRECTED',
+          resource: 'caregiver_shift',
+          resourceId: correction.shiftId,
+          metadata: {
+            correctionId,
+            requestedById: correction.requestedById,
+            reason: correction.reason,
+            from: {
+              checkedInAt: correction.originalCheckedInAt?.toISOString() ?? null,
+              checkedOutAt: correction.originalCheckedOutAt?.toISOString() ?? null,
+            },
+            to: {
+              checkedInAt: correction.checkedInAt.toISOString(),
+              checkedOutAt: correction.checkedOutAt?.toISOString() ?? null,
+            },
+          },
+        },
+      });
+
+      return reviewed;
+    });
+
+    await this.shiftsService.invalidateShiftCache(careRecipientId, correction.shiftId);
+    await this.notifyRequester(approved, 'approved', userId);
+
+    return approved;
+  }
+
+  /**
+   * Moves a correction out of PENDING only if it is still pending, so an
+   * approve and a reject running at once can't both succeed
+   */
+  private async review(
+    tx: Prisma.TransactionClient,
+    correctionId: string,
+    data: Prisma.ShiftTimeCorrectionUncheckedUpdateManyInput,
+  ) {
+    const { count } = await tx.shiftTimeCorrection.updateMany({
+      where: { id: correctionId, status: 'PENDING' },
+      data,
+    });
+
+    if (count === 0) {
+      throw new ConflictException('This correction has already been reviewed');
+    }
+
+    return tx.shiftTimeCorrection.findUniqueOrThrow({
+      where: { id: correctionId },
+      include: CORRECTION_INCLUDE,
+    });
+  }
+
+  private async notifyRequester(
+    correction: Prisma.ShiftTimeCorrectionGetPayload<{ include: typeof CORRECTION_INCLUDE }>,
+    reason: 'approved' | 'rejected',
+    userId: string,
+  ) {
+    if (correction.requestedById === userId) {
+      return;
+    }
+
+    await this.notifications.notifyTimeCorrection(
+      correction,
+      reason,
+      [correction.requestedById],
+      correction.reviewedBy?.fullName || 'An admin',
+    );
+  }
+
+  private async getPending(careRecipientId: string, correctionId: string) {
+    const correction = await this.prisma.shiftTimeCorrection.findFirst({
+      where: { id: correctionId, shift: { careRecipientId } },
+    });
+
+    if (!correction) {
+      throw new NotFoundException('Time correction not found');
+    }
+
+    if (correction.status !== 'PENDING') {
+      throw new BadRequestException('This correction has already been reviewed');
+    }
+
+    return correction;
+  }
+
+  private async assertAdmin(careRecipientId: string, userId: string, action: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role !== 'ADMIN') {
+      throw new ForbiddenException(`Only admins can ${action} time corrections`);
+    }
+  }
+
+  private parseDate(value: string, name: string): Date {
+    const date = parse(value, 'yyyy-MM-dd', new Date());
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !isValid(date)) {
+      throw new BadRequestException(`${name} must be in yyyy-MM-dd format`);
+    }
+
+    return date;
+  }
+
+  private async userTimezone(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    return user?.timezone || DateHelper.DEFAULT_TIMEZONE;
+  }
+
+  private async memberIds(familyId: string, roles: FamilyRole[]): Promise<string[]> {
+    const members = await this.prisma.familyMember.findMany({
+      where: { familyId, isActive: true, role: { in: roles } },
+      select: { userId: true },
+    });
+
+    return members.map((m) => m.userId);
+  }
+}
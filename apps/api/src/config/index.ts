@@ -423,6 +423,15 @@ export const aiConfig = registerAs("ai", () => ({
   embeddingModel: optionalString("GEMINI_EMBEDDING_MODEL", "gemini-embedding-001"),
 }));
 
+// =============================================================================
+// DRUG INTERACTIONS CONFIG
+// builtin: curated list shipped with the API
+// dataset: active imported dataset in Postgres (see DrugInteractionDataset)
+// =============================================================================
+export const interactionsConfig = registerAs("interactions", () => ({
+  provider: optionalString("DRUG_INTERACTION_PROVIDER", "builtin"),
+}));
+
 // =============================================================================
 // EXPORT ALL CONFIGS
 // =============================================================================
@@ -440,4 +449,5 @@ export default [
   analyticsConfig,
   websocketConfig,
   aiConfig,
+  interactionsConfig,
 ];
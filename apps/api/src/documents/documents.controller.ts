@@ -19,6 +19,7 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagg
 import { FamilyRole } from '@prisma/client';
 import { DocumentsService } from './documents.service';
 import { UpdateDocumentDto } from './dto/update-document.dto';
+import { UploadDocumentVersionDto } from './dto/upload-document-version.dto';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { StorageService } from '../system/module/storage/storage.service';
 import { FamilyAccessGuard } from '../system/guard/family-access.guard';
@@ -131,6 +132,69 @@ export class DocumentsController {
     return this.documentsService.getSignedUrl(id, familyId, user.id);
   }
 
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'Get every version of a document, newest first' })
+  getVersions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.documentsService.getVersions(id, user.id);
+  }
+
+  @Post(':id/versions')
+  @FamilyAccess({ param: 'familyId', roles: [FamilyRole.ADMIN, FamilyRole.CAREGIVER] })
+  @ApiOperation({ summary: 'Upload a new version that supersedes the current file (ADMIN/CAREGIVER only)' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  async addVersion(
+    @Param('familyId', ParseUUIDPipe) familyId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadDocumentVersionDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    // Check access before spending time on the upload
+    await this.documentsService.findOne(id, user.id);
+
+    const uploadResult = await this.storageService.upload(file, {
+      folder: `carecircle/documents/${familyId}`,
+      resourceType: this.getResourceType(file.mimetype),
+    });
+
+    return this.documentsService.addVersion(id, user.id, dto, {
+      s3Key: uploadResult.key,
+      url: uploadResult.url,
+      mimeType: file.mimetype,
+      sizeBytes: file.size,
+    });
+  }
+
+  @Get(':id/versions/:versionId/url')
+  @ApiOperation({ summary: 'Get URLs for viewing/downloading a specific version' })
+  getVersionUrl(
+    @Param('familyId', ParseUUIDPipe) familyId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('versionId', ParseUUIDPipe) versionId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.documentsService.getVersionUrl(id, versionId, familyId, user.id);
+  }
+
+  @Post(':id/versions/:versionId/restore')
+  @FamilyAccess({ param: 'familyId', roles: [FamilyRole.ADMIN, FamilyRole.CAREGIVER] })
+  @ApiOperation({ summary: 'Make an old version current again (ADMIN/CAREGIVER only)' })
+  restoreVersion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('versionId', ParseUUIDPipe) versionId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.documentsService.restoreVersion(id, versionId, user.id);
+  }
+
   @Patch(':id')
   @FamilyAccess({ param: 'familyId', roles: [FamilyRole.ADMIN, FamilyRole.CAREGIVER] })
   @ApiOperation({ summary: 'Update a document (ADMIN/CAREGIVER only)' })
@@ -1,11 +1,31 @@
-import { Injectable, NotFoundException, ForbiddenException, Logger, Optional } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+  Optional,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Document, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { StorageService } from '../system/module/storage/storage.service';
 import { EventPublisherService } from '../events/publishers/event-publisher.service';
 import { ROUTING_KEYS } from '../events/events.constants';
 import { EmbeddingIndexerService } from '../ai/services/embedding-indexer.service';
 
+interface StoredFile {
+  s3Key: string;
+  url: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+const VERSION_INCLUDE = {
+  uploadedBy: { select: { id: true, fullName: true } },
+  supersededBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.DocumentVersionInclude;
+
 @Injectable()
 export class DocumentsService {
   private readonly logger = new Logger(DocumentsService.name);
@@ -38,7 +58,7 @@ export class DocumentsService {
     familyId: string,
     userId: string,
     dto: { name: string; type?: string; notes?: string; expiresAt?: string },
-    file: { s3Key: string; url: string; mimeType: string; sizeBytes: number },
+    file: StoredFile,
   ) {
     const membership = await this.verifyFamilyAccess(familyId, userId);
 
@@ -65,6 +85,18 @@ export class DocumentsService {
         sizeBytes: file.sizeBytes,
         expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
         notes: dto.notes,
+        versions: {
+          create: {
+            versionNumber: 1,
+            uploadedById: userId,
+            s3Key: file.s3Key,
+            url: file.url,
+            mimeType: file.mimeType,
+            sizeBytes: file.sizeBytes,
+            expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+            notes: dto.notes,
+          },
+        },
       },
     });
 
@@ -151,17 +183,160 @@ export class DocumentsService {
       throw new ForbiddenException('Viewers cannot update documents');
     }
 
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : undefined;
+
+    // Expiry and notes belong to the file, so keep the current version in step
+    if (expiresAt || dto.notes !== undefined) {
+      await this.prisma.documentVersion.updateMany({
+        where: { documentId: id, versionNumber: document.currentVersion },
+        data: { expiresAt, notes: dto.notes },
+      });
+    }
+
     return this.prisma.document.update({
       where: { id },
       data: {
         name: dto.name,
         type: dto.type as any,
-        expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+        expiresAt,
         notes: dto.notes,
       },
     });
   }
 
+  async getVersions(id: string, userId: string) {
+    const document = await this.findOne(id, userId);
+
+    const versions = await this.prisma.documentVersion.findMany({
+      where: { documentId: id },
+      include: VERSION_INCLUDE,
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    return versions.map((version) => ({
+      ...version,
+      isCurrent: version.versionNumber === document.currentVersion,
+    }));
+  }
+
+  /**
+   * Replace the document's file. The current version is kept, marked as
+   * superseded by this user, and the new file becomes current. Expiry is
+   * per file: a renewed card gets a new date or none.
+   */
+  async addVersion(
+    id: string,
+    userId: string,
+    dto: { notes?: string; expiresAt?: string },
+    file: StoredFile,
+  ) {
+    const document = await this.findEditable(id, userId, 'Viewers cannot replace documents');
+
+    return this.supersede(document, userId, {
+      ...file,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+      notes: dto.notes ?? null,
+      restoredFromVersion: null,
+    });
+  }
+
+  /**
+   * Make an old version current again by copying it forward as a new
+   * version, so the history stays in upload order
+   */
+  async restoreVersion(id: string, versionId: string, userId: string) {
+    const document = await this.findEditable(id, userId, 'Viewers cannot restore document versions');
+
+    const version = await this.prisma.documentVersion.findFirst({
+      where: { id: versionId, documentId: id },
+    });
+
+    if (!version) {
+      throw new NotFoundException('Document version not found');
+    }
+
+    if (version.versionNumber === document.currentVersion) {
+      throw new BadRequestException('This version is already current');
+    }
+
+    return this.supersede(document, userId, {
+      s3Key: version.s3Key,
+      url: version.url,
+      mimeType: version.mimeType,
+      sizeBytes: version.sizeBytes,
+      expiresAt: version.expiresAt,
+      notes: version.notes,
+      restoredFromVersion: version.versionNumber,
+    });
+  }
+
+  private async findEditable(id: string, userId: string, forbidden: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const membership = await this.verifyFamilyAccess(document.familyId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException(forbidden);
+    }
+
+    return document;
+  }
+
+  private async supersede(
+    document: Document,
+    userId: string,
+    next: Omit<Prisma.DocumentVersionUncheckedCreateInput, 'documentId' | 'versionNumber' | 'uploadedById'>,
+  ) {
+    // Documents whose uploader has left may have no version row yet
+    const latest = await this.prisma.documentVersion.aggregate({
+      where: { documentId: document.id },
+      _max: { versionNumber: true },
+    });
+    const versionNumber = Math.max(latest._max.versionNumber ?? 0, document.currentVersion) + 1;
+
+    const [, , updated] = await this.prisma.$transaction([
+      this.prisma.documentVersion.updateMany({
+        where: { documentId: document.id, versionNumber: document.currentVersion },
+        data: { supersededAt: new Date(), supersededById: userId },
+      }),
+      this.prisma.documentVersion.create({
+        data: { ...next, documentId: document.id, versionNumber, uploadedById: userId },
+      }),
+      this.prisma.document.update({
+        where: { id: document.id },
+        data: {
+          currentVersion: versionNumber,
+          status: 'READY',
+          s3Key: next.s3Key,
+          url: next.url,
+          mimeType: next.mimeType,
+          sizeBytes: next.sizeBytes,
+          expiresAt: next.expiresAt,
+          notes: next.notes,
+        },
+      }),
+    ]);
+
+    const uploader = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { fullName: true },
+    });
+
+    this.eventEmitter.emit('document.uploaded', {
+      document: updated,
+      uploadedBy: uploader,
+      familyId: document.familyId,
+    });
+
+    return updated;
+  }
+
   async delete(id: string, userId: string) {
     const document = await this.prisma.document.findUnique({
       where: { id },
@@ -206,14 +381,23 @@ export class DocumentsService {
       this.logger.warn(`Failed to publish document.deleted event: ${error.message}`);
     }
 
-    // Delete from Cloudinary if file was uploaded (s3Key exists)
-    if (document.s3Key) {
-      const resourceType = document.mimeType.startsWith('image/')
+    // Delete every stored file from Cloudinary; restored versions share a key
+    const versions = await this.prisma.documentVersion.findMany({
+      where: { documentId: id },
+      select: { s3Key: true, mimeType: true },
+    });
+    const files = new Map<string, string>();
+    for (const file of [document, ...versions]) {
+      if (file.s3Key) files.set(file.s3Key, file.mimeType);
+    }
+
+    for (const [s3Key, mimeType] of files) {
+      const resourceType = mimeType.startsWith('image/')
         ? 'image'
-        : document.mimeType.startsWith('video/')
+        : mimeType.startsWith('video/')
           ? 'video'
           : 'raw';
-      await this.storageService.delete(document.s3Key, resourceType);
+      await this.storageService.delete(s3Key, resourceType);
     }
 
     await this.prisma.document.delete({
@@ -238,6 +422,8 @@ export class DocumentsService {
     const expirationDate = new Date();
     expirationDate.setDate(expirationDate.getDate() + withinDays);
 
+    // Document.expiresAt is the current version's, so a renewed card no
+    // longer shows up because the one it replaced is expiring
     return this.prisma.document.findMany({
       where: {
         familyId,
@@ -261,16 +447,35 @@ export class DocumentsService {
       throw new NotFoundException('Document not found');
     }
 
+    return this.buildUrls(document.name, document);
+  }
+
+  async getVersionUrl(documentId: string, versionId: string, familyId: string, userId: string) {
+    await this.verifyFamilyAccess(familyId, userId);
+
+    const version = await this.prisma.documentVersion.findFirst({
+      where: { id: versionId, document: { id: documentId, familyId } },
+      include: { document: { select: { name: true } } },
+    });
+
+    if (!version) {
+      throw new NotFoundException('Document version not found');
+    }
+
+    return this.buildUrls(`${version.document.name} (v${version.versionNumber})`, version);
+  }
+
+  private async buildUrls(name: string, file: { s3Key: string | null; url: string | null; mimeType: string }) {
     // Get file extension from mimeType (handle null mimeType)
-    const mimeType = document.mimeType || 'application/octet-stream';
+    const mimeType = file.mimeType || 'application/octet-stream';
     const extension = this.getExtensionFromMimeType(mimeType);
-    const filename = `${document.name}${extension}`;
+    const filename = `${name}${extension}`;
 
     // Get the base URL
-    let baseUrl = document.url;
-    if (!baseUrl && document.s3Key) {
+    let baseUrl = file.url;
+    if (!baseUrl && file.s3Key) {
       // Legacy fallback: generate URL from s3Key
-      baseUrl = await this.storageService.getSignedUrl(document.s3Key, document.mimeType);
+      baseUrl = await this.storageService.getSignedUrl(file.s3Key, file.mimeType);
     }
 
     // Handle case where document has no URL (upload may have failed or is pending)
@@ -1,3 +1,3 @@
 export * from './upload-document.dto';
 export * from './update-document.dto';
-
+export * from './upload-document-version.dto';
@@ -0,0 +1,15 @@
+import { IsString, IsOptional, IsDateString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UploadDocumentVersionDto {
+  @ApiPropertyOptional({ description: 'Expiration date of the new file', example: '2027-12-31' })
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ description: 'Notes for the new file', example: 'Renewed card, new member ID' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  notes?: string;
+}
@@ -0,0 +1,58 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Sections of the first-responder view a family can leave out. The name is
+ * always shown so responders know they have the right person.
+ */
+export enum EmergencyShareField {
+  DATE_OF_BIRTH = 'DATE_OF_BIRTH',
+  BLOOD_TYPE = 'BLOOD_TYPE',
+  ALLERGIES = 'ALLERGIES',
+  CONDITIONS = 'CONDITIONS',
+  MEDICATIONS = 'MEDICATIONS',
+  CRITICAL_DOCUMENTS = 'CRITICAL_DOCUMENTS',
+  EMERGENCY_CONTACTS = 'EMERGENCY_CONTACTS',
+  PRIMARY_DOCTOR = 'PRIMARY_DOCTOR',
+  HOSPITAL = 'HOSPITAL',
+  INSURANCE = 'INSURANCE',
+}
+
+export class UpdateEmergencyShareLinkDto {
+  @ApiPropertyOptional({ description: 'Where the link is kept', example: 'Fridge magnet' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Sections left out of the responder view',
+    enum: EmergencyShareField,
+    isArray: true,
+    example: ['INSURANCE'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(EmergencyShareField, { each: true })
+  @IsOptional()
+  hiddenFields?: EmergencyShareField[];
+}
+
+export class CreateEmergencyShareLinkDto extends UpdateEmergencyShareLinkDto {
+  @ApiPropertyOptional({ description: 'Days until the link stops working', default: 365, minimum: 1, maximum: 730 })
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  @IsOptional()
+  expiresInDays?: number;
+}
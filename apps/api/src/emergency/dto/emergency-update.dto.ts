@@ -0,0 +1,61 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EmergencyUpdateType } from '@prisma/client';
+
+// ACKNOWLEDGED and RESOLVED come from their own endpoints; PHOTO from the upload
+export const POSTABLE_UPDATE_TYPES = [
+  EmergencyUpdateType.RESPONDING,
+  EmergencyUpdateType.STATUS,
+  EmergencyUpdateType.HOSPITAL,
+] as const;
+
+export class CreateEmergencyUpdateDto {
+  @ApiProperty({ enum: POSTABLE_UPDATE_TYPES, example: 'RESPONDING' })
+  @IsIn(POSTABLE_UPDATE_TYPES)
+  type: (typeof POSTABLE_UPDATE_TYPES)[number];
+
+  @ApiPropertyOptional({ description: 'Required for STATUS updates', example: 'Paramedics are here' })
+  @ValidateIf((o) => o.type === EmergencyUpdateType.STATUS || o.message !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  message?: string;
+
+  @ApiPropertyOptional({ description: 'Minutes until a RESPONDING member arrives', example: 15, minimum: 0, maximum: 720 })
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  @IsOptional()
+  etaMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Required for HOSPITAL updates', example: 'St. Mary Medical Center' })
+  @ValidateIf((o) => o.type === EmergencyUpdateType.HOSPITAL || o.hospitalName !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  hospitalName?: string;
+
+  @ApiPropertyOptional({ example: '123 Main St' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  hospitalAddress?: string;
+}
+
+export class UploadEmergencyPhotoDto {
+  @ApiPropertyOptional({ example: 'Where she fell' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  caption?: string;
+}
@@ -0,0 +1,60 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export enum EscalationAudience {
+  ALL_MEMBERS = 'ALL_MEMBERS',
+  ADMINS = 'ADMINS',
+  EMERGENCY_CONTACTS = 'EMERGENCY_CONTACTS',
+}
+
+export enum EscalationChannel {
+  PUSH = 'PUSH',
+  EMAIL = 'EMAIL',
+}
+
+export class EscalationStepDto {
+  @ApiProperty({ description: 'Minutes after the alert was raised', example: 3, minimum: 1, maximum: 240 })
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  afterMinutes: number;
+
+  @ApiProperty({ enum: EscalationAudience, example: 'ADMINS' })
+  @IsEnum(EscalationAudience)
+  audience: EscalationAudience;
+
+  @ApiProperty({
+    description: 'Emergency contacts have no app, so they are only emailed',
+    enum: EscalationChannel,
+    isArray: true,
+    example: ['PUSH', 'EMAIL'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(EscalationChannel, { each: true })
+  channels: EscalationChannel[];
+}
+
+export class UpdateEscalationPolicyDto {
+  @ApiProperty({
+    description: 'Steps taken while the alert stays unacknowledged, in order. Empty turns escalation off.',
+    type: [EscalationStepDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(5)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  steps: EscalationStepDto[];
+}
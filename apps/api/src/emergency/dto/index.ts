@@ -1,3 +1,5 @@
 export * from './create-emergency-alert.dto';
 export * from './resolve-alert.dto';
-
+export * from './escalation-policy.dto';
+export * from './emergency-share-link.dto';
+export * from './emergency-update.dto';
@@ -0,0 +1,34 @@
+import { Processor, Process, OnQueueFailed } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  EMERGENCY_ESCALATION_QUEUE,
+  EmergencyEscalationService,
+  EscalationJobData,
+} from './emergency-escalation.service';
+
+/**
+ * In-process BullMQ processor for emergency escalation steps.
+ *
+ * Each job is delayed until its step is due; acknowledging or resolving the
+ * alert removes the pending job.
+ */
+@Processor(EMERGENCY_ESCALATION_QUEUE)
+export class EmergencyEscalationProcessor {
+  private readonly logger = new Logger(EmergencyEscalationProcessor.name);
+
+  constructor(private readonly escalationService: EmergencyEscalationService) {}
+
+  @Process('escalate')
+  async handleEscalation(job: Job<EscalationJobData>): Promise<void> {
+    await this.escalationService.runStep(job.data);
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<EscalationJobData>, error: Error) {
+    this.logger.warn(
+      { jobId: job.id, alertId: job.data.alertId, step: job.data.step, error: error.message },
+      'Emergency escalation job failed',
+    );
+  }
+}
@@ -0,0 +1,275 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { EmergencyAlert, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  EscalationAudience,
+  EscalationChannel,
+  UpdateEscalationPolicyDto,
+} from './dto/escalation-policy.dto';
+
+export const EMERGENCY_ESCALATION_QUEUE = 'emergency-escalations';
+
+export interface EscalationStep {
+  afterMinutes: number;
+  audience: EscalationAudience;
+  channels: EscalationChannel[];
+}
+
+/**
+ * What one step actually did, appended to `EmergencyAlert.escalations`
+ */
+export interface EscalationRecord {
+  step: number;
+  afterMinutes: number;
+  audience: EscalationAudience;
+  channels: EscalationChannel[];
+  escalatedAt: string;
+  notifiedUserIds: string[];
+  emailedContacts: string[];
+  // Emergency contacts without an email address; there is no SMS channel yet
+  unreachableContacts: string[];
+}
+
+export interface EscalationJobData {
+  alertId: string;
+  step: number;
+  // Snapshot of the policy when the alert was raised, so editing the policy
+  // does not change the ladder for an alert already in flight
+  steps: EscalationStep[];
+}
+
+/**
+ * Used until a family saves its own policy. The immediate push to every
+ * member is sent when the alert is raised, so the ladder starts after it.
+ */
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+  {
+    afterMinutes: 3,
+    audience: EscalationAudience.ADMINS,
+    channels: [EscalationChannel.PUSH, EscalationChannel.EMAIL],
+  },
+  {
+    afterMinutes: 10,
+    audience: EscalationAudience.EMERGENCY_CONTACTS,
+    channels: [EscalationChannel.EMAIL],
+  },
+];
+
+@Injectable()
+export class EmergencyEscalationService {
+  private readonly logger = new Logger(EmergencyEscalationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+    @InjectQueue(EMERGENCY_ESCALATION_QUEUE) private readonly escalationQueue: Queue,
+  ) {}
+
+  private async verifyFamilyAccess(familyId: string, userId: string) {
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId, userId } },
+    });
+
+    if (!membership || !membership.isActive) {
+      throw new ForbiddenException('You do not have access to this family');
+    }
+
+    return membership;
+  }
+
+  async getPolicy(familyId: string, userId: string) {
+    await this.verifyFamilyAccess(familyId, userId);
+
+    const policy = await this.prisma.emergencyEscalationPolicy.findUnique({
+      where: { familyId },
+    });
+
+    return {
+      familyId,
+      steps: policy ? this.parseSteps(policy.steps) : DEFAULT_ESCALATION_STEPS,
+      isDefault: !policy,
+      updatedAt: policy?.updatedAt ?? null,
+    };
+  }
+
+  async updatePolicy(familyId: string, userId: string, dto: UpdateEscalationPolicyDto) {
+    const membership = await this.verifyFamilyAccess(familyId, userId);
+
+    if (membership.role !== 'ADMIN') {
+      throw new ForbiddenException('Only admins can change the escalation policy');
+    }
+
+    const steps: EscalationStep[] = dto.steps.map((step) => ({
+      afterMinutes: step.afterMinutes,
+      audience: step.audience,
+      channels: step.channels,
+    }));
+
+    steps.forEach((step, index) => {
+      if (index > 0 && step.afterMinutes <= steps[index - 1].afterMinutes) {
+        throw new BadRequestException('Each escalation step must come later than the one before it');
+      }
+    });
+
+    const policy = await this.prisma.emergencyEscalationPolicy.upsert({
+      where: { familyId },
+      create: { familyId, steps: steps as unknown as Prisma.InputJsonValue, updatedById: userId },
+      update: { steps: steps as unknown as Prisma.InputJsonValue, updatedById: userId },
+    });
+
+    return {
+      familyId,
+      steps,
+      isDefault: false,
+      updatedAt: policy.updatedAt,
+    };
+  }
+
+  /**
+   * Queue the first step of the family's ladder for a newly raised alert.
+   * Each step queues the next one when it runs.
+   */
+  async schedule(alert: EmergencyAlert, familyId: string) {
+    const policy = await this.prisma.emergencyEscalationPolicy.findUnique({
+      where: { familyId },
+    });
+    const steps = policy ? this.parseSteps(policy.steps) : DEFAULT_ESCALATION_STEPS;
+
+    await this.enqueue({ alertId: alert.id, step: 0, steps }, alert.createdAt);
+  }
+
+  /**
+   * Drop the pending step once someone has acknowledged or resolved the
+   * alert. A step already running re-checks the status before notifying.
+   */
+  async cancel(alert: EmergencyAlert) {
+    try {
+      const job = await this.escalationQueue.getJob(this.jobId(alert.id, alert.escalationLevel));
+      await job?.remove();
+    } catch (error) {
+      this.logger.warn({ error, alertId: alert.id }, 'Failed to cancel emergency escalation job');
+    }
+  }
+
+  async runStep({ alertId, step, steps }: EscalationJobData) {
+    const alert = await this.prisma.emergencyAlert.findUnique({
+      where: { id: alertId },
+      include: {
+        createdBy: { select: { id: true, fullName: true } },
+        careRecipient: {
+          include: { emergencyContacts: { orderBy: { isPrimary: 'desc' } } },
+        },
+      },
+    });
+
+    if (!alert || alert.status !== 'ACTIVE' || alert.escalationLevel > step || !steps[step]) {
+      return;
+    }
+
+    const current = steps[step];
+    const { careRecipient, ...alertData } = alert;
+    const { emergencyContacts, ...careRecipientData } = careRecipient;
+
+    let users: { id: string; email: string }[] = [];
+    let contacts = emergencyContacts;
+
+    // Emergency contacts are only ever emailed, whatever channels the step lists
+    if (current.audience !== EscalationAudience.EMERGENCY_CONTACTS) {
+      contacts = [];
+      const members = await this.prisma.familyMember.findMany({
+        where: {
+          familyId: careRecipient.familyId,
+          isActive: true,
+          ...(current.audience === EscalationAudience.ADMINS && { role: 'ADMIN' }),
+          // Whoever raised the alert already knows about it
+          userId: { not: alert.createdById },
+        },
+        include: { user: { select: { id: true, email: true } } },
+      });
+      users = members.map((m) => m.user);
+    }
+
+    const emailedContacts = contacts.filter((c) => c.email);
+    const emails = [
+      ...(current.channels.includes(EscalationChannel.EMAIL) ? users.map((u) => u.email) : []),
+      ...emailedContacts.map((c) => c.email as string),
+    ];
+
+    await this.notifications.notifyEmergencyEscalation(
+      alertData,
+      careRecipientData,
+      { userIds: users.map((u) => u.id), emails },
+      { push: current.channels.includes(EscalationChannel.PUSH), email: emails.length > 0 },
+      current.afterMinutes,
+    );
+
+    const record: EscalationRecord = {
+      step,
+      afterMinutes: current.afterMinutes,
+      audience: current.audience,
+      channels: current.channels,
+      escalatedAt: new Date().toISOString(),
+      notifiedUserIds: users.map((u) => u.id),
+      emailedContacts: emailedContacts.map((c) => c.name),
+      unreachableContacts: contacts.filter((c) => !c.email).map((c) => c.name),
+    };
+
+    await this.prisma.emergencyAlert.update({
+      where: { id: alertId },
+      data: {
+        escalationLevel: step + 1,
+        escalations: [
+          ...this.parseRecords(alert.escalations),
+          record,
+        ] as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.log({ alertId, step, audience: current.audience }, 'Emergency alert escalated');
+
+    await this.enqueue({ alertId, step: step + 1, steps }, alert.createdAt);
+  }
+
+  private async enqueue(data: EscalationJobData, raisedAt: Date) {
+    const next = data.steps[data.step];
+    if (!next) return;
+
+    try {
+      await this.escalationQueue.add('escalate', data, {
+        jobId: this.jobId(data.alertId, data.step),
+        delay: Math.max(0, raisedAt.getTime() + next.afterMinutes * 60_000 - Date.now()),
+        attempts: 3,
+        backoff: { type: 'fixed', delay: 15_000 },
+        removeOnComplete: true,
+      });
+    } catch (error) {
+      this.logger.warn(
+        { error, alertId: data.alertId, step: data.step },
+        'Failed to enqueue emergency escalation job',
+      );
+    }
+  }
+
+  private jobId(alertId: string, step: number) {
+    return `${alertId}:${step}`;
+  }
+
+  private parseSteps(value: Prisma.JsonValue): EscalationStep[] {
+    return Array.isArray(value) ? (value as unknown as EscalationStep[]) : [];
+  }
+
+  private parseRecords(value: Prisma.JsonValue): EscalationRecord[] {
+    return Array.isArray(value) ? (value as unknown as EscalationRecord[]) : [];
+  }
+}
@@ -0,0 +1,323 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { EmergencyAlert, EmergencyUpdateType, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { TimelineService } from '../timeline/timeline.service';
+import { StorageService } from '../system/module/storage/storage.service';
+import { DateHelper } from '../system/helper/date.helper';
+import { CreateEmergencyUpdateDto } from './dto/emergency-update.dto';
+import { EmergencyEscalationService, EscalationRecord } from './emergency-escalation.service';
+import { IncidentSummaryHelper } from './incident-summary.helper';
+
+const ALERT_INCLUDE = {
+  createdBy: { select: { id: true, fullName: true } },
+  updates: {
+    include: { author: { select: { id: true, fullName: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.EmergencyAlertInclude;
+
+const UPDATE_INCLUDE = {
+  author: { select: { id: true, fullName: true } },
+} satisfies Prisma.EmergencyAlertUpdateInclude;
+
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * The incident thread on an emergency alert: who is responding, status
+ * updates, photos and where the care recipient was taken. Acknowledging and
+ * resolving go through here too so they land in the thread, and resolving
+ * writes the thread up as an INCIDENT timeline entry.
+ */
+@Injectable()
+export class EmergencyIncidentService {
+  private readonly logger = new Logger(EmergencyIncidentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+    private timelineService: TimelineService,
+    private storageService: StorageService,
+    private escalationService: EmergencyEscalationService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  /**
+   * Load an alert for posting to its thread: members other than viewers,
+   * while the alert is still open
+   */
+  private async findOpenAlert(alertId: string, userId: string) {
+    const alert = await this.prisma.emergencyAlert.findUnique({
+      where: { id: alertId },
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+
+    const { careRecipient, membership } = await this.verifyAccess(alert.careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot post incident updates');
+    }
+
+    if (alert.status === 'RESOLVED') {
+      throw new BadRequestException('This alert has already been resolved');
+    }
+
+    return { alert, careRecipient };
+  }
+
+  async getAlert(alertId: string, userId: string) {
+    const alert = await this.prisma.emergencyAlert.findUnique({
+      where: { id: alertId },
+      include: ALERT_INCLUDE,
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+
+    const { careRecipient } = await this.verifyAccess(alert.careRecipientId, userId);
+
+    return {
+      ...alert,
+      careRecipient: {
+        id: careRecipient.id,
+        fullName: careRecipient.fullName,
+        preferredName: careRecipient.preferredName,
+        primaryHospital: careRecipient.primaryHospital,
+        hospitalAddress: careRecipient.hospitalAddress,
+      },
+    };
+  }
+
+  async postUpdate(alertId: string, userId: string, dto: CreateEmergencyUpdateDto) {
+    const { alert, careRecipient } = await this.findOpenAlert(alertId, userId);
+
+    // Someone heading over has seen the alert, so stop escalating it
+    if (dto.type === EmergencyUpdateType.RESPONDING && alert.status === 'ACTIVE') {
+      try {
+        await this.acknowledge(alert, userId);
+      } catch (error) {
+        // Someone else acknowledged it first, which is fine; a resolved alert isn't
+        const current = await this.prisma.emergencyAlert.findUnique({ where: { id: alertId } });
+        if (!(error instanceof ConflictException) || current?.status === 'RESOLVED') {
+          throw error;
+        }
+      }
+    }
+
+    const update = await this.prisma.emergencyAlertUpdate.create({
+      data: {
+        alertId,
+        authorId: userId,
+        type: dto.type,
+        message: dto.message?.trim() || null,
+        etaMinutes: dto.type === EmergencyUpdateType.RESPONDING ? dto.etaMinutes : null,
+        hospitalName: dto.type === EmergencyUpdateType.HOSPITAL ? dto.hospitalName?.trim() : null,
+        hospitalAddress: dto.type === EmergencyUpdateType.HOSPITAL ? dto.hospitalAddress?.trim() || null : null,
+      },
+      include: UPDATE_INCLUDE,
+    });
+
+    if (dto.type === EmergencyUpdateType.HOSPITAL) {
+      await this.prisma.emergencyAlert.update({
+        where: { id: alertId },
+        data: { hospitalName: update.hospitalName, hospitalAddress: update.hospitalAddress },
+      });
+    }
+
+    await this.notifications.notifyEmergencyUpdate(careRecipient.familyId, careRecipient, alert, update);
+
+    return update;
+  }
+
+  async addPhoto(alertId: string, userId: string, file: Express.Multer.File, caption?: string) {
+    const { alert, careRecipient } = await this.findOpenAlert(alertId, userId);
+
+    if (!PHOTO_MIME_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException('Only JPEG, PNG, WebP or GIF photos can be attached');
+    }
+
+    const upload = await this.storageService.upload(file, {
+      folder: `carecircle/emergencies/${careRecipient.familyId}`,
+      resourceType: 'image',
+    });
+
+    const update = await this.prisma.emergencyAlertUpdate.create({
+      data: {
+        alertId,
+        authorId: userId,
+        type: EmergencyUpdateType.PHOTO,
+        message: caption?.trim() || null,
+        photoUrl: upload.url,
+        photoKey: upload.key,
+      },
+      include: UPDATE_INCLUDE,
+    });
+
+    await this.notifications.notifyEmergencyUpdate(careRecipient.familyId, careRecipient, alert, update);
+
+    return update;
+  }
+
+  /**
+   * Mark an ACTIVE alert acknowledged and drop its pending escalation
+   */
+  async acknowledge(alert: EmergencyAlert, userId: string) {
+    const acknowledged = await this.transition(
+      alert.id,
+      { status: 'ACTIVE' },
+      {
+        status: 'ACKNOWLEDGED',
+        acknowledgedAt: new Date(),
+        acknowledgedById: userId,
+      },
+      'This alert has already been acknowledged or resolved',
+    );
+
+    await this.escalationService.cancel(acknowledged);
+    await this.record(acknowledged, userId, EmergencyUpdateType.ACKNOWLEDGED);
+
+    return acknowledged;
+  }
+
+  /**
+   * Close the alert and write the thread up as an INCIDENT timeline entry
+   */
+  async resolve(alert: EmergencyAlert, userId: string, resolutionNotes?: string) {
+    const resolved = await this.transition(
+      alert.id,
+      { status: { not: 'RESOLVED' } },
+      {
+        status: 'RESOLVED',
+        resolvedAt: new Date(),
+        resolvedById: userId,
+        resolutionNotes,
+      },
+      'This alert has already been resolved',
+    );
+
+    if (alert.status === 'ACTIVE') {
+      await this.escalationService.cancel(resolved);
+    }
+
+    await this.record(resolved, userId, EmergencyUpdateType.RESOLVED, resolutionNotes);
+
+    try {
+      const timelineEntryId = await this.writeSummary(resolved.id, userId);
+      return { ...resolved, timelineEntryId };
+    } catch (error) {
+      // The alert is resolved either way; the summary can be written up by hand
+      this.logger.error(
+        { alertId: alert.id, error: error instanceof Error ? error.message : String(error) },
+        'Failed to write incident summary',
+      );
+      return resolved;
+    }
+  }
+
+  /**
+   * Moves an alert on only if it is still in the state it was read in, so
+   * two people acting on the same alert at once can't both succeed
+   */
+  private async transition(
+    alertId: string,
+    expected: Prisma.EmergencyAlertWhereInput,
+    data: Prisma.EmergencyAlertUncheckedUpdateManyInput,
+    conflictMessage: string,
+  ) {
+    const { count } = await this.prisma.emergencyAlert.updateMany({
+      where: { id: alertId, ...expected },
+      data,
+    });
+
+    if (count === 0) {
+      throw new ConflictException(conflictMessage);
+    }
+
+    return this.prisma.emergencyAlert.findUniqueOrThrow({ where: { id: alertId } });
+  }
+
+  private async record(alert: EmergencyAlert, userId: string, type: EmergencyUpdateType, message?: string) {
+    const update = await this.prisma.emergencyAlertUpdate.create({
+      data: { alertId: alert.id, authorId: userId, type, message: message?.trim() || null },
+      include: UPDATE_INCLUDE,
+    });
+
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: alert.careRecipientId },
+    });
+
+    if (careRecipient) {
+      await this.notifications.notifyEmergencyUpdate(careRecipient.familyId, careRecipient, alert, update);
+    }
+  }
+
+  private async writeSummary(alertId: string, userId: string) {
+    const alert = await this.prisma.emergencyAlert.findUniqueOrThrow({
+      where: { id: alertId },
+      include: ALERT_INCLUDE,
+    });
+    const timezone = await this.userTimezone(userId);
+    const escalations = Array.isArray(alert.escalations)
+      ? (alert.escalations as unknown as EscalationRecord[])
+      : [];
+
+    const entry = await this.timelineService.create(alert.careRecipientId, userId, {
+      type: 'INCIDENT',
+      title: IncidentSummaryHelper.title(alert),
+      description: IncidentSummaryHelper.describe(alert, alert.updates, escalations, timezone),
+      // The family was alerted when it was raised; HIGH would notify them all again
+      severity: 'MEDIUM',
+      occurredAt: alert.createdAt.toISOString(),
+      attachments: alert.updates.flatMap((update) => (update.photoUrl ? [update.photoUrl] : [])),
+    });
+
+    await this.prisma.emergencyAlert.update({
+      where: { id: alertId },
+      data: { timelineEntryId: entry.id },
+    });
+
+    return entry.id;
+  }
+
+  private async userTimezone(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    return user?.timezone || DateHelper.DEFAULT_TIMEZONE;
+  }
+}
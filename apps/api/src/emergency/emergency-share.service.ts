@@ -0,0 +1,320 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { addDays, differenceInYears } from 'date-fns';
+import * as QRCode from 'qrcode';
+import { EmergencyShareLink, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { EmergencyService } from './emergency.service';
+import {
+  CreateEmergencyShareLinkDto,
+  EmergencyShareField,
+  UpdateEmergencyShareLinkDto,
+} from './dto/emergency-share-link.dto';
+
+const DEFAULT_EXPIRY_DAYS = 365;
+
+const MAX_ACTIVE_LINKS = 10;
+
+// Responders need a number to call, not the whole address book
+const MAX_CONTACTS_SHOWN = 3;
+
+const AUDIT_RESOURCE = 'emergency_share_link';
+
+export interface ShareLinkRequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Revocable, expiring links to a read-only first-responder view of a care
+ * recipient's emergency info. Anyone holding the token can read the view,
+ * so every view is written to the audit log.
+ */
+@Injectable()
+export class EmergencyShareService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private emergencyService: EmergencyService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  private async findLink(careRecipientId: string, linkId: string, userId: string, forEdit = false) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (forEdit && membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot manage emergency share links');
+    }
+
+    const link = await this.prisma.emergencyShareLink.findFirst({
+      where: { id: linkId, careRecipientId },
+    });
+
+    if (!link) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    return link;
+  }
+
+  /**
+   * Live links for the care recipient. Viewers see the list but not the
+   * tokens, since a token alone opens the medical ID.
+   */
+  async getLinks(careRecipientId: string, userId: string) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    const links = await this.prisma.emergencyShareLink.findMany({
+      where: { careRecipientId, revokedAt: null },
+      include: { createdBy: { select: { id: true, fullName: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (membership.role === 'VIEWER') {
+      return links.map(({ token, ...link }) => link);
+    }
+
+    return links.map((link) => this.withUrl(link));
+  }
+
+  async createLink(careRecipientId: string, userId: string, dto: CreateEmergencyShareLinkDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot manage emergency share links');
+    }
+
+    const active = await this.prisma.emergencyShareLink.count({
+      where: { careRecipientId, revokedAt: null, expiresAt: { gt: new Date() } },
+    });
+
+    if (active >= MAX_ACTIVE_LINKS) {
+      throw new BadRequestException(`A care recipient can have up to ${MAX_ACTIVE_LINKS} active share links`);
+    }
+
+    const link = await this.prisma.emergencyShareLink.create({
+      data: {
+        careRecipientId,
+        createdById: userId,
+        token: randomBytes(32).toString('hex'),
+        label: dto.label?.trim() || null,
+        hiddenFields: dto.hiddenFields ?? [],
+        expiresAt: addDays(new Date(), dto.expiresInDays ?? DEFAULT_EXPIRY_DAYS),
+      },
+      include: { createdBy: { select: { id: true, fullName: true } } },
+    });
+
+    await this.audit('EMERGENCY_SHARE_LINK_CREATED', link.id, {
+      userId,
+      metadata: { careRecipientId, hiddenFields: link.hiddenFields, expiresAt: link.expiresAt.toISOString() },
+    });
+
+    return this.withUrl(link);
+  }
+
+  /**
+   * Change what an existing link shows. The token stays the same, so a
+   * printed QR code keeps working.
+   */
+  async updateLink(
+    careRecipientId: string,
+    linkId: string,
+    userId: string,
+    dto: UpdateEmergencyShareLinkDto,
+  ) {
+    const link = await this.findLink(careRecipientId, linkId, userId, true);
+
+    if (link.revokedAt) {
+      throw new BadRequestException('This share link has been revoked');
+    }
+
+    const updated = await this.prisma.emergencyShareLink.update({
+      where: { id: linkId },
+      data: {
+        ...(dto.label !== undefined && { label: dto.label.trim() || null }),
+        ...(dto.hiddenFields && { hiddenFields: dto.hiddenFields }),
+      },
+      include: { createdBy: { select: { id: true, fullName: true } } },
+    });
+
+    if (dto.hiddenFields) {
+      await this.audit('EMERGENCY_SHARE_LINK_UPDATED', linkId, {
+        userId,
+        metadata: { careRecipientId, hiddenFields: updated.hiddenFields },
+      });
+    }
+
+    return this.withUrl(updated);
+  }
+
+  async revokeLink(careRecipientId: string, linkId: string, userId: string) {
+    const link = await this.findLink(careRecipientId, linkId, userId, true);
+
+    if (!link.revokedAt) {
+      await this.prisma.emergencyShareLink.update({
+        where: { id: linkId },
+        data: { revokedAt: new Date() },
+      });
+
+      await this.audit('EMERGENCY_SHARE_LINK_REVOKED', linkId, {
+        userId,
+        metadata: { careRecipientId },
+      });
+    }
+
+    return { success: true };
+  }
+
+  async getQrCode(careRecipientId: string, linkId: string, userId: string): Promise<Buffer> {
+    const link = await this.findLink(careRecipientId, linkId, userId, true);
+
+    if (link.revokedAt) {
+      throw new NotFoundException('Share link not found');
+    }
+
+    return QRCode.toBuffer(this.publicUrl(link.token), {
+      type: 'png',
+      width: 512,
+      margin: 2,
+      errorCorrectionLevel: 'M',
+    });
+  }
+
+  /**
+   * Who opened a link and from where; IP addresses are kept from viewers
+   */
+  async getAccessLog(careRecipientId: string, linkId: string, userId: string) {
+    await this.findLink(careRecipientId, linkId, userId, true);
+
+    return this.prisma.auditLog.findMany({
+      where: { resource: AUDIT_RESOURCE, resourceId: linkId },
+      select: { id: true, action: true, userId: true, ipAddress: true, userAgent: true, timestamp: true },
+      orderBy: { timestamp: 'desc' },
+      take: 100,
+    });
+  }
+
+  /**
+   * The first-responder view behind a share link
+   */
+  async viewByToken(token: string, request: ShareLinkRequestInfo) {
+    const link = await this.prisma.emergencyShareLink.findUnique({
+      where: { token },
+    });
+
+    // Expired and revoked links look the same as unknown ones
+    if (!link || link.revokedAt || link.expiresAt <= new Date()) {
+      throw new NotFoundException('This emergency link is not valid');
+    }
+
+    await this.prisma.emergencyShareLink.update({
+      where: { id: link.id },
+      data: { lastAccessedAt: new Date(), accessCount: { increment: 1 } },
+    });
+
+    await this.audit('EMERGENCY_SHARE_LINK_VIEWED', link.id, {
+      ...request,
+      metadata: { careRecipientId: link.careRecipientId },
+    });
+
+    const info = await this.emergencyService.loadEmergencyInfo(link.careRecipientId);
+    const hidden = new Set(link.hiddenFields);
+    const show = (field: EmergencyShareField) => !hidden.has(field);
+
+    const documentTypes = new Set(info.documents.map((d) => d.type));
+    const dateOfBirth = info.dateOfBirth ? new Date(info.dateOfBirth) : null;
+
+    return {
+      name: info.name,
+      preferredName: info.preferredName,
+      ...(show(EmergencyShareField.DATE_OF_BIRTH) && {
+        dateOfBirth,
+        age: dateOfBirth ? differenceInYears(new Date(), dateOfBirth) : null,
+      }),
+      ...(show(EmergencyShareField.BLOOD_TYPE) && { bloodType: info.bloodType }),
+      ...(show(EmergencyShareField.ALLERGIES) && { allergies: info.allergies }),
+      ...(show(EmergencyShareField.CONDITIONS) && { conditions: info.conditions }),
+      ...(show(EmergencyShareField.MEDICATIONS) && { medications: info.medications }),
+      // Only whether the paperwork exists; the documents stay private
+      ...(show(EmergencyShareField.CRITICAL_DOCUMENTS) && {
+        documents: {
+          dnr: documentTypes.has('DNR'),
+          powerOfAttorney: documentTypes.has('POWER_OF_ATTORNEY'),
+          insuranceCard: documentTypes.has('INSURANCE_CARD'),
+          photoId: documentTypes.has('PHOTO_ID'),
+        },
+      }),
+      ...(show(EmergencyShareField.EMERGENCY_CONTACTS) && {
+        emergencyContacts: info.emergencyContacts.slice(0, MAX_CONTACTS_SHOWN).map((c) => ({
+          name: c.name,
+          relationship: c.relationship,
+          phone: c.phone,
+          isPrimary: c.isPrimary,
+        })),
+      }),
+      ...(show(EmergencyShareField.PRIMARY_DOCTOR) && {
+        primaryDoctor: info.primaryDoctor
+          ? { name: info.primaryDoctor.name, specialty: info.primaryDoctor.specialty, phone: info.primaryDoctor.phone }
+          : null,
+      }),
+      ...(show(EmergencyShareField.HOSPITAL) && {
+        hospital: { name: info.primaryHospital, address: info.hospitalAddress },
+      }),
+      ...(show(EmergencyShareField.INSURANCE) && { insurance: info.insurance }),
+      updatedAt: info.updatedAt,
+      expiresAt: link.expiresAt,
+    };
+  }
+
+  private publicUrl(token: string) {
+    const frontendUrl = this.configService.get<string>('app.frontendUrl');
+    return `${frontendUrl}/emergency-id/${token}`;
+  }
+
+  private withUrl<T extends EmergencyShareLink>(link: T) {
+    return { ...link, url: this.publicUrl(link.token) };
+  }
+
+  private async audit(
+    action: string,
+    linkId: string,
+    entry: ShareLinkRequestInfo & { userId?: string; metadata: Prisma.InputJsonObject },
+  ) {
+    await this.prisma.auditLog.create({
+      data: {
+        userId: entry.userId,
+        action,
+        resource: AUDIT_RESOURCE,
+        resourceId: linkId,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        metadata: entry.metadata,
+      },
+    });
+  }
+}
@@ -2,16 +2,34 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseInterceptors,
   ParseUUIDPipe,
+  BadRequestException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiConsumes } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { Request, Response } from 'express';
 import { EmergencyService } from './emergency.service';
+import { EmergencyEscalationService } from './emergency-escalation.service';
+import { EmergencyShareService } from './emergency-share.service';
+import { EmergencyIncidentService } from './emergency-incident.service';
 import { CreateEmergencyAlertDto } from './dto/create-emergency-alert.dto';
 import { ResolveAlertDto } from './dto/resolve-alert.dto';
+import { UpdateEscalationPolicyDto } from './dto/escalation-policy.dto';
+import { CreateEmergencyShareLinkDto, UpdateEmergencyShareLinkDto } from './dto/emergency-share-link.dto';
+import { CreateEmergencyUpdateDto, UploadEmergencyPhotoDto } from './dto/emergency-update.dto';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { Public } from '../system/decorator/public.decorator';
 
 interface CurrentUserPayload {
   id: string;
@@ -22,7 +40,11 @@ interface CurrentUserPayload {
 @ApiBearerAuth('JWT-auth')
 @Controller('care-recipients/:careRecipientId/emergency')
 export class EmergencyController {
-  constructor(private readonly emergencyService: EmergencyService) {}
+  constructor(
+    private readonly emergencyService: EmergencyService,
+    private readonly shareService: EmergencyShareService,
+    private readonly incidentService: EmergencyIncidentService,
+  ) {}
 
   @Get('info')
   @ApiOperation({ summary: 'Get complete emergency info for care recipient (for offline caching)' })
@@ -62,6 +84,42 @@ export class EmergencyController {
     return this.emergencyService.getAlertHistory(careRecipientId, user.id, limit ? parseInt(limit, 10) : 20);
   }
 
+  @Get('alerts/:alertId')
+  @ApiOperation({ summary: 'Get an emergency alert with its incident thread' })
+  getAlert(
+    @Param('alertId', ParseUUIDPipe) alertId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.incidentService.getAlert(alertId, user.id);
+  }
+
+  @Post('alerts/:alertId/updates')
+  @ApiOperation({ summary: "Post to an alert's incident thread (on my way, status update, hospital)" })
+  postAlertUpdate(
+    @Param('alertId', ParseUUIDPipe) alertId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateEmergencyUpdateDto,
+  ) {
+    return this.incidentService.postUpdate(alertId, user.id, dto);
+  }
+
+  @Post('alerts/:alertId/photos')
+  @ApiOperation({ summary: "Attach a photo to an alert's incident thread" })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }))
+  addAlertPhoto(
+    @Param('alertId', ParseUUIDPipe) alertId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadEmergencyPhotoDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    return this.incidentService.addPhoto(alertId, user.id, file, dto.caption);
+  }
+
   @Post('alerts/:alertId/acknowledge')
   @ApiOperation({ summary: 'Acknowledge an emergency alert' })
   acknowledgeAlert(
@@ -80,4 +138,114 @@ export class EmergencyController {
   ) {
     return this.emergencyService.resolveAlert(alertId, user.id, dto.resolutionNotes);
   }
+
+  @Get('share-links')
+  @ApiOperation({ summary: 'Get share links to the first-responder view' })
+  getShareLinks(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shareService.getLinks(careRecipientId, user.id);
+  }
+
+  @Post('share-links')
+  @ApiOperation({ summary: 'Create a share link to the first-responder view' })
+  createShareLink(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateEmergencyShareLinkDto,
+  ) {
+    return this.shareService.createLink(careRecipientId, user.id, dto);
+  }
+
+  @Patch('share-links/:linkId')
+  @ApiOperation({ summary: 'Change the label or hidden sections of a share link' })
+  updateShareLink(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('linkId', ParseUUIDPipe) linkId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateEmergencyShareLinkDto,
+  ) {
+    return this.shareService.updateLink(careRecipientId, linkId, user.id, dto);
+  }
+
+  @Delete('share-links/:linkId')
+  @ApiOperation({ summary: 'Revoke a share link' })
+  revokeShareLink(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('linkId', ParseUUIDPipe) linkId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shareService.revokeLink(careRecipientId, linkId, user.id);
+  }
+
+  @Get('share-links/:linkId/qr')
+  @ApiOperation({ summary: 'QR code (PNG) that opens the share link' })
+  async getShareLinkQrCode(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('linkId', ParseUUIDPipe) linkId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+  ) {
+    const png = await this.shareService.getQrCode(careRecipientId, linkId, user.id);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', 'inline; filename="emergency-id-qr.png"');
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(png);
+  }
+
+  @Get('share-links/:linkId/access-log')
+  @ApiOperation({ summary: 'Get who opened a share link, and when' })
+  getShareLinkAccessLog(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('linkId', ParseUUIDPipe) linkId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.shareService.getAccessLog(careRecipientId, linkId, user.id);
+  }
+}
+
+@ApiTags('Emergency')
+@Controller('emergency-id')
+export class EmergencyShareController {
+  constructor(private readonly shareService: EmergencyShareService) {}
+
+  @Public()
+  @Throttle({ long: { ttl: 60000, limit: 30 } })
+  @Get(':token')
+  @ApiOperation({ summary: 'First-responder emergency info (Public, authenticated by share link token)' })
+  @ApiResponse({ status: 404, description: 'Link not found, revoked or expired' })
+  viewSharedInfo(@Param('token') token: string, @Req() req: Request) {
+    return this.shareService.viewByToken(token, {
+      ipAddress: req.ip || (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim(),
+      userAgent: req.headers['user-agent'],
+    });
+  }
+}
+
+@ApiTags('Emergency')
+@ApiBearerAuth('JWT-auth')
+@Controller('families/:familyId/emergency/escalation-policy')
+export class EscalationPolicyController {
+  constructor(private readonly escalationService: EmergencyEscalationService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get who is notified when an emergency alert goes unacknowledged' })
+  getPolicy(
+    @Param('familyId', ParseUUIDPipe) familyId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.escalationService.getPolicy(familyId, user.id);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Replace the emergency escalation policy (admin only)' })
+  updatePolicy(
+    @Param('familyId', ParseUUIDPipe) familyId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateEscalationPolicyDto,
+  ) {
+    return this.escalationService.updatePolicy(familyId, user.id, dto);
+  }
 }
@@ -1,12 +1,32 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
 import { EmergencyService } from './emergency.service';
-import { EmergencyController } from './emergency.controller';
+import {
+  EmergencyController,
+  EmergencyShareController,
+  EscalationPolicyController,
+} from './emergency.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { TimelineModule } from '../timeline/timeline.module';
+import { EMERGENCY_ESCALATION_QUEUE, EmergencyEscalationService } from './emergency-escalation.service';
+import { EmergencyEscalationProcessor } from './emergency-escalation.processor';
+import { EmergencyShareService } from './emergency-share.service';
+import { EmergencyIncidentService } from './emergency-incident.service';
 
 @Module({
-  imports: [forwardRef(() => NotificationsModule)],
-  controllers: [EmergencyController],
-  providers: [EmergencyService],
+  imports: [
+    forwardRef(() => NotificationsModule),
+    BullModule.registerQueue({ name: EMERGENCY_ESCALATION_QUEUE }),
+    TimelineModule,
+  ],
+  controllers: [EmergencyController, EscalationPolicyController, EmergencyShareController],
+  providers: [
+    EmergencyService,
+    EmergencyEscalationService,
+    EmergencyEscalationProcessor,
+    EmergencyShareService,
+    EmergencyIncidentService,
+  ],
   exports: [EmergencyService],
 })
 export class EmergencyModule {}
@@ -1,8 +1,10 @@
-import { Injectable, NotFoundException, ForbiddenException, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CacheService, CACHE_KEYS, CACHE_TTL } from '../system/module/cache';
 import { CreateEmergencyAlertDto } from './dto/create-emergency-alert.dto';
 import { NotificationsService } from '../notifications/notifications.service';
+import { EmergencyEscalationService } from './emergency-escalation.service';
+import { EmergencyIncidentService } from './emergency-incident.service';
 
 @Injectable()
 export class EmergencyService {
@@ -11,6 +13,8 @@ export class EmergencyService {
     private cacheService: CacheService,
     @Inject(forwardRef(() => NotificationsService))
     private notifications: NotificationsService,
+    private escalationService: EmergencyEscalationService,
+    private incidentService: EmergencyIncidentService,
   ) {}
 
   private async verifyAccess(careRecipientId: string, userId: string) {
@@ -36,6 +40,14 @@ export class EmergencyService {
   async getEmergencyInfo(careRecipientId: string, userId: string) {
     await this.verifyAccess(careRecipientId, userId);
 
+    return this.loadEmergencyInfo(careRecipientId);
+  }
+
+  /**
+   * Cached emergency info without an access check, for callers that have
+   * already authorised the request (e.g. a public share link)
+   */
+  loadEmergencyInfo(careRecipientId: string) {
     const cacheKey = CACHE_KEYS.EMERGENCY_INFO(careRecipientId);
 
     return this.cacheService.getOrSet(
@@ -156,6 +168,9 @@ export class EmergencyService {
       alert,
     );
 
+    // Nobody has acknowledged yet: queue the family's escalation ladder
+    await this.escalationService.schedule(alert, careRecipient.familyId);
+
     return alert;
   }
 
@@ -187,10 +202,11 @@ export class EmergencyService {
 
     await this.verifyAccess(alert.careRecipientId, userId);
 
-    return this.prisma.emergencyAlert.update({
-      where: { id: alertId },
-      data: { status: 'ACKNOWLEDGED' },
-    });
+    if (alert.status !== 'ACTIVE') {
+      throw new BadRequestException('Only active alerts can be acknowledged');
+    }
+
+    return this.incidentService.acknowledge(alert, userId);
   }
 
   async resolveAlert(alertId: string, userId: string, resolutionNotes?: string) {
@@ -208,15 +224,11 @@ export class EmergencyService {
       throw new ForbiddenException('Viewers cannot resolve alerts');
     }
 
-    return this.prisma.emergencyAlert.update({
-      where: { id: alertId },
-      data: {
-        status: 'RESOLVED',
-        resolvedAt: new Date(),
-        resolvedById: userId,
-        resolutionNotes,
-      },
-    });
+    if (alert.status === 'RESOLVED') {
+      throw new BadRequestException('This alert has already been resolved');
+    }
+
+    return this.incidentService.resolve(alert, userId, resolutionNotes);
   }
 
   async getAlertHistory(careRecipientId: string, userId: string, limit: number = 20) {
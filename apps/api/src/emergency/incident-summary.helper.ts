@@ -0,0 +1,107 @@
+import { EmergencyAlert, EmergencyAlertUpdate, EmergencyType } from '@prisma/client';
+import { differenceInMinutes } from 'date-fns';
+import { DateHelper } from '../system/helper/date.helper';
+import { EscalationAudience } from './dto/escalation-policy.dto';
+import { EscalationRecord } from './emergency-escalation.service';
+
+export type IncidentAlert = EmergencyAlert & { createdBy: { fullName: string } };
+
+export type IncidentUpdate = EmergencyAlertUpdate & { author: { fullName: string } };
+
+const TYPE_LABELS: Record<EmergencyType, string> = {
+  FALL: 'Fall',
+  MEDICAL: 'Medical',
+  HOSPITALIZATION: 'Hospitalization',
+  MISSING: 'Missing person',
+  OTHER: 'Emergency',
+};
+
+const AUDIENCE_LABELS: Record<EscalationAudience, string> = {
+  [EscalationAudience.ALL_MEMBERS]: 'everyone in the family',
+  [EscalationAudience.ADMINS]: 'family admins',
+  [EscalationAudience.EMERGENCY_CONTACTS]: 'emergency contacts',
+};
+
+/**
+ * Turns a resolved alert and its incident thread into the text of the
+ * INCIDENT timeline entry, so the family has a record of who did what and
+ * when without scrolling the thread.
+ */
+export class IncidentSummaryHelper {
+  static title(alert: IncidentAlert): string {
+    return `${TYPE_LABELS[alert.type]} emergency: ${alert.title}`;
+  }
+
+  static describe(
+    alert: IncidentAlert,
+    updates: IncidentUpdate[],
+    escalations: EscalationRecord[],
+    timezone: string,
+  ): string {
+    const time = (date: Date) => DateHelper.format(date, DateHelper.DISPLAY_TIME_FORMAT, timezone);
+    const since = (date: Date) => this.duration(differenceInMinutes(date, alert.createdAt));
+
+    const events: { at: Date; text: string }[] = [
+      ...escalations.map((record) => ({
+        at: new Date(record.escalatedAt),
+        text: `Escalated to ${AUDIENCE_LABELS[record.audience]} (no one had acknowledged after ${record.afterMinutes} min)`,
+      })),
+      ...updates.map((update) => ({ at: update.createdAt, text: this.describeUpdate(update, since) })),
+    ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    const lines = [
+      `Raised by ${alert.createdBy.fullName} at ${time(alert.createdAt)} on ${DateHelper.format(alert.createdAt, DateHelper.DISPLAY_DATE_FORMAT, timezone)}` +
+        (alert.location ? ` (${alert.location})` : '') +
+        '.',
+      alert.description,
+    ];
+
+    if (events.length > 0) {
+      lines.push('', ...events.map((event) => `• ${time(event.at)} ${event.text}`));
+    }
+
+    const photos = updates.filter((update) => update.photoUrl).length;
+    const footer = [
+      alert.resolvedAt && `Open for ${since(alert.resolvedAt)}.`,
+      alert.hospitalName && `Hospital: ${alert.hospitalName}.`,
+      photos > 0 && `${photos} photo${photos === 1 ? '' : 's'} attached.`,
+    ].filter(Boolean);
+
+    if (footer.length > 0) {
+      lines.push('', footer.join(' '));
+    }
+
+    if (alert.resolutionNotes) {
+      lines.push('', `Resolution notes: ${alert.resolutionNotes}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static describeUpdate(update: IncidentUpdate, since: (date: Date) => string): string {
+    const name = update.author.fullName;
+
+    switch (update.type) {
+      case 'RESPONDING':
+        return `${name} is on the way` + (update.etaMinutes !== null ? ` (ETA ${this.duration(update.etaMinutes)})` : '') +
+          (update.message ? `: ${update.message}` : '');
+      case 'HOSPITAL':
+        return `Going to ${update.hospitalName}` + (update.hospitalAddress ? `, ${update.hospitalAddress}` : '') +
+          ` (${name})`;
+      case 'PHOTO':
+        return `${name} added a photo` + (update.message ? `: ${update.message}` : '');
+      case 'ACKNOWLEDGED':
+        return `${name} acknowledged, ${since(update.createdAt)} after the alert`;
+      case 'RESOLVED':
+        return `Resolved by ${name}`;
+      default:
+        return `${name}: ${update.message}`;
+    }
+  }
+
+  private static duration(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+  }
+}
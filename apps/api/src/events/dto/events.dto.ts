@@ -87,6 +87,23 @@ export interface MedicationRefillPayload {
   careRecipientName: string;
 }
 
+export interface MedicationPrnLimitExceededPayload {
+  medicationId: string;
+  medicationName: string;
+  careRecipientId: string;
+  careRecipientName: string;
+  familyId: string;
+  attemptedById: string;
+  attemptedAt: string;
+  violations: Array<{
+    type: 'MIN_INTERVAL' | 'MAX_DOSES' | 'MAX_MG';
+    message: string;
+    limit: number;
+    current: number;
+  }>;
+  nextDoseAllowedAt: string | null;
+}
+
 // ============================================================================
 // APPOINTMENT EVENTS
 // ============================================================================
@@ -349,6 +366,7 @@ export type MedicationCreatedEvent = BaseEvent<MedicationCreatedPayload>;
 export type MedicationLoggedEvent = BaseEvent<MedicationLoggedPayload>;
 export type MedicationDueEvent = BaseEvent<MedicationDuePayload>;
 export type MedicationRefillEvent = BaseEvent<MedicationRefillPayload>;
+export type MedicationPrnLimitExceededEvent = BaseEvent<MedicationPrnLimitExceededPayload>;
 
 export type AppointmentCreatedEvent = BaseEvent<AppointmentCreatedPayload>;
 export type AppointmentReminderEvent = BaseEvent<AppointmentReminderPayload>;
@@ -52,6 +52,7 @@ export const ROUTING_KEYS = {
   MEDICATION_MISSED: 'medication.missed',
   MEDICATION_DUE: 'medication.due',
   MEDICATION_REFILL_NEEDED: 'medication.refill_needed',
+  MEDICATION_PRN_LIMIT_EXCEEDED: 'medication.prn_limit_exceeded',
 
   // Appointment events
   APPOINTMENT_CREATED: 'appointment.created',
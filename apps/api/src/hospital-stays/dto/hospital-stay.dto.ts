@@ -0,0 +1,104 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+
+export class AdmitHospitalStayDto {
+  @ApiProperty({ example: 'St. Mary Medical Center' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  facility: string;
+
+  @ApiPropertyOptional({ example: 'Cardiology' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  ward?: string;
+
+  @ApiPropertyOptional({ example: '4B-12' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  room?: string;
+
+  @ApiProperty({ example: 'Chest pain, under observation' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+
+  @ApiPropertyOptional({ example: 'Dr. Patel' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  attendingDoctor?: string;
+
+  @ApiPropertyOptional({ description: 'When they were admitted; defaults to now' })
+  @IsDateString()
+  @IsOptional()
+  admittedAt?: string;
+}
+
+export class UpdateHospitalStayDto extends PartialType(AdmitHospitalStayDto) {}
+
+export class DischargeHospitalStayDto {
+  @ApiPropertyOptional({ description: 'When they were discharged; defaults to now' })
+  @IsDateString()
+  @IsOptional()
+  dischargedAt?: string;
+
+  @ApiPropertyOptional({ example: 'No lifting for two weeks. Follow up with cardiology in 7 days.' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10000)
+  dischargeInstructions?: string;
+}
+
+export enum ReconciliationDecision {
+  CONTINUE = 'CONTINUE',
+  CHANGE = 'CHANGE',
+  STOP = 'STOP',
+}
+
+export class MedicationReconciliationItemDto {
+  @ApiProperty({ description: 'Medication from the pre-admission list' })
+  @IsUUID()
+  medicationId: string;
+
+  @ApiProperty({ enum: ReconciliationDecision, example: 'CONTINUE' })
+  @IsEnum(ReconciliationDecision)
+  decision: ReconciliationDecision;
+
+  @ApiPropertyOptional({ description: 'New dosage for CHANGE', example: '25mg' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  dosage?: string;
+
+  @ApiPropertyOptional({ description: 'New instructions for CHANGE', example: 'Take with food' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  instructions?: string;
+}
+
+export class ReconcileMedicationsDto {
+  @ApiProperty({ type: [MedicationReconciliationItemDto] })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => MedicationReconciliationItemDto)
+  items: MedicationReconciliationItemDto[];
+}
@@ -0,0 +1 @@
+export * from './hospital-stay.dto';
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { HospitalStaysService } from './hospital-stays.service';
+import {
+  AdmitHospitalStayDto,
+  DischargeHospitalStayDto,
+  ReconcileMedicationsDto,
+  UpdateHospitalStayDto,
+} from './dto';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+interface CurrentUserPayload {
+  id: string;
+  email: string;
+}
+
+@ApiTags('Hospital Stays')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/hospital-stays')
+export class HospitalStaysController {
+  constructor(private readonly hospitalStaysService: HospitalStaysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get hospital stays, most recent first' })
+  getStays(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.hospitalStaysService.getStays(careRecipientId, user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Record a hospital admission (pauses reminders and home shifts)' })
+  admit(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: AdmitHospitalStayDto,
+  ) {
+    return this.hospitalStaysService.admit(careRecipientId, user.id, dto);
+  }
+
+  @Get(':stayId')
+  @ApiOperation({ summary: 'Get a hospital stay' })
+  getStay(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('stayId', ParseUUIDPipe) stayId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.hospitalStaysService.getStay(careRecipientId, stayId, user.id);
+  }
+
+  @Patch(':stayId')
+  @ApiOperation({ summary: 'Update admission details' })
+  update(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('stayId', ParseUUIDPipe) stayId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateHospitalStayDto,
+  ) {
+    return this.hospitalStaysService.update(careRecipientId, stayId, user.id, dto);
+  }
+
+  @Post(':stayId/discharge')
+  @ApiOperation({ summary: 'Record discharge; returns the medication reconciliation to review' })
+  discharge(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('stayId', ParseUUIDPipe) stayId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: DischargeHospitalStayDto,
+  ) {
+    return this.hospitalStaysService.discharge(careRecipientId, stayId, user.id, dto);
+  }
+
+  @Get(':stayId/reconciliation')
+  @ApiOperation({ summary: 'Compare the pre-admission medication list with the current one' })
+  getReconciliation(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('stayId', ParseUUIDPipe) stayId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.hospitalStaysService.getReconciliation(careRecipientId, stayId, user.id);
+  }
+
+  @Post(':stayId/reconciliation')
+  @ApiOperation({ summary: 'Continue, change or stop each pre-admission medication' })
+  reconcile(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('stayId', ParseUUIDPipe) stayId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ReconcileMedicationsDto,
+  ) {
+    return this.hospitalStaysService.reconcile(careRecipientId, stayId, user.id, dto);
+  }
+}
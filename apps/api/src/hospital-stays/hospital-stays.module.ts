@@ -0,0 +1,13 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { HospitalStaysService } from './hospital-stays.service';
+import { HospitalStaysController } from './hospital-stays.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { MedicationsModule } from '../medications/medications.module';
+import { TimelineModule } from '../timeline/timeline.module';
+
+@Module({
+  imports: [forwardRef(() => NotificationsModule), MedicationsModule, TimelineModule],
+  controllers: [HospitalStaysController],
+  providers: [HospitalStaysService],
+})
+export class HospitalStaysModule {}
@@ -0,0 +1,386 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { HospitalStay, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { MedicationsService } from '../medications/medications.service';
+import { TimelineService } from '../timeline/timeline.service';
+import {
+  AdmitHospitalStayDto,
+  DischargeHospitalStayDto,
+  ReconcileMedicationsDto,
+  ReconciliationDecision,
+  UpdateHospitalStayDto,
+} from './dto';
+
+const STAY_INCLUDE = {
+  recordedBy: { select: { id: true, fullName: true } },
+  dischargedBy: { select: { id: true, fullName: true } },
+  reconciledBy: { select: { id: true, fullName: true } },
+} satisfies Prisma.HospitalStayInclude;
+
+/** One active medication as it stood at admission */
+export interface MedicationSnapshotItem {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  instructions: string | null;
+}
+
+export interface ReconciliationRecord {
+  medicationId: string;
+  name: string;
+  decision: ReconciliationDecision;
+  dosage: string | null;
+  instructions: string | null;
+}
+
+/**
+ * Hospital admissions for a care recipient. An open stay (no dischargedAt)
+ * pauses medication and shift reminders, shift series and coverage gaps;
+ * discharge leaves the pre-admission medication list to be reconciled.
+ */
+@Injectable()
+export class HospitalStaysService {
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+    private medicationsService: MedicationsService,
+    private timelineService: TimelineService,
+  ) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  private async findStay(careRecipientId: string, stayId: string, userId: string, forEdit = false) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (forEdit && membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot manage hospital stays');
+    }
+
+    const stay = await this.prisma.hospitalStay.findFirst({
+      where: { id: stayId, careRecipientId },
+    });
+
+    if (!stay) {
+      throw new NotFoundException('Hospital stay not found');
+    }
+
+    return { stay, careRecipient };
+  }
+
+  async getStays(careRecipientId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    return this.prisma.hospitalStay.findMany({
+      where: { careRecipientId },
+      include: STAY_INCLUDE,
+      orderBy: { admittedAt: 'desc' },
+    });
+  }
+
+  async getStay(careRecipientId: string, stayId: string, userId: string) {
+    await this.findStay(careRecipientId, stayId, userId);
+
+    return this.prisma.hospitalStay.findUnique({
+      where: { id: stayId },
+      include: STAY_INCLUDE,
+    });
+  }
+
+  async admit(careRecipientId: string, userId: string, dto: AdmitHospitalStayDto) {
+    const { careRecipient, membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot manage hospital stays');
+    }
+
+    const open = await this.prisma.hospitalStay.findFirst({
+      where: { careRecipientId, dischargedAt: null },
+    });
+
+    if (open) {
+      throw new ConflictException(`${careRecipient.fullName} is already admitted to ${open.facility}`);
+    }
+
+    const admittedAt = dto.admittedAt ? new Date(dto.admittedAt) : new Date();
+
+    if (admittedAt > new Date()) {
+      throw new BadRequestException('Admission time cannot be in the future');
+    }
+
+    const medications = await this.prisma.medication.findMany({
+      where: { careRecipientId, isActive: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const snapshot: MedicationSnapshotItem[] = medications.map((med) => ({
+      medicationId: med.id,
+      name: med.name,
+      dosage: med.dosage,
+      frequency: med.frequency,
+      instructions: med.instructions,
+    }));
+
+    let stay;
+    try {
+      stay = await this.prisma.hospitalStay.create({
+        data: {
+          careRecipientId,
+          recordedById: userId,
+          facility: dto.facility.trim(),
+          ward: dto.ward?.trim() || null,
+          room: dto.room?.trim() || null,
+          reason: dto.reason.trim(),
+          attendingDoctor: dto.attendingDoctor?.trim() || null,
+          admittedAt,
+          medicationSnapshot: snapshot as unknown as Prisma.InputJsonArray,
+        },
+        include: STAY_INCLUDE,
+      });
+    } catch (error) {
+      // The open-stay unique index catches an admit that raced the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`${careRecipient.fullName} is already admitted to a hospital`);
+      }
+      throw error;
+    }
+
+    await this.notifications.notifyHospitalStay(careRecipient, stay, 'admitted', userId);
+
+    return stay;
+  }
+
+  async update(careRecipientId: string, stayId: string, userId: string, dto: UpdateHospitalStayDto) {
+    const { stay } = await this.findStay(careRecipientId, stayId, userId, true);
+
+    const admittedAt = dto.admittedAt ? new Date(dto.admittedAt) : undefined;
+
+    if (admittedAt && (admittedAt > new Date() || (stay.dischargedAt && admittedAt > stay.dischargedAt))) {
+      throw new BadRequestException('Admission time must be in the past and before discharge');
+    }
+
+    return this.prisma.hospitalStay.update({
+      where: { id: stayId },
+      data: {
+        ...(dto.facility !== undefined && { facility: dto.facility.trim() }),
+        ...(dto.ward !== undefined && { ward: dto.ward.trim() || null }),
+        ...(dto.room !== undefined && { room: dto.room.trim() || null }),
+        ...(dto.reason !== undefined && { reason: dto.reason.trim() }),
+        ...(dto.attendingDoctor !== undefined && { attendingDoctor: dto.attendingDoctor.trim() || null }),
+        ...(admittedAt && { admittedAt }),
+      },
+      include: STAY_INCLUDE,
+    });
+  }
+
+  /**
+   * End the stay. Reminders pick up again on the next scheduler run; the
+   * response carries the reconciliation so the client can prompt for it.
+   */
+  async discharge(careRecipientId: string, stayId: string, userId: string, dto: DischargeHospitalStayDto) {
+    const { stay, careRecipient } = await this.findStay(careRecipientId, stayId, userId, true);
+
+    if (stay.dischargedAt) {
+      throw new BadRequestException('This stay has already been discharged');
+    }
+
+    const dischargedAt = dto.dischargedAt ? new Date(dto.dischargedAt) : new Date();
+
+    if (dischargedAt > new Date() || dischargedAt < stay.admittedAt) {
+      throw new BadRequestException('Discharge time must be in the past and after admission');
+    }
+
+    const discharged = await this.prisma.hospitalStay.update({
+      where: { id: stayId },
+      data: {
+        dischargedAt,
+        dischargedById: userId,
+        dischargeInstructions: dto.dischargeInstructions?.trim() || null,
+      },
+      include: STAY_INCLUDE,
+    });
+
+    await this.notifications.notifyHospitalStay(careRecipient, discharged, 'discharged', userId);
+
+    return { ...discharged, medicationReconciliation: await this.compare(discharged) };
+  }
+
+  /**
+   * The pre-admission list next to the current one, plus anything started
+   * since admission, for the discharge review
+   */
+  async getReconciliation(careRecipientId: string, stayId: string, userId: string) {
+    const { stay } = await this.findStay(careRecipientId, stayId, userId);
+
+    return this.compare(stay);
+  }
+
+  async reconcile(careRecipientId: string, stayId: string, userId: string, dto: ReconcileMedicationsDto) {
+    const { stay } = await this.findStay(careRecipientId, stayId, userId, true);
+
+    if (!stay.dischargedAt) {
+      throw new BadRequestException('Medications are reconciled after discharge');
+    }
+
+    if (stay.reconciledAt) {
+      throw new ConflictException('Medications for this stay have already been reconciled');
+    }
+
+    const snapshot = this.parseSnapshot(stay.medicationSnapshot);
+    const { medications } = await this.compare(stay);
+    const pending = medications.filter((row) => row.current);
+    const decisions = new Map(dto.items.map((item) => [item.medicationId, item]));
+
+    const unknown = dto.items.find((item) => !snapshot.some((s) => s.medicationId === item.medicationId));
+    if (unknown) {
+      throw new BadRequestException('Only medications from before the admission can be reconciled here');
+    }
+
+    const missing = pending.filter((row) => !decisions.has(row.medicationId));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Decide on every medication first: ${missing.map((row) => row.name).join(', ')}`);
+    }
+
+    const vague = pending.find((row) => {
+      const item = decisions.get(row.medicationId)!;
+      return item.decision === ReconciliationDecision.CHANGE && !item.dosage && item.instructions === undefined;
+    });
+    if (vague) {
+      throw new BadRequestException(`Give a new dosage or instructions for ${vague.name}`);
+    }
+
+    const records: ReconciliationRecord[] = pending.map((row) => {
+      const item = decisions.get(row.medicationId)!;
+      return {
+        medicationId: row.medicationId,
+        name: row.name,
+        decision: item.decision,
+        dosage: item.dosage || null,
+        instructions: item.instructions ?? null,
+      };
+    });
+
+    // Claim the reconciliation before touching any medication, so a second
+    // concurrent submit can't apply its decisions as well
+    const { count } = await this.prisma.hospitalStay.updateMany({
+      where: { id: stayId, reconciledAt: null },
+      data: {
+        reconciliation: records as unknown as Prisma.InputJsonArray,
+        reconciledAt: new Date(),
+        reconciledById: userId,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Medications for this stay have already been reconciled');
+    }
+
+    try {
+      for (const row of pending) {
+        const item = decisions.get(row.medicationId)!;
+
+        if (item.decision === ReconciliationDecision.STOP && row.current!.isActive) {
+          await this.medicationsService.deactivate(row.medicationId, userId);
+        } else if (item.decision === ReconciliationDecision.CHANGE) {
+          await this.medicationsService.update(row.medicationId, userId, {
+            dosage: item.dosage || undefined,
+            instructions: item.instructions,
+          });
+        }
+      }
+    } catch (error) {
+      // Release the claim so the review can be submitted again
+      await this.prisma.hospitalStay.update({
+        where: { id: stayId },
+        data: { reconciliation: Prisma.DbNull, reconciledAt: null, reconciledById: null },
+      });
+      throw error;
+    }
+
+    const reconciled = await this.prisma.hospitalStay.findUniqueOrThrow({
+      where: { id: stayId },
+      include: STAY_INCLUDE,
+    });
+
+    const changed = records.filter((record) => record.decision !== ReconciliationDecision.CONTINUE);
+
+    if (changed.length > 0) {
+      await this.timelineService.create(careRecipientId, userId, {
+        type: 'MEDICATION_CHANGE',
+        title: `Medications reviewed after discharge from ${stay.facility}`,
+        description: changed
+          .map((record) =>
+            record.decision === ReconciliationDecision.STOP
+              ? `Stopped ${record.name}`
+              : `Changed ${record.name}${record.dosage ? ` to ${record.dosage}` : ''}${record.instructions ? ` (${record.instructions})` : ''}`,
+          )
+          .join('\n'),
+        severity: 'LOW',
+      });
+    }
+
+    return reconciled;
+  }
+
+  private async compare(stay: HospitalStay) {
+    const snapshot = this.parseSnapshot(stay.medicationSnapshot);
+
+    const [current, started] = await Promise.all([
+      this.prisma.medication.findMany({
+        where: { id: { in: snapshot.map((item) => item.medicationId) } },
+        select: { id: true, dosage: true, instructions: true, isActive: true },
+      }),
+      this.prisma.medication.findMany({
+        where: {
+          careRecipientId: stay.careRecipientId,
+          isActive: true,
+          createdAt: { gte: stay.admittedAt },
+          id: { notIn: snapshot.map((item) => item.medicationId) },
+        },
+        select: { id: true, name: true, dosage: true, frequency: true, instructions: true },
+        orderBy: { name: 'asc' },
+      }),
+    ]);
+
+    const byId = new Map(current.map((med) => [med.id, med]));
+
+    return {
+      reconciled: !!stay.reconciledAt,
+      // current is null when the medication has since been deleted
+      medications: snapshot.map((item) => ({ ...item, current: byId.get(item.medicationId) || null })),
+      startedSinceAdmission: started,
+    };
+  }
+
+  private parseSnapshot(value: Prisma.JsonValue): MedicationSnapshotItem[] {
+    return Array.isArray(value) ? (value as unknown as MedicationSnapshotItem[]) : [];
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Drug name normalization shared by the interaction providers and importer.
+ */
+export class DrugNameHelper {
+  /**
+   * Lowercase and strip everything but letters and digits ("Vitamin K" -> "vitamink")
+   */
+  static normalize(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '')
+      .trim();
+  }
+
+  /**
+   * Lookup candidates for a raw name, most specific first. The first word
+   * drops salt forms and strengths ("Warfarin Sodium 5mg" -> "warfarin").
+   */
+  static candidates(name: string): string[] {
+    const firstWord = name.trim().split(/\s+/)[0] || '';
+    return [...new Set([this.normalize(name), this.normalize(firstWord)])].filter(Boolean);
+  }
+
+  /**
+   * Order a pair so drug1 < drug2, matching how dataset rows are stored
+   */
+  static orderPair(drug1: string, drug2: string): [string, string] {
+    return drug1 <= drug2 ? [drug1, drug2] : [drug2, drug1];
+  }
+}
@@ -1,7 +1,8 @@
-import { IsString, IsNotEmpty, IsEnum, IsArray, IsOptional, IsInt, IsDateString, Min } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { IsString, IsNotEmpty, IsEnum, IsArray, IsOptional, IsInt, IsNumber, IsDateString, Min, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { MedicationForm, MedicationFrequency } from '@prisma/client';
+import { SchedulePhaseDto } from './schedule-phase.dto';
 
 // ─── Normalize helpers ────────────────────────────────────────────────────────
 // The frontend <select> can send labels ("Twice daily"), lowercase ("capsule"),
@@ -107,6 +108,16 @@ export class CreateMedicationDto {
   @IsOptional()
   scheduledTimes?: string[];
 
+  @ApiPropertyOptional({
+    description: 'Dosing phases for tapers, interval dosing and on/off cycles. Replaces scheduledTimes when set.',
+    type: [SchedulePhaseDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SchedulePhaseDto)
+  @IsOptional()
+  schedulePhases?: SchedulePhaseDto[];
+
   @ApiPropertyOptional({ description: 'Special instructions', example: 'Take with food' })
   @IsString()
   @IsOptional()
@@ -139,6 +150,30 @@ export class CreateMedicationDto {
   @Min(0)
   refillAt?: number;
 
+  @ApiPropertyOptional({ description: 'Strength of one unit in mg (parsed from dosage if omitted)', example: 500 })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  doseMg?: number;
+
+  @ApiPropertyOptional({ description: 'PRN: minimum hours between doses', example: 4 })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  prnMinIntervalHours?: number;
+
+  @ApiPropertyOptional({ description: 'PRN: maximum doses in any 24h window', example: 6, minimum: 1 })
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  prnMaxDosesPer24h?: number;
+
+  @ApiPropertyOptional({ description: 'PRN: maximum mg in any 24h window', example: 3000 })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  prnMaxMgPer24h?: number;
+
   @ApiPropertyOptional({ description: 'When to start medication', example: '2024-03-01' })
   @IsDateString()
   @IsOptional()
@@ -0,0 +1,111 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const SEVERITIES = ['minor', 'moderate', 'major', 'contraindicated', 'MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED'];
+
+export class DrugInteractionRowDto {
+  @ApiProperty({ example: 'warfarin' })
+  @IsString()
+  @IsNotEmpty()
+  drug1: string;
+
+  @ApiProperty({ example: 'aspirin' })
+  @IsString()
+  @IsNotEmpty()
+  drug2: string;
+
+  @ApiProperty({ enum: ['minor', 'moderate', 'major', 'contraindicated'], example: 'major' })
+  @IsIn(SEVERITIES)
+  severity: string;
+
+  @ApiProperty({ example: 'Increased risk of bleeding when used together.' })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  mechanism?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  clinicalEffects?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  management?: string;
+
+  @ApiPropertyOptional({ description: 'Identifier in the source dataset', example: 'DDI-00123' })
+  @IsString()
+  @IsOptional()
+  externalId?: string;
+}
+
+export class DrugAliasRowDto {
+  @ApiProperty({ description: 'Brand or alternate name', example: 'Coumadin' })
+  @IsString()
+  @IsNotEmpty()
+  alias: string;
+
+  @ApiProperty({ example: 'warfarin' })
+  @IsString()
+  @IsNotEmpty()
+  genericName: string;
+}
+
+export class ImportInteractionDatasetDto {
+  @ApiProperty({ description: 'Unique dataset version', example: 'drugbank-2024-06' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  version: string;
+
+  @ApiProperty({ description: 'Where the data came from', example: 'drugbank' })
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @ApiPropertyOptional({ type: [DrugInteractionRowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DrugInteractionRowDto)
+  @IsOptional()
+  interactions?: DrugInteractionRowDto[];
+
+  @ApiPropertyOptional({
+    description: 'CSV alternative to interactions. Header: drug1,drug2,severity,description[,mechanism,clinicalEffects,management,externalId]',
+  })
+  @IsString()
+  @IsOptional()
+  interactionsCsv?: string;
+
+  @ApiPropertyOptional({ type: [DrugAliasRowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DrugAliasRowDto)
+  @IsOptional()
+  aliases?: DrugAliasRowDto[];
+
+  @ApiPropertyOptional({ description: 'CSV alternative to aliases. Header: alias,genericName' })
+  @IsString()
+  @IsOptional()
+  aliasesCsv?: string;
+
+  @ApiPropertyOptional({ description: 'Make this the active dataset once imported', default: true })
+  @IsBoolean()
+  @IsOptional()
+  activate?: boolean;
+}
@@ -1,4 +1,6 @@
 export * from './create-medication.dto';
 export * from './update-medication.dto';
 export * from './log-medication.dto';
-
+export * from './schedule-phase.dto';
+export * from './import-interaction-dataset.dto';
+export * from './medication-refill.dto';
@@ -0,0 +1,38 @@
+import { IsString, IsOptional, IsInt, IsDateString, IsEnum, IsUUID, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MedicationRefillStatus } from '@prisma/client';
+
+export class CreateMedicationRefillDto {
+  @ApiPropertyOptional({ description: 'Units expected from the pharmacy', example: 30, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number;
+
+  @ApiPropertyOptional({ description: 'Defaults to the medication pharmacy', example: 'CVS Main St' })
+  @IsString()
+  @IsOptional()
+  pharmacy?: string;
+
+  @ApiPropertyOptional({ description: 'Family member who will pick it up' })
+  @IsUUID()
+  @IsOptional()
+  assignedToId?: string;
+
+  @ApiPropertyOptional({ description: 'When the pickup should happen by', example: '2024-03-05T17:00:00.000Z' })
+  @IsDateString()
+  @IsOptional()
+  pickupDueAt?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
+
+export class UpdateMedicationRefillDto extends CreateMedicationRefillDto {
+  @ApiPropertyOptional({ enum: MedicationRefillStatus, example: MedicationRefillStatus.READY_FOR_PICKUP })
+  @IsEnum(MedicationRefillStatus)
+  @IsOptional()
+  status?: MedicationRefillStatus;
+}
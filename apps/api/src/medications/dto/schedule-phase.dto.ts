@@ -0,0 +1,55 @@
+import { IsString, IsNotEmpty, IsArray, IsOptional, IsInt, IsDateString, Min, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SchedulePhaseDto {
+  @ApiProperty({ description: 'When this phase starts', example: '2024-03-01T08:00:00.000Z' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({ description: 'When this phase ends (exclusive)', example: '2024-03-06T00:00:00.000Z' })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'RRULE without DTSTART, anchored at startDate',
+    example: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^(RRULE:)?FREQ=/i, { message: 'recurrenceRule must be an RRULE starting with FREQ=' })
+  recurrenceRule: string;
+
+  @ApiPropertyOptional({
+    description: 'Times of day for day-level rules (ignored for hourly rules)',
+    example: ['08:00', '20:00'],
+    type: [String],
+  })
+  @IsArray()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { each: true, message: 'times must be in HH:mm format' })
+  @IsOptional()
+  times?: string[];
+
+  @ApiPropertyOptional({ description: 'Dosage for this phase', example: '30mg' })
+  @IsString()
+  @IsOptional()
+  dosage?: string;
+
+  @ApiPropertyOptional({ description: 'Units taken from supply per dose', example: 2, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  doseQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'Days on in an on/off cycle', example: 21, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  cycleDaysOn?: number;
+
+  @ApiPropertyOptional({ description: 'Days off in an on/off cycle', example: 7, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  cycleDaysOff?: number;
+}
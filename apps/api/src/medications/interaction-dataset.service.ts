@@ -0,0 +1,249 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { InteractionSeverity } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService, CACHE_KEYS } from '../system/module/cache';
+import { DrugNameHelper } from './drug-name.helper';
+import { DrugAliasRowDto, DrugInteractionRowDto, ImportInteractionDatasetDto } from './dto/import-interaction-dataset.dto';
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  CONTRAINDICATED: 3,
+  MAJOR: 2,
+  MODERATE: 1,
+  MINOR: 0,
+};
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Imports and activates drug interaction datasets used by DatasetInteractionProvider.
+ *
+ * Datasets are immutable once imported; a correction is a new version.
+ */
+@Injectable()
+export class InteractionDatasetService {
+  private readonly logger = new Logger(InteractionDatasetService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+  ) {}
+
+  async listDatasets() {
+    return this.prisma.drugInteractionDataset.findMany({
+      orderBy: { importedAt: 'desc' },
+    });
+  }
+
+  async importDataset(dto: ImportInteractionDatasetDto, userId: string) {
+    const existing = await this.prisma.drugInteractionDataset.findUnique({
+      where: { version: dto.version },
+    });
+
+    if (existing) {
+      throw new ConflictException(`Dataset version ${dto.version} already exists`);
+    }
+
+    const aliasRows = [...(dto.aliases || []), ...this.parseAliasCsv(dto.aliasesCsv)];
+    const interactionRows = [...(dto.interactions || []), ...this.parseInteractionCsv(dto.interactionsCsv)];
+
+    if (interactionRows.length === 0) {
+      throw new BadRequestException('Dataset must contain at least one interaction');
+    }
+
+    // Aliases first, so interaction rows written with brand names land on generics
+    const aliases = new Map<string, string>();
+    for (const row of aliasRows) {
+      const alias = DrugNameHelper.normalize(row.alias);
+      const genericName = DrugNameHelper.normalize(row.genericName);
+      if (alias && genericName && alias !== genericName) {
+        aliases.set(alias, genericName);
+      }
+    }
+
+    const toGeneric = (name: string) => {
+      const normalized = DrugNameHelper.normalize(name);
+      return aliases.get(normalized) || normalized;
+    };
+
+    // One row per pair; keep the most severe when the source lists a pair twice
+    const records = new Map<string, Omit<DrugInteractionRowDto, 'severity'> & { severity: InteractionSeverity }>();
+    for (const row of interactionRows) {
+      const [drug1, drug2] = DrugNameHelper.orderPair(toGeneric(row.drug1), toGeneric(row.drug2));
+      if (!drug1 || !drug2 || drug1 === drug2) {
+        continue;
+      }
+
+      const severity = row.severity.toUpperCase() as InteractionSeverity;
+      const key = `${drug1}|${drug2}`;
+      const current = records.get(key);
+      if (!current || SEVERITY_RANK[severity] > SEVERITY_RANK[current.severity]) {
+        records.set(key, { ...row, drug1, drug2, severity });
+      }
+    }
+
+    const dataset = await this.prisma.$transaction(
+      async (tx) => {
+        const created = await tx.drugInteractionDataset.create({
+          data: {
+            version: dto.version,
+            source: dto.source,
+            interactionCount: records.size,
+            aliasCount: aliases.size,
+            importedById: userId,
+          },
+        });
+
+        const recordRows = [...records.values()].map((record) => ({
+          datasetId: created.id,
+          drug1: record.drug1,
+          drug2: record.drug2,
+          severity: record.severity,
+          description: record.description,
+          mechanism: record.mechanism || null,
+          clinicalEffects: record.clinicalEffects || null,
+          management: record.management || null,
+          externalId: record.externalId || null,
+        }));
+
+        for (let i = 0; i < recordRows.length; i += BATCH_SIZE) {
+          await tx.drugInteractionRecord.createMany({ data: recordRows.slice(i, i + BATCH_SIZE) });
+        }
+
+        const aliasData = [...aliases.entries()].map(([alias, genericName]) => ({
+          datasetId: created.id,
+          alias,
+          genericName,
+        }));
+
+        for (let i = 0; i < aliasData.length; i += BATCH_SIZE) {
+          await tx.drugNameAlias.createMany({ data: aliasData.slice(i, i + BATCH_SIZE) });
+        }
+
+        return created;
+      },
+      { timeout: 60000 },
+    );
+
+    this.logger.log(
+      `Imported interaction dataset ${dataset.version}: ${records.size} interactions, ${aliases.size} aliases`,
+    );
+
+    if (dto.activate !== false) {
+      return this.activateDataset(dataset.id);
+    }
+
+    return dataset;
+  }
+
+  async activateDataset(id: string) {
+    const dataset = await this.prisma.drugInteractionDataset.findUnique({ where: { id } });
+
+    if (!dataset) {
+      throw new NotFoundException('Interaction dataset not found');
+    }
+
+    const [, activated] = await this.prisma.$transaction([
+      this.prisma.drugInteractionDataset.updateMany({
+        where: { isActive: true, id: { not: id } },
+        data: { isActive: false },
+      }),
+      this.prisma.drugInteractionDataset.update({
+        where: { id },
+        data: { isActive: true },
+      }),
+    ]);
+
+    await this.cacheService.del(CACHE_KEYS.INTERACTION_DATASET_ACTIVE);
+
+    return activated;
+  }
+
+  private parseInteractionCsv(csv?: string): DrugInteractionRowDto[] {
+    return this.parseCsv(csv, ['drug1', 'drug2', 'severity', 'description']).map((row, index) => {
+      const severity = (row.severity || '').toUpperCase();
+      if (!(severity in SEVERITY_RANK)) {
+        throw new BadRequestException(`interactionsCsv row ${index + 2}: unknown severity "${row.severity}"`);
+      }
+
+      return {
+        drug1: row.drug1,
+        drug2: row.drug2,
+        severity,
+        description: row.description,
+        mechanism: row.mechanism,
+        clinicalEffects: row.clinicaleffects || row.clinical_effects,
+        management: row.management,
+        externalId: row.externalid || row.external_id,
+      };
+    });
+  }
+
+  private parseAliasCsv(csv?: string): DrugAliasRowDto[] {
+    return this.parseCsv(csv, ['alias', 'genericname']).map((row) => ({
+      alias: row.alias,
+      genericName: row.genericname,
+    }));
+  }
+
+  /**
+   * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF).
+   * Returns rows keyed by lowercased header.
+   */
+  private parseCsv(csv: string | undefined, required: string[]): Record<string, string>[] {
+    if (!csv?.trim()) {
+      return [];
+    }
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csv.length; i++) {
+      const char = csv[i];
+
+      if (inQuotes) {
+        if (char === '"' && csv[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && csv[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter((r) => r.some((value) => value.trim()));
+    const columns = header.map((column) => column.trim().toLowerCase());
+    const missing = required.filter((column) => !columns.includes(column));
+
+    if (missing.length > 0) {
+      throw new BadRequestException(`CSV is missing required columns: ${missing.join(', ')}`);
+    }
+
+    return body.map((values) =>
+      Object.fromEntries(columns.map((column, index) => [column, (values[index] || '').trim()])),
+    );
+  }
+}
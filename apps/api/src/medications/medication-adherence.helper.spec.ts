@@ -0,0 +1,130 @@
+import { Medication, MedicationLogStatus } from '@prisma/client';
+import { MedicationAdherenceHelper } from './medication-adherence.helper';
+
+const alice = { id: 'user-1', fullName: 'Alice' };
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: 'med-1',
+    careRecipientId: 'cr-1',
+    name: 'Lisinopril',
+    genericName: null,
+    dosage: '10mg',
+    form: 'TABLET',
+    instructions: null,
+    prescribedBy: null,
+    pharmacy: null,
+    pharmacyPhone: null,
+    frequency: 'TWICE_DAILY',
+    timesPerDay: 2,
+    scheduledTimes: ['08:00', '20:00'],
+    currentSupply: null,
+    refillAt: null,
+    lastRefillDate: null,
+    doseMg: null,
+    prnMinIntervalHours: null,
+    prnMaxDosesPer24h: null,
+    prnMaxMgPer24h: null,
+    isActive: true,
+    startDate: new Date(2024, 0, 1),
+    endDate: null,
+    notes: null,
+    createdAt: new Date(2024, 0, 1),
+    updatedAt: new Date(2024, 0, 1),
+    ...overrides,
+  };
+}
+
+function log(scheduledTime: Date, status: MedicationLogStatus, givenBy: typeof alice | null = null) {
+  return { medicationId: 'med-1', scheduledTime, status, givenBy };
+}
+
+describe('MedicationAdherenceHelper.buildReport', () => {
+  const from = new Date(2024, 2, 1);
+  const to = new Date(2024, 2, 3, 23, 59, 59, 999);
+  const now = new Date(2024, 2, 10);
+
+  it('counts a due dose with no log as missed', () => {
+    const logs = [
+      log(new Date(2024, 2, 1, 8, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 1, 20, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 2, 8, 0), 'SKIPPED', alice),
+    ];
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], logs, from, to, [], now);
+
+    expect(report.overall).toMatchObject({ scheduled: 6, given: 2, skipped: 1, missed: 3, adherencePercent: 33.3 });
+    expect(report.daily.map((day) => [day.date, day.given, day.missed])).toEqual([
+      ['2024-03-01', 2, 0],
+      ['2024-03-02', 0, 1],
+      ['2024-03-03', 0, 2],
+    ]);
+    expect(report.caregivers).toEqual([{ userId: 'user-1', fullName: 'Alice', given: 2, skipped: 1 }]);
+  });
+
+  it('lets a late GIVEN log win over a MISSED one', () => {
+    const logs = [log(new Date(2024, 2, 1, 8, 0), 'MISSED'), log(new Date(2024, 2, 1, 8, 0), 'GIVEN', alice)];
+    const noon = new Date(2024, 2, 1, 12, 0);
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], logs, from, noon, [], now);
+
+    expect(report.overall).toMatchObject({ scheduled: 1, given: 1, missed: 0 });
+  });
+
+  it('only counts doses that are already due', () => {
+    const noon = new Date(2024, 2, 1, 12, 0);
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], [], from, to, [], noon);
+
+    expect(report.overall.scheduled).toBe(1);
+  });
+
+  it('leaves out doses before the medication was added', () => {
+    const added = medication({ createdAt: new Date(2024, 2, 2, 10, 0) });
+
+    const report = MedicationAdherenceHelper.buildReport([added], [], from, to, [], now);
+
+    expect(report.overall.scheduled).toBe(3);
+    expect(report.daily.map((day) => day.date)).toEqual(['2024-03-02', '2024-03-03']);
+  });
+
+  it('leaves out doses during a hospital stay', () => {
+    const stays = [{ admittedAt: new Date(2024, 2, 1, 12, 0), dischargedAt: new Date(2024, 2, 2, 12, 0) }];
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], [], from, to, stays, now);
+
+    expect(report.overall.scheduled).toBe(4);
+    expect(report.daily.find((day) => day.date === '2024-03-02')?.scheduled).toBe(1);
+  });
+
+  it('treats an open stay as running until now', () => {
+    const stays = [{ admittedAt: new Date(2024, 2, 2, 12, 0), dischargedAt: null }];
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], [], from, to, stays, now);
+
+    expect(report.overall.scheduled).toBe(3);
+  });
+
+  it('tracks streaks of fully given days', () => {
+    const logs = [
+      log(new Date(2024, 2, 1, 8, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 2, 8, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 2, 20, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 3, 8, 0), 'GIVEN', alice),
+      log(new Date(2024, 2, 3, 20, 0), 'GIVEN', alice),
+    ];
+
+    const report = MedicationAdherenceHelper.buildReport([medication()], logs, from, to, [], now);
+
+    expect(report.overall.streaks).toEqual({ current: 2, longest: 2 });
+    expect(report.mostMissedTimeSlots).toEqual([{ time: '20:00', missed: 1, scheduled: 3 }]);
+  });
+
+  it('gives PRN medications no scheduled doses', () => {
+    const prn = medication({ frequency: 'AS_NEEDED', scheduledTimes: [] });
+
+    const report = MedicationAdherenceHelper.buildReport([prn], [], from, to, [], now);
+
+    expect(report.overall).toMatchObject({ scheduled: 0, adherencePercent: null });
+  });
+});
@@ -0,0 +1,226 @@
+import { Medication, MedicationLog, MedicationLogStatus } from '@prisma/client';
+import { format } from 'date-fns';
+import { ScheduledMedication, StayWindow, getMissableDosesBetween } from '@carecircle/scheduling';
+
+type AdherenceLog = Pick<MedicationLog, 'medicationId' | 'scheduledTime' | 'status'> & {
+  givenBy: { id: string; fullName: string } | null;
+};
+
+interface DoseOutcome {
+  medicationId: string;
+  scheduledTime: Date;
+  time: string;
+  status: MedicationLogStatus;
+}
+
+export interface AdherenceCounts {
+  scheduled: number;
+  given: number;
+  skipped: number;
+  missed: number;
+  adherencePercent: number | null;
+}
+
+export interface AdherenceStreaks {
+  current: number;
+  longest: number;
+}
+
+export interface MedicationAdherence extends AdherenceCounts {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  streaks: AdherenceStreaks;
+}
+
+export interface DailyAdherence extends AdherenceCounts {
+  date: string; // yyyy-MM-dd
+}
+
+export interface MissedTimeSlot {
+  time: string; // HH:mm
+  missed: number;
+  scheduled: number;
+}
+
+export interface CaregiverAdherence {
+  userId: string;
+  fullName: string;
+  given: number;
+  skipped: number;
+}
+
+export interface AdherenceReport {
+  from: Date;
+  to: Date;
+  overall: AdherenceCounts & { streaks: AdherenceStreaks };
+  medications: MedicationAdherence[];
+  daily: DailyAdherence[];
+  mostMissedTimeSlots: MissedTimeSlot[];
+  caregivers: CaregiverAdherence[];
+}
+
+/**
+ * Builds adherence statistics from scheduled doses and MedicationLog rows.
+ *
+ * Only doses that are already due count. A due dose with no log counts as
+ * missed, whether or not the missed-dose worker has written its MISSED log
+ * yet; doses the worker would never flag (before the medication was added,
+ * or during a hospital stay) are left out. PRN doses have no schedule, so
+ * they only show up in caregiver counts.
+ */
+export class MedicationAdherenceHelper {
+  static buildReport(
+    medications: (Medication & ScheduledMedication)[],
+    logs: AdherenceLog[],
+    from: Date,
+    to: Date,
+    stays: StayWindow[] = [],
+    now: Date = new Date(),
+  ): AdherenceReport {
+    const dueUntil = to < now ? to : now;
+    const logsByDose = new Map<string, AdherenceLog[]>();
+
+    for (const log of logs) {
+      const key = this.doseKey(log.medicationId, log.scheduledTime);
+      logsByDose.set(key, [...(logsByDose.get(key) || []), log]);
+    }
+
+    const outcomes: DoseOutcome[] = [];
+
+    for (const medication of medications) {
+      for (const dose of getMissableDosesBetween(medication, from, dueUntil, stays)) {
+        outcomes.push({
+          medicationId: medication.id,
+          scheduledTime: dose.scheduledTime,
+          time: dose.time,
+          status: this.resolveStatus(logsByDose.get(this.doseKey(medication.id, dose.scheduledTime))),
+        });
+      }
+    }
+
+    return {
+      from,
+      to,
+      overall: { ...this.count(outcomes), streaks: this.getStreaks(outcomes) },
+      medications: medications.map((medication) => {
+        const medicationOutcomes = outcomes.filter((o) => o.medicationId === medication.id);
+        return {
+          medicationId: medication.id,
+          name: medication.name,
+          dosage: medication.dosage,
+          ...this.count(medicationOutcomes),
+          streaks: this.getStreaks(medicationOutcomes),
+        };
+      }),
+      daily: this.groupBy(outcomes, (o) => this.dayKey(o.scheduledTime))
+        .map(([date, dayOutcomes]) => ({ date, ...this.count(dayOutcomes) }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      mostMissedTimeSlots: this.groupBy(outcomes, (o) => o.time)
+        .map(([time, slotOutcomes]) => ({
+          time,
+          missed: slotOutcomes.filter((o) => o.status === 'MISSED').length,
+          scheduled: slotOutcomes.length,
+        }))
+        .filter((slot) => slot.missed > 0)
+        .sort((a, b) => b.missed - a.missed || a.time.localeCompare(b.time))
+        .slice(0, 5),
+      caregivers: this.getCaregiverCounts(logs),
+    };
+  }
+
+  /**
+   * A dose counts as given if any log says GIVEN, so a late log wins over MISSED
+   */
+  private static resolveStatus(logs?: AdherenceLog[]): MedicationLogStatus {
+    if (!logs || logs.length === 0) {
+      return 'MISSED';
+    }
+
+    if (logs.some((log) => log.status === 'GIVEN')) {
+      return 'GIVEN';
+    }
+
+    return logs.some((log) => log.status === 'SKIPPED') ? 'SKIPPED' : 'MISSED';
+  }
+
+  private static count(outcomes: DoseOutcome[]): AdherenceCounts {
+    const given = outcomes.filter((o) => o.status === 'GIVEN').length;
+
+    return {
+      scheduled: outcomes.length,
+      given,
+      skipped: outcomes.filter((o) => o.status === 'SKIPPED').length,
+      missed: outcomes.filter((o) => o.status === 'MISSED').length,
+      adherencePercent: outcomes.length > 0 ? Math.round((given / outcomes.length) * 1000) / 10 : null,
+    };
+  }
+
+  /**
+   * Streaks are consecutive days on which every due dose was given
+   */
+  private static getStreaks(outcomes: DoseOutcome[]): AdherenceStreaks {
+    const days = this.groupBy(outcomes, (o) => this.dayKey(o.scheduledTime)).sort(([a], [b]) =>
+      a.localeCompare(b),
+    );
+
+    let current = 0;
+    let longest = 0;
+
+    for (const [, dayOutcomes] of days) {
+      if (dayOutcomes.every((o) => o.status === 'GIVEN')) {
+        current++;
+        longest = Math.max(longest, current);
+      } else {
+        current = 0;
+      }
+    }
+
+    return { current, longest };
+  }
+
+  private static getCaregiverCounts(logs: AdherenceLog[]): CaregiverAdherence[] {
+    const byUser = new Map<string, CaregiverAdherence>();
+
+    for (const log of logs) {
+      // System-written MISSED logs have no caregiver
+      if (!log.givenBy || (log.status !== 'GIVEN' && log.status !== 'SKIPPED')) {
+        continue;
+      }
+
+      const entry = byUser.get(log.givenBy.id) || {
+        userId: log.givenBy.id,
+        fullName: log.givenBy.fullName,
+        given: 0,
+        skipped: 0,
+      };
+
+      if (log.status === 'GIVEN') {
+        entry.given++;
+      } else {
+        entry.skipped++;
+      }
+
+      byUser.set(log.givenBy.id, entry);
+    }
+
+    return [...byUser.values()].sort((a, b) => b.given + b.skipped - (a.given + a.skipped));
+  }
+
+  private static groupBy<T>(items: T[], keyOf: (item: T) => string): [string, T[]][] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    return [...groups.entries()];
+  }
+
+  private static doseKey(medicationId: string, scheduledTime: Date): string {
+    return `${medicationId}-${Math.floor(scheduledTime.getTime() / 60000)}`;
+  }
+
+  private static dayKey(date: Date): string {
+    return format(date, 'yyyy-MM-dd');
+  }
+}
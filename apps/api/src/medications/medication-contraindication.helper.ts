@@ -0,0 +1,253 @@
+import { DrugNameHelper } from './drug-name.helper';
+
+export type ContraindicationType = 'allergy' | 'condition';
+
+export interface Contraindication {
+  type: ContraindicationType;
+  severity: 'contraindicated' | 'major' | 'moderate';
+  trigger: string; // The allergy or condition as recorded on the care recipient
+  drugClass: string;
+  description: string;
+  management?: string;
+}
+
+interface AllergyClassRule {
+  drugClass: string;
+  // Allergy entries naming the class itself ("penicillin", "sulfa")
+  allergyTerms: string[];
+  drugs: string[];
+  // Other classes that cross-react, with the severity to report
+  crossReactive?: { drugClass: string; severity: Contraindication['severity']; description: string }[];
+}
+
+interface ConditionRule {
+  drugClass: string;
+  conditionTerms: string[];
+  drugs: string[];
+  severity: Contraindication['severity'];
+  description: string;
+  management?: string;
+}
+
+/**
+ * Allergy classes. A recorded allergy to the class or to any member drug
+ * flags every drug in the class.
+ */
+const ALLERGY_CLASSES: AllergyClassRule[] = [
+  {
+    drugClass: 'Penicillins',
+    allergyTerms: ['penicillin', 'betalactam'],
+    drugs: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'dicloxacillin', 'nafcillin', 'piperacillin', 'oxacillin'],
+    crossReactive: [
+      {
+        drugClass: 'Cephalosporins',
+        severity: 'moderate',
+        description: 'Small risk of cross-reactivity between penicillins and cephalosporins.',
+      },
+    ],
+  },
+  {
+    drugClass: 'Cephalosporins',
+    allergyTerms: ['cephalosporin'],
+    drugs: ['cephalexin', 'keflex', 'cefuroxime', 'ceftriaxone', 'cefdinir', 'cefazolin', 'cefpodoxime'],
+  },
+  {
+    drugClass: 'Sulfonamide antibiotics',
+    allergyTerms: ['sulfa', 'sulfonamide'],
+    drugs: ['sulfamethoxazole', 'bactrim', 'septra', 'sulfadiazine'],
+  },
+  {
+    drugClass: 'NSAIDs',
+    allergyTerms: ['nsaid', 'aspirin'],
+    drugs: ['aspirin', 'ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'diclofenac', 'celecoxib', 'meloxicam', 'indomethacin', 'ketorolac'],
+  },
+  {
+    drugClass: 'Opioids',
+    allergyTerms: ['opioid', 'opiate', 'codeine', 'morphine'],
+    drugs: ['codeine', 'morphine', 'oxycodone', 'hydrocodone', 'hydromorphone', 'tramadol', 'fentanyl'],
+  },
+  {
+    drugClass: 'Macrolides',
+    allergyTerms: ['macrolide'],
+    drugs: ['erythromycin', 'azithromycin', 'zithromax', 'clarithromycin'],
+  },
+  {
+    drugClass: 'Fluoroquinolones',
+    allergyTerms: ['fluoroquinolone', 'quinolone'],
+    drugs: ['ciprofloxacin', 'cipro', 'levofloxacin', 'levaquin', 'moxifloxacin'],
+  },
+  {
+    drugClass: 'Tetracyclines',
+    allergyTerms: ['tetracycline'],
+    drugs: ['tetracycline', 'doxycycline', 'minocycline'],
+  },
+  {
+    drugClass: 'ACE inhibitors',
+    allergyTerms: ['aceinhibitor'],
+    drugs: ['lisinopril', 'enalapril', 'ramipril', 'benazepril', 'captopril'],
+  },
+];
+
+/**
+ * Condition contraindications, loosely following the Beers criteria for
+ * the conditions most common in older adults.
+ */
+const CONDITION_RULES: ConditionRule[] = [
+  {
+    drugClass: 'NSAIDs',
+    conditionTerms: ['kidney', 'renal', 'ckd'],
+    drugs: ['ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'diclofenac', 'celecoxib', 'meloxicam', 'indomethacin', 'ketorolac'],
+    severity: 'major',
+    description: 'NSAIDs can worsen kidney function and cause acute kidney injury.',
+    management: 'Avoid if possible. Acetaminophen is usually preferred for pain.',
+  },
+  {
+    drugClass: 'Metformin',
+    conditionTerms: ['kidney', 'renal', 'ckd'],
+    drugs: ['metformin', 'glucophage'],
+    severity: 'major',
+    description: 'Metformin accumulates with reduced kidney function, raising the risk of lactic acidosis.',
+    management: 'Check eGFR; dose reduction or discontinuation may be needed.',
+  },
+  {
+    drugClass: 'NSAIDs',
+    conditionTerms: ['heartfailure', 'chf'],
+    drugs: ['ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'diclofenac', 'celecoxib', 'meloxicam'],
+    severity: 'major',
+    description: 'NSAIDs cause fluid retention and can worsen heart failure.',
+    management: 'Avoid. Discuss alternatives with the prescriber.',
+  },
+  {
+    drugClass: 'NSAIDs and antiplatelets',
+    conditionTerms: ['ulcer', 'gibleed', 'gastrointestinalbleed'],
+    drugs: ['aspirin', 'ibuprofen', 'advil', 'motrin', 'naproxen', 'aleve', 'diclofenac', 'meloxicam', 'ketorolac'],
+    severity: 'major',
+    description: 'Increased risk of GI bleeding with a history of ulcers or GI bleeds.',
+    management: 'Avoid unless prescribed with a stomach-protecting medication.',
+  },
+  {
+    drugClass: 'Non-selective beta blockers',
+    conditionTerms: ['asthma', 'copd'],
+    drugs: ['propranolol', 'nadolol', 'timolol', 'sotalol'],
+    severity: 'major',
+    description: 'Non-selective beta blockers can trigger bronchospasm.',
+    management: 'A cardioselective beta blocker may be safer; confirm with the prescriber.',
+  },
+  {
+    drugClass: 'Acetaminophen',
+    conditionTerms: ['liver', 'hepatic', 'cirrhosis', 'hepatitis'],
+    drugs: ['acetaminophen', 'tylenol', 'paracetamol'],
+    severity: 'moderate',
+    description: 'Liver disease lowers the safe daily acetaminophen limit.',
+    management: 'Keep total daily dose at or below 2g unless directed otherwise.',
+  },
+  {
+    drugClass: 'Anticholinergics',
+    conditionTerms: ['dementia', 'alzheimer', 'glaucoma'],
+    drugs: ['diphenhydramine', 'benadryl', 'oxybutynin', 'hydroxyzine', 'amitriptyline', 'meclizine'],
+    severity: 'major',
+    description: 'Anticholinergic drugs can worsen confusion and raise eye pressure.',
+    management: 'Avoid in older adults with dementia or glaucoma.',
+  },
+  {
+    drugClass: 'Benzodiazepines',
+    conditionTerms: ['dementia', 'alzheimer', 'falls', 'fallrisk'],
+    drugs: ['lorazepam', 'ativan', 'alprazolam', 'xanax', 'diazepam', 'valium', 'clonazepam', 'temazepam'],
+    severity: 'major',
+    description: 'Benzodiazepines increase confusion, falls and fractures in older adults.',
+    management: 'Avoid; discuss non-drug alternatives for sleep and anxiety.',
+  },
+  {
+    drugClass: 'Decongestants',
+    conditionTerms: ['hypertension', 'highbloodpressure'],
+    drugs: ['pseudoephedrine', 'sudafed', 'phenylephrine'],
+    severity: 'moderate',
+    description: 'Decongestants can raise blood pressure.',
+    management: 'Use saline spray or consult a pharmacist for alternatives.',
+  },
+];
+
+/**
+ * Cross-checks a medication against a care recipient's recorded allergies
+ * and conditions. Matching is on normalized names, so free-text entries such
+ * as "Penicillin (hives)" or "Chronic kidney disease stage 3" still match.
+ */
+export class ContraindicationHelper {
+  /**
+   * @param drugNames the medication's names (brand, generic, resolved generic)
+   */
+  static check(drugNames: string[], allergies: string[], conditions: string[]): Contraindication[] {
+    const names = [...new Set(drugNames.map((name) => DrugNameHelper.normalize(name)).filter(Boolean))];
+    const results: Contraindication[] = [];
+
+    const isInClass = (drugs: string[]) => names.some((name) => drugs.some((drug) => name.includes(drug)));
+
+    for (const allergy of allergies) {
+      const normalizedAllergy = DrugNameHelper.normalize(allergy);
+      if (!normalizedAllergy) {
+        continue;
+      }
+
+      for (const rule of ALLERGY_CLASSES) {
+        const allergicToClass =
+          rule.allergyTerms.some((term) => normalizedAllergy.includes(term)) ||
+          rule.drugs.some((drug) => normalizedAllergy.includes(drug));
+
+        if (!allergicToClass) {
+          continue;
+        }
+
+        if (isInClass(rule.drugs)) {
+          results.push({
+            type: 'allergy',
+            severity: 'contraindicated',
+            trigger: allergy,
+            drugClass: rule.drugClass,
+            description: `Recorded allergy to ${allergy}. This medication belongs to the ${rule.drugClass.toLowerCase()} class.`,
+            management: 'Do not give without confirming with the prescriber.',
+          });
+        }
+
+        for (const cross of rule.crossReactive || []) {
+          const crossRule = ALLERGY_CLASSES.find((r) => r.drugClass === cross.drugClass);
+          if (crossRule && isInClass(crossRule.drugs)) {
+            results.push({
+              type: 'allergy',
+              severity: cross.severity,
+              trigger: allergy,
+              drugClass: cross.drugClass,
+              description: cross.description,
+              management: 'Confirm the allergy history with the prescriber before giving.',
+            });
+          }
+        }
+      }
+    }
+
+    for (const condition of conditions) {
+      const normalizedCondition = DrugNameHelper.normalize(condition);
+      if (!normalizedCondition) {
+        continue;
+      }
+
+      for (const rule of CONDITION_RULES) {
+        if (rule.conditionTerms.some((term) => normalizedCondition.includes(term)) && isInClass(rule.drugs)) {
+          results.push({
+            type: 'condition',
+            severity: rule.severity,
+            trigger: condition,
+            drugClass: rule.drugClass,
+            description: rule.description,
+            management: rule.management,
+          });
+        }
+      }
+    }
+
+    // One finding per trigger/class pair
+    return results.filter(
+      (result, index) =>
+        results.findIndex((r) => r.trigger === result.trigger && r.drugClass === result.drugClass) === index,
+    );
+  }
+}
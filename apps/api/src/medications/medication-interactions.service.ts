@@ -1,17 +1,14 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
-import { CacheService } from '../system/module/cache';
-
-export interface DrugInteraction {
-  drug1: string;
-  drug2: string;
-  severity: 'minor' | 'moderate' | 'major' | 'contraindicated';
-  description: string;
-  mechanism?: string;
-  clinicalEffects?: string;
-  management?: string;
-}
+import { DrugNameHelper } from './drug-name.helper';
+import { Contraindication, ContraindicationHelper } from './medication-contraindication.helper';
+import { DrugInteraction, DrugInteractionProvider } from './providers/drug-interaction.provider';
+import { BuiltinInteractionProvider } from './providers/builtin-interaction.provider';
+import { DatasetInteractionProvider } from './providers/dataset-interaction.provider';
+
+export { DrugInteraction } from './providers/drug-interaction.provider';
+export { Contraindication } from './medication-contraindication.helper';
 
 export interface InteractionCheckResult {
   hasInteractions: boolean;
@@ -23,221 +20,58 @@ export interface InteractionCheckResult {
     minor: DrugInteraction[];
   };
   checkedMedications: string[];
+  // Generic name each checked medication was matched as
+  resolvedNames: Record<string, string>;
+  provider: string;
+  datasetVersion: string;
   timestamp: string;
 }
 
-/**
- * Known drug interactions database
- * In production, this would be backed by a proper drug interaction API (e.g., DrugBank, RxNorm, OpenFDA)
- * This is a curated list of common interactions for demonstration
- */
-const KNOWN_INTERACTIONS: DrugInteraction[] = [
-  // Blood thinners
-  {
-    drug1: 'warfarin',
-    drug2: 'aspirin',
-    severity: 'major',
-    description: 'Increased risk of bleeding when used together.',
-    mechanism: 'Both medications affect blood clotting through different mechanisms.',
-    clinicalEffects: 'May cause serious bleeding, including GI bleeding or intracranial hemorrhage.',
-    management: 'Avoid combination if possible. If necessary, use lowest effective aspirin dose and monitor closely.',
-  },
-  {
-    drug1: 'warfarin',
-    drug2: 'ibuprofen',
-    severity: 'major',
-    description: 'NSAIDs increase the risk of bleeding with warfarin.',
-    mechanism: 'NSAIDs inhibit platelet function and may cause GI irritation.',
-    clinicalEffects: 'Significantly increased bleeding risk, particularly GI bleeding.',
-    management: 'Avoid NSAIDs. Use acetaminophen for pain if needed.',
-  },
-  {
-    drug1: 'warfarin',
-    drug2: 'vitamin k',
-    severity: 'major',
-    description: 'Vitamin K reduces the effectiveness of warfarin.',
-    mechanism: 'Vitamin K is the antidote to warfarin and promotes clotting.',
-    clinicalEffects: 'May cause treatment failure and increase risk of blood clots.',
-    management: 'Maintain consistent vitamin K intake. Avoid large changes in diet.',
-  },
-
-  // ACE Inhibitors
-  {
-    drug1: 'lisinopril',
-    drug2: 'potassium',
-    severity: 'major',
-    description: 'Risk of dangerously high potassium levels.',
-    mechanism: 'ACE inhibitors reduce potassium excretion.',
-    clinicalEffects: 'Hyperkalemia can cause life-threatening cardiac arrhythmias.',
-    management: 'Monitor potassium levels closely. Avoid potassium supplements unless prescribed.',
-  },
-  {
-    drug1: 'lisinopril',
-    drug2: 'spironolactone',
-    severity: 'major',
-    description: 'Both medications can increase potassium levels.',
-    mechanism: 'Additive potassium-sparing effects.',
-    clinicalEffects: 'Hyperkalemia risk, particularly in patients with renal impairment.',
-    management: 'Monitor potassium and renal function. Use with caution.',
-  },
-
-  // Statins
-  {
-    drug1: 'atorvastatin',
-    drug2: 'grapefruit',
-    severity: 'moderate',
-    description: 'Grapefruit can increase statin levels in blood.',
-    mechanism: 'Grapefruit inhibits CYP3A4 enzyme that metabolizes atorvastatin.',
-    clinicalEffects: 'Increased risk of muscle pain and rhabdomyolysis.',
-    management: 'Limit grapefruit consumption or consider alternative statin.',
-  },
-  {
-    drug1: 'simvastatin',
-    drug2: 'amiodarone',
-    severity: 'contraindicated',
-    description: 'Significantly increased risk of muscle damage.',
-    mechanism: 'Amiodarone inhibits statin metabolism.',
-    clinicalEffects: 'High risk of rhabdomyolysis (severe muscle breakdown).',
-    management: 'Do not exceed simvastatin 10mg/day or use alternative statin.',
-  },
-
-  // Diabetes medications
-  {
-    drug1: 'metformin',
-    drug2: 'contrast dye',
-    severity: 'major',
-    description: 'Risk of lactic acidosis with iodinated contrast.',
-    mechanism: 'Contrast-induced nephropathy may reduce metformin clearance.',
-    clinicalEffects: 'Lactic acidosis can be life-threatening.',
-    management: 'Hold metformin before/after contrast procedures. Resume after 48 hours if kidney function normal.',
-  },
-  {
-    drug1: 'insulin',
-    drug2: 'metformin',
-    severity: 'moderate',
-    description: 'Increased risk of hypoglycemia.',
-    mechanism: 'Additive blood sugar lowering effects.',
-    clinicalEffects: 'Low blood sugar symptoms: shakiness, confusion, sweating.',
-    management: 'Monitor blood sugar closely. May need dose adjustments.',
-  },
-
-  // Antidepressants
-  {
-    drug1: 'sertraline',
-    drug2: 'tramadol',
-    severity: 'major',
-    description: 'Risk of serotonin syndrome.',
-    mechanism: 'Both medications increase serotonin levels.',
-    clinicalEffects: 'Serotonin syndrome: agitation, tremor, rapid heartbeat, high temperature.',
-    management: 'Avoid combination if possible. Monitor for serotonin syndrome symptoms.',
-  },
-  {
-    drug1: 'fluoxetine',
-    drug2: 'mao inhibitors',
-    severity: 'contraindicated',
-    description: 'Life-threatening serotonin syndrome.',
-    mechanism: 'Dangerous accumulation of serotonin.',
-    clinicalEffects: 'Severe serotonin syndrome, potentially fatal.',
-    management: 'Absolutely contraindicated. Allow 5-week washout period.',
-  },
-
-  // Blood pressure medications
-  {
-    drug1: 'amlodipine',
-    drug2: 'simvastatin',
-    severity: 'moderate',
-    description: 'Amlodipine may increase simvastatin levels.',
-    mechanism: 'CYP3A4 interaction.',
-    clinicalEffects: 'Increased risk of muscle problems.',
-    management: 'Limit simvastatin to 20mg/day when used with amlodipine.',
-  },
-  {
-    drug1: 'metoprolol',
-    drug2: 'verapamil',
-    severity: 'major',
-    description: 'Additive effects on heart rate and conduction.',
-    mechanism: 'Both slow heart rate and affect cardiac conduction.',
-    clinicalEffects: 'Severe bradycardia, heart block, heart failure.',
-    management: 'Avoid combination. Use with extreme caution if necessary.',
-  },
-
-  // Pain medications
-  {
-    drug1: 'oxycodone',
-    drug2: 'benzodiazepine',
-    severity: 'contraindicated',
-    description: 'Life-threatening respiratory depression.',
-    mechanism: 'Both are CNS depressants.',
-    clinicalEffects: 'Respiratory depression, sedation, coma, death.',
-    management: 'FDA black box warning. Avoid combination.',
-  },
-  {
-    drug1: 'acetaminophen',
-    drug2: 'alcohol',
-    severity: 'major',
-    description: 'Increased risk of liver damage.',
-    mechanism: 'Both are metabolized by the liver.',
-    clinicalEffects: 'Hepatotoxicity, especially with chronic use.',
-    management: 'Limit acetaminophen dose. Avoid chronic alcohol use.',
-  },
-
-  // Thyroid
-  {
-    drug1: 'levothyroxine',
-    drug2: 'calcium',
-    severity: 'moderate',
-    description: 'Calcium reduces levothyroxine absorption.',
-    mechanism: 'Calcium binds to levothyroxine in the GI tract.',
-    clinicalEffects: 'Subtherapeutic thyroid levels.',
-    management: 'Take levothyroxine 4 hours apart from calcium.',
-  },
-  {
-    drug1: 'levothyroxine',
-    drug2: 'iron',
-    severity: 'moderate',
-    description: 'Iron reduces levothyroxine absorption.',
-    mechanism: 'Iron forms complexes with levothyroxine.',
-    clinicalEffects: 'Subtherapeutic thyroid levels.',
-    management: 'Take levothyroxine 4 hours apart from iron supplements.',
-  },
-
-  // Antibiotics
-  {
-    drug1: 'ciprofloxacin',
-    drug2: 'antacids',
-    severity: 'moderate',
-    description: 'Antacids reduce ciprofloxacin absorption.',
-    mechanism: 'Metal cations bind to fluoroquinolones.',
-    clinicalEffects: 'Reduced antibiotic effectiveness.',
-    management: 'Take ciprofloxacin 2 hours before or 6 hours after antacids.',
-  },
-  {
-    drug1: 'metronidazole',
-    drug2: 'alcohol',
-    severity: 'major',
-    description: 'Disulfiram-like reaction with alcohol.',
-    mechanism: 'Metronidazole inhibits alcohol metabolism.',
-    clinicalEffects: 'Severe nausea, vomiting, flushing, headache.',
-    management: 'Avoid alcohol during and 3 days after treatment.',
-  },
-];
-
 @Injectable()
 export class MedicationInteractionsService {
   private readonly logger = new Logger(MedicationInteractionsService.name);
+  private readonly provider: DrugInteractionProvider;
 
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
-    private cacheService: CacheService,
-  ) {}
+    builtinProvider: BuiltinInteractionProvider,
+    datasetProvider: DatasetInteractionProvider,
+  ) {
+    const providerName = this.configService.get('interactions.provider') || 'builtin';
+    this.provider = providerName === 'dataset' ? datasetProvider : builtinProvider;
+    this.logger.log(`Drug interaction provider: ${this.provider.name}`);
+  }
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
 
   /**
    * Check for interactions between a list of medications
    */
   async checkInteractions(medicationNames: string[]): Promise<InteractionCheckResult> {
-    const normalizedNames = medicationNames.map(name => this.normalizeDrugName(name));
-    const interactions = this.findInteractions(normalizedNames);
+    const [datasetVersion, resolved] = await Promise.all([
+      this.provider.getDatasetVersion(),
+      this.provider.resolveGenericNames(medicationNames),
+    ]);
+    const interactions = this.sortBySeverity(await this.provider.findInteractions([...resolved.values()]));
 
     // Group by severity
     const bySeverity = {
@@ -252,6 +86,9 @@ export class MedicationInteractionsService {
       totalInteractions: interactions.length,
       bySeverity,
       checkedMedications: medicationNames,
+      resolvedNames: Object.fromEntries(resolved),
+      provider: this.provider.name,
+      datasetVersion,
       timestamp: new Date().toISOString(),
     };
   }
@@ -259,7 +96,9 @@ export class MedicationInteractionsService {
   /**
    * Check interactions for a care recipient's current medications
    */
-  async checkCareRecipientMedications(careRecipientId: string): Promise<InteractionCheckResult> {
+  async checkCareRecipientMedications(careRecipientId: string, userId: string): Promise<InteractionCheckResult> {
+    await this.verifyAccess(careRecipientId, userId);
+
     // Get active medications
     const medications = await this.prisma.medication.findMany({
       where: {
@@ -286,14 +125,18 @@ export class MedicationInteractionsService {
   }
 
   /**
-   * Check if adding a new medication would cause interactions
+   * Check if adding a new medication would cause interactions, or conflict
+   * with the care recipient's recorded allergies and conditions
    */
   async checkNewMedicationInteractions(
     careRecipientId: string,
+    userId: string,
     newMedicationName: string,
     newMedicationGenericName?: string,
-  ): Promise<InteractionCheckResult & { warnings: string[] }> {
-    // Get existing active medications
+  ): Promise<InteractionCheckResult & { warnings: string[]; contraindications: Contraindication[] }> {
+    // The recipient's allergies/conditions come back with the access check
+    const { careRecipient } = await this.verifyAccess(careRecipientId, userId);
+
     const existingMeds = await this.prisma.medication.findMany({
       where: {
         careRecipientId,
@@ -321,117 +164,73 @@ export class MedicationInteractionsService {
 
     // Generate warnings for the new medication specifically
     const warnings: string[] = [];
-    const normalizedNew = this.normalizeDrugName(newMedicationName);
-    const normalizedNewGeneric = newMedicationGenericName 
-      ? this.normalizeDrugName(newMedicationGenericName) 
-      : null;
+    const newGenerics = [newMedicationName, newMedicationGenericName]
+      .filter((name): name is string => !!name)
+      .map(name => result.resolvedNames[name]);
 
     [...result.bySeverity.contraindicated, ...result.bySeverity.major].forEach(interaction => {
-      const drug1Normalized = this.normalizeDrugName(interaction.drug1);
-      const drug2Normalized = this.normalizeDrugName(interaction.drug2);
-
-      if (
-        drug1Normalized === normalizedNew || 
-        drug2Normalized === normalizedNew ||
-        (normalizedNewGeneric && (drug1Normalized === normalizedNewGeneric || drug2Normalized === normalizedNewGeneric))
-      ) {
-        const otherDrug = drug1Normalized === normalizedNew || drug1Normalized === normalizedNewGeneric
-          ? interaction.drug2
-          : interaction.drug1;
+      const drug1Normalized = DrugNameHelper.normalize(interaction.drug1);
+      const drug2Normalized = DrugNameHelper.normalize(interaction.drug2);
+      const matchesNew = (drug: string) =>
+        newGenerics.some(generic => generic && (drug.includes(generic) || generic.includes(drug)));
+
+      if (matchesNew(drug1Normalized) || matchesNew(drug2Normalized)) {
+        const otherDrug = matchesNew(drug1Normalized) ? interaction.drug2 : interaction.drug1;
         warnings.push(
           `⚠️ ${interaction.severity.toUpperCase()}: ${newMedicationName} may interact with ${otherDrug}. ${interaction.description}`
         );
       }
     });
 
+    const contraindications = ContraindicationHelper.check(
+      [...newGenerics, newMedicationName, newMedicationGenericName || ''],
+      careRecipient.allergies || [],
+      careRecipient.conditions || [],
+    );
+
+    // Allergy/condition conflicts lead the warnings
+    warnings.unshift(
+      ...contraindications
+        .filter(c => c.severity !== 'moderate')
+        .map(c => `⚠️ ${c.type === 'allergy' ? 'ALLERGY' : 'CONDITION'}: ${newMedicationName} (${c.drugClass}) conflicts with "${c.trigger}". ${c.description}`),
+    );
+
     return {
       ...result,
       warnings,
+      contraindications,
     };
   }
 
   /**
    * Get detailed information about a specific interaction
    */
-  getInteractionDetails(drug1: string, drug2: string): DrugInteraction | null {
-    const normalized1 = this.normalizeDrugName(drug1);
-    const normalized2 = this.normalizeDrugName(drug2);
-
-    return KNOWN_INTERACTIONS.find(interaction => {
-      const interactionDrug1 = this.normalizeDrugName(interaction.drug1);
-      const interactionDrug2 = this.normalizeDrugName(interaction.drug2);
-
-      return (
-        (interactionDrug1.includes(normalized1) || normalized1.includes(interactionDrug1)) &&
-        (interactionDrug2.includes(normalized2) || normalized2.includes(interactionDrug2))
-      ) || (
-        (interactionDrug1.includes(normalized2) || normalized2.includes(interactionDrug1)) &&
-        (interactionDrug2.includes(normalized1) || normalized1.includes(interactionDrug2))
-      );
-    }) || null;
-  }
+  async getInteractionDetails(drug1: string, drug2: string): Promise<DrugInteraction | null> {
+    const resolved = await this.provider.resolveGenericNames([drug1, drug2]);
+    const interactions = await this.provider.findInteractions([...resolved.values()]);
 
-  /**
-   * Normalize drug name for comparison
-   */
-  private normalizeDrugName(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]/g, '')
-      .trim();
+    return interactions[0] || null;
   }
 
   /**
-   * Find all interactions between a list of medications
+   * Get known interactions from the active provider (for admin/reference)
    */
-  private findInteractions(normalizedNames: string[]): DrugInteraction[] {
-    const interactions: DrugInteraction[] = [];
-    const uniqueNames = [...new Set(normalizedNames)];
-
-    // Check each pair of medications
-    for (let i = 0; i < uniqueNames.length; i++) {
-      for (let j = i + 1; j < uniqueNames.length; j++) {
-        const name1 = uniqueNames[i];
-        const name2 = uniqueNames[j];
-
-        // Check against known interactions
-        for (const knownInteraction of KNOWN_INTERACTIONS) {
-          const knownDrug1 = this.normalizeDrugName(knownInteraction.drug1);
-          const knownDrug2 = this.normalizeDrugName(knownInteraction.drug2);
-
-          // Check if either medication matches either drug in the interaction
-          const match1 = name1.includes(knownDrug1) || knownDrug1.includes(name1);
-          const match2 = name2.includes(knownDrug2) || knownDrug2.includes(name2);
-          const match1Alt = name1.includes(knownDrug2) || knownDrug2.includes(name1);
-          const match2Alt = name2.includes(knownDrug1) || knownDrug1.includes(name2);
-
-          if ((match1 && match2) || (match1Alt && match2Alt)) {
-            // Avoid duplicates
-            const exists = interactions.some(
-              i => 
-                (i.drug1 === knownInteraction.drug1 && i.drug2 === knownInteraction.drug2) ||
-                (i.drug1 === knownInteraction.drug2 && i.drug2 === knownInteraction.drug1)
-            );
-            if (!exists) {
-              interactions.push(knownInteraction);
-            }
-          }
-        }
-      }
-    }
+  async getAllKnownInteractions() {
+    const [datasetVersion, { total, interactions }] = await Promise.all([
+      this.provider.getDatasetVersion(),
+      this.provider.listInteractions(),
+    ]);
 
-    // Sort by severity
-    const severityOrder = { contraindicated: 0, major: 1, moderate: 2, minor: 3 };
-    interactions.sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
-
-    return interactions;
+    return {
+      provider: this.provider.name,
+      datasetVersion,
+      total,
+      interactions: this.sortBySeverity(interactions),
+    };
   }
 
-  /**
-   * Get list of all known interactions (for admin/reference)
-   */
-  getAllKnownInteractions(): DrugInteraction[] {
-    return [...KNOWN_INTERACTIONS];
+  private sortBySeverity(interactions: DrugInteraction[]): DrugInteraction[] {
+    const severityOrder = { contraindicated: 0, major: 1, moderate: 2, minor: 3 };
+    return [...interactions].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
   }
 }
-
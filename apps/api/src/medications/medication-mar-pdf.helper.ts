@@ -0,0 +1,163 @@
+import PDFDocument from 'pdfkit';
+import { format, parse } from 'date-fns';
+import { MarCellStatus, MarSheet, MedicationMarHelper } from './medication-mar.helper';
+
+const PAGE_MARGIN = 30;
+const MEDICATION_COLUMN_WIDTH = 150;
+const TIME_COLUMN_WIDTH = 34;
+const HEADER_ROW_HEIGHT = 16;
+const ROW_HEIGHT = 20;
+
+const STATUS_COLORS: Record<MarCellStatus, string> = {
+  GIVEN: '#1F2937',
+  SKIPPED: '#B45309',
+  MISSED: '#B91C1C',
+};
+
+/**
+ * Renders a MAR sheet as a landscape PDF grid, repeating the header on
+ * every page so printed pages stand on their own.
+ */
+export class MedicationMarPdfHelper {
+  static render(sheet: MarSheet): Promise<Buffer> {
+    const doc = new PDFDocument({ size: 'LETTER', layout: 'landscape', margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const monthLabel = format(parse(sheet.month, 'yyyy-MM', new Date()), 'MMMM yyyy');
+    const dayWidth =
+      (doc.page.width - PAGE_MARGIN * 2 - MEDICATION_COLUMN_WIDTH - TIME_COLUMN_WIDTH) / sheet.daysInMonth;
+    const bottom = doc.page.height - PAGE_MARGIN - 40;
+
+    let y = this.drawPageHeader(doc, sheet, monthLabel, dayWidth);
+
+    if (sheet.rows.length === 0) {
+      doc.font('Helvetica-Oblique').fontSize(9).fillColor('#6B7280');
+      doc.text('No medications were active this month.', PAGE_MARGIN, y + 8);
+    }
+
+    for (const row of sheet.rows) {
+      if (y + ROW_HEIGHT > bottom) {
+        this.drawFooter(doc, sheet);
+        doc.addPage();
+        y = this.drawPageHeader(doc, sheet, monthLabel, dayWidth);
+      }
+
+      const x = PAGE_MARGIN;
+      doc.lineWidth(0.5).strokeColor('#D1D5DB');
+      doc.rect(x, y, MEDICATION_COLUMN_WIDTH, ROW_HEIGHT).stroke();
+      doc.rect(x + MEDICATION_COLUMN_WIDTH, y, TIME_COLUMN_WIDTH, ROW_HEIGHT).stroke();
+
+      doc.font('Helvetica-Bold').fontSize(7).fillColor('#111827');
+      doc.text(row.name, x + 3, y + 3, { width: MEDICATION_COLUMN_WIDTH - 6, height: 8, ellipsis: true });
+      doc.font('Helvetica').fontSize(6).fillColor('#4B5563');
+      doc.text(`${row.dosage} · ${row.form.toLowerCase()}`, x + 3, y + 11, {
+        width: MEDICATION_COLUMN_WIDTH - 6,
+        height: 7,
+        ellipsis: true,
+      });
+
+      doc.font('Helvetica-Bold').fontSize(7).fillColor('#111827');
+      doc.text(row.time, x + MEDICATION_COLUMN_WIDTH, y + 7, { width: TIME_COLUMN_WIDTH, align: 'center' });
+
+      row.cells.forEach((cell, index) => {
+        const cellX = x + MEDICATION_COLUMN_WIDTH + TIME_COLUMN_WIDTH + index * dayWidth;
+        doc.lineWidth(0.5).strokeColor('#D1D5DB').rect(cellX, y, dayWidth, ROW_HEIGHT).stroke();
+
+        if (!cell) {
+          return;
+        }
+
+        const prn = row.time === 'PRN';
+        const [code, initials] = MedicationMarHelper.cellText(cell, prn).split(' ');
+
+        doc.font('Helvetica-Bold').fontSize(6.5).fillColor(prn ? STATUS_COLORS.GIVEN : STATUS_COLORS[cell.status]);
+        doc.text(code, cellX, y + 3, { width: dayWidth, align: 'center', lineBreak: false });
+
+        if (initials) {
+          doc.font('Helvetica').fontSize(5).fillColor('#374151');
+          doc.text(initials, cellX, y + 11, { width: dayWidth, align: 'center', height: 6, ellipsis: true });
+        }
+      });
+
+      y += ROW_HEIGHT;
+    }
+
+    this.drawFooter(doc, sheet);
+    doc.end();
+
+    return done;
+  }
+
+  private static drawPageHeader(
+    doc: PDFKit.PDFDocument,
+    sheet: MarSheet,
+    monthLabel: string,
+    dayWidth: number,
+  ): number {
+    const x = PAGE_MARGIN;
+    let y = PAGE_MARGIN;
+
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827');
+    doc.text('Medication Administration Record', x, y);
+    doc.font('Helvetica').fontSize(10).text(monthLabel, x, y + 2, {
+      width: doc.page.width - PAGE_MARGIN * 2,
+      align: 'right',
+    });
+    y += 20;
+
+    const details = [
+      `Patient: ${sheet.careRecipient.name}`,
+      sheet.careRecipient.dateOfBirth ? `DOB: ${format(sheet.careRecipient.dateOfBirth, 'MM/dd/yyyy')}` : null,
+      `Allergies: ${sheet.careRecipient.allergies.length ? sheet.careRecipient.allergies.join(', ') : 'None recorded'}`,
+    ].filter(Boolean);
+
+    doc.font('Helvetica').fontSize(8).fillColor('#374151');
+    doc.text(details.join('     '), x, y, { width: doc.page.width - PAGE_MARGIN * 2 });
+    y = doc.y + 2;
+
+    if (sheet.careRecipient.conditions.length) {
+      doc.text(`Conditions: ${sheet.careRecipient.conditions.join(', ')}`, x, y, {
+        width: doc.page.width - PAGE_MARGIN * 2,
+      });
+      y = doc.y + 2;
+    }
+
+    y += 6;
+
+    doc.rect(x, y, doc.page.width - PAGE_MARGIN * 2, HEADER_ROW_HEIGHT).fill('#F3F4F6');
+    doc.font('Helvetica-Bold').fontSize(7).fillColor('#111827');
+    doc.text('Medication', x + 3, y + 5);
+    doc.text('Time', x + MEDICATION_COLUMN_WIDTH, y + 5, { width: TIME_COLUMN_WIDTH, align: 'center' });
+
+    for (let day = 1; day <= sheet.daysInMonth; day++) {
+      const cellX = x + MEDICATION_COLUMN_WIDTH + TIME_COLUMN_WIDTH + (day - 1) * dayWidth;
+      doc.text(String(day), cellX, y + 5, { width: dayWidth, align: 'center', lineBreak: false });
+    }
+
+    return y + HEADER_ROW_HEIGHT;
+  }
+
+  private static drawFooter(doc: PDFKit.PDFDocument, sheet: MarSheet): void {
+    const x = PAGE_MARGIN;
+    const y = doc.page.height - PAGE_MARGIN - 32;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    const caregivers = sheet.caregivers.map((c) => `${c.initials} = ${c.fullName}`).join('   ');
+
+    doc.font('Helvetica').fontSize(7).fillColor('#374151');
+    doc.text('G = given   S = skipped   M = missed   PRN cells show the number of doses given', x, y, { width });
+    if (caregivers) {
+      doc.text(`Initials: ${caregivers}`, x, y + 10, { width, height: 9, ellipsis: true });
+    }
+    doc.fillColor('#9CA3AF').text(`Generated ${format(sheet.generatedAt, 'MM/dd/yyyy h:mm a')}`, x, y + 20, {
+      width,
+      align: 'right',
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { Medication, MedicationLogStatus } from '@prisma/client';
+import { MedicationMarHelper } from './medication-mar.helper';
+
+const jane = { id: 'user-1', fullName: 'Jane Doe' };
+const john = { id: 'user-2', fullName: 'John Dunn' };
+
+const careRecipient = {
+  fullName: 'Margaret Smith',
+  preferredName: 'Peggy',
+  dateOfBirth: null,
+  allergies: ['Penicillin'],
+  conditions: [],
+};
+
+function medication(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: 'med-1',
+    careRecipientId: 'cr-1',
+    name: 'Metformin',
+    genericName: null,
+    dosage: '500mg',
+    form: 'TABLET',
+    instructions: null,
+    prescribedBy: null,
+    pharmacy: null,
+    pharmacyPhone: null,
+    frequency: 'TWICE_DAILY',
+    timesPerDay: 2,
+    scheduledTimes: ['08:00', '20:00'],
+    currentSupply: null,
+    refillAt: null,
+    lastRefillDate: null,
+    doseMg: null,
+    prnMinIntervalHours: null,
+    prnMaxDosesPer24h: null,
+    prnMaxMgPer24h: null,
+    isActive: true,
+    startDate: new Date(2024, 0, 1),
+    endDate: null,
+    notes: null,
+    createdAt: new Date(2024, 0, 1),
+    updatedAt: new Date(2024, 0, 1),
+    ...overrides,
+  };
+}
+
+function log(
+  scheduledTime: Date,
+  status: MedicationLogStatus,
+  givenBy: typeof jane | null = null,
+  medicationId = 'med-1',
+  givenTime: Date | null = null,
+) {
+  return { medicationId, scheduledTime, givenTime, status, givenBy };
+}
+
+describe('MedicationMarHelper.buildSheet', () => {
+  const monthStart = new Date(2024, 1, 1);
+  const now = new Date(2024, 1, 3, 12, 0);
+
+  it('builds a row per scheduled time with due doses marked missed', () => {
+    const logs = [log(new Date(2024, 1, 1, 8, 0), 'GIVEN', jane), log(new Date(2024, 1, 2, 8, 0), 'SKIPPED', john)];
+
+    const sheet = MedicationMarHelper.buildSheet(careRecipient, [medication()], logs, monthStart, [], now);
+
+    expect(sheet).toMatchObject({ month: '2024-02', daysInMonth: 29 });
+    expect(sheet.careRecipient.name).toBe('Margaret Smith (Peggy)');
+    expect(sheet.rows.map((row) => row.time)).toEqual(['08:00', '20:00']);
+
+    const [morning, evening] = sheet.rows;
+    expect(morning.cells.slice(0, 4).map((cell) => MedicationMarHelper.cellText(cell))).toEqual([
+      'G JD',
+      'S JD2',
+      'M',
+      '',
+    ]);
+    expect(evening.cells.slice(0, 3).map((cell) => cell?.status ?? null)).toEqual(['MISSED', 'MISSED', null]);
+    expect(sheet.caregivers).toEqual([
+      { initials: 'JD', fullName: 'Jane Doe' },
+      { initials: 'JD2', fullName: 'John Dunn' },
+    ]);
+  });
+
+  it('leaves doses before the medication was added blank', () => {
+    const added = medication({ createdAt: new Date(2024, 1, 2, 12, 0) });
+
+    const sheet = MedicationMarHelper.buildSheet(careRecipient, [added], [], monthStart, [], now);
+
+    expect(sheet.rows[0].cells.slice(0, 3).map((cell) => cell?.status ?? null)).toEqual([null, null, 'MISSED']);
+    expect(sheet.rows[1].cells.slice(0, 3).map((cell) => cell?.status ?? null)).toEqual([null, 'MISSED', null]);
+  });
+
+  it('leaves doses during a hospital stay blank unless they were logged', () => {
+    const stays = [{ admittedAt: new Date(2024, 1, 1, 12, 0), dischargedAt: new Date(2024, 1, 2, 12, 0) }];
+    const logs = [log(new Date(2024, 1, 2, 8, 0), 'GIVEN', jane)];
+
+    const sheet = MedicationMarHelper.buildSheet(careRecipient, [medication()], logs, monthStart, stays, now);
+
+    expect(sheet.rows[0].cells.slice(0, 3).map((cell) => cell?.status ?? null)).toEqual(['MISSED', 'GIVEN', 'MISSED']);
+    expect(sheet.rows[1].cells.slice(0, 2).map((cell) => cell?.status ?? null)).toEqual([null, 'MISSED']);
+  });
+
+  it('counts PRN doses by the day they were given', () => {
+    const prn = medication({ id: 'med-2', frequency: 'AS_NEEDED', scheduledTimes: [] });
+    const logs = [
+      log(new Date(2024, 1, 1, 9, 0), 'GIVEN', jane, 'med-2'),
+      log(new Date(2024, 1, 1, 15, 0), 'GIVEN', john, 'med-2'),
+      log(new Date(2024, 0, 31, 23, 0), 'GIVEN', jane, 'med-2', new Date(2024, 1, 2, 0, 30)),
+    ];
+
+    const sheet = MedicationMarHelper.buildSheet(careRecipient, [prn], logs, monthStart, [], now);
+
+    expect(sheet.rows).toHaveLength(1);
+    expect(sheet.rows[0].time).toBe('PRN');
+    expect(sheet.rows[0].cells.slice(0, 3).map((cell) => MedicationMarHelper.cellText(cell, true))).toEqual([
+      '2 JD/JD2',
+      '1 JD',
+      '',
+    ]);
+  });
+
+  it('leaves off scheduled medications with nothing due in the month', () => {
+    const ended = medication({ endDate: new Date(2024, 0, 15) });
+
+    const sheet = MedicationMarHelper.buildSheet(careRecipient, [ended], [], monthStart, [], now);
+
+    expect(sheet.rows).toEqual([]);
+  });
+});
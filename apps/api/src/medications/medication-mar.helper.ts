@@ -0,0 +1,276 @@
+import { CareRecipient, Medication, MedicationLog, MedicationLogStatus } from '@prisma/client';
+import { endOfMonth, format, getDaysInMonth } from 'date-fns';
+import { ScheduledMedication, StayWindow, getDosesBetween, getMissableDosesBetween } from '@carecircle/scheduling';
+
+type MarLog = Pick<MedicationLog, 'medicationId' | 'scheduledTime' | 'givenTime' | 'status'> & {
+  givenBy: { id: string; fullName: string } | null;
+};
+
+export type MarCellStatus = Exclude<MedicationLogStatus, 'PENDING'>;
+
+export interface MarCell {
+  status: MarCellStatus;
+  initials: string[];
+  count: number; // Doses given that day; only meaningful for PRN rows
+}
+
+export interface MarRow {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  form: string;
+  instructions: string | null;
+  time: string; // HH:mm, or "PRN"
+  cells: (MarCell | null)[]; // Index 0 is the 1st of the month
+}
+
+export interface MarSheet {
+  month: string; // yyyy-MM
+  daysInMonth: number;
+  careRecipient: {
+    name: string;
+    dateOfBirth: Date | null;
+    allergies: string[];
+    conditions: string[];
+  };
+  rows: MarRow[];
+  caregivers: { initials: string; fullName: string }[];
+  generatedAt: Date;
+}
+
+const CELL_CODES: Record<MarCellStatus, string> = {
+  GIVEN: 'G',
+  SKIPPED: 'S',
+  MISSED: 'M',
+};
+
+/**
+ * Builds a monthly medication administration record (MAR): one row per
+ * medication and scheduled time, one column per day.
+ *
+ * Due doses with no log are shown as missed, matching adherence reporting
+ * and the missed-dose worker: doses before the medication was added or
+ * during a hospital stay are left blank unless something was logged.
+ * As-needed medications get a single PRN row counting the doses given each
+ * day; scheduled ones with nothing due in the month are left off.
+ */
+export class MedicationMarHelper {
+  static buildSheet(
+    careRecipient: Pick<CareRecipient, 'fullName' | 'preferredName' | 'dateOfBirth' | 'allergies' | 'conditions'>,
+    medications: (Medication & ScheduledMedication)[],
+    logs: MarLog[],
+    monthStart: Date,
+    stays: StayWindow[] = [],
+    now: Date = new Date(),
+  ): MarSheet {
+    const monthEnd = endOfMonth(monthStart);
+    const daysInMonth = getDaysInMonth(monthStart);
+    const dueUntil = monthEnd < now ? monthEnd : now;
+    const initialsByUser = this.assignInitials(logs);
+
+    const logsByDose = new Map<string, MarLog[]>();
+    for (const log of logs) {
+      const key = `${log.medicationId}|${log.scheduledTime.getTime()}`;
+      logsByDose.set(key, [...(logsByDose.get(key) || []), log]);
+    }
+
+    const rows: MarRow[] = [];
+
+    for (const medication of medications) {
+      const base = {
+        medicationId: medication.id,
+        name: medication.name,
+        dosage: medication.dosage,
+        form: medication.form,
+        instructions: medication.instructions,
+      };
+
+      if (medication.frequency === 'AS_NEEDED') {
+        rows.push({
+          ...base,
+          time: 'PRN',
+          cells: this.buildPrnCells(medication.id, logs, monthStart, monthEnd, initialsByUser),
+        });
+        continue;
+      }
+
+      const doses = getDosesBetween(medication, monthStart, monthEnd);
+
+      // Scheduled medications with nothing due this month (not started yet,
+      // ended, or between cycles) get no row
+      if (doses.length === 0) {
+        continue;
+      }
+
+      const times = [...new Set(doses.map((dose) => dose.time))].sort();
+      const missable = new Set(
+        getMissableDosesBetween(medication, monthStart, dueUntil, stays).map((dose) => dose.scheduledTime.getTime()),
+      );
+
+      for (const time of times) {
+        const cells: (MarCell | null)[] = new Array(daysInMonth).fill(null);
+
+        for (const dose of doses.filter((d) => d.time === time && d.scheduledTime <= dueUntil)) {
+          const doseLogs = logsByDose.get(`${medication.id}|${dose.scheduledTime.getTime()}`) || [];
+          if (doseLogs.length === 0 && !missable.has(dose.scheduledTime.getTime())) {
+            continue;
+          }
+
+          const status = this.resolveStatus(doseLogs);
+          const loggedBy = doseLogs.find((log) => log.status === status && log.givenBy)?.givenBy;
+
+          cells[dose.scheduledTime.getDate() - 1] = {
+            status,
+            initials: loggedBy ? [initialsByUser.get(loggedBy.id)!] : [],
+            count: status === 'GIVEN' ? 1 : 0,
+          };
+        }
+
+        rows.push({ ...base, time, cells });
+      }
+    }
+
+    return {
+      month: format(monthStart, 'yyyy-MM'),
+      daysInMonth,
+      careRecipient: {
+        name: careRecipient.preferredName
+          ? `${careRecipient.fullName} (${careRecipient.preferredName})`
+          : careRecipient.fullName,
+        dateOfBirth: careRecipient.dateOfBirth,
+        allergies: careRecipient.allergies,
+        conditions: careRecipient.conditions,
+      },
+      rows,
+      caregivers: [...initialsByUser.entries()]
+        .map(([userId, initials]) => ({
+          initials,
+          fullName: logs.find((log) => log.givenBy?.id === userId)!.givenBy!.fullName,
+        }))
+        .sort((a, b) => a.initials.localeCompare(b.initials)),
+      generatedAt: now,
+    };
+  }
+
+  /**
+   * Short cell text: "G JD", "S JD", "M", or "2 JD/AB" for PRN rows
+   */
+  static cellText(cell: MarCell | null, prn = false): string {
+    if (!cell) {
+      return '';
+    }
+
+    const initials = cell.initials.join('/');
+
+    if (prn) {
+      return `${cell.count}${initials ? ` ${initials}` : ''}`;
+    }
+
+    return initials ? `${CELL_CODES[cell.status]} ${initials}` : CELL_CODES[cell.status];
+  }
+
+  /**
+   * Grid CSV with the same layout as the PDF: one row per medication/time,
+   * one column per day of the month
+   */
+  static toCsv(sheet: MarSheet): string {
+    const days = Array.from({ length: sheet.daysInMonth }, (_, i) => String(i + 1));
+    const header = ['Medication', 'Dosage', 'Form', 'Time', ...days];
+
+    const rows = sheet.rows.map((row) => [
+      row.name,
+      row.dosage,
+      row.form,
+      row.time,
+      ...row.cells.map((cell) => this.cellText(cell, row.time === 'PRN')),
+    ]);
+
+    const legend = [
+      [],
+      ['Legend', 'G = given', 'S = skipped', 'M = missed', 'PRN = doses given that day'],
+      ...sheet.caregivers.map((caregiver) => [caregiver.initials, caregiver.fullName]),
+    ];
+
+    return [header, ...rows, ...legend]
+      .map((cells) => cells.map((value) => this.escapeCsv(value)).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Doses given per day. Each dose counts in the month it was given, so one
+   * logged late on the last evening shows on next month's sheet instead.
+   */
+  private static buildPrnCells(
+    medicationId: string,
+    logs: MarLog[],
+    monthStart: Date,
+    monthEnd: Date,
+    initialsByUser: Map<string, string>,
+  ): (MarCell | null)[] {
+    const cells: (MarCell | null)[] = new Array(getDaysInMonth(monthStart)).fill(null);
+
+    for (const log of logs) {
+      const givenAt = log.givenTime || log.scheduledTime;
+
+      if (log.medicationId !== medicationId || log.status !== 'GIVEN' || givenAt < monthStart || givenAt > monthEnd) {
+        continue;
+      }
+
+      const index = givenAt.getDate() - 1;
+      const cell = cells[index] || { status: 'GIVEN', initials: [], count: 0 };
+      const initials = log.givenBy ? initialsByUser.get(log.givenBy.id) : undefined;
+
+      cell.count++;
+      if (initials && !cell.initials.includes(initials)) {
+        cell.initials.push(initials);
+      }
+      cells[index] = cell;
+    }
+
+    return cells;
+  }
+
+  /**
+   * A late GIVEN log wins over MISSED, same as adherence reporting
+   */
+  private static resolveStatus(logs: MarLog[]): MarCellStatus {
+    if (logs.some((log) => log.status === 'GIVEN')) {
+      return 'GIVEN';
+    }
+
+    return logs.some((log) => log.status === 'SKIPPED') ? 'SKIPPED' : 'MISSED';
+  }
+
+  /**
+   * Initials per caregiver, numbered when two people share them (JD, JD2)
+   */
+  private static assignInitials(logs: MarLog[]): Map<string, string> {
+    const result = new Map<string, string>();
+    const used = new Map<string, number>();
+
+    for (const log of logs) {
+      if (!log.givenBy || result.has(log.givenBy.id)) {
+        continue;
+      }
+
+      const base =
+        log.givenBy.fullName
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((part) => part[0].toUpperCase())
+          .join('')
+          .slice(0, 3) || '?';
+      const seen = used.get(base) || 0;
+
+      used.set(base, seen + 1);
+      result.set(log.givenBy.id, seen === 0 ? base : `${base}${seen + 1}`);
+    }
+
+    return result;
+  }
+
+  private static escapeCsv(value: string | undefined): string {
+    const text = value ?? '';
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,121 @@
+import { MedicationPrnHelper } from './medication-prn.helper';
+
+function medication(overrides: Partial<Parameters<typeof MedicationPrnHelper.check>[0]> = {}) {
+  return {
+    dosage: '500mg',
+    doseMg: null,
+    prnMinIntervalHours: null,
+    prnMaxDosesPer24h: null,
+    prnMaxMgPer24h: null,
+    ...overrides,
+  };
+}
+
+function dose(givenTime: Date, doseQuantity = 1) {
+  return { givenTime, doseQuantity };
+}
+
+describe('MedicationPrnHelper', () => {
+  const at = new Date(2024, 2, 2, 12, 0);
+
+  describe('check', () => {
+    it('allows a dose when no limit is reached', () => {
+      const result = MedicationPrnHelper.check(
+        medication({ prnMinIntervalHours: 4, prnMaxDosesPer24h: 4, prnMaxMgPer24h: 3000 }),
+        [dose(new Date(2024, 2, 2, 6, 0))],
+        at,
+      );
+
+      expect(result).toEqual({
+        allowed: true,
+        violations: [],
+        nextDoseAllowedAt: null,
+        dosesInLast24h: 1,
+        mgInLast24h: 500,
+      });
+    });
+
+    it('enforces the minimum interval from the last dose', () => {
+      const result = MedicationPrnHelper.check(
+        medication({ prnMinIntervalHours: 6 }),
+        [dose(new Date(2024, 2, 2, 2, 0)), dose(new Date(2024, 2, 2, 9, 0))],
+        at,
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.violations).toMatchObject([{ type: 'MIN_INTERVAL', limit: 6, current: 3 }]);
+      expect(result.nextDoseAllowedAt).toEqual(new Date(2024, 2, 2, 15, 0));
+    });
+
+    it('only counts doses in the rolling 24h window', () => {
+      const given = [
+        dose(new Date(2024, 2, 1, 11, 0)),
+        dose(new Date(2024, 2, 1, 18, 0)),
+        dose(new Date(2024, 2, 2, 6, 0)),
+      ];
+
+      const result = MedicationPrnHelper.check(medication({ prnMaxDosesPer24h: 3 }), given, at);
+
+      expect(result.allowed).toBe(true);
+      expect(result.dosesInLast24h).toBe(2);
+    });
+
+    it('frees a dose slot once the oldest dose leaves the window', () => {
+      const given = [
+        dose(new Date(2024, 2, 1, 14, 0)),
+        dose(new Date(2024, 2, 1, 20, 0)),
+        dose(new Date(2024, 2, 2, 8, 0)),
+      ];
+
+      const result = MedicationPrnHelper.check(medication({ prnMaxDosesPer24h: 3 }), given, at);
+
+      expect(result.violations).toMatchObject([{ type: 'MAX_DOSES', limit: 3, current: 3 }]);
+      expect(result.nextDoseAllowedAt).toEqual(new Date(2024, 2, 2, 14, 0));
+    });
+
+    it('counts every unit of a multi-unit dose against the mg limit', () => {
+      const given = [dose(new Date(2024, 2, 1, 16, 0), 2), dose(new Date(2024, 2, 2, 4, 0))];
+
+      const result = MedicationPrnHelper.check(medication({ prnMaxMgPer24h: 2000 }), given, at, 2);
+
+      expect(result.mgInLast24h).toBe(1500);
+      expect(result.violations).toMatchObject([{ type: 'MAX_MG', limit: 2000, current: 1500 }]);
+      expect(result.nextDoseAllowedAt).toEqual(new Date(2024, 2, 2, 16, 0));
+    });
+
+    it('reports the latest time that clears every limit', () => {
+      const given = [dose(new Date(2024, 2, 1, 13, 0)), dose(new Date(2024, 2, 2, 10, 0))];
+
+      const result = MedicationPrnHelper.check(
+        medication({ prnMinIntervalHours: 4, prnMaxDosesPer24h: 2 }),
+        given,
+        at,
+      );
+
+      expect(result.violations.map((violation) => violation.type)).toEqual(['MIN_INTERVAL', 'MAX_DOSES']);
+      expect(result.nextDoseAllowedAt).toEqual(new Date(2024, 2, 2, 14, 0));
+    });
+
+    it('skips the mg limit when the strength is unknown', () => {
+      const result = MedicationPrnHelper.check(
+        medication({ dosage: '2 puffs', prnMaxMgPer24h: 10 }),
+        [dose(new Date(2024, 2, 2, 8, 0))],
+        at,
+      );
+
+      expect(result).toMatchObject({ allowed: true, mgInLast24h: null });
+    });
+  });
+
+  describe('getDoseMg', () => {
+    it.each([
+      ['500mg', null, 500],
+      ['1 g', null, 1000],
+      ['250 mcg', null, 0.25],
+      ['2 puffs', null, null],
+      ['500mg', 325, 325],
+    ])('reads %s with doseMg %s as %s', (dosage, doseMg, expected) => {
+      expect(MedicationPrnHelper.getDoseMg({ dosage, doseMg })).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Medication } from '@prisma/client';
+import { addHours, subHours } from 'date-fns';
+
+export type PrnViolationType = 'MIN_INTERVAL' | 'MAX_DOSES' | 'MAX_MG';
+
+export interface PrnViolation {
+  type: PrnViolationType;
+  message: string;
+  limit: number;
+  current: number;
+}
+
+export interface PrnCheckResult {
+  allowed: boolean;
+  violations: PrnViolation[];
+  nextDoseAllowedAt: Date | null;
+  dosesInLast24h: number;
+  mgInLast24h: number | null;
+}
+
+/** A GIVEN dose and the units it took (phases can give more than one) */
+export interface PrnDose {
+  givenTime: Date;
+  doseQuantity: number;
+}
+
+type PrnMedication = Pick<
+  Medication,
+  'dosage' | 'doseMg' | 'prnMinIntervalHours' | 'prnMaxDosesPer24h' | 'prnMaxMgPer24h'
+>;
+
+/**
+ * Evaluates PRN (as-needed) safeguards against recent GIVEN doses.
+ *
+ * All limits use a rolling 24h window ending at the time of the new dose.
+ */
+export class MedicationPrnHelper {
+  static hasSafeguards(medication: PrnMedication): boolean {
+    return (
+      medication.prnMinIntervalHours != null ||
+      medication.prnMaxDosesPer24h != null ||
+      medication.prnMaxMgPer24h != null
+    );
+  }
+
+  /**
+   * Check whether a dose of `doseQuantity` units given at `at` would stay
+   * within the limits
+   *
+   * @param given GIVEN doses, at least covering the last 24h
+   */
+  static check(medication: PrnMedication, given: PrnDose[], at: Date, doseQuantity = 1): PrnCheckResult {
+    const windowStart = subHours(at, 24);
+    const recentDoses = given
+      .filter((dose) => dose.givenTime > windowStart && dose.givenTime <= at)
+      .sort((a, b) => a.givenTime.getTime() - b.givenTime.getTime());
+    const recent = recentDoses.map((dose) => dose.givenTime);
+
+    const unitMg = this.getDoseMg(medication);
+    const mgInLast24h =
+      unitMg !== null ? recentDoses.reduce((total, dose) => total + dose.doseQuantity * unitMg, 0) : null;
+    const violations: PrnViolation[] = [];
+    const allowedFrom: Date[] = [];
+
+    if (medication.prnMinIntervalHours != null && recent.length > 0) {
+      const lastDose = recent[recent.length - 1];
+      const nextAllowed = addHours(lastDose, medication.prnMinIntervalHours);
+      if (nextAllowed > at) {
+        const hoursSince = Math.round(((at.getTime() - lastDose.getTime()) / 3600000) * 10) / 10;
+        violations.push({
+          type: 'MIN_INTERVAL',
+          message: `Doses must be at least ${medication.prnMinIntervalHours}h apart (last dose ${hoursSince}h ago)`,
+          limit: medication.prnMinIntervalHours,
+          current: hoursSince,
+        });
+        allowedFrom.push(nextAllowed);
+      }
+    }
+
+    if (medication.prnMaxDosesPer24h != null && recent.length >= medication.prnMaxDosesPer24h) {
+      violations.push({
+        type: 'MAX_DOSES',
+        message: `Maximum of ${medication.prnMaxDosesPer24h} doses per 24h reached`,
+        limit: medication.prnMaxDosesPer24h,
+        current: recent.length,
+      });
+      // A slot frees up once enough of the oldest doses fall out of the window
+      const dropIndex = recent.length - medication.prnMaxDosesPer24h;
+      allowedFrom.push(addHours(recent[dropIndex], 24));
+    }
+
+    const newDoseMg = unitMg !== null ? unitMg * doseQuantity : null;
+    if (medication.prnMaxMgPer24h != null && newDoseMg !== null && mgInLast24h + newDoseMg > medication.prnMaxMgPer24h) {
+      violations.push({
+        type: 'MAX_MG',
+        message: `Dose would exceed ${medication.prnMaxMgPer24h}mg per 24h (${mgInLast24h}mg already given)`,
+        limit: medication.prnMaxMgPer24h,
+        current: mgInLast24h,
+      });
+      // Room opens up once enough of the oldest doses fall out of the window
+      let remainingMg = mgInLast24h;
+      for (const dose of recentDoses) {
+        remainingMg -= dose.doseQuantity * unitMg;
+        if (remainingMg + newDoseMg <= medication.prnMaxMgPer24h) {
+          allowedFrom.push(addHours(dose.givenTime, 24));
+          break;
+        }
+      }
+    }
+
+    return {
+      allowed: violations.length === 0,
+      violations,
+      nextDoseAllowedAt: allowedFrom.length > 0 ? new Date(Math.max(...allowedFrom.map((d) => d.getTime()))) : null,
+      dosesInLast24h: recent.length,
+      mgInLast24h,
+    };
+  }
+
+  /**
+   * Strength of one unit in mg, from doseMg or parsed from the dosage string
+   * ("500mg", "1 g", "0.5g"). Returns null when it can't be determined.
+   */
+  static getDoseMg(medication: Pick<Medication, 'dosage' | 'doseMg'>): number | null {
+    if (medication.doseMg != null) {
+      return medication.doseMg;
+    }
+
+    const match = medication.dosage?.match(/(\d+(?:\.\d+)?)\s*(mg|g|mcg)\b/i);
+    if (!match) {
+      return null;
+    }
+
+    const value = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'g':
+        return value * 1000;
+      case 'mcg':
+        return value / 1000;
+      default:
+        return value;
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { MedicationRefillStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CacheService, CACHE_KEYS } from '../system/module/cache';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CreateMedicationRefillDto, UpdateMedicationRefillDto } from './dto/medication-refill.dto';
+
+export const OPEN_REFILL_STATUSES: MedicationRefillStatus[] = ['REQUESTED', 'ORDERED', 'READY_FOR_PICKUP'];
+
+// Steps may be skipped (e.g. a refill picked up the same day it was requested)
+const ALLOWED_TRANSITIONS: Record<MedicationRefillStatus, MedicationRefillStatus[]> = {
+  REQUESTED: ['ORDERED', 'READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED'],
+  ORDERED: ['READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED'],
+  READY_FOR_PICKUP: ['PICKED_UP', 'CANCELLED'],
+  PICKED_UP: [],
+  CANCELLED: [],
+};
+
+const REFILL_INCLUDE = {
+  requestedBy: { select: { id: true, fullName: true } },
+  assignedTo: { select: { id: true, fullName: true } },
+} satisfies Prisma.MedicationRefillInclude;
+
+/**
+ * Refill lifecycle for a medication: requested, ordered, ready for pickup,
+ * picked up. Picking up adds the refill quantity to the medication's supply.
+ */
+@Injectable()
+export class MedicationRefillsService {
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notifications: NotificationsService,
+  ) {}
+
+  private async getMedicationForMember(medicationId: string, userId: string, forWrite = false) {
+    const medication = await this.prisma.medication.findUnique({
+      where: { id: medicationId },
+      include: { careRecipient: true },
+    });
+
+    if (!medication) {
+      throw new NotFoundException('Medication not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: medication.careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    if (forWrite && membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot manage refills');
+    }
+
+    return medication;
+  }
+
+  private async verifyAssignee(familyId: string, assignedToId: string) {
+    const assignee = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId, userId: assignedToId } },
+    });
+
+    if (!assignee || !assignee.isActive) {
+      throw new BadRequestException('Pickup can only be assigned to an active family member');
+    }
+  }
+
+  async findAll(medicationId: string, userId: string) {
+    await this.getMedicationForMember(medicationId, userId);
+
+    return this.prisma.medicationRefill.findMany({
+      where: { medicationId },
+      include: REFILL_INCLUDE,
+      orderBy: { requestedAt: 'desc' },
+    });
+  }
+
+  async create(medicationId: string, userId: string, dto: CreateMedicationRefillDto) {
+    const medication = await this.getMedicationForMember(medicationId, userId, true);
+
+    const openRefill = await this.prisma.medicationRefill.findFirst({
+      where: { medicationId, status: { in: OPEN_REFILL_STATUSES } },
+    });
+
+    if (openRefill) {
+      throw new ConflictException('A refill is already in progress for this medication');
+    }
+
+    if (dto.assignedToId) {
+      await this.verifyAssignee(medication.careRecipient.familyId, dto.assignedToId);
+    }
+
+    let refill;
+    try {
+      refill = await this.prisma.medicationRefill.create({
+        data: {
+          medicationId,
+          requestedById: userId,
+          quantity: dto.quantity,
+          pharmacy: dto.pharmacy ?? medication.pharmacy,
+          notes: dto.notes,
+          assignedToId: dto.assignedToId,
+          pickupDueAt: dto.pickupDueAt ? new Date(dto.pickupDueAt) : undefined,
+        },
+        include: REFILL_INCLUDE,
+      });
+    } catch (error) {
+      // The open-refill unique index catches a request that raced the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('A refill is already in progress for this medication');
+      }
+      throw error;
+    }
+
+    if (refill.assignedToId && refill.assignedToId !== userId) {
+      await this.notifications.notifyRefillPickup(refill, medication, 'assigned');
+    }
+
+    return refill;
+  }
+
+  async update(refillId: string, userId: string, dto: UpdateMedicationRefillDto) {
+    const refill = await this.prisma.medicationRefill.findUnique({
+      where: { id: refillId },
+    });
+
+    if (!refill) {
+      throw new NotFoundException('Refill not found');
+    }
+
+    const medication = await this.getMedicationForMember(refill.medicationId, userId, true);
+
+    if (!OPEN_REFILL_STATUSES.includes(refill.status)) {
+      throw new BadRequestException(`Refill is already ${refill.status.toLowerCase().replace(/_/g, ' ')}`);
+    }
+
+    const statusChanged = dto.status !== undefined && dto.status !== refill.status;
+    if (statusChanged && !ALLOWED_TRANSITIONS[refill.status].includes(dto.status!)) {
+      throw new BadRequestException(`Cannot move a refill from ${refill.status} to ${dto.status}`);
+    }
+
+    if (dto.assignedToId && dto.assignedToId !== refill.assignedToId) {
+      await this.verifyAssignee(medication.careRecipient.familyId, dto.assignedToId);
+    }
+
+    const quantity = dto.quantity ?? refill.quantity;
+    const pickedUp = statusChanged && dto.status === 'PICKED_UP';
+
+    if (pickedUp && medication.currentSupply !== null && !quantity) {
+      throw new BadRequestException('Set the quantity picked up so the supply can be updated');
+    }
+
+    const now = new Date();
+    const data: Prisma.MedicationRefillUncheckedUpdateManyInput = {
+      quantity: dto.quantity,
+      pharmacy: dto.pharmacy,
+      notes: dto.notes,
+      pickupDueAt: dto.pickupDueAt ? new Date(dto.pickupDueAt) : undefined,
+      ...(dto.assignedToId && { assignedToId: dto.assignedToId }),
+      ...(statusChanged && {
+        status: dto.status,
+        orderedAt: dto.status === 'ORDERED' ? now : undefined,
+        readyAt: dto.status === 'READY_FOR_PICKUP' ? now : undefined,
+        pickedUpAt: dto.status === 'PICKED_UP' ? now : undefined,
+        cancelledAt: dto.status === 'CANCELLED' ? now : undefined,
+      }),
+      // The ready notification counts as the first pickup reminder
+      ...(statusChanged && dto.status === 'READY_FOR_PICKUP' && { lastReminderAt: now }),
+    };
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Only if the refill is still in the status it was read in, so two
+      // concurrent pickups can't both add to the supply
+      const { count } = await tx.medicationRefill.updateMany({
+        where: { id: refillId, status: refill.status },
+        data,
+      });
+
+      if (count === 0) {
+        throw new ConflictException('This refill was updated by someone else. Refresh and try again.');
+      }
+
+      const result = await tx.medicationRefill.findUniqueOrThrow({
+        where: { id: refillId },
+        include: REFILL_INCLUDE,
+      });
+
+      if (pickedUp) {
+        await tx.medication.update({
+          where: { id: medication.id },
+          data: {
+            lastRefillDate: now,
+            ...(quantity && {
+              currentSupply: medication.currentSupply === null ? quantity : { increment: quantity },
+            }),
+          },
+        });
+      }
+
+      return result;
+    });
+
+    if (pickedUp) {
+      await this.cacheService.del([
+        CACHE_KEYS.MEDICATIONS(medication.careRecipientId),
+        CACHE_KEYS.MEDICATION(medication.id),
+      ]);
+    }
+
+    if (statusChanged && dto.status === 'READY_FOR_PICKUP') {
+      await this.notifications.notifyRefillPickup(updated, medication, 'ready');
+    } else if (updated.assignedToId && updated.assignedToId !== refill.assignedToId && updated.assignedToId !== userId) {
+      await this.notifications.notifyRefillPickup(updated, medication, 'assigned');
+    }
+
+    return updated;
+  }
+}
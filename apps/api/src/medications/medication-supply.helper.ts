@@ -0,0 +1,120 @@
+import { Medication } from '@prisma/client';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { ScheduledMedication, getDosesForDay } from '@carecircle/scheduling';
+
+export interface SupplyForecast {
+  medicationId: string;
+  currentSupply: number | null;
+  refillAt: number | null;
+  averageDailyUsage: number | null;
+  projectedRunOutDate: Date | null;
+  daysRemaining: number | null;
+  needsRefill: boolean;
+  basis: 'schedule' | 'history' | 'none';
+}
+
+// How far ahead scheduled doses are walked before giving up
+const MAX_FORECAST_DAYS = 365;
+
+/**
+ * Projects when a medication's supply will run out.
+ *
+ * Scheduled medications walk the dose schedule forward (so tapers and cycles
+ * are accounted for); as-needed medications use recent consumption instead.
+ */
+export class MedicationSupplyHelper {
+  /**
+   * @param recentUnitsGiven units taken over the last `historyDays` days, used when nothing is scheduled
+   */
+  static forecast(
+    medication: Medication & ScheduledMedication,
+    now: Date,
+    recentUnitsGiven = 0,
+    historyDays = 30,
+  ): SupplyForecast {
+    const base = {
+      medicationId: medication.id,
+      currentSupply: medication.currentSupply,
+      refillAt: medication.refillAt,
+      needsRefill:
+        medication.currentSupply !== null &&
+        medication.refillAt !== null &&
+        medication.currentSupply <= medication.refillAt,
+    };
+
+    if (medication.currentSupply === null) {
+      return { ...base, averageDailyUsage: null, projectedRunOutDate: null, daysRemaining: null, basis: 'none' };
+    }
+
+    const scheduled = this.forecastFromSchedule(medication, medication.currentSupply, now);
+    if (scheduled) {
+      return { ...base, ...scheduled, basis: 'schedule' };
+    }
+
+    if (recentUnitsGiven > 0) {
+      const averageDailyUsage = recentUnitsGiven / historyDays;
+      const daysRemaining = Math.floor(medication.currentSupply / averageDailyUsage);
+      return {
+        ...base,
+        averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+        projectedRunOutDate: addDays(now, daysRemaining),
+        daysRemaining,
+        basis: 'history',
+      };
+    }
+
+    return { ...base, averageDailyUsage: null, projectedRunOutDate: null, daysRemaining: null, basis: 'none' };
+  }
+
+  /**
+   * Walk upcoming doses until one can no longer be covered. Returns null when
+   * nothing is scheduled in the forecast window.
+   */
+  private static forecastFromSchedule(
+    medication: Medication & ScheduledMedication,
+    supply: number,
+    now: Date,
+  ): Pick<SupplyForecast, 'averageDailyUsage' | 'projectedRunOutDate' | 'daysRemaining'> | null {
+    let remaining = supply;
+    let unitsScheduled = 0;
+    let lastDay = now;
+
+    for (let offset = 0; offset < MAX_FORECAST_DAYS; offset++) {
+      const day = addDays(now, offset);
+      const doses = getDosesForDay(medication, day).filter(
+        (dose) => dose.scheduledTime > now,
+      );
+
+      for (const dose of doses) {
+        unitsScheduled += dose.doseQuantity;
+        lastDay = dose.scheduledTime;
+
+        if (dose.doseQuantity > remaining) {
+          return {
+            averageDailyUsage: this.dailyUsage(unitsScheduled, now, dose.scheduledTime),
+            projectedRunOutDate: dose.scheduledTime,
+            daysRemaining: differenceInCalendarDays(dose.scheduledTime, now),
+          };
+        }
+
+        remaining -= dose.doseQuantity;
+      }
+    }
+
+    if (unitsScheduled === 0) {
+      return null;
+    }
+
+    // Supply outlasts the window (or the medication ends first)
+    return {
+      averageDailyUsage: this.dailyUsage(unitsScheduled, now, lastDay),
+      projectedRunOutDate: null,
+      daysRemaining: null,
+    };
+  }
+
+  private static dailyUsage(units: number, from: Date, to: Date): number {
+    const days = Math.max(1, differenceInCalendarDays(to, from) + 1);
+    return Math.round((units / days) * 100) / 100;
+  }
+}
@@ -8,14 +8,25 @@ import {
   Delete,
   Query,
   ParseUUIDPipe,
+  UseGuards,
+  Res,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
+import { Response } from 'express';
+import { format } from 'date-fns';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiBody, ApiQuery } from '@nestjs/swagger';
 import { MedicationsService } from './medications.service';
 import { MedicationInteractionsService } from './medication-interactions.service';
+import { InteractionDatasetService } from './interaction-dataset.service';
+import { MedicationRefillsService } from './medication-refills.service';
+import { MedicationMarHelper } from './medication-mar.helper';
+import { MedicationMarPdfHelper } from './medication-mar-pdf.helper';
 import { CreateMedicationDto } from './dto/create-medication.dto';
 import { UpdateMedicationDto } from './dto/update-medication.dto';
 import { LogMedicationDto } from './dto/log-medication.dto';
+import { ImportInteractionDatasetDto } from './dto/import-interaction-dataset.dto';
+import { CreateMedicationRefillDto, UpdateMedicationRefillDto } from './dto/medication-refill.dto';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { AdminGuard } from '../admin/guards/admin.guard';
 
 interface CurrentUserPayload {
   id: string;
@@ -57,6 +68,74 @@ export class MedicationsController {
     return this.medicationsService.getScheduleForDay(careRecipientId, user.id, new Date());
   }
 
+  @Get('adherence')
+  @ApiOperation({
+    summary: 'Get medication adherence statistics',
+    description: 'Adherence percentages, streaks, most-missed time slots and per-caregiver counts. Defaults to the last 30 days.',
+  })
+  getAdherence(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.medicationsService.getAdherence(
+      careRecipientId,
+      user.id,
+      from ? new Date(from) : undefined,
+      to ? new Date(to) : undefined,
+    );
+  }
+
+  @Get('mar')
+  @ApiOperation({
+    summary: 'Export a medication administration record (MAR)',
+    description: 'Month grid of medications × days × scheduled times, marked given/skipped/missed with caregiver initials. Defaults to the current month.',
+  })
+  @ApiQuery({ name: 'month', required: false, example: '2024-03' })
+  @ApiQuery({ name: 'format', enum: ['pdf', 'csv', 'json'], required: false })
+  async exportMar(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Res() res: Response,
+    @Query('month') month?: string,
+    @Query('format') exportFormat: 'pdf' | 'csv' | 'json' = 'pdf',
+  ) {
+    const sheet = await this.medicationsService.getMar(
+      careRecipientId,
+      user.id,
+      month || format(new Date(), 'yyyy-MM'),
+    );
+    const filename = `mar-${sheet.month}`;
+
+    if (exportFormat === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+      return res.send(MedicationMarHelper.toCsv(sheet));
+    }
+
+    if (exportFormat === 'json') {
+      return res.json(sheet);
+    }
+
+    const pdf = await MedicationMarPdfHelper.render(sheet);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+    return res.send(pdf);
+  }
+
+  @Get('supply')
+  @ApiOperation({
+    summary: 'Get supply forecasts',
+    description: 'Projected run-out date for each active medication, based on its schedule (or recent usage for as-needed medications), with any refill in progress.',
+  })
+  getSupplyForecasts(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.medicationsService.getSupplyForecasts(careRecipientId, user.id);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get a medication by ID' })
   findOne(
@@ -128,6 +207,49 @@ export class MedicationLogsController {
   }
 }
 
+// Medication Refills Controller
+@ApiTags('Medication Refills')
+@ApiBearerAuth('JWT-auth')
+@Controller('medications')
+export class MedicationRefillsController {
+  constructor(private readonly refillsService: MedicationRefillsService) {}
+
+  @Get(':medicationId/refills')
+  @ApiOperation({ summary: 'Get refill history for a medication' })
+  findAll(
+    @Param('medicationId', ParseUUIDPipe) medicationId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.refillsService.findAll(medicationId, user.id);
+  }
+
+  @Post(':medicationId/refills')
+  @ApiOperation({
+    summary: 'Request a refill',
+    description: 'Starts a refill (REQUESTED). Only one refill per medication can be in progress.',
+  })
+  create(
+    @Param('medicationId', ParseUUIDPipe) medicationId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: CreateMedicationRefillDto,
+  ) {
+    return this.refillsService.create(medicationId, user.id, dto);
+  }
+
+  @Patch('refills/:refillId')
+  @ApiOperation({
+    summary: 'Update a refill',
+    description: 'Advance the status (ORDERED, READY_FOR_PICKUP, PICKED_UP, CANCELLED) or reassign the pickup. PICKED_UP adds the quantity to current supply.',
+  })
+  update(
+    @Param('refillId', ParseUUIDPipe) refillId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateMedicationRefillDto,
+  ) {
+    return this.refillsService.update(refillId, user.id, dto);
+  }
+}
+
 // Medication Interactions Controller
 @ApiTags('Medication Interactions')
 @ApiBearerAuth('JWT-auth')
@@ -144,14 +266,15 @@ export class MedicationInteractionsController {
   })
   checkCurrentInteractions(
     @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
   ) {
-    return this.interactionsService.checkCareRecipientMedications(careRecipientId);
+    return this.interactionsService.checkCareRecipientMedications(careRecipientId, user.id);
   }
 
   @Post('check-new')
   @ApiOperation({ 
     summary: 'Check if adding a new medication would cause interactions',
-    description: 'Checks potential interactions between a new medication and existing active medications.',
+    description: 'Checks potential interactions between a new medication and existing active medications, and flags conflicts with the care recipient\'s allergies and conditions.',
   })
   @ApiBody({
     schema: {
@@ -165,10 +288,12 @@ export class MedicationInteractionsController {
   })
   checkNewMedication(
     @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
     @Body() body: { medicationName: string; genericName?: string },
   ) {
     return this.interactionsService.checkNewMedicationInteractions(
       careRecipientId,
+      user.id,
       body.medicationName,
       body.genericName,
     );
@@ -211,11 +336,11 @@ export class GlobalInteractionsController {
     summary: 'Get detailed information about a specific interaction',
     description: 'Returns detailed information about the interaction between two specific drugs.',
   })
-  getInteractionDetails(
+  async getInteractionDetails(
     @Query('drug1') drug1: string,
     @Query('drug2') drug2: string,
   ) {
-    const interaction = this.interactionsService.getInteractionDetails(drug1, drug2);
+    const interaction = await this.interactionsService.getInteractionDetails(drug1, drug2);
     if (!interaction) {
       return { found: false, message: 'No known interaction between these medications.' };
     }
@@ -225,12 +350,44 @@ export class GlobalInteractionsController {
   @Get('known')
   @ApiOperation({ 
     summary: 'Get list of all known interactions in the database',
-    description: 'Returns the full list of known drug interactions for reference.',
+    description: 'Returns known drug interactions from the active provider, with the dataset version they come from.',
   })
   getAllKnownInteractions() {
-    return {
-      total: this.interactionsService.getAllKnownInteractions().length,
-      interactions: this.interactionsService.getAllKnownInteractions(),
-    };
+    return this.interactionsService.getAllKnownInteractions();
+  }
+}
+
+// Interaction dataset management (system admins)
+@ApiTags('Medication Interactions')
+@ApiBearerAuth('JWT-auth')
+@Controller('medications/interactions/datasets')
+@UseGuards(AdminGuard)
+export class InteractionDatasetsController {
+  constructor(
+    private readonly datasetService: InteractionDatasetService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List imported interaction datasets' })
+  listDatasets() {
+    return this.datasetService.listDatasets();
+  }
+
+  @Post()
+  @ApiOperation({ 
+    summary: 'Import an interaction dataset',
+    description: 'Imports interactions and brand-name aliases (JSON rows or CSV) as a new dataset version. Activates it unless activate is false.',
+  })
+  importDataset(
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: ImportInteractionDatasetDto,
+  ) {
+    return this.datasetService.importDataset(dto, user.id);
+  }
+
+  @Patch(':id/activate')
+  @ApiOperation({ summary: 'Make a dataset version the active one' })
+  activateDataset(@Param('id', ParseUUIDPipe) id: string) {
+    return this.datasetService.activateDataset(id);
   }
 }
@@ -1,11 +1,17 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MedicationsService } from './medications.service';
 import { MedicationInteractionsService } from './medication-interactions.service';
+import { InteractionDatasetService } from './interaction-dataset.service';
+import { MedicationRefillsService } from './medication-refills.service';
+import { BuiltinInteractionProvider } from './providers/builtin-interaction.provider';
+import { DatasetInteractionProvider } from './providers/dataset-interaction.provider';
 import { 
   MedicationsController, 
   MedicationLogsController,
+  MedicationRefillsController,
   MedicationInteractionsController,
   GlobalInteractionsController,
+  InteractionDatasetsController,
 } from './medications.controller';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { AiModule } from '../ai/ai.module';
@@ -15,10 +21,19 @@ import { AiModule } from '../ai/ai.module';
   controllers: [
     MedicationsController, 
     MedicationLogsController,
+    MedicationRefillsController,
     MedicationInteractionsController,
     GlobalInteractionsController,
+    InteractionDatasetsController,
+  ],
+  providers: [
+    MedicationsService,
+    MedicationInteractionsService,
+    InteractionDatasetService,
+    MedicationRefillsService,
+    BuiltinInteractionProvider,
+    DatasetInteractionProvider,
   ],
-  providers: [MedicationsService, MedicationInteractionsService],
   exports: [MedicationsService, MedicationInteractionsService],
 })
 export class MedicationsModule {}
@@ -1,11 +1,29 @@
-import { Injectable, NotFoundException, ForbiddenException, Inject, forwardRef, Optional } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  ConflictException,
+  Inject,
+  forwardRef,
+  Optional,
+} from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CareRecipient, Medication, MedicationSchedulePhase, Prisma } from '@prisma/client';
+import { differenceInCalendarDays, endOfMonth, isValid, parse, subDays, subHours } from 'date-fns';
+import { MIN_DOSE_INTERVAL_HOURS, getDoseQuantity, getDosesForDay, isValidRule } from '@carecircle/scheduling';
 import { PrismaService } from '../prisma/prisma.service';
 import { CacheService, CACHE_KEYS, CACHE_TTL } from '../system/module/cache';
 import { EventPublisherService } from '../events/publishers/event-publisher.service';
 import { ROUTING_KEYS } from '../events/events.constants';
 import { CreateMedicationDto } from './dto/create-medication.dto';
 import { LogMedicationDto } from './dto/log-medication.dto';
+import { SchedulePhaseDto } from './dto/schedule-phase.dto';
+import { MedicationPrnHelper, PrnCheckResult } from './medication-prn.helper';
+import { MedicationAdherenceHelper } from './medication-adherence.helper';
+import { MedicationSupplyHelper } from './medication-supply.helper';
+import { MedicationMarHelper, MarSheet } from './medication-mar.helper';
+import { OPEN_REFILL_STATUSES } from './medication-refills.service';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EmbeddingIndexerService } from '../ai/services/embedding-indexer.service';
 
@@ -48,6 +66,9 @@ export class MedicationsService {
       throw new ForbiddenException('Viewers cannot add medications');
     }
 
+    this.validateSchedulePhases(dto.schedulePhases);
+    this.validatePrnMgLimit(dto);
+
     const medication = await this.prisma.medication.create({
       data: {
         careRecipientId,
@@ -64,10 +85,18 @@ export class MedicationsService {
         scheduledTimes: dto.scheduledTimes || [],
         currentSupply: dto.currentSupply,
         refillAt: dto.refillAt,
+        doseMg: dto.doseMg,
+        prnMinIntervalHours: dto.prnMinIntervalHours,
+        prnMaxDosesPer24h: dto.prnMaxDosesPer24h,
+        prnMaxMgPer24h: dto.prnMaxMgPer24h,
         startDate: dto.startDate ? new Date(dto.startDate) : new Date(),
         endDate: dto.endDate ? new Date(dto.endDate) : undefined,
         notes: dto.notes,
+        ...(dto.schedulePhases?.length && {
+          schedulePhases: { create: this.toSchedulePhaseData(dto.schedulePhases) },
+        }),
       },
+      include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
     });
 
     // Invalidate cache
@@ -92,6 +121,7 @@ export class MedicationsService {
             careRecipientId,
             ...(activeOnly && { isActive: true }),
           },
+          include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
           orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
         }),
       CACHE_TTL.MEDICATIONS,
@@ -108,6 +138,7 @@ export class MedicationsService {
           where: { id },
           include: {
             careRecipient: true,
+            schedulePhases: { orderBy: { sequence: 'asc' } },
             logs: {
               orderBy: { scheduledTime: 'desc' },
               take: 10,
@@ -148,6 +179,13 @@ export class MedicationsService {
       throw new ForbiddenException('Viewers cannot update medications');
     }
 
+    this.validateSchedulePhases(dto.schedulePhases);
+    this.validatePrnMgLimit({
+      dosage: dto.dosage !== undefined ? dto.dosage : medication.dosage,
+      doseMg: dto.doseMg !== undefined ? dto.doseMg : medication.doseMg,
+      prnMaxMgPer24h: dto.prnMaxMgPer24h !== undefined ? dto.prnMaxMgPer24h : medication.prnMaxMgPer24h,
+    });
+
     const updated = await this.prisma.medication.update({
       where: { id },
       data: {
@@ -164,9 +202,21 @@ export class MedicationsService {
         scheduledTimes: dto.scheduledTimes,
         currentSupply: dto.currentSupply,
         refillAt: dto.refillAt,
+        doseMg: dto.doseMg,
+        prnMinIntervalHours: dto.prnMinIntervalHours,
+        prnMaxDosesPer24h: dto.prnMaxDosesPer24h,
+        prnMaxMgPer24h: dto.prnMaxMgPer24h,
         endDate: dto.endDate ? new Date(dto.endDate) : undefined,
         notes: dto.notes,
+        // Phases are replaced as a whole so sequence numbers stay contiguous
+        ...(dto.schedulePhases && {
+          schedulePhases: {
+            deleteMany: {},
+            create: this.toSchedulePhaseData(dto.schedulePhases),
+          },
+        }),
       },
+      include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
     });
 
     // Invalidate cache
@@ -270,10 +320,60 @@ export class MedicationsService {
     await this.cacheService.del(keys);
   }
 
+  private validateSchedulePhases(phases?: SchedulePhaseDto[]): void {
+    phases?.forEach((phase, index) => {
+      if (!isValidRule(phase.recurrenceRule)) {
+        throw new BadRequestException(
+          `Schedule phase ${index + 1} needs a daily, weekly or monthly rule, or doses every ${MIN_DOSE_INTERVAL_HOURS} to 24 hours`,
+        );
+      }
+      if (phase.endDate && new Date(phase.endDate) <= new Date(phase.startDate)) {
+        throw new BadRequestException(`Schedule phase ${index + 1} must end after it starts`);
+      }
+      if (!!phase.cycleDaysOn !== !!phase.cycleDaysOff) {
+        throw new BadRequestException(`Schedule phase ${index + 1} needs both cycleDaysOn and cycleDaysOff`);
+      }
+    });
+  }
+
+  /**
+   * A max mg per 24h limit can only be checked when the strength of a unit is
+   * known, so refuse it rather than save a limit that never runs
+   */
+  private validatePrnMgLimit(medication: {
+    dosage: string;
+    doseMg?: number | null;
+    prnMaxMgPer24h?: number | null;
+  }): void {
+    if (medication.prnMaxMgPer24h == null) {
+      return;
+    }
+
+    if (MedicationPrnHelper.getDoseMg({ dosage: medication.dosage, doseMg: medication.doseMg ?? null }) === null) {
+      throw new BadRequestException(
+        'Max mg per 24h needs the strength of one unit: set doseMg or give the dosage in mg, g or mcg (e.g. "500mg")',
+      );
+    }
+  }
+
+  private toSchedulePhaseData(phases: SchedulePhaseDto[]) {
+    return phases.map((phase, index) => ({
+      sequence: index,
+      startDate: new Date(phase.startDate),
+      endDate: phase.endDate ? new Date(phase.endDate) : null,
+      recurrenceRule: phase.recurrenceRule.replace(/^RRULE:/i, ''),
+      times: phase.times || [],
+      dosage: phase.dosage,
+      doseQuantity: phase.doseQuantity ?? 1,
+      cycleDaysOn: phase.cycleDaysOn,
+      cycleDaysOff: phase.cycleDaysOff,
+    }));
+  }
+
   async logMedication(id: string, userId: string, dto: LogMedicationDto) {
     const medication = await this.prisma.medication.findUnique({
       where: { id },
-      include: { careRecipient: true },
+      include: { careRecipient: true, schedulePhases: true },
     });
 
     if (!medication) {
@@ -286,34 +386,87 @@ export class MedicationsService {
       throw new ForbiddenException('Viewers cannot log medications');
     }
 
-    const log = await this.prisma.medicationLog.create({
-      data: {
-        medicationId: id,
+    const now = new Date();
+    const scheduledTime = new Date(dto.scheduledTime);
+    const doseQuantity = getDoseQuantity(medication, scheduledTime);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Lock the medication row so two quick doses are checked one after the
+      // other, and supply is taken from the latest count
+      const current = await tx.medication.update({
+        where: { id },
+        data: { updatedAt: now },
+        select: { currentSupply: true },
+      });
+
+      if (dto.status === 'GIVEN' && MedicationPrnHelper.hasSafeguards(medication)) {
+        const check = await this.checkPrnSafeguards(tx, medication, now, doseQuantity);
+        if (!check.allowed) {
+          return { rejected: check };
+        }
+      }
+
+      // A late log replaces the MISSED entry the missed-dose worker wrote for this dose
+      const systemMissedLog = await tx.medicationLog.findFirst({
+        where: {
+          medicationId: id,
+          scheduledTime,
+          status: 'MISSED',
+          givenById: null,
+        },
+      });
+
+      const logData = {
         givenById: userId,
-        scheduledTime: new Date(dto.scheduledTime),
-        givenTime: dto.status === 'GIVEN' ? new Date() : null,
+        scheduledTime,
+        givenTime: dto.status === 'GIVEN' ? now : null,
         status: dto.status,
         skipReason: dto.skipReason,
         notes: dto.notes,
-      },
-      include: {
+      };
+      const include = {
         givenBy: {
           select: { id: true, fullName: true },
         },
-      },
+      };
+
+      const log = systemMissedLog
+        ? await tx.medicationLog.update({
+            where: { id: systemMissedLog.id },
+            data: logData,
+            include,
+          })
+        : await tx.medicationLog.create({
+            data: { medicationId: id, ...logData },
+            include,
+          });
+
+      // Update supply if given (tapers and multi-unit doses take more than one unit)
+      let newSupply: number | null = null;
+      if (dto.status === 'GIVEN' && current.currentSupply !== null) {
+        newSupply = Math.max(0, current.currentSupply - doseQuantity);
+        await tx.medication.update({
+          where: { id },
+          data: { currentSupply: newSupply },
+        });
+      }
+
+      return { log, newSupply };
     });
 
-    // Update supply if given
-    if (dto.status === 'GIVEN' && medication.currentSupply !== null) {
-      const newSupply = medication.currentSupply - 1;
+    if ('rejected' in result) {
+      return this.rejectPrnDose(medication, userId, now, result.rejected);
+    }
 
-      await this.prisma.medication.update({
-        where: { id },
-        data: { currentSupply: newSupply },
+    const { log, newSupply } = result;
+
+    // Check if refill needed (unless one is already on its way)
+    if (newSupply !== null && medication.refillAt && newSupply <= medication.refillAt) {
+      const refillInProgress = await this.prisma.medicationRefill.count({
+        where: { medicationId: id, status: { in: OPEN_REFILL_STATUSES } },
       });
 
-      // Check if refill needed
-      if (medication.refillAt && newSupply <= medication.refillAt) {
+      if (refillInProgress === 0) {
         await this.notifications.notifyMedicationRefillNeeded(
           medication,
           medication.careRecipient,
@@ -357,6 +510,67 @@ export class MedicationsService {
     return log;
   }
 
+  /**
+   * Publish a warning event for a dose that would exceed a PRN limit and
+   * reject the log
+   */
+  private async rejectPrnDose(
+    medication: Medication & { careRecipient: CareRecipient },
+    userId: string,
+    now: Date,
+    check: PrnCheckResult,
+  ): Promise<never> {
+    try {
+      await this.eventPublisher.publish(
+        ROUTING_KEYS.MEDICATION_PRN_LIMIT_EXCEEDED,
+        {
+          medicationId: medication.id,
+          medicationName: medication.name,
+          careRecipientId: medication.careRecipientId,
+          careRecipientName: medication.careRecipient.preferredName || medication.careRecipient.fullName,
+          familyId: medication.careRecipient.familyId,
+          attemptedById: userId,
+          attemptedAt: now.toISOString(),
+          violations: check.violations.map((v) => ({ ...v })),
+          nextDoseAllowedAt: check.nextDoseAllowedAt?.toISOString() ?? null,
+        },
+        { aggregateType: 'Medication', aggregateId: medication.id },
+        { familyId: medication.careRecipient.familyId, careRecipientId: medication.careRecipientId, causedBy: userId },
+      );
+    } catch (error) {
+      console.warn('Failed to publish medication.prn_limit_exceeded event:', error);
+    }
+
+    throw new ConflictException({
+      message: check.violations.map((v) => v.message).join('. '),
+      violations: check.violations,
+      nextDoseAllowedAt: check.nextDoseAllowedAt,
+    });
+  }
+
+  private async checkPrnSafeguards(
+    client: Prisma.TransactionClient,
+    medication: Medication & { schedulePhases: MedicationSchedulePhase[] },
+    at: Date,
+    doseQuantity = 1,
+  ): Promise<PrnCheckResult> {
+    const recentLogs = await client.medicationLog.findMany({
+      where: {
+        medicationId: medication.id,
+        status: 'GIVEN',
+        givenTime: { gt: subHours(at, 24), lte: at },
+      },
+      select: { givenTime: true, scheduledTime: true },
+    });
+
+    return MedicationPrnHelper.check(
+      medication,
+      recentLogs.map((l) => ({ givenTime: l.givenTime, doseQuantity: getDoseQuantity(medication, l.scheduledTime) })),
+      at,
+      doseQuantity,
+    );
+  }
+
   async getMedicationLogs(id: string, userId: string, options?: {
     startDate?: Date;
     endDate?: Date;
@@ -396,6 +610,155 @@ export class MedicationsService {
     });
   }
 
+  /**
+   * Adherence statistics for all medications that were active during [from, to]
+   */
+  async getAdherence(careRecipientId: string, userId: string, from?: Date, to?: Date) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const rangeEnd = to || new Date();
+    const rangeStart = from || subDays(rangeEnd, 30);
+
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime())) {
+      throw new BadRequestException('from and to must be valid dates');
+    }
+
+    if (rangeStart > rangeEnd) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    if (differenceInCalendarDays(rangeEnd, rangeStart) > 366) {
+      throw new BadRequestException('Adherence range cannot exceed one year');
+    }
+
+    const [medications, logs, stays] = await Promise.all([
+      this.prisma.medication.findMany({
+        where: {
+          careRecipientId,
+          startDate: { lte: rangeEnd },
+          OR: [{ endDate: null }, { endDate: { gte: rangeStart } }],
+        },
+        include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.medicationLog.findMany({
+        where: {
+          medication: { careRecipientId },
+          scheduledTime: { gte: rangeStart, lte: rangeEnd },
+        },
+        select: {
+          medicationId: true,
+          scheduledTime: true,
+          status: true,
+          givenBy: { select: { id: true, fullName: true } },
+        },
+      }),
+      this.findStaysOverlapping(careRecipientId, rangeStart, rangeEnd),
+    ]);
+
+    return MedicationAdherenceHelper.buildReport(medications, logs, rangeStart, rangeEnd, stays);
+  }
+
+  /**
+   * Medication administration record for one calendar month (yyyy-MM)
+   */
+  async getMar(careRecipientId: string, userId: string, month: string): Promise<MarSheet> {
+    const { careRecipient } = await this.verifyAccess(careRecipientId, userId);
+
+    const monthStart = parse(month, 'yyyy-MM', new Date());
+    if (!/^\d{4}-\d{2}$/.test(month) || !isValid(monthStart)) {
+      throw new BadRequestException('month must be in yyyy-MM format');
+    }
+    const monthEnd = endOfMonth(monthStart);
+
+    const [medications, logs, stays] = await Promise.all([
+      this.prisma.medication.findMany({
+        where: {
+          careRecipientId,
+          startDate: { lte: monthEnd },
+          OR: [{ endDate: null }, { endDate: { gte: monthStart } }],
+        },
+        include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.medicationLog.findMany({
+        where: {
+          medication: { careRecipientId },
+          OR: [
+            { scheduledTime: { gte: monthStart, lte: monthEnd } },
+            { givenTime: { gte: monthStart, lte: monthEnd } },
+          ],
+        },
+        select: {
+          medicationId: true,
+          scheduledTime: true,
+          givenTime: true,
+          status: true,
+          givenBy: { select: { id: true, fullName: true } },
+        },
+        orderBy: { scheduledTime: 'asc' },
+      }),
+      this.findStaysOverlapping(careRecipientId, monthStart, monthEnd),
+    ]);
+
+    return MedicationMarHelper.buildSheet(careRecipient, medications, logs, monthStart, stays);
+  }
+
+  /**
+   * Hospital stays overlapping [from, to]; doses in them were the hospital's to give
+   */
+  private findStaysOverlapping(careRecipientId: string, from: Date, to: Date) {
+    return this.prisma.hospitalStay.findMany({
+      where: {
+        careRecipientId,
+        admittedAt: { lte: to },
+        OR: [{ dischargedAt: null }, { dischargedAt: { gte: from } }],
+      },
+      select: { admittedAt: true, dischargedAt: true },
+    });
+  }
+
+  /**
+   * Supply forecast for each active medication, with any refill in progress
+   */
+  async getSupplyForecasts(careRecipientId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const now = new Date();
+    const historyDays = 30;
+
+    const medications = await this.prisma.medication.findMany({
+      where: { careRecipientId, isActive: true },
+      include: {
+        schedulePhases: { orderBy: { sequence: 'asc' } },
+        refills: {
+          where: { status: { in: OPEN_REFILL_STATUSES } },
+          include: { assignedTo: { select: { id: true, fullName: true } } },
+          take: 1,
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    // As-needed medications are forecast from how fast they were used recently
+    const recentUsage = await this.prisma.medicationLog.groupBy({
+      by: ['medicationId'],
+      where: {
+        medicationId: { in: medications.map((m) => m.id) },
+        status: 'GIVEN',
+        givenTime: { gte: subDays(now, historyDays) },
+      },
+      _count: { _all: true },
+    });
+    const usageByMedication = new Map(recentUsage.map((u) => [u.medicationId, u._count._all]));
+
+    return medications.map(({ refills, ...medication }) => ({
+      ...MedicationSupplyHelper.forecast(medication, now, usageByMedication.get(medication.id) ?? 0, historyDays),
+      medicationName: medication.name,
+      openRefill: refills[0] ?? null,
+    }));
+  }
+
   async getScheduleForDay(careRecipientId: string, userId: string, date: Date) {
     await this.verifyAccess(careRecipientId, userId);
 
@@ -404,6 +767,7 @@ export class MedicationsService {
         careRecipientId,
         isActive: true,
       },
+      include: { schedulePhases: { orderBy: { sequence: 'asc' } } },
     });
 
     // Get logs for the day
@@ -420,11 +784,30 @@ export class MedicationsService {
     });
 
     // Build schedule with status
-    return medications.map((med) => ({
-      medication: med,
-      scheduledTimes: med.scheduledTimes,
-      logs: logs.filter((l) => l.medicationId === med.id),
-    }));
+    const now = new Date();
+    return Promise.all(
+      medications.map(async (med) => {
+        const doses = getDosesForDay(med, date);
+        const prn = MedicationPrnHelper.hasSafeguards(med)
+          ? await this.checkPrnSafeguards(this.prisma, med, now, getDoseQuantity(med, now))
+          : null;
+
+        return {
+          medication: med,
+          scheduledTimes: doses.map((dose) => dose.time),
+          doses,
+          logs: logs.filter((l) => l.medicationId === med.id),
+          ...(prn && {
+            prn: {
+              canGiveNow: prn.allowed,
+              nextDoseAllowedAt: prn.nextDoseAllowedAt,
+              dosesInLast24h: prn.dosesInLast24h,
+              mgInLast24h: prn.mgInLast24h,
+            },
+          }),
+        };
+      }),
+    );
   }
 }
 
@@ -0,0 +1,282 @@
+import { Injectable } from '@nestjs/common';
+import { DrugNameHelper } from '../drug-name.helper';
+import { DrugInteraction, DrugInteractionProvider } from './drug-interaction.provider';
+
+/**
+ * Known drug interactions database
+ * Curated list of common interactions, used when no dataset has been imported
+ * (see DatasetInteractionProvider for DrugBank/RxNorm-style imports)
+ */
+const KNOWN_INTERACTIONS: DrugInteraction[] = [
+  // Blood thinners
+  {
+    drug1: 'warfarin',
+    drug2: 'aspirin',
+    severity: 'major',
+    description: 'Increased risk of bleeding when used together.',
+    mechanism: 'Both medications affect blood clotting through different mechanisms.',
+    clinicalEffects: 'May cause serious bleeding, including GI bleeding or intracranial hemorrhage.',
+    management: 'Avoid combination if possible. If necessary, use lowest effective aspirin dose and monitor closely.',
+  },
+  {
+    drug1: 'warfarin',
+    drug2: 'ibuprofen',
+    severity: 'major',
+    description: 'NSAIDs increase the risk of bleeding with warfarin.',
+    mechanism: 'NSAIDs inhibit platelet function and may cause GI irritation.',
+    clinicalEffects: 'Significantly increased bleeding risk, particularly GI bleeding.',
+    management: 'Avoid NSAIDs. Use acetaminophen for pain if needed.',
+  },
+  {
+    drug1: 'warfarin',
+    drug2: 'vitamin k',
+    severity: 'major',
+    description: 'Vitamin K reduces the effectiveness of warfarin.',
+    mechanism: 'Vitamin K is the antidote to warfarin and promotes clotting.',
+    clinicalEffects: 'May cause treatment failure and increase risk of blood clots.',
+    management: 'Maintain consistent vitamin K intake. Avoid large changes in diet.',
+  },
+
+  // ACE Inhibitors
+  {
+    drug1: 'lisinopril',
+    drug2: 'potassium',
+    severity: 'major',
+    description: 'Risk of dangerously high potassium levels.',
+    mechanism: 'ACE inhibitors reduce potassium excretion.',
+    clinicalEffects: 'Hyperkalemia can cause life-threatening cardiac arrhythmias.',
+    management: 'Monitor potassium levels closely. Avoid potassium supplements unless prescribed.',
+  },
+  {
+    drug1: 'lisinopril',
+    drug2: 'spironolactone',
+    severity: 'major',
+    description: 'Both medications can increase potassium levels.',
+    mechanism: 'Additive potassium-sparing effects.',
+    clinicalEffects: 'Hyperkalemia risk, particularly in patients with renal impairment.',
+    management: 'Monitor potassium and renal function. Use with caution.',
+  },
+
+  // Statins
+  {
+    drug1: 'atorvastatin',
+    drug2: 'grapefruit',
+    severity: 'moderate',
+    description: 'Grapefruit can increase statin levels in blood.',
+    mechanism: 'Grapefruit inhibits CYP3A4 enzyme that metabolizes atorvastatin.',
+    clinicalEffects: 'Increased risk of muscle pain and rhabdomyolysis.',
+    management: 'Limit grapefruit consumption or consider alternative statin.',
+  },
+  {
+    drug1: 'simvastatin',
+    drug2: 'amiodarone',
+    severity: 'contraindicated',
+    description: 'Significantly increased risk of muscle damage.',
+    mechanism: 'Amiodarone inhibits statin metabolism.',
+    clinicalEffects: 'High risk of rhabdomyolysis (severe muscle breakdown).',
+    management: 'Do not exceed simvastatin 10mg/day or use alternative statin.',
+  },
+
+  // Diabetes medications
+  {
+    drug1: 'metformin',
+    drug2: 'contrast dye',
+    severity: 'major',
+    description: 'Risk of lactic acidosis with iodinated contrast.',
+    mechanism: 'Contrast-induced nephropathy may reduce metformin clearance.',
+    clinicalEffects: 'Lactic acidosis can be life-threatening.',
+    management: 'Hold metformin before/after contrast procedures. Resume after 48 hours if kidney function normal.',
+  },
+  {
+    drug1: 'insulin',
+    drug2: 'metformin',
+    severity: 'moderate',
+    description: 'Increased risk of hypoglycemia.',
+    mechanism: 'Additive blood sugar lowering effects.',
+    clinicalEffects: 'Low blood sugar symptoms: shakiness, confusion, sweating.',
+    management: 'Monitor blood sugar closely. May need dose adjustments.',
+  },
+
+  // Antidepressants
+  {
+    drug1: 'sertraline',
+    drug2: 'tramadol',
+    severity: 'major',
+    description: 'Risk of serotonin syndrome.',
+    mechanism: 'Both medications increase serotonin levels.',
+    clinicalEffects: 'Serotonin syndrome: agitation, tremor, rapid heartbeat, high temperature.',
+    management: 'Avoid combination if possible. Monitor for serotonin syndrome symptoms.',
+  },
+  {
+    drug1: 'fluoxetine',
+    drug2: 'mao inhibitors',
+    severity: 'contraindicated',
+    description: 'Life-threatening serotonin syndrome.',
+    mechanism: 'Dangerous accumulation of serotonin.',
+    clinicalEffects: 'Severe serotonin syndrome, potentially fatal.',
+    management: 'Absolutely contraindicated. Allow 5-week washout period.',
+  },
+
+  // Blood pressure medications
+  {
+    drug1: 'amlodipine',
+    drug2: 'simvastatin',
+    severity: 'moderate',
+    description: 'Amlodipine may increase simvastatin levels.',
+    mechanism: 'CYP3A4 interaction.',
+    clinicalEffects: 'Increased risk of muscle problems.',
+    management: 'Limit simvastatin to 20mg/day when used with amlodipine.',
+  },
+  {
+    drug1: 'metoprolol',
+    drug2: 'verapamil',
+    severity: 'major',
+    description: 'Additive effects on heart rate and conduction.',
+    mechanism: 'Both slow heart rate and affect cardiac conduction.',
+    clinicalEffects: 'Severe bradycardia, heart block, heart failure.',
+    management: 'Avoid combination. Use with extreme caution if necessary.',
+  },
+
+  // Pain medications
+  {
+    drug1: 'oxycodone',
+    drug2: 'benzodiazepine',
+    severity: 'contraindicated',
+    description: 'Life-threatening respiratory depression.',
+    mechanism: 'Both are CNS depressants.',
+    clinicalEffects: 'Respiratory depression, sedation, coma, death.',
+    management: 'FDA black box warning. Avoid combination.',
+  },
+  {
+    drug1: 'acetaminophen',
+    drug2: 'alcohol',
+    severity: 'major',
+    description: 'Increased risk of liver damage.',
+    mechanism: 'Both are metabolized by the liver.',
+    clinicalEffects: 'Hepatotoxicity, especially with chronic use.',
+    management: 'Limit acetaminophen dose. Avoid chronic alcohol use.',
+  },
+
+  // Thyroid
+  {
+    drug1: 'levothyroxine',
+    drug2: 'calcium',
+    severity: 'moderate',
+    description: 'Calcium reduces levothyroxine absorption.',
+    mechanism: 'Calcium binds to levothyroxine in the GI tract.',
+    clinicalEffects: 'Subtherapeutic thyroid levels.',
+    management: 'Take levothyroxine 4 hours apart from calcium.',
+  },
+  {
+    drug1: 'levothyroxine',
+    drug2: 'iron',
+    severity: 'moderate',
+    description: 'Iron reduces levothyroxine absorption.',
+    mechanism: 'Iron forms complexes with levothyroxine.',
+    clinicalEffects: 'Subtherapeutic thyroid levels.',
+    management: 'Take levothyroxine 4 hours apart from iron supplements.',
+  },
+
+  // Antibiotics
+  {
+    drug1: 'ciprofloxacin',
+    drug2: 'antacids',
+    severity: 'moderate',
+    description: 'Antacids reduce ciprofloxacin absorption.',
+    mechanism: 'Metal cations bind to fluoroquinolones.',
+    clinicalEffects: 'Reduced antibiotic effectiveness.',
+    management: 'Take ciprofloxacin 2 hours before or 6 hours after antacids.',
+  },
+  {
+    drug1: 'metronidazole',
+    drug2: 'alcohol',
+    severity: 'major',
+    description: 'Disulfiram-like reaction with alcohol.',
+    mechanism: 'Metronidazole inhibits alcohol metabolism.',
+    clinicalEffects: 'Severe nausea, vomiting, flushing, headache.',
+    management: 'Avoid alcohol during and 3 days after treatment.',
+  },
+];
+
+/**
+ * Common brand names for the drugs above, normalized brand -> generic
+ */
+const BRAND_ALIASES: Record<string, string> = {
+  coumadin: 'warfarin',
+  jantoven: 'warfarin',
+  bayer: 'aspirin',
+  ecotrin: 'aspirin',
+  advil: 'ibuprofen',
+  motrin: 'ibuprofen',
+  tylenol: 'acetaminophen',
+  paracetamol: 'acetaminophen',
+  prinivil: 'lisinopril',
+  zestril: 'lisinopril',
+  lipitor: 'atorvastatin',
+  zocor: 'simvastatin',
+  glucophage: 'metformin',
+  zoloft: 'sertraline',
+  prozac: 'fluoxetine',
+  norvasc: 'amlodipine',
+  lopressor: 'metoprolol',
+  toprol: 'metoprolol',
+  oxycontin: 'oxycodone',
+  synthroid: 'levothyroxine',
+  levoxyl: 'levothyroxine',
+  cipro: 'ciprofloxacin',
+  flagyl: 'metronidazole',
+};
+
+@Injectable()
+export class BuiltinInteractionProvider implements DrugInteractionProvider {
+  readonly name = 'builtin';
+
+  async getDatasetVersion(): Promise<string> {
+    return 'builtin-1';
+  }
+
+  async resolveGenericNames(names: string[]): Promise<Map<string, string>> {
+    return new Map(
+      names.map((name) => {
+        const alias = DrugNameHelper.candidates(name).find((candidate) => BRAND_ALIASES[candidate]);
+        return [name, alias ? BRAND_ALIASES[alias] : DrugNameHelper.normalize(name)];
+      }),
+    );
+  }
+
+  /**
+   * Substring matching keeps combination products and salt forms working
+   * ("warfarinsodium" still matches "warfarin")
+   */
+  async findInteractions(genericNames: string[]): Promise<DrugInteraction[]> {
+    const interactions: DrugInteraction[] = [];
+    const uniqueNames = [...new Set(genericNames)];
+
+    for (let i = 0; i < uniqueNames.length; i++) {
+      for (let j = i + 1; j < uniqueNames.length; j++) {
+        const name1 = uniqueNames[i];
+        const name2 = uniqueNames[j];
+
+        for (const knownInteraction of KNOWN_INTERACTIONS) {
+          const knownDrug1 = DrugNameHelper.normalize(knownInteraction.drug1);
+          const knownDrug2 = DrugNameHelper.normalize(knownInteraction.drug2);
+
+          const match1 = name1.includes(knownDrug1) || knownDrug1.includes(name1);
+          const match2 = name2.includes(knownDrug2) || knownDrug2.includes(name2);
+          const match1Alt = name1.includes(knownDrug2) || knownDrug2.includes(name1);
+          const match2Alt = name2.includes(knownDrug1) || knownDrug1.includes(name2);
+
+          if (((match1 && match2) || (match1Alt && match2Alt)) && !interactions.includes(knownInteraction)) {
+            interactions.push(knownInteraction);
+          }
+        }
+      }
+    }
+
+    return interactions;
+  }
+
+  async listInteractions(): Promise<{ total: number; interactions: DrugInteraction[] }> {
+    return { total: KNOWN_INTERACTIONS.length, interactions: [...KNOWN_INTERACTIONS] };
+  }
+}
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DrugInteractionDataset, DrugInteractionRecord } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CacheService, CACHE_KEYS, CACHE_TTL } from '../../system/module/cache';
+import { DrugNameHelper } from '../drug-name.helper';
+import { DrugInteraction, DrugInteractionProvider, InteractionSeverityLevel } from './drug-interaction.provider';
+
+/**
+ * Serves interaction checks from the active imported dataset.
+ *
+ * Names are matched exactly after normalization and alias resolution, so the
+ * dataset's alias table is what maps brand names and salt forms to generics.
+ */
+@Injectable()
+export class DatasetInteractionProvider implements DrugInteractionProvider {
+  readonly name = 'dataset';
+  private readonly logger = new Logger(DatasetInteractionProvider.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+  ) {}
+
+  async getDatasetVersion(): Promise<string> {
+    const dataset = await this.getActiveDataset();
+    return dataset?.version ?? 'none';
+  }
+
+  async resolveGenericNames(names: string[]): Promise<Map<string, string>> {
+    const dataset = await this.getActiveDataset();
+    const candidatesByName = new Map(names.map((name) => [name, DrugNameHelper.candidates(name)]));
+
+    const aliases = dataset
+      ? await this.prisma.drugNameAlias.findMany({
+          where: {
+            datasetId: dataset.id,
+            alias: { in: [...new Set([...candidatesByName.values()].flat())] },
+          },
+        })
+      : [];
+    const aliasMap = new Map(aliases.map((alias) => [alias.alias, alias.genericName]));
+
+    return new Map(
+      names.map((name) => {
+        const candidates = candidatesByName.get(name) || [];
+        const match = candidates.find((candidate) => aliasMap.has(candidate));
+        return [name, match ? aliasMap.get(match)! : candidates[0] || ''];
+      }),
+    );
+  }
+
+  async findInteractions(genericNames: string[]): Promise<DrugInteraction[]> {
+    const dataset = await this.getActiveDataset();
+    const uniqueNames = [...new Set(genericNames)].filter(Boolean);
+
+    if (!dataset) {
+      this.logger.warn('No active interaction dataset, returning no interactions');
+      return [];
+    }
+
+    if (uniqueNames.length < 2) {
+      return [];
+    }
+
+    const records = await this.prisma.drugInteractionRecord.findMany({
+      where: {
+        datasetId: dataset.id,
+        drug1: { in: uniqueNames },
+        drug2: { in: uniqueNames },
+      },
+    });
+
+    return records.map((record) => this.toInteraction(record));
+  }
+
+  async listInteractions(limit = 500): Promise<{ total: number; interactions: DrugInteraction[] }> {
+    const dataset = await this.getActiveDataset();
+
+    if (!dataset) {
+      return { total: 0, interactions: [] };
+    }
+
+    const records = await this.prisma.drugInteractionRecord.findMany({
+      where: { datasetId: dataset.id },
+      orderBy: [{ drug1: 'asc' }, { drug2: 'asc' }],
+      take: limit,
+    });
+
+    return { total: dataset.interactionCount, interactions: records.map((record) => this.toInteraction(record)) };
+  }
+
+  private async getActiveDataset(): Promise<DrugInteractionDataset | null> {
+    return this.cacheService.getOrSet(
+      CACHE_KEYS.INTERACTION_DATASET_ACTIVE,
+      () => this.prisma.drugInteractionDataset.findFirst({ where: { isActive: true } }),
+      CACHE_TTL.INTERACTION_DATASET,
+    );
+  }
+
+  private toInteraction(record: DrugInteractionRecord): DrugInteraction {
+    return {
+      drug1: record.drug1,
+      drug2: record.drug2,
+      severity: record.severity.toLowerCase() as InteractionSeverityLevel,
+      description: record.description,
+      mechanism: record.mechanism ?? undefined,
+      clinicalEffects: record.clinicalEffects ?? undefined,
+      management: record.management ?? undefined,
+    };
+  }
+}
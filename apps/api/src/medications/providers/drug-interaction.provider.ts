@@ -0,0 +1,28 @@
+export type InteractionSeverityLevel = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+export interface DrugInteraction {
+  drug1: string;
+  drug2: string;
+  severity: InteractionSeverityLevel;
+  description: string;
+  mechanism?: string;
+  clinicalEffects?: string;
+  management?: string;
+}
+
+export interface DrugInteractionProvider {
+  /** Provider identifier recorded on check results */
+  readonly name: string;
+
+  /** Version of the data that answered the check */
+  getDatasetVersion(): Promise<string>;
+
+  /** Map each raw name to its normalized generic name (brand aliases resolved) */
+  resolveGenericNames(names: string[]): Promise<Map<string, string>>;
+
+  /** All known interactions among the given normalized generic names */
+  findInteractions(genericNames: string[]): Promise<DrugInteraction[]>;
+
+  /** Interactions available from this provider, for reference listings */
+  listInteractions(limit?: number): Promise<{ total: number; interactions: DrugInteraction[] }>;
+}
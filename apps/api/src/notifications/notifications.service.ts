@@ -2,7 +2,10 @@ import { Injectable, Inject, forwardRef, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { EventsGateway } from '../gateway/events.gateway';
 import { WebPushService } from './web-push.service';
-import { NotificationType } from '@prisma/client';
+import { CareRecipient, EmergencyAlert, EmergencyAlertUpdate, NotificationType } from '@prisma/client';
+import { MailService } from '../system/module/mail/mail.service';
+import { format } from 'date-fns';
+import { VITAL_LABELS, VitalRangeFinding } from '../timeline/vitals.helper';
 
 @Injectable()
 export class NotificationsService {
@@ -13,6 +16,7 @@ export class NotificationsService {
     @Inject(forwardRef(() => EventsGateway))
     private gateway: EventsGateway,
     private webPushService: WebPushService,
+    private mailService: MailService,
   ) {}
 
   async notifyEmergency(familyId: string, careRecipientId: string, alert: any) {
@@ -73,6 +77,120 @@ export class NotificationsService {
     }
   }
 
+  /**
+   * Repeat of an emergency alert that is still unacknowledged, sent to the
+   * next rung of the family's escalation policy
+   */
+  async notifyEmergencyEscalation(
+    alert: EmergencyAlert & { createdBy: { fullName: string } },
+    careRecipient: CareRecipient,
+    recipients: { userIds: string[]; emails: string[] },
+    channels: { push: boolean; email: boolean },
+    minutesOpen: number,
+  ) {
+    const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+    const message = `${alert.description} (unacknowledged for ${minutesOpen} min)`;
+
+    if (channels.push && recipients.userIds.length > 0) {
+      await this.prisma.notification.createMany({
+        data: recipients.userIds.map((userId) => ({
+          userId,
+          type: 'EMERGENCY_ALERT' as const,
+          title: `🚨 STILL UNACKNOWLEDGED: ${alert.title}`,
+          body: `${careRecipientName}: ${message}`,
+          data: { type: 'EMERGENCY', careRecipientId: careRecipient.id, alertId: alert.id, escalation: true },
+        })),
+      });
+
+      try {
+        await this.webPushService.sendEmergencyAlert(recipients.userIds, careRecipientName, message, alert.id);
+      } catch (error) {
+        this.logger.error('Failed to send emergency escalation push notifications', error);
+      }
+    }
+
+    if (channels.email && recipients.emails.length > 0) {
+      try {
+        await this.mailService.sendEmergencyAlert(
+          recipients.emails,
+          careRecipientName,
+          alert.type,
+          message,
+          alert.createdBy.fullName,
+        );
+      } catch (error) {
+        this.logger.error('Failed to send emergency escalation emails', error);
+      }
+    }
+  }
+
+  /**
+   * A post on an emergency's incident thread. Acknowledgements and
+   * resolutions only refresh open screens; the rest also notify the family.
+   */
+  async notifyEmergencyUpdate(
+    familyId: string,
+    careRecipient: CareRecipient,
+    alert: EmergencyAlert,
+    update: EmergencyAlertUpdate & { author: { id: string; fullName: string } },
+  ) {
+    this.gateway.emitToFamily(familyId, 'emergency_update', { alertId: alert.id, update });
+
+    const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+    const name = update.author.fullName;
+    let title: string;
+    let body: string;
+
+    switch (update.type) {
+      case 'RESPONDING':
+        title = `🚗 ${name} is on the way`;
+        body = update.etaMinutes !== null
+          ? `ETA ${update.etaMinutes} min · ${alert.title}`
+          : alert.title;
+        break;
+      case 'HOSPITAL':
+        title = `🏥 ${careRecipientName} is going to ${update.hospitalName}`;
+        body = update.hospitalAddress || alert.title;
+        break;
+      case 'PHOTO':
+        title = `${name} added a photo to ${alert.title}`;
+        body = update.message || `Emergency for ${careRecipientName}`;
+        break;
+      case 'STATUS':
+        title = `Update: ${alert.title}`;
+        body = `${name}: ${update.message}`;
+        break;
+      default:
+        return;
+    }
+
+    const members = await this.prisma.familyMember.findMany({
+      where: { familyId, isActive: true, userId: { not: update.author.id } },
+      select: { userId: true },
+    });
+    const userIds = members.map((m) => m.userId);
+
+    if (userIds.length === 0) return;
+
+    await this.prisma.notification.createMany({
+      data: userIds.map((userId) => ({
+        userId,
+        type: 'EMERGENCY_ALERT' as const,
+        title,
+        body,
+        data: { type: 'EMERGENCY_UPDATE', careRecipientId: careRecipient.id, alertId: alert.id },
+      })),
+    });
+
+    try {
+      await this.webPushService.sendGenericNotification(userIds, title, body, `/emergency/${alert.id}`, {
+        alertId: alert.id,
+      });
+    } catch (error) {
+      this.logger.error('Failed to send emergency update push notifications', error);
+    }
+  }
+
   async notifyHighSeverityEntry(familyId: string, careRecipient: any, entry: any) {
     const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
     const notification = {
@@ -157,7 +275,148 @@ export class NotificationsService {
     }
   }
 
-  async notifyShiftHandoff(fromUser: any, toUser: any, careRecipient: any, notes?: string) {
+  /**
+   * Recurring shift rotations: tell the caregiver about a new rotation, or
+   * the person who set it up about occurrences skipped because of overlaps
+   */
+  async notifyShiftSeries(
+    series: { id: string; careRecipientId: string; caregiverId: string; createdById: string; careRecipient: any },
+    reason: 'assigned' | 'conflicts',
+    detail: { description?: string; skipped?: Date[] } = {},
+  ) {
+    const careRecipientName = series.careRecipient.preferredName || series.careRecipient.fullName;
+    const skipped = detail.skipped || [];
+
+    const messages = {
+      assigned: {
+        userId: series.caregiverId,
+        title: '📅 Recurring Shift Assigned',
+        body: `You have been assigned a recurring shift for ${careRecipientName}${detail.description ? `: ${detail.description}` : ''}`,
+      },
+      conflicts: {
+        userId: series.createdById,
+        title: '⚠️ Recurring Shifts Skipped',
+        body: `${skipped.length} shift${skipped.length === 1 ? '' : 's'} for ${careRecipientName} overlapped existing shifts and were not scheduled: ${skipped
+          .slice(0, 5)
+          .map((date) => format(date, 'EEE MMM d'))
+          .join(', ')}${skipped.length > 5 ? '…' : ''}`,
+      },
+    };
+
+    try {
+      await this.create({
+        ...messages[reason],
+        type: 'SHIFT_REMINDER',
+        data: {
+          type: 'SHIFT_SERIES',
+          seriesId: series.id,
+          careRecipientId: series.careRecipientId,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to send shift series notification: ${error.message}`);
+    }
+  }
+
+  /**
+   * Shift swap workflow: offers go to the other caregivers, claims to the
+   * requester and admins, and the outcome back to the claimer
+   */
+  async notifyShiftSwap(
+    swap: { id: string; shift: { id: string; careRecipientId: string; startTime: Date; careRecipient: any } },
+    reason: 'offered' | 'claimed' | 'approved' | 'declined' | 'cancelled',
+    userIds: string[],
+    actorName: string,
+  ) {
+    const careRecipientName = swap.shift.careRecipient.preferredName || swap.shift.careRecipient.fullName;
+    const when = format(swap.shift.startTime, 'EEE MMM d, h:mm a');
+
+    const messages = {
+      offered: {
+        title: '🔁 Shift Available',
+        body: `${actorName} can't make the ${when} shift for ${careRecipientName} and is looking for cover`,
+      },
+      claimed: {
+        title: '🙋 Shift Swap Claimed',
+        body: `${actorName} wants to take the ${when} shift for ${careRecipientName} and needs approval`,
+      },
+      approved: {
+        title: '✅ Shift Swap Approved',
+        body: `${actorName} approved the swap for the ${when} shift for ${careRecipientName}`,
+      },
+      declined: {
+        title: '↩️ Shift Swap Declined',
+        body: `${actorName} declined your claim on the ${when} shift for ${careRecipientName}`,
+      },
+      cancelled: {
+        title: 'Shift Swap Withdrawn',
+        body: `The ${when} shift for ${careRecipientName} is no longer up for swap`,
+      },
+    };
+
+    for (const userId of userIds) {
+      try {
+        await this.create({
+          userId,
+          ...messages[reason],
+          type: 'SHIFT_SWAP',
+          data: {
+            type: 'SHIFT_SWAP',
+            swapId: swap.id,
+            shiftId: swap.shift.id,
+            careRecipientId: swap.shift.careRecipientId,
+          },
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to send shift swap notification: ${error.message}`);
+      }
+    }
+  }
+
+  async notifyTimeCorrection(
+    correction: { id: string; shift: { id: string; careRecipientId: string; startTime: Date; careRecipient: any } },
+    reason: 'requested' | 'approved' | 'rejected',
+    userIds: string[],
+    actorName: string,
+  ) {
+    const careRecipientName = correction.shift.careRecipient.preferredName || correction.shift.careRecipient.fullName;
+    const when = format(correction.shift.startTime, 'EEE MMM d');
+
+    const messages = {
+      requested: {
+        title: '🕒 Timesheet Correction',
+        body: `${actorName} asked to correct their ${when} shift times for ${careRecipientName}`,
+      },
+      approved: {
+        title: '✅ Timesheet Correction Approved',
+        body: `${actorName} approved your corrected times for the ${when} shift for ${careRecipientName}`,
+      },
+      rejected: {
+        title: 'Timesheet Correction Rejected',
+        body: `${actorName} rejected your corrected times for the ${when} shift for ${careRecipientName}`,
+      },
+    };
+
+    for (const userId of userIds) {
+      try {
+        await this.create({
+          userId,
+          ...messages[reason],
+          type: 'TIME_CORRECTION',
+          data: {
+            type: 'TIME_CORRECTION',
+            correctionId: correction.id,
+            shiftId: correction.shift.id,
+            careRecipientId: correction.shift.careRecipientId,
+          },
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to send time correction notification: ${error.message}`);
+      }
+    }
+  }
+
+  async notifyShiftHandoff(fromUser: any, toUser: any, careRecipient: any, notes?: string, handoffId?: string) {
     const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
     const title = '🔄 Shift Handoff';
     const body = `${fromUser.fullName} has completed their shift for ${careRecipientName}`;
@@ -171,6 +430,7 @@ export class NotificationsService {
         data: {
           type: 'HANDOFF',
           careRecipientId: careRecipient.id,
+          handoffId,
           notes,
         },
       },
@@ -179,6 +439,7 @@ export class NotificationsService {
     this.gateway.emitToUser(toUser.id, 'shift_handoff', {
       from: fromUser,
       careRecipient,
+      handoffId,
       notes,
     });
 
@@ -327,6 +588,164 @@ export class NotificationsService {
     }
   }
 
+  /**
+   * Notify whoever is picking up a refill. A refill that is ready with no one
+   * assigned goes to the family's admins and caregivers instead.
+   *
+   * @returns number of users notified
+   */
+  async notifyRefillPickup(
+    refill: { id: string; assignedToId: string | null; pharmacy: string | null; pickupDueAt: Date | null },
+    medication: { id: string; name: string; careRecipientId: string; careRecipient: any },
+    reason: 'assigned' | 'ready' | 'reminder',
+  ): Promise<number> {
+    const careRecipientName = medication.careRecipient.preferredName || medication.careRecipient.fullName;
+    const where = refill.pharmacy ? ` at ${refill.pharmacy}` : '';
+    const due = refill.pickupDueAt ? ` by ${format(refill.pickupDueAt, 'EEE MMM d, h:mm a')}` : '';
+    const overdue = !!refill.pickupDueAt && refill.pickupDueAt < new Date();
+
+    const messages = {
+      assigned: {
+        title: '🛒 Refill Pickup Assigned',
+        body: `You've been asked to pick up ${medication.name} for ${careRecipientName}${where}${due}`,
+      },
+      ready: {
+        title: '💊 Refill Ready for Pickup',
+        body: `${medication.name} for ${careRecipientName} is ready for pickup${where}${due}`,
+      },
+      reminder: {
+        title: overdue ? '⏰ Refill Pickup Overdue' : '⏰ Refill Pickup Reminder',
+        body: overdue
+          ? `${medication.name} for ${careRecipientName} was due to be picked up${where}${due}`
+          : `${medication.name} for ${careRecipientName} is still waiting to be picked up${where}${due}`,
+      },
+    };
+
+    let userIds: string[] = [];
+    if (refill.assignedToId) {
+      userIds = [refill.assignedToId];
+    } else if (reason !== 'assigned') {
+      const members = await this.prisma.familyMember.findMany({
+        where: {
+          familyId: medication.careRecipient.familyId,
+          isActive: true,
+          role: { in: ['ADMIN', 'CAREGIVER'] },
+        },
+        select: { userId: true },
+      });
+      userIds = members.map((m) => m.userId);
+    }
+
+    for (const userId of userIds) {
+      try {
+        await this.create({
+          userId,
+          ...messages[reason],
+          type: 'REFILL_PICKUP',
+          data: {
+            refillId: refill.id,
+            medicationId: medication.id,
+            careRecipientId: medication.careRecipientId,
+          },
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to send refill ${reason} notification: ${error.message}`);
+      }
+    }
+
+    return userIds.length;
+  }
+
+  /**
+   * Alert the family when vitals logged with a timeline entry fall outside
+   * the care recipient's target ranges
+   */
+  async notifyVitalsOutOfRange(
+    careRecipient: { id: string; familyId: string; fullName: string; preferredName: string | null },
+    entry: { id: string; createdById: string },
+    findings: VitalRangeFinding[],
+  ) {
+    const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+    const describe = (f: VitalRangeFinding) =>
+      `${VITAL_LABELS[f.type]} ${f.direction} at ${f.reading} (target ${f.expected})`;
+
+    const title = findings.length === 1 ? '🩺 Vital Out of Range' : '🩺 Vitals Out of Range';
+    const body = `${careRecipientName}: ${findings.map(describe).join('; ')}`;
+
+    const members = await this.prisma.familyMember.findMany({
+      where: { familyId: careRecipient.familyId, isActive: true },
+      select: { userId: true },
+    });
+
+    for (const member of members) {
+      try {
+        await this.create({
+          userId: member.userId,
+          title,
+          body,
+          type: 'VITALS_ALERT',
+          priority: 'HIGH',
+          data: {
+            careRecipientId: careRecipient.id,
+            entryId: entry.id,
+            vitals: findings.map((f) => f.type),
+          },
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to send vitals alert: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Admission and discharge go to the whole family: reminders and home shifts
+   * pause while the care recipient is in hospital, and discharge needs someone
+   * to go through the medication list
+   */
+  async notifyHospitalStay(
+    careRecipient: { id: string; familyId: string; fullName: string; preferredName: string | null },
+    stay: { id: string; facility: string },
+    reason: 'admitted' | 'discharged',
+    actorId: string,
+  ) {
+    const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+
+    const messages = {
+      admitted: {
+        title: '🏥 Hospital Admission',
+        body: `${careRecipientName} was admitted to ${stay.facility}. Medication reminders and home shift reminders are paused until discharge.`,
+      },
+      discharged: {
+        title: '🏠 Discharged From Hospital',
+        body: `${careRecipientName} was discharged from ${stay.facility}. Please review the medication list against the discharge instructions.`,
+      },
+    };
+
+    const members = await this.prisma.familyMember.findMany({
+      where: { familyId: careRecipient.familyId, isActive: true, userId: { not: actorId } },
+      select: { userId: true },
+    });
+
+    for (const member of members) {
+      try {
+        await this.create({
+          userId: member.userId,
+          ...messages[reason],
+          type: 'GENERAL',
+          priority: 'HIGH',
+          data: {
+            type: 'HOSPITAL_STAY',
+            reason,
+            stayId: stay.id,
+            careRecipientId: careRecipient.id,
+          },
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to send hospital stay notification: ${error.message}`);
+      }
+    }
+  }
+
   /**
    * Create a notification (used by scheduler and other services)
    */
@@ -5,6 +5,8 @@ import { NotificationsService } from './notifications.service';
 import { ConfigService } from '@nestjs/config';
 import { LockHelper } from '../system/helper/lock.helper';
 import { CronStatus } from '@prisma/client';
+import { endOfMinute, startOfMinute } from 'date-fns';
+import { getDosesForDay } from '@carecircle/scheduling';
 
 /**
  * In-Process Reminder Scheduler
@@ -30,7 +32,7 @@ export class ReminderSchedulerService implements OnModuleInit {
 
   onModuleInit() {
     this.logger.log('Reminder Scheduler initialized - running in-process');
-    this.logger.log('Schedules: Medications (every min), Appointments (every 5 min), Shifts (every 5 min)');
+    this.logger.log('Schedules: Medications (every min), Appointments (every 5 min), Shifts (every 5 min), Refill pickups (hourly)');
   }
 
   /**
@@ -124,15 +126,32 @@ export class ReminderSchedulerService implements OnModuleInit {
       const currentMinute = now.getMinutes();
       const timeStr = `${currentHour.toString().padStart(2, '0')}:${currentMinute.toString().padStart(2, '0')}`;
 
-      // Find medications scheduled for this time that haven't been logged today
+      // Narrow down to medications that could have a dose this minute, then
+      // expand their schedules: phased medications (tapers, every N hours,
+      // on/off cycles) keep scheduledTimes empty
       const medications = await this.prisma.medication.findMany({
         where: {
           isActive: true,
-          scheduledTimes: {
-            has: timeStr,
-          },
+          // Paused while the care recipient is in hospital
+          careRecipient: { hospitalStays: { none: { dischargedAt: null } } },
+          OR: [
+            { schedulePhases: { none: {} }, scheduledTimes: { has: timeStr } },
+            {
+              schedulePhases: {
+                some: {
+                  startDate: { lte: now },
+                  AND: [
+                    { OR: [{ endDate: null }, { endDate: { gt: now } }] },
+                    // Phases without times run every N hours or use scheduledTimes
+                    { OR: [{ times: { has: timeStr } }, { times: { isEmpty: true } }] },
+                  ],
+                },
+              },
+            },
+          ],
         },
         include: {
+          schedulePhases: true,
           careRecipient: {
             include: {
               family: {
@@ -149,20 +168,21 @@ export class ReminderSchedulerService implements OnModuleInit {
       });
 
       for (const medication of medications) {
-        // Check if already logged today
-        const todayStart = new Date();
-        todayStart.setHours(0, 0, 0, 0);
+        const dose = getDosesForDay(medication, now).find((d) => d.time === timeStr);
+        if (!dose) continue;
 
+        // Check if this dose was already logged
         const existingLog = await this.prisma.medicationLog.findFirst({
           where: {
             medicationId: medication.id,
             scheduledTime: {
-              gte: todayStart,
+              gte: startOfMinute(dose.scheduledTime),
+              lte: endOfMinute(dose.scheduledTime),
             },
           },
         });
 
-        if (existingLog) continue; // Already handled today at this time
+        if (existingLog) continue; // Already handled
 
         // Send notification to all family members
         for (const member of medication.careRecipient.family.members) {
@@ -327,10 +347,11 @@ export class ReminderSchedulerService implements OnModuleInit {
     let itemsProcessed = 0;
 
     try {
-      // Find all active medications and filter in code
+      // Find all active medications without a refill already in progress and filter in code
       const allMedications = await this.prisma.medication.findMany({
         where: {
           isActive: true,
+          refills: { none: { status: { in: ['REQUESTED', 'ORDERED', 'READY_FOR_PICKUP'] } } },
         },
         include: {
           careRecipient: {
@@ -409,5 +430,55 @@ export class ReminderSchedulerService implements OnModuleInit {
       await this.lockHelper.release('cron:refill-alerts');
     }
   }
+
+  /**
+   * Remind the assigned family member about refills waiting at the pharmacy.
+   * Runs hourly; each refill is reminded at most once every 24 hours.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async checkRefillPickupReminders() {
+    const lockAcquired = await this.lockHelper.acquire('cron:refill-pickup-reminders', 300);
+    if (!lockAcquired) {
+      this.logger.debug('Refill pickup reminder cron skipped - another instance is running');
+      return;
+    }
+
+    const startTime = new Date();
+    const logId = await this.logCronStart('refill-pickup-reminder');
+    let itemsProcessed = 0;
+
+    try {
+      const remindBefore = new Date(startTime.getTime() - 24 * 60 * 60 * 1000);
+
+      const refills = await this.prisma.medicationRefill.findMany({
+        where: {
+          status: 'READY_FOR_PICKUP',
+          OR: [{ lastReminderAt: null }, { lastReminderAt: { lte: remindBefore } }],
+          medication: { isActive: true },
+        },
+        include: {
+          medication: { include: { careRecipient: true } },
+        },
+      });
+
+      for (const refill of refills) {
+        itemsProcessed += await this.notificationsService.notifyRefillPickup(refill, refill.medication, 'reminder');
+
+        await this.prisma.medicationRefill.update({
+          where: { id: refill.id },
+          data: { lastReminderAt: startTime },
+        });
+
+        this.logger.debug(`Sent refill pickup reminder for ${refill.medication.name}`);
+      }
+
+      await this.logCronComplete(logId, startTime, itemsProcessed);
+    } catch (error) {
+      this.logger.error(`Refill pickup reminder check failed: ${error.message}`);
+      await this.logCronFailed(logId, startTime, error.message);
+    } finally {
+      await this.lockHelper.release('cron:refill-pickup-reminders');
+    }
+  }
 }
 
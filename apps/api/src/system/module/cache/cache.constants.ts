@@ -32,6 +32,7 @@ export const CACHE_KEYS = {
   MEDICATIONS: (careRecipientId: string) => `recipient:medications:${careRecipientId}`,
   MEDICATION_SCHEDULE: (careRecipientId: string, date: string) =>
     `recipient:schedule:${careRecipientId}:${date}`,
+  INTERACTION_DATASET_ACTIVE: 'interactions:dataset:active',
 
   // Appointment-related keys
   APPOINTMENT: (id: string) => `appointment:${id}`,
@@ -84,6 +85,7 @@ export const CACHE_TTL = {
   MEDICATION: 120,             // 2 minutes
   MEDICATIONS: 120,            // 2 minutes
   MEDICATION_SCHEDULE: 120,    // 2 minutes
+  INTERACTION_DATASET: 600,    // 10 minutes (invalidated on activation)
 
   // Appointments - moderate change frequency
   APPOINTMENT: 180,            // 3 minutes
@@ -1,5 +1,6 @@
 import { IsString, IsNotEmpty, IsEnum, IsOptional, IsObject, IsArray, IsDateString } from 'class-validator';
 import { TimelineType, Severity } from '@prisma/client';
+import { TimelineVitalsInput } from '../vitals.helper';
 
 export class CreateTimelineEntryDto {
   @IsEnum(TimelineType)
@@ -20,14 +21,7 @@ export class CreateTimelineEntryDto {
 
   @IsObject()
   @IsOptional()
-  vitals?: {
-    bloodPressure?: string;
-    heartRate?: number;
-    temperature?: number;
-    bloodSugar?: number;
-    oxygenLevel?: number;
-    weight?: number;
-  };
+  vitals?: TimelineVitalsInput;
 
   @IsDateString()
   @IsOptional()
@@ -1,2 +1,2 @@
 export * from './create-timeline-entry.dto';
-
+export * from './vital-range.dto';
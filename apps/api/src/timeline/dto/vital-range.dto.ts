@@ -0,0 +1,28 @@
+import { IsNumber, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Target range for one vital, in its canonical unit (mmHg, bpm, °F, mg/dL, %, lb).
+ * Omitted or null bounds are open-ended.
+ */
+export class UpdateVitalRangeDto {
+  @ApiPropertyOptional({ description: 'Lower bound (systolic for blood pressure)', example: 90, nullable: true })
+  @IsNumber()
+  @IsOptional()
+  min?: number | null;
+
+  @ApiPropertyOptional({ description: 'Upper bound (systolic for blood pressure)', example: 140, nullable: true })
+  @IsNumber()
+  @IsOptional()
+  max?: number | null;
+
+  @ApiPropertyOptional({ description: 'Diastolic lower bound (blood pressure only)', example: 60, nullable: true })
+  @IsNumber()
+  @IsOptional()
+  secondaryMin?: number | null;
+
+  @ApiPropertyOptional({ description: 'Diastolic upper bound (blood pressure only)', example: 90, nullable: true })
+  @IsNumber()
+  @IsOptional()
+  secondaryMax?: number | null;
+}
@@ -5,13 +5,19 @@ import {
   Body,
   Param,
   Patch,
+  Put,
   Delete,
   Query,
   ParseUUIDPipe,
+  ParseEnumPipe,
+  BadRequestException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { VitalType } from '@prisma/client';
 import { TimelineService } from './timeline.service';
+import { VitalsService } from './vitals.service';
 import { CreateTimelineEntryDto } from './dto/create-timeline-entry.dto';
+import { UpdateVitalRangeDto } from './dto/vital-range.dto';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 
 interface CurrentUserPayload {
@@ -56,7 +62,10 @@ export class CareRecipientTimelineController {
   }
 
   @Get('vitals')
-  @ApiOperation({ summary: 'Get recent vitals' })
+  @ApiOperation({
+    summary: 'Get recent vitals',
+    description: 'VITALS timeline entries, each with its structured readings.',
+  })
   getRecentVitals(
     @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
     @CurrentUser() user: CurrentUserPayload,
@@ -130,6 +139,90 @@ export class TimelineController {
   }
 }
 
+@ApiTags('Timeline')
+@ApiBearerAuth('JWT-auth')
+@Controller('care-recipients/:careRecipientId/vitals')
+export class VitalsController {
+  constructor(private readonly vitalsService: VitalsService) {}
+
+  @Get('readings')
+  @ApiOperation({ summary: 'Get vital readings', description: 'Readings in canonical units, newest first.' })
+  @ApiQuery({ name: 'type', enum: VitalType, required: false })
+  @ApiQuery({ name: 'days', required: false, example: 30 })
+  getReadings(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('type', new ParseEnumPipe(VitalType, { optional: true })) type?: VitalType,
+    @Query('days') days?: string,
+  ) {
+    return this.vitalsService.getReadings(careRecipientId, user.id, {
+      type,
+      days: days ? parseInt(days, 10) : 30,
+    });
+  }
+
+  @Get('trends')
+  @ApiOperation({
+    summary: 'Get vital trends',
+    description:
+      'Per-vital daily min/max/avg, 7-day rolling averages and trend direction. Defaults to the last 30 days and all vitals.',
+  })
+  @ApiQuery({ name: 'types', required: false, description: 'Comma-separated vital types', example: 'BLOOD_PRESSURE,WEIGHT' })
+  getTrends(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('types') types?: string,
+  ) {
+    const requested = types ? types.split(',').map((t) => t.trim()).filter(Boolean) : [];
+    const invalid = requested.filter((t) => !(t in VitalType));
+
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Unknown vital type: ${invalid.join(', ')}`);
+    }
+
+    return this.vitalsService.getTrends(careRecipientId, user.id, {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      types: requested as VitalType[],
+    });
+  }
+
+  @Get('ranges')
+  @ApiOperation({
+    summary: 'Get vital target ranges',
+    description: 'One range per vital type; types the family has not configured use adult defaults.',
+  })
+  getRanges(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.vitalsService.getRanges(careRecipientId, user.id);
+  }
+
+  @Put('ranges/:type')
+  @ApiOperation({ summary: 'Set the target range for a vital' })
+  updateRange(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('type', new ParseEnumPipe(VitalType)) type: VitalType,
+    @CurrentUser() user: CurrentUserPayload,
+    @Body() dto: UpdateVitalRangeDto,
+  ) {
+    return this.vitalsService.updateRange(careRecipientId, user.id, type, dto);
+  }
+
+  @Delete('ranges/:type')
+  @ApiOperation({ summary: 'Reset a vital to its default range' })
+  resetRange(
+    @Param('careRecipientId', ParseUUIDPipe) careRecipientId: string,
+    @Param('type', new ParseEnumPipe(VitalType)) type: VitalType,
+    @CurrentUser() user: CurrentUserPayload,
+  ) {
+    return this.vitalsService.resetRange(careRecipientId, user.id, type);
+  }
+}
+
 // Activity Feed controller for dashboard
 @ApiTags('Activity Feed')
 @ApiBearerAuth('JWT-auth')
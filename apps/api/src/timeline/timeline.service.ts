@@ -1,9 +1,19 @@
-import { Injectable, NotFoundException, ForbiddenException, Inject, forwardRef, Optional } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+  Optional,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CacheService, CACHE_KEYS, CACHE_TTL } from '../system/module/cache';
 import { CreateTimelineEntryDto } from './dto/create-timeline-entry.dto';
 import { NotificationsService } from '../notifications/notifications.service';
 import { EmbeddingIndexerService } from '../ai/services/embedding-indexer.service';
+import { VitalsService } from './vitals.service';
+import { TimelineVitalsInput, VitalsHelper } from './vitals.helper';
 
 @Injectable()
 export class TimelineService {
@@ -12,9 +22,20 @@ export class TimelineService {
     private cacheService: CacheService,
     @Inject(forwardRef(() => NotificationsService))
     private notifications: NotificationsService,
+    private vitalsService: VitalsService,
     @Optional() private embeddingIndexer?: EmbeddingIndexerService,
   ) {}
 
+  private parseVitals(vitals: TimelineVitalsInput) {
+    const parsed = VitalsHelper.parse(vitals);
+
+    if (parsed.errors.length > 0) {
+      throw new BadRequestException(parsed.errors.join('; '));
+    }
+
+    return parsed;
+  }
+
   private async verifyAccess(careRecipientId: string, userId: string) {
     const careRecipient = await this.prisma.careRecipient.findUnique({
       where: { id: careRecipientId },
@@ -42,6 +63,8 @@ export class TimelineService {
       throw new ForbiddenException('Viewers cannot create timeline entries');
     }
 
+    const parsedVitals = dto.vitals ? this.parseVitals(dto.vitals) : null;
+
     const entry = await this.prisma.timelineEntry.create({
       data: {
         careRecipientId,
@@ -50,7 +73,7 @@ export class TimelineService {
         title: dto.title,
         description: dto.description,
         severity: dto.severity,
-        vitals: dto.vitals,
+        vitals: dto.vitals ? VitalsHelper.normalize(dto.vitals) : undefined,
         attachments: dto.attachments || [],
         occurredAt: dto.occurredAt ? new Date(dto.occurredAt) : new Date(),
       },
@@ -70,6 +93,15 @@ export class TimelineService {
       );
     }
 
+    // Store structured readings and alert on any outside the care recipient's ranges
+    if (parsedVitals && parsedVitals.measurements.length > 0) {
+      const findings = await this.vitalsService.recordForEntry(careRecipient, entry, parsedVitals, userId);
+
+      if (findings.length > 0) {
+        await this.notifications.notifyVitalsOutOfRange(careRecipient, entry, findings);
+      }
+    }
+
     // Invalidate cache
     await this.invalidateTimelineCache(careRecipientId);
 
@@ -110,6 +142,9 @@ export class TimelineService {
         createdBy: {
           select: { id: true, fullName: true },
         },
+        vitalReadings: {
+          select: { type: true, isOutOfRange: true },
+        },
       },
       orderBy: { occurredAt: 'desc' },
       take: options?.limit || 50,
@@ -158,13 +193,15 @@ export class TimelineService {
       throw new ForbiddenException('You can only update your own entries');
     }
 
+    const parsedVitals = dto.vitals ? this.parseVitals(dto.vitals) : null;
+
     const updated = await this.prisma.timelineEntry.update({
       where: { id },
       data: {
         title: dto.title,
         description: dto.description,
         severity: dto.severity,
-        vitals: dto.vitals,
+        vitals: dto.vitals ? VitalsHelper.normalize(dto.vitals) : undefined,
         attachments: dto.attachments,
         occurredAt: dto.occurredAt ? new Date(dto.occurredAt) : undefined,
       },
@@ -175,6 +212,18 @@ export class TimelineService {
       },
     });
 
+    // Corrections replace the entry's readings without re-alerting
+    if (parsedVitals) {
+      await this.vitalsService.recordForEntry(entry.careRecipient, updated, parsedVitals, entry.createdById);
+    } else if (dto.occurredAt) {
+      await this.prisma.vitalReading.updateMany({
+        where: { timelineEntryId: id },
+        data: { measuredAt: updated.occurredAt },
+      });
+    }
+
+    await this.invalidateTimelineCache(entry.careRecipientId);
+
     // Re-index for AI search (non-blocking)
     this.embeddingIndexer?.indexTimelineEntry(updated).catch(() => {});
 
@@ -225,6 +274,9 @@ export class TimelineService {
             type: 'VITALS',
             occurredAt: { gte: startDate },
           },
+          include: {
+            vitalReadings: { orderBy: { type: 'asc' } },
+          },
           orderBy: { occurredAt: 'desc' },
         });
       },
@@ -309,6 +361,7 @@ export class TimelineService {
         where: {
           careRecipientId: { in: careRecipientIds },
           startTime: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }, // Last 7 days
+          status: { not: 'DRAFT' }, // Unbooked follow-up drafts aren't activity
         },
         orderBy: { createdAt: 'desc' },
         take: limit,
@@ -372,7 +425,7 @@ export class TimelineService {
         description: log.notes || `Dosage: ${log.medication.dosage}`,
         careRecipientId: log.medication.careRecipientId,
         careRecipientName: cr?.preferredName || cr?.fullName || 'Unknown',
-        actorName: log.givenBy.fullName,
+        actorName: log.givenBy?.fullName || 'System',
         status: log.status,
         timestamp: log.createdAt,
         metadata: {
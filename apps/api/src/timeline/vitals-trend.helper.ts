@@ -0,0 +1,196 @@
+import { VitalReading, VitalType } from '@prisma/client';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { CANONICAL_UNITS, VitalBounds } from './vitals.helper';
+
+type TrendReading = Pick<VitalReading, 'type' | 'value' | 'secondaryValue' | 'measuredAt' | 'isOutOfRange'>;
+
+const ROLLING_WINDOW_DAYS = 7;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Smallest change across the period (in canonical units) that counts as a
+// trend rather than day-to-day noise
+const TREND_THRESHOLDS: Record<VitalType, number> = {
+  BLOOD_PRESSURE: 5,
+  HEART_RATE: 5,
+  TEMPERATURE: 0.5,
+  BLOOD_SUGAR: 10,
+  OXYGEN_LEVEL: 1,
+  WEIGHT: 2,
+};
+
+export type TrendDirection = 'rising' | 'falling' | 'stable' | 'insufficient_data';
+
+export interface DailyStats {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface VitalTrendDay {
+  date: string; // yyyy-MM-dd
+  count: number;
+  value: DailyStats | null;
+  secondaryValue: DailyStats | null; // Diastolic, for blood pressure
+  rollingAvg: number | null; // Mean of readings in the trailing 7 days
+  secondaryRollingAvg: number | null;
+}
+
+export interface VitalTrendSummary {
+  count: number;
+  outOfRangeCount: number;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+  latest: { value: number; secondaryValue: number | null; measuredAt: Date } | null;
+  trend: TrendDirection;
+  changePerWeek: number | null; // Fitted change of the primary value per 7 days
+  secondaryTrend: TrendDirection | null;
+}
+
+export interface VitalTrendSeries {
+  type: VitalType;
+  unit: string;
+  range: VitalBounds;
+  days: VitalTrendDay[];
+  summary: VitalTrendSummary;
+}
+
+/**
+ * Aggregates vital readings into daily series with trailing averages and a
+ * fitted trend direction, for charting drift over weeks.
+ */
+export class VitalsTrendHelper {
+  /**
+   * @param readings readings of one type, from `from - 7 days` onwards so the
+   *   first days of the series have a full rolling window
+   */
+  static buildSeries(
+    type: VitalType,
+    readings: TrendReading[],
+    range: VitalBounds,
+    from: Date,
+    to: Date,
+  ): VitalTrendSeries {
+    const sorted = [...readings].sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+    const periodStart = startOfDay(from);
+    const inPeriod = sorted.filter((r) => r.measuredAt >= periodStart && r.measuredAt <= to);
+
+    const byDay = new Map<string, TrendReading[]>();
+    for (const reading of sorted) {
+      const key = format(reading.measuredAt, 'yyyy-MM-dd');
+      byDay.set(key, [...(byDay.get(key) || []), reading]);
+    }
+
+    const days: VitalTrendDay[] = [];
+    const totalDays = differenceInCalendarDays(to, from);
+
+    for (let i = 0; i <= totalDays; i++) {
+      const day = addDays(periodStart, i);
+      const dayReadings = byDay.get(format(day, 'yyyy-MM-dd')) || [];
+      const windowStart = addDays(day, -(ROLLING_WINDOW_DAYS - 1));
+      const windowEnd = addDays(day, 1);
+      const window = sorted.filter((r) => r.measuredAt >= windowStart && r.measuredAt < windowEnd);
+
+      days.push({
+        date: format(day, 'yyyy-MM-dd'),
+        count: dayReadings.length,
+        value: this.stats(dayReadings.map((r) => r.value)),
+        secondaryValue: this.stats(this.secondaryValues(dayReadings)),
+        rollingAvg: this.stats(window.map((r) => r.value))?.avg ?? null,
+        secondaryRollingAvg: this.stats(this.secondaryValues(window))?.avg ?? null,
+      });
+    }
+
+    const overall = this.stats(inPeriod.map((r) => r.value));
+    const last = inPeriod[inPeriod.length - 1];
+    const primary = this.fitTrend(
+      type,
+      inPeriod.map((r) => [r.measuredAt.getTime(), r.value]),
+    );
+
+    return {
+      type,
+      unit: CANONICAL_UNITS[type],
+      range,
+      days,
+      summary: {
+        count: inPeriod.length,
+        outOfRangeCount: inPeriod.filter((r) => r.isOutOfRange).length,
+        min: overall?.min ?? null,
+        max: overall?.max ?? null,
+        avg: overall?.avg ?? null,
+        latest: last ? { value: last.value, secondaryValue: last.secondaryValue, measuredAt: last.measuredAt } : null,
+        trend: primary.direction,
+        changePerWeek: primary.changePerWeek,
+        secondaryTrend:
+          type === 'BLOOD_PRESSURE'
+            ? this.fitTrend(
+                type,
+                inPeriod
+                  .filter((r) => r.secondaryValue !== null)
+                  .map((r) => [r.measuredAt.getTime(), r.secondaryValue!]),
+              ).direction
+            : null,
+      },
+    };
+  }
+
+  /**
+   * Least-squares slope over the period. The direction is only reported when
+   * the fitted change across the whole period clears the type's noise threshold.
+   */
+  private static fitTrend(
+    type: VitalType,
+    points: [number, number][],
+  ): { direction: TrendDirection; changePerWeek: number | null } {
+    if (points.length < 3) {
+      return { direction: 'insufficient_data', changePerWeek: null };
+    }
+
+    const first = points[0][0];
+    const spanDays = (points[points.length - 1][0] - first) / MS_PER_DAY;
+
+    if (spanDays < 2) {
+      return { direction: 'insufficient_data', changePerWeek: null };
+    }
+
+    const xs = points.map(([time]) => (time - first) / MS_PER_DAY);
+    const ys = points.map(([, value]) => value);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+    let numerator = 0;
+    let denominator = 0;
+    xs.forEach((x, i) => {
+      numerator += (x - meanX) * (ys[i] - meanY);
+      denominator += (x - meanX) ** 2;
+    });
+
+    const slopePerDay = denominator === 0 ? 0 : numerator / denominator;
+    const change = slopePerDay * spanDays;
+    const direction: TrendDirection =
+      Math.abs(change) < TREND_THRESHOLDS[type] ? 'stable' : change > 0 ? 'rising' : 'falling';
+
+    return { direction, changePerWeek: this.round(slopePerDay * 7) };
+  }
+
+  private static stats(values: number[]): DailyStats | null {
+    if (values.length === 0) {
+      return null;
+    }
+
+    return {
+      min: this.round(Math.min(...values)),
+      max: this.round(Math.max(...values)),
+      avg: this.round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    };
+  }
+
+  private static secondaryValues(readings: TrendReading[]): number[] {
+    return readings.filter((r) => r.secondaryValue !== null).map((r) => r.secondaryValue!);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
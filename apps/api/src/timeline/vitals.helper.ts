@@ -0,0 +1,221 @@
+import { VitalRange, VitalSource, VitalType } from '@prisma/client';
+
+export const VITAL_TYPES: VitalType[] = [
+  'BLOOD_PRESSURE',
+  'HEART_RATE',
+  'TEMPERATURE',
+  'BLOOD_SUGAR',
+  'OXYGEN_LEVEL',
+  'WEIGHT',
+];
+
+// Readings and ranges are stored in these units; other units are converted on the way in
+export const CANONICAL_UNITS: Record<VitalType, string> = {
+  BLOOD_PRESSURE: 'mmHg',
+  HEART_RATE: 'bpm',
+  TEMPERATURE: '°F',
+  BLOOD_SUGAR: 'mg/dL',
+  OXYGEN_LEVEL: '%',
+  WEIGHT: 'lb',
+};
+
+export const VITAL_LABELS: Record<VitalType, string> = {
+  BLOOD_PRESSURE: 'Blood pressure',
+  HEART_RATE: 'Heart rate',
+  TEMPERATURE: 'Temperature',
+  BLOOD_SUGAR: 'Blood sugar',
+  OXYGEN_LEVEL: 'Oxygen level',
+  WEIGHT: 'Weight',
+};
+
+export type VitalBounds = Pick<VitalRange, 'min' | 'max' | 'secondaryMin' | 'secondaryMax'>;
+
+// General adult ranges, used until a family sets targets for the care recipient.
+// Weight has no sensible default, so it is never flagged without a configured range.
+export const DEFAULT_VITAL_RANGES: Record<VitalType, VitalBounds> = {
+  BLOOD_PRESSURE: { min: 90, max: 140, secondaryMin: 60, secondaryMax: 90 },
+  HEART_RATE: { min: 50, max: 100, secondaryMin: null, secondaryMax: null },
+  TEMPERATURE: { min: 95, max: 100.4, secondaryMin: null, secondaryMax: null },
+  BLOOD_SUGAR: { min: 70, max: 180, secondaryMin: null, secondaryMax: null },
+  OXYGEN_LEVEL: { min: 92, max: null, secondaryMin: null, secondaryMax: null },
+  WEIGHT: { min: null, max: null, secondaryMin: null, secondaryMax: null },
+};
+
+/**
+ * Timeline entry vitals as clients send them. The original string blood
+ * pressure ("120/80") and the AI smart-entry keys are still accepted.
+ */
+export type TimelineVitalsInput = {
+  bloodPressure?: string;
+  systolic?: number;
+  diastolic?: number;
+  bloodPressureSystolic?: number;
+  bloodPressureDiastolic?: number;
+  heartRate?: number;
+  temperature?: number;
+  temperatureUnit?: 'F' | 'C';
+  bloodSugar?: number;
+  bloodSugarUnit?: 'mg/dL' | 'mmol/L';
+  oxygenLevel?: number;
+  weight?: number;
+  weightUnit?: 'lb' | 'kg';
+  source?: VitalSource;
+  deviceName?: string;
+};
+
+export interface VitalMeasurement {
+  type: VitalType;
+  value: number;
+  secondaryValue: number | null;
+  unit: string;
+}
+
+export interface VitalRangeFinding {
+  type: VitalType;
+  direction: 'low' | 'high';
+  reading: string;
+  expected: string;
+}
+
+const SOURCES: VitalSource[] = ['MANUAL', 'DEVICE', 'IMPORT'];
+
+/**
+ * Parses timeline entry vitals into one measurement per vital and checks
+ * them against target ranges.
+ */
+export class VitalsHelper {
+  /**
+   * Converts the vitals blob into canonical-unit measurements.
+   * Values that are not numbers are ignored, as they always were;
+   * unknown units or sources are reported as errors.
+   */
+  static parse(vitals: TimelineVitalsInput): {
+    measurements: VitalMeasurement[];
+    source: VitalSource;
+    deviceName: string | null;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const measurements: VitalMeasurement[] = [];
+
+    const add = (type: VitalType, value: number | null, secondaryValue: number | null = null) => {
+      if (value !== null) {
+        measurements.push({ type, value: this.round(value), secondaryValue, unit: CANONICAL_UNITS[type] });
+      }
+    };
+
+    const [systolic, diastolic] = this.bloodPressure(vitals);
+    add('BLOOD_PRESSURE', systolic, diastolic);
+    add('HEART_RATE', this.number(vitals.heartRate));
+    add('OXYGEN_LEVEL', this.number(vitals.oxygenLevel));
+
+    const temperature = this.number(vitals.temperature);
+    if (vitals.temperatureUnit && !['F', 'C'].includes(vitals.temperatureUnit)) {
+      errors.push('temperatureUnit must be F or C');
+    } else {
+      add('TEMPERATURE', temperature !== null && vitals.temperatureUnit === 'C' ? temperature * 1.8 + 32 : temperature);
+    }
+
+    const bloodSugar = this.number(vitals.bloodSugar);
+    if (vitals.bloodSugarUnit && !['mg/dL', 'mmol/L'].includes(vitals.bloodSugarUnit)) {
+      errors.push('bloodSugarUnit must be mg/dL or mmol/L');
+    } else {
+      add('BLOOD_SUGAR', bloodSugar !== null && vitals.bloodSugarUnit === 'mmol/L' ? bloodSugar * 18 : bloodSugar);
+    }
+
+    const weight = this.number(vitals.weight);
+    if (vitals.weightUnit && !['lb', 'kg'].includes(vitals.weightUnit)) {
+      errors.push('weightUnit must be lb or kg');
+    } else {
+      add('WEIGHT', weight !== null && vitals.weightUnit === 'kg' ? weight * 2.20462 : weight);
+    }
+
+    if (vitals.source && !SOURCES.includes(vitals.source)) {
+      errors.push(`source must be one of ${SOURCES.join(', ')}`);
+    }
+
+    return {
+      measurements,
+      source: vitals.source || 'MANUAL',
+      deviceName: typeof vitals.deviceName === 'string' && vitals.deviceName.trim() ? vitals.deviceName.trim() : null,
+      errors,
+    };
+  }
+
+  /**
+   * Keeps the legacy and structured blood pressure keys in step, so clients
+   * reading `bloodPressure` and clients sending systolic/diastolic both work
+   */
+  static normalize(vitals: TimelineVitalsInput): TimelineVitalsInput {
+    const [systolic, diastolic] = this.bloodPressure(vitals);
+
+    if (systolic === null || diastolic === null) {
+      return vitals;
+    }
+
+    return { ...vitals, bloodPressure: `${systolic}/${diastolic}`, systolic, diastolic };
+  }
+
+  /**
+   * Compares a measurement with its range; returns null when it is within range
+   */
+  static check(measurement: VitalMeasurement, bounds: VitalBounds): VitalRangeFinding | null {
+    const unit = measurement.unit === '%' ? '%' : ` ${measurement.unit}`;
+    const reading =
+      measurement.secondaryValue !== null
+        ? `${measurement.value}/${measurement.secondaryValue}${unit}`
+        : `${measurement.value}${unit}`;
+    const expected = this.describeRange(measurement.type, bounds);
+
+    const direction =
+      this.compare(measurement.value, bounds.min, bounds.max) ||
+      (measurement.secondaryValue !== null
+        ? this.compare(measurement.secondaryValue, bounds.secondaryMin, bounds.secondaryMax)
+        : null);
+
+    return direction ? { type: measurement.type, direction, reading, expected } : null;
+  }
+
+  static describeRange(type: VitalType, bounds: VitalBounds): string {
+    const unit = CANONICAL_UNITS[type] === '%' ? '%' : ` ${CANONICAL_UNITS[type]}`;
+    const describe = (min: number | null, max: number | null) => {
+      if (min !== null && max !== null) return `${min}–${max}`;
+      if (min !== null) return `≥ ${min}`;
+      if (max !== null) return `≤ ${max}`;
+      return 'any';
+    };
+
+    if (type === 'BLOOD_PRESSURE') {
+      return `${describe(bounds.min, bounds.max)} / ${describe(bounds.secondaryMin, bounds.secondaryMax)}${unit}`;
+    }
+
+    return `${describe(bounds.min, bounds.max)}${unit}`;
+  }
+
+  private static compare(value: number, min: number | null, max: number | null): 'low' | 'high' | null {
+    if (min !== null && value < min) return 'low';
+    if (max !== null && value > max) return 'high';
+    return null;
+  }
+
+  private static bloodPressure(vitals: TimelineVitalsInput): [number | null, number | null] {
+    const systolic = this.number(vitals.systolic ?? vitals.bloodPressureSystolic);
+    const diastolic = this.number(vitals.diastolic ?? vitals.bloodPressureDiastolic);
+
+    if (systolic !== null && diastolic !== null) {
+      return [systolic, diastolic];
+    }
+
+    const match = typeof vitals.bloodPressure === 'string' && vitals.bloodPressure.match(/^\s*(\d{2,3})\s*\/\s*(\d{2,3})\s*$/);
+    return match ? [Number(match[1]), Number(match[2])] : [null, null];
+  }
+
+  private static number(value: unknown): number | null {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
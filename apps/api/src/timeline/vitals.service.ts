@@ -0,0 +1,246 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { CareRecipient, VitalSource, VitalType } from '@prisma/client';
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import { PrismaService } from '../prisma/prisma.service';
+import { UpdateVitalRangeDto } from './dto/vital-range.dto';
+import {
+  CANONICAL_UNITS,
+  DEFAULT_VITAL_RANGES,
+  VITAL_TYPES,
+  VitalBounds,
+  VitalMeasurement,
+  VitalRangeFinding,
+  VitalsHelper,
+} from './vitals.helper';
+import { VitalsTrendHelper } from './vitals-trend.helper';
+
+/**
+ * Structured vital readings and per-care-recipient target ranges.
+ * Readings are written alongside VITALS timeline entries by TimelineService.
+ */
+@Injectable()
+export class VitalsService {
+  constructor(private prisma: PrismaService) {}
+
+  private async verifyAccess(careRecipientId: string, userId: string) {
+    const careRecipient = await this.prisma.careRecipient.findUnique({
+      where: { id: careRecipientId },
+    });
+
+    if (!careRecipient) {
+      throw new NotFoundException('Care recipient not found');
+    }
+
+    const membership = await this.prisma.familyMember.findUnique({
+      where: { familyId_userId: { familyId: careRecipient.familyId, userId } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have access to this care recipient');
+    }
+
+    return { careRecipient, membership };
+  }
+
+  async getRanges(careRecipientId: string, userId: string) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const configured = await this.prisma.vitalRange.findMany({
+      where: { careRecipientId },
+    });
+
+    return VITAL_TYPES.map((type) => {
+      const range = configured.find((r) => r.type === type);
+      const bounds = range || DEFAULT_VITAL_RANGES[type];
+
+      return {
+        type,
+        unit: CANONICAL_UNITS[type],
+        min: bounds.min,
+        max: bounds.max,
+        secondaryMin: bounds.secondaryMin,
+        secondaryMax: bounds.secondaryMax,
+        isDefault: !range,
+        updatedAt: range?.updatedAt ?? null,
+      };
+    });
+  }
+
+  async updateRange(careRecipientId: string, userId: string, type: VitalType, dto: UpdateVitalRangeDto) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot change vital ranges');
+    }
+
+    const bounds: VitalBounds = {
+      min: dto.min ?? null,
+      max: dto.max ?? null,
+      secondaryMin: type === 'BLOOD_PRESSURE' ? dto.secondaryMin ?? null : null,
+      secondaryMax: type === 'BLOOD_PRESSURE' ? dto.secondaryMax ?? null : null,
+    };
+
+    if (type !== 'BLOOD_PRESSURE' && (dto.secondaryMin != null || dto.secondaryMax != null)) {
+      throw new BadRequestException('Diastolic bounds only apply to blood pressure');
+    }
+
+    if (
+      (bounds.min !== null && bounds.max !== null && bounds.min > bounds.max) ||
+      (bounds.secondaryMin !== null && bounds.secondaryMax !== null && bounds.secondaryMin > bounds.secondaryMax)
+    ) {
+      throw new BadRequestException('Range minimum cannot be greater than its maximum');
+    }
+
+    await this.prisma.vitalRange.upsert({
+      where: { careRecipientId_type: { careRecipientId, type } },
+      create: { careRecipientId, type, ...bounds, updatedById: userId },
+      update: { ...bounds, updatedById: userId },
+    });
+
+    return this.getRanges(careRecipientId, userId);
+  }
+
+  async resetRange(careRecipientId: string, userId: string, type: VitalType) {
+    const { membership } = await this.verifyAccess(careRecipientId, userId);
+
+    if (membership.role === 'VIEWER') {
+      throw new ForbiddenException('Viewers cannot change vital ranges');
+    }
+
+    await this.prisma.vitalRange.deleteMany({
+      where: { careRecipientId, type },
+    });
+
+    return this.getRanges(careRecipientId, userId);
+  }
+
+  async getReadings(careRecipientId: string, userId: string, options: { type?: VitalType; days: number }) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - options.days);
+
+    return this.prisma.vitalReading.findMany({
+      where: {
+        careRecipientId,
+        type: options.type,
+        measuredAt: { gte: startDate },
+      },
+      include: {
+        recordedBy: { select: { id: true, fullName: true } },
+      },
+      orderBy: { measuredAt: 'desc' },
+    });
+  }
+
+  /**
+   * Daily min/max/avg, 7-day rolling averages and trend direction for each
+   * vital over the period. Defaults to the last 30 days and every type.
+   */
+  async getTrends(
+    careRecipientId: string,
+    userId: string,
+    options: { from?: Date; to?: Date; types?: VitalType[] },
+  ) {
+    await this.verifyAccess(careRecipientId, userId);
+
+    const rangeEnd = options.to || new Date();
+    const rangeStart = options.from || subDays(rangeEnd, 30);
+
+    if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime())) {
+      throw new BadRequestException('from and to must be valid dates');
+    }
+
+    if (rangeStart > rangeEnd) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    if (differenceInCalendarDays(rangeEnd, rangeStart) > 366) {
+      throw new BadRequestException('Trend range cannot exceed one year');
+    }
+
+    const types = options.types?.length ? options.types : VITAL_TYPES;
+
+    const [readings, ranges] = await Promise.all([
+      this.prisma.vitalReading.findMany({
+        where: {
+          careRecipientId,
+          type: { in: types },
+          // Earlier readings seed the rolling average for the first days
+          measuredAt: { gte: subDays(rangeStart, 7), lte: rangeEnd },
+        },
+        select: { type: true, value: true, secondaryValue: true, measuredAt: true, isOutOfRange: true },
+        orderBy: { measuredAt: 'asc' },
+      }),
+      this.resolveRanges(careRecipientId),
+    ]);
+
+    return {
+      from: rangeStart,
+      to: rangeEnd,
+      series: types.map((type) =>
+        VitalsTrendHelper.buildSeries(
+          type,
+          readings.filter((r) => r.type === type),
+          ranges[type],
+          rangeStart,
+          rangeEnd,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Replaces the readings stored for a timeline entry and flags those outside
+   * the care recipient's ranges. Access is checked by the caller.
+   *
+   * @returns the out-of-range findings, for alerting
+   */
+  async recordForEntry(
+    careRecipient: Pick<CareRecipient, 'id'>,
+    entry: { id: string; occurredAt: Date },
+    parsed: { measurements: VitalMeasurement[]; source: VitalSource; deviceName: string | null },
+    userId: string,
+  ): Promise<VitalRangeFinding[]> {
+    const ranges = await this.resolveRanges(careRecipient.id);
+    const findings: VitalRangeFinding[] = [];
+
+    const readings = parsed.measurements.map((measurement) => {
+      const finding = VitalsHelper.check(measurement, ranges[measurement.type]);
+      if (finding) {
+        findings.push(finding);
+      }
+
+      return {
+        careRecipientId: careRecipient.id,
+        timelineEntryId: entry.id,
+        recordedById: userId,
+        ...measurement,
+        source: parsed.source,
+        deviceName: parsed.deviceName,
+        isOutOfRange: !!finding,
+        measuredAt: entry.occurredAt,
+      };
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.vitalReading.deleteMany({ where: { timelineEntryId: entry.id } }),
+      this.prisma.vitalReading.createMany({ data: readings }),
+    ]);
+
+    return findings;
+  }
+
+  private async resolveRanges(careRecipientId: string): Promise<Record<VitalType, VitalBounds>> {
+    const configured = await this.prisma.vitalRange.findMany({
+      where: { careRecipientId },
+    });
+
+    const ranges = { ...DEFAULT_VITAL_RANGES };
+    for (const range of configured) {
+      ranges[range.type] = range;
+    }
+
+    return ranges;
+  }
+}
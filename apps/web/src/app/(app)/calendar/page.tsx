@@ -24,8 +24,12 @@ import {
   Repeat,
   AlertTriangle,
   Trash2,
+  Upload,
+  ClipboardList,
 } from 'lucide-react';
 import { AddAppointmentModal } from '@/components/modals/add-appointment-modal';
+import { ImportAppointmentsModal } from '@/components/modals/import-appointments-modal';
+import { VisitOutcomeModal } from '@/components/modals/visit-outcome-modal';
 import { 
   format, 
   startOfMonth, 
@@ -48,6 +52,8 @@ export default function CalendarPage() {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [outcomeAppointment, setOutcomeAppointment] = useState<Appointment | null>(null);
 
   // Role-based permissions
   const canEdit = currentRole === 'ADMIN' || currentRole === 'CAREGIVER';
@@ -72,6 +78,18 @@ export default function CalendarPage() {
     },
   });
 
+  // Book a follow-up drafted from a visit outcome
+  const bookDraftMutation = useMutation({
+    mutationFn: (id: string) => appointmentsApi.update(careRecipientId!, id, { status: 'SCHEDULED' }),
+    onSuccess: () => {
+      toast.success('Follow-up booked');
+      queryClient.invalidateQueries({ queryKey: ['appointments', careRecipientId] });
+    },
+    onError: () => {
+      toast.error('Failed to book follow-up');
+    },
+  });
+
   // Cancel appointment mutation
   const cancelAppointmentMutation = useMutation({
     mutationFn: (id: string) => appointmentsApi.cancel(careRecipientId!, id),
@@ -133,16 +151,28 @@ export default function CalendarPage() {
         subtitle="Appointments and schedules"
         actions={
           canEdit ? (
-            <Button
-              variant="primary"
-              size="default"
-              leftIcon={<Plus className="w-4 h-4" />}
-              onClick={() => setIsAddModalOpen(true)}
-              className="text-xs sm:text-sm"
-            >
-              <span className="hidden sm:inline">Add Appointment</span>
-              <span className="sm:hidden">Add</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="secondary"
+                size="default"
+                leftIcon={<Upload className="w-4 h-4" />}
+                onClick={() => setIsImportModalOpen(true)}
+                className="text-xs sm:text-sm"
+              >
+                <span className="hidden sm:inline">Import .ics</span>
+                <span className="sm:hidden">Import</span>
+              </Button>
+              <Button
+                variant="primary"
+                size="default"
+                leftIcon={<Plus className="w-4 h-4" />}
+                onClick={() => setIsAddModalOpen(true)}
+                className="text-xs sm:text-sm"
+              >
+                <span className="hidden sm:inline">Add Appointment</span>
+                <span className="sm:hidden">Add</span>
+              </Button>
+            </div>
           ) : null
         }
       />
@@ -287,6 +317,11 @@ export default function CalendarPage() {
                                 {endTime && ` - ${format(endTime, 'h:mm a')}`}
                               </p>
                             </div>
+                            {apt.status === 'DRAFT' && (
+                              <Badge size="sm" variant="warning" className="flex-shrink-0">
+                                Draft
+                              </Badge>
+                            )}
                             {apt.recurrence && (
                               <Badge size="sm" variant="default" className="flex-shrink-0">
                                 <Repeat className="w-3 h-3 mr-1" />
@@ -321,8 +356,28 @@ export default function CalendarPage() {
                             )}
                           </div>
 
-                          {(canEdit || canDelete) && (
+                          {(canEdit || canDelete || apt.status === 'COMPLETED') && (
                             <div className="flex flex-wrap gap-2 mt-4">
+                              {apt.status === 'DRAFT' && canEdit && (
+                                <Button
+                                  variant="primary"
+                                  size="sm"
+                                  onClick={() => bookDraftMutation.mutate(apt.id)}
+                                  disabled={bookDraftMutation.isPending}
+                                >
+                                  Book
+                                </Button>
+                              )}
+                              {!['DRAFT', 'CANCELLED'].includes(apt.status) && startTime <= new Date() && (canEdit || apt.status === 'COMPLETED') && (
+                                <Button
+                                  variant="secondary"
+                                  size="sm"
+                                  leftIcon={<ClipboardList className="w-4 h-4" />}
+                                  onClick={() => setOutcomeAppointment(apt)}
+                                >
+                                  {apt.status === 'COMPLETED' ? 'Visit notes' : 'Record visit'}
+                                </Button>
+                              )}
                               {canEdit && (
                                 <>
                                   <Button variant="secondary" size="sm">Edit</Button>
@@ -378,6 +433,26 @@ export default function CalendarPage() {
           selectedDate={selectedDate}
         />
       )}
+
+      {/* Visit Outcome Modal */}
+      {careRecipientId && outcomeAppointment && (
+        <VisitOutcomeModal
+          isOpen={!!outcomeAppointment}
+          onClose={() => setOutcomeAppointment(null)}
+          careRecipientId={careRecipientId}
+          appointment={outcomeAppointment}
+          canEdit={canEdit}
+        />
+      )}
+
+      {/* Import Appointments Modal */}
+      {careRecipientId && (
+        <ImportAppointmentsModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          careRecipientId={careRecipientId}
+        />
+      )}
     </div>
   );
 }
@@ -15,9 +15,13 @@ import { Avatar } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { PageHeader } from '@/components/layout/page-header';
 import { EmergencyButton } from '@/components/care/emergency-button';
+import { VitalRangesCard } from '@/components/care/vital-ranges-card';
+import { VitalTrendsPanel } from '@/components/care/vital-trends-panel';
+import { HospitalStayCard } from '@/components/care/hospital-stay-card';
 import { EditCareRecipientModal } from '@/components/modals/edit-care-recipient-modal';
 import { api } from '@/lib/api/client';
 import { BLOOD_TYPE_LABELS } from '@/lib/constants';
+import { useFamilySpace } from '@/contexts/family-space-context';
 import Link from 'next/link';
 
 interface CareRecipient {
@@ -62,6 +66,8 @@ export default function CareRecipientDetailPage() {
   const router = useRouter();
   const id = params.id as string;
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const { currentRole } = useFamilySpace();
+  const canEdit = currentRole === 'ADMIN' || currentRole === 'CAREGIVER';
 
   const { data: careRecipient, isLoading, error } = useQuery<CareRecipient>({
     queryKey: ['care-recipient', id],
@@ -221,6 +227,15 @@ export default function CareRecipientDetailPage() {
         </Card>
       </div>
 
+      {/* Vital Trends */}
+      <VitalTrendsPanel careRecipientId={id} />
+
+      {/* Vital Target Ranges */}
+      <VitalRangesCard careRecipientId={id} canEdit={canEdit} />
+
+      {/* Hospital Stays */}
+      <HospitalStayCard careRecipientId={id} canEdit={canEdit} />
+
       {/* Emergency Contacts */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
@@ -8,7 +8,31 @@ import { cn, formatDate } from '@/lib/utils';
 import { FamilySpaceSelector } from '@/components/layout/family-space-selector';
 import { useFamilySpace } from '@/contexts/family-space-context';
 import { useAuth } from '@/hooks/use-auth';
-import { shiftsApi, familyApi, type CaregiverShift, type CreateShiftDto } from '@/lib/api';
+import { getCurrentPosition } from '@/lib/geolocation';
+import {
+  AvailabilityCard,
+  CaregiverSuggestions,
+  CoverageGapsCard,
+  LocationReviewCard,
+  OpenShiftsCard,
+  ShiftHandoffReport,
+  ShiftHistoryCard,
+  TimesheetsCard,
+} from '@/components/care';
+import {
+  shiftsApi,
+  shiftSwapsApi,
+  familyApi,
+  errorMessage,
+  type CaregiverShift,
+  type CheckOutDto,
+  type CoverageGap,
+  type CreateShiftDto,
+  type CreateShiftSeriesDto,
+  type ShiftEditScope,
+  type ShiftRecurrence,
+  type UpdateShiftDto,
+} from '@/lib/api';
 import { PageHeader } from '@/components/layout/page-header';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -38,9 +62,13 @@ import {
   CheckCircle2,
   LogIn,
   LogOut,
+  MapPin,
   MessageSquare,
   ChevronRight,
   AlertCircle,
+  ArrowLeftRight,
+  Pencil,
+  Repeat,
   X,
 } from 'lucide-react';
 import {
@@ -54,6 +82,22 @@ import {
   subWeeks,
 } from 'date-fns';
 
+const REPEAT_OPTIONS: { value: ShiftRecurrence; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+const SCOPE_OPTIONS: { value: ShiftEditScope; label: string }[] = [
+  { value: 'this', label: 'This shift' },
+  { value: 'following', label: 'This and following shifts' },
+  { value: 'all', label: 'All upcoming shifts in the series' },
+];
+
+const toDateTimeInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
 const statusConfig = {
   SCHEDULED: { label: 'Scheduled', color: 'bg-bg-muted text-text-secondary' },
   IN_PROGRESS: { label: 'In Progress', color: 'bg-success-light text-success' },
@@ -63,7 +107,11 @@ const statusConfig = {
 };
 
 export default function CaregiversPage() {
-  const { selectedFamilyId: familyId, selectedCareRecipientId: careRecipientId } = useFamilySpace();
+  const {
+    selectedFamilyId: familyId,
+    selectedCareRecipientId: careRecipientId,
+    currentRole,
+  } = useFamilySpace();
   const { user } = useAuth();
   const queryClient = useQueryClient();
 
@@ -74,6 +122,11 @@ export default function CaregiversPage() {
   const [createShiftOpen, setCreateShiftOpen] = useState(false);
   const [checkInShiftId, setCheckInShiftId] = useState<string | null>(null);
   const [checkOutShiftId, setCheckOutShiftId] = useState<string | null>(null);
+  const [editShift, setEditShift] = useState<CaregiverShift | null>(null);
+  const [cancelSeriesShift, setCancelSeriesShift] = useState<CaregiverShift | null>(null);
+  const [offerShift, setOfferShift] = useState<CaregiverShift | null>(null);
+  const [offerReason, setOfferReason] = useState('');
+  const [handoffShiftId, setHandoffShiftId] = useState<string | null>(null);
 
   // Form states
   const [shiftForm, setShiftForm] = useState({
@@ -81,6 +134,16 @@ export default function CaregiversPage() {
     startTime: '',
     endTime: '',
     notes: '',
+    repeat: 'none' as ShiftRecurrence,
+    repeatUntil: '',
+  });
+
+  const [editForm, setEditForm] = useState({
+    caregiverId: '',
+    startTime: '',
+    endTime: '',
+    notes: '',
+    scope: 'this' as ShiftEditScope,
   });
 
   const [checkInForm, setCheckInForm] = useState({
@@ -92,6 +155,8 @@ export default function CaregiversPage() {
     notes: '',
     location: '',
     handoffNotes: '',
+    todos: '',
+    completedTodoIds: [] as string[],
   });
 
   const weekStart = startOfWeek(currentWeek);
@@ -121,29 +186,103 @@ export default function CaregiversPage() {
     refetchInterval: 30000,
   });
 
+  // Fetch open shift swaps
+  const { data: swaps = [] } = useQuery({
+    queryKey: ['shift-swaps', careRecipientId],
+    queryFn: () => shiftSwapsApi.getAll(careRecipientId!),
+    enabled: !!careRecipientId,
+    refetchInterval: 30000,
+  });
+
+  // Latest handoff, read at check-in and carried into check-out
+  const { data: latestHandoff } = useQuery({
+    queryKey: ['latest-handoff', careRecipientId],
+    queryFn: () => shiftsApi.getLatestHandoff(careRecipientId!),
+    enabled: !!careRecipientId && (!!checkInShiftId || !!checkOutShiftId),
+  });
+
+  // Handoff for a completed shift
+  const { data: viewedHandoff, isLoading: viewedHandoffLoading } = useQuery({
+    queryKey: ['shift-handoff', handoffShiftId],
+    queryFn: () => shiftsApi.getHandoff(careRecipientId!, handoffShiftId!),
+    enabled: !!careRecipientId && !!handoffShiftId,
+  });
+
+  const pendingHandoff =
+    latestHandoff && !latestHandoff.acknowledgedAt && latestHandoff.authorId !== user?.id
+      ? latestHandoff
+      : null;
+  const carriedTodos = latestHandoff?.todos.filter((todo) => !todo.done) || [];
+
   // Create shift mutation
   const createShiftMutation = useMutation({
     mutationFn: (data: CreateShiftDto) => shiftsApi.create(careRecipientId!, data),
-    onSuccess: () => {
+    onSuccess: (shift) => {
       toast.success('Shift created successfully');
+      shift.warnings?.forEach((warning) => toast(warning.message, { icon: '⚠️' }));
+      queryClient.invalidateQueries({ queryKey: ['caregiver-suggestions', careRecipientId] });
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
       queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
       setCreateShiftOpen(false);
-      setShiftForm({ caregiverId: '', startTime: '', endTime: '', notes: '' });
+      setShiftForm({ caregiverId: '', startTime: '', endTime: '', notes: '', repeat: 'none', repeatUntil: '' });
     },
     onError: (error: any) => {
       toast.error(error?.message || 'Failed to create shift');
     },
   });
 
+  // Create recurring series mutation
+  const createSeriesMutation = useMutation({
+    mutationFn: (data: CreateShiftSeriesDto) => shiftsApi.createSeries(careRecipientId!, data),
+    onSuccess: (series) => {
+      toast.success(`Recurring shift created: ${series.shiftsCreated} shifts scheduled`);
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      setCreateShiftOpen(false);
+      setShiftForm({ caregiverId: '', startTime: '', endTime: '', notes: '', repeat: 'none', repeatUntil: '' });
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Failed to create recurring shift'));
+    },
+  });
+
+  // Edit shift mutation
+  const updateShiftMutation = useMutation({
+    mutationFn: ({ shiftId, data }: { shiftId: string; data: UpdateShiftDto }) =>
+      shiftsApi.update(careRecipientId!, shiftId, data),
+    onSuccess: () => {
+      toast.success('Shift updated');
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      setEditShift(null);
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Failed to update shift'));
+    },
+  });
+
   // Check in mutation
   const checkInMutation = useMutation({
-    mutationFn: ({ shiftId, data }: { shiftId: string; data: typeof checkInForm }) =>
-      shiftsApi.checkIn(careRecipientId!, shiftId, data),
-    onSuccess: () => {
-      toast.success('Checked in successfully');
+    mutationFn: async ({ shiftId, data }: { shiftId: string; data: typeof checkInForm }) =>
+      shiftsApi.checkIn(careRecipientId!, shiftId, { ...data, ...(await getCurrentPosition()) }),
+    onSuccess: (shift) => {
+      toast.success(
+        shift.handoff
+          ? `Checked in · handoff from ${shift.handoff.author.fullName} received`
+          : 'Checked in successfully'
+      );
+      if (shift.locationFlagged) {
+        toast('Your location could not be verified, so an admin will review this check-in');
+      }
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
       queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['latest-handoff', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['shift-history', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['location-reviews', careRecipientId] });
       setCheckInShiftId(null);
       setCheckInForm({ notes: '', location: '' });
     },
@@ -154,14 +293,18 @@ export default function CaregiversPage() {
 
   // Check out mutation
   const checkOutMutation = useMutation({
-    mutationFn: ({ shiftId, data }: { shiftId: string; data: typeof checkOutForm }) =>
-      shiftsApi.checkOut(careRecipientId!, shiftId, data),
+    mutationFn: async ({ shiftId, data }: { shiftId: string; data: CheckOutDto }) =>
+      shiftsApi.checkOut(careRecipientId!, shiftId, { ...data, ...(await getCurrentPosition()) }),
     onSuccess: () => {
-      toast.success('Checked out successfully');
+      toast.success('Checked out and handoff sent');
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
       queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['latest-handoff', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['shift-history', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['location-reviews', careRecipientId] });
       setCheckOutShiftId(null);
-      setCheckOutForm({ notes: '', location: '', handoffNotes: '' });
+      setCheckOutForm({ notes: '', location: '', handoffNotes: '', todos: '', completedTodoIds: [] });
     },
     onError: (error: any) => {
       toast.error(error?.message || 'Failed to check out');
@@ -170,16 +313,48 @@ export default function CaregiversPage() {
 
   // Cancel shift mutation
   const cancelShiftMutation = useMutation({
-    mutationFn: (shiftId: string) => shiftsApi.cancel(careRecipientId!, shiftId),
-    onSuccess: () => {
-      toast.success('Shift cancelled');
+    mutationFn: ({ shiftId, scope }: { shiftId: string; scope?: ShiftEditScope }) =>
+      shiftsApi.cancel(careRecipientId!, shiftId, scope),
+    onSuccess: (_, { scope }) => {
+      toast.success(scope && scope !== 'this' ? 'Shifts cancelled' : 'Shift cancelled');
       queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      setCancelSeriesShift(null);
     },
     onError: (error: any) => {
       toast.error(error?.message || 'Failed to cancel shift');
     },
   });
 
+  // Offer shift for swap mutation
+  const offerShiftMutation = useMutation({
+    mutationFn: ({ shiftId, reason }: { shiftId: string; reason?: string }) =>
+      shiftSwapsApi.offer(careRecipientId!, { shiftId, reason }),
+    onSuccess: () => {
+      toast.success('Shift offered to the other caregivers');
+      queryClient.invalidateQueries({ queryKey: ['shift-swaps', careRecipientId] });
+      setOfferShift(null);
+      setOfferReason('');
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Failed to offer shift'));
+    },
+  });
+
+  // Open the create dialog prefilled with an uncovered interval
+  const scheduleGap = (gap: CoverageGap) => {
+    setShiftForm({
+      ...shiftForm,
+      startTime: toDateTimeInput(gap.start),
+      endTime: toDateTimeInput(gap.end),
+      repeat: 'none',
+      repeatUntil: '',
+    });
+    setCreateShiftOpen(true);
+  };
+
+  const swapByShiftId = new Map(swaps.map((swap) => [swap.shiftId, swap]));
+
   const getShiftsForDay = (day: Date) =>
     shifts.filter((s) => isSameDay(new Date(s.startTime), day));
 
@@ -191,11 +366,51 @@ export default function CaregiversPage() {
       return;
     }
 
-    createShiftMutation.mutate({
+    const data = {
       caregiverId: shiftForm.caregiverId,
       startTime: shiftForm.startTime,
       endTime: shiftForm.endTime,
       notes: shiftForm.notes || undefined,
+    };
+
+    if (shiftForm.repeat === 'none') {
+      createShiftMutation.mutate(data);
+      return;
+    }
+
+    createSeriesMutation.mutate({
+      ...data,
+      recurrence: shiftForm.repeat,
+      recurrenceEndDate: shiftForm.repeatUntil ? `${shiftForm.repeatUntil}T23:59:59` : undefined,
+    });
+  };
+
+  const openEditShift = (shift: CaregiverShift) => {
+    setEditShift(shift);
+    setEditForm({
+      caregiverId: shift.caregiverId,
+      startTime: toDateTimeInput(shift.startTime),
+      endTime: toDateTimeInput(shift.endTime),
+      notes: shift.notes || '',
+      scope: 'this',
+    });
+  };
+
+  const handleUpdateShift = () => {
+    if (!editShift || !editForm.caregiverId || !editForm.startTime || !editForm.endTime) {
+      toast.error('Please fill all required fields');
+      return;
+    }
+
+    updateShiftMutation.mutate({
+      shiftId: editShift.id,
+      data: {
+        caregiverId: editForm.caregiverId,
+        startTime: editForm.startTime,
+        endTime: editForm.endTime,
+        notes: editForm.notes,
+        scope: editShift.seriesId ? editForm.scope : undefined,
+      },
     });
   };
 
@@ -214,7 +429,16 @@ export default function CaregiversPage() {
 
     checkOutMutation.mutate({
       shiftId,
-      data: checkOutForm,
+      data: {
+        notes: checkOutForm.notes,
+        location: checkOutForm.location,
+        handoffNotes: checkOutForm.handoffNotes,
+        todos: checkOutForm.todos
+          .split('\n')
+          .map((todo) => todo.trim())
+          .filter(Boolean),
+        completedTodoIds: checkOutForm.completedTodoIds,
+      },
     });
   };
 
@@ -298,6 +522,23 @@ export default function CaregiversPage() {
           </Card>
         )}
 
+        {/* Open Shifts */}
+        <OpenShiftsCard
+          careRecipientId={careRecipientId}
+          swaps={swaps}
+          shifts={shifts}
+          currentUserId={user?.id}
+          isAdmin={currentRole === 'ADMIN'}
+          canClaim={currentRole === 'ADMIN' || currentRole === 'CAREGIVER'}
+        />
+
+        {/* Coverage */}
+        <CoverageGapsCard
+          careRecipientId={careRecipientId}
+          isAdmin={currentRole === 'ADMIN'}
+          onScheduleGap={currentRole === 'VIEWER' ? undefined : scheduleGap}
+        />
+
         {/* Week View */}
         <Card>
           <CardContent>
@@ -410,6 +651,12 @@ export default function CaregiversPage() {
                   shift.caregiverId === user?.id;
                 const canCheckOut =
                   shift.status === 'IN_PROGRESS' && shift.caregiverId === user?.id;
+                const swap = swapByShiftId.get(shift.id);
+                const canOffer =
+                  !swap &&
+                  (shift.status === 'SCHEDULED' || shift.status === 'CONFIRMED') &&
+                  new Date(shift.startTime) > new Date() &&
+                  (shift.caregiverId === user?.id || currentRole === 'ADMIN');
 
                 return (
                   <motion.div
@@ -434,6 +681,24 @@ export default function CaregiversPage() {
                             <Badge className={status.color} size="sm">
                               {status.label}
                             </Badge>
+                            {shift.seriesId && (
+                              <Badge variant="outline" size="sm">
+                                <Repeat className="w-3 h-3 mr-1" />
+                                Recurring
+                              </Badge>
+                            )}
+                            {swap && (
+                              <Badge variant="warning" size="sm">
+                                <ArrowLeftRight className="w-3 h-3 mr-1" />
+                                {swap.status === 'CLAIMED' ? 'Swap pending' : 'Up for swap'}
+                              </Badge>
+                            )}
+                            {currentRole === 'ADMIN' && shift.locationFlagged && !shift.locationReviewedAt && (
+                              <Badge variant="warning" size="sm">
+                                <MapPin className="w-3 h-3 mr-1" />
+                                Location flagged
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex flex-wrap items-center gap-2 sm:gap-3 mt-1 text-xs sm:text-sm text-text-secondary">
                             <span className="flex items-center gap-1">
@@ -469,16 +734,6 @@ export default function CaregiversPage() {
                             </div>
                           )}
 
-                          {/* Handoff Notes */}
-                          {shift.handoffNotes && (
-                            <div className="mt-3 p-3 bg-bg-muted rounded-lg">
-                              <p className="text-xs font-medium text-text-tertiary mb-1 flex items-center gap-1">
-                                <MessageSquare className="w-3.5 h-3.5" />
-                                Handoff Notes
-                              </p>
-                              <p className="text-sm text-text-secondary">{shift.handoffNotes}</p>
-                            </div>
-                          )}
 
                           {/* Actions */}
                           <div className="flex flex-wrap gap-2 mt-3">
@@ -504,13 +759,48 @@ export default function CaregiversPage() {
                               </Button>
                             )}
 
+                            {(shift.status === 'SCHEDULED' || shift.status === 'CONFIRMED') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                leftIcon={<Pencil className="w-4 h-4" />}
+                                onClick={() => openEditShift(shift)}
+                              >
+                                Edit
+                              </Button>
+                            )}
+
+                            {shift.status === 'COMPLETED' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                leftIcon={<MessageSquare className="w-4 h-4" />}
+                                onClick={() => setHandoffShiftId(shift.id)}
+                              >
+                                View Handoff
+                              </Button>
+                            )}
+
+                            {canOffer && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                leftIcon={<ArrowLeftRight className="w-4 h-4" />}
+                                onClick={() => setOfferShift(shift)}
+                              >
+                                Offer Swap
+                              </Button>
+                            )}
+
                             {shift.status === 'SCHEDULED' && (
                               <Button
                                 variant="secondary"
                                 size="sm"
                                 onClick={() => {
-                                  if (confirm('Are you sure you want to cancel this shift?')) {
-                                    cancelShiftMutation.mutate(shift.id);
+                                  if (shift.seriesId) {
+                                    setCancelSeriesShift(shift);
+                                  } else if (confirm('Are you sure you want to cancel this shift?')) {
+                                    cancelShiftMutation.mutate({ shiftId: shift.id });
                                   }
                                 }}
                               >
@@ -527,8 +817,48 @@ export default function CaregiversPage() {
             </div>
           )}
         </div>
+
+        {/* Check-in Locations */}
+        {currentRole === 'ADMIN' && <LocationReviewCard careRecipientId={careRecipientId} />}
+
+        {/* Shift History */}
+        <ShiftHistoryCard careRecipientId={careRecipientId} />
+
+        {/* Availability */}
+        {currentRole !== 'VIEWER' && (
+          <AvailabilityCard
+            careRecipientId={careRecipientId}
+            currentUserId={user?.id}
+            isAdmin={currentRole === 'ADMIN'}
+          />
+        )}
+
+        {/* Timesheets */}
+        {currentRole !== 'VIEWER' && (
+          <TimesheetsCard
+            careRecipientId={careRecipientId}
+            currentUserId={user?.id}
+            isAdmin={currentRole === 'ADMIN'}
+          />
+        )}
       </div>
 
+      {/* Handoff Dialog */}
+      <Dialog open={!!handoffShiftId} onOpenChange={() => setHandoffShiftId(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Shift Handoff</DialogTitle>
+          </DialogHeader>
+          {viewedHandoffLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : viewedHandoff ? (
+            <ShiftHandoffReport handoff={viewedHandoff} />
+          ) : (
+            <p className="text-sm text-text-secondary">No handoff was written for this shift.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Create Shift Dialog */}
       <Dialog open={createShiftOpen} onOpenChange={setCreateShiftOpen}>
         <DialogContent>
@@ -585,6 +915,16 @@ export default function CaregiversPage() {
               />
             </div>
 
+            {careRecipientId && shiftForm.startTime && shiftForm.endTime && (
+              <CaregiverSuggestions
+                careRecipientId={careRecipientId}
+                startTime={shiftForm.startTime}
+                endTime={shiftForm.endTime}
+                selectedId={shiftForm.caregiverId}
+                onSelect={(caregiverId) => setShiftForm((prev) => ({ ...prev, caregiverId }))}
+              />
+            )}
+
             <div>
               <label className="text-sm font-medium text-text-primary mb-2 block">Notes</label>
               <Textarea
@@ -596,6 +936,48 @@ export default function CaregiversPage() {
                 rows={3}
               />
             </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-text-primary mb-2 block">Repeat</label>
+                <Select
+                  value={shiftForm.repeat}
+                  onValueChange={(value) =>
+                    setShiftForm((prev) => ({ ...prev, repeat: value as ShiftRecurrence }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPEAT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {shiftForm.repeat !== 'none' && (
+                <div>
+                  <label className="text-sm font-medium text-text-primary mb-2 block">Until</label>
+                  <Input
+                    type="date"
+                    value={shiftForm.repeatUntil}
+                    onChange={(e) =>
+                      setShiftForm((prev) => ({ ...prev, repeatUntil: e.target.value }))
+                    }
+                  />
+                </div>
+              )}
+            </div>
+            {shiftForm.repeat !== 'none' && (
+              <p className="text-xs text-text-tertiary">
+                Shifts are scheduled four weeks ahead and extended automatically
+                {shiftForm.repeatUntil ? '' : ' until you end the series'}.
+              </p>
+            )}
           </div>
           <DialogFooter>
             <Button variant="secondary" onClick={() => setCreateShiftOpen(false)}>
@@ -604,9 +986,186 @@ export default function CaregiversPage() {
             <Button
               variant="primary"
               onClick={handleCreateShift}
-              disabled={createShiftMutation.isPending}
+              disabled={createShiftMutation.isPending || createSeriesMutation.isPending}
             >
-              {createShiftMutation.isPending ? 'Creating...' : 'Create Shift'}
+              {createShiftMutation.isPending || createSeriesMutation.isPending ? 'Creating...' : 'Create Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Shift Dialog */}
+      <Dialog open={!!editShift} onOpenChange={() => setEditShift(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Shift</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">
+                Caregiver *
+              </label>
+              <Select
+                value={editForm.caregiverId}
+                onValueChange={(value) =>
+                  setEditForm((prev) => ({ ...prev, caregiverId: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select caregiver" />
+                </SelectTrigger>
+                <SelectContent>
+                  {familyMembers.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.user.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium text-text-primary mb-2 block">
+                  Start Time *
+                </label>
+                <Input
+                  type="datetime-local"
+                  value={editForm.startTime}
+                  onChange={(e) =>
+                    setEditForm((prev) => ({ ...prev, startTime: e.target.value }))
+                  }
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-text-primary mb-2 block">
+                  End Time *
+                </label>
+                <Input
+                  type="datetime-local"
+                  value={editForm.endTime}
+                  onChange={(e) =>
+                    setEditForm((prev) => ({ ...prev, endTime: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">Notes</label>
+              <Textarea
+                value={editForm.notes}
+                onChange={(e) =>
+                  setEditForm((prev) => ({ ...prev, notes: e.target.value }))
+                }
+                rows={3}
+              />
+            </div>
+
+            {editShift?.seriesId && (
+              <div>
+                <label className="text-sm font-medium text-text-primary mb-2 block">
+                  Apply changes to
+                </label>
+                <div className="space-y-2">
+                  {SCOPE_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm text-text-secondary">
+                      <input
+                        type="radio"
+                        name="edit-scope"
+                        checked={editForm.scope === option.value}
+                        onChange={() => setEditForm((prev) => ({ ...prev, scope: option.value }))}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setEditShift(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleUpdateShift}
+              disabled={updateShiftMutation.isPending}
+            >
+              {updateShiftMutation.isPending ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Offer Swap Dialog */}
+      <Dialog open={!!offerShift} onOpenChange={() => setOfferShift(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Offer Shift for Swap</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {offerShift && (
+              <p className="text-sm text-text-secondary">
+                {format(new Date(offerShift.startTime), 'EEE MMM d, h:mm a')} -{' '}
+                {format(new Date(offerShift.endTime), 'h:mm a')}. Other caregivers can claim it or
+                offer one of their shifts in exchange; the shift stays yours until you approve.
+              </p>
+            )}
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">Reason</label>
+              <Textarea
+                value={offerReason}
+                onChange={(e) => setOfferReason(e.target.value)}
+                placeholder="Let the family know why you need cover..."
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setOfferShift(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() =>
+                offerShiftMutation.mutate({
+                  shiftId: offerShift!.id,
+                  reason: offerReason.trim() || undefined,
+                })
+              }
+              disabled={offerShiftMutation.isPending}
+            >
+              {offerShiftMutation.isPending ? 'Offering...' : 'Offer Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Recurring Shift Dialog */}
+      <Dialog open={!!cancelSeriesShift} onOpenChange={() => setCancelSeriesShift(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Recurring Shift</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {SCOPE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant="outline"
+                className="w-full justify-start"
+                disabled={cancelShiftMutation.isPending}
+                onClick={() =>
+                  cancelShiftMutation.mutate({ shiftId: cancelSeriesShift!.id, scope: option.value })
+                }
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setCancelSeriesShift(null)}>
+              Keep Shifts
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -614,11 +1173,20 @@ export default function CaregiversPage() {
 
       {/* Check-in Dialog */}
       <Dialog open={!!checkInShiftId} onOpenChange={() => setCheckInShiftId(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Check In to Shift</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {pendingHandoff && (
+              <div className="p-3 rounded-lg border border-border bg-bg-muted max-h-72 overflow-y-auto">
+                <p className="text-sm font-medium text-text-primary mb-2">
+                  Handoff from the last shift
+                </p>
+                <ShiftHandoffReport handoff={pendingHandoff} />
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium text-text-primary mb-2 block">
                 Check-in Notes
@@ -653,7 +1221,11 @@ export default function CaregiversPage() {
               onClick={() => handleCheckIn(checkInShiftId!)}
               disabled={checkInMutation.isPending}
             >
-              {checkInMutation.isPending ? 'Checking In...' : 'Check In'}
+              {checkInMutation.isPending
+                ? 'Checking In...'
+                : pendingHandoff
+                  ? 'Acknowledge & Check In'
+                  : 'Check In'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -661,10 +1233,14 @@ export default function CaregiversPage() {
 
       {/* Check-out Dialog */}
       <Dialog open={!!checkOutShiftId} onOpenChange={() => setCheckOutShiftId(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Check Out from Shift</DialogTitle>
           </DialogHeader>
+          <p className="text-sm text-text-secondary">
+            Doses, timeline entries and open alerts from your shift are added to the handoff
+            automatically.
+          </p>
           <div className="space-y-4">
             <div>
               <label className="text-sm font-medium text-text-primary mb-2 block">
@@ -680,6 +1256,48 @@ export default function CaregiversPage() {
               />
             </div>
 
+            {carriedTodos.length > 0 && (
+              <div>
+                <label className="text-sm font-medium text-text-primary mb-2 block">
+                  Open To-dos
+                </label>
+                <div className="space-y-1.5">
+                  {carriedTodos.map((todo) => (
+                    <label key={todo.id} className="flex items-center gap-2 text-sm text-text-secondary">
+                      <input
+                        type="checkbox"
+                        checked={checkOutForm.completedTodoIds.includes(todo.id)}
+                        onChange={(e) =>
+                          setCheckOutForm((prev) => ({
+                            ...prev,
+                            completedTodoIds: e.target.checked
+                              ? [...prev.completedTodoIds, todo.id]
+                              : prev.completedTodoIds.filter((id) => id !== todo.id),
+                          }))
+                        }
+                      />
+                      {todo.text}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-text-tertiary mt-1">
+                  Unchecked to-dos carry over to the next shift.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">
+                To-dos for the Next Shift
+              </label>
+              <Textarea
+                value={checkOutForm.todos}
+                onChange={(e) => setCheckOutForm((prev) => ({ ...prev, todos: e.target.value }))}
+                placeholder="One per line, e.g. Call the pharmacy about the refill"
+                rows={3}
+              />
+            </div>
+
             <div>
               <label className="text-sm font-medium text-text-primary mb-2 block">
                 Check-out Notes
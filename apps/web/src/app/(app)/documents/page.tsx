@@ -29,8 +29,10 @@ import {
   AlertCircle,
   FolderOpen,
   Trash2,
+  History,
 } from 'lucide-react';
 import { UploadDocumentModal } from '@/components/modals/upload-document-modal';
+import { DocumentVersionsModal } from '@/components/modals/document-versions-modal';
 import { differenceInDays, parseISO } from 'date-fns';
 
 const documentCategories = [
@@ -70,6 +72,7 @@ export default function DocumentsPage() {
 
   const [category, setCategory] = useState('all');
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [historyDocument, setHistoryDocument] = useState<Document | null>(null);
 
   // Fetch all documents
   const { data: documents = [], isLoading } = useQuery({
@@ -284,7 +287,9 @@ export default function DocumentsPage() {
                           {formatFileSize(doc.sizeBytes)} &bull; {doc.mimeType.split('/')[1]?.toUpperCase() || 'FILE'}
                         </p>
                         <p className="text-[10px] sm:text-xs text-text-tertiary mt-1">
-                          Uploaded {formatRelativeTime(doc.createdAt)}
+                          {doc.currentVersion > 1
+                            ? `Version ${doc.currentVersion} · updated ${formatRelativeTime(doc.updatedAt)}`
+                            : `Uploaded ${formatRelativeTime(doc.createdAt)}`}
                         </p>
                       </div>
                     </div>
@@ -315,6 +320,13 @@ export default function DocumentsPage() {
                       >
                         Download
                       </Button>
+                      <button
+                        className="p-1.5 sm:p-2 rounded-lg text-text-tertiary hover:text-text-primary hover:bg-bg-muted transition-colors flex-shrink-0"
+                        title={canUpload ? 'Replace file or view history' : 'Version history'}
+                        onClick={() => setHistoryDocument(doc)}
+                      >
+                        <History className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                      </button>
                       {canDelete && (
                         <button
                           className="p-1.5 sm:p-2 rounded-lg text-text-tertiary hover:text-destructive hover:bg-destructive/10 transition-colors flex-shrink-0"
@@ -364,6 +376,17 @@ export default function DocumentsPage() {
           familyId={familyId}
         />
       )}
+
+      {/* Version History Modal */}
+      {familyId && historyDocument && (
+        <DocumentVersionsModal
+          isOpen
+          onClose={() => setHistoryDocument(null)}
+          familyId={familyId}
+          document={historyDocument}
+          canEdit={canUpload}
+        />
+      )}
     </div>
   );
 }
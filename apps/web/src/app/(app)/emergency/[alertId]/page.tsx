@@ -0,0 +1,370 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  AlertTriangle,
+  BellRing,
+  Building2,
+  Camera,
+  Car,
+  CheckCircle,
+  Eye,
+  MessageSquare,
+} from 'lucide-react';
+import { PageHeader } from '@/components/layout/page-header';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useFamilySpace } from '@/contexts/family-space-context';
+import {
+  useAcknowledgeAlert,
+  useAddAlertPhoto,
+  useAlert,
+  usePostAlertUpdate,
+  useResolveAlert,
+} from '@/hooks/use-emergency';
+import { EMERGENCY_TYPE_LABELS } from '@/lib/constants';
+import type { EmergencyAlertUpdate, EscalationRecord } from '@/lib/api';
+
+const ETA_OPTIONS = [5, 10, 15, 30, 60];
+
+const AUDIENCE_LABELS: Record<EscalationRecord['audience'], string> = {
+  ALL_MEMBERS: 'everyone in the family',
+  ADMINS: 'family admins',
+  EMERGENCY_CONTACTS: 'emergency contacts',
+};
+
+const UPDATE_ICONS: Record<EmergencyAlertUpdate['type'], typeof Car> = {
+  RESPONDING: Car,
+  STATUS: MessageSquare,
+  PHOTO: Camera,
+  HOSPITAL: Building2,
+  ACKNOWLEDGED: Eye,
+  RESOLVED: CheckCircle,
+};
+
+type ThreadItem =
+  | { kind: 'update'; at: string; update: EmergencyAlertUpdate }
+  | { kind: 'escalation'; at: string; record: EscalationRecord };
+
+function describeUpdate(update: EmergencyAlertUpdate) {
+  const name = update.author.fullName;
+
+  switch (update.type) {
+    case 'RESPONDING':
+      return `${name} is on the way${update.etaMinutes !== null ? ` · ETA ${update.etaMinutes} min` : ''}`;
+    case 'HOSPITAL':
+      return `Going to ${update.hospitalName}${update.hospitalAddress ? `, ${update.hospitalAddress}` : ''}`;
+    case 'PHOTO':
+      return `${name} added a photo`;
+    case 'ACKNOWLEDGED':
+      return `${name} acknowledged the alert`;
+    case 'RESOLVED':
+      return `${name} resolved the alert`;
+    default:
+      return name;
+  }
+}
+
+/**
+ * Incident thread for one emergency alert: who is responding, what is
+ * happening, photos and which hospital. Push notifications link here.
+ */
+export default function EmergencyAlertPage() {
+  const params = useParams();
+  const alertId = params.alertId as string;
+  const { selectedCareRecipientId, currentRole } = useFamilySpace();
+  const careRecipientId = selectedCareRecipientId || '';
+
+  const { data: alert, isLoading, isError } = useAlert(careRecipientId, alertId);
+  const postUpdate = usePostAlertUpdate(careRecipientId, alertId);
+  const addPhoto = useAddAlertPhoto(careRecipientId, alertId);
+  const acknowledge = useAcknowledgeAlert(careRecipientId);
+  const resolve = useResolveAlert(careRecipientId);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [eta, setEta] = useState<number | null>(15);
+  const [message, setMessage] = useState('');
+  const [hospital, setHospital] = useState<{ name: string; address: string } | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState<string | null>(null);
+
+  const thread = useMemo<ThreadItem[]>(() => {
+    if (!alert) return [];
+    return [
+      ...alert.updates.map((update) => ({ kind: 'update' as const, at: update.createdAt, update })),
+      ...(alert.escalations || []).map((record) => ({ kind: 'escalation' as const, at: record.escalatedAt, record })),
+    ].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }, [alert]);
+
+  if (isLoading || !careRecipientId) {
+    return (
+      <div className="px-4 sm:px-6 py-6 max-w-2xl mx-auto space-y-4">
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (isError || !alert) {
+    return (
+      <div className="px-4 sm:px-6 py-12 max-w-2xl mx-auto text-center">
+        <p className="text-text-secondary">This alert could not be found.</p>
+        <Link href="/emergency" className="text-accent-primary text-sm">
+          Back to emergency info
+        </Link>
+      </div>
+    );
+  }
+
+  const isOpen = alert.status !== 'RESOLVED';
+  const canPost = isOpen && currentRole !== 'VIEWER';
+
+  const sendStatus = () => {
+    postUpdate.mutate({ type: 'STATUS', message: message.trim() }, { onSuccess: () => setMessage('') });
+  };
+
+  const sendHospital = () => {
+    if (!hospital) return;
+    postUpdate.mutate(
+      { type: 'HOSPITAL', hospitalName: hospital.name.trim(), hospitalAddress: hospital.address.trim() || undefined },
+      { onSuccess: () => setHospital(null) }
+    );
+  };
+
+  return (
+    <div className="pb-6">
+      <PageHeader title="Emergency" subtitle={EMERGENCY_TYPE_LABELS[alert.type] || alert.type} showNotifications={false} />
+
+      <div className="px-4 sm:px-6 py-6 space-y-6 max-w-2xl mx-auto">
+        <Card className="p-6 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <h1 className="text-xl font-semibold text-text-primary">{alert.title}</h1>
+              <p className="text-sm text-text-secondary">
+                {alert.careRecipient.preferredName || alert.careRecipient.fullName} · raised by{' '}
+                {alert.createdBy.fullName} {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+            <Badge
+              variant={alert.status === 'ACTIVE' ? 'urgent' : alert.status === 'ACKNOWLEDGED' ? 'warning' : 'success'}
+            >
+              {alert.status === 'ACTIVE' ? 'Active' : alert.status === 'ACKNOWLEDGED' ? 'Acknowledged' : 'Resolved'}
+            </Badge>
+          </div>
+          <p className="text-text-primary">{alert.description}</p>
+          {alert.location && <p className="text-sm text-text-secondary">Location: {alert.location}</p>}
+          {alert.hospitalName && (
+            <p className="flex items-center gap-2 text-sm font-medium text-text-primary">
+              <Building2 className="w-4 h-4" />
+              {alert.hospitalName}
+              {alert.hospitalAddress && <span className="font-normal text-text-secondary">· {alert.hospitalAddress}</span>}
+            </p>
+          )}
+          {!isOpen && alert.timelineEntryId && (
+            <p className="text-sm text-text-secondary">
+              A summary was added to the{' '}
+              <Link href="/timeline" className="text-accent-primary">
+                timeline
+              </Link>
+              .
+            </p>
+          )}
+        </Card>
+
+        {canPost && (
+          <Card className="p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="primary"
+                leftIcon={<Car className="w-4 h-4" />}
+                disabled={postUpdate.isPending}
+                onClick={() => postUpdate.mutate({ type: 'RESPONDING', etaMinutes: eta ?? undefined })}
+              >
+                I&apos;m on my way
+              </Button>
+              <select
+                value={eta ?? ''}
+                onChange={(e) => setEta(e.target.value ? Number(e.target.value) : null)}
+                className="px-2 py-2 border border-border rounded-lg text-sm bg-bg-surface"
+                aria-label="Arrival time"
+              >
+                <option value="">No ETA</option>
+                {ETA_OPTIONS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    ETA {minutes} min
+                  </option>
+                ))}
+              </select>
+              {alert.status === 'ACTIVE' && (
+                <Button variant="secondary" disabled={acknowledge.isPending} onClick={() => acknowledge.mutate(alert.id)}>
+                  Acknowledge
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Textarea
+                placeholder="Post a status update…"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={2}
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" disabled={!message.trim() || postUpdate.isPending} onClick={sendStatus}>
+                  Post update
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) addPhoto.mutate({ file, caption: message.trim() || undefined }, { onSuccess: () => setMessage('') });
+                    e.target.value = '';
+                  }}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Camera className="w-4 h-4" />}
+                  disabled={addPhoto.isPending}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Add photo
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Building2 className="w-4 h-4" />}
+                  onClick={() =>
+                    setHospital({
+                      name: alert.hospitalName || alert.careRecipient.primaryHospital || '',
+                      address: alert.hospitalAddress || alert.careRecipient.hospitalAddress || '',
+                    })
+                  }
+                >
+                  Set hospital
+                </Button>
+              </div>
+            </div>
+
+            {hospital && (
+              <div className="p-3 bg-bg-subtle rounded-lg space-y-2">
+                <Input
+                  label="Hospital"
+                  value={hospital.name}
+                  onChange={(e) => setHospital({ ...hospital, name: e.target.value })}
+                />
+                <Input
+                  label="Address (optional)"
+                  value={hospital.address}
+                  onChange={(e) => setHospital({ ...hospital, address: e.target.value })}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setHospital(null)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" disabled={!hospital.name.trim() || postUpdate.isPending} onClick={sendHospital}>
+                    Save hospital
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {resolutionNotes === null ? (
+              <Button variant="outline" fullWidth leftIcon={<CheckCircle className="w-4 h-4" />} onClick={() => setResolutionNotes('')}>
+                Resolve alert
+              </Button>
+            ) : (
+              <div className="space-y-2">
+                <Textarea
+                  label="How was it resolved?"
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  rows={3}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setResolutionNotes(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={resolve.isPending}
+                    onClick={() =>
+                      resolve.mutate(
+                        { alertId: alert.id, notes: resolutionNotes.trim() || undefined },
+                        { onSuccess: () => setResolutionNotes(null) }
+                      )
+                    }
+                  >
+                    Resolve and write summary
+                  </Button>
+                </div>
+              </div>
+            )}
+          </Card>
+        )}
+
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold text-text-primary mb-4">Incident Thread</h2>
+          <ol className="space-y-4">
+            <li className="flex gap-3">
+              <AlertTriangle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm text-text-primary">{alert.createdBy.fullName} raised the alert</p>
+                <p className="text-xs text-text-tertiary">{format(new Date(alert.createdAt), 'MMM d, h:mm a')}</p>
+              </div>
+            </li>
+            {thread.map((item) => {
+              if (item.kind === 'escalation') {
+                return (
+                  <li key={`escalation-${item.record.step}`} className="flex gap-3">
+                    <BellRing className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm text-text-primary">
+                        Nobody had acknowledged after {item.record.afterMinutes} min, so{' '}
+                        {AUDIENCE_LABELS[item.record.audience]} were notified
+                      </p>
+                      {item.record.unreachableContacts.length > 0 && (
+                        <p className="text-xs text-text-secondary">
+                          No email for {item.record.unreachableContacts.join(', ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-text-tertiary">{format(new Date(item.at), 'MMM d, h:mm a')}</p>
+                    </div>
+                  </li>
+                );
+              }
+
+              const { update } = item;
+              const Icon = UPDATE_ICONS[update.type];
+
+              return (
+                <li key={update.id} className="flex gap-3">
+                  <Icon className="w-5 h-5 text-text-secondary shrink-0 mt-0.5" />
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm text-text-primary">{describeUpdate(update)}</p>
+                    {update.message && <p className="text-sm text-text-secondary whitespace-pre-line">{update.message}</p>}
+                    {update.photoUrl && (
+                      <a href={update.photoUrl} target="_blank" rel="noreferrer">
+                        <img src={update.photoUrl} alt={update.message || 'Incident photo'} className="max-h-64 rounded-lg" />
+                      </a>
+                    )}
+                    <p className="text-xs text-text-tertiary">{format(new Date(update.createdAt), 'MMM d, h:mm a')}</p>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { useMemo } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
 import { PageHeader } from '@/components/layout/page-header';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,17 +23,20 @@ import {
   Share2,
   Droplet,
   Shield,
+  ChevronRight,
 } from 'lucide-react';
 import { FamilySpaceSelector } from '@/components/layout/family-space-selector';
 import { useFamilySpace } from '@/contexts/family-space-context';
 import { useQuery } from '@tanstack/react-query';
 import { careRecipientsApi } from '@/lib/api';
 import { useMedications } from '@/hooks/use-medications';
+import { useActiveAlerts } from '@/hooks/use-emergency';
 import { Skeleton } from '@/components/ui/skeleton';
 import { BLOOD_TYPE_LABELS } from '@/lib/constants';
+import { EmergencyShareLinksCard, EscalationPolicyCard } from '@/components/care';
 
 export default function EmergencyPage() {
-  const { selectedCareRecipientId: careRecipientId } = useFamilySpace();
+  const { selectedCareRecipientId: careRecipientId, selectedFamilyId, currentRole } = useFamilySpace();
 
   // Fetch full care recipient details
   const { data: careRecipient, isLoading } = useQuery({
@@ -43,6 +48,9 @@ export default function EmergencyPage() {
   // Fetch active medications
   const { data: medications } = useMedications(careRecipientId || '');
 
+  // Open alerts link through to their incident threads
+  const { data: activeAlerts = [] } = useActiveAlerts(careRecipientId || '');
+
   // Calculate age
   const age = useMemo(() => {
     if (!careRecipient?.dateOfBirth) return null;
@@ -158,6 +166,29 @@ export default function EmergencyPage() {
           </p>
         </motion.div>
 
+        {/* Open Alerts */}
+        {activeAlerts.length > 0 && (
+          <div className="space-y-2">
+            {activeAlerts.map((alert) => (
+              <Link key={alert.id} href={`/emergency/${alert.id}`}>
+                <Card className="p-4 flex items-center gap-3 border-destructive/30 hover:bg-bg-subtle">
+                  <AlertTriangle className="w-5 h-5 text-destructive shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-text-primary truncate">{alert.title}</p>
+                    <p className="text-xs text-text-secondary">
+                      {alert.createdBy.fullName} · {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant={alert.status === 'ACTIVE' ? 'urgent' : 'warning'} size="sm">
+                    {alert.status === 'ACTIVE' ? 'Active' : 'Acknowledged'}
+                  </Badge>
+                  <ChevronRight className="w-4 h-4 text-text-tertiary" />
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Offline Status */}
         <div className="flex items-center justify-center gap-2 text-sm">
           <Wifi className="w-4 h-4 text-success" />
@@ -338,6 +369,14 @@ export default function EmergencyPage() {
           </Card>
         )}
 
+        {careRecipientId && (
+          <EmergencyShareLinksCard careRecipientId={careRecipientId} canEdit={currentRole !== 'VIEWER'} />
+        )}
+
+        {selectedFamilyId && (
+          <EscalationPolicyCard familyId={selectedFamilyId} canEdit={currentRole === 'ADMIN'} />
+        )}
+
         {/* Actions */}
         <div className="flex gap-3">
           <Button variant="secondary" size="lg" fullWidth leftIcon={<Share2 className="w-5 h-5" />}>
@@ -17,6 +17,11 @@ import { EditMedicationModal } from '@/components/modals/edit-medication-modal';
 import { LogMedicationModal } from '@/components/modals/log-medication-modal';
 import { FamilySpaceSelector } from '@/components/layout/family-space-selector';
 import { useFamilySpace } from '@/contexts/family-space-context';
+import { MedicationRefillPanel } from '@/components/care/medication-refill-panel';
+import { MarExport } from '@/components/care/mar-export';
+import { describeSchedulePhase } from '@/components/care/schedule-phases-editor';
+import { useMedicationSupply } from '@/hooks/use-medications';
+import { useFamilyMembers } from '@/hooks/use-family';
 import { medicationsApi, Medication, MedicationScheduleItem as ApiScheduleItem } from '@/lib/api';
 import {
   Plus,
@@ -37,9 +42,10 @@ function groupScheduleByTimeOfDay(items: ApiScheduleItem[]): { time: string; lab
   const morning: MedicationScheduleItem[] = [];
   const afternoon: MedicationScheduleItem[] = [];
   const evening: MedicationScheduleItem[] = [];
+  const asNeeded: MedicationScheduleItem[] = [];
 
   for (const item of items) {
-    if (!item.time) continue;
+    if (!item.time && !item.asNeeded) continue;
     const hour = parseInt(item.time.split(':')[0], 10);
     const scheduleItem: MedicationScheduleItem = {
       medication: {
@@ -54,9 +60,13 @@ function groupScheduleByTimeOfDay(items: ApiScheduleItem[]): { time: string; lab
       status: item.status,
       givenTime: item.givenTime,
       givenBy: item.givenBy,
+      asNeeded: item.asNeeded,
+      prn: item.prn,
     };
 
-    if (hour < 12) {
+    if (item.asNeeded) {
+      asNeeded.push(scheduleItem);
+    } else if (hour < 12) {
       morning.push(scheduleItem);
     } else if (hour < 17) {
       afternoon.push(scheduleItem);
@@ -69,12 +79,13 @@ function groupScheduleByTimeOfDay(items: ApiScheduleItem[]): { time: string; lab
   if (morning.length > 0) result.push({ time: 'morning', label: 'Morning', items: morning });
   if (afternoon.length > 0) result.push({ time: 'afternoon', label: 'Afternoon', items: afternoon });
   if (evening.length > 0) result.push({ time: 'evening', label: 'Evening', items: evening });
+  if (asNeeded.length > 0) result.push({ time: 'as-needed', label: 'As Needed', items: asNeeded });
   
   return result;
 }
 
 export default function MedicationsPage() {
-  const { selectedCareRecipientId: careRecipientId, selectedCareRecipient, currentRole } = useFamilySpace();
+  const { selectedCareRecipientId: careRecipientId, selectedCareRecipient, selectedFamilyId, currentRole } = useFamilySpace();
   const queryClient = useQueryClient();
 
   // Role-based permissions
@@ -106,6 +117,10 @@ export default function MedicationsPage() {
     enabled: !!careRecipientId,
   });
 
+  // Supply forecasts and refills in progress
+  const { data: supplyForecasts = [] } = useMedicationSupply(careRecipientId || '');
+  const { data: familyMembers = [] } = useFamilyMembers(selectedFamilyId || '');
+
   // Delete medication mutation
   const deleteMedicationMutation = useMutation({
     mutationFn: (id: string) => medicationsApi.delete(careRecipientId!, id),
@@ -135,15 +150,20 @@ export default function MedicationsPage() {
 
   // Calculate supply info
   const medicationsWithSupply = useMemo(() => {
+    const forecastsById = new Map(supplyForecasts.map((forecast) => [forecast.medicationId, forecast]));
     return allMedications.map(med => {
+      const forecast = forecastsById.get(med.id);
       const dosesPerDay = med.scheduledTimes?.length || 1;
-      const daysLeft = med.currentSupply ? Math.floor(med.currentSupply / dosesPerDay) : undefined;
+      // Prefer the server projection, which accounts for tapers and dose quantities
+      const daysLeft = forecast && forecast.basis !== 'none'
+        ? forecast.daysRemaining ?? undefined
+        : med.currentSupply ? Math.floor(med.currentSupply / dosesPerDay) : undefined;
       const lowSupply = med.refillAt && med.currentSupply
         ? med.currentSupply <= med.refillAt
         : false;
-      return { ...med, daysLeft, lowSupply };
+      return { ...med, daysLeft, lowSupply, forecast };
     });
-  }, [allMedications]);
+  }, [allMedications, supplyForecasts]);
 
   const handleLogMedication = async (medicationId: string, status: 'GIVEN' | 'SKIPPED', skipReason?: string) => {
     // Find the medication and open the log modal
@@ -154,7 +174,8 @@ export default function MedicationsPage() {
           id: item.medication.id,
           name: item.medication.name,
           dosage: item.medication.dosage,
-          scheduledTime: item.time,
+          // As-needed doses are logged against the time they're given
+          scheduledTime: item.asNeeded ? new Date().toISOString() : item.time,
         });
         return;
       }
@@ -288,6 +309,10 @@ export default function MedicationsPage() {
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
           >
+            {careRecipientId && allMedications.length > 0 && (
+              <MarExport careRecipientId={careRecipientId} className="mb-4" />
+            )}
+
             {/* Low Supply Alert */}
             {medicationsWithSupply.some((m) => m.lowSupply) && (
               <Card variant="urgent" className="mb-6">
@@ -331,6 +356,15 @@ export default function MedicationsPage() {
                             <Badge size="sm">{frequencyLabels[med.frequency] || med.frequency}</Badge>
                           </div>
                           <p className="text-xs sm:text-sm text-text-secondary">{med.dosage}</p>
+                          {med.schedulePhases && med.schedulePhases.length > 0 && (
+                            <ul className="mt-1 space-y-0.5">
+                              {med.schedulePhases.map((phase, phaseIndex) => (
+                                <li key={phase.id ?? phaseIndex} className="text-xs text-text-tertiary">
+                                  {describeSchedulePhase(phase)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                           {med.instructions && (
                             <p className="text-xs text-text-tertiary mt-1 line-clamp-1">{med.instructions}</p>
                           )}
@@ -347,7 +381,12 @@ export default function MedicationsPage() {
                               </span>
                             </div>
                             {med.daysLeft !== undefined && (
-                              <p className="text-[10px] sm:text-xs text-text-tertiary mt-0.5">
+                              <p
+                                className="text-[10px] sm:text-xs text-text-tertiary mt-0.5"
+                                title={med.forecast?.projectedRunOutDate
+                                  ? `Runs out ${new Date(med.forecast.projectedRunOutDate).toLocaleDateString()}`
+                                  : undefined}
+                              >
                                 ~{med.daysLeft} days
                               </p>
                             )}
@@ -377,6 +416,15 @@ export default function MedicationsPage() {
                           </div>
                         )}
                       </div>
+                      {med.forecast && careRecipientId && (
+                        <MedicationRefillPanel
+                          careRecipientId={careRecipientId}
+                          forecast={med.forecast}
+                          members={familyMembers}
+                          canEdit={canEdit}
+                          className="mt-3"
+                        />
+                      )}
                     </Card>
                   </motion.div>
                 ))}
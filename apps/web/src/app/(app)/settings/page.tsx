@@ -27,7 +27,7 @@ import SaveIcon from '@/components/icons/save-icon';
 import XIcon from '@/components/icons/x-icon';
 import RefreshIcon from '@/components/icons/refresh-icon';
 import GlobeIcon from '@/components/icons/globe-icon';
-import { LanguageSelector } from '@/components/settings';
+import { CalendarFeeds, LanguageSelector } from '@/components/settings';
 import { useTranslation } from '@/lib/i18n';
 import type { NotificationPreferences } from '@/lib/api/user';
 
@@ -304,6 +304,9 @@ export default function SettingsPage() {
                 </div>
               </div>
             </Card>
+
+            {/* Calendar Subscriptions */}
+            <CalendarFeeds />
           </motion.div>
         )}
 
@@ -0,0 +1,279 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  AlertTriangle,
+  Building2,
+  FileCheck,
+  Heart,
+  Loader2,
+  Phone,
+  Pill,
+  Shield,
+  User,
+  XCircle,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { emergencyApi } from '@/lib/api';
+import { BLOOD_TYPE_LABELS } from '@/lib/constants';
+
+const telHref = (phone: string) => `tel:${phone.replace(/[^\d+]/g, '')}`;
+
+/**
+ * Public first-responder view opened from a medical ID link or QR code.
+ * Sections the family chose to hide are not sent by the API at all.
+ */
+export default function EmergencyIdPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const { data: info, isLoading, isError } = useQuery({
+    queryKey: ['emergency-id', token],
+    queryFn: () => emergencyApi.getSharedInfo(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-12 h-12 animate-spin text-sage-700" />
+      </div>
+    );
+  }
+
+  if (isError || !info) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="p-8 text-center max-w-md">
+          <XCircle className="w-16 h-16 text-destructive mx-auto mb-4" />
+          <h1 className="text-2xl font-semibold text-foreground mb-2">Link not available</h1>
+          <p className="text-muted-foreground">
+            This medical ID link has expired or been turned off. Contact the family for an up-to-date link.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
+  const documents = info.documents
+    ? [
+        info.documents.dnr && 'DNR order',
+        info.documents.powerOfAttorney && 'Power of attorney',
+        info.documents.insuranceCard && 'Insurance card',
+        info.documents.photoId && 'Photo ID',
+      ].filter((label): label is string => !!label)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background pb-6">
+      <div className="bg-destructive text-white px-4 py-3 text-center">
+        <p className="text-xs font-semibold uppercase tracking-wide">Emergency Medical ID</p>
+      </div>
+
+      <div className="px-4 sm:px-6 py-6 space-y-6 max-w-2xl mx-auto">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{info.name}</h1>
+          {info.preferredName && <p className="text-muted-foreground">Goes by {info.preferredName}</p>}
+          <div className="flex flex-wrap gap-2 mt-3">
+            {info.dateOfBirth && (
+              <Badge variant="secondary" size="lg">
+                Born {format(new Date(info.dateOfBirth), 'MMM d, yyyy')}
+                {info.age !== null && info.age !== undefined && ` · ${info.age} yrs`}
+              </Badge>
+            )}
+            {info.bloodType && (
+              <Badge variant="destructive" size="lg">
+                Blood type {BLOOD_TYPE_LABELS[info.bloodType] || info.bloodType}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {info.allergies && info.allergies.length > 0 && (
+          <Card className="border-destructive/50 bg-destructive/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-5 h-5" />
+                ALLERGIES
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {info.allergies.map((allergy) => (
+                  <Badge key={allergy} variant="destructive" size="lg" className="text-base font-semibold">
+                    {allergy}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {info.conditions && info.conditions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Heart className="w-5 h-5 text-primary" />
+                Medical Conditions
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {info.conditions.map((condition) => (
+                  <Badge key={condition} variant="secondary" size="lg">
+                    {condition}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {info.medications && info.medications.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Pill className="w-5 h-5 text-primary" />
+                Current Medications
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {info.medications.map((medication) => (
+                <div key={medication.name} className="p-3 bg-muted rounded-lg">
+                  <p className="font-medium">
+                    {medication.name} <span className="text-muted-foreground">{medication.dosage}</span>
+                  </p>
+                  {medication.instructions && (
+                    <p className="text-sm text-muted-foreground">{medication.instructions}</p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {info.documents && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileCheck className="w-5 h-5 text-primary" />
+                Documents on File
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {documents.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {documents.map((label) => (
+                    <Badge key={label} variant={label === 'DNR order' ? 'urgent' : 'secondary'} size="lg">
+                      {label}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No DNR or power of attorney on file.</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-2">Ask the family for copies.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {info.emergencyContacts && info.emergencyContacts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Phone className="w-5 h-5 text-primary" />
+                Emergency Contacts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {info.emergencyContacts.map((contact) => (
+                <div key={`${contact.name}-${contact.phone}`} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                  <div>
+                    <p className="font-medium">
+                      {contact.name}
+                      {contact.isPrimary && (
+                        <Badge variant="info" size="sm" className="ml-2">
+                          Primary
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{contact.relationship}</p>
+                  </div>
+                  <a
+                    href={telHref(contact.phone)}
+                    className="flex items-center gap-2 px-4 py-2 bg-success text-white rounded-lg font-medium hover:bg-success/90 transition-colors"
+                  >
+                    <Phone className="w-4 h-4" />
+                    Call
+                  </a>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {info.primaryDoctor && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User className="w-5 h-5 text-info" />
+                Primary Doctor
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                <div>
+                  <p className="font-medium">{info.primaryDoctor.name}</p>
+                  <p className="text-sm text-muted-foreground">{info.primaryDoctor.specialty}</p>
+                </div>
+                <a
+                  href={telHref(info.primaryDoctor.phone)}
+                  className="flex items-center gap-2 px-4 py-2 bg-info text-white rounded-lg font-medium hover:bg-info/90 transition-colors"
+                >
+                  <Phone className="w-4 h-4" />
+                  Call
+                </a>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {(info.hospital?.name || info.insurance?.provider) && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="w-5 h-5 text-primary" />
+                Hospital &amp; Insurance
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {info.hospital?.name && (
+                <p>
+                  <span className="font-medium">Preferred hospital:</span> {info.hospital.name}
+                  {info.hospital.address && ` · ${info.hospital.address}`}
+                </p>
+              )}
+              {info.insurance?.provider && (
+                <p>
+                  <span className="font-medium">Insurance:</span> {info.insurance.provider}
+                  {info.insurance.policyNumber && ` · Policy ${info.insurance.policyNumber}`}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <Shield className="w-4 h-4" />
+          <span>
+            Updated {format(new Date(info.updatedAt), 'MMM d, yyyy')} · Views of this page are logged
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { CalendarOff, CalendarRange, Plus, Trash2, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { availabilityApi, errorMessage, type AvailabilityWindow, type MemberAvailability } from '@/lib/api';
+
+interface AvailabilityCardProps {
+  careRecipientId: string;
+  currentUserId?: string;
+  isAdmin: boolean;
+  className?: string;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const describeDays = (days: number[]) => {
+  if (days.length === 0 || days.length === 7) return 'Every day';
+  if (days.join() === '1,2,3,4,5') return 'Weekdays';
+  if (days.join() === '0,6') return 'Weekends';
+  return days.map((d) => format(new Date(2024, 0, 7 + d), 'EEE')).join(', ');
+};
+
+const describeWindow = (window: AvailabilityWindow) => {
+  const hours =
+    window.startTime === window.endTime ? 'any time' : `${window.startTime}–${window.endTime}`;
+  return `${describeDays(window.daysOfWeek)}, ${hours}`;
+};
+
+const formatBlackout = (startDate: string, endDate: string) => {
+  const start = format(parseISO(startDate), 'MMM d');
+  const end = format(parseISO(endDate), 'MMM d');
+  return start === end ? start : `${start} – ${end}`;
+};
+
+/**
+ * When each family member can take shifts, their days away and how many
+ * hours a week they want to work. Members edit their own; admins can edit anyone's.
+ */
+export function AvailabilityCard({
+  careRecipientId,
+  currentUserId,
+  isAdmin,
+  className,
+}: AvailabilityCardProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<MemberAvailability | null>(null);
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [maxHours, setMaxHours] = useState('');
+  const [blackoutFor, setBlackoutFor] = useState<string | null>(null);
+  const [blackoutForm, setBlackoutForm] = useState({ startDate: '', endDate: '', reason: '' });
+
+  const { data: members = [] } = useQuery({
+    queryKey: ['availability', careRecipientId],
+    queryFn: () => availabilityApi.getAll(careRecipientId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['availability', careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ['caregiver-suggestions', careRecipientId] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      availabilityApi.update(careRecipientId, editing!.userId, {
+        windows,
+        maxHoursPerWeek: maxHours ? Number(maxHours) : null,
+      }),
+    onSuccess: () => {
+      toast.success('Availability saved');
+      invalidate();
+      setEditing(null);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to save availability')),
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: () =>
+      availabilityApi.addBlackout(careRecipientId, blackoutFor!, {
+        startDate: blackoutForm.startDate,
+        endDate: blackoutForm.endDate || blackoutForm.startDate,
+        reason: blackoutForm.reason.trim() || undefined,
+      }),
+    onSuccess: () => {
+      toast.success('Time away added');
+      invalidate();
+      setBlackoutFor(null);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to add time away')),
+  });
+
+  const removeBlackoutMutation = useMutation({
+    mutationFn: ({ userId, blackoutId }: { userId: string; blackoutId: string }) =>
+      availabilityApi.removeBlackout(careRecipientId, userId, blackoutId),
+    onSuccess: invalidate,
+    onError: (error) => toast.error(errorMessage(error, 'Failed to remove time away')),
+  });
+
+  const startEditing = (member: MemberAvailability) => {
+    setWindows(member.windows.map(({ daysOfWeek, startTime, endTime }) => ({ daysOfWeek, startTime, endTime })));
+    setMaxHours(member.maxHoursPerWeek ? String(member.maxHoursPerWeek) : '');
+    setBlackoutFor(null);
+    setEditing(member);
+  };
+
+  const startBlackout = (userId: string) => {
+    setBlackoutForm({ startDate: '', endDate: '', reason: '' });
+    setEditing(null);
+    setBlackoutFor(userId);
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) =>
+    setWindows(windows.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+
+  const toggleDay = (index: number, day: number) => {
+    // An empty list means every day, so start from all seven
+    const days = windows[index].daysOfWeek.length === 0 ? [0, 1, 2, 3, 4, 5, 6] : windows[index].daysOfWeek;
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length === 0) return;
+    updateWindow(index, { daysOfWeek: next.length === 7 ? [] : next });
+  };
+
+  if (members.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarRange className="w-5 h-5 text-accent-primary" />
+        <h3 className="text-base sm:text-lg font-semibold text-text-primary">Availability</h3>
+      </div>
+
+      <div className="divide-y divide-border">
+        {members.map((member) => {
+          const canEdit = isAdmin || member.userId === currentUserId;
+
+          return (
+            <div key={member.userId} className="py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-text-primary">
+                    {member.fullName}
+                    {member.userId === currentUserId && (
+                      <span className="text-text-tertiary font-normal"> (you)</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {member.windows.length === 0
+                      ? 'Availability not set'
+                      : member.windows.map(describeWindow).join(' · ')}
+                    {member.maxHoursPerWeek && ` · up to ${member.maxHoursPerWeek} h/week`}
+                  </p>
+                  {member.blackouts.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {member.blackouts.map((blackout) => (
+                        <Badge key={blackout.id} variant="warning" size="sm">
+                          <CalendarOff className="w-3 h-3 mr-1" />
+                          Away {formatBlackout(blackout.startDate, blackout.endDate)}
+                          {blackout.reason && ` · ${blackout.reason}`}
+                          {canEdit && (
+                            <button
+                              type="button"
+                              className="ml-1"
+                              title="Remove"
+                              onClick={() =>
+                                removeBlackoutMutation.mutate({ userId: member.userId, blackoutId: blackout.id })
+                              }
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {canEdit && editing?.userId !== member.userId && blackoutFor !== member.userId && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(member)}>
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => startBlackout(member.userId)}>
+                      Time away
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {editing?.userId === member.userId && (
+                <div className="mt-3 space-y-3">
+                  {windows.map((window, index) => (
+                    <div
+                      key={index}
+                      className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-border"
+                    >
+                      <div className="flex gap-1">
+                        {DAY_LABELS.map((label, day) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleDay(index, day)}
+                            className={cn(
+                              'w-7 h-7 rounded-full text-xs font-medium',
+                              window.daysOfWeek.length === 0 || window.daysOfWeek.includes(day)
+                                ? 'bg-accent-primary text-white'
+                                : 'bg-bg-muted text-text-secondary'
+                            )}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      <input
+                        type="time"
+                        value={window.startTime}
+                        onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                        className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                      />
+                      <span className="text-xs text-text-secondary">to</span>
+                      <input
+                        type="time"
+                        value={window.endTime}
+                        onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                        className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<Plus className="w-4 h-4" />}
+                    onClick={() =>
+                      setWindows([...windows, { daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }])
+                    }
+                  >
+                    Add hours
+                  </Button>
+
+                  <label className="flex items-center gap-2 text-sm text-text-secondary">
+                    Up to
+                    <input
+                      type="number"
+                      min={1}
+                      max={168}
+                      value={maxHours}
+                      placeholder="—"
+                      onChange={(e) => setMaxHours(e.target.value)}
+                      className="w-16 px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                    />
+                    hours a week
+                  </label>
+
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      disabled={updateMutation.isPending}
+                      onClick={() => updateMutation.mutate()}
+                    >
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {blackoutFor === member.userId && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <input
+                    type="date"
+                    value={blackoutForm.startDate}
+                    onChange={(e) => setBlackoutForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                    className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                  />
+                  <span className="text-xs text-text-secondary">to</span>
+                  <input
+                    type="date"
+                    value={blackoutForm.endDate}
+                    min={blackoutForm.startDate}
+                    onChange={(e) => setBlackoutForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                    className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                  />
+                  <input
+                    type="text"
+                    value={blackoutForm.reason}
+                    placeholder="Reason (optional)"
+                    onChange={(e) => setBlackoutForm((prev) => ({ ...prev, reason: e.target.value }))}
+                    className="flex-1 min-w-[8rem] px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                  />
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    disabled={!blackoutForm.startDate || addBlackoutMutation.isPending}
+                    onClick={() => addBlackoutMutation.mutate()}
+                  >
+                    Add
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setBlackoutFor(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
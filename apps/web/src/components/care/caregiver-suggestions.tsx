@@ -0,0 +1,116 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Sparkles } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { availabilityApi, type AvailabilityStatus } from '@/lib/api';
+
+interface CaregiverSuggestionsProps {
+  careRecipientId: string;
+  startTime: string;
+  endTime: string;
+  selectedId?: string;
+  onSelect: (userId: string) => void;
+  className?: string;
+}
+
+const availabilityBadge: Record<AvailabilityStatus, { label: string; variant: BadgeProps['variant'] }> = {
+  AVAILABLE: { label: 'Available', variant: 'success' },
+  UNKNOWN: { label: 'Not set', variant: 'secondary' },
+  PARTIAL: { label: 'Partly available', variant: 'warning' },
+  UNAVAILABLE: { label: 'Unavailable', variant: 'destructive' },
+};
+
+/**
+ * Members ranked for a shift slot by availability, days away, weekly limits
+ * and recent hours. Picking one fills in the caregiver; the selected
+ * member's conflicts are spelled out.
+ */
+export function CaregiverSuggestions({
+  careRecipientId,
+  startTime,
+  endTime,
+  selectedId,
+  onSelect,
+  className,
+}: CaregiverSuggestionsProps) {
+  const start = new Date(startTime);
+  const end = new Date(endTime);
+  const valid = !isNaN(start.getTime()) && !isNaN(end.getTime()) && end > start;
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['caregiver-suggestions', careRecipientId, startTime, endTime],
+    queryFn: () => availabilityApi.suggest(careRecipientId, start.toISOString(), end.toISOString()),
+    enabled: valid,
+  });
+
+  if (!valid) {
+    return null;
+  }
+
+  const candidates = data?.candidates || [];
+  const selected = candidates.find((candidate) => candidate.userId === selectedId);
+  const warnings = selected?.reasons.filter((reason) => reason !== 'Availability not set') || [];
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="flex items-center gap-1.5 text-sm font-medium text-text-primary">
+        <Sparkles className="w-4 h-4 text-accent-primary" />
+        Suggested caregivers
+      </p>
+
+      {isLoading ? (
+        <p className="text-xs text-text-secondary">Checking availability...</p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {candidates.map((candidate) => {
+            const badge = candidate.hasConflict
+              ? { label: 'On another shift', variant: 'destructive' as const }
+              : candidate.blackout
+                ? { label: 'Away', variant: 'destructive' as const }
+                : availabilityBadge[candidate.availability];
+
+            return (
+              <button
+                key={candidate.userId}
+                type="button"
+                onClick={() => onSelect(candidate.userId)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg text-left border',
+                  candidate.userId === selectedId
+                    ? 'border-accent-primary bg-accent-primary-light'
+                    : 'border-transparent hover:bg-bg-muted',
+                  !candidate.eligible && 'opacity-60'
+                )}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-text-primary truncate">{candidate.fullName}</p>
+                  <p className="text-xs text-text-tertiary">
+                    {candidate.weekHours} h this week
+                    {candidate.maxHoursPerWeek && ` of ${candidate.maxHoursPerWeek}`} ·{' '}
+                    {candidate.recentHours} h last 2 weeks
+                  </p>
+                </div>
+                <Badge variant={badge.variant} size="sm">
+                  {badge.label}
+                </Badge>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div className="p-2 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-700 space-y-0.5">
+          {warnings.map((warning) => (
+            <p key={warning} className="flex items-center gap-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, isSameDay } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { Plus, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { coverageApi, errorMessage, type CoverageGap, type CoverageWindow } from '@/lib/api';
+
+interface CoverageGapsCardProps {
+  careRecipientId: string;
+  isAdmin: boolean;
+  onScheduleGap?: (gap: CoverageGap) => void;
+  className?: string;
+}
+
+const GAP_DAYS = 14;
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const ALWAYS: CoverageWindow = { daysOfWeek: [], startTime: '00:00', endTime: '00:00', label: '24/7' };
+
+const describeDays = (days: number[]) => {
+  if (days.length === 0 || days.length === 7) return 'Every day';
+  if (days.join() === '1,2,3,4,5') return 'Weekdays';
+  if (days.join() === '0,6') return 'Weekends';
+  return days.map((d) => format(new Date(2024, 0, 7 + d), 'EEE')).join(', ');
+};
+
+const describeWindow = (window: CoverageWindow) => {
+  const hours =
+    window.startTime === window.endTime ? 'all day' : `${window.startTime}–${window.endTime}`;
+  return `${describeDays(window.daysOfWeek)}, ${hours}`;
+};
+
+const formatGap = (gap: CoverageGap) => {
+  const start = new Date(gap.start);
+  const end = new Date(gap.end);
+  return `${format(start, 'EEE MMM d, h:mm a')} – ${format(end, isSameDay(start, end) ? 'h:mm a' : 'EEE h:mm a')}`;
+};
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Hours someone must be with the care recipient, and the upcoming stretches
+ * of them nobody is scheduled for. Admins are alerted ahead of each gap.
+ */
+export function CoverageGapsCard({
+  careRecipientId,
+  isAdmin,
+  onScheduleGap,
+  className,
+}: CoverageGapsCardProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [windows, setWindows] = useState<CoverageWindow[]>([]);
+  const [alertDays, setAlertDays] = useState(2);
+
+  const { data: coverage } = useQuery({
+    queryKey: ['coverage', careRecipientId],
+    queryFn: () => coverageApi.get(careRecipientId),
+  });
+
+  const { data: gapsResponse } = useQuery({
+    queryKey: ['coverage-gaps', careRecipientId],
+    queryFn: () => coverageApi.getGaps(careRecipientId, GAP_DAYS),
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: () => coverageApi.update(careRecipientId, { alertDays, windows }),
+    onSuccess: () => {
+      toast.success('Coverage requirements saved');
+      queryClient.invalidateQueries({ queryKey: ['coverage', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['coverage-gaps', careRecipientId] });
+      setEditing(false);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to save coverage requirements')),
+  });
+
+  const startEditing = () => {
+    setWindows(coverage?.windows.map(({ daysOfWeek, startTime, endTime, label }) => ({
+      daysOfWeek,
+      startTime,
+      endTime,
+      label,
+    })) || []);
+    setAlertDays(coverage?.alertDays ?? 2);
+    setEditing(true);
+  };
+
+  const updateWindow = (index: number, changes: Partial<CoverageWindow>) =>
+    setWindows(windows.map((w, i) => (i === index ? { ...w, ...changes } : w)));
+
+  const toggleDay = (index: number, day: number) => {
+    // An empty list means every day, so start from all seven
+    const days = windows[index].daysOfWeek.length === 0 ? [0, 1, 2, 3, 4, 5, 6] : windows[index].daysOfWeek;
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b);
+    if (next.length === 0) return;
+    updateWindow(index, { daysOfWeek: next.length === 7 ? [] : next });
+  };
+
+  const hasRequirements = !!coverage && coverage.windows.length > 0;
+  const gaps = gapsResponse?.gaps || [];
+
+  if (!hasRequirements && !isAdmin) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          {hasRequirements && gaps.length === 0 ? (
+            <ShieldCheck className="w-5 h-5 text-success" />
+          ) : (
+            <ShieldAlert className="w-5 h-5 text-warning" />
+          )}
+          <h3 className="text-base sm:text-lg font-semibold text-text-primary">Coverage</h3>
+          {gaps.length > 0 && (
+            <Badge variant="warning" size="sm">
+              {gaps.length} {gaps.length === 1 ? 'gap' : 'gaps'}
+            </Badge>
+          )}
+        </div>
+        {isAdmin && !editing && (
+          <Button size="sm" variant="ghost" onClick={startEditing}>
+            {hasRequirements ? 'Edit' : 'Set up'}
+          </Button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-3">
+          {windows.map((window, index) => (
+            <div
+              key={index}
+              className="flex flex-wrap items-center gap-2 p-2 rounded-lg border border-border"
+            >
+              <div className="flex gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(index, day)}
+                    className={cn(
+                      'w-7 h-7 rounded-full text-xs font-medium',
+                      window.daysOfWeek.length === 0 || window.daysOfWeek.includes(day)
+                        ? 'bg-accent-primary text-white'
+                        : 'bg-bg-muted text-text-secondary'
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="time"
+                value={window.startTime}
+                onChange={(e) => updateWindow(index, { startTime: e.target.value })}
+                className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+              />
+              <span className="text-xs text-text-secondary">to</span>
+              <input
+                type="time"
+                value={window.endTime}
+                onChange={(e) => updateWindow(index, { endTime: e.target.value })}
+                className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <p className="text-xs text-text-tertiary">
+            An end time at or before the start runs overnight; the same start and end covers the
+            whole day. Leave every day unselected to apply it daily.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() =>
+                setWindows([...windows, { daysOfWeek: [], startTime: '08:00', endTime: '22:00' }])
+              }
+            >
+              Add window
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setWindows([ALWAYS])}>
+              Around the clock
+            </Button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            Alert admins
+            <input
+              type="number"
+              min={1}
+              max={14}
+              value={alertDays}
+              onChange={(e) => setAlertDays(Number(e.target.value) || 1)}
+              className="w-14 px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+            />
+            days before a gap
+          </label>
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="primary"
+              disabled={updateMutation.isPending}
+              onClick={() => updateMutation.mutate()}
+            >
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : !hasRequirements ? (
+        <p className="text-sm text-text-secondary">
+          Set the hours someone needs to be on shift to see gaps in the schedule.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-text-secondary mb-3">
+            {coverage.windows.map(describeWindow).join(' · ')}
+          </p>
+
+          {gapsResponse?.pausedForHospitalStay ? (
+            <p className="text-sm text-text-secondary">
+              Paused while in hospital. Gaps show again after discharge.
+            </p>
+          ) : gaps.length === 0 ? (
+            <p className="text-sm text-text-secondary">
+              Fully covered for the next {GAP_DAYS} days.
+            </p>
+          ) : (
+            <div className="divide-y divide-border">
+              {gaps.map((gap) => (
+                <div key={gap.start} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-text-primary">{formatGap(gap)}</p>
+                    <p className="text-xs text-text-secondary">
+                      {formatDuration(gap.durationMinutes)} uncovered
+                    </p>
+                  </div>
+                  {onScheduleGap && (
+                    <Button size="sm" variant="outline" onClick={() => onScheduleGap(gap)}>
+                      Schedule
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow, isPast } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Copy, Download, QrCode, Share2, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Modal } from '@/components/ui/modal';
+import { cn } from '@/lib/utils';
+import {
+  useCreateShareLink,
+  useRevokeShareLink,
+  useShareLinks,
+  useUpdateShareLink,
+} from '@/hooks/use-emergency';
+import { emergencyApi, type EmergencyShareField, type EmergencyShareLink } from '@/lib/api';
+
+interface EmergencyShareLinksCardProps {
+  careRecipientId: string;
+  canEdit: boolean;
+  className?: string;
+}
+
+const FIELD_LABELS: Record<EmergencyShareField, string> = {
+  DATE_OF_BIRTH: 'Date of birth',
+  BLOOD_TYPE: 'Blood type',
+  ALLERGIES: 'Allergies',
+  CONDITIONS: 'Conditions',
+  MEDICATIONS: 'Medications',
+  CRITICAL_DOCUMENTS: 'DNR / POA on file',
+  EMERGENCY_CONTACTS: 'Emergency contacts',
+  PRIMARY_DOCTOR: 'Primary doctor',
+  HOSPITAL: 'Hospital',
+  INSURANCE: 'Insurance',
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '3 months' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+];
+
+function FieldToggles({
+  hidden,
+  onChange,
+}: {
+  hidden: EmergencyShareField[];
+  onChange: (hidden: EmergencyShareField[]) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-text-secondary">
+      {(Object.keys(FIELD_LABELS) as EmergencyShareField[]).map((field) => (
+        <label key={field} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!hidden.includes(field)}
+            onChange={(e) => onChange(e.target.checked ? hidden.filter((f) => f !== field) : [...hidden, field])}
+          />
+          {FIELD_LABELS[field]}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Read-only links to the first-responder view, with a printable QR code for
+ * the fridge or a wallet card. Each link can be narrowed or revoked on its own.
+ */
+export function EmergencyShareLinksCard({ careRecipientId, canEdit, className }: EmergencyShareLinksCardProps) {
+  const { data: links = [] } = useShareLinks(careRecipientId);
+  const createLink = useCreateShareLink(careRecipientId);
+  const updateLink = useUpdateShareLink(careRecipientId);
+  const revokeLink = useRevokeShareLink(careRecipientId);
+
+  const [form, setForm] = useState({ label: '', expiresInDays: 365, hiddenFields: [] as EmergencyShareField[] });
+  const [editing, setEditing] = useState<{ id: string; hiddenFields: EmergencyShareField[] } | null>(null);
+  const [qrLink, setQrLink] = useState<EmergencyShareLink | null>(null);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!qrLink) return;
+
+    let objectUrl: string | null = null;
+    emergencyApi
+      .getShareLinkQrCode(careRecipientId, qrLink.id)
+      .then((blob) => {
+        objectUrl = window.URL.createObjectURL(blob);
+        setQrUrl(objectUrl);
+      })
+      .catch(() => toast.error('Failed to load the QR code'));
+
+    return () => {
+      if (objectUrl) window.URL.revokeObjectURL(objectUrl);
+      setQrUrl(null);
+    };
+  }, [careRecipientId, qrLink]);
+
+  const copyUrl = async (link: EmergencyShareLink) => {
+    if (!link.url) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const create = () => {
+    createLink.mutate(
+      {
+        label: form.label.trim() || undefined,
+        expiresInDays: form.expiresInDays,
+        hiddenFields: form.hiddenFields,
+      },
+      { onSuccess: () => setForm({ label: '', expiresInDays: 365, hiddenFields: [] }) }
+    );
+  };
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="flex items-center gap-2 mb-2">
+        <Share2 className="w-5 h-5 text-sage-700" />
+        <h2 className="text-lg font-semibold text-ink">Medical ID Links</h2>
+      </div>
+      <p className="text-sm text-text-secondary mb-4">
+        A read-only page for paramedics and ER staff, no login needed. Anyone with the link or QR code can
+        open it, and every view is logged.
+      </p>
+
+      {links.length > 0 && (
+        <div className="divide-y divide-border mb-4">
+          {links.map((link) => {
+            const expired = isPast(new Date(link.expiresAt));
+
+            return (
+              <div key={link.id} className="py-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-text-primary truncate">{link.label || 'Medical ID link'}</p>
+                      {expired && (
+                        <Badge variant="secondary" size="sm">
+                          Expired
+                        </Badge>
+                      )}
+                      {link.hiddenFields.length > 0 && (
+                        <Badge variant="outline" size="sm">
+                          {link.hiddenFields.length} hidden
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-text-secondary">
+                      {expired ? 'Expired' : 'Expires'} {format(new Date(link.expiresAt), 'MMM d, yyyy')} ·{' '}
+                      {link.lastAccessedAt
+                        ? `opened ${link.accessCount}× · last ${formatDistanceToNow(new Date(link.lastAccessedAt), {
+                            addSuffix: true,
+                          })}`
+                        : 'never opened'}
+                    </p>
+                  </div>
+                  {!expired && canEdit && (
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="sm" variant="ghost" title="Copy link" onClick={() => copyUrl(link)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" title="QR code" onClick={() => setQrLink(link)}>
+                        <QrCode className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Choose what is shown"
+                        onClick={() =>
+                          setEditing(editing?.id === link.id ? null : { id: link.id, hiddenFields: link.hiddenFields })
+                        }
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Revoke"
+                        disabled={revokeLink.isPending}
+                        onClick={() => revokeLink.mutate(link.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editing?.id === link.id && (
+                  <div className="p-3 bg-bg-subtle rounded-lg space-y-3">
+                    <FieldToggles
+                      hidden={editing.hiddenFields}
+                      onChange={(hiddenFields) => setEditing({ ...editing, hiddenFields })}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={updateLink.isPending}
+                        onClick={() =>
+                          updateLink.mutate(
+                            { linkId: link.id, data: { hiddenFields: editing.hiddenFields } },
+                            { onSuccess: () => setEditing(null) }
+                          )
+                        }
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="space-y-3">
+          <Input
+            label="Where will this link live? (optional)"
+            placeholder="e.g. Fridge magnet"
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+          />
+          <div className="flex items-center gap-2 text-sm text-text-secondary">
+            <span>Expires after</span>
+            <select
+              value={form.expiresInDays}
+              onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) })}
+              className="px-2 py-1 border border-border rounded-lg text-sm bg-bg-surface"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <FieldToggles hidden={form.hiddenFields} onChange={(hiddenFields) => setForm({ ...form, hiddenFields })} />
+          <Button variant="primary" disabled={createLink.isPending} onClick={create}>
+            Create link
+          </Button>
+        </div>
+      )}
+
+      <Modal isOpen={!!qrLink} onClose={() => setQrLink(null)} title="Medical ID QR Code" size="sm">
+        <div className="space-y-4 text-center">
+          {qrUrl ? (
+            <img src={qrUrl} alt="QR code for the medical ID link" className="w-64 h-64 mx-auto" />
+          ) : (
+            <div className="w-64 h-64 mx-auto rounded-lg bg-bg-subtle animate-pulse" />
+          )}
+          <p className="text-sm text-text-secondary">
+            Print it for the fridge or a wallet card. Scanning it opens the read-only medical ID.
+          </p>
+          {qrUrl && (
+            <a href={qrUrl} download="medical-id-qr.png">
+              <Button variant="secondary" leftIcon={<Download className="w-4 h-4" />}>
+                Download PNG
+              </Button>
+            </a>
+          )}
+        </div>
+      </Modal>
+    </Card>
+  );
+}
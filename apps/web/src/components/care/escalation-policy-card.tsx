@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { BellRing, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useEscalationPolicy, useUpdateEscalationPolicy } from '@/hooks/use-emergency';
+import type { EscalationAudience, EscalationChannel, EscalationStep } from '@/lib/api';
+
+interface EscalationPolicyCardProps {
+  familyId: string;
+  canEdit: boolean;
+  className?: string;
+}
+
+const AUDIENCE_LABELS: Record<EscalationAudience, string> = {
+  ALL_MEMBERS: 'Everyone in the family',
+  ADMINS: 'Family admins',
+  EMERGENCY_CONTACTS: 'Emergency contacts',
+};
+
+const CHANNEL_LABELS: Record<EscalationChannel, string> = {
+  PUSH: 'Push',
+  EMAIL: 'Email',
+};
+
+const MAX_STEPS = 5;
+
+/**
+ * Who is chased, and after how long, while an emergency alert stays
+ * unacknowledged. Everyone gets a push as soon as the alert is raised.
+ */
+export function EscalationPolicyCard({ familyId, canEdit, className }: EscalationPolicyCardProps) {
+  const { data: policy, isLoading } = useEscalationPolicy(familyId);
+  const updatePolicy = useUpdateEscalationPolicy(familyId);
+  const [draft, setDraft] = useState<EscalationStep[] | null>(null);
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    if (!draft) return;
+    setDraft(draft.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const toggleChannel = (index: number, channel: EscalationChannel) => {
+    if (!draft) return;
+    const channels = draft[index].channels;
+    updateStep(index, {
+      channels: channels.includes(channel) ? channels.filter((c) => c !== channel) : [...channels, channel],
+    });
+  };
+
+  const addStep = () => {
+    if (!draft) return;
+    const last = draft[draft.length - 1];
+    setDraft([...draft, { afterMinutes: last ? last.afterMinutes + 5 : 3, audience: 'ADMINS', channels: ['PUSH'] }]);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    updatePolicy.mutate(draft, { onSuccess: () => setDraft(null) });
+  };
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <BellRing className="w-5 h-5 text-sage-700" />
+          <h2 className="text-lg font-semibold text-ink">If Nobody Responds</h2>
+          {policy?.isDefault && <Badge variant="secondary" size="sm">Default</Badge>}
+        </div>
+        {canEdit && policy && !draft && (
+          <Button size="sm" variant="outline" onClick={() => setDraft(policy.steps)}>
+            Edit
+          </Button>
+        )}
+      </div>
+
+      {isLoading || !policy ? (
+        <p className="text-sage-400 text-sm">Loading policy…</p>
+      ) : draft ? (
+        <div className="space-y-3">
+          {draft.map((step, index) => (
+            <div key={index} className="flex items-center gap-2 flex-wrap text-sm text-text-secondary">
+              <span>After</span>
+              <input
+                type="number"
+                min={1}
+                max={240}
+                value={step.afterMinutes}
+                onChange={(e) => updateStep(index, { afterMinutes: Number(e.target.value) })}
+                className="w-16 px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+              />
+              <span>min</span>
+              <select
+                value={step.audience}
+                onChange={(e) => {
+                  const audience = e.target.value as EscalationAudience;
+                  updateStep(index, audience === 'EMERGENCY_CONTACTS' ? { audience, channels: ['EMAIL'] } : { audience });
+                }}
+                className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+              >
+                {Object.entries(AUDIENCE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {step.audience !== 'EMERGENCY_CONTACTS' &&
+                (Object.keys(CHANNEL_LABELS) as EscalationChannel[]).map((channel) => (
+                  <label key={channel} className="flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={step.channels.includes(channel)}
+                      onChange={() => toggleChannel(index, channel)}
+                    />
+                    {CHANNEL_LABELS[channel]}
+                  </label>
+                ))}
+              <button
+                onClick={() => setDraft(draft.filter((_step, i) => i !== index))}
+                className="p-1 rounded-lg text-text-tertiary hover:text-text-primary"
+                title="Remove step"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 pt-2">
+            {draft.length < MAX_STEPS && (
+              <Button size="sm" variant="ghost" leftIcon={<Plus className="w-4 h-4" />} onClick={addStep}>
+                Add step
+              </Button>
+            )}
+            <div className="flex-1" />
+            <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={save}
+              disabled={updatePolicy.isPending || draft.some((step) => step.channels.length === 0)}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : policy.steps.length === 0 ? (
+        <p className="text-sm text-text-secondary">Alerts are not escalated beyond the first push.</p>
+      ) : (
+        <ol className="space-y-2 text-sm text-text-secondary">
+          {policy.steps.map((step) => (
+            <li key={step.afterMinutes} className="flex items-center justify-between gap-3">
+              <span>
+                After <span className="font-medium text-ink">{step.afterMinutes} min</span>,{' '}
+                {AUDIENCE_LABELS[step.audience].toLowerCase()}
+              </span>
+              <span className="text-xs text-text-tertiary">
+                {step.audience === 'EMERGENCY_CONTACTS'
+                  ? 'Email'
+                  : step.channels.map((channel) => CHANNEL_LABELS[channel]).join(' + ')}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
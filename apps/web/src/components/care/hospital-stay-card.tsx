@@ -0,0 +1,310 @@
+'use client';
+
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Building2, ClipboardCheck, PauseCircle } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  useAdmitHospitalStay,
+  useDischargeHospitalStay,
+  useHospitalStays,
+  useMedicationReconciliation,
+  useReconcileMedications,
+} from '@/hooks/use-hospital-stays';
+import type { HospitalStay, MedicationReconciliationItem, ReconciliationDecision } from '@/lib/api';
+
+interface HospitalStayCardProps {
+  careRecipientId: string;
+  canEdit: boolean;
+  className?: string;
+}
+
+const EMPTY_ADMISSION = { facility: '', ward: '', room: '', reason: '', attendingDoctor: '', admittedAt: '' };
+
+const DECISION_LABELS: Record<ReconciliationDecision, string> = {
+  CONTINUE: 'Continue',
+  CHANGE: 'Change',
+  STOP: 'Stop',
+};
+
+function location(stay: HospitalStay) {
+  return [stay.facility, stay.ward, stay.room && `Room ${stay.room}`].filter(Boolean).join(' · ');
+}
+
+function Reconciliation({ careRecipientId, stay }: { careRecipientId: string; stay: HospitalStay }) {
+  const { data } = useMedicationReconciliation(careRecipientId, stay.id);
+  const reconcile = useReconcileMedications(careRecipientId);
+  const [items, setItems] = useState<Record<string, MedicationReconciliationItem>>({});
+
+  if (!data) return null;
+
+  // Everything defaults to CONTINUE until a decision is picked
+  const pending = data.medications.filter((med) => med.current);
+  const itemFor = (medicationId: string): MedicationReconciliationItem =>
+    items[medicationId] || { medicationId, decision: 'CONTINUE' };
+
+  const set = (medicationId: string, patch: Partial<MedicationReconciliationItem>) =>
+    setItems({ ...items, [medicationId]: { ...itemFor(medicationId), ...patch } });
+
+  return (
+    <div className="p-4 bg-bg-subtle rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <ClipboardCheck className="w-4 h-4 text-sage-700" />
+        <p className="text-sm font-medium text-text-primary">Review medications after discharge</p>
+      </div>
+      <p className="text-xs text-text-secondary">
+        Go through the list from before the admission with the discharge paperwork.
+      </p>
+
+      {pending.length === 0 && <p className="text-sm text-text-secondary">No medications were on the list at admission.</p>}
+
+      {pending.map((med) => {
+        const item = itemFor(med.medicationId);
+
+        return (
+          <div key={med.medicationId} className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text-primary truncate">{med.name}</p>
+                <p className="text-xs text-text-secondary">
+                  {med.dosage}
+                  {med.current && med.current.dosage !== med.dosage && ` (now ${med.current.dosage})`}
+                  {med.current && !med.current.isActive && ' · already stopped'}
+                </p>
+              </div>
+              <select
+                value={item.decision}
+                onChange={(e) => set(med.medicationId, { decision: e.target.value as ReconciliationDecision })}
+                className="px-2 py-1 border border-border rounded-lg text-sm bg-bg-surface"
+                aria-label={`Decision for ${med.name}`}
+              >
+                {(Object.keys(DECISION_LABELS) as ReconciliationDecision[]).map((decision) => (
+                  <option key={decision} value={decision}>
+                    {DECISION_LABELS[decision]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {item.decision === 'CHANGE' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  placeholder="New dosage"
+                  value={item.dosage || ''}
+                  onChange={(e) => set(med.medicationId, { dosage: e.target.value || undefined })}
+                />
+                <Input
+                  placeholder="New instructions"
+                  value={item.instructions || ''}
+                  onChange={(e) => set(med.medicationId, { instructions: e.target.value || undefined })}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {data.startedSinceAdmission.length > 0 && (
+        <p className="text-xs text-text-secondary">
+          Added since admission: {data.startedSinceAdmission.map((med) => `${med.name} ${med.dosage}`).join(', ')}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          disabled={reconcile.isPending}
+          onClick={() => reconcile.mutate({ stayId: stay.id, items: pending.map((med) => itemFor(med.medicationId)) })}
+        >
+          Save medication review
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Hospital admissions. While one is open, medication and home shift
+ * reminders are paused; after discharge the medication list from before the
+ * admission is reviewed here.
+ */
+export function HospitalStayCard({ careRecipientId, canEdit, className }: HospitalStayCardProps) {
+  const { data: stays = [] } = useHospitalStays(careRecipientId);
+  const admit = useAdmitHospitalStay(careRecipientId);
+  const discharge = useDischargeHospitalStay(careRecipientId);
+
+  const [admission, setAdmission] = useState<typeof EMPTY_ADMISSION | null>(null);
+  const [dischargeInstructions, setDischargeInstructions] = useState<string | null>(null);
+
+  const current = stays.find((stay) => !stay.dischargedAt);
+  const toReconcile = stays.find((stay) => stay.dischargedAt && !stay.reconciledAt);
+  const past = stays.filter((stay) => stay.dischargedAt).slice(0, 5);
+
+  const submitAdmission = () => {
+    if (!admission) return;
+    admit.mutate(
+      {
+        facility: admission.facility.trim(),
+        ward: admission.ward.trim() || undefined,
+        room: admission.room.trim() || undefined,
+        reason: admission.reason.trim(),
+        attendingDoctor: admission.attendingDoctor.trim() || undefined,
+        admittedAt: admission.admittedAt ? new Date(admission.admittedAt).toISOString() : undefined,
+      },
+      { onSuccess: () => setAdmission(null) }
+    );
+  };
+
+  return (
+    <Card className={cn('p-6 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Building2 className="w-5 h-5 text-sage-700" />
+          <h2 className="text-lg font-semibold text-ink">Hospital Stays</h2>
+        </div>
+        {canEdit && !current && !admission && (
+          <Button size="sm" variant="outline" onClick={() => setAdmission(EMPTY_ADMISSION)}>
+            Record admission
+          </Button>
+        )}
+      </div>
+
+      {current && (
+        <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <p className="font-medium text-text-primary">{location(current)}</p>
+            <Badge variant="warning" size="sm">
+              Admitted
+            </Badge>
+          </div>
+          <p className="text-sm text-text-secondary">{current.reason}</p>
+          <p className="text-xs text-text-secondary">
+            Since {format(new Date(current.admittedAt), 'MMM d, h:mm a')} (
+            {formatDistanceToNow(new Date(current.admittedAt))})
+            {current.attendingDoctor && ` · ${current.attendingDoctor}`}
+          </p>
+          <p className="flex items-center gap-1 text-xs text-amber-800">
+            <PauseCircle className="w-3.5 h-3.5" />
+            Medication reminders and home shift reminders are paused
+          </p>
+
+          {canEdit &&
+            (dischargeInstructions === null ? (
+              <Button size="sm" variant="secondary" onClick={() => setDischargeInstructions('')}>
+                Record discharge
+              </Button>
+            ) : (
+              <div className="space-y-2">
+                <Textarea
+                  label="Discharge instructions"
+                  value={dischargeInstructions}
+                  onChange={(e) => setDischargeInstructions(e.target.value)}
+                  rows={4}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="ghost" onClick={() => setDischargeInstructions(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={discharge.isPending}
+                    onClick={() =>
+                      discharge.mutate(
+                        {
+                          stayId: current.id,
+                          data: { dischargeInstructions: dischargeInstructions.trim() || undefined },
+                        },
+                        { onSuccess: () => setDischargeInstructions(null) }
+                      )
+                    }
+                  >
+                    Discharge
+                  </Button>
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {admission && (
+        <div className="space-y-3">
+          <Input
+            label="Hospital"
+            value={admission.facility}
+            onChange={(e) => setAdmission({ ...admission, facility: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="Ward" value={admission.ward} onChange={(e) => setAdmission({ ...admission, ward: e.target.value })} />
+            <Input label="Room" value={admission.room} onChange={(e) => setAdmission({ ...admission, room: e.target.value })} />
+          </div>
+          <Input
+            label="Reason for admission"
+            value={admission.reason}
+            onChange={(e) => setAdmission({ ...admission, reason: e.target.value })}
+          />
+          <Input
+            label="Attending doctor (optional)"
+            value={admission.attendingDoctor}
+            onChange={(e) => setAdmission({ ...admission, attendingDoctor: e.target.value })}
+          />
+          <Input
+            label="Admitted at (leave empty for now)"
+            type="datetime-local"
+            value={admission.admittedAt}
+            onChange={(e) => setAdmission({ ...admission, admittedAt: e.target.value })}
+          />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setAdmission(null)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!admission.facility.trim() || !admission.reason.trim() || admit.isPending}
+              onClick={submitAdmission}
+            >
+              Record admission
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {canEdit && toReconcile && <Reconciliation careRecipientId={careRecipientId} stay={toReconcile} />}
+
+      {past.length > 0 && (
+        <div className="divide-y divide-border">
+          {past.map((stay) => (
+            <div key={stay.id} className="py-3 space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm font-medium text-text-primary truncate">{location(stay)}</p>
+                {stay.reconciledAt ? (
+                  <Badge variant="success" size="sm">
+                    Medications reviewed
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" size="sm">
+                    Review pending
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-text-secondary">
+                {format(new Date(stay.admittedAt), 'MMM d')} – {format(new Date(stay.dischargedAt!), 'MMM d, yyyy')} ·{' '}
+                {stay.reason}
+              </p>
+              {stay.dischargeInstructions && (
+                <p className="text-sm text-text-secondary whitespace-pre-line">{stay.dischargeInstructions}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {stays.length === 0 && !admission && (
+        <p className="text-sm text-text-secondary">No hospital stays recorded.</p>
+      )}
+    </Card>
+  );
+}
@@ -4,3 +4,19 @@ export * from './care-recipient-card';
 export * from './timeline-entry';
 export * from './medication-interactions';
 
+export * from './medication-refill-panel';
+export * from './schedule-phases-editor';
+export * from './mar-export';
+export * from './vital-ranges-card';
+export * from './vital-trends-panel';
+export * from './open-shifts-card';
+export * from './coverage-gaps-card';
+export * from './shift-handoff-report';
+export * from './shift-history-card';
+export * from './timesheets-card';
+export * from './availability-card';
+export * from './caregiver-suggestions';
+export * from './location-review-card';
+export * from './escalation-policy-card';
+export * from './emergency-share-links-card';
+export * from './hospital-stay-card';
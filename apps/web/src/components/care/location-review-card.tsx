@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { MapPin } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { errorMessage, shiftsApi, type LocationVerification } from '@/lib/api';
+
+interface LocationReviewCardProps {
+  careRecipientId: string;
+  className?: string;
+}
+
+const describeLocation = (
+  label: string,
+  verification?: LocationVerification | null,
+  distanceMeters?: number | null
+) => {
+  if (verification === 'NOT_PROVIDED') return `${label}: no location shared`;
+  if (verification === 'OUTSIDE_RADIUS' && distanceMeters != null) {
+    const distance =
+      distanceMeters >= 1000 ? `${(distanceMeters / 1000).toFixed(1)} km` : `${distanceMeters} m`;
+    return `${label}: ${distance} from home`;
+  }
+  return null;
+};
+
+/**
+ * Shifts checked in or out away from the care recipient's home, or without
+ * a location. Admins look them over and mark them reviewed.
+ */
+export function LocationReviewCard({ careRecipientId, className }: LocationReviewCardProps) {
+  const queryClient = useQueryClient();
+  const [reviewing, setReviewing] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  const { data: shifts = [] } = useQuery({
+    queryKey: ['location-reviews', careRecipientId],
+    queryFn: () => shiftsApi.getLocationReviews(careRecipientId),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: (shiftId: string) =>
+      shiftsApi.reviewLocation(careRecipientId, shiftId, note.trim() || undefined),
+    onSuccess: () => {
+      toast.success('Marked as reviewed');
+      queryClient.invalidateQueries({ queryKey: ['location-reviews', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      setReviewing(null);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to mark as reviewed')),
+  });
+
+  if (shifts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <MapPin className="w-5 h-5 text-warning" />
+        <h3 className="text-base sm:text-lg font-semibold text-text-primary">Check-in Locations</h3>
+        <Badge variant="warning" size="sm">
+          {shifts.length} to review
+        </Badge>
+      </div>
+
+      <div className="divide-y divide-border">
+        {shifts.map((shift) => {
+          const details = [
+            describeLocation('Check-in', shift.checkInLocation, shift.checkInDistanceMeters),
+            describeLocation('Check-out', shift.checkOutLocation, shift.checkOutDistanceMeters),
+          ].filter(Boolean);
+
+          return (
+            <div key={shift.id} className="py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-text-primary">
+                    {shift.caregiver?.fullName || 'Unknown'}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {format(new Date(shift.startTime), 'EEE MMM d, h:mm a')} –{' '}
+                    {format(new Date(shift.endTime), 'h:mm a')}
+                  </p>
+                  <p className="text-xs text-warning mt-0.5">{details.join(' · ')}</p>
+                </div>
+                {reviewing !== shift.id && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="shrink-0"
+                    onClick={() => {
+                      setNote('');
+                      setReviewing(shift.id);
+                    }}
+                  >
+                    Review
+                  </Button>
+                )}
+              </div>
+
+              {reviewing === shift.id && (
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={note}
+                    placeholder="Note (optional), e.g. took them to an appointment"
+                    onChange={(e) => setNote(e.target.value)}
+                    className="flex-1 min-w-[12rem] px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                  />
+                  <Button
+                    size="sm"
+                    variant="primary"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate(shift.id)}
+                  >
+                    Mark reviewed
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setReviewing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
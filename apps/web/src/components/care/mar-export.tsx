@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FileDown, FileSpreadsheet } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { medicationsApi } from '@/lib/api';
+
+interface MarExportProps {
+  careRecipientId: string;
+  className?: string;
+}
+
+/**
+ * Month picker with PDF/CSV downloads of the medication administration record
+ */
+export function MarExport({ careRecipientId, className }: MarExportProps) {
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [downloading, setDownloading] = useState<'pdf' | 'csv' | null>(null);
+
+  const handleDownload = async (fileFormat: 'pdf' | 'csv') => {
+    setDownloading(fileFormat);
+    try {
+      const blob = await medicationsApi.downloadMar(careRecipientId, month, fileFormat);
+      const blobUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `mar-${month}.${fileFormat}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      toast.error('Failed to download the medication record');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2 flex-wrap', className)}>
+      <span className="text-xs sm:text-sm font-medium text-text-secondary">Administration record</span>
+      <input
+        type="month"
+        value={month}
+        max={format(new Date(), 'yyyy-MM')}
+        onChange={(e) => e.target.value && setMonth(e.target.value)}
+        className="px-2 py-1.5 border border-border rounded-lg text-xs sm:text-sm bg-bg-surface"
+      />
+      <Button
+        size="sm"
+        variant="outline"
+        leftIcon={<FileDown className="w-4 h-4" />}
+        disabled={downloading !== null}
+        onClick={() => handleDownload('pdf')}
+      >
+        PDF
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        leftIcon={<FileSpreadsheet className="w-4 h-4" />}
+        disabled={downloading !== null}
+        onClick={() => handleDownload('csv')}
+      >
+        CSV
+      </Button>
+    </div>
+  );
+}
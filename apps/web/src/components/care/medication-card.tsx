@@ -27,6 +27,11 @@ export interface MedicationScheduleItem {
     id: string;
     fullName: string;
   };
+  asNeeded?: boolean;
+  prn?: {
+    canGiveNow: boolean;
+    nextDoseAllowedAt: string | null;
+  };
 }
 
 interface MedicationCardProps {
@@ -59,8 +64,9 @@ export function MedicationCard({ item, onLog, className }: MedicationCardProps)
 
   const scheduledTime = new Date(item.scheduledTime);
   const now = new Date();
-  const isDue = isPending && scheduledTime <= now;
+  const isDue = isPending && !item.asNeeded && scheduledTime <= now;
   const isUpcoming = isPending && scheduledTime > now;
+  const prnBlocked = item.prn ? !item.prn.canGiveNow : false;
 
   const handleGiven = async () => {
     if (!onLog) return;
@@ -133,7 +139,7 @@ export function MedicationCard({ item, onLog, className }: MedicationCardProps)
                   'text-sm font-medium',
                   isDue ? 'text-warning' : 'text-text-tertiary'
                 )}>
-                  {item.time}
+                  {item.asNeeded ? 'As needed' : item.time}
                 </p>
               </div>
             </div>
@@ -161,6 +167,13 @@ export function MedicationCard({ item, onLog, className }: MedicationCardProps)
               </p>
             )}
 
+            {prnBlocked && item.prn?.nextDoseAllowedAt && (
+              <p className="text-xs text-warning mt-2 flex items-center gap-1">
+                <Clock className="w-3.5 h-3.5" />
+                Next dose allowed at {formatTime(item.prn.nextDoseAllowedAt)}
+              </p>
+            )}
+
             {/* Action Buttons */}
             {isPending && (
               <div className="flex gap-2 mt-3">
@@ -169,6 +182,7 @@ export function MedicationCard({ item, onLog, className }: MedicationCardProps)
                   size="sm"
                   onClick={handleGiven}
                   isLoading={isLogging}
+                  disabled={prnBlocked}
                   leftIcon={<Check className="w-4 h-4" />}
                   className="flex-1"
                 >
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { 
   AlertTriangle, 
@@ -40,9 +40,26 @@ interface InteractionCheckResult {
     minor: DrugInteraction[];
   };
   checkedMedications: string[];
+  resolvedNames?: Record<string, string>;
+  provider?: string;
+  datasetVersion?: string;
   timestamp: string;
 }
 
+interface Contraindication {
+  type: 'allergy' | 'condition';
+  severity: 'contraindicated' | 'major' | 'moderate';
+  trigger: string;
+  drugClass: string;
+  description: string;
+  management?: string;
+}
+
+interface NewMedicationCheckResult extends InteractionCheckResult {
+  warnings: string[];
+  contraindications: Contraindication[];
+}
+
 const severityConfig = {
   contraindicated: {
     label: 'Contraindicated',
@@ -175,6 +192,9 @@ export function MedicationInteractions({
             <p className="text-sm text-muted-foreground mt-1">
               Checked {data?.checkedMedications.length || 0} medications
             </p>
+            {data?.datasetVersion && (
+              <p className="text-xs text-muted-foreground mt-1">Interaction data: {data.datasetVersion}</p>
+            )}
           </div>
         ) : (
           <div className="space-y-3">
@@ -186,6 +206,9 @@ export function MedicationInteractions({
                   ({data.checkedMedications.length} medications checked)
                 </span>
               )}
+              {data.datasetVersion && (
+                <span className="text-xs ml-auto">Data: {data.datasetVersion}</span>
+              )}
             </div>
 
             {/* Interactions by severity */}
@@ -363,5 +386,94 @@ export function MedicationInteractionAlert({
   );
 }
 
+// Pre-save check for a medication being added: interactions with current
+// medications plus allergy/condition conflicts
+export function NewMedicationSafetyCheck({
+  careRecipientId,
+  medicationName,
+  onCriticalChange,
+  className,
+}: {
+  careRecipientId: string;
+  medicationName: string;
+  onCriticalChange?: (hasCritical: boolean) => void;
+  className?: string;
+}) {
+  const { token } = useAuth();
+  const [debouncedName, setDebouncedName] = useState(medicationName.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedName(medicationName.trim()), 500);
+    return () => clearTimeout(timeout);
+  }, [medicationName]);
+
+  const { data, isFetching } = useQuery<NewMedicationCheckResult>({
+    queryKey: ['medication-interactions', careRecipientId, 'check-new', debouncedName],
+    queryFn: async () => {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/care-recipients/${careRecipientId}/medications/interactions/check-new`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ medicationName: debouncedName }),
+        }
+      );
+      if (!response.ok) throw new Error('Failed to check interactions');
+      return response.json();
+    },
+    enabled: !!careRecipientId && !!token && debouncedName.length >= 3,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const contraindications = data?.contraindications || [];
+  const interactions = data
+    ? [...data.bySeverity.contraindicated, ...data.bySeverity.major, ...data.bySeverity.moderate]
+    : [];
+  const hasCritical =
+    contraindications.some(c => c.severity !== 'moderate') ||
+    (data?.bySeverity.contraindicated.length || 0) > 0 ||
+    (data?.bySeverity.major.length || 0) > 0;
+
+  useEffect(() => {
+    onCriticalChange?.(hasCritical);
+  }, [hasCritical, onCriticalChange]);
+
+  if (debouncedName.length < 3 || !data || (contraindications.length === 0 && interactions.length === 0)) {
+    return isFetching ? (
+      <p className={cn('text-xs text-muted-foreground', className)}>Checking interactions and allergies…</p>
+    ) : null;
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {contraindications.map((c, idx) => {
+        const config = severityConfig[c.severity];
+        const Icon = config.icon;
+        return (
+          <div key={`c-${idx}`} className={cn('rounded-lg border p-3 text-sm', config.bgColor, config.borderColor)}>
+            <div className="flex items-center gap-2">
+              <Icon className={cn('h-4 w-4 shrink-0', config.textColor)} />
+              <span className={cn('font-medium', config.textColor)}>
+                {c.type === 'allergy' ? 'Allergy' : 'Condition'} conflict: {c.trigger}
+              </span>
+              <Badge variant="outline" className={cn('text-xs ml-auto', config.badgeColor)}>
+                {c.drugClass}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">{c.description}</p>
+            {c.management && <p className="text-green-700 mt-1">{c.management}</p>}
+          </div>
+        );
+      })}
+      {interactions.map((interaction, idx) => (
+        <InteractionCard key={`i-${idx}`} interaction={interaction} severity={interaction.severity} />
+      ))}
+    </div>
+  );
+}
+
 export default MedicationInteractions;
 
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, ShoppingBag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useRequestRefill, useUpdateRefill } from '@/hooks/use-medications';
+import type { FamilyMember, MedicationRefillStatus, MedicationSupplyForecast } from '@/lib/api';
+
+interface MedicationRefillPanelProps {
+  careRecipientId: string;
+  forecast: MedicationSupplyForecast;
+  members: FamilyMember[];
+  canEdit: boolean;
+  className?: string;
+}
+
+const STEPS: { status: MedicationRefillStatus; label: string }[] = [
+  { status: 'REQUESTED', label: 'Requested' },
+  { status: 'ORDERED', label: 'Ordered' },
+  { status: 'READY_FOR_PICKUP', label: 'Ready' },
+  { status: 'PICKED_UP', label: 'Picked up' },
+];
+
+const NEXT_ACTION: Partial<Record<MedicationRefillStatus, { status: MedicationRefillStatus; label: string }>> = {
+  REQUESTED: { status: 'ORDERED', label: 'Mark ordered' },
+  ORDERED: { status: 'READY_FOR_PICKUP', label: 'Ready for pickup' },
+  READY_FOR_PICKUP: { status: 'PICKED_UP', label: 'Picked up' },
+};
+
+/**
+ * Refill status for one medication: the run-out projection, the open refill's
+ * progress and pickup assignee, or a prompt to request one when supply is low.
+ */
+export function MedicationRefillPanel({
+  careRecipientId,
+  forecast,
+  members,
+  canEdit,
+  className,
+}: MedicationRefillPanelProps) {
+  const requestRefill = useRequestRefill(careRecipientId);
+  const updateRefill = useUpdateRefill(careRecipientId);
+  const [quantity, setQuantity] = useState('');
+
+  const refill = forecast.openRefill;
+  const runningLow =
+    forecast.needsRefill || (forecast.daysRemaining !== null && forecast.daysRemaining <= 7);
+
+  if (!refill && !(canEdit && runningLow)) {
+    return null;
+  }
+
+  const parsedQuantity = quantity ? parseInt(quantity, 10) : undefined;
+
+  if (!refill) {
+    return (
+      <div className={cn('flex items-center gap-2 flex-wrap text-xs sm:text-sm', className)}>
+        <span className="text-warning font-medium">
+          {forecast.projectedRunOutDate
+            ? `Runs out ${format(new Date(forecast.projectedRunOutDate), 'EEE MMM d')}`
+            : 'Running low'}
+        </span>
+        <input
+          type="number"
+          min={1}
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Qty"
+          className="w-16 px-2 py-1 border border-border rounded-lg text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={requestRefill.isPending}
+          onClick={() =>
+            requestRefill.mutate({
+              medicationId: forecast.medicationId,
+              data: { quantity: parsedQuantity && parsedQuantity > 0 ? parsedQuantity : undefined },
+            })
+          }
+        >
+          <ShoppingBag />
+          Request refill
+        </Button>
+      </div>
+    );
+  }
+
+  const currentStep = STEPS.findIndex((step) => step.status === refill.status);
+  const next = NEXT_ACTION[refill.status];
+
+  const advance = () => {
+    if (!next) return;
+    updateRefill.mutate({
+      refillId: refill.id,
+      data: {
+        status: next.status,
+        ...(next.status === 'PICKED_UP' && parsedQuantity && parsedQuantity > 0 && { quantity: parsedQuantity }),
+      },
+    });
+  };
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-bg-muted/40 p-2 sm:p-3 space-y-2', className)}>
+      <div className="flex items-center gap-1 flex-wrap">
+        {STEPS.map((step, index) => (
+          <span
+            key={step.status}
+            className={cn(
+              'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] sm:text-xs',
+              index <= currentStep ? 'bg-accent-primary-light text-text-primary font-medium' : 'text-text-tertiary',
+            )}
+          >
+            {index < currentStep && <Check className="w-3 h-3" />}
+            {step.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap text-xs text-text-secondary">
+        {refill.pharmacy && <span>{refill.pharmacy}</span>}
+        {refill.pickupDueAt && <span>· Pick up by {format(new Date(refill.pickupDueAt), 'EEE MMM d, h:mm a')}</span>}
+        {refill.quantity && <span>· {refill.quantity} units</span>}
+      </div>
+
+      {canEdit ? (
+        <div className="flex items-center gap-2 flex-wrap">
+          <select
+            value={refill.assignedTo?.id || ''}
+            onChange={(e) =>
+              e.target.value && updateRefill.mutate({ refillId: refill.id, data: { assignedToId: e.target.value } })
+            }
+            className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+          >
+            <option value="">Assign pickup…</option>
+            {members.map((member) => (
+              <option key={member.userId} value={member.userId}>
+                {member.user.fullName}
+              </option>
+            ))}
+          </select>
+          {next?.status === 'PICKED_UP' && (
+            <input
+              type="number"
+              min={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={refill.quantity ? String(refill.quantity) : 'Qty'}
+              className="w-16 px-2 py-1 border border-border rounded-lg text-xs"
+            />
+          )}
+          {next && (
+            <Button size="sm" variant="outline" onClick={advance} disabled={updateRefill.isPending}>
+              {next.label}
+            </Button>
+          )}
+          <button
+            onClick={() => updateRefill.mutate({ refillId: refill.id, data: { status: 'CANCELLED' } })}
+            disabled={updateRefill.isPending}
+            className="p-1 rounded-lg text-text-tertiary hover:text-destructive"
+            title="Cancel refill"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        refill.assignedTo && <p className="text-xs text-text-secondary">Pickup: {refill.assignedTo.fullName}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, isSameDay } from 'date-fns';
+import { toast } from 'react-hot-toast';
+import { ArrowLeftRight, Check, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { errorMessage, shiftSwapsApi, type CaregiverShift, type ShiftSwapRequest } from '@/lib/api';
+
+interface OpenShiftsCardProps {
+  careRecipientId: string;
+  swaps: ShiftSwapRequest[];
+  shifts: CaregiverShift[];
+  currentUserId?: string;
+  isAdmin: boolean;
+  canClaim: boolean;
+  className?: string;
+}
+
+const formatShiftTime = (shift: Pick<CaregiverShift, 'startTime' | 'endTime'>) => {
+  const start = new Date(shift.startTime);
+  const end = new Date(shift.endTime);
+  return `${format(start, 'EEE MMM d, h:mm a')} – ${format(end, isSameDay(start, end) ? 'h:mm a' : 'EEE h:mm a')}`;
+};
+
+/**
+ * Shifts their caregivers can't make. Other caregivers claim them, optionally
+ * trading one of their own shifts, and the assigned caregiver or an admin
+ * approves the swap.
+ */
+export function OpenShiftsCard({
+  careRecipientId,
+  swaps,
+  shifts,
+  currentUserId,
+  isAdmin,
+  canClaim,
+  className,
+}: OpenShiftsCardProps) {
+  const queryClient = useQueryClient();
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [tradeShiftId, setTradeShiftId] = useState('');
+
+  const onSuccess = (message: string) => () => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ['shift-swaps', careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['on-duty'] });
+    setClaiming(null);
+    setTradeShiftId('');
+  };
+  const onError = (fallback: string) => (error: Error) => toast.error(errorMessage(error, fallback));
+
+  const claimMutation = useMutation({
+    mutationFn: (swapId: string) =>
+      shiftSwapsApi.claim(careRecipientId, swapId, { tradeShiftId: tradeShiftId || undefined }),
+    onSuccess: onSuccess('Claim sent for approval'),
+    onError: onError('Failed to claim shift'),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (swapId: string) => shiftSwapsApi.approve(careRecipientId, swapId),
+    onSuccess: onSuccess('Swap approved'),
+    onError: onError('Failed to approve swap'),
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: (swapId: string) => shiftSwapsApi.decline(careRecipientId, swapId),
+    onSuccess: onSuccess('Claim declined'),
+    onError: onError('Failed to decline claim'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (swapId: string) => shiftSwapsApi.cancel(careRecipientId, swapId),
+    onSuccess: onSuccess('Swap withdrawn'),
+    onError: onError('Failed to withdraw swap'),
+  });
+
+  if (swaps.length === 0) {
+    return null;
+  }
+
+  const myTradeableShifts = shifts.filter(
+    (s) =>
+      s.caregiverId === currentUserId &&
+      (s.status === 'SCHEDULED' || s.status === 'CONFIRMED') &&
+      new Date(s.startTime) > new Date()
+  );
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <ArrowLeftRight className="w-5 h-5 text-accent-primary" />
+        <h3 className="text-base sm:text-lg font-semibold text-text-primary">Open Shifts</h3>
+        <Badge variant="warning" size="sm">
+          {swaps.length}
+        </Badge>
+      </div>
+
+      <div className="divide-y divide-border">
+        {swaps.map((swap) => {
+          const isAssignee = swap.shift.caregiverId === currentUserId;
+          const canResolve = isAssignee || isAdmin;
+          const canWithdraw = canResolve || swap.requestedById === currentUserId;
+
+          return (
+            <div key={swap.id} className="py-3 space-y-2">
+              <div className="flex items-start justify-between gap-3 flex-wrap">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-text-primary">{formatShiftTime(swap.shift)}</p>
+                  <p className="text-xs text-text-secondary">
+                    {swap.shift.caregiver?.fullName || 'Unknown'} needs cover
+                    {swap.reason && ` · ${swap.reason}`}
+                  </p>
+                  {swap.status === 'CLAIMED' && swap.claimedBy && (
+                    <p className="text-xs text-text-secondary mt-1">
+                      <span className="font-medium">{swap.claimedBy.fullName}</span> will take it
+                      {swap.tradeShift && ` in exchange for ${formatShiftTime(swap.tradeShift)}`}
+                      {swap.claimNote && ` · "${swap.claimNote}"`}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={swap.status === 'CLAIMED' ? 'info' : 'warning'} size="sm">
+                  {swap.status === 'CLAIMED' ? 'Awaiting approval' : 'Open'}
+                </Badge>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {swap.status === 'OPEN' && canClaim && !isAssignee && claiming !== swap.id && (
+                  <Button size="sm" variant="primary" onClick={() => setClaiming(swap.id)}>
+                    Take Shift
+                  </Button>
+                )}
+
+                {claiming === swap.id && (
+                  <>
+                    <select
+                      value={tradeShiftId}
+                      onChange={(e) => setTradeShiftId(e.target.value)}
+                      className="px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+                    >
+                      <option value="">No trade</option>
+                      {myTradeableShifts.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          Trade my {formatShiftTime(s)}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      disabled={claimMutation.isPending}
+                      onClick={() => claimMutation.mutate(swap.id)}
+                    >
+                      Claim
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setClaiming(null)}>
+                      Cancel
+                    </Button>
+                  </>
+                )}
+
+                {swap.status === 'CLAIMED' && canResolve && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      leftIcon={<Check className="w-4 h-4" />}
+                      disabled={approveMutation.isPending}
+                      onClick={() => approveMutation.mutate(swap.id)}
+                    >
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      leftIcon={<X className="w-4 h-4" />}
+                      disabled={declineMutation.isPending}
+                      onClick={() => declineMutation.mutate(swap.id)}
+                    >
+                      Decline
+                    </Button>
+                  </>
+                )}
+
+                {canWithdraw && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(swap.id)}
+                  >
+                    Withdraw
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
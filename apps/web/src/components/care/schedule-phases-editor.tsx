@@ -0,0 +1,388 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { MedicationSchedulePhase } from '@/lib/api';
+
+type PhasePattern = 'DAILY' | 'WEEKLY' | 'HOURLY' | 'CUSTOM';
+
+/** Form state for one dosing phase; converted to an RRULE on save */
+export interface SchedulePhaseDraft {
+  startDate: string; // YYYY-MM-DD
+  startTime: string; // HH:mm, first dose of interval phases
+  endDate: string; // YYYY-MM-DD, exclusive; empty = open-ended
+  pattern: PhasePattern;
+  weekdays: string[]; // MO..SU
+  intervalHours: string;
+  rule: string; // CUSTOM only
+  times: string[];
+  dosage: string;
+  doseQuantity: string;
+  cycleDaysOn: string;
+  cycleDaysOff: string;
+}
+
+const WEEKDAYS = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' },
+];
+
+const PATTERNS: { value: PhasePattern; label: string }[] = [
+  { value: 'DAILY', label: 'Every day' },
+  { value: 'WEEKLY', label: 'On certain days' },
+  { value: 'HOURLY', label: 'Every few hours' },
+  { value: 'CUSTOM', label: 'Custom rule' },
+];
+
+const selectClassName =
+  'w-full px-4 py-3 rounded-lg border border-border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary';
+
+const ruleParts = (rule: string) =>
+  Object.fromEntries(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => part.split('=') as [string, string]),
+  );
+
+export function newSchedulePhaseDraft(startDate: string, times: string[] = ['08:00']): SchedulePhaseDraft {
+  return {
+    startDate,
+    startTime: '08:00',
+    endDate: '',
+    pattern: 'DAILY',
+    weekdays: [],
+    intervalHours: '8',
+    rule: '',
+    times,
+    dosage: '',
+    doseQuantity: '1',
+    cycleDaysOn: '',
+    cycleDaysOff: '',
+  };
+}
+
+export function toSchedulePhaseDraft(phase: MedicationSchedulePhase): SchedulePhaseDraft {
+  const parts = ruleParts(phase.recurrenceRule);
+  const keys = Object.keys(parts).filter((key) => key !== 'FREQ' && key !== 'INTERVAL' && key !== 'BYDAY');
+  const start = parseISO(phase.startDate);
+
+  let pattern: PhasePattern = 'CUSTOM';
+  if (keys.length === 0) {
+    if (parts.FREQ === 'DAILY' && !parts.BYDAY && (!parts.INTERVAL || parts.INTERVAL === '1')) pattern = 'DAILY';
+    else if (parts.FREQ === 'WEEKLY' && parts.BYDAY && (!parts.INTERVAL || parts.INTERVAL === '1')) pattern = 'WEEKLY';
+    else if (parts.FREQ === 'HOURLY' && !parts.BYDAY) pattern = 'HOURLY';
+  }
+
+  return {
+    startDate: format(start, 'yyyy-MM-dd'),
+    startTime: format(start, 'HH:mm'),
+    endDate: phase.endDate ? format(parseISO(phase.endDate), 'yyyy-MM-dd') : '',
+    pattern,
+    weekdays: parts.BYDAY ? parts.BYDAY.split(',') : [],
+    intervalHours: parts.INTERVAL || '1',
+    rule: phase.recurrenceRule,
+    times: phase.times || [],
+    dosage: phase.dosage || '',
+    doseQuantity: String(phase.doseQuantity ?? 1),
+    cycleDaysOn: phase.cycleDaysOn ? String(phase.cycleDaysOn) : '',
+    cycleDaysOff: phase.cycleDaysOff ? String(phase.cycleDaysOff) : '',
+  };
+}
+
+/**
+ * Build the API payload for a phase. Dates are sent as local midnight (or the
+ * first dose time for interval phases) so the phase starts on the day picked.
+ */
+export function fromSchedulePhaseDraft(draft: SchedulePhaseDraft): MedicationSchedulePhase {
+  const recurrenceRule =
+    draft.pattern === 'DAILY'
+      ? 'FREQ=DAILY'
+      : draft.pattern === 'WEEKLY'
+        ? `FREQ=WEEKLY;BYDAY=${draft.weekdays.join(',')}`
+        : draft.pattern === 'HOURLY'
+          ? `FREQ=HOURLY;INTERVAL=${parseInt(draft.intervalHours, 10)}`
+          : draft.rule.trim();
+  const startTime = draft.pattern === 'HOURLY' ? draft.startTime : '00:00';
+
+  return {
+    startDate: new Date(`${draft.startDate}T${startTime}`).toISOString(),
+    ...(draft.endDate && { endDate: new Date(`${draft.endDate}T00:00`).toISOString() }),
+    recurrenceRule,
+    times: draft.pattern === 'HOURLY' ? [] : draft.times,
+    ...(draft.dosage.trim() && { dosage: draft.dosage.trim() }),
+    doseQuantity: parseInt(draft.doseQuantity, 10) || 1,
+    ...(draft.cycleDaysOn && { cycleDaysOn: parseInt(draft.cycleDaysOn, 10) }),
+    ...(draft.cycleDaysOff && { cycleDaysOff: parseInt(draft.cycleDaysOff, 10) }),
+  };
+}
+
+/** Problems with the phases, by phase number; empty when they can be saved */
+export function validateSchedulePhaseDrafts(drafts: SchedulePhaseDraft[]): string[] {
+  const errors: string[] = [];
+
+  drafts.forEach((draft, index) => {
+    const label = `Phase ${index + 1}`;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.startDate)) {
+      errors.push(`${label}: choose a start date`);
+    }
+    if (draft.endDate && draft.endDate <= draft.startDate) {
+      errors.push(`${label}: must end after it starts`);
+    }
+    if (draft.pattern === 'WEEKLY' && draft.weekdays.length === 0) {
+      errors.push(`${label}: pick at least one day`);
+    }
+    if (draft.pattern === 'HOURLY') {
+      const hours = Number(draft.intervalHours);
+      if (!Number.isInteger(hours) || hours < 2 || hours > 24) {
+        errors.push(`${label}: hours between doses must be a whole number from 2 to 24`);
+      }
+    } else if (draft.times.length === 0 || draft.times.some((time) => !/^\d{2}:\d{2}$/.test(time))) {
+      errors.push(`${label}: set a time for each dose`);
+    }
+    if (draft.pattern === 'CUSTOM' && !/^(RRULE:)?FREQ=/i.test(draft.rule.trim())) {
+      errors.push(`${label}: the rule must start with FREQ=`);
+    }
+    if (!!draft.cycleDaysOn !== !!draft.cycleDaysOff) {
+      errors.push(`${label}: set both days on and days off, or neither`);
+    }
+    const quantity = Number(draft.doseQuantity);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`${label}: units per dose must be a whole number (1 or more)`);
+    }
+  });
+
+  return errors;
+}
+
+/** One-line summary of a saved phase, e.g. "20mg · Mon, Wed, Fri at 08:00 · from Mar 4 until Mar 10" */
+export function describeSchedulePhase(phase: MedicationSchedulePhase): string {
+  const draft = toSchedulePhaseDraft(phase);
+  const at = draft.times.length > 0 ? ` at ${draft.times.join(', ')}` : '';
+
+  const when =
+    draft.pattern === 'DAILY'
+      ? `Daily${at}`
+      : draft.pattern === 'WEEKLY'
+        ? `${draft.weekdays.map((day) => WEEKDAYS.find((w) => w.value === day)?.label ?? day).join(', ')}${at}`
+        : draft.pattern === 'HOURLY'
+          ? `Every ${draft.intervalHours}h from ${draft.startTime}`
+          : `${phase.recurrenceRule}${at}`;
+
+  const parts = [
+    phase.dosage,
+    phase.doseQuantity && phase.doseQuantity > 1 ? `${phase.doseQuantity} units` : null,
+    when,
+    phase.cycleDaysOn && phase.cycleDaysOff ? `${phase.cycleDaysOn} days on, ${phase.cycleDaysOff} off` : null,
+    `from ${format(parseISO(phase.startDate), 'MMM d')}${phase.endDate ? ` until ${format(parseISO(phase.endDate), 'MMM d')}` : ''}`,
+  ];
+
+  return parts.filter(Boolean).join(' · ');
+}
+
+interface SchedulePhasesEditorProps {
+  phases: SchedulePhaseDraft[];
+  onChange: (phases: SchedulePhaseDraft[]) => void;
+  defaultStartDate: string;
+}
+
+/**
+ * Edits a medication's dosing phases: tapers (one phase per step, each with
+ * its own dose), interval dosing (every N hours) and on/off cycles. A phase
+ * ends the day before its end date, so a taper step can end where the next
+ * one starts.
+ */
+export function SchedulePhasesEditor({ phases, onChange, defaultStartDate }: SchedulePhasesEditorProps) {
+  const update = (index: number, patch: Partial<SchedulePhaseDraft>) =>
+    onChange(phases.map((phase, i) => (i === index ? { ...phase, ...patch } : phase)));
+
+  const addPhase = () => {
+    const last = phases[phases.length - 1];
+    // Continue a taper from where the previous step ends
+    onChange([
+      ...phases,
+      last
+        ? { ...last, startDate: last.endDate || last.startDate, endDate: '', dosage: '' }
+        : newSchedulePhaseDraft(defaultStartDate),
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {phases.map((phase, index) => (
+        <div key={index} className="p-3 rounded-lg border border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-text-primary">Phase {index + 1}</span>
+            <button
+              type="button"
+              onClick={() => onChange(phases.filter((_, i) => i !== index))}
+              className="p-1.5 text-error hover:bg-error-light rounded-lg transition-colors"
+              title="Remove phase"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Starts"
+              type="date"
+              value={phase.startDate}
+              onChange={(e) => update(index, { startDate: e.target.value })}
+            />
+            <Input
+              label="Ends (not included, optional)"
+              type="date"
+              value={phase.endDate}
+              onChange={(e) => update(index, { endDate: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">Repeats</label>
+              <select
+                value={phase.pattern}
+                onChange={(e) => update(index, { pattern: e.target.value as PhasePattern })}
+                className={selectClassName}
+              >
+                {PATTERNS.map((pattern) => (
+                  <option key={pattern.value} value={pattern.value}>{pattern.label}</option>
+                ))}
+              </select>
+            </div>
+            {phase.pattern === 'HOURLY' && (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Every (hours)"
+                  type="number"
+                  value={phase.intervalHours}
+                  onChange={(e) => update(index, { intervalHours: e.target.value })}
+                />
+                <Input
+                  label="First dose"
+                  type="time"
+                  value={phase.startTime}
+                  onChange={(e) => update(index, { startTime: e.target.value })}
+                />
+              </div>
+            )}
+            {phase.pattern === 'CUSTOM' && (
+              <Input
+                label="RRULE"
+                value={phase.rule}
+                onChange={(e) => update(index, { rule: e.target.value })}
+                placeholder="e.g., FREQ=DAILY;INTERVAL=2"
+              />
+            )}
+          </div>
+
+          {phase.pattern === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1.5">
+              {WEEKDAYS.map((day) => {
+                const selected = phase.weekdays.includes(day.value);
+                return (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() =>
+                      update(index, {
+                        weekdays: selected
+                          ? phase.weekdays.filter((d) => d !== day.value)
+                          : WEEKDAYS.map((w) => w.value).filter((d) => d === day.value || phase.weekdays.includes(d)),
+                      })
+                    }
+                    className={cn(
+                      'px-2.5 py-1 rounded-lg border text-xs transition-colors',
+                      selected ? 'border-accent-primary bg-accent-primary-light text-text-primary' : 'border-border text-text-secondary',
+                    )}
+                  >
+                    {day.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {phase.pattern !== 'HOURLY' && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-text-primary">Times</label>
+              {phase.times.map((time, timeIndex) => (
+                <div key={timeIndex} className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) =>
+                      update(index, { times: phase.times.map((t, i) => (i === timeIndex ? e.target.value : t)) })
+                    }
+                    className="flex-1 px-4 py-2 rounded-lg border border-border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary"
+                  />
+                  {phase.times.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => update(index, { times: phase.times.filter((_, i) => i !== timeIndex) })}
+                      className="p-2 text-error hover:bg-error-light rounded-lg transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => update(index, { times: [...phase.times, '12:00'] })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Time
+              </Button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <Input
+              label="Dosage"
+              value={phase.dosage}
+              onChange={(e) => update(index, { dosage: e.target.value })}
+              placeholder="e.g., 20mg"
+            />
+            <Input
+              label="Units per dose"
+              type="number"
+              value={phase.doseQuantity}
+              onChange={(e) => update(index, { doseQuantity: e.target.value })}
+            />
+            <Input
+              label="Days on"
+              type="number"
+              value={phase.cycleDaysOn}
+              onChange={(e) => update(index, { cycleDaysOn: e.target.value })}
+              placeholder="e.g., 21"
+            />
+            <Input
+              label="Days off"
+              type="number"
+              value={phase.cycleDaysOff}
+              onChange={(e) => update(index, { cycleDaysOff: e.target.value })}
+              placeholder="e.g., 7"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="ghost" size="sm" onClick={addPhase}>
+        <Plus className="w-4 h-4 mr-1" />
+        {phases.length === 0 ? 'Add Phase' : 'Add Next Phase'}
+      </Button>
+    </div>
+  );
+}
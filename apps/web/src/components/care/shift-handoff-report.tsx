@@ -0,0 +1,143 @@
+'use client';
+
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, Circle, ClipboardList, Pill, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { HandoffDose, ShiftHandoff } from '@/lib/api';
+
+interface ShiftHandoffReportProps {
+  handoff: ShiftHandoff;
+  className?: string;
+}
+
+const doseTime = (dose: HandoffDose) => format(new Date(dose.givenTime || dose.scheduledTime), 'h:mm a');
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-text-tertiary uppercase tracking-wide mb-1.5">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * A handoff written at check-out: what happened during the shift, the
+ * outgoing caregiver's notes and the to-dos passed on to the next shift.
+ */
+export function ShiftHandoffReport({ handoff, className }: ShiftHandoffReportProps) {
+  const { summary } = handoff;
+  const doses = [
+    ...summary.medications.given,
+    ...summary.medications.missed,
+    ...summary.medications.skipped,
+  ].sort((a, b) => a.scheduledTime.localeCompare(b.scheduledTime));
+
+  return (
+    <div className={cn('space-y-4 text-sm', className)}>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <p className="text-xs text-text-secondary">
+          From <span className="font-medium text-text-primary">{handoff.author.fullName}</span> ·{' '}
+          {format(new Date(summary.from), 'MMM d, h:mm a')} – {format(new Date(summary.until), 'h:mm a')}
+        </p>
+        {handoff.acknowledgedAt ? (
+          <Badge variant="success" size="sm">
+            Received by {handoff.acknowledgedBy?.fullName || 'next caregiver'}
+          </Badge>
+        ) : (
+          <Badge variant="warning" size="sm">
+            Not yet received
+          </Badge>
+        )}
+      </div>
+
+      {summary.openAlerts.length > 0 && (
+        <div className="p-3 rounded-lg bg-red-50 border border-red-200 space-y-1">
+          {summary.openAlerts.map((alert) => (
+            <p key={alert.id} className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {alert.title}
+              <span className="text-xs">({alert.status.toLowerCase()})</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {handoff.notes && (
+        <Section title="Notes">
+          <p className="text-text-secondary whitespace-pre-wrap">{handoff.notes}</p>
+        </Section>
+      )}
+
+      {handoff.todos.length > 0 && (
+        <Section title="To-dos">
+          <ul className="space-y-1">
+            {handoff.todos.map((todo) => (
+              <li key={todo.id} className="flex items-start gap-2">
+                {todo.done ? (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 text-success shrink-0" />
+                ) : (
+                  <Circle className="w-4 h-4 mt-0.5 text-text-tertiary shrink-0" />
+                )}
+                <span className={cn('text-text-secondary', todo.done && 'line-through')}>{todo.text}</span>
+                {todo.carriedOver && !todo.done && (
+                  <Badge variant="outline" size="sm">
+                    Carried over
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      <Section title={`Medications (${summary.medications.given.length} given, ${summary.medications.missed.length} missed)`}>
+        {doses.length === 0 ? (
+          <p className="text-text-tertiary">No doses logged during this shift</p>
+        ) : (
+          <ul className="space-y-1">
+            {doses.map((dose, i) => (
+              <li key={`${dose.medicationId}-${dose.scheduledTime}-${i}`} className="flex items-center gap-2">
+                {dose.status === 'GIVEN' ? (
+                  <Pill className="w-4 h-4 text-success shrink-0" />
+                ) : (
+                  <XCircle
+                    className={cn('w-4 h-4 shrink-0', dose.status === 'MISSED' ? 'text-red-500' : 'text-text-tertiary')}
+                  />
+                )}
+                <span className="text-text-secondary">
+                  {dose.medicationName} {dose.dosage} · {doseTime(dose)}
+                  {dose.status !== 'GIVEN' && ` · ${dose.status.toLowerCase()}`}
+                  {dose.givenBy && ` · ${dose.givenBy}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title="Timeline">
+        {summary.timelineEntries.length === 0 ? (
+          <p className="text-text-tertiary">No timeline entries during this shift</p>
+        ) : (
+          <ul className="space-y-1">
+            {summary.timelineEntries.map((entry) => (
+              <li key={entry.id} className="flex items-center gap-2">
+                <ClipboardList className="w-4 h-4 text-text-tertiary shrink-0" />
+                <span className="text-text-secondary">
+                  {format(new Date(entry.occurredAt), 'h:mm a')} · {entry.title}
+                </span>
+                {(entry.severity === 'HIGH' || entry.severity === 'CRITICAL') && (
+                  <Badge variant="destructive" size="sm">
+                    {entry.severity.toLowerCase()}
+                  </Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </Section>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { shiftsApi } from '@/lib/api';
+import { ShiftHandoffReport } from './shift-handoff-report';
+
+interface ShiftHistoryCardProps {
+  careRecipientId: string;
+  className?: string;
+}
+
+/**
+ * Recently completed shifts; each expands to the handoff written at its end.
+ */
+export function ShiftHistoryCard({ careRecipientId, className }: ShiftHistoryCardProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: history = [] } = useQuery({
+    queryKey: ['shift-history', careRecipientId],
+    queryFn: () => shiftsApi.getHistory(careRecipientId),
+  });
+
+  if (history.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-accent-primary" />
+        <h3 className="text-base sm:text-lg font-semibold text-text-primary">Shift History</h3>
+      </div>
+
+      <div className="divide-y divide-border">
+        {history.map((shift) => {
+          const isOpen = expanded === shift.id;
+          const openTodos = shift.handoff?.todos.filter((todo) => !todo.done).length || 0;
+
+          return (
+            <div key={shift.id} className="py-2">
+              <button
+                type="button"
+                className="w-full flex items-center justify-between gap-3 text-left"
+                onClick={() => setExpanded(isOpen ? null : shift.id)}
+                disabled={!shift.handoff}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-text-primary">
+                    {shift.caregiver?.fullName || 'Unknown'}
+                  </p>
+                  <p className="text-xs text-text-secondary">
+                    {format(new Date(shift.startTime), 'EEE MMM d, h:mm a')} –{' '}
+                    {format(new Date(shift.endTime), 'h:mm a')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {!shift.handoff ? (
+                    <Badge variant="outline" size="sm">
+                      No handoff
+                    </Badge>
+                  ) : (
+                    <>
+                      {shift.handoff.summary.medications.missed.length > 0 && (
+                        <Badge variant="destructive" size="sm">
+                          {shift.handoff.summary.medications.missed.length} missed
+                        </Badge>
+                      )}
+                      {openTodos > 0 && (
+                        <Badge variant="info" size="sm">
+                          {openTodos} to-do{openTodos === 1 ? '' : 's'}
+                        </Badge>
+                      )}
+                      {isOpen ? (
+                        <ChevronDown className="w-4 h-4 text-text-tertiary" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-text-tertiary" />
+                      )}
+                    </>
+                  )}
+                </div>
+              </button>
+
+              {isOpen && shift.handoff && (
+                <ShiftHandoffReport handoff={shift.handoff} className="mt-3 pl-1" />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -33,6 +33,7 @@ export interface TimelineEntryData {
     bloodSugar?: number;
     weight?: number;
   };
+  vitalReadings?: { type: string; isOutOfRange: boolean }[];
   occurredAt: string;
   createdBy: {
     id: string;
@@ -73,6 +74,14 @@ export function TimelineEntry({ entry, className, onEdit, onDelete }: TimelineEn
   const config = typeConfig[entry.type] || typeConfig.OTHER;
   const Icon = config.icon;
   const severityInfo = entry.severity ? severityConfig[entry.severity] : null;
+  const outOfRange = new Set(
+    (entry.vitalReadings || []).filter((reading) => reading.isOutOfRange).map((reading) => reading.type),
+  );
+  const vitalClass = (type: string) =>
+    cn(
+      'text-xs px-2 py-1 rounded-md',
+      outOfRange.has(type) ? 'bg-destructive/10 text-destructive font-medium' : 'bg-bg-muted text-text-secondary',
+    );
 
   return (
     <div className={cn('flex gap-3', className)}>
@@ -138,27 +147,27 @@ export function TimelineEntry({ entry, className, onEdit, onDelete }: TimelineEn
         {entry.vitals && Object.keys(entry.vitals).length > 0 && (
           <div className="mt-2 flex flex-wrap gap-2">
             {entry.vitals.bloodPressure && (
-              <span className="text-xs px-2 py-1 bg-bg-muted rounded-md text-text-secondary">
+              <span className={vitalClass('BLOOD_PRESSURE')}>
                 BP: {entry.vitals.bloodPressure}
               </span>
             )}
             {entry.vitals.heartRate && (
-              <span className="text-xs px-2 py-1 bg-bg-muted rounded-md text-text-secondary">
+              <span className={vitalClass('HEART_RATE')}>
                 HR: {entry.vitals.heartRate} bpm
               </span>
             )}
             {entry.vitals.temperature && (
-              <span className="text-xs px-2 py-1 bg-bg-muted rounded-md text-text-secondary">
+              <span className={vitalClass('TEMPERATURE')}>
                 Temp: {entry.vitals.temperature}°F
               </span>
             )}
             {entry.vitals.oxygenLevel && (
-              <span className="text-xs px-2 py-1 bg-bg-muted rounded-md text-text-secondary">
+              <span className={vitalClass('OXYGEN_LEVEL')}>
                 O2: {entry.vitals.oxygenLevel}%
               </span>
             )}
             {entry.vitals.bloodSugar && (
-              <span className="text-xs px-2 py-1 bg-bg-muted rounded-md text-text-secondary">
+              <span className={vitalClass('BLOOD_SUGAR')}>
                 Sugar: {entry.vitals.bloodSugar} mg/dL
               </span>
             )}
@@ -0,0 +1,455 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subWeeks,
+} from 'date-fns';
+import { toast } from 'react-hot-toast';
+import {
+  Check,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  FileDown,
+  FileSpreadsheet,
+  Pencil,
+  Timer,
+  X,
+} from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import {
+  errorMessage,
+  timesheetsApi,
+  type ShiftTimeCorrection,
+  type TimesheetEntry,
+  type TimesheetQuery,
+} from '@/lib/api';
+
+interface TimesheetsCardProps {
+  careRecipientId: string;
+  currentUserId?: string;
+  isAdmin: boolean;
+  className?: string;
+}
+
+type PayPeriod = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+
+const PAY_PERIODS: { value: PayPeriod; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'biweekly', label: 'Every 2 weeks' },
+  { value: 'semimonthly', label: 'Twice a month' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+/**
+ * The pay period containing a date. Two-week periods end with that date's week.
+ */
+const periodFor = (period: PayPeriod, date: Date): { from: Date; to: Date } => {
+  switch (period) {
+    case 'weekly':
+      return { from: startOfWeek(date), to: endOfWeek(date) };
+    case 'biweekly':
+      return { from: startOfWeek(subWeeks(date, 1)), to: endOfWeek(date) };
+    case 'semimonthly':
+      return date.getDate() <= 15
+        ? { from: startOfMonth(date), to: new Date(date.getFullYear(), date.getMonth(), 15) }
+        : { from: new Date(date.getFullYear(), date.getMonth(), 16), to: endOfMonth(date) };
+    case 'monthly':
+      return { from: startOfMonth(date), to: endOfMonth(date) };
+  }
+};
+
+const toDateTimeInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+const formatHours = (hours: number) => `${hours.toFixed(2)} h`;
+
+/**
+ * Hours worked per caregiver for a pay period, from shift check-in and
+ * check-out times, with weekly overtime. Caregivers can ask for their times
+ * to be corrected; admins review corrections and export the timesheet.
+ */
+export function TimesheetsCard({ careRecipientId, currentUserId, isAdmin, className }: TimesheetsCardProps) {
+  const queryClient = useQueryClient();
+  const [payPeriod, setPayPeriod] = useState<PayPeriod>('biweekly');
+  const [anchor, setAnchor] = useState(new Date());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<'pdf' | 'csv' | null>(null);
+  const [correcting, setCorrecting] = useState<TimesheetEntry | null>(null);
+  const [correctionForm, setCorrectionForm] = useState({ checkedInAt: '', checkedOutAt: '', reason: '' });
+
+  const { from, to } = periodFor(payPeriod, anchor);
+  const query: TimesheetQuery = { from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') };
+
+  const { data: sheet, isLoading } = useQuery({
+    queryKey: ['timesheet', careRecipientId, query.from, query.to],
+    queryFn: () => timesheetsApi.get(careRecipientId, query),
+  });
+
+  const { data: pendingCorrections = [] } = useQuery({
+    queryKey: ['time-corrections', careRecipientId],
+    queryFn: () => timesheetsApi.getCorrections(careRecipientId, 'PENDING'),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['timesheet', careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ['time-corrections', careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ['shifts', careRecipientId] });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      timesheetsApi.requestCorrection(careRecipientId, {
+        shiftId: correcting!.shiftId,
+        checkedInAt: new Date(correctionForm.checkedInAt).toISOString(),
+        checkedOutAt: correctionForm.checkedOutAt
+          ? new Date(correctionForm.checkedOutAt).toISOString()
+          : undefined,
+        reason: correctionForm.reason.trim(),
+      }),
+    onSuccess: (correction) => {
+      toast.success(correction.status === 'APPROVED' ? 'Shift times corrected' : 'Correction sent for approval');
+      invalidate();
+      setCorrecting(null);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to request correction')),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ correction, approve }: { correction: ShiftTimeCorrection; approve: boolean }) =>
+      approve
+        ? timesheetsApi.approveCorrection(careRecipientId, correction.id)
+        : timesheetsApi.rejectCorrection(careRecipientId, correction.id),
+    onSuccess: (correction) => {
+      toast.success(correction.status === 'APPROVED' ? 'Correction approved' : 'Correction rejected');
+      invalidate();
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to review correction')),
+  });
+
+  const handleDownload = async (fileFormat: 'pdf' | 'csv') => {
+    setDownloading(fileFormat);
+    try {
+      const blob = await timesheetsApi.download(careRecipientId, query, fileFormat);
+      const blobUrl = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `timesheet-${query.from}-to-${query.to}.${fileFormat}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(blobUrl);
+    } catch (error) {
+      toast.error('Failed to download the timesheet');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const openCorrection = (entry: TimesheetEntry) => {
+    setCorrectionForm({
+      checkedInAt: toDateTimeInput(entry.checkedInAt),
+      checkedOutAt: entry.checkedOutAt ? toDateTimeInput(entry.checkedOutAt) : '',
+      reason: '',
+    });
+    setCorrecting(entry);
+  };
+
+  const caregivers = sheet?.caregivers || [];
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center justify-between gap-2 flex-wrap mb-4">
+        <div className="flex items-center gap-2">
+          <Timer className="w-5 h-5 text-accent-primary" />
+          <h3 className="text-base sm:text-lg font-semibold text-text-primary">Timesheets</h3>
+          {pendingCorrections.length > 0 && (
+            <Badge variant="warning" size="sm">
+              {pendingCorrections.length} pending
+            </Badge>
+          )}
+        </div>
+        <select
+          value={payPeriod}
+          onChange={(e) => setPayPeriod(e.target.value as PayPeriod)}
+          className="px-2 py-1.5 border border-border rounded-lg text-xs sm:text-sm bg-bg-surface"
+        >
+          {PAY_PERIODS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <button
+          type="button"
+          onClick={() => setAnchor(subDays(from, 1))}
+          className="p-1.5 rounded-lg hover:bg-bg-muted transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <p className="text-sm font-medium text-text-primary">
+          {format(from, 'MMM d')} – {format(to, 'MMM d, yyyy')}
+        </p>
+        <button
+          type="button"
+          onClick={() => setAnchor(addDays(to, 1))}
+          className="p-1.5 rounded-lg hover:bg-bg-muted transition-colors"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-text-secondary">Loading timesheet...</p>
+      ) : caregivers.length === 0 ? (
+        <p className="text-sm text-text-secondary">No shifts were checked in during this period.</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {caregivers.map((caregiver) => {
+            const isOpen = expanded === caregiver.caregiverId;
+            const canCorrect = isAdmin || caregiver.caregiverId === currentUserId;
+
+            return (
+              <div key={caregiver.caregiverId} className="py-2">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between gap-3 text-left"
+                  onClick={() => setExpanded(isOpen ? null : caregiver.caregiverId)}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-text-primary">{caregiver.fullName}</p>
+                    <p className="text-xs text-text-secondary">
+                      {caregiver.shiftCount} shift{caregiver.shiftCount === 1 ? '' : 's'} ·{' '}
+                      {formatHours(caregiver.totalHours)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {caregiver.overtimeHours > 0 && (
+                      <Badge variant="urgent" size="sm">
+                        {formatHours(caregiver.overtimeHours)} overtime
+                      </Badge>
+                    )}
+                    {caregiver.openShifts > 0 && (
+                      <Badge variant="info" size="sm">
+                        {caregiver.openShifts} open
+                      </Badge>
+                    )}
+                    {isOpen ? (
+                      <ChevronDown className="w-4 h-4 text-text-tertiary" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4 text-text-tertiary" />
+                    )}
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <ul className="mt-2 space-y-1.5">
+                    {caregiver.entries.map((entry) => (
+                      <li key={entry.shiftId} className="flex items-center justify-between gap-2 text-xs">
+                        <div className="min-w-0">
+                          <p className="text-text-primary">
+                            {format(parseISO(entry.date), 'EEE MMM d')} ·{' '}
+                            {format(new Date(entry.checkedInAt), 'h:mm a')} –{' '}
+                            {entry.checkedOutAt ? format(new Date(entry.checkedOutAt), 'h:mm a') : 'now'}
+                          </p>
+                          <p className="text-text-tertiary">
+                            Scheduled {format(new Date(entry.scheduledStart), 'h:mm a')} –{' '}
+                            {format(new Date(entry.scheduledEnd), 'h:mm a')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1.5 shrink-0">
+                          {entry.flags.includes('CORRECTED') && (
+                            <Badge variant="outline" size="sm">
+                              Corrected
+                            </Badge>
+                          )}
+                          {entry.flags.includes('PENDING_CORRECTION') && (
+                            <Badge variant="warning" size="sm">
+                              Correction pending
+                            </Badge>
+                          )}
+                          <span
+                            className={cn(
+                              'font-medium',
+                              entry.overtimeHours > 0 ? 'text-amber-600' : 'text-text-primary'
+                            )}
+                          >
+                            {entry.checkedOutAt ? formatHours(entry.hours) : 'Open'}
+                          </span>
+                          {canCorrect && !entry.flags.includes('PENDING_CORRECTION') && (
+                            <button
+                              type="button"
+                              title="Correct times"
+                              onClick={() => openCorrection(entry)}
+                              className="p-1 rounded hover:bg-bg-muted text-text-tertiary"
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                    <li className="pt-1 text-xs text-text-secondary">
+                      Regular {formatHours(caregiver.regularHours)} · Overtime{' '}
+                      {formatHours(caregiver.overtimeHours)}
+                    </li>
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {sheet && caregivers.length > 0 && (
+        <p className="mt-3 text-xs text-text-tertiary">
+          Overtime after {sheet.overtimeThresholdHours} h in a week (Sunday to Saturday)
+        </p>
+      )}
+
+      {pendingCorrections.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-border">
+          <p className="text-xs font-medium text-text-tertiary uppercase tracking-wide mb-2">
+            Corrections awaiting approval
+          </p>
+          <div className="space-y-2">
+            {pendingCorrections.map((correction) => (
+              <div key={correction.id} className="flex items-start justify-between gap-3 text-xs">
+                <div className="min-w-0">
+                  <p className="text-text-primary">
+                    {correction.shift.caregiver.fullName} ·{' '}
+                    {format(new Date(correction.checkedInAt), 'EEE MMM d, h:mm a')} –{' '}
+                    {correction.checkedOutAt ? format(new Date(correction.checkedOutAt), 'h:mm a') : 'open'}
+                  </p>
+                  <p className="text-text-tertiary">
+                    Was{' '}
+                    {correction.originalCheckedInAt
+                      ? format(new Date(correction.originalCheckedInAt), 'h:mm a')
+                      : '—'}{' '}
+                    –{' '}
+                    {correction.originalCheckedOutAt
+                      ? format(new Date(correction.originalCheckedOutAt), 'h:mm a')
+                      : 'open'}{' '}
+                    · {correction.reason}
+                  </p>
+                </div>
+                {isAdmin && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ correction, approve: true })}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ correction, approve: false })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="mt-4 flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<FileDown className="w-4 h-4" />}
+            disabled={downloading !== null}
+            onClick={() => handleDownload('pdf')}
+          >
+            PDF
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<FileSpreadsheet className="w-4 h-4" />}
+            disabled={downloading !== null}
+            onClick={() => handleDownload('csv')}
+          >
+            CSV
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!correcting} onOpenChange={() => setCorrecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Correct Shift Times</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              {isAdmin
+                ? 'The corrected times replace the recorded ones straight away.'
+                : 'An admin will review the corrected times before they replace the recorded ones.'}
+            </p>
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">Checked in</label>
+              <Input
+                type="datetime-local"
+                value={correctionForm.checkedInAt}
+                onChange={(e) => setCorrectionForm((prev) => ({ ...prev, checkedInAt: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">Checked out</label>
+              <Input
+                type="datetime-local"
+                value={correctionForm.checkedOutAt}
+                onChange={(e) => setCorrectionForm((prev) => ({ ...prev, checkedOutAt: e.target.value }))}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-text-primary mb-2 block">Reason</label>
+              <Textarea
+                value={correctionForm.reason}
+                onChange={(e) => setCorrectionForm((prev) => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Forgot to check out when I left"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setCorrecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() => requestMutation.mutate()}
+              disabled={!correctionForm.checkedInAt || !correctionForm.reason.trim() || requestMutation.isPending}
+            >
+              {requestMutation.isPending ? 'Saving...' : isAdmin ? 'Save Times' : 'Request Correction'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { Gauge, RotateCcw } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useUpdateVitalRange, useVitalRanges } from '@/hooks/use-timeline';
+import type { VitalRange, VitalType } from '@/lib/api';
+
+interface VitalRangesCardProps {
+  careRecipientId: string;
+  canEdit: boolean;
+  className?: string;
+}
+
+export const VITAL_LABELS: Record<VitalType, string> = {
+  BLOOD_PRESSURE: 'Blood pressure',
+  HEART_RATE: 'Heart rate',
+  TEMPERATURE: 'Temperature',
+  BLOOD_SUGAR: 'Blood sugar',
+  OXYGEN_LEVEL: 'Oxygen level',
+  WEIGHT: 'Weight',
+};
+
+const formatBounds = (min: number | null, max: number | null) => {
+  if (min !== null && max !== null) return `${min}–${max}`;
+  if (min !== null) return `≥ ${min}`;
+  if (max !== null) return `≤ ${max}`;
+  return 'Not set';
+};
+
+const toInput = (value: number | null) => (value === null ? '' : String(value));
+const fromInput = (value: string) => (value.trim() === '' ? null : Number(value));
+
+/**
+ * Target ranges for each vital. Readings outside them are flagged and the
+ * family is alerted when they are logged.
+ */
+export function VitalRangesCard({ careRecipientId, canEdit, className }: VitalRangesCardProps) {
+  const { data: ranges, isLoading } = useVitalRanges(careRecipientId);
+  const updateRange = useUpdateVitalRange(careRecipientId);
+  const [editing, setEditing] = useState<VitalType | null>(null);
+  const [form, setForm] = useState({ min: '', max: '', secondaryMin: '', secondaryMax: '' });
+
+  const startEditing = (range: VitalRange) => {
+    setEditing(range.type);
+    setForm({
+      min: toInput(range.min),
+      max: toInput(range.max),
+      secondaryMin: toInput(range.secondaryMin),
+      secondaryMax: toInput(range.secondaryMax),
+    });
+  };
+
+  const save = (type: VitalType) => {
+    updateRange.mutate(
+      {
+        type,
+        data: {
+          min: fromInput(form.min),
+          max: fromInput(form.max),
+          secondaryMin: type === 'BLOOD_PRESSURE' ? fromInput(form.secondaryMin) : null,
+          secondaryMax: type === 'BLOOD_PRESSURE' ? fromInput(form.secondaryMax) : null,
+        },
+      },
+      { onSuccess: () => setEditing(null) },
+    );
+  };
+
+  const boundsInput = (key: keyof typeof form, placeholder: string) => (
+    <input
+      type="number"
+      step="any"
+      value={form[key]}
+      onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      placeholder={placeholder}
+      className="w-16 px-2 py-1 border border-border rounded-lg text-xs bg-bg-surface"
+    />
+  );
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <Gauge className="w-5 h-5 text-sage-700" />
+        <h2 className="text-lg font-semibold text-ink">Vital Target Ranges</h2>
+      </div>
+
+      {isLoading || !ranges ? (
+        <p className="text-sage-400 text-sm">Loading ranges…</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {ranges.map((range) => (
+            <div key={range.type} className="flex items-center justify-between gap-3 py-2 flex-wrap">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-ink text-sm">{VITAL_LABELS[range.type]}</span>
+                {range.isDefault && range.type !== 'WEIGHT' && (
+                  <Badge variant="secondary" size="sm">Default</Badge>
+                )}
+              </div>
+
+              {editing === range.type ? (
+                <div className="flex items-center gap-1.5 flex-wrap text-xs text-text-secondary">
+                  {boundsInput('min', 'Min')}–{boundsInput('max', 'Max')}
+                  {range.type === 'BLOOD_PRESSURE' && (
+                    <>
+                      <span className="mx-1">/</span>
+                      {boundsInput('secondaryMin', 'Min')}–{boundsInput('secondaryMax', 'Max')}
+                    </>
+                  )}
+                  <span>{range.unit}</span>
+                  <Button size="sm" onClick={() => save(range.type)} disabled={updateRange.isPending}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-text-secondary">
+                  <span>
+                    {formatBounds(range.min, range.max)}
+                    {range.type === 'BLOOD_PRESSURE' && ` / ${formatBounds(range.secondaryMin, range.secondaryMax)}`}{' '}
+                    {range.unit}
+                  </span>
+                  {canEdit && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => startEditing(range)}>
+                        Edit
+                      </Button>
+                      {!range.isDefault && (
+                        <button
+                          onClick={() => updateRange.mutate({ type: range.type, data: null })}
+                          disabled={updateRange.isPending}
+                          className="p-1 rounded-lg text-text-tertiary hover:text-text-primary"
+                          title="Reset to default"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
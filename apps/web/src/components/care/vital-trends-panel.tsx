@@ -0,0 +1,272 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { Activity, Minus, TrendingDown, TrendingUp } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useVitalTrends } from '@/hooks/use-timeline';
+import { VITAL_LABELS } from './vital-ranges-card';
+import type { VitalTrendDirection, VitalTrendSeries, VitalType } from '@/lib/api';
+
+interface VitalTrendsPanelProps {
+  careRecipientId: string;
+  className?: string;
+}
+
+const TREND_RANGES = [30, 90, 180] as const;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+
+const TREND_LABELS: Record<VitalTrendDirection, string> = {
+  rising: 'Rising',
+  falling: 'Falling',
+  stable: 'Stable',
+  insufficient_data: 'Not enough data',
+};
+
+const TrendIcon = ({ trend }: { trend: VitalTrendDirection }) => {
+  if (trend === 'rising') return <TrendingUp className="w-3.5 h-3.5" />;
+  if (trend === 'falling') return <TrendingDown className="w-3.5 h-3.5" />;
+  return <Minus className="w-3.5 h-3.5" />;
+};
+
+const unitSuffix = (unit: string) => (unit === '%' ? '%' : ` ${unit}`);
+
+/**
+ * Daily readings, 7-day rolling average and target band for each vital, so
+ * drift over weeks is visible at a glance.
+ */
+export function VitalTrendsPanel({ careRecipientId, className }: VitalTrendsPanelProps) {
+  const [days, setDays] = useState<(typeof TREND_RANGES)[number]>(30);
+  const [selected, setSelected] = useState<VitalType | null>(null);
+  const range = { from: subDays(new Date(), days - 1).toISOString().split('T')[0] };
+  const { data: trends, isLoading } = useVitalTrends(careRecipientId, range);
+
+  const withData = trends?.series.filter((series) => series.summary.count > 0) || [];
+  const series = withData.find((s) => s.type === selected) || withData[0];
+
+  return (
+    <Card className={cn('p-6', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-sage-700" />
+          <h2 className="text-lg font-semibold text-ink">Vital Trends</h2>
+        </div>
+        <div className="flex gap-1">
+          {TREND_RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={cn(
+                'text-xs px-2 py-0.5 rounded-md transition-colors',
+                days === option ? 'bg-primary/15 text-primary font-medium' : 'text-muted-foreground hover:bg-sage-100',
+              )}
+            >
+              {option}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full rounded-xl" />
+      ) : !series ? (
+        <p className="text-sage-400 text-sm">No vitals logged in the last {days} days</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1 mb-4">
+            {withData.map((s) => (
+              <button
+                key={s.type}
+                onClick={() => setSelected(s.type)}
+                className={cn(
+                  'text-xs px-2.5 py-1 rounded-full border transition-colors',
+                  s.type === series.type
+                    ? 'border-sage-700 bg-sage-700 text-white'
+                    : 'border-border text-text-secondary hover:bg-sage-50',
+                )}
+              >
+                {VITAL_LABELS[s.type]}
+              </button>
+            ))}
+          </div>
+
+          <TrendSummary series={series} />
+          <TrendChart series={series} />
+        </>
+      )}
+    </Card>
+  );
+}
+
+function TrendSummary({ series }: { series: VitalTrendSeries }) {
+  const { summary, unit } = series;
+  const suffix = unitSuffix(unit);
+  const isBloodPressure = series.type === 'BLOOD_PRESSURE';
+
+  return (
+    <div className="flex flex-wrap items-end gap-x-6 gap-y-2 mb-4">
+      {summary.latest && (
+        <div>
+          <p className="font-serif text-3xl text-ink">
+            {summary.latest.value}
+            {isBloodPressure && summary.latest.secondaryValue !== null && `/${summary.latest.secondaryValue}`}
+            <span className="text-base text-warm-gray">{suffix}</span>
+          </p>
+          <p className="text-xs text-sage-400">
+            Latest · {format(new Date(summary.latest.measuredAt), 'MMM d, h:mm a')}
+          </p>
+        </div>
+      )}
+      <div className="text-xs text-warm-gray space-y-1 pb-1">
+        <p>
+          Avg {summary.avg}
+          {suffix} · Low {summary.min} · High {summary.max} · {summary.count} readings
+        </p>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant={summary.trend === 'stable' || summary.trend === 'insufficient_data' ? 'secondary' : 'warning'} size="sm">
+            <span className="flex items-center gap-1">
+              <TrendIcon trend={summary.trend} />
+              {isBloodPressure ? 'Systolic ' : ''}
+              {TREND_LABELS[summary.trend].toLowerCase()}
+              {summary.changePerWeek !== null && summary.trend !== 'stable' && (
+                <> ({summary.changePerWeek > 0 ? '+' : ''}{summary.changePerWeek}{suffix}/wk)</>
+              )}
+            </span>
+          </Badge>
+          {isBloodPressure && summary.secondaryTrend && (
+            <Badge variant={summary.secondaryTrend === 'rising' || summary.secondaryTrend === 'falling' ? 'warning' : 'secondary'} size="sm">
+              <span className="flex items-center gap-1">
+                <TrendIcon trend={summary.secondaryTrend} />
+                Diastolic {TREND_LABELS[summary.secondaryTrend].toLowerCase()}
+              </span>
+            </Badge>
+          )}
+          {summary.outOfRangeCount > 0 && (
+            <Badge variant="urgent" size="sm">
+              {summary.outOfRangeCount} out of range
+            </Badge>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TrendChart({ series }: { series: VitalTrendSeries }) {
+  const { days, range } = series;
+  const isBloodPressure = series.type === 'BLOOD_PRESSURE';
+
+  const values = days.flatMap((day) => [
+    day.value?.min,
+    day.value?.max,
+    ...(isBloodPressure ? [day.secondaryValue?.min, day.secondaryValue?.max] : []),
+  ]).filter((v): v is number => v !== undefined);
+
+  // Keep the target band in view unless it is far from the readings
+  const bounds = [range.min, range.max, ...(isBloodPressure ? [range.secondaryMin, range.secondaryMax] : [])]
+    .filter((v): v is number => v !== null);
+  const dataMin = Math.min(...values);
+  const dataMax = Math.max(...values);
+  const span = Math.max(dataMax - dataMin, 1);
+  const nearby = bounds.filter((b) => b >= dataMin - span && b <= dataMax + span);
+  const yMin = Math.min(dataMin, ...nearby);
+  const yMax = Math.max(dataMax, ...nearby);
+  const pad = (yMax - yMin || 1) * 0.1;
+
+  const x = (index: number) =>
+    CHART_PADDING + (days.length > 1 ? (index / (days.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2) : (CHART_WIDTH - CHART_PADDING * 2) / 2);
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - ((value - (yMin - pad)) / (yMax - yMin + pad * 2)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  const band = (min: number | null, max: number | null) => {
+    if (min === null && max === null) return null;
+    const top = y(Math.min(max ?? yMax + pad, yMax + pad));
+    const bottom = y(Math.max(min ?? yMin - pad, yMin - pad));
+    return bottom > top ? { y: top, height: bottom - top } : null;
+  };
+
+  const line = (pick: (index: number) => number | null) =>
+    days
+      .map((_, index) => pick(index))
+      .map((value, index) => (value === null ? null : `${x(index)},${y(value)}`))
+      .filter(Boolean)
+      .join(' ');
+
+  const primaryBand = band(range.min, range.max);
+  const secondaryBand = isBloodPressure ? band(range.secondaryMin, range.secondaryMax) : null;
+
+  const lines = [
+    { key: 'primary', color: '#3F6B4F', stats: (i: number) => days[i].value, rolling: (i: number) => days[i].rollingAvg },
+    ...(isBloodPressure
+      ? [{ key: 'secondary', color: '#B7791F', stats: (i: number) => days[i].secondaryValue, rolling: (i: number) => days[i].secondaryRollingAvg }]
+      : []),
+  ];
+
+  const middle = days[Math.floor(days.length / 2)];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`${VITAL_LABELS[series.type]} trend`}
+      >
+        {primaryBand && <rect x={0} width={CHART_WIDTH} {...primaryBand} fill="#3F6B4F" opacity={0.08} />}
+        {secondaryBand && <rect x={0} width={CHART_WIDTH} {...secondaryBand} fill="#B7791F" opacity={0.08} />}
+
+        {lines.map(({ key, color, stats, rolling }) => (
+          <g key={key}>
+            {days.map((day, index) => {
+              const dayStats = stats(index);
+              if (!dayStats) return null;
+              return (
+                <g key={day.date}>
+                  <title>
+                    {`${format(parseISO(day.date), 'MMM d')}: avg ${dayStats.avg} (${dayStats.min}–${dayStats.max}), ${day.count} reading${day.count === 1 ? '' : 's'}`}
+                  </title>
+                  {dayStats.max > dayStats.min && (
+                    <line
+                      x1={x(index)}
+                      x2={x(index)}
+                      y1={y(dayStats.min)}
+                      y2={y(dayStats.max)}
+                      stroke={color}
+                      strokeOpacity={0.35}
+                      strokeWidth={3}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  )}
+                  <circle cx={x(index)} cy={y(dayStats.avg)} r={2.5} fill={color} />
+                </g>
+              );
+            })}
+            <polyline
+              points={line(rolling)}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex justify-between text-[10px] text-sage-400 mt-1">
+        <span>{format(parseISO(days[0].date), 'MMM d')}</span>
+        {middle && <span>{format(parseISO(middle.date), 'MMM d')}</span>}
+        <span>{format(parseISO(days[days.length - 1].date), 'MMM d')}</span>
+      </div>
+      <p className="text-[10px] text-sage-400 mt-1">
+        Dots show daily averages, bars the daily low–high, the line the 7-day average; the shaded band is the target range
+        {isBloodPressure && ' (green systolic, amber diastolic)'}.
+      </p>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, memo } from 'react';
-import { Pill, Plus, Clock, AlertCircle, CheckCircle2, ChevronRight, RefreshCw } from 'lucide-react';
+import { Pill, Plus, Clock, AlertCircle, CheckCircle2, ChevronRight, RefreshCw, TrendingUp, Flame } from 'lucide-react';
+import { format, parseISO, subDays } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -12,7 +13,13 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { toast } from 'react-hot-toast';
-import { useMedications, useTodaysMedications, useCreateMedication, useLogMedication } from '@/hooks/use-medications';
+import {
+  useMedications,
+  useTodaysMedications,
+  useCreateMedication,
+  useLogMedication,
+  useMedicationAdherence,
+} from '@/hooks/use-medications';
 import { Skeleton } from '@/components/ui/skeleton';
 
 // ─── Format helpers ──────────────────────────────────────────────────────────
@@ -254,7 +261,7 @@ export const MedicationTracker = memo(function MedicationTracker({ careRecipient
                     </span>
                     <span className="text-xs text-muted-foreground flex items-center gap-1">
                       <Clock className="w-3 h-3" />
-                      {item.time}
+                      {item.asNeeded ? 'As needed' : item.time}
                     </span>
                     <span className="text-xs text-muted-foreground hidden sm:inline">
                       {formatFrequency(item.medication.frequency)}
@@ -267,7 +274,10 @@ export const MedicationTracker = memo(function MedicationTracker({ careRecipient
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handleMarkTaken(item.medication.id, item.scheduledTime)}
+                    onClick={() =>
+                      // As-needed doses are logged against the time they're given
+                      handleMarkTaken(item.medication.id, item.asNeeded ? new Date().toISOString() : item.scheduledTime)
+                    }
                     disabled={logMedication.isPending}
                     className="shrink-0 rounded-xl border-sage-300 text-primary hover:bg-primary/10 hover:text-primary hover:border-primary/30 text-xs font-medium"
                   >
@@ -326,6 +336,9 @@ export const MedicationTracker = memo(function MedicationTracker({ careRecipient
         )}
       </div>
 
+      {/* Adherence */}
+      <AdherenceSummary careRecipientId={careRecipientId} />
+
       {/* Footer link */}
       <button className="w-full mt-4 pt-4 border-t border-sage-200/60 flex items-center justify-center gap-2 text-sm font-medium text-primary hover:text-primary/80 transition-colors">
         View Full Medication List
@@ -335,6 +348,137 @@ export const MedicationTracker = memo(function MedicationTracker({ careRecipient
   );
 });
 
+// ─── Adherence chart ─────────────────────────────────────────────────────────
+const ADHERENCE_RANGES = [7, 30, 90] as const;
+
+function adherenceColor(percent: number | null): string {
+  if (percent === null) return 'bg-sage-200';
+  if (percent >= 90) return 'bg-primary';
+  if (percent >= 70) return 'bg-amber-400';
+  return 'bg-red-400';
+}
+
+function AdherenceSummary({ careRecipientId }: { careRecipientId: string }) {
+  const [days, setDays] = useState<(typeof ADHERENCE_RANGES)[number]>(30);
+  const range = { from: subDays(new Date(), days).toISOString().split('T')[0] };
+  const { data: report, isLoading } = useMedicationAdherence(careRecipientId, range);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full rounded-xl mt-4" />;
+  }
+
+  if (!report || report.overall.scheduled === 0) {
+    return null;
+  }
+
+  const { overall } = report;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-sage-200/60">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-primary" />
+          Adherence
+        </h3>
+        <div className="flex gap-1">
+          {ADHERENCE_RANGES.map((option) => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={`text-xs px-2 py-0.5 rounded-md transition-colors ${
+                days === option ? 'bg-primary/15 text-primary font-medium' : 'text-muted-foreground hover:bg-sage-100'
+              }`}
+            >
+              {option}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Headline numbers */}
+      <div className="flex items-end gap-4 mb-3">
+        <p className="font-serif text-3xl text-foreground">
+          {overall.adherencePercent ?? '—'}
+          <span className="text-base text-muted-foreground">%</span>
+        </p>
+        <div className="text-xs text-muted-foreground pb-1 space-y-0.5">
+          <p>
+            {overall.given} of {overall.scheduled} doses given · {overall.missed} missed · {overall.skipped} skipped
+          </p>
+          <p className="flex items-center gap-1">
+            <Flame className="w-3 h-3 text-amber-500" />
+            {overall.streaks.current}-day streak (best {overall.streaks.longest})
+          </p>
+        </div>
+      </div>
+
+      {/* Daily bars */}
+      <div className="flex items-end gap-px h-16 mb-3" aria-label="Daily adherence">
+        {report.daily.map((day) => (
+          <div
+            key={day.date}
+            title={`${format(parseISO(day.date), 'MMM d')}: ${day.adherencePercent ?? 0}% (${day.given}/${day.scheduled})`}
+            className="flex-1 h-full flex items-end bg-sage-100/60 rounded-sm"
+          >
+            <div
+              className={`w-full rounded-sm ${adherenceColor(day.adherencePercent)}`}
+              style={{ height: `${Math.max(day.adherencePercent ?? 0, 4)}%` }}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Per medication */}
+      <div className="space-y-1.5 mb-3">
+        {report.medications
+          .filter((med) => med.scheduled > 0)
+          .map((med) => (
+            <div key={med.medicationId} className="flex items-center gap-2 text-xs">
+              <span className="w-28 truncate text-foreground">{med.name}</span>
+              <div className="flex-1 h-1.5 rounded-full bg-sage-100 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${adherenceColor(med.adherencePercent)}`}
+                  style={{ width: `${med.adherencePercent ?? 0}%` }}
+                />
+              </div>
+              <span className="w-10 text-right text-muted-foreground">{med.adherencePercent ?? '—'}%</span>
+            </div>
+          ))}
+      </div>
+
+      {/* Most missed slots & caregivers */}
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        {report.mostMissedTimeSlots.length > 0 && (
+          <div>
+            <p className="text-muted-foreground uppercase tracking-wider mb-1 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              Most missed
+            </p>
+            {report.mostMissedTimeSlots.slice(0, 3).map((slot) => (
+              <p key={slot.time} className="text-foreground">
+                {slot.time} <span className="text-muted-foreground">· {slot.missed}/{slot.scheduled} missed</span>
+              </p>
+            ))}
+          </div>
+        )}
+        {report.caregivers.length > 0 && (
+          <div>
+            <p className="text-muted-foreground uppercase tracking-wider mb-1">Logged by</p>
+            {report.caregivers.slice(0, 3).map((caregiver) => (
+              <p key={caregiver.userId} className="text-foreground truncate">
+                {caregiver.fullName}{' '}
+                <span className="text-muted-foreground">
+                  · {caregiver.given} given{caregiver.skipped > 0 && `, ${caregiver.skipped} skipped`}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ─── Dialog form component ───────────────────────────────────────────────────
 function MedicationFormDialog({
   newMed,
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Plus, X, Clock, AlertCircle } from 'lucide-react';
 import { Modal } from '@/components/ui/modal';
@@ -8,6 +8,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { api } from '@/lib/api/client';
 import { cn } from '@/lib/utils';
+import { NewMedicationSafetyCheck } from '@/components/care/medication-interactions';
+import {
+  SchedulePhasesEditor,
+  fromSchedulePhaseDraft,
+  newSchedulePhaseDraft,
+  validateSchedulePhaseDrafts,
+  type SchedulePhaseDraft,
+} from '@/components/care/schedule-phases-editor';
 import toast from 'react-hot-toast';
 import {
   MEDICATION_FREQUENCY_OPTIONS as FREQUENCIES,
@@ -99,6 +107,22 @@ function validateMedication(data: Record<string, unknown>): FieldErrors {
     }
   }
 
+  // PRN safeguards
+  if (data.prnMinIntervalHours !== undefined && Number(data.prnMinIntervalHours) <= 0) {
+    errors.prnMinIntervalHours = 'Minimum hours between doses must be greater than 0';
+  }
+
+  if (data.prnMaxDosesPer24h !== undefined) {
+    const maxDoses = Number(data.prnMaxDosesPer24h);
+    if (maxDoses < 1 || !Number.isInteger(maxDoses)) {
+      errors.prnMaxDosesPer24h = 'Max doses per 24h must be a whole number (1 or more)';
+    }
+  }
+
+  if (data.prnMaxMgPer24h !== undefined && Number(data.prnMaxMgPer24h) <= 0) {
+    errors.prnMaxMgPer24h = 'Max mg per 24h must be greater than 0';
+  }
+
   // Date validation
   if (data.startDate && typeof data.startDate === 'string') {
     if (!/^\d{4}-\d{2}-\d{2}$/.test(data.startDate)) {
@@ -180,8 +204,20 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
     refillAt: '15',
     startDate: new Date().toISOString().split('T')[0],
     endDate: '',
+    prnMinIntervalHours: '',
+    prnMaxDosesPer24h: '',
+    prnMaxMgPer24h: '',
   });
+  const [usePhases, setUsePhases] = useState(false);
+  const [phases, setPhases] = useState<SchedulePhaseDraft[]>([]);
   const [errors, setErrors] = useState<FieldErrors>({});
+  const [hasSafetyConflicts, setHasSafetyConflicts] = useState(false);
+  const [safetyAcknowledged, setSafetyAcknowledged] = useState(false);
+
+  const handleSafetyChange = useCallback((hasCritical: boolean) => {
+    setHasSafetyConflicts(hasCritical);
+    setSafetyAcknowledged(false);
+  }, []);
 
   const clearFieldError = (field: string) => {
     if (errors[field]) {
@@ -233,8 +269,14 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
       refillAt: '15',
       startDate: new Date().toISOString().split('T')[0],
       endDate: '',
+      prnMinIntervalHours: '',
+      prnMaxDosesPer24h: '',
+      prnMaxMgPer24h: '',
     });
+    setUsePhases(false);
+    setPhases([]);
     setErrors({});
+    setSafetyAcknowledged(false);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -253,7 +295,9 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
       frequency: normalizedFreq,
     };
 
-    if (formData.scheduledTimes.length > 0) {
+    if (usePhases && normalizedFreq !== 'AS_NEEDED') {
+      payload.schedulePhases = phases.map(fromSchedulePhaseDraft);
+    } else if (formData.scheduledTimes.length > 0) {
       payload.scheduledTimes = formData.scheduledTimes;
     }
     if (formData.instructions.trim()) {
@@ -273,6 +317,20 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
       const parsed = parseInt(formData.refillAt, 10);
       if (!isNaN(parsed)) payload.refillAt = parsed;
     }
+    if (normalizedFreq === 'AS_NEEDED') {
+      if (formData.prnMinIntervalHours.trim()) {
+        const parsed = parseFloat(formData.prnMinIntervalHours);
+        if (!isNaN(parsed)) payload.prnMinIntervalHours = parsed;
+      }
+      if (formData.prnMaxDosesPer24h.trim()) {
+        const parsed = parseInt(formData.prnMaxDosesPer24h, 10);
+        if (!isNaN(parsed)) payload.prnMaxDosesPer24h = parsed;
+      }
+      if (formData.prnMaxMgPer24h.trim()) {
+        const parsed = parseFloat(formData.prnMaxMgPer24h);
+        if (!isNaN(parsed)) payload.prnMaxMgPer24h = parsed;
+      }
+    }
     if (formData.startDate) {
       payload.startDate = formData.startDate;
     }
@@ -282,6 +340,12 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
 
     // Run client-side validation
     const validationErrors = validateMedication(payload);
+    if (payload.schedulePhases) {
+      const phaseErrors = phases.length === 0 ? ['Add at least one phase'] : validateSchedulePhaseDrafts(phases);
+      if (phaseErrors.length > 0) {
+        validationErrors.schedulePhases = phaseErrors.join('; ');
+      }
+    }
     if (Object.keys(validationErrors).length > 0) {
       setErrors(validationErrors);
       // Show toast with all validation errors
@@ -293,6 +357,13 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
       return;
     }
 
+    // Allergy/condition conflicts and major interactions need an explicit acknowledgement
+    if (hasSafetyConflicts && !safetyAcknowledged) {
+      setErrors({ safety: 'Review the safety warnings and confirm before adding this medication' });
+      toast.error('Please review and acknowledge the safety warnings first');
+      return;
+    }
+
     setErrors({});
     mutation.mutate(payload);
   };
@@ -358,6 +429,25 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
           </div>
         </div>
 
+        {/* Interactions, allergies & conditions */}
+        <NewMedicationSafetyCheck
+          careRecipientId={careRecipientId}
+          medicationName={formData.name}
+          onCriticalChange={handleSafetyChange}
+        />
+        {hasSafetyConflicts && (
+          <label className="flex items-start gap-2 text-sm text-text-primary">
+            <input
+              type="checkbox"
+              checked={safetyAcknowledged}
+              onChange={(e) => { setSafetyAcknowledged(e.target.checked); clearFieldError('safety'); }}
+              className="mt-0.5"
+            />
+            I have reviewed these warnings and confirmed with the prescriber that this medication is appropriate.
+          </label>
+        )}
+        {errors.safety && <p className="text-xs text-red-600">{errors.safety}</p>}
+
         {/* Form */}
         <div>
           <label className="block text-sm font-medium text-text-primary mb-2">
@@ -412,42 +502,114 @@ export function AddMedicationModal({ isOpen, onClose, careRecipientId }: Props)
           {errors.frequency && <p className="mt-1 text-xs text-red-600">{errors.frequency}</p>}
         </div>
 
+        {/* Dosing phases (tapers, every N hours, on/off cycles) */}
+        {formData.frequency !== 'AS_NEEDED' && (
+          <div className="space-y-3">
+            <label className="flex items-start gap-2 text-sm text-text-primary">
+              <input
+                type="checkbox"
+                checked={usePhases}
+                onChange={(e) => {
+                  setUsePhases(e.target.checked);
+                  if (e.target.checked && phases.length === 0) {
+                    setPhases([newSchedulePhaseDraft(formData.startDate, formData.scheduledTimes)]);
+                  }
+                  clearFieldError('schedulePhases');
+                }}
+                className="mt-0.5"
+              />
+              Changes over time or isn&apos;t daily (taper, every few hours, on/off cycle)
+            </label>
+            {usePhases && (
+              <SchedulePhasesEditor
+                phases={phases}
+                onChange={(next) => { setPhases(next); clearFieldError('schedulePhases'); }}
+                defaultStartDate={formData.startDate}
+              />
+            )}
+            {errors.schedulePhases && <p className="text-xs text-red-600">{errors.schedulePhases}</p>}
+          </div>
+        )}
+
         {/* Scheduled Times */}
-        <div>
-          <label className="block text-sm font-medium text-text-primary mb-2">
-            <Clock className="w-4 h-4 inline mr-1" />
-            Scheduled Times
-          </label>
-          <div className="space-y-2">
-            {formData.scheduledTimes.map((time, index) => (
-              <div key={index} className="flex items-center gap-2">
-                <input
-                  type="time"
-                  value={time}
-                  onChange={(e) => updateTime(index, e.target.value)}
-                  className={cn(
-                    'flex-1 px-4 py-2 rounded-lg border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary',
-                    errors.scheduledTimes ? 'border-red-400' : 'border-border',
+        {!(usePhases && formData.frequency !== 'AS_NEEDED') && (
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Scheduled Times
+            </label>
+            <div className="space-y-2">
+              {formData.scheduledTimes.map((time, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => updateTime(index, e.target.value)}
+                    className={cn(
+                      'flex-1 px-4 py-2 rounded-lg border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary',
+                      errors.scheduledTimes ? 'border-red-400' : 'border-border',
+                    )}
+                  />
+                  {formData.scheduledTimes.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeTime(index)}
+                      className="p-2 text-error hover:bg-error-light rounded-lg transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
                   )}
+                </div>
+              ))}
+              {errors.scheduledTimes && <p className="text-xs text-red-600">{errors.scheduledTimes}</p>}
+              <Button type="button" variant="ghost" size="sm" onClick={addTime}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Time
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* PRN Safeguards */}
+        {formData.frequency === 'AS_NEEDED' && (
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              As-Needed Safeguards
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <Input
+                  label="Min Hours Between"
+                  type="number"
+                  value={formData.prnMinIntervalHours}
+                  onChange={(e) => { setFormData({ ...formData, prnMinIntervalHours: e.target.value }); clearFieldError('prnMinIntervalHours'); }}
+                  placeholder="e.g., 4"
                 />
-                {formData.scheduledTimes.length > 1 && (
-                  <button
-                    type="button"
-                    onClick={() => removeTime(index)}
-                    className="p-2 text-error hover:bg-error-light rounded-lg transition-colors"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
+                {errors.prnMinIntervalHours && <p className="mt-1 text-xs text-red-600">{errors.prnMinIntervalHours}</p>}
               </div>
-            ))}
-            {errors.scheduledTimes && <p className="text-xs text-red-600">{errors.scheduledTimes}</p>}
-            <Button type="button" variant="ghost" size="sm" onClick={addTime}>
-              <Plus className="w-4 h-4 mr-1" />
-              Add Time
-            </Button>
+              <div>
+                <Input
+                  label="Max Doses / 24h"
+                  type="number"
+                  value={formData.prnMaxDosesPer24h}
+                  onChange={(e) => { setFormData({ ...formData, prnMaxDosesPer24h: e.target.value }); clearFieldError('prnMaxDosesPer24h'); }}
+                  placeholder="e.g., 6"
+                />
+                {errors.prnMaxDosesPer24h && <p className="mt-1 text-xs text-red-600">{errors.prnMaxDosesPer24h}</p>}
+              </div>
+              <div>
+                <Input
+                  label="Max mg / 24h"
+                  type="number"
+                  value={formData.prnMaxMgPer24h}
+                  onChange={(e) => { setFormData({ ...formData, prnMaxMgPer24h: e.target.value }); clearFieldError('prnMaxMgPer24h'); }}
+                  placeholder="e.g., 3000"
+                />
+                {errors.prnMaxMgPer24h && <p className="mt-1 text-xs text-red-600">{errors.prnMaxMgPer24h}</p>}
+              </div>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Instructions */}
         <div>
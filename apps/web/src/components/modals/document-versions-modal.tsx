@@ -0,0 +1,179 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Download, RotateCcw, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { documentsApi, errorMessage, type Document, type DocumentVersion } from '@/lib/api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  familyId: string;
+  document: Document;
+  canEdit: boolean;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Replacement history for a document: upload a renewed file, download any
+ * earlier one, or make an earlier one current again.
+ */
+export function DocumentVersionsModal({ isOpen, onClose, familyId, document, canEdit }: Props) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [expiresAt, setExpiresAt] = useState('');
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['documents', familyId, document.id, 'versions'],
+    queryFn: () => documentsApi.getVersions(familyId, document.id),
+    enabled: isOpen,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['documents', familyId] });
+
+  const uploadMutation = useMutation({
+    mutationFn: () =>
+      documentsApi.uploadVersion(familyId, document.id, { file: file!, expiresAt: expiresAt || undefined }),
+    onSuccess: () => {
+      toast.success('New version uploaded');
+      setFile(null);
+      setExpiresAt('');
+      refresh();
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to upload the new version')),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (versionId: string) => documentsApi.restoreVersion(familyId, document.id, versionId),
+    onSuccess: () => {
+      toast.success('Version restored');
+      refresh();
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to restore this version')),
+  });
+
+  const download = async (version: DocumentVersion) => {
+    try {
+      const { downloadUrl, filename } = await documentsApi.getVersionUrl(familyId, document.id, version.id);
+      const link = window.document.createElement('a');
+      link.href = downloadUrl;
+      link.download = filename;
+      link.click();
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to download this version'));
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${document.name} history`} size="md">
+      <div className="space-y-5">
+        {canEdit && (
+          <div className="p-3 bg-bg-subtle rounded-lg space-y-3">
+            <p className="text-sm text-text-secondary">
+              Replacing the file keeps the current one in the history below.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<Upload className="w-4 h-4" />}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {file ? 'Choose a different file' : 'Choose new file'}
+              </Button>
+              {file && <span className="text-sm text-text-primary truncate">{file.name}</span>}
+            </div>
+            {file && (
+              <>
+                <Input
+                  label="Expires (optional)"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" isLoading={uploadMutation.isPending} onClick={() => uploadMutation.mutate()}>
+                    Upload new version
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-text-secondary">Loading history…</p>
+        ) : (
+          <ol className="divide-y divide-border">
+            {versions.map((version) => (
+              <li key={version.id} className="py-3 flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-text-primary">Version {version.versionNumber}</p>
+                    {version.isCurrent && (
+                      <Badge variant="success" size="sm">
+                        Current
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-text-secondary">
+                    {version.restoredFromVersion
+                      ? `Restored from version ${version.restoredFromVersion}`
+                      : 'Uploaded'}{' '}
+                    by {version.uploadedBy.fullName} on {format(parseISO(version.createdAt), 'MMM d, yyyy')} ·{' '}
+                    {formatFileSize(version.sizeBytes)}
+                  </p>
+                  {version.supersededAt && (
+                    <p className="text-xs text-text-tertiary">
+                      Replaced{version.supersededBy && ` by ${version.supersededBy.fullName}`} on{' '}
+                      {format(parseISO(version.supersededAt), 'MMM d, yyyy')}
+                    </p>
+                  )}
+                  {version.expiresAt && (
+                    <p className="text-xs text-text-tertiary">
+                      Expires {format(parseISO(version.expiresAt), 'MMM d, yyyy')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" variant="ghost" title="Download" onClick={() => download(version)}>
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  {canEdit && !version.isCurrent && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Make current"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => restoreMutation.mutate(version.id)}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -2,13 +2,14 @@
 
 import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { X, Plus, Trash2 } from 'lucide-react';
+import { X, Plus, Trash2, MapPin } from 'lucide-react';
 import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { api } from '@/lib/api/client';
 import toast from 'react-hot-toast';
 import { BLOOD_TYPE_OPTIONS } from '@/lib/constants';
+import { getCurrentPosition } from '@/lib/geolocation';
 
 interface CareRecipient {
   id: string;
@@ -23,6 +24,9 @@ interface CareRecipient {
   insurancePolicyNo?: string;
   primaryHospital?: string;
   hospitalAddress?: string;
+  homeLatitude?: number | null;
+  homeLongitude?: number | null;
+  checkInRadiusMeters?: number;
 }
 
 interface Props {
@@ -45,7 +49,11 @@ export function EditCareRecipientModal({ isOpen, onClose, careRecipient }: Props
     insurancePolicyNo: careRecipient.insurancePolicyNo || '',
     primaryHospital: careRecipient.primaryHospital || '',
     hospitalAddress: careRecipient.hospitalAddress || '',
+    homeLatitude: careRecipient.homeLatitude?.toString() ?? '',
+    homeLongitude: careRecipient.homeLongitude?.toString() ?? '',
+    checkInRadiusMeters: String(careRecipient.checkInRadiusMeters ?? 150),
   });
+  const [locating, setLocating] = useState(false);
 
   const [newAllergy, setNewAllergy] = useState('');
   const [newCondition, setNewCondition] = useState('');
@@ -91,9 +99,35 @@ export function EditCareRecipientModal({ isOpen, onClose, careRecipient }: Props
     if (formData.insurancePolicyNo.trim()) payload.insurancePolicyNo = formData.insurancePolicyNo.trim();
     if (formData.primaryHospital.trim()) payload.primaryHospital = formData.primaryHospital.trim();
     if (formData.hospitalAddress.trim()) payload.hospitalAddress = formData.hospitalAddress.trim();
+    if (formData.homeLatitude.trim() && formData.homeLongitude.trim()) {
+      payload.homeLatitude = Number(formData.homeLatitude);
+      payload.homeLongitude = Number(formData.homeLongitude);
+    } else if (careRecipient.homeLatitude != null) {
+      // Clearing the coordinates turns check-in verification off
+      payload.homeLatitude = null;
+      payload.homeLongitude = null;
+    }
+    if (formData.checkInRadiusMeters) payload.checkInRadiusMeters = Number(formData.checkInRadiusMeters);
     mutation.mutate(payload);
   };
 
+  const useCurrentLocation = async () => {
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+
+    if (!position) {
+      toast.error('Could not get your location');
+      return;
+    }
+
+    setFormData((prev) => ({
+      ...prev,
+      homeLatitude: position.latitude.toFixed(6),
+      homeLongitude: position.longitude.toFixed(6),
+    }));
+  };
+
   const addAllergy = () => {
     if (newAllergy.trim()) {
       setFormData({
@@ -288,6 +322,50 @@ export function EditCareRecipientModal({ isOpen, onClose, careRecipient }: Props
           </div>
         </div>
 
+        {/* Home Location */}
+        <div>
+          <h3 className="text-sm font-medium text-text-primary mb-1">Home Location</h3>
+          <p className="text-xs text-text-secondary mb-3">
+            Shift check-ins further than the radius from here are flagged for an admin to review.
+            Leave blank to turn this off.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Input
+              label="Latitude"
+              type="number"
+              step="any"
+              value={formData.homeLatitude}
+              onChange={(e) => setFormData({ ...formData, homeLatitude: e.target.value })}
+            />
+            <Input
+              label="Longitude"
+              type="number"
+              step="any"
+              value={formData.homeLongitude}
+              onChange={(e) => setFormData({ ...formData, homeLongitude: e.target.value })}
+            />
+            <Input
+              label="Radius (m)"
+              type="number"
+              min={25}
+              max={5000}
+              value={formData.checkInRadiusMeters}
+              onChange={(e) => setFormData({ ...formData, checkInRadiusMeters: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            leftIcon={<MapPin className="w-4 h-4" />}
+            isLoading={locating}
+            onClick={useCurrentLocation}
+          >
+            Use my current location
+          </Button>
+        </div>
+
         {/* Actions */}
         <div className="flex justify-end gap-3 pt-4 border-t border-border">
           <Button type="button" variant="secondary" onClick={onClose}>
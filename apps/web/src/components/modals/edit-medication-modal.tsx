@@ -7,6 +7,14 @@ import { Modal } from '@/components/ui/modal';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { medicationsApi, Medication } from '@/lib/api';
+import {
+  SchedulePhasesEditor,
+  fromSchedulePhaseDraft,
+  newSchedulePhaseDraft,
+  toSchedulePhaseDraft,
+  validateSchedulePhaseDrafts,
+  type SchedulePhaseDraft,
+} from '@/components/care/schedule-phases-editor';
 import toast from 'react-hot-toast';
 import {
   MEDICATION_FREQUENCY_OPTIONS as FREQUENCIES,
@@ -54,6 +62,8 @@ export function EditMedicationModal({ isOpen, onClose, medication, careRecipient
     startDate: new Date().toISOString().split('T')[0],
     endDate: '',
   });
+  const [usePhases, setUsePhases] = useState(false);
+  const [phases, setPhases] = useState<SchedulePhaseDraft[]>([]);
 
   useEffect(() => {
     if (medication) {
@@ -71,6 +81,8 @@ export function EditMedicationModal({ isOpen, onClose, medication, careRecipient
         startDate: medication.startDate?.split('T')[0] || new Date().toISOString().split('T')[0],
         endDate: medication.endDate?.split('T')[0] || '',
       });
+      setPhases((medication.schedulePhases || []).map(toSchedulePhaseDraft));
+      setUsePhases((medication.schedulePhases || []).length > 0);
     }
   }, [medication]);
 
@@ -120,6 +132,17 @@ export function EditMedicationModal({ isOpen, onClose, medication, careRecipient
     if (formData.scheduledTimes.length > 0) {
       payload.scheduledTimes = formData.scheduledTimes;
     }
+    if (usePhases && payload.frequency !== 'AS_NEEDED') {
+      const phaseErrors = phases.length === 0 ? ['Add at least one phase'] : validateSchedulePhaseDrafts(phases);
+      if (phaseErrors.length > 0) {
+        toast.error(phaseErrors.join('\n'), { duration: 6000, style: { whiteSpace: 'pre-line', textAlign: 'left' } });
+        return;
+      }
+      payload.schedulePhases = phases.map(fromSchedulePhaseDraft);
+    } else if (medication.schedulePhases?.length) {
+      // Back to plain scheduled times
+      payload.schedulePhases = [];
+    }
     if (formData.instructions.trim()) {
       payload.instructions = formData.instructions.trim();
     }
@@ -230,38 +253,63 @@ export function EditMedicationModal({ isOpen, onClose, medication, careRecipient
           </select>
         </div>
 
+        {/* Dosing phases (tapers, every N hours, on/off cycles) */}
+        {formData.frequency !== 'AS_NEEDED' && (
+          <div className="space-y-3">
+            <label className="flex items-start gap-2 text-sm text-text-primary">
+              <input
+                type="checkbox"
+                checked={usePhases}
+                onChange={(e) => {
+                  setUsePhases(e.target.checked);
+                  if (e.target.checked && phases.length === 0) {
+                    setPhases([newSchedulePhaseDraft(formData.startDate, formData.scheduledTimes)]);
+                  }
+                }}
+                className="mt-0.5"
+              />
+              Changes over time or isn&apos;t daily (taper, every few hours, on/off cycle)
+            </label>
+            {usePhases && (
+              <SchedulePhasesEditor phases={phases} onChange={setPhases} defaultStartDate={formData.startDate} />
+            )}
+          </div>
+        )}
+
         {/* Scheduled Times */}
-        <div>
-          <label className="block text-sm font-medium text-text-primary mb-2">
-            <Clock className="w-4 h-4 inline mr-1" />
-            Scheduled Times
-          </label>
-          <div className="space-y-2">
-            {formData.scheduledTimes.map((time, index) => (
-              <div key={index} className="flex items-center gap-2">
-                <input
-                  type="time"
-                  value={time}
-                  onChange={(e) => updateTime(index, e.target.value)}
-                  className="flex-1 px-4 py-2 rounded-lg border border-border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary"
-                />
-                {formData.scheduledTimes.length > 1 && (
-                  <button
-                    type="button"
-                    onClick={() => removeTime(index)}
-                    className="p-2 text-error hover:bg-error-light rounded-lg transition-colors"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
-            ))}
-            <Button type="button" variant="ghost" size="sm" onClick={addTime}>
-              <Plus className="w-4 h-4 mr-1" />
-              Add Time
-            </Button>
+        {!(usePhases && formData.frequency !== 'AS_NEEDED') && (
+          <div>
+            <label className="block text-sm font-medium text-text-primary mb-2">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Scheduled Times
+            </label>
+            <div className="space-y-2">
+              {formData.scheduledTimes.map((time, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => updateTime(index, e.target.value)}
+                    className="flex-1 px-4 py-2 rounded-lg border border-border bg-bg-surface text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary"
+                  />
+                  {formData.scheduledTimes.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeTime(index)}
+                      className="p-2 text-error hover:bg-error-light rounded-lg transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <Button type="button" variant="ghost" size="sm" onClick={addTime}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add Time
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Instructions */}
         <div>
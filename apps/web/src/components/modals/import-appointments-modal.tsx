@@ -0,0 +1,226 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CalendarPlus, Repeat, Stethoscope, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { appointmentsApi, errorMessage, type AppointmentImportEvent } from '@/lib/api';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: string;
+}
+
+const MATCHED_BY_LABELS: Record<NonNullable<AppointmentImportEvent['doctor']>['matchedBy'], string> = {
+  organizer: 'organizer',
+  location: 'address',
+  text: 'mentioned',
+};
+
+export function ImportAppointmentsModal({ isOpen, onClose, careRecipientId }: Props) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [events, setEvents] = useState<AppointmentImportEvent[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const previewMutation = useMutation({
+    mutationFn: (upload: File) => appointmentsApi.previewImport(careRecipientId, upload),
+    onSuccess: (preview) => {
+      setEvents(preview.events);
+      // Duplicates and cancelled invites are left for the family to opt into
+      setSelected(
+        new Set(
+          preview.events.flatMap((event, index) => (event.duplicateCount === 0 && !event.cancelled ? [index] : []))
+        )
+      );
+    },
+    onError: (error) => {
+      setFile(null);
+      toast.error(errorMessage(error, 'Could not read the calendar file'));
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      appointmentsApi.importAppointments(
+        careRecipientId,
+        events.filter((_event, index) => selected.has(index)).map((event) => event.appointment)
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['appointments', careRecipientId] });
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} could not be imported: ${result.failed[0].error}`);
+      }
+      if (result.created > 0) {
+        toast.success(`Imported ${result.created} appointment${result.created === 1 ? '' : 's'}`);
+      }
+      handleClose();
+    },
+    onError: (error) => {
+      toast.error(errorMessage(error, 'Failed to import appointments'));
+    },
+  });
+
+  const handleFileSelect = (selectedFile: File) => {
+    setFile(selectedFile);
+    setEvents([]);
+    previewMutation.mutate(selectedFile);
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setEvents([]);
+    setSelected(new Set());
+    onClose();
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Appointments" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-text-secondary">
+          Add appointments from a calendar invite (.ics) saved from a patient portal or email. Nothing is
+          added until you review and confirm.
+        </p>
+
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="border-2 border-dashed border-border hover:border-accent-primary rounded-xl p-6 text-center cursor-pointer transition-colors bg-bg-surface"
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleFileSelect(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+
+          {file ? (
+            <div className="flex items-center justify-center gap-3">
+              <CalendarPlus className="w-6 h-6 text-accent-primary" />
+              <p className="font-medium text-text-primary truncate">{file.name}</p>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setFile(null);
+                  setEvents([]);
+                }}
+                className="p-1 hover:bg-bg-subtle rounded-lg"
+                aria-label="Remove file"
+              >
+                <X className="w-4 h-4 text-text-secondary" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <CalendarPlus className="w-8 h-8 text-text-tertiary mx-auto" />
+              <p className="mt-2 text-text-primary font-medium">Choose an .ics file</p>
+              <p className="mt-1 text-sm text-text-tertiary">Up to 1MB</p>
+            </>
+          )}
+        </div>
+
+        {previewMutation.isPending && <p className="text-sm text-text-secondary">Reading invites...</p>}
+
+        {events.length > 0 && (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {events.map((event, index) => {
+              const start = parseISO(event.appointment.startTime);
+
+              return (
+                <label
+                  key={`${event.appointment.icsUid}-${index}`}
+                  className={cn(
+                    'flex items-start gap-3 p-3 rounded-lg border cursor-pointer',
+                    selected.has(index) ? 'border-accent-primary bg-accent-primary-light' : 'border-border'
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggle(index)}
+                    className="mt-1"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium text-text-primary truncate">{event.appointment.title}</p>
+                      {event.cancelled && (
+                        <Badge variant="destructive" size="sm">
+                          Cancelled
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-text-secondary">
+                      {event.allDay ? format(start, 'EEE, MMM d, yyyy') : format(start, 'EEE, MMM d, yyyy · h:mm a')}
+                      {event.appointment.location && ` · ${event.appointment.location}`}
+                    </p>
+                    <div className="flex items-center gap-2 flex-wrap text-xs text-text-tertiary">
+                      <Badge variant="secondary" size="sm">
+                        {event.appointment.type.replace(/_/g, ' ')}
+                      </Badge>
+                      {event.occurrences > 1 && (
+                        <span className="flex items-center gap-1">
+                          <Repeat className="w-3 h-3" />
+                          {event.occurrences} occurrences
+                        </span>
+                      )}
+                      {event.doctor && (
+                        <span className="flex items-center gap-1">
+                          <Stethoscope className="w-3 h-3" />
+                          {event.doctor.name} ({MATCHED_BY_LABELS[event.doctor.matchedBy]})
+                        </span>
+                      )}
+                    </div>
+                    {event.duplicateCount > 0 && (
+                      <p className="flex items-center gap-1.5 text-xs text-amber-700">
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                        Looks like {event.duplicates[0].title} on{' '}
+                        {format(parseISO(event.duplicates[0].startTime), 'MMM d, h:mm a')}
+                        {event.duplicateCount > 1 && ` and ${event.duplicateCount - 1} more`}
+                      </p>
+                    )}
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-border">
+          <Button type="button" variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            onClick={() => importMutation.mutate()}
+            isLoading={importMutation.isPending}
+            disabled={selected.size === 0}
+          >
+            Import {selected.size > 0 ? selected.size : ''}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
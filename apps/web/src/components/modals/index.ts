@@ -6,3 +6,6 @@ export * from './log-medication-modal';
 export * from './upload-document-modal';
 export * from './invite-member-modal';
 
+export * from './import-appointments-modal';
+export * from './visit-outcome-modal';
+export * from './document-versions-modal';
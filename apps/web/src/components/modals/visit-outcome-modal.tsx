@@ -0,0 +1,417 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Check, Pill, Plus, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  appointmentsApi,
+  errorMessage,
+  medicationsApi,
+  type Appointment,
+  type MedicationChangeAction,
+  type MedicationChangeInput,
+  type OutcomeMedicationChange,
+} from '@/lib/api';
+import { MEDICATION_FORM_OPTIONS, MEDICATION_FREQUENCY_OPTIONS } from '@/lib/constants';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  careRecipientId: string;
+  appointment: Appointment;
+  canEdit: boolean;
+}
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 rounded-lg border border-border bg-bg-surface text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-primary/20 focus:border-accent-primary';
+
+const ACTION_OPTIONS: { value: MedicationChangeAction; label: string }[] = [
+  { value: 'START', label: 'Start' },
+  { value: 'CHANGE', label: 'Change' },
+  { value: 'STOP', label: 'Stop' },
+];
+
+const emptyChange = (): MedicationChangeInput => ({ action: 'START', name: '' });
+
+// Same fields in the same order, so form rows and saved changes can be compared
+const toInput = (change: MedicationChangeInput | OutcomeMedicationChange): MedicationChangeInput => ({
+  id: change.id || undefined,
+  action: change.action,
+  name: change.name.trim(),
+  medicationId: change.medicationId || undefined,
+  dosage: change.dosage || undefined,
+  form: change.form || undefined,
+  frequency: change.frequency || undefined,
+  instructions: change.instructions || undefined,
+  reason: change.reason || undefined,
+});
+
+const toLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Post-visit form: what the doctor said, diagnoses, medication changes,
+ * ordered labs and when to come back. Once saved, each medication change can
+ * be applied to the medication list or dismissed.
+ */
+export function VisitOutcomeModal({ isOpen, onClose, careRecipientId, appointment, canEdit }: Props) {
+  const queryClient = useQueryClient();
+  const [doctorNotes, setDoctorNotes] = useState('');
+  const [diagnoses, setDiagnoses] = useState('');
+  const [orderedLabs, setOrderedLabs] = useState('');
+  const [labsDueDate, setLabsDueDate] = useState('');
+  const [nextVisitDate, setNextVisitDate] = useState('');
+  const [changes, setChanges] = useState<MedicationChangeInput[]>([]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['appointment-outcome', appointment.id],
+    queryFn: () => appointmentsApi.getOutcome(appointment.id),
+    enabled: isOpen,
+  });
+
+  const { data: medications = [] } = useQuery({
+    queryKey: ['medications', careRecipientId],
+    queryFn: () => medicationsApi.list(careRecipientId),
+    enabled: isOpen && canEdit,
+  });
+
+  const outcome = data?.outcome;
+  const resolvedChanges = outcome?.medicationChanges.filter((change) => change.status !== 'PENDING') || [];
+  const pendingChanges = outcome?.medicationChanges.filter((change) => change.status === 'PENDING') || [];
+
+  useEffect(() => {
+    if (!outcome) return;
+    setDoctorNotes(outcome.doctorNotes || '');
+    setDiagnoses(outcome.diagnoses.join('\n'));
+    setOrderedLabs(outcome.orderedLabs.join('\n'));
+    setLabsDueDate(outcome.labsDueDate ? format(parseISO(outcome.labsDueDate), 'yyyy-MM-dd') : '');
+    setNextVisitDate(outcome.nextVisitDate ? format(parseISO(outcome.nextVisitDate), 'yyyy-MM-dd') : '');
+    setChanges(outcome.medicationChanges.filter((change) => change.status === 'PENDING').map(toInput));
+  }, [outcome]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['appointment-outcome', appointment.id] });
+    queryClient.invalidateQueries({ queryKey: ['appointments', careRecipientId] });
+    queryClient.invalidateQueries({ queryKey: ['timeline'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      appointmentsApi.recordOutcome(appointment.id, {
+        doctorNotes: doctorNotes.trim() || undefined,
+        diagnoses: toLines(diagnoses),
+        orderedLabs: toLines(orderedLabs),
+        labsDueDate: labsDueDate || undefined,
+        nextVisitDate: nextVisitDate || undefined,
+        medicationChanges: changes.filter((change) => change.name.trim()).map(toInput),
+      }),
+    onSuccess: (result) => {
+      invalidate();
+      const drafts = result.followUps.filter((followUp) => followUp.status === 'DRAFT').length;
+      toast.success(
+        drafts > 0
+          ? `Visit saved. ${drafts} follow-up draft${drafts === 1 ? '' : 's'} added to the calendar`
+          : 'Visit saved to the timeline'
+      );
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to save visit')),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (change: OutcomeMedicationChange) => appointmentsApi.applyMedicationChange(appointment.id, change.id),
+    onSuccess: (_result, change) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['medications', careRecipientId] });
+      toast.success(`${change.name} updated on the medication list`);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to update medications')),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (change: OutcomeMedicationChange) => appointmentsApi.dismissMedicationChange(appointment.id, change.id),
+    onSuccess: invalidate,
+    onError: (error) => toast.error(errorMessage(error, 'Failed to dismiss change')),
+  });
+
+  const updateChange = (index: number, patch: Partial<MedicationChangeInput>) => {
+    setChanges(changes.map((change, i) => (i === index ? { ...change, ...patch } : change)));
+  };
+
+  // Saved changes must match what is on screen before they can be applied
+  const hasUnsavedChanges =
+    JSON.stringify(changes.filter((change) => change.name.trim()).map(toInput)) !==
+    JSON.stringify(pendingChanges.map(toInput));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Visit: ${appointment.title}`} size="lg">
+      {isLoading ? (
+        <p className="text-sm text-text-secondary">Loading...</p>
+      ) : (
+        <div className="space-y-5">
+          <p className="text-sm text-text-secondary">
+            {format(parseISO(appointment.startTime), 'EEEE, MMM d, yyyy · h:mm a')}
+            {outcome && ` · recorded by ${outcome.recordedBy.fullName}`}
+          </p>
+
+          <Textarea
+            label="Doctor's notes"
+            value={doctorNotes}
+            onChange={(e) => setDoctorNotes(e.target.value)}
+            placeholder="What the doctor said, test results discussed, instructions..."
+            rows={4}
+            disabled={!canEdit}
+          />
+
+          <Textarea
+            label="Diagnoses (one per line)"
+            value={diagnoses}
+            onChange={(e) => setDiagnoses(e.target.value)}
+            rows={2}
+            disabled={!canEdit}
+          />
+
+          {/* Medication changes */}
+          <div className="space-y-3">
+            <p className="text-sm font-medium text-text-primary">Medication changes</p>
+
+            {resolvedChanges.map((change) => (
+              <div key={change.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-bg-muted text-sm">
+                <span className="text-text-secondary truncate">
+                  {ACTION_OPTIONS.find((option) => option.value === change.action)?.label} {change.name}
+                  {change.dosage && ` ${change.dosage}`}
+                </span>
+                <Badge variant={change.status === 'APPLIED' ? 'success' : 'secondary'} size="sm">
+                  {change.status === 'APPLIED' ? 'Applied' : 'Dismissed'}
+                </Badge>
+              </div>
+            ))}
+
+            {changes.map((change, index) => (
+              <div key={change.id || `new-${index}`} className="p-3 rounded-lg border border-border space-y-2">
+                <div className="grid grid-cols-[6rem_1fr_auto] gap-2 items-center">
+                  <select
+                    value={change.action}
+                    onChange={(e) =>
+                      updateChange(index, { action: e.target.value as MedicationChangeAction, medicationId: undefined })
+                    }
+                    className={SELECT_CLASS}
+                    disabled={!canEdit}
+                  >
+                    {ACTION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+
+                  {change.action === 'START' ? (
+                    <input
+                      value={change.name}
+                      onChange={(e) => updateChange(index, { name: e.target.value })}
+                      placeholder="Medication name"
+                      className={SELECT_CLASS}
+                      disabled={!canEdit}
+                    />
+                  ) : (
+                    <select
+                      value={change.medicationId || ''}
+                      onChange={(e) => {
+                        const medication = medications.find((m) => m.id === e.target.value);
+                        updateChange(index, { medicationId: medication?.id, name: medication?.name || change.name });
+                      }}
+                      className={SELECT_CLASS}
+                      disabled={!canEdit}
+                    >
+                      <option value="">{change.name || 'Choose a medication'}</option>
+                      {medications
+                        .filter((medication) => medication.isActive)
+                        .map((medication) => (
+                          <option key={medication.id} value={medication.id}>
+                            {medication.name} {medication.dosage}
+                          </option>
+                        ))}
+                    </select>
+                  )}
+
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => setChanges(changes.filter((_c, i) => i !== index))}
+                      className="p-1.5 hover:bg-bg-muted rounded-lg"
+                      aria-label="Remove change"
+                    >
+                      <X className="w-4 h-4 text-text-secondary" />
+                    </button>
+                  )}
+                </div>
+
+                {change.action !== 'STOP' && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <input
+                      value={change.dosage || ''}
+                      onChange={(e) => updateChange(index, { dosage: e.target.value || undefined })}
+                      placeholder="New dosage, e.g. 500mg"
+                      className={SELECT_CLASS}
+                      disabled={!canEdit}
+                    />
+                    <select
+                      value={change.frequency || ''}
+                      onChange={(e) => updateChange(index, { frequency: e.target.value || undefined })}
+                      className={SELECT_CLASS}
+                      disabled={!canEdit}
+                    >
+                      <option value="">{change.action === 'START' ? 'Frequency' : 'Same frequency'}</option>
+                      {MEDICATION_FREQUENCY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={change.form || ''}
+                      onChange={(e) => updateChange(index, { form: e.target.value || undefined })}
+                      className={SELECT_CLASS}
+                      disabled={!canEdit}
+                    >
+                      <option value="">{change.action === 'START' ? 'Form' : 'Same form'}</option>
+                      {MEDICATION_FORM_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <input
+                  value={change.reason || ''}
+                  onChange={(e) => updateChange(index, { reason: e.target.value || undefined })}
+                  placeholder="Reason (optional)"
+                  className={SELECT_CLASS}
+                  disabled={!canEdit}
+                />
+              </div>
+            ))}
+
+            {canEdit && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                leftIcon={<Plus className="w-4 h-4" />}
+                onClick={() => setChanges([...changes, emptyChange()])}
+              >
+                Add medication change
+              </Button>
+            )}
+          </div>
+
+          {/* Offer to apply saved changes to the medication list */}
+          {canEdit && pendingChanges.length > 0 && !hasUnsavedChanges && (
+            <div className="p-3 rounded-lg bg-accent-primary-light space-y-2">
+              <p className="flex items-center gap-1.5 text-sm font-medium text-text-primary">
+                <Pill className="w-4 h-4 text-accent-primary" />
+                Update the medication list?
+              </p>
+              {pendingChanges.map((change) => (
+                <div key={change.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-text-secondary truncate">
+                    {ACTION_OPTIONS.find((option) => option.value === change.action)?.label} {change.name}
+                    {change.dosage && ` ${change.dosage}`}
+                  </span>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      leftIcon={<Check className="w-3.5 h-3.5" />}
+                      onClick={() => applyMutation.mutate(change)}
+                      disabled={applyMutation.isPending}
+                    >
+                      Apply
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => dismissMutation.mutate(change)}
+                      disabled={dismissMutation.isPending}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Textarea
+            label="Ordered labs (one per line)"
+            value={orderedLabs}
+            onChange={(e) => setOrderedLabs(e.target.value)}
+            rows={2}
+            disabled={!canEdit}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Input
+              label="Labs due by"
+              type="date"
+              value={labsDueDate}
+              onChange={(e) => setLabsDueDate(e.target.value)}
+              disabled={!canEdit || !orderedLabs.trim()}
+            />
+            <Input
+              label="Next visit"
+              type="date"
+              value={nextVisitDate}
+              onChange={(e) => setNextVisitDate(e.target.value)}
+              disabled={!canEdit}
+            />
+          </div>
+
+          {data && data.followUps.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-text-primary">Follow-ups</p>
+              {data.followUps.map((followUp) => (
+                <div key={followUp.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-1.5 text-text-secondary truncate">
+                    <CalendarClock className="w-4 h-4 shrink-0" />
+                    {followUp.title} · {format(parseISO(followUp.startTime), 'MMM d, h:mm a')}
+                  </span>
+                  <Badge variant={followUp.status === 'DRAFT' ? 'warning' : 'success'} size="sm">
+                    {followUp.status === 'DRAFT' ? 'Draft' : 'Booked'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+            {canEdit && (
+              <Button
+                type="button"
+                variant="primary"
+                onClick={() => saveMutation.mutate()}
+                isLoading={saveMutation.isPending}
+              >
+                {outcome ? 'Save Changes' : 'Save Visit'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -15,6 +15,9 @@ import {
   Clock,
   FileText,
   Activity,
+  Repeat,
+  ShieldAlert,
+  Timer,
   LucideIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -34,12 +37,17 @@ const notificationIcons: Record<NotificationType, LucideIcon> = {
   APPOINTMENT_REMINDER: Calendar,
   SHIFT_REMINDER: Clock,
   SHIFT_HANDOFF: Users,
+  SHIFT_SWAP: Repeat,
+  COVERAGE_GAP: ShieldAlert,
+  TIME_CORRECTION: Timer,
   EMERGENCY_ALERT: AlertTriangle,
   FAMILY_INVITE: Users,
   DOCUMENT_SHARED: FileText,
   TIMELINE_UPDATE: Activity,
   REFILL_NEEDED: Pill,
   REFILL_ALERT: Pill,
+  REFILL_PICKUP: Pill,
+  VITALS_ALERT: Activity,
   GENERAL: Info,
   CARE_RECIPIENT_DELETED: Trash2,
   CARE_RECIPIENT_UPDATED: Edit,
@@ -56,12 +64,17 @@ const notificationColors: Record<NotificationType, string> = {
   APPOINTMENT_REMINDER: 'bg-purple-100 text-purple-600',
   SHIFT_REMINDER: 'bg-cyan-100 text-cyan-600',
   SHIFT_HANDOFF: 'bg-teal-100 text-teal-600',
+  SHIFT_SWAP: 'bg-cyan-100 text-cyan-600',
+  COVERAGE_GAP: 'bg-amber-100 text-amber-600',
+  TIME_CORRECTION: 'bg-indigo-100 text-indigo-600',
   EMERGENCY_ALERT: 'bg-red-100 text-red-600',
   FAMILY_INVITE: 'bg-green-100 text-green-600',
   DOCUMENT_SHARED: 'bg-blue-100 text-blue-600',
   TIMELINE_UPDATE: 'bg-purple-100 text-purple-600',
   REFILL_NEEDED: 'bg-yellow-100 text-yellow-600',
   REFILL_ALERT: 'bg-orange-100 text-orange-600',
+  REFILL_PICKUP: 'bg-blue-100 text-blue-600',
+  VITALS_ALERT: 'bg-red-100 text-red-600',
   GENERAL: 'bg-gray-100 text-gray-600',
   CARE_RECIPIENT_DELETED: 'bg-red-100 text-red-600',
   CARE_RECIPIENT_UPDATED: 'bg-yellow-100 text-yellow-600',
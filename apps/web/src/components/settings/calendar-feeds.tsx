@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { CalendarPlus, Copy, Trash2 } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { calendarFeedsApi, calendarFeedUrl, errorMessage, type CalendarFeed } from '@/lib/api';
+
+interface CalendarFeedsProps {
+  className?: string;
+}
+
+const describeFeed = (feed: CalendarFeed) => {
+  if (feed.includeAppointments && feed.includeShifts) return 'Appointments and my shifts';
+  return feed.includeAppointments ? 'Appointments' : 'My shifts';
+};
+
+/**
+ * Secret subscription URLs for Google, Apple or Outlook calendars. Each can
+ * be revoked on its own if it ends up somewhere it should not.
+ */
+export function CalendarFeeds({ className }: CalendarFeedsProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ name: '', includeAppointments: true, includeShifts: true });
+
+  const { data: feeds = [] } = useQuery({
+    queryKey: ['calendar-feeds'],
+    queryFn: calendarFeedsApi.list,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      calendarFeedsApi.create({
+        name: form.name.trim() || undefined,
+        includeAppointments: form.includeAppointments,
+        includeShifts: form.includeShifts,
+      }),
+    onSuccess: (feed) => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+      setForm({ name: '', includeAppointments: true, includeShifts: true });
+      copyUrl(feed);
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to create calendar feed')),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: calendarFeedsApi.revoke,
+    onSuccess: () => {
+      toast.success('Calendar feed revoked');
+      queryClient.invalidateQueries({ queryKey: ['calendar-feeds'] });
+    },
+    onError: (error) => toast.error(errorMessage(error, 'Failed to revoke calendar feed')),
+  });
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl(feed));
+      toast.success('Feed URL copied');
+    } catch {
+      toast.error('Could not copy the URL');
+    }
+  };
+
+  return (
+    <Card className={cn('p-4 sm:p-6', className)}>
+      <div className="flex items-center gap-2 mb-2">
+        <CalendarPlus className="w-5 h-5 text-accent-primary" />
+        <h2 className="text-lg font-semibold text-text-primary">Calendar Subscriptions</h2>
+      </div>
+      <p className="text-sm text-text-secondary mb-4">
+        Add appointments and your shifts to Google, Apple or Outlook Calendar by subscribing to a
+        feed URL. Times are shown in your timezone ({user?.timezone || 'America/New_York'}). Keep
+        the URL private; anyone with it can see the feed.
+      </p>
+
+      {feeds.length > 0 && (
+        <div className="divide-y divide-border mb-4">
+          {feeds.map((feed) => (
+            <div key={feed.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text-primary truncate">{feed.name || 'Calendar feed'}</p>
+                <p className="text-xs text-text-secondary">
+                  {describeFeed(feed)} ·{' '}
+                  {feed.lastAccessedAt
+                    ? `last synced ${formatDistanceToNow(new Date(feed.lastAccessedAt), { addSuffix: true })}`
+                    : 'not synced yet'}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button size="sm" variant="ghost" leftIcon={<Copy className="w-4 h-4" />} onClick={() => copyUrl(feed)}>
+                  Copy URL
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Revoke"
+                  disabled={revokeMutation.isPending}
+                  onClick={() => revokeMutation.mutate(feed.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <Input
+          label="Feed name (optional)"
+          placeholder="e.g. Work phone"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <div className="flex flex-wrap gap-4 text-sm text-text-secondary">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.includeAppointments}
+              onChange={(e) => setForm({ ...form, includeAppointments: e.target.checked })}
+            />
+            Appointments
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={form.includeShifts}
+              onChange={(e) => setForm({ ...form, includeShifts: e.target.checked })}
+            />
+            My shifts
+          </label>
+        </div>
+        <Button
+          variant="primary"
+          disabled={(!form.includeAppointments && !form.includeShifts) || createMutation.isPending}
+          onClick={() => createMutation.mutate()}
+        >
+          Create feed URL
+        </Button>
+      </div>
+    </Card>
+  );
+}
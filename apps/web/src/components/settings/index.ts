@@ -1,3 +1,4 @@
 export * from './data-export';
 export * from './language-selector';
 
+export * from './calendar-feeds';
@@ -4,6 +4,7 @@ export * from './use-appointments';
 export * from './use-timeline';
 export * from './use-family';
 export * from './use-emergency';
+export * from './use-hospital-stays';
 export * from './use-websocket';
 export * from './use-push-notifications';
 export * from './use-offline-sync';
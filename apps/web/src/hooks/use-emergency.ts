@@ -1,7 +1,13 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { emergencyApi, CreateEmergencyAlertInput } from '@/lib/api';
+import {
+  emergencyApi,
+  CreateEmergencyAlertInput,
+  EmergencyShareLinkInput,
+  EmergencyUpdateInput,
+  EscalationStep,
+} from '@/lib/api';
 import { toast } from 'react-hot-toast';
 
 export function useEmergencyInfo(careRecipientId: string) {
@@ -23,6 +29,45 @@ export function useActiveAlerts(careRecipientId: string) {
   });
 }
 
+export function useAlert(careRecipientId: string, alertId: string) {
+  return useQuery({
+    queryKey: ['emergency', careRecipientId, 'alerts', alertId],
+    queryFn: () => emergencyApi.getAlert(careRecipientId, alertId),
+    enabled: !!careRecipientId && !!alertId,
+    refetchInterval: 30 * 1000,
+  });
+}
+
+export function usePostAlertUpdate(careRecipientId: string, alertId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: EmergencyUpdateInput) => emergencyApi.postUpdate(careRecipientId, alertId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency', careRecipientId, 'alerts'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to post update');
+    },
+  });
+}
+
+export function useAddAlertPhoto(careRecipientId: string, alertId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, caption }: { file: File; caption?: string }) =>
+      emergencyApi.addPhoto(careRecipientId, alertId, file, caption),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency', careRecipientId, 'alerts'] });
+      toast.success('Photo added');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add photo');
+    },
+  });
+}
+
 export function useTriggerAlert(careRecipientId: string) {
   const queryClient = useQueryClient();
 
@@ -68,3 +113,80 @@ export function useResolveAlert(careRecipientId: string) {
     },
   });
 }
+
+export function useEscalationPolicy(familyId: string) {
+  return useQuery({
+    queryKey: ['emergency', 'escalation-policy', familyId],
+    queryFn: () => emergencyApi.getEscalationPolicy(familyId),
+    enabled: !!familyId,
+  });
+}
+
+export function useUpdateEscalationPolicy(familyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (steps: EscalationStep[]) => emergencyApi.updateEscalationPolicy(familyId, steps),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(['emergency', 'escalation-policy', familyId], policy);
+      toast.success('Escalation policy saved');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save escalation policy');
+    },
+  });
+}
+
+export function useShareLinks(careRecipientId: string) {
+  return useQuery({
+    queryKey: ['emergency', careRecipientId, 'share-links'],
+    queryFn: () => emergencyApi.getShareLinks(careRecipientId),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useCreateShareLink(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: EmergencyShareLinkInput) => emergencyApi.createShareLink(careRecipientId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency', careRecipientId, 'share-links'] });
+      toast.success('Share link created');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to create share link');
+    },
+  });
+}
+
+export function useUpdateShareLink(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ linkId, data }: { linkId: string; data: Omit<EmergencyShareLinkInput, 'expiresInDays'> }) =>
+      emergencyApi.updateShareLink(careRecipientId, linkId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency', careRecipientId, 'share-links'] });
+      toast.success('Share link updated');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update share link');
+    },
+  });
+}
+
+export function useRevokeShareLink(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (linkId: string) => emergencyApi.revokeShareLink(careRecipientId, linkId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency', careRecipientId, 'share-links'] });
+      toast.success('Share link revoked');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to revoke share link');
+    },
+  });
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  hospitalStaysApi,
+  AdmitHospitalStayInput,
+  DischargeHospitalStayInput,
+  MedicationReconciliationItem,
+} from '@/lib/api';
+import { toast } from 'react-hot-toast';
+
+export function useHospitalStays(careRecipientId: string) {
+  return useQuery({
+    queryKey: ['hospital-stays', careRecipientId],
+    queryFn: () => hospitalStaysApi.list(careRecipientId),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useMedicationReconciliation(careRecipientId: string, stayId: string | null) {
+  return useQuery({
+    queryKey: ['hospital-stays', careRecipientId, stayId, 'reconciliation'],
+    queryFn: () => hospitalStaysApi.getReconciliation(careRecipientId, stayId!),
+    enabled: !!careRecipientId && !!stayId,
+  });
+}
+
+export function useAdmitHospitalStay(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: AdmitHospitalStayInput) => hospitalStaysApi.admit(careRecipientId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hospital-stays', careRecipientId] });
+      toast.success('Admission recorded. Reminders are paused.');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to record admission');
+    },
+  });
+}
+
+export function useDischargeHospitalStay(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ stayId, data }: { stayId: string; data: DischargeHospitalStayInput }) =>
+      hospitalStaysApi.discharge(careRecipientId, stayId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hospital-stays', careRecipientId] });
+      toast.success('Discharge recorded');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to record discharge');
+    },
+  });
+}
+
+export function useReconcileMedications(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ stayId, items }: { stayId: string; items: MedicationReconciliationItem[] }) =>
+      hospitalStaysApi.reconcile(careRecipientId, stayId, items),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hospital-stays', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['medications', careRecipientId] });
+      toast.success('Medication list updated');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to reconcile medications');
+    },
+  });
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { medicationsApi, CreateMedicationInput, LogMedicationInput } from '@/lib/api';
+import { medicationsApi, CreateMedicationInput, LogMedicationInput, MedicationRefillInput } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 
 export function useMedications(careRecipientId: string) {
@@ -29,6 +29,53 @@ export function useTodaysMedications(careRecipientId: string, date?: string) {
   });
 }
 
+export function useMedicationAdherence(careRecipientId: string, range?: { from?: string; to?: string }) {
+  return useQuery({
+    queryKey: ['medications', careRecipientId, 'adherence', range?.from || '', range?.to || ''],
+    queryFn: () => medicationsApi.getAdherence(careRecipientId, range),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useMedicationSupply(careRecipientId: string) {
+  return useQuery({
+    queryKey: ['medications', careRecipientId, 'supply'],
+    queryFn: () => medicationsApi.getSupplyForecasts(careRecipientId),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useRequestRefill(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ medicationId, data }: { medicationId: string; data: MedicationRefillInput }) =>
+      medicationsApi.requestRefill(medicationId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['medications', careRecipientId] });
+      toast.success('Refill requested');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to request refill');
+    },
+  });
+}
+
+export function useUpdateRefill(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ refillId, data }: { refillId: string; data: MedicationRefillInput }) =>
+      medicationsApi.updateRefill(refillId, data),
+    onSuccess: (refill) => {
+      queryClient.invalidateQueries({ queryKey: ['medications', careRecipientId] });
+      toast.success(refill.status === 'PICKED_UP' ? 'Refill picked up — supply updated' : 'Refill updated');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update refill');
+    },
+  });
+}
 
 export function useCreateMedication(careRecipientId: string) {
   const queryClient = useQueryClient();
@@ -1,7 +1,7 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
-import { timelineApi, CreateTimelineEntryInput } from '@/lib/api';
+import { timelineApi, CreateTimelineEntryInput, VitalRangeInput, VitalType } from '@/lib/api';
 import { toast } from 'react-hot-toast';
 
 export function useTimeline(
@@ -72,6 +72,7 @@ export function useCreateTimelineEntry(careRecipientId: string) {
         }
       );
       queryClient.invalidateQueries({ queryKey: ['timeline', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['vitals', careRecipientId] });
       toast.success('Entry added to timeline');
     },
     onError: (error: Error) => {
@@ -87,6 +88,7 @@ export function useDeleteTimelineEntry(careRecipientId: string) {
     mutationFn: (id: string) => timelineApi.delete(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['timeline', careRecipientId] });
+      queryClient.invalidateQueries({ queryKey: ['vitals', careRecipientId] });
       toast.success('Entry deleted');
     },
     onError: (error: Error) => {
@@ -95,3 +97,38 @@ export function useDeleteTimelineEntry(careRecipientId: string) {
   });
 }
 
+
+export function useVitalTrends(careRecipientId: string, range?: { from?: string; to?: string }) {
+  return useQuery({
+    queryKey: ['vitals', careRecipientId, 'trends', range?.from || '', range?.to || ''],
+    queryFn: () => timelineApi.getVitalTrends(careRecipientId, range),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useVitalRanges(careRecipientId: string) {
+  return useQuery({
+    queryKey: ['vitals', careRecipientId, 'ranges'],
+    queryFn: () => timelineApi.getVitalRanges(careRecipientId),
+    enabled: !!careRecipientId,
+  });
+}
+
+export function useUpdateVitalRange(careRecipientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ type, data }: { type: VitalType; data: VitalRangeInput | null }) =>
+      data
+        ? timelineApi.updateVitalRange(careRecipientId, type, data)
+        : timelineApi.resetVitalRange(careRecipientId, type),
+    onSuccess: (ranges) => {
+      queryClient.setQueryData(['vitals', careRecipientId, 'ranges'], ranges);
+      queryClient.invalidateQueries({ queryKey: ['vitals', careRecipientId, 'trends'] });
+      toast.success('Target range saved');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save target range');
+    },
+  });
+}
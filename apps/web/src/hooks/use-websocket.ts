@@ -103,6 +103,11 @@ export function useWebSocket(familyId?: string) {
       queryClient.invalidateQueries({ queryKey: ['alerts'] });
     };
 
+    // Posts to an incident thread; the push notification covers the alerting
+    const handleEmergencyUpdate = () => {
+      queryClient.invalidateQueries({ queryKey: ['emergency'] });
+    };
+
     // ============================================================================
     // MEDICATION EVENTS
     // ============================================================================
@@ -318,6 +323,7 @@ export function useWebSocket(familyId?: string) {
 
     wsClient.on(WS_EVENTS.EMERGENCY_ALERT, handleEmergencyAlert);
     wsClient.on(WS_EVENTS.EMERGENCY_RESOLVED, handleEmergencyResolved);
+    wsClient.on(WS_EVENTS.EMERGENCY_UPDATE, handleEmergencyUpdate);
     wsClient.on(WS_EVENTS.MEDICATION_LOGGED, handleMedicationLogged);
     wsClient.on(WS_EVENTS.MEDICATION_REMINDER, handleMedicationReminder);
     wsClient.on(WS_EVENTS.APPOINTMENT_CREATED, handleAppointmentCreated);
@@ -349,6 +355,7 @@ export function useWebSocket(familyId?: string) {
     return () => {
       wsClient.off(WS_EVENTS.EMERGENCY_ALERT, handleEmergencyAlert);
       wsClient.off(WS_EVENTS.EMERGENCY_RESOLVED, handleEmergencyResolved);
+      wsClient.off(WS_EVENTS.EMERGENCY_UPDATE, handleEmergencyUpdate);
       wsClient.off(WS_EVENTS.MEDICATION_LOGGED, handleMedicationLogged);
       wsClient.off(WS_EVENTS.MEDICATION_REMINDER, handleMedicationReminder);
       wsClient.off(WS_EVENTS.APPOINTMENT_CREATED, handleAppointmentCreated);
@@ -10,8 +10,9 @@ export interface Appointment {
   location?: string;
   address?: string;
   notes?: string;
-  status: 'SCHEDULED' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+  status: 'DRAFT' | 'SCHEDULED' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
   recurrence?: string;
+  followUpOfId?: string | null;
   reminderMinutes: number[];
   createdAt: string;
   transportAssignment?: {
@@ -36,6 +37,111 @@ export interface CreateAppointmentInput {
   reminderMinutes?: number[];
 }
 
+/**
+ * An appointment as read from a calendar invite, sent back as-is to import it
+ */
+export interface ImportedAppointmentInput {
+  title: string;
+  type: string;
+  startTime: string;
+  endTime?: string;
+  doctorId?: string;
+  location?: string;
+  address?: string;
+  notes?: string;
+  isRecurring?: boolean;
+  recurrenceRule?: string;
+  icsUid?: string;
+}
+
+export interface AppointmentImportEvent {
+  appointment: ImportedAppointmentInput;
+  occurrences: number;
+  allDay: boolean;
+  cancelled: boolean;
+  organizer: { name: string | null; email: string | null } | null;
+  doctor: { id: string; name: string; matchedBy: 'organizer' | 'location' | 'text' } | null;
+  duplicates: { id: string; title: string; startTime: string }[];
+  duplicateCount: number;
+}
+
+export interface AppointmentImportPreview {
+  events: AppointmentImportEvent[];
+}
+
+export interface AppointmentImportResult {
+  created: number;
+  items: { title: string; count: number }[];
+  failed: { title: string; error: string }[];
+}
+
+export type MedicationChangeAction = 'START' | 'CHANGE' | 'STOP';
+
+export interface MedicationChangeInput {
+  id?: string;
+  action: MedicationChangeAction;
+  name: string;
+  medicationId?: string;
+  dosage?: string;
+  form?: string;
+  frequency?: string;
+  instructions?: string;
+  reason?: string;
+}
+
+export interface OutcomeMedicationChange {
+  id: string;
+  action: MedicationChangeAction;
+  name: string;
+  medicationId: string | null;
+  dosage: string | null;
+  form: string | null;
+  frequency: string | null;
+  instructions: string | null;
+  reason: string | null;
+  status: 'PENDING' | 'APPLIED' | 'DISMISSED';
+  appliedMedicationId: string | null;
+  resolvedAt: string | null;
+}
+
+export interface AppointmentOutcome {
+  id: string;
+  appointmentId: string;
+  doctorNotes: string | null;
+  diagnoses: string[];
+  medicationChanges: OutcomeMedicationChange[];
+  orderedLabs: string[];
+  labsDueDate: string | null;
+  nextVisitDate: string | null;
+  timelineEntryId: string | null;
+  recordedBy: { id: string; fullName: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AppointmentOutcomeDetails {
+  outcome: AppointmentOutcome | null;
+  followUps: Appointment[];
+}
+
+export interface RecordOutcomeInput {
+  doctorNotes?: string;
+  diagnoses?: string[];
+  medicationChanges?: MedicationChangeInput[];
+  orderedLabs?: string[];
+  labsDueDate?: string;
+  nextVisitDate?: string;
+}
+
+export interface ApplyMedicationChangeInput {
+  dosage?: string;
+  form?: string;
+  frequency?: string;
+  timesPerDay?: number;
+  scheduledTimes?: string[];
+  instructions?: string;
+}
+
 export interface AssignTransportInput {
   assignedToId: string;
   notes?: string;
@@ -63,7 +169,11 @@ export const appointmentsApi = {
     return api.post<Appointment>(`/care-recipients/${careRecipientId}/appointments`, data);
   },
 
-  update: async (careRecipientId: string, id: string, data: Partial<CreateAppointmentInput>): Promise<Appointment> => {
+  update: async (
+    careRecipientId: string,
+    id: string,
+    data: Partial<CreateAppointmentInput> & { status?: Appointment['status'] }
+  ): Promise<Appointment> => {
     return api.patch<Appointment>(`/care-recipients/${careRecipientId}/appointments/${id}`, data);
   },
 
@@ -75,6 +185,46 @@ export const appointmentsApi = {
     await api.delete(`/care-recipients/${careRecipientId}/appointments/${id}`);
   },
 
+  // Calendar invite import
+  previewImport: async (careRecipientId: string, file: File): Promise<AppointmentImportPreview> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return api.upload<AppointmentImportPreview>(
+      `/care-recipients/${careRecipientId}/appointments/import/preview`,
+      formData
+    );
+  },
+
+  importAppointments: async (
+    careRecipientId: string,
+    appointments: ImportedAppointmentInput[]
+  ): Promise<AppointmentImportResult> => {
+    return api.post<AppointmentImportResult>(`/care-recipients/${careRecipientId}/appointments/import`, {
+      appointments,
+    });
+  },
+
+  // Visit outcome
+  getOutcome: async (id: string): Promise<AppointmentOutcomeDetails> => {
+    return api.get<AppointmentOutcomeDetails>(`/appointments/${id}/outcome`);
+  },
+
+  recordOutcome: async (id: string, data: RecordOutcomeInput): Promise<AppointmentOutcomeDetails> => {
+    return api.put<AppointmentOutcomeDetails>(`/appointments/${id}/outcome`, data);
+  },
+
+  applyMedicationChange: async (
+    id: string,
+    changeId: string,
+    data: ApplyMedicationChangeInput = {}
+  ): Promise<AppointmentOutcome> => {
+    return api.post<AppointmentOutcome>(`/appointments/${id}/outcome/medication-changes/${changeId}/apply`, data);
+  },
+
+  dismissMedicationChange: async (id: string, changeId: string): Promise<AppointmentOutcome> => {
+    return api.post<AppointmentOutcome>(`/appointments/${id}/outcome/medication-changes/${changeId}/dismiss`);
+  },
+
   // Transport
   assignTransport: async (careRecipientId: string, id: string, data: AssignTransportInput): Promise<void> => {
     await api.post(`/care-recipients/${careRecipientId}/appointments/${id}/transport`, data);
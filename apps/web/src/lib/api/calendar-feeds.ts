@@ -0,0 +1,35 @@
+import { api } from './client';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000/api/v1';
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  name?: string | null;
+  includeAppointments: boolean;
+  includeShifts: boolean;
+  lastAccessedAt?: string | null;
+  createdAt: string;
+}
+
+export interface CreateCalendarFeedDto {
+  name?: string;
+  includeAppointments?: boolean;
+  includeShifts?: boolean;
+}
+
+/**
+ * Subscription URL for calendar apps; anyone with it can read the feed
+ */
+export const calendarFeedUrl = (feed: CalendarFeed) => `${API_URL}/calendar-feeds/${feed.token}.ics`;
+
+export const calendarFeedsApi = {
+  // Get my calendar subscription feeds
+  list: (): Promise<CalendarFeed[]> => api.get('/calendar-feeds'),
+
+  // Create a feed with a new secret URL
+  create: (data: CreateCalendarFeedDto): Promise<CalendarFeed> => api.post('/calendar-feeds', data),
+
+  // Revoke a feed; calendars subscribed to it stop updating
+  revoke: (feedId: string): Promise<{ success: boolean }> => api.delete(`/calendar-feeds/${feedId}`),
+};
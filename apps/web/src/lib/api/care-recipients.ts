@@ -16,6 +16,9 @@ export interface CareRecipient {
   hospitalAddress?: string;
   insuranceProvider?: string;
   insurancePolicyNo?: string;
+  homeLatitude?: number | null;
+  homeLongitude?: number | null;
+  checkInRadiusMeters?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -53,6 +56,9 @@ export interface CreateCareRecipientInput {
   hospitalAddress?: string;
   insuranceProvider?: string;
   insurancePolicyNo?: string;
+  homeLatitude?: number | null;
+  homeLongitude?: number | null;
+  checkInRadiusMeters?: number;
 }
 
 export const careRecipientsApi = {
@@ -10,6 +10,19 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Message to show for a failed request. Validation errors come back with a
+ * list of messages, so anything that isn't a single string uses `fallback`.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) {
+    return fallback;
+  }
+
+  const message: unknown = error instanceof ApiError ? error.data?.message || error.message : error.message;
+  return typeof message === 'string' && message ? message : fallback;
+}
+
 interface RequestOptions extends RequestInit {
   skipAuth?: boolean;
 }
@@ -188,6 +201,33 @@ class ApiClient {
     const text = await response.text();
     return text ? JSON.parse(text) : ({} as T);
   }
+
+  /**
+   * GET a file (PDF, CSV) as a Blob
+   */
+  async download(url: string, options?: RequestOptions): Promise<Blob> {
+    const { skipAuth = false, ...fetchOptions } = options || {};
+
+    const headers: HeadersInit = { ...fetchOptions.headers };
+
+    if (!skipAuth && this.accessToken) {
+      (headers as Record<string, string>)['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    const response = await fetch(`${API_URL}${url}`, {
+      ...fetchOptions,
+      method: 'GET',
+      headers,
+      credentials: 'include', // CRITICAL: Include httpOnly cookies
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ message: 'Download failed' }));
+      throw new ApiError(response.status, errorData);
+    }
+
+    return response.blob();
+  }
 }
 
 export const api = new ApiClient();
@@ -25,10 +25,41 @@ export interface Document {
   sizeBytes: number;
   expiresAt?: string;
   notes?: string;
+  currentVersion: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  versionNumber: number;
+  mimeType: string;
+  sizeBytes: number;
+  expiresAt: string | null;
+  notes: string | null;
+  restoredFromVersion: number | null;
+  supersededAt: string | null;
+  isCurrent: boolean;
+  createdAt: string;
+  uploadedBy: { id: string; fullName: string };
+  supersededBy: { id: string; fullName: string } | null;
+}
+
+export interface UploadDocumentVersionInput {
+  file: File;
+  expiresAt?: string;
+  notes?: string;
+}
+
+export interface DocumentUrls {
+  url: string;
+  viewUrl: string;
+  downloadUrl: string;
+  filename: string;
+  mimeType: string;
+}
+
 export interface UploadDocumentInput {
   name: string;
   type: DocumentType;
@@ -72,20 +103,37 @@ export const documentsApi = {
   },
 
   // Get URLs for viewing/downloading a document
-  getSignedUrl: async (familyId: string, documentId: string): Promise<{
-    url: string;
-    viewUrl: string;
-    downloadUrl: string;
-    filename: string;
-    mimeType: string;
-  }> => {
-    return api.get<{
-      url: string;
-      viewUrl: string;
-      downloadUrl: string;
-      filename: string;
-      mimeType: string;
-    }>(`/families/${familyId}/documents/${documentId}/url`);
+  getSignedUrl: async (familyId: string, documentId: string): Promise<DocumentUrls> => {
+    return api.get<DocumentUrls>(`/families/${familyId}/documents/${documentId}/url`);
+  },
+
+  // Every version of a document, newest first
+  getVersions: async (familyId: string, documentId: string): Promise<DocumentVersion[]> => {
+    return api.get<DocumentVersion[]>(`/families/${familyId}/documents/${documentId}/versions`);
+  },
+
+  // Upload a new file that supersedes the current one; the old file is kept
+  uploadVersion: async (
+    familyId: string,
+    documentId: string,
+    data: UploadDocumentVersionInput
+  ): Promise<Document> => {
+    const formData = new FormData();
+    formData.append('file', data.file);
+    if (data.expiresAt) formData.append('expiresAt', data.expiresAt);
+    if (data.notes) formData.append('notes', data.notes);
+
+    return api.upload<Document>(`/families/${familyId}/documents/${documentId}/versions`, formData);
+  },
+
+  // Get URLs for viewing/downloading an older version
+  getVersionUrl: async (familyId: string, documentId: string, versionId: string): Promise<DocumentUrls> => {
+    return api.get<DocumentUrls>(`/families/${familyId}/documents/${documentId}/versions/${versionId}/url`);
+  },
+
+  // Make an older version current again
+  restoreVersion: async (familyId: string, documentId: string, versionId: string): Promise<Document> => {
+    return api.post<Document>(`/families/${familyId}/documents/${documentId}/versions/${versionId}/restore`);
   },
 
   // Get documents grouped by category/type
@@ -61,9 +61,15 @@ export interface EmergencyAlert {
   location?: string;
   createdAt: string;
   acknowledgedAt?: string;
+  acknowledgedById?: string;
+  escalationLevel: number;
+  escalations: EscalationRecord[];
   resolvedAt?: string;
   resolvedById?: string;
   resolutionNotes?: string;
+  hospitalName?: string | null;
+  hospitalAddress?: string | null;
+  timelineEntryId?: string | null;
   createdBy: {
     id: string;
     fullName: string;
@@ -74,6 +80,142 @@ export interface EmergencyAlert {
   };
 }
 
+export type EmergencyUpdateType = 'RESPONDING' | 'STATUS' | 'PHOTO' | 'HOSPITAL' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export interface EmergencyAlertUpdate {
+  id: string;
+  alertId: string;
+  authorId: string;
+  type: EmergencyUpdateType;
+  message: string | null;
+  etaMinutes: number | null;
+  photoUrl: string | null;
+  hospitalName: string | null;
+  hospitalAddress: string | null;
+  createdAt: string;
+  author: {
+    id: string;
+    fullName: string;
+  };
+}
+
+export interface EmergencyAlertDetail extends EmergencyAlert {
+  updates: EmergencyAlertUpdate[];
+  careRecipient: {
+    id: string;
+    fullName: string;
+    preferredName: string | null;
+    primaryHospital: string | null;
+    hospitalAddress: string | null;
+  };
+}
+
+export interface EmergencyUpdateInput {
+  type: 'RESPONDING' | 'STATUS' | 'HOSPITAL';
+  message?: string;
+  etaMinutes?: number;
+  hospitalName?: string;
+  hospitalAddress?: string;
+}
+
+export type EscalationAudience = 'ALL_MEMBERS' | 'ADMINS' | 'EMERGENCY_CONTACTS';
+export type EscalationChannel = 'PUSH' | 'EMAIL';
+
+export interface EscalationStep {
+  afterMinutes: number;
+  audience: EscalationAudience;
+  channels: EscalationChannel[];
+}
+
+export interface EscalationPolicy {
+  familyId: string;
+  steps: EscalationStep[];
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export interface EscalationRecord extends EscalationStep {
+  step: number;
+  escalatedAt: string;
+  notifiedUserIds: string[];
+  emailedContacts: string[];
+  unreachableContacts: string[];
+}
+
+export type EmergencyShareField =
+  | 'DATE_OF_BIRTH'
+  | 'BLOOD_TYPE'
+  | 'ALLERGIES'
+  | 'CONDITIONS'
+  | 'MEDICATIONS'
+  | 'CRITICAL_DOCUMENTS'
+  | 'EMERGENCY_CONTACTS'
+  | 'PRIMARY_DOCTOR'
+  | 'HOSPITAL'
+  | 'INSURANCE';
+
+export interface EmergencyShareLink {
+  id: string;
+  careRecipientId: string;
+  token?: string; // Omitted for viewers
+  url?: string;
+  label: string | null;
+  hiddenFields: EmergencyShareField[];
+  expiresAt: string;
+  revokedAt: string | null;
+  lastAccessedAt: string | null;
+  accessCount: number;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    fullName: string;
+  };
+}
+
+export interface EmergencyShareLinkInput {
+  label?: string;
+  hiddenFields?: EmergencyShareField[];
+  expiresInDays?: number;
+}
+
+export interface EmergencyShareAccess {
+  id: string;
+  action: string;
+  userId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  timestamp: string;
+}
+
+// First-responder view; hidden sections are left out entirely
+export interface SharedEmergencyInfo {
+  name: string;
+  preferredName?: string | null;
+  dateOfBirth?: string | null;
+  age?: number | null;
+  bloodType?: string | null;
+  allergies?: string[];
+  conditions?: string[];
+  medications?: EmergencyInfo['medications'];
+  documents?: {
+    dnr: boolean;
+    powerOfAttorney: boolean;
+    insuranceCard: boolean;
+    photoId: boolean;
+  };
+  emergencyContacts?: {
+    name: string;
+    relationship: string;
+    phone: string;
+    isPrimary: boolean;
+  }[];
+  primaryDoctor?: { name: string; specialty: string; phone: string } | null;
+  hospital?: { name: string | null; address: string | null };
+  insurance?: { provider: string | null; policyNumber: string | null };
+  updatedAt: string;
+  expiresAt: string;
+}
+
 export interface CreateEmergencyAlertInput {
   type: 'FALL' | 'MEDICAL' | 'HOSPITALIZATION' | 'MISSING' | 'OTHER';
   title: string;
@@ -120,5 +262,77 @@ export const emergencyApi = {
       resolutionNotes,
     });
   },
-};
 
+  // Alert with its incident thread
+  getAlert: async (careRecipientId: string, alertId: string): Promise<EmergencyAlertDetail> => {
+    return api.get<EmergencyAlertDetail>(`/care-recipients/${careRecipientId}/emergency/alerts/${alertId}`);
+  },
+
+  postUpdate: async (
+    careRecipientId: string,
+    alertId: string,
+    data: EmergencyUpdateInput
+  ): Promise<EmergencyAlertUpdate> => {
+    return api.post<EmergencyAlertUpdate>(`/care-recipients/${careRecipientId}/emergency/alerts/${alertId}/updates`, data);
+  },
+
+  addPhoto: async (
+    careRecipientId: string,
+    alertId: string,
+    file: File,
+    caption?: string
+  ): Promise<EmergencyAlertUpdate> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (caption) formData.append('caption', caption);
+    return api.upload<EmergencyAlertUpdate>(
+      `/care-recipients/${careRecipientId}/emergency/alerts/${alertId}/photos`,
+      formData
+    );
+  },
+
+  // Who is notified, and when, while an alert stays unacknowledged
+  getEscalationPolicy: async (familyId: string): Promise<EscalationPolicy> => {
+    return api.get<EscalationPolicy>(`/families/${familyId}/emergency/escalation-policy`);
+  },
+
+  updateEscalationPolicy: async (familyId: string, steps: EscalationStep[]): Promise<EscalationPolicy> => {
+    return api.put<EscalationPolicy>(`/families/${familyId}/emergency/escalation-policy`, { steps });
+  },
+
+  // Share links to the first-responder view
+  getShareLinks: async (careRecipientId: string): Promise<EmergencyShareLink[]> => {
+    return api.get<EmergencyShareLink[]>(`/care-recipients/${careRecipientId}/emergency/share-links`);
+  },
+
+  createShareLink: async (careRecipientId: string, data: EmergencyShareLinkInput): Promise<EmergencyShareLink> => {
+    return api.post<EmergencyShareLink>(`/care-recipients/${careRecipientId}/emergency/share-links`, data);
+  },
+
+  updateShareLink: async (
+    careRecipientId: string,
+    linkId: string,
+    data: Omit<EmergencyShareLinkInput, 'expiresInDays'>
+  ): Promise<EmergencyShareLink> => {
+    return api.patch<EmergencyShareLink>(`/care-recipients/${careRecipientId}/emergency/share-links/${linkId}`, data);
+  },
+
+  revokeShareLink: async (careRecipientId: string, linkId: string): Promise<{ success: boolean }> => {
+    return api.delete<{ success: boolean }>(`/care-recipients/${careRecipientId}/emergency/share-links/${linkId}`);
+  },
+
+  getShareLinkQrCode: async (careRecipientId: string, linkId: string): Promise<Blob> => {
+    return api.download(`/care-recipients/${careRecipientId}/emergency/share-links/${linkId}/qr`);
+  },
+
+  getShareLinkAccessLog: async (careRecipientId: string, linkId: string): Promise<EmergencyShareAccess[]> => {
+    return api.get<EmergencyShareAccess[]>(
+      `/care-recipients/${careRecipientId}/emergency/share-links/${linkId}/access-log`
+    );
+  },
+
+  // Public: opened by whoever scans the QR code
+  getSharedInfo: async (token: string): Promise<SharedEmergencyInfo> => {
+    return api.get<SharedEmergencyInfo>(`/emergency-id/${token}`, { skipAuth: true });
+  },
+};
@@ -0,0 +1,106 @@
+import { api } from './client';
+
+interface HospitalStayPerson {
+  id: string;
+  fullName: string;
+}
+
+export interface MedicationSnapshotItem {
+  medicationId: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  instructions: string | null;
+}
+
+export type ReconciliationDecision = 'CONTINUE' | 'CHANGE' | 'STOP';
+
+export interface ReconciliationRecord {
+  medicationId: string;
+  name: string;
+  decision: ReconciliationDecision;
+  dosage: string | null;
+  instructions: string | null;
+}
+
+export interface HospitalStay {
+  id: string;
+  careRecipientId: string;
+  facility: string;
+  ward: string | null;
+  room: string | null;
+  reason: string;
+  attendingDoctor: string | null;
+  admittedAt: string;
+  dischargedAt: string | null;
+  dischargeInstructions: string | null;
+  medicationSnapshot: MedicationSnapshotItem[];
+  reconciliation: ReconciliationRecord[] | null;
+  reconciledAt: string | null;
+  createdAt: string;
+  recordedBy: HospitalStayPerson;
+  dischargedBy: HospitalStayPerson | null;
+  reconciledBy: HospitalStayPerson | null;
+}
+
+export interface MedicationReconciliation {
+  reconciled: boolean;
+  medications: (MedicationSnapshotItem & {
+    // null when the medication has been deleted since admission
+    current: { id: string; dosage: string; instructions: string | null; isActive: boolean } | null;
+  })[];
+  startedSinceAdmission: {
+    id: string;
+    name: string;
+    dosage: string;
+    frequency: string;
+    instructions: string | null;
+  }[];
+}
+
+export interface AdmitHospitalStayInput {
+  facility: string;
+  ward?: string;
+  room?: string;
+  reason: string;
+  attendingDoctor?: string;
+  admittedAt?: string;
+}
+
+export interface DischargeHospitalStayInput {
+  dischargedAt?: string;
+  dischargeInstructions?: string;
+}
+
+export interface MedicationReconciliationItem {
+  medicationId: string;
+  decision: ReconciliationDecision;
+  dosage?: string;
+  instructions?: string;
+}
+
+const base = (careRecipientId: string) => `/care-recipients/${careRecipientId}/hospital-stays`;
+
+export const hospitalStaysApi = {
+  list: (careRecipientId: string): Promise<HospitalStay[]> => api.get(base(careRecipientId)),
+
+  // Record an admission; reminders and home shifts pause until discharge
+  admit: (careRecipientId: string, data: AdmitHospitalStayInput): Promise<HospitalStay> =>
+    api.post(base(careRecipientId), data),
+
+  update: (careRecipientId: string, stayId: string, data: Partial<AdmitHospitalStayInput>): Promise<HospitalStay> =>
+    api.patch(`${base(careRecipientId)}/${stayId}`, data),
+
+  discharge: (
+    careRecipientId: string,
+    stayId: string,
+    data: DischargeHospitalStayInput
+  ): Promise<HospitalStay & { medicationReconciliation: MedicationReconciliation }> =>
+    api.post(`${base(careRecipientId)}/${stayId}/discharge`, data),
+
+  getReconciliation: (careRecipientId: string, stayId: string): Promise<MedicationReconciliation> =>
+    api.get(`${base(careRecipientId)}/${stayId}/reconciliation`),
+
+  reconcile: (careRecipientId: string, stayId: string, items: MedicationReconciliationItem[]): Promise<HospitalStay> =>
+    api.post(`${base(careRecipientId)}/${stayId}/reconciliation`, { items }),
+};
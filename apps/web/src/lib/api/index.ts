@@ -7,8 +7,10 @@ export * from './appointments';
 export * from './timeline';
 export * from './family';
 export * from './emergency';
+export * from './hospital-stays';
 export * from './documents';
 export * from './shifts';
 export * from './notifications';
 export * from './admin';
 
+export * from './calendar-feeds';
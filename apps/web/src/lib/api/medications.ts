@@ -1,5 +1,17 @@
 import { api } from './client';
 
+export interface MedicationSchedulePhase {
+  id?: string;
+  startDate: string;
+  endDate?: string;
+  recurrenceRule: string;
+  times?: string[];
+  dosage?: string;
+  doseQuantity?: number;
+  cycleDaysOn?: number;
+  cycleDaysOff?: number;
+}
+
 export interface Medication {
   id: string;
   careRecipientId: string;
@@ -8,12 +20,17 @@ export interface Medication {
   form: string;
   frequency: string;
   scheduledTimes: string[];
+  schedulePhases?: MedicationSchedulePhase[];
   instructions?: string;
   prescribedBy?: string;
   pharmacy?: string;
   pharmacyPhone?: string;
   currentSupply?: number;
   refillAt?: number;
+  doseMg?: number;
+  prnMinIntervalHours?: number;
+  prnMaxDosesPer24h?: number;
+  prnMaxMgPer24h?: number;
   isActive: boolean;
   startDate?: string;
   endDate?: string;
@@ -34,12 +51,29 @@ export interface MedicationScheduleItem {
     fullName: string;
   };
   skipReason?: string;
+  prn?: MedicationPrnStatus;
+  asNeeded?: boolean; // As-needed medication: no time slot, given whenever required
+}
+
+/** PRN (as-needed) safeguard status, present when the medication has limits. */
+export interface MedicationPrnStatus {
+  canGiveNow: boolean;
+  nextDoseAllowedAt: string | null;
+  dosesInLast24h: number;
+  mgInLast24h: number | null;
 }
 
 /** Raw shape returned by the API's schedule/today endpoint. */
 interface RawScheduleResponse {
   medication: Medication;
   scheduledTimes: string[];
+  doses?: Array<{
+    scheduledTime: string;
+    time: string;
+    dosage: string;
+    doseQuantity: number;
+  }>;
+  prn?: MedicationPrnStatus;
   logs: Array<{
     id: string;
     status: string;
@@ -50,6 +84,75 @@ interface RawScheduleResponse {
   }>;
 }
 
+export interface AdherenceCounts {
+  scheduled: number;
+  given: number;
+  skipped: number;
+  missed: number;
+  adherencePercent: number | null;
+}
+
+export interface AdherenceStreaks {
+  current: number;
+  longest: number;
+}
+
+export interface MedicationAdherenceReport {
+  from: string;
+  to: string;
+  overall: AdherenceCounts & { streaks: AdherenceStreaks };
+  medications: Array<AdherenceCounts & {
+    medicationId: string;
+    name: string;
+    dosage: string;
+    streaks: AdherenceStreaks;
+  }>;
+  daily: Array<AdherenceCounts & { date: string }>;
+  mostMissedTimeSlots: Array<{ time: string; missed: number; scheduled: number }>;
+  caregivers: Array<{ userId: string; fullName: string; given: number; skipped: number }>;
+}
+
+export type MedicationRefillStatus = 'REQUESTED' | 'ORDERED' | 'READY_FOR_PICKUP' | 'PICKED_UP' | 'CANCELLED';
+
+export interface MedicationRefill {
+  id: string;
+  medicationId: string;
+  status: MedicationRefillStatus;
+  quantity?: number | null;
+  pharmacy?: string | null;
+  notes?: string | null;
+  requestedBy?: { id: string; fullName: string };
+  assignedTo?: { id: string; fullName: string } | null;
+  pickupDueAt?: string | null;
+  requestedAt: string;
+  orderedAt?: string | null;
+  readyAt?: string | null;
+  pickedUpAt?: string | null;
+  cancelledAt?: string | null;
+}
+
+export interface MedicationSupplyForecast {
+  medicationId: string;
+  medicationName: string;
+  currentSupply: number | null;
+  refillAt: number | null;
+  averageDailyUsage: number | null;
+  projectedRunOutDate: string | null;
+  daysRemaining: number | null;
+  needsRefill: boolean;
+  basis: 'schedule' | 'history' | 'none';
+  openRefill: MedicationRefill | null;
+}
+
+export interface MedicationRefillInput {
+  status?: MedicationRefillStatus;
+  quantity?: number;
+  pharmacy?: string;
+  assignedToId?: string;
+  pickupDueAt?: string;
+  notes?: string;
+}
+
 export interface CreateMedicationInput {
   name: string;
   genericName?: string;
@@ -58,12 +161,17 @@ export interface CreateMedicationInput {
   frequency: string;
   timesPerDay?: number;
   scheduledTimes?: string[];
+  schedulePhases?: MedicationSchedulePhase[];
   instructions?: string;
   prescribedBy?: string;
   pharmacy?: string;
   pharmacyPhone?: string;
   currentSupply?: number;
   refillAt?: number;
+  doseMg?: number;
+  prnMinIntervalHours?: number;
+  prnMaxDosesPer24h?: number;
+  prnMaxMgPer24h?: number;
   startDate?: string;
   endDate?: string;
   notes?: string;
@@ -113,6 +221,41 @@ export const medicationsApi = {
     // Otherwise flatten: expand each medication × scheduledTimes into individual items
     const items: MedicationScheduleItem[] = [];
     for (const entry of raw as RawScheduleResponse[]) {
+      // As-needed medications have no doses; list them once with their PRN status
+      if (entry.medication.frequency === 'AS_NEEDED') {
+        items.push({
+          medication: entry.medication,
+          scheduledTime: '',
+          time: '',
+          status: 'PENDING',
+          prn: entry.prn,
+          asNeeded: true,
+        });
+        continue;
+      }
+
+      // Newer APIs return concrete doses (tapers, interval dosing) — match logs by exact time
+      if (entry.doses) {
+        for (const dose of entry.doses) {
+          const matchingLog = entry.logs?.find(
+            (l) => l.scheduledTime && new Date(l.scheduledTime).getTime() === new Date(dose.scheduledTime).getTime(),
+          );
+
+          items.push({
+            medication: { ...entry.medication, dosage: dose.dosage },
+            scheduledTime: dose.scheduledTime,
+            time: dose.time,
+            status: (matchingLog?.status as MedicationScheduleItem['status']) || 'PENDING',
+            logId: matchingLog?.id,
+            givenTime: matchingLog?.givenAt,
+            givenBy: matchingLog?.givenBy,
+            skipReason: matchingLog?.skipReason,
+            prn: entry.prn,
+          });
+        }
+        continue;
+      }
+
       const times = entry.scheduledTimes || entry.medication?.scheduledTimes || [];
       for (const time of times) {
         const matchingLog = entry.logs?.find((l) => {
@@ -138,6 +281,41 @@ export const medicationsApi = {
     return items;
   },
 
+  getAdherence: async (
+    careRecipientId: string,
+    range?: { from?: string; to?: string }
+  ): Promise<MedicationAdherenceReport> => {
+    const params = new URLSearchParams();
+    if (range?.from) params.append('from', range.from);
+    if (range?.to) params.append('to', range.to);
+    const query = params.toString();
+    return api.get<MedicationAdherenceReport>(
+      `/care-recipients/${careRecipientId}/medications/adherence${query ? `?${query}` : ''}`
+    );
+  },
+
+  // Medication administration record for a month (yyyy-MM)
+  downloadMar: async (careRecipientId: string, month: string, format: 'pdf' | 'csv'): Promise<Blob> => {
+    return api.download(`/care-recipients/${careRecipientId}/medications/mar?month=${month}&format=${format}`);
+  },
+
+  getSupplyForecasts: async (careRecipientId: string): Promise<MedicationSupplyForecast[]> => {
+    return api.get<MedicationSupplyForecast[]>(`/care-recipients/${careRecipientId}/medications/supply`);
+  },
+
+  // Refills
+  listRefills: async (medicationId: string): Promise<MedicationRefill[]> => {
+    return api.get<MedicationRefill[]>(`/medications/${medicationId}/refills`);
+  },
+
+  requestRefill: async (medicationId: string, data: MedicationRefillInput): Promise<MedicationRefill> => {
+    return api.post<MedicationRefill>(`/medications/${medicationId}/refills`, data);
+  },
+
+  updateRefill: async (refillId: string, data: MedicationRefillInput): Promise<MedicationRefill> => {
+    return api.patch<MedicationRefill>(`/medications/refills/${refillId}`, data);
+  },
+
   // Logging
   log: async (medicationId: string, data: LogMedicationInput): Promise<void> => {
     await api.post(`/medications/${medicationId}/log`, data);
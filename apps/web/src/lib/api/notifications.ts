@@ -6,12 +6,17 @@ export type NotificationType =
   | 'APPOINTMENT_REMINDER'
   | 'SHIFT_REMINDER'
   | 'SHIFT_HANDOFF'
+  | 'SHIFT_SWAP'
+  | 'COVERAGE_GAP'
+  | 'TIME_CORRECTION'
   | 'EMERGENCY_ALERT'
   | 'FAMILY_INVITE'
   | 'DOCUMENT_SHARED'
   | 'TIMELINE_UPDATE'
   | 'REFILL_NEEDED'
   | 'REFILL_ALERT'
+  | 'REFILL_PICKUP'
+  | 'VITALS_ALERT'
   | 'GENERAL'
   // Admin action notifications
   | 'CARE_RECIPIENT_DELETED'
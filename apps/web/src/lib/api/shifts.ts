@@ -1,5 +1,7 @@
 import { api } from './client';
 
+export type LocationVerification = 'VERIFIED' | 'OUTSIDE_RADIUS' | 'NOT_PROVIDED';
+
 export interface CaregiverShift {
   id: string;
   careRecipientId: string;
@@ -7,13 +9,26 @@ export interface CaregiverShift {
   startTime: string;
   endTime: string;
   status: 'SCHEDULED' | 'CONFIRMED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+  notes?: string | null;
   actualStartTime?: string;
   actualEndTime?: string;
   checkInNotes?: string;
   checkOutNotes?: string;
   handoffNotes?: string;
-  checkInLocation?: string;
-  checkOutLocation?: string;
+  checkInLatitude?: number | null;
+  checkInLongitude?: number | null;
+  checkInDistanceMeters?: number | null;
+  checkInLocation?: LocationVerification | null;
+  checkOutLatitude?: number | null;
+  checkOutLongitude?: number | null;
+  checkOutDistanceMeters?: number | null;
+  checkOutLocation?: LocationVerification | null;
+  locationFlagged?: boolean;
+  locationReviewedAt?: string | null;
+  locationReviewNote?: string | null;
+  seriesId?: string | null;
+  occurrenceStart?: string | null;
+  isSeriesException?: boolean;
   createdAt: string;
   updatedAt: string;
   caregiver?: {
@@ -41,17 +56,307 @@ export interface CreateShiftDto {
   notes?: string;
 }
 
-export interface CheckInDto {
+export type ShiftRecurrence = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export type ShiftEditScope = 'this' | 'following' | 'all';
+
+export interface CreateShiftSeriesDto extends CreateShiftDto {
+  recurrence?: ShiftRecurrence;
+  recurrenceRule?: string;
+  recurrenceEndDate?: string;
+  skipConflicts?: boolean;
+}
+
+export interface UpdateShiftDto {
+  caregiverId?: string;
+  startTime?: string;
+  endTime?: string;
+  notes?: string;
+  scope?: ShiftEditScope;
+  skipConflicts?: boolean;
+}
+
+export interface ShiftSeries {
+  id: string;
+  careRecipientId: string;
+  caregiverId: string;
+  recurrenceRule: string;
+  durationMinutes: number;
+  notes?: string | null;
+  isActive: boolean;
+  materializedUntil: string | null;
+  description: string;
+  upcomingShifts?: number;
+  shiftsCreated?: number;
+  skipped?: string[];
+  caregiver?: {
+    id: string;
+    fullName: string;
+    email?: string;
+    avatarUrl?: string;
+  };
+}
+
+export type ShiftSwapStatus = 'OPEN' | 'CLAIMED' | 'APPROVED' | 'CANCELLED';
+
+export interface ShiftSwapRequest {
+  id: string;
+  shiftId: string;
+  requestedById: string;
+  status: ShiftSwapStatus;
+  reason?: string | null;
+  claimedById?: string | null;
+  tradeShiftId?: string | null;
+  claimNote?: string | null;
+  claimedAt?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  shift: CaregiverShift;
+  tradeShift?: Pick<CaregiverShift, 'id' | 'startTime' | 'endTime' | 'status'> | null;
+  requestedBy: { id: string; fullName: string };
+  claimedBy?: { id: string; fullName: string; avatarUrl?: string } | null;
+  resolvedBy?: { id: string; fullName: string } | null;
+}
+
+export interface CoverageWindow {
+  id?: string;
+  daysOfWeek: number[]; // 0 = Sunday; empty means every day
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, at or before startTime runs past midnight
+  label?: string | null;
+}
+
+export interface CoverageSettings {
+  alertDays: number;
+  windows: CoverageWindow[];
+}
+
+export interface CoverageGap {
+  start: string;
+  end: string;
+  durationMinutes: number;
+}
+
+export interface CoverageGapsResponse {
+  from: string;
+  until: string;
+  hasRequirements: boolean;
+  // Coverage isn't needed while the care recipient is in hospital
+  pausedForHospitalStay: boolean;
+  gaps: CoverageGap[];
+}
+
+export interface AvailabilityWindow {
+  id?: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+}
+
+export interface AvailabilityBlackout {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+}
+
+export interface MemberAvailability {
+  userId: string;
+  fullName: string;
+  avatarUrl?: string | null;
+  role: 'ADMIN' | 'CAREGIVER' | 'VIEWER';
+  maxHoursPerWeek: number | null;
+  windows: AvailabilityWindow[];
+  blackouts: AvailabilityBlackout[];
+}
+
+export type AvailabilityStatus = 'AVAILABLE' | 'PARTIAL' | 'UNAVAILABLE' | 'UNKNOWN';
+
+export interface AvailabilityWarning {
+  code: 'OUTSIDE_AVAILABILITY' | 'BLACKOUT' | 'MAX_HOURS';
+  message: string;
+}
+
+export interface CaregiverCandidate {
+  userId: string;
+  fullName: string;
+  avatarUrl?: string | null;
+  role: 'ADMIN' | 'CAREGIVER' | 'VIEWER';
+  availability: AvailabilityStatus;
+  outsideMinutes: number;
+  blackout: { startDate: string; endDate: string; reason?: string | null } | null;
+  hasConflict: boolean;
+  weekHours: number;
+  projectedWeekHours: number;
+  maxHoursPerWeek: number | null;
+  recentHours: number;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface CaregiverSuggestions {
+  startTime: string;
+  endTime: string;
+  candidates: CaregiverCandidate[];
+}
+
+export type TimesheetFlag = 'OPEN' | 'CORRECTED' | 'PENDING_CORRECTION' | 'OVERTIME';
+
+export interface TimesheetEntry {
+  shiftId: string;
+  date: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  checkedInAt: string;
+  checkedOutAt: string | null;
+  scheduledHours: number;
+  hours: number;
+  overtimeHours: number;
+  flags: TimesheetFlag[];
+}
+
+export interface TimesheetCaregiver {
+  caregiverId: string;
+  fullName: string;
+  shiftCount: number;
+  regularHours: number;
+  overtimeHours: number;
+  totalHours: number;
+  openShifts: number;
+  entries: TimesheetEntry[];
+}
+
+export interface Timesheet {
+  from: string;
+  to: string;
+  overtimeThresholdHours: number;
+  careRecipient: { name: string };
+  caregivers: TimesheetCaregiver[];
+  totals: { regularHours: number; overtimeHours: number; totalHours: number };
+  generatedAt: string;
+}
+
+export interface TimesheetQuery {
+  from: string;
+  to: string;
+  caregiverId?: string;
+  overtimeHours?: number;
+}
+
+export type TimeCorrectionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ShiftTimeCorrection {
+  id: string;
+  shiftId: string;
+  status: TimeCorrectionStatus;
+  originalCheckedInAt: string | null;
+  originalCheckedOutAt: string | null;
+  checkedInAt: string;
+  checkedOutAt: string | null;
+  reason: string;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  createdAt: string;
+  shift: {
+    id: string;
+    caregiverId: string;
+    startTime: string;
+    endTime: string;
+    status: string;
+    checkedInAt: string | null;
+    checkedOutAt: string | null;
+    caregiver: { id: string; fullName: string };
+  };
+  requestedBy: { id: string; fullName: string };
+  reviewedBy?: { id: string; fullName: string } | null;
+}
+
+export interface CreateTimeCorrectionDto {
+  shiftId: string;
+  checkedInAt: string;
+  checkedOutAt?: string;
+  reason: string;
+}
+
+export interface DeviceLocation {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+export interface CheckInDto extends DeviceLocation {
   notes?: string;
   location?: string;
 }
 
-export interface CheckOutDto {
+export interface CheckOutDto extends DeviceLocation {
   notes?: string;
   location?: string;
   handoffNotes?: string;
+  todos?: string[];
+  completedTodoIds?: string[];
+}
+
+export interface HandoffTodo {
+  id: string;
+  text: string;
+  done: boolean;
+  carriedOver: boolean;
 }
 
+export interface HandoffDose {
+  medicationId: string;
+  medicationName: string;
+  dosage: string;
+  status: 'GIVEN' | 'MISSED' | 'SKIPPED';
+  scheduledTime: string;
+  givenTime: string | null;
+  givenBy: string | null;
+}
+
+export interface HandoffSummary {
+  from: string;
+  until: string;
+  medications: {
+    given: HandoffDose[];
+    missed: HandoffDose[];
+    skipped: HandoffDose[];
+  };
+  timelineEntries: {
+    id: string;
+    type: string;
+    title: string;
+    severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | null;
+    occurredAt: string;
+    createdBy: string;
+  }[];
+  openAlerts: {
+    id: string;
+    type: string;
+    title: string;
+    status: 'ACTIVE' | 'ACKNOWLEDGED';
+    createdAt: string;
+  }[];
+}
+
+export interface ShiftHandoff {
+  id: string;
+  shiftId: string;
+  careRecipientId: string;
+  authorId: string;
+  nextShiftId?: string | null;
+  summary: HandoffSummary;
+  notes?: string | null;
+  todos: HandoffTodo[];
+  acknowledgedAt?: string | null;
+  createdAt: string;
+  author: { id: string; fullName: string; avatarUrl?: string };
+  acknowledgedBy?: { id: string; fullName: string } | null;
+  shift?: Pick<CaregiverShift, 'id' | 'startTime' | 'endTime'>;
+}
+
+export type ShiftWithHandoff = CaregiverShift & { handoff?: ShiftHandoff | null };
+
 export interface OnDutyResponse {
   caregiver: {
     id: string;
@@ -64,9 +369,24 @@ export interface OnDutyResponse {
 
 export const shiftsApi = {
   // Create a new shift
-  create: (careRecipientId: string, data: CreateShiftDto): Promise<CaregiverShift> =>
+  create: (
+    careRecipientId: string,
+    data: CreateShiftDto
+  ): Promise<CaregiverShift & { warnings: AvailabilityWarning[] }> =>
     api.post(`/care-recipients/${careRecipientId}/shifts`, data),
 
+  // Create a recurring shift series
+  createSeries: (careRecipientId: string, data: CreateShiftSeriesDto): Promise<ShiftSeries> =>
+    api.post(`/care-recipients/${careRecipientId}/shifts/series`, data),
+
+  // Get active recurring shift series
+  getSeries: (careRecipientId: string): Promise<ShiftSeries[]> =>
+    api.get(`/care-recipients/${careRecipientId}/shifts/series`),
+
+  // Edit a shift, or this and following / all shifts in its series
+  update: (careRecipientId: string, shiftId: string, data: UpdateShiftDto): Promise<CaregiverShift | ShiftSeries> =>
+    api.patch(`/care-recipients/${careRecipientId}/shifts/${shiftId}`, data),
+
   // Get all shifts for a care recipient
   getAll: (careRecipientId: string): Promise<CaregiverShift[]> =>
     api.get(`/care-recipients/${careRecipientId}/shifts`),
@@ -96,18 +416,148 @@ export const shiftsApi = {
     api.get(`/care-recipients/${careRecipientId}/shifts/${shiftId}`),
 
   // Check in to a shift
-  checkIn: (careRecipientId: string, shiftId: string, data?: CheckInDto): Promise<CaregiverShift> =>
+  checkIn: (careRecipientId: string, shiftId: string, data?: CheckInDto): Promise<ShiftWithHandoff> =>
     api.post(`/care-recipients/${careRecipientId}/shifts/${shiftId}/checkin`, data),
 
   // Check out from a shift
-  checkOut: (careRecipientId: string, shiftId: string, data: CheckOutDto): Promise<CaregiverShift> =>
+  checkOut: (careRecipientId: string, shiftId: string, data: CheckOutDto): Promise<ShiftWithHandoff> =>
     api.post(`/care-recipients/${careRecipientId}/shifts/${shiftId}/checkout`, data),
 
-  // Cancel a shift
-  cancel: (careRecipientId: string, shiftId: string): Promise<CaregiverShift> =>
-    api.patch(`/care-recipients/${careRecipientId}/shifts/${shiftId}/cancel`),
+  // Cancel a shift, or with a scope, this and following / all shifts in its series
+  cancel: (careRecipientId: string, shiftId: string, scope?: ShiftEditScope): Promise<unknown> =>
+    api.patch(`/care-recipients/${careRecipientId}/shifts/${shiftId}/cancel${scope ? `?scope=${scope}` : ''}`),
+
+  // Get completed shifts with their handoff reports
+  getHistory: (careRecipientId: string, limit = 20): Promise<ShiftWithHandoff[]> =>
+    api.get(`/care-recipients/${careRecipientId}/shifts/history?limit=${limit}`),
+
+  // Get the most recent handoff report
+  getLatestHandoff: (careRecipientId: string): Promise<ShiftHandoff | null> =>
+    api.get(`/care-recipients/${careRecipientId}/shifts/handoffs/latest`),
+
+  // Get the handoff report written at the end of a shift
+  getHandoff: (careRecipientId: string, shiftId: string): Promise<ShiftHandoff> =>
+    api.get(`/care-recipients/${careRecipientId}/shifts/${shiftId}/handoff`),
+
+  // Get shifts whose check-in or check-out location needs an admin's review
+  getLocationReviews: (careRecipientId: string): Promise<CaregiverShift[]> =>
+    api.get(`/care-recipients/${careRecipientId}/shifts/location-reviews`),
+
+  // Mark a flagged shift location as reviewed
+  reviewLocation: (careRecipientId: string, shiftId: string, note?: string): Promise<CaregiverShift> =>
+    api.post(`/care-recipients/${careRecipientId}/shifts/${shiftId}/location-review`, { note }),
 
   // Get my shifts as a caregiver
   getMyShifts: (upcomingOnly = false): Promise<CaregiverShift[]> =>
     api.get(`/my-shifts?upcomingOnly=${upcomingOnly}`),
 };
+
+export const shiftSwapsApi = {
+  // Offer one of your shifts to the other caregivers
+  offer: (careRecipientId: string, data: { shiftId: string; reason?: string }): Promise<ShiftSwapRequest> =>
+    api.post(`/care-recipients/${careRecipientId}/shift-swaps`, data),
+
+  // Get open and claimed swaps for upcoming shifts
+  getAll: (careRecipientId: string, status?: ShiftSwapStatus): Promise<ShiftSwapRequest[]> =>
+    api.get(`/care-recipients/${careRecipientId}/shift-swaps${status ? `?status=${status}` : ''}`),
+
+  // Claim an offered shift, optionally trading one of your own
+  claim: (
+    careRecipientId: string,
+    swapId: string,
+    data: { tradeShiftId?: string; note?: string }
+  ): Promise<ShiftSwapRequest> =>
+    api.post(`/care-recipients/${careRecipientId}/shift-swaps/${swapId}/claim`, data),
+
+  // Approve a claim and reassign the shift
+  approve: (careRecipientId: string, swapId: string): Promise<ShiftSwapRequest> =>
+    api.post(`/care-recipients/${careRecipientId}/shift-swaps/${swapId}/approve`),
+
+  // Decline a claim and reopen the offer
+  decline: (careRecipientId: string, swapId: string): Promise<ShiftSwapRequest> =>
+    api.post(`/care-recipients/${careRecipientId}/shift-swaps/${swapId}/decline`),
+
+  // Withdraw an offer
+  cancel: (careRecipientId: string, swapId: string): Promise<ShiftSwapRequest> =>
+    api.patch(`/care-recipients/${careRecipientId}/shift-swaps/${swapId}/cancel`),
+};
+
+export const coverageApi = {
+  // Get required coverage windows
+  get: (careRecipientId: string): Promise<CoverageSettings> =>
+    api.get(`/care-recipients/${careRecipientId}/coverage`),
+
+  // Replace required coverage windows (admin only)
+  update: (careRecipientId: string, data: CoverageSettings): Promise<CoverageSettings> =>
+    api.put(`/care-recipients/${careRecipientId}/coverage`, data),
+
+  // Get uncovered intervals over the next N days
+  getGaps: (careRecipientId: string, days = 14): Promise<CoverageGapsResponse> =>
+    api.get(`/care-recipients/${careRecipientId}/coverage/gaps?days=${days}`),
+};
+
+export const availabilityApi = {
+  // Get every schedulable member's availability
+  getAll: (careRecipientId: string): Promise<MemberAvailability[]> =>
+    api.get(`/care-recipients/${careRecipientId}/availability`),
+
+  // Replace a member's weekly availability (self or admin)
+  update: (
+    careRecipientId: string,
+    userId: string,
+    data: { windows: AvailabilityWindow[]; maxHoursPerWeek?: number | null }
+  ): Promise<MemberAvailability> =>
+    api.put(`/care-recipients/${careRecipientId}/availability/${userId}`, data),
+
+  // Add days a member is away
+  addBlackout: (
+    careRecipientId: string,
+    userId: string,
+    data: { startDate: string; endDate: string; reason?: string }
+  ): Promise<AvailabilityBlackout> =>
+    api.post(`/care-recipients/${careRecipientId}/availability/${userId}/blackouts`, data),
+
+  // Remove days away
+  removeBlackout: (careRecipientId: string, userId: string, blackoutId: string): Promise<void> =>
+    api.delete(`/care-recipients/${careRecipientId}/availability/${userId}/blackouts/${blackoutId}`),
+
+  // Rank caregivers for a shift slot
+  suggest: (careRecipientId: string, startTime: string, endTime: string): Promise<CaregiverSuggestions> =>
+    api.get(
+      `/care-recipients/${careRecipientId}/availability/suggestions?startTime=${encodeURIComponent(startTime)}&endTime=${encodeURIComponent(endTime)}`
+    ),
+};
+
+const timesheetParams = (query: TimesheetQuery) =>
+  new URLSearchParams({
+    from: query.from,
+    to: query.to,
+    ...(query.caregiverId && { caregiverId: query.caregiverId }),
+    ...(query.overtimeHours && { overtimeHours: String(query.overtimeHours) }),
+  }).toString();
+
+export const timesheetsApi = {
+  // Get hours worked per caregiver for a pay period
+  get: (careRecipientId: string, query: TimesheetQuery): Promise<Timesheet> =>
+    api.get(`/care-recipients/${careRecipientId}/timesheets?${timesheetParams(query)}`),
+
+  // Download the timesheet as a PDF or CSV file
+  download: (careRecipientId: string, query: TimesheetQuery, format: 'pdf' | 'csv'): Promise<Blob> =>
+    api.download(`/care-recipients/${careRecipientId}/timesheets?${timesheetParams(query)}&format=${format}`),
+
+  // Get time corrections (caregivers only see their own)
+  getCorrections: (careRecipientId: string, status?: TimeCorrectionStatus): Promise<ShiftTimeCorrection[]> =>
+    api.get(`/care-recipients/${careRecipientId}/timesheets/corrections${status ? `?status=${status}` : ''}`),
+
+  // Ask for a shift's check-in/out times to be corrected
+  requestCorrection: (careRecipientId: string, data: CreateTimeCorrectionDto): Promise<ShiftTimeCorrection> =>
+    api.post(`/care-recipients/${careRecipientId}/timesheets/corrections`, data),
+
+  // Approve a correction and apply it (admin only)
+  approveCorrection: (careRecipientId: string, correctionId: string, note?: string): Promise<ShiftTimeCorrection> =>
+    api.post(`/care-recipients/${careRecipientId}/timesheets/corrections/${correctionId}/approve`, { note }),
+
+  // Reject a correction (admin only)
+  rejectCorrection: (careRecipientId: string, correctionId: string, note?: string): Promise<ShiftTimeCorrection> =>
+    api.post(`/care-recipients/${careRecipientId}/timesheets/corrections/${correctionId}/reject`, { note }),
+};
@@ -1,5 +1,99 @@
 import { api } from './client';
 
+export type VitalType =
+  | 'BLOOD_PRESSURE'
+  | 'HEART_RATE'
+  | 'TEMPERATURE'
+  | 'BLOOD_SUGAR'
+  | 'OXYGEN_LEVEL'
+  | 'WEIGHT';
+
+export type VitalSource = 'MANUAL' | 'DEVICE' | 'IMPORT';
+
+export interface TimelineVitals {
+  bloodPressure?: string;
+  systolic?: number;
+  diastolic?: number;
+  heartRate?: number;
+  temperature?: number;
+  temperatureUnit?: 'F' | 'C';
+  oxygenLevel?: number;
+  bloodSugar?: number;
+  bloodSugarUnit?: 'mg/dL' | 'mmol/L';
+  weight?: number;
+  weightUnit?: 'lb' | 'kg';
+  source?: VitalSource;
+  deviceName?: string;
+}
+
+// Stored in canonical units: mmHg, bpm, °F, mg/dL, %, lb
+export interface VitalReading {
+  id: string;
+  type: VitalType;
+  value: number;
+  secondaryValue: number | null;
+  unit: string;
+  source: VitalSource;
+  deviceName: string | null;
+  isOutOfRange: boolean;
+  measuredAt: string;
+  timelineEntryId: string | null;
+}
+
+export interface VitalRange {
+  type: VitalType;
+  unit: string;
+  min: number | null;
+  max: number | null;
+  secondaryMin: number | null;
+  secondaryMax: number | null;
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export type VitalTrendDirection = 'rising' | 'falling' | 'stable' | 'insufficient_data';
+
+export interface VitalDailyStats {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface VitalTrendDay {
+  date: string; // yyyy-MM-dd
+  count: number;
+  value: VitalDailyStats | null;
+  secondaryValue: VitalDailyStats | null; // Diastolic, for blood pressure
+  rollingAvg: number | null; // Trailing 7-day mean
+  secondaryRollingAvg: number | null;
+}
+
+export interface VitalTrendSeries {
+  type: VitalType;
+  unit: string;
+  range: Pick<VitalRange, 'min' | 'max' | 'secondaryMin' | 'secondaryMax'>;
+  days: VitalTrendDay[];
+  summary: {
+    count: number;
+    outOfRangeCount: number;
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    latest: { value: number; secondaryValue: number | null; measuredAt: string } | null;
+    trend: VitalTrendDirection;
+    changePerWeek: number | null;
+    secondaryTrend: VitalTrendDirection | null;
+  };
+}
+
+export interface VitalTrends {
+  from: string;
+  to: string;
+  series: VitalTrendSeries[];
+}
+
+export type VitalRangeInput = Pick<VitalRange, 'min' | 'max' | 'secondaryMin' | 'secondaryMax'>;
+
 export interface TimelineEntry {
   id: string;
   careRecipientId: string;
@@ -8,14 +102,8 @@ export interface TimelineEntry {
   title: string;
   description?: string;
   severity?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  vitals?: {
-    bloodPressure?: string;
-    heartRate?: number;
-    temperature?: number;
-    oxygenLevel?: number;
-    bloodSugar?: number;
-    weight?: number;
-  };
+  vitals?: TimelineVitals;
+  vitalReadings?: VitalReading[];
   occurredAt: string;
   createdAt: string;
   createdBy: {
@@ -29,14 +117,7 @@ export interface CreateTimelineEntryInput {
   title: string;
   description?: string;
   severity?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-  vitals?: {
-    bloodPressure?: string;
-    heartRate?: number;
-    temperature?: number;
-    oxygenLevel?: number;
-    bloodSugar?: number;
-    weight?: number;
-  };
+  vitals?: TimelineVitals;
   occurredAt?: string;
 }
 
@@ -75,5 +156,30 @@ export const timelineApi = {
   delete: async (id: string): Promise<void> => {
     await api.delete(`/timeline/${id}`);
   },
+
+  getVitalTrends: async (
+    careRecipientId: string,
+    options?: { from?: string; to?: string; types?: VitalType[] }
+  ): Promise<VitalTrends> => {
+    const params = new URLSearchParams();
+    if (options?.from) params.set('from', options.from);
+    if (options?.to) params.set('to', options.to);
+    if (options?.types?.length) params.set('types', options.types.join(','));
+
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return api.get<VitalTrends>(`/care-recipients/${careRecipientId}/vitals/trends${query}`);
+  },
+
+  getVitalRanges: async (careRecipientId: string): Promise<VitalRange[]> => {
+    return api.get<VitalRange[]>(`/care-recipients/${careRecipientId}/vitals/ranges`);
+  },
+
+  updateVitalRange: async (careRecipientId: string, type: VitalType, data: VitalRangeInput): Promise<VitalRange[]> => {
+    return api.put<VitalRange[]>(`/care-recipients/${careRecipientId}/vitals/ranges/${type}`, data);
+  },
+
+  resetVitalRange: async (careRecipientId: string, type: VitalType): Promise<VitalRange[]> => {
+    return api.delete<VitalRange[]>(`/care-recipients/${careRecipientId}/vitals/ranges/${type}`);
+  },
 };
 
@@ -192,6 +192,7 @@ export const APPOINTMENT_TYPE_COLORS: Record<string, { bg: string; text: string
 // ───────────────────────────────────────────
 
 export const APPOINTMENT_STATUS_LABELS: Record<string, string> = {
+  DRAFT: 'Draft',
   SCHEDULED: 'Scheduled',
   CONFIRMED: 'Confirmed',
   COMPLETED: 'Completed',
@@ -0,0 +1,24 @@
+export interface DevicePosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+/**
+ * The device's current position, or null when it is unavailable or the
+ * user declines. Never rejects, so callers can carry on without a location.
+ */
+export function getCurrentPosition(timeoutMs = 10000): Promise<DevicePosition | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
@@ -114,6 +114,7 @@ export const WS_EVENTS = {
   // Incoming events from backend (backend uses underscores)
   EMERGENCY_ALERT: 'emergency_alert',
   EMERGENCY_RESOLVED: 'emergency_resolved',
+  EMERGENCY_UPDATE: 'emergency_update',
   MEDICATION_LOGGED: 'medication_logged',
   MEDICATION_REMINDER: 'medication_reminder',
   MEDICATION_DELETED: 'medication_deleted',
@@ -9,9 +9,10 @@ module.exports = {
     }],
   },
   moduleNameMapper: {
-    '^@carecircle/database$': '<rootDir>/../../../packages/database/src/index.ts',
-    '^@carecircle/logger$': '<rootDir>/../../../packages/logger/src/index.ts',
-    '^@carecircle/config$': '<rootDir>/../../../packages/config/src/index.ts',
+    '^@carecircle/database$': '<rootDir>/../../packages/database/src/index.ts',
+    '^@carecircle/logger$': '<rootDir>/../../packages/logger/src/index.ts',
+    '^@carecircle/config$': '<rootDir>/../../packages/config/src/index.ts',
+    '^@carecircle/scheduling$': '<rootDir>/../../packages/scheduling/src/index.ts',
   },
   setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
   coverageDirectory: 'coverage',
@@ -0,0 +1,71 @@
+/**
+ * Coverage Gap Detection Tests
+ */
+
+import { findCoverageGaps, getRequiredIntervals, type CoverageGap } from '@carecircle/scheduling';
+
+const ALWAYS = [{ daysOfWeek: [], startTime: '00:00', endTime: '00:00' }];
+const WEEKDAY_DAYTIME = [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '22:00' }];
+
+// Monday 2 March 2026
+const monday = (hours: number, day = 0) => new Date(2026, 2, 2 + day, hours, 0);
+
+const spans = (gaps: CoverageGap[]) =>
+  gaps.map((gap) => [gap.start.getTime(), gap.end.getTime()]);
+
+describe('getRequiredIntervals', () => {
+  it('should merge a 24/7 window into one continuous interval', () => {
+    const intervals = getRequiredIntervals(ALWAYS, monday(6), monday(0, 3));
+    expect(intervals).toEqual([{ start: monday(6), end: monday(0, 3) }]);
+  });
+
+  it('should only include the listed weekdays', () => {
+    // Friday through Monday: Saturday and Sunday are skipped
+    const intervals = getRequiredIntervals(WEEKDAY_DAYTIME, monday(0, -3), monday(0, 1));
+    expect(intervals).toEqual([
+      { start: monday(8, -3), end: monday(22, -3) },
+      { start: monday(8), end: monday(22) },
+    ]);
+  });
+
+  it('should carry overnight windows past midnight', () => {
+    const nights = [{ daysOfWeek: [0], startTime: '22:00', endTime: '06:00' }];
+    const intervals = getRequiredIntervals(nights, monday(0), monday(12));
+    expect(intervals).toEqual([{ start: monday(0), end: monday(6) }]);
+  });
+});
+
+describe('findCoverageGaps', () => {
+  it('should report the whole window when there are no shifts', () => {
+    const gaps = findCoverageGaps(WEEKDAY_DAYTIME, [], monday(0), monday(0, 1));
+    expect(gaps).toEqual([{ start: monday(8), end: monday(22), durationMinutes: 840 }]);
+  });
+
+  it('should subtract overlapping and back-to-back shifts', () => {
+    const shifts = [
+      { start: monday(8), end: monday(14) },
+      { start: monday(12), end: monday(16) },
+      { start: monday(18), end: monday(22) },
+    ];
+    const gaps = findCoverageGaps(WEEKDAY_DAYTIME, shifts, monday(0), monday(0, 1));
+    expect(spans(gaps)).toEqual([[monday(16).getTime(), monday(18).getTime()]]);
+  });
+
+  it('should find gaps between shifts in a 24/7 schedule', () => {
+    const shifts = [
+      { start: monday(0), end: monday(12) },
+      { start: monday(13), end: monday(0, 1) },
+    ];
+    const gaps = findCoverageGaps(ALWAYS, shifts, monday(0), monday(0, 1));
+    expect(gaps).toEqual([{ start: monday(12), end: monday(13), durationMinutes: 60 }]);
+  });
+
+  it('should ignore gaps shorter than the minimum', () => {
+    const shifts = [
+      { start: monday(8), end: new Date(2026, 2, 2, 14, 50) },
+      { start: monday(15), end: monday(22) },
+    ];
+    expect(findCoverageGaps(WEEKDAY_DAYTIME, shifts, monday(0), monday(0, 1), 15)).toEqual([]);
+    expect(findCoverageGaps(WEEKDAY_DAYTIME, shifts, monday(0), monday(0, 1))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Medication Schedule Expansion Tests
+ */
+
+import type { MedicationSchedulePhase } from '@carecircle/database';
+import {
+  getDosesForDay,
+  getMissableDosesBetween,
+  getMissableDosesForDay,
+  isValidRule,
+  type ScheduledMedication,
+} from '@carecircle/scheduling';
+
+function phase(overrides: Partial<MedicationSchedulePhase>): MedicationSchedulePhase {
+  return {
+    id: 'phase-1',
+    medicationId: 'med-1',
+    sequence: 0,
+    startDate: new Date(2024, 0, 1, 0, 0),
+    endDate: null,
+    recurrenceRule: 'FREQ=DAILY',
+    times: ['08:00'],
+    dosage: null,
+    doseQuantity: 1,
+    cycleDaysOn: null,
+    cycleDaysOff: null,
+    createdAt: new Date(2024, 0, 1),
+    updatedAt: new Date(2024, 0, 1),
+    ...overrides,
+  };
+}
+
+function medication(schedulePhases: MedicationSchedulePhase[] = []): ScheduledMedication {
+  return {
+    dosage: '10mg',
+    frequency: 'DAILY',
+    scheduledTimes: ['09:00', '21:00'],
+    startDate: new Date(2024, 0, 1),
+    endDate: null,
+    schedulePhases,
+  };
+}
+
+const times = (med: ScheduledMedication, date: Date) => getDosesForDay(med, date).map((d) => d.time);
+
+describe('getDosesForDay', () => {
+  it('should fall back to scheduledTimes when there are no phases', () => {
+    expect(times(medication(), new Date(2024, 0, 10))).toEqual(['09:00', '21:00']);
+  });
+
+  it('should order scheduledTimes doses by time', () => {
+    const med = { ...medication(), scheduledTimes: ['21:00', '07:30', '13:00'] };
+    expect(times(med, new Date(2024, 0, 10))).toEqual(['07:30', '13:00', '21:00']);
+  });
+
+  it('should return nothing for AS_NEEDED medications without phases', () => {
+    expect(times({ ...medication(), frequency: 'AS_NEEDED' }, new Date(2024, 0, 10))).toEqual([]);
+  });
+
+  it('should return nothing outside the medication start/end dates', () => {
+    const med = { ...medication(), endDate: new Date(2024, 0, 5) };
+    expect(times(med, new Date(2024, 0, 10))).toEqual([]);
+  });
+
+  it('should keep scheduledTimes doses before the start time on the start day', () => {
+    // Added mid-morning: the 09:00 dose may already have been given and still needs logging
+    const med = { ...medication(), startDate: new Date(2024, 0, 10, 10, 0) };
+    expect(times(med, new Date(2024, 0, 10))).toEqual(['09:00', '21:00']);
+  });
+
+  it('should expand every-8-hours rules from the phase start', () => {
+    const med = medication([
+      phase({ recurrenceRule: 'FREQ=HOURLY;INTERVAL=8', startDate: new Date(2024, 0, 1, 6, 0), times: [] }),
+    ]);
+    expect(times(med, new Date(2024, 0, 2))).toEqual(['06:00', '14:00', '22:00']);
+  });
+
+  it('should only schedule matching weekdays for BYDAY rules', () => {
+    const med = medication([phase({ recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,WE,FR' })]);
+    // 2024-01-08 is a Monday, 2024-01-09 a Tuesday
+    expect(times(med, new Date(2024, 0, 8))).toEqual(['08:00']);
+    expect(times(med, new Date(2024, 0, 9))).toEqual([]);
+  });
+
+  it('should respect on/off cycles', () => {
+    const med = medication([phase({ cycleDaysOn: 21, cycleDaysOff: 7 })]);
+    expect(times(med, new Date(2024, 0, 21))).toEqual(['08:00']); // day 20
+    expect(times(med, new Date(2024, 0, 22))).toEqual([]); // day 21 (first day off)
+    expect(times(med, new Date(2024, 0, 29))).toEqual(['08:00']); // day 28 (next cycle)
+  });
+
+  it('should switch dose between taper phases', () => {
+    const med = medication([
+      phase({ id: 'p1', dosage: '40mg', endDate: new Date(2024, 0, 4) }),
+      phase({ id: 'p2', dosage: '20mg', startDate: new Date(2024, 0, 4), doseQuantity: 2 }),
+    ]);
+
+    expect(getDosesForDay(med, new Date(2024, 0, 3))).toMatchObject([{ dosage: '40mg', doseQuantity: 1 }]);
+    expect(getDosesForDay(med, new Date(2024, 0, 4))).toMatchObject([{ dosage: '20mg', doseQuantity: 2 }]);
+  });
+});
+
+describe('getMissableDosesForDay', () => {
+  it('should skip doses scheduled before the medication was added', () => {
+    // Added at 10:00 with today's start date: nobody could have given the 09:00 dose
+    const med = { ...medication(), startDate: new Date(2024, 0, 10), createdAt: new Date(2024, 0, 10, 10, 0) };
+
+    expect(getMissableDosesForDay(med, new Date(2024, 0, 10)).map((d) => d.time)).toEqual(['21:00']);
+    expect(getMissableDosesForDay(med, new Date(2024, 0, 11)).map((d) => d.time)).toEqual(['09:00', '21:00']);
+  });
+
+  it('should skip doses before an exact start time', () => {
+    const med = { ...medication(), startDate: new Date(2024, 0, 10, 10, 0), createdAt: new Date(2024, 0, 1) };
+
+    expect(getMissableDosesForDay(med, new Date(2024, 0, 10)).map((d) => d.time)).toEqual(['21:00']);
+    expect(getMissableDosesForDay(med, new Date(2024, 0, 11)).map((d) => d.time)).toEqual(['09:00', '21:00']);
+  });
+});
+
+describe('getMissableDosesBetween', () => {
+  const med = { ...medication(), startDate: new Date(2024, 0, 10), createdAt: new Date(2024, 0, 10, 10, 0) };
+  const missable = (stays: { admittedAt: Date; dischargedAt: Date | null }[] = []) =>
+    getMissableDosesBetween(med, new Date(2024, 0, 10), new Date(2024, 0, 12, 23, 59), stays).map((d) =>
+      d.scheduledTime.toISOString()
+    );
+
+  it('should skip doses before the medication was added', () => {
+    expect(missable()).toHaveLength(5); // 21:00 on the 10th, then two a day
+    expect(missable()[0]).toBe(new Date(2024, 0, 10, 21, 0).toISOString());
+  });
+
+  it('should skip doses during a hospital stay', () => {
+    const stay = { admittedAt: new Date(2024, 0, 11, 8, 0), dischargedAt: new Date(2024, 0, 12, 12, 0) };
+
+    expect(missable([stay])).toEqual([
+      new Date(2024, 0, 10, 21, 0).toISOString(),
+      new Date(2024, 0, 12, 21, 0).toISOString(),
+    ]);
+  });
+
+  it('should skip every dose after an admission that is still open', () => {
+    expect(missable([{ admittedAt: new Date(2024, 0, 11, 0, 0), dischargedAt: null }])).toEqual([
+      new Date(2024, 0, 10, 21, 0).toISOString(),
+    ]);
+  });
+});
+
+describe('isValidRule', () => {
+  it('should accept day-level rules and every-N-hours rules of 2 to 24 hours', () => {
+    expect(isValidRule('FREQ=DAILY')).toBe(true);
+    expect(isValidRule('FREQ=WEEKLY;BYDAY=MO,WE,FR')).toBe(true);
+    expect(isValidRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=1')).toBe(true);
+    expect(isValidRule('FREQ=HOURLY;INTERVAL=8')).toBe(true);
+  });
+
+  it('should reject rules that would expand into too many doses a day', () => {
+    expect(isValidRule('FREQ=HOURLY')).toBe(false);
+    expect(isValidRule('FREQ=HOURLY;INTERVAL=1')).toBe(false);
+    expect(isValidRule('FREQ=HOURLY;INTERVAL=48')).toBe(false);
+    expect(isValidRule('FREQ=MINUTELY;INTERVAL=30')).toBe(false);
+    expect(isValidRule('FREQ=SECONDLY')).toBe(false);
+    expect(isValidRule('INTERVAL=2')).toBe(false);
+  });
+});
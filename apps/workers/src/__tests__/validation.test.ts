@@ -9,6 +9,8 @@ import {
   ShiftReminderJobSchema,
   NotificationJobSchema,
   RefillAlertJobSchema,
+  MissedMedicationJobSchema,
+  CoverageGapJobSchema,
 } from '@carecircle/config';
 
 describe('Job Payload Validation', () => {
@@ -243,6 +245,57 @@ describe('Job Payload Validation', () => {
       expect(result.familyMemberUserIds).toEqual([]);
     });
   });
+
+  describe('MissedMedicationJobSchema', () => {
+    const validPayload = {
+      medicationId: '123e4567-e89b-12d3-a456-426614174000',
+      careRecipientId: '123e4567-e89b-12d3-a456-426614174001',
+      scheduledTime: '2024-01-15T08:00:00.000Z',
+      stage: 'CAREGIVER',
+    };
+
+    it('should validate a correct payload', () => {
+      const result = validateJobPayload(
+        MissedMedicationJobSchema,
+        validPayload,
+        'MissedMedicationJob'
+      );
+      expect(result).toEqual(validPayload);
+    });
+
+    it('should reject unknown escalation stages', () => {
+      expect(() => {
+        validateJobPayload(
+          MissedMedicationJobSchema,
+          { ...validPayload, stage: 'FAMILY' },
+          'MissedMedicationJob'
+        );
+      }).toThrow();
+    });
+  });
+
+  describe('CoverageGapJobSchema', () => {
+    const validPayload = {
+      careRecipientId: '123e4567-e89b-12d3-a456-426614174001',
+      gapStart: '2024-01-15T22:00:00.000Z',
+      gapEnd: '2024-01-16T06:00:00.000Z',
+    };
+
+    it('should validate a correct payload', () => {
+      const result = validateJobPayload(CoverageGapJobSchema, validPayload, 'CoverageGapJob');
+      expect(result).toEqual(validPayload);
+    });
+
+    it('should reject non-ISO gap times', () => {
+      expect(() => {
+        validateJobPayload(
+          CoverageGapJobSchema,
+          { ...validPayload, gapStart: 'tomorrow night' },
+          'CoverageGapJob'
+        );
+      }).toThrow();
+    });
+  });
 });
 
 describe('Web Push Configuration', () => {
@@ -107,6 +107,8 @@ export const QUEUE_NAMES = {
   SHIFT_REMINDERS: 'shift-reminders',
   NOTIFICATIONS: 'notifications',
   REFILL_ALERTS: 'refill-alerts',
+  MISSED_MEDICATIONS: 'missed-medications',
+  COVERAGE_GAPS: 'coverage-gaps',
   DEAD_LETTER: 'dead-letter-queue', // New: DLQ
   AI_SUMMARIES: 'ai-summaries',
   AI_EMBEDDINGS: 'ai-embeddings',
@@ -121,6 +123,14 @@ export const REMINDER_CONFIG = {
   medicationReminderMinutes: [30, 15, 5, 0],
   appointmentReminderMinutes: [1440, 60, 30], // 1 day, 1 hour, 30 min
   shiftReminderMinutes: [60, 15], // 1 hour, 15 min before shift
+
+  // Missed doses (minutes after scheduled time with no GIVEN/SKIPPED log)
+  missedDoseGraceMinutes: 60, // Mark MISSED, alert on-duty caregiver
+  missedDoseAdminEscalationMinutes: 120, // Escalate to family admins
+  missedDoseLookbackHours: 24, // Ignore doses older than this
+
+  // Coverage gaps (alert lead time is per care recipient)
+  coverageGapMinMinutes: 15, // Ignore slivers between back-to-back shifts
   
   // Check interval
   schedulerIntervalMs: 60 * 1000, // Check every minute
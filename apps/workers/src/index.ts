@@ -20,6 +20,8 @@ import { appointmentReminderWorker } from './workers/appointment-reminder.worker
 import { shiftReminderWorker } from './workers/shift-reminder.worker';
 import { notificationWorker } from './workers/notification.worker';
 import { refillAlertWorker } from './workers/refill-alert.worker';
+import { missedMedicationWorker } from './workers/missed-medication.worker';
+import { coverageGapWorker } from './workers/coverage-gap.worker';
 import { deadLetterWorker } from './workers/dead-letter.worker';
 import { aiEmbeddingWorker } from './workers/ai-embedding.worker';
 import { aiSummaryWorker } from './workers/ai-summary.worker';
@@ -67,6 +69,8 @@ const workers = [
   { name: 'shift-reminder', worker: shiftReminderWorker },
   { name: 'notification', worker: notificationWorker },
   { name: 'refill-alert', worker: refillAlertWorker },
+  { name: 'missed-medication', worker: missedMedicationWorker },
+  { name: 'coverage-gap', worker: coverageGapWorker },
   { name: 'dead-letter', worker: deadLetterWorker },
   { name: 'ai-embedding', worker: aiEmbeddingWorker },
   { name: 'ai-summary', worker: aiSummaryWorker },
@@ -306,6 +310,8 @@ function printBanner(): void {
   console.log('║   👤  Shift Reminder Worker                                  ║');
   console.log('║   📱  Notification Worker (Push/Email/SMS)                   ║');
   console.log('║   💊  Refill Alert Worker                                    ║');
+  console.log('║   ⏰  Missed Medication Worker                               ║');
+  console.log('║   📆  Coverage Gap Worker                                    ║');
   console.log('║   📋  Dead Letter Queue Worker                               ║');
   console.log('║   🤖  AI Embedding Worker                                    ║');
   console.log('║   📊  AI Summary Worker                                      ║');
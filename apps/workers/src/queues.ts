@@ -22,6 +22,8 @@ import type {
   ShiftReminderJob,
   NotificationJob,
   RefillAlertJob,
+  MissedMedicationJob,
+  CoverageGapJob,
 } from '@carecircle/config';
 
 // Re-export types for consumers
@@ -31,6 +33,8 @@ export type {
   ShiftReminderJob,
   NotificationJob,
   RefillAlertJob,
+  MissedMedicationJob,
+  CoverageGapJob,
 } from '@carecircle/config';
 
 // ============================================================================
@@ -111,6 +115,14 @@ export const refillAlertQueue = createQueue<RefillAlertJob>(
   QUEUE_NAMES.REFILL_ALERTS
 );
 
+export const missedMedicationQueue = createQueue<MissedMedicationJob>(
+  QUEUE_NAMES.MISSED_MEDICATIONS
+);
+
+export const coverageGapQueue = createQueue<CoverageGapJob>(
+  QUEUE_NAMES.COVERAGE_GAPS
+);
+
 // Dead Letter Queue
 export const deadLetterQueue = createQueue<DeadLetterJob>(
   QUEUE_NAMES.DEAD_LETTER
@@ -192,6 +204,8 @@ const queues = [
   shiftQueue,
   notificationQueue,
   refillAlertQueue,
+  missedMedicationQueue,
+  coverageGapQueue,
   deadLetterQueue,
   aiSummaryQueue,
   aiEmbeddingQueue,
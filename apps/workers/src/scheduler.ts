@@ -12,9 +12,20 @@
  */
 
 import { prisma } from '@carecircle/database';
-import { addMinutes, startOfMinute, endOfMinute, isWithinInterval, startOfDay } from 'date-fns';
-import { medicationQueue, appointmentQueue, shiftQueue, refillAlertQueue } from './queues';
+import { addDays, addHours, addMinutes, startOfMinute, endOfMinute, isWithinInterval, startOfDay } from 'date-fns';
+import {
+  medicationQueue,
+  appointmentQueue,
+  shiftQueue,
+  refillAlertQueue,
+  missedMedicationQueue,
+  coverageGapQueue,
+} from './queues';
 import { REMINDER_CONFIG, getDefaultJobOptions, logger } from './config';
+import { COVERING_SHIFT_STATUSES, findCoverageGaps, getDosesForDay, getMissableDosesBetween } from '@carecircle/scheduling';
+
+// Reminders and coverage alerts pause while the care recipient is in hospital
+const NOT_ADMITTED = { hospitalStays: { none: { dischargedAt: null } } };
 
 class ReminderScheduler {
   private intervalId: NodeJS.Timeout | null = null;
@@ -64,12 +75,14 @@ class ReminderScheduler {
       this.queueAppointmentReminders(now),
       this.queueShiftReminders(now),
       this.checkRefillAlerts(now),
+      this.queueMissedMedicationChecks(now),
+      this.checkCoverageGaps(now),
     ]);
 
     // Log any failures
     results.forEach((result, idx) => {
       if (result.status === 'rejected') {
-        const names = ['medication', 'appointment', 'shift', 'refill'];
+        const names = ['medication', 'appointment', 'shift', 'refill', 'missed-medication', 'coverage-gap'];
         logger.error({ err: result.reason, type: names[idx] }, 'Scheduler check failed');
       }
     });
@@ -78,21 +91,26 @@ class ReminderScheduler {
   private async queueMedicationReminders(now: Date): Promise<void> {
     // Get all active medications with their schedules
     const medications = await prisma.medication.findMany({
-      where: { isActive: true },
+      where: { isActive: true, careRecipient: NOT_ADMITTED },
       include: {
         careRecipient: {
           select: { id: true }
-        }
+        },
+        schedulePhases: true,
       },
     });
 
     let queued = 0;
 
     for (const med of medications) {
-      for (const time of med.scheduledTimes) {
-        const [hours, minutes] = time.split(':').map(Number);
-        const scheduledTime = new Date(now);
-        scheduledTime.setHours(hours, minutes, 0, 0);
+      // Include tomorrow so reminders before an early-morning dose fire before midnight
+      const doses = [
+        ...getDosesForDay(med, now),
+        ...getDosesForDay(med, addDays(now, 1)),
+      ];
+
+      for (const dose of doses) {
+        const scheduledTime = dose.scheduledTime;
 
         for (const minutesBefore of REMINDER_CONFIG.medicationReminderMinutes) {
           const reminderTime = addMinutes(scheduledTime, -minutesBefore);
@@ -102,9 +120,10 @@ class ReminderScheduler {
             start: startOfMinute(reminderTime),
             end: endOfMinute(reminderTime),
           })) {
-            // Use date + time for idempotency (one reminder per scheduled dose per day)
-            const dateStr = now.toISOString().split('T')[0];
-            const jobId = `med-${med.id}-${dateStr}-${time}-${minutesBefore}`;
+            // Use date + time for idempotency (one reminder per scheduled dose per day).
+            // BullMQ rejects custom job IDs containing ':', so strip it from HH:mm.
+            const dateStr = scheduledTime.toISOString().split('T')[0];
+            const jobId = `med-${med.id}-${dateStr}-${dose.time.replace(':', '')}-${minutesBefore}`;
             
             // Check if already logged for today (prevent double reminders)
             const existingLog = await prisma.medicationLog.findFirst({
@@ -125,7 +144,7 @@ class ReminderScheduler {
                   careRecipientId: med.careRecipientId,
                   scheduledTime: scheduledTime.toISOString(),
                   medicationName: med.name,
-                  dosage: med.dosage,
+                  dosage: dose.dosage,
                   minutesBefore,
                 },
                 { 
@@ -212,6 +231,7 @@ class ReminderScheduler {
           lte: addMinutes(now, maxMinutes + 60),
         },
         status: 'SCHEDULED',
+        careRecipient: NOT_ADMITTED,
       },
       include: { 
         careRecipient: {
@@ -265,12 +285,13 @@ class ReminderScheduler {
       return;
     }
 
-    // Get medications where currentSupply <= refillAt
+    // Get medications where currentSupply <= refillAt, skipping any with a refill already in progress
     const lowSupplyMeds = await prisma.medication.findMany({
       where: {
         isActive: true,
         refillAt: { not: null },
         currentSupply: { not: null },
+        refills: { none: { status: { in: ['REQUESTED', 'ORDERED', 'READY_FOR_PICKUP'] } } },
       },
       include: {
         careRecipient: {
@@ -341,6 +362,147 @@ class ReminderScheduler {
       logger.info({ count: queued }, 'Refill alerts queued');
     }
   }
+  private async queueMissedMedicationChecks(now: Date): Promise<void> {
+    const windowStart = addHours(now, -REMINDER_CONFIG.missedDoseLookbackHours);
+    const graceCutoff = addMinutes(now, -REMINDER_CONFIG.missedDoseGraceMinutes);
+    const adminCutoff = addMinutes(now, -REMINDER_CONFIG.missedDoseAdminEscalationMinutes);
+
+    const medications = await prisma.medication.findMany({
+      where: { isActive: true, careRecipient: NOT_ADMITTED },
+      include: {
+        schedulePhases: true,
+        // Doses that fell during a recent stay were the hospital's to give
+        careRecipient: {
+          select: {
+            hospitalStays: {
+              where: { dischargedAt: { gte: windowStart } },
+              select: { admittedAt: true, dischargedAt: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (medications.length === 0) {
+      return;
+    }
+
+    const logs = await prisma.medicationLog.findMany({
+      where: {
+        medicationId: { in: medications.map((med) => med.id) },
+        scheduledTime: { gte: windowStart },
+      },
+      select: { medicationId: true, scheduledTime: true, status: true, escalatedAt: true },
+    });
+
+    // Logs keyed by medication + scheduled minute
+    const logsByDose = new Map<string, typeof logs>();
+    for (const log of logs) {
+      const key = `${log.medicationId}-${startOfMinute(log.scheduledTime).getTime()}`;
+      logsByDose.set(key, [...(logsByDose.get(key) || []), log]);
+    }
+
+    let queued = 0;
+
+    for (const med of medications) {
+      const doses = getMissableDosesBetween(med, windowStart, graceCutoff, med.careRecipient.hospitalStays);
+
+      for (const dose of doses) {
+        const scheduledAt = startOfMinute(dose.scheduledTime).getTime();
+        const doseLogs = logsByDose.get(`${med.id}-${scheduledAt}`) || [];
+
+        let stage: 'CAREGIVER' | 'ADMIN';
+        if (doseLogs.length === 0) {
+          stage = 'CAREGIVER';
+        } else if (
+          doseLogs.every((log) => log.status === 'MISSED' && !log.escalatedAt) &&
+          dose.scheduledTime <= adminCutoff
+        ) {
+          stage = 'ADMIN';
+        } else {
+          continue;
+        }
+
+        await missedMedicationQueue.add(
+          'missed-medication',
+          {
+            medicationId: med.id,
+            careRecipientId: med.careRecipientId,
+            scheduledTime: dose.scheduledTime.toISOString(),
+            stage,
+          },
+          {
+            // One job per dose per stage (no ':' allowed in BullMQ job IDs)
+            jobId: `missed-${med.id}-${scheduledAt}-${stage.toLowerCase()}`,
+            ...getDefaultJobOptions(),
+          }
+        );
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      logger.info({ count: queued }, 'Missed medication checks queued');
+    }
+  }
+
+  private async checkCoverageGaps(now: Date): Promise<void> {
+    // Only check once per hour (at the start of each hour)
+    if (now.getMinutes() !== 0) {
+      return;
+    }
+
+    const careRecipients = await prisma.careRecipient.findMany({
+      where: { coverageWindows: { some: {} }, ...NOT_ADMITTED },
+      select: { id: true, coverageAlertDays: true, coverageWindows: true },
+    });
+
+    let queued = 0;
+
+    for (const careRecipient of careRecipients) {
+      const horizon = addDays(now, careRecipient.coverageAlertDays);
+
+      const shifts = await prisma.caregiverShift.findMany({
+        where: {
+          careRecipientId: careRecipient.id,
+          status: { in: COVERING_SHIFT_STATUSES },
+          startTime: { lt: horizon },
+          endTime: { gt: now },
+        },
+        select: { startTime: true, endTime: true },
+      });
+
+      const gaps = findCoverageGaps(
+        careRecipient.coverageWindows,
+        shifts.map((shift) => ({ start: shift.startTime, end: shift.endTime })),
+        now,
+        horizon,
+        REMINDER_CONFIG.coverageGapMinMinutes
+      );
+
+      // Gaps already under way were alerted before they began
+      for (const gap of gaps.filter((g) => g.start > now)) {
+        await coverageGapQueue.add(
+          'coverage-gap',
+          {
+            careRecipientId: careRecipient.id,
+            gapStart: gap.start.toISOString(),
+            gapEnd: gap.end.toISOString(),
+          },
+          {
+            // One job per gap start; the worker dedupes notifications too
+            jobId: `coverage-${careRecipient.id}-${gap.start.getTime()}`,
+            ...getDefaultJobOptions(),
+          }
+        );
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      logger.info({ count: queued }, 'Coverage gap alerts queued');
+    }
+  }
 }
 
 export const reminderScheduler = new ReminderScheduler();
@@ -0,0 +1,278 @@
+/**
+ * Coverage Gap Worker
+ *
+ * Alerts family admins ahead of an interval of required coverage that no
+ * shift covers, so someone can be scheduled before it starts.
+ *
+ * Features:
+ * - Validates job payload
+ * - Re-checks the schedule before alerting (a shift added since the
+ *   scheduler ran wins)
+ * - Idempotent notifications (one per gap per admin)
+ * - Structured logging
+ */
+
+import { Worker, Job } from 'bullmq';
+import { prisma } from '@carecircle/database';
+import {
+  CoverageGapJobSchema,
+  validateJobPayload,
+  type CoverageGapJob
+} from '@carecircle/config';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  getRedisConnection,
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  logger
+} from '../config';
+import { notificationQueue, moveToDeadLetter } from '../queues';
+import { COVERING_SHIFT_STATUSES, findCoverageGaps } from '@carecircle/scheduling';
+import { createJobLogger } from '@carecircle/logger';
+
+// ============================================================================
+// ERROR CLASSIFICATION
+// ============================================================================
+
+type ErrorType = 'transient' | 'permanent' | 'validation';
+
+function classifyError(error: unknown): ErrorType {
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+
+    if (message.includes('invalid') || message.includes('validation')) {
+      return 'validation';
+    }
+
+    if (
+      message.includes('connection') ||
+      message.includes('timeout') ||
+      message.includes('econnrefused')
+    ) {
+      return 'transient';
+    }
+
+    if (message.includes('not found')) {
+      return 'permanent';
+    }
+  }
+
+  return 'transient';
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${rest} min`;
+  }
+
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// ============================================================================
+// WORKER PROCESSOR
+// ============================================================================
+
+async function processCoverageGap(job: Job<CoverageGapJob>) {
+  const jobLogger = createJobLogger(logger, job.id || 'unknown', 'coverage-gap');
+
+  // Step 1: Validate job payload
+  const validatedData = validateJobPayload(
+    CoverageGapJobSchema,
+    job.data,
+    'CoverageGapJob'
+  );
+
+  const { careRecipientId, gapStart, gapEnd } = validatedData;
+  const start = new Date(gapStart);
+  const end = new Date(gapEnd);
+
+  jobLogger.info({ careRecipientId, gapStart, gapEnd }, 'Processing coverage gap');
+
+  // Step 2: Fetch care recipient, coverage windows and family admins
+  const careRecipient = await prisma.careRecipient.findUnique({
+    where: { id: careRecipientId },
+    include: {
+      coverageWindows: true,
+      family: {
+        include: {
+          members: {
+            where: { isActive: true, role: 'ADMIN' },
+            include: {
+              user: {
+                select: { id: true, timezone: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!careRecipient || careRecipient.coverageWindows.length === 0) {
+    jobLogger.info({ careRecipientId }, 'No coverage requirements, skipping');
+    return { skipped: true, reason: 'no_requirements' };
+  }
+
+  // Step 3: Re-check the gap against the current schedule
+  const shifts = await prisma.caregiverShift.findMany({
+    where: {
+      careRecipientId,
+      status: { in: COVERING_SHIFT_STATUSES },
+      startTime: { lt: end },
+      endTime: { gt: start },
+    },
+    select: { startTime: true, endTime: true },
+  });
+
+  const remaining = findCoverageGaps(
+    careRecipient.coverageWindows,
+    shifts.map((shift) => ({ start: shift.startTime, end: shift.endTime })),
+    start,
+    end
+  );
+
+  if (remaining.length === 0) {
+    jobLogger.info({ careRecipientId, gapStart }, 'Gap has been covered, skipping');
+    return { skipped: true, reason: 'gap_covered' };
+  }
+
+  // Step 4: Alert each admin once per gap
+  const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+  const uncoveredMinutes = remaining.reduce((sum, gap) => sum + gap.durationMinutes, 0);
+  const idempotencyKey = `coverage-${careRecipientId}-${start.getTime()}`;
+  let notificationCount = 0;
+
+  for (const admin of careRecipient.family.members) {
+    const existing = await prisma.notification.findFirst({
+      where: {
+        userId: admin.user.id,
+        type: 'COVERAGE_GAP',
+        data: {
+          path: ['idempotencyKey'],
+          equals: idempotencyKey,
+        },
+      },
+    });
+
+    if (existing) {
+      continue;
+    }
+
+    const timezone = admin.user.timezone || 'America/New_York';
+    const title = `🕒 Coverage Gap: ${careRecipientName}`;
+    const sameDay =
+      formatInTimeZone(start, timezone, 'yyyy-MM-dd') === formatInTimeZone(end, timezone, 'yyyy-MM-dd');
+    const body = `Nobody is scheduled with ${careRecipientName} from ${formatInTimeZone(start, timezone, 'EEE MMM d, h:mm a')} to ${formatInTimeZone(end, timezone, sameDay ? 'h:mm a' : 'EEE h:mm a')} (${formatDuration(uncoveredMinutes)} uncovered).`;
+
+    const notification = await prisma.notification.create({
+      data: {
+        userId: admin.user.id,
+        type: 'COVERAGE_GAP',
+        title,
+        body,
+        data: {
+          careRecipientId,
+          gapStart,
+          gapEnd,
+          idempotencyKey,
+        },
+      },
+    });
+
+    await notificationQueue.add(
+      'send-push',
+      {
+        type: 'PUSH',
+        userId: admin.user.id,
+        title,
+        body,
+        data: {
+          type: 'COVERAGE_GAP',
+          careRecipientId,
+          notificationId: notification.id,
+        },
+        priority: 'high',
+      },
+      {
+        jobId: `push-${idempotencyKey}-${admin.user.id}`,
+      }
+    );
+
+    notificationCount++;
+  }
+
+  jobLogger.info(
+    { careRecipientId, gapStart, notificationCount },
+    `Coverage gap sent to ${notificationCount} admins`
+  );
+
+  return {
+    success: true,
+    careRecipientId,
+    notificationCount,
+  };
+}
+
+// ============================================================================
+// WORKER INSTANCE
+// ============================================================================
+
+const workerOptions = getDefaultWorkerOptions();
+
+export const coverageGapWorker = new Worker<CoverageGapJob>(
+  QUEUE_NAMES.COVERAGE_GAPS,
+  async (job) => {
+    try {
+      return await processCoverageGap(job);
+    } catch (error) {
+      const errorType = classifyError(error);
+      const jobLogger = createJobLogger(logger, job.id || 'unknown', 'coverage-gap');
+
+      if (errorType === 'permanent' || errorType === 'validation') {
+        await moveToDeadLetter(
+          QUEUE_NAMES.COVERAGE_GAPS,
+          job.id || 'unknown',
+          'coverage-gap',
+          job.data,
+          error instanceof Error ? error.message : String(error),
+          job.attemptsMade
+        );
+
+        jobLogger.error({ err: error, errorType }, 'Permanent failure, moved to DLQ');
+        return { failed: true, movedToDLQ: true };
+      }
+
+      throw error;
+    }
+  },
+  {
+    connection: getRedisConnection(),
+    ...workerOptions,
+    concurrency: 2,
+  }
+);
+
+// ============================================================================
+// WORKER EVENTS
+// ============================================================================
+
+coverageGapWorker.on('completed', (job, result) => {
+  const jobLogger = createJobLogger(logger, job.id || 'unknown', 'coverage-gap');
+  jobLogger.debug({ result }, 'Job completed');
+});
+
+coverageGapWorker.on('failed', (job, err) => {
+  const jobLogger = createJobLogger(logger, job?.id || 'unknown', 'coverage-gap');
+  jobLogger.error({ err, attemptsMade: job?.attemptsMade }, 'Job failed');
+});
+
+coverageGapWorker.on('error', (err) => {
+  logger.error({ err }, 'Worker error');
+});
@@ -136,9 +136,9 @@ async function processMedicationReminder(job: Job<MedicationReminderJob>) {
     body = `${careRecipientName} needs ${medicationName} (${dosage}) in ${minutesBefore} minutes.`;
   }
 
-  // Step 5: Idempotency key
-  const scheduledDate = new Date(scheduledTime).toISOString().split('T')[0];
-  const idempotencyKey = `med-${medicationId}-${scheduledDate}-${minutesBefore}`;
+  // Step 5: Idempotency key (per dose, since interval schedules have several doses a day)
+  const scheduledAt = new Date(scheduledTime).getTime();
+  const idempotencyKey = `med-${medicationId}-${scheduledAt}-${minutesBefore}`;
 
   // Step 6: Notify all family members with notifications enabled
   const notifications = [];
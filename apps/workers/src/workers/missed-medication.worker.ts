@@ -0,0 +1,362 @@
+/**
+ * Missed Medication Worker
+ *
+ * Records MISSED logs for scheduled doses nobody logged and escalates them.
+ *
+ * Escalation chain:
+ * - CAREGIVER stage: write the MISSED log, alert the on-duty caregiver
+ *   (falls straight through to admins when nobody is on duty)
+ * - ADMIN stage: alert family admins if the dose is still unresolved
+ *
+ * Features:
+ * - Validates job payload
+ * - Re-checks logs before writing (a late GIVEN/SKIPPED log wins)
+ * - Idempotent notifications (one per dose per stage per user)
+ * - Structured logging
+ */
+
+import { Worker, Job } from 'bullmq';
+import { prisma } from '@carecircle/database';
+import {
+  MissedMedicationJobSchema,
+  validateJobPayload,
+  type MissedMedicationJob
+} from '@carecircle/config';
+import { formatInTimeZone } from 'date-fns-tz';
+import { startOfMinute, endOfMinute } from 'date-fns';
+import {
+  getRedisConnection,
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  logger
+} from '../config';
+import { notificationQueue, moveToDeadLetter } from '../queues';
+import { createJobLogger } from '@carecircle/logger';
+
+// ============================================================================
+// ERROR CLASSIFICATION
+// ============================================================================
+
+type ErrorType = 'transient' | 'permanent' | 'validation';
+
+function classifyError(error: unknown): ErrorType {
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+
+    if (message.includes('invalid') || message.includes('validation')) {
+      return 'validation';
+    }
+
+    if (
+      message.includes('connection') ||
+      message.includes('timeout') ||
+      message.includes('econnrefused')
+    ) {
+      return 'transient';
+    }
+
+    if (message.includes('not found')) {
+      return 'permanent';
+    }
+  }
+
+  return 'transient';
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface MissedDoseNotification {
+  title: string;
+  body: string;
+  medicationId: string;
+  careRecipientId: string;
+  scheduledTime: string;
+  stage: MissedMedicationJob['stage'];
+  idempotencyKey: string;
+}
+
+/**
+ * Create an in-app notification and queue a push, once per user per key
+ */
+async function notifyUser(userId: string, content: MissedDoseNotification): Promise<boolean> {
+  const existing = await prisma.notification.findFirst({
+    where: {
+      userId,
+      type: 'MEDICATION_MISSED',
+      data: {
+        path: ['idempotencyKey'],
+        equals: content.idempotencyKey,
+      },
+    },
+  });
+
+  if (existing) {
+    return false;
+  }
+
+  const notification = await prisma.notification.create({
+    data: {
+      userId,
+      type: 'MEDICATION_MISSED',
+      title: content.title,
+      body: content.body,
+      data: {
+        medicationId: content.medicationId,
+        careRecipientId: content.careRecipientId,
+        scheduledTime: content.scheduledTime,
+        stage: content.stage,
+        idempotencyKey: content.idempotencyKey,
+      },
+    },
+  });
+
+  await notificationQueue.add(
+    'send-push',
+    {
+      type: 'PUSH',
+      userId,
+      title: content.title,
+      body: content.body,
+      data: {
+        type: 'MEDICATION_MISSED',
+        medicationId: content.medicationId,
+        careRecipientId: content.careRecipientId,
+        notificationId: notification.id,
+      },
+      priority: 'high',
+    },
+    {
+      jobId: `push-${content.idempotencyKey}-${userId}`,
+    }
+  );
+
+  return true;
+}
+
+// ============================================================================
+// WORKER PROCESSOR
+// ============================================================================
+
+async function processMissedMedication(job: Job<MissedMedicationJob>) {
+  const jobLogger = createJobLogger(logger, job.id || 'unknown', 'missed-medication');
+
+  // Step 1: Validate job payload
+  const validatedData = validateJobPayload(
+    MissedMedicationJobSchema,
+    job.data,
+    'MissedMedicationJob'
+  );
+
+  const { medicationId, careRecipientId, scheduledTime, stage } = validatedData;
+  const scheduledAt = new Date(scheduledTime);
+
+  jobLogger.info({ medicationId, scheduledTime, stage }, 'Processing missed medication');
+
+  // Step 2: Fetch medication (verify it's still active)
+  const medication = await prisma.medication.findUnique({
+    where: { id: medicationId },
+    include: {
+      careRecipient: {
+        include: {
+          family: {
+            include: {
+              members: {
+                where: { isActive: true, role: 'ADMIN' },
+                include: {
+                  user: {
+                    select: { id: true, timezone: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!medication || !medication.isActive) {
+    jobLogger.info({ medicationId }, 'Medication not found or inactive, skipping');
+    return { skipped: true, reason: 'medication_not_active' };
+  }
+
+  // Step 3: Re-check logs for this dose; anything other than MISSED resolves it
+  const logs = await prisma.medicationLog.findMany({
+    where: {
+      medicationId,
+      scheduledTime: {
+        gte: startOfMinute(scheduledAt),
+        lte: endOfMinute(scheduledAt),
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (logs.some((log) => log.status !== 'MISSED')) {
+    jobLogger.info({ medicationId, scheduledTime }, 'Dose already logged, skipping');
+    return { skipped: true, reason: 'dose_logged' };
+  }
+
+  let missedLog = logs[0];
+
+  if (stage === 'ADMIN' && !missedLog) {
+    jobLogger.info({ medicationId, scheduledTime }, 'No MISSED log to escalate, skipping');
+    return { skipped: true, reason: 'no_missed_log' };
+  }
+
+  if (missedLog?.escalatedAt) {
+    jobLogger.info({ medicationId, scheduledTime }, 'Missed dose already escalated, skipping');
+    return { skipped: true, reason: 'already_escalated' };
+  }
+
+  if (!missedLog) {
+    missedLog = await prisma.medicationLog.create({
+      data: {
+        medicationId,
+        givenById: null,
+        scheduledTime: scheduledAt,
+        status: 'MISSED',
+        notes: 'Automatically marked as missed',
+      },
+    });
+
+    jobLogger.info({ medicationId, logId: missedLog.id }, 'Dose marked as missed');
+  }
+
+  // Step 4: Build notification content
+  const careRecipient = medication.careRecipient;
+  const admins = careRecipient.family.members;
+  const careRecipientName = careRecipient.preferredName || careRecipient.fullName;
+  const timezone = admins[0]?.user.timezone || 'America/New_York';
+  const formattedTime = formatInTimeZone(scheduledAt, timezone, 'h:mm a');
+  const content = {
+    medicationId,
+    careRecipientId,
+    scheduledTime,
+  };
+
+  // Step 5: CAREGIVER stage alerts whoever is on duty right now
+  if (stage === 'CAREGIVER') {
+    const now = new Date();
+    const onDutyShift = await prisma.caregiverShift.findFirst({
+      where: {
+        careRecipientId,
+        startTime: { lte: now },
+        endTime: { gte: now },
+        status: { in: ['SCHEDULED', 'CONFIRMED', 'IN_PROGRESS'] },
+      },
+    });
+
+    if (onDutyShift) {
+      const sent = await notifyUser(onDutyShift.caregiverId, {
+        ...content,
+        stage,
+        title: `⚠️ Missed Dose: ${medication.name}`,
+        body: `${careRecipientName}'s ${medication.name} (${medication.dosage}) due at ${formattedTime} hasn't been logged.`,
+        idempotencyKey: `missed-${medicationId}-${scheduledAt.getTime()}-caregiver`,
+      });
+
+      jobLogger.info(
+        { medicationId, caregiverId: onDutyShift.caregiverId, sent },
+        'On-duty caregiver notified of missed dose'
+      );
+
+      return { success: true, medicationId, stage, notificationCount: sent ? 1 : 0 };
+    }
+
+    jobLogger.info({ medicationId, careRecipientId }, 'Nobody on duty, escalating to admins');
+  }
+
+  // Step 6: Escalate to family admins
+  let notificationCount = 0;
+
+  for (const admin of admins) {
+    const sent = await notifyUser(admin.user.id, {
+      ...content,
+      stage: 'ADMIN',
+      title: `🚨 Missed Dose: ${medication.name}`,
+      body: `${careRecipientName}'s ${medication.name} (${medication.dosage}) due at ${formattedTime} is still not logged.`,
+      idempotencyKey: `missed-${medicationId}-${scheduledAt.getTime()}-admin`,
+    });
+
+    if (sent) {
+      notificationCount++;
+    }
+  }
+
+  await prisma.medicationLog.update({
+    where: { id: missedLog.id },
+    data: { escalatedAt: new Date() },
+  });
+
+  jobLogger.info(
+    { medicationId, notificationCount },
+    `Missed dose escalated to ${notificationCount} admins`
+  );
+
+  return {
+    success: true,
+    medicationId,
+    stage: 'ADMIN',
+    notificationCount,
+  };
+}
+
+// ============================================================================
+// WORKER INSTANCE
+// ============================================================================
+
+const workerOptions = getDefaultWorkerOptions();
+
+export const missedMedicationWorker = new Worker<MissedMedicationJob>(
+  QUEUE_NAMES.MISSED_MEDICATIONS,
+  async (job) => {
+    try {
+      return await processMissedMedication(job);
+    } catch (error) {
+      const errorType = classifyError(error);
+      const jobLogger = createJobLogger(logger, job.id || 'unknown', 'missed-medication');
+
+      if (errorType === 'permanent' || errorType === 'validation') {
+        await moveToDeadLetter(
+          QUEUE_NAMES.MISSED_MEDICATIONS,
+          job.id || 'unknown',
+          'missed-medication',
+          job.data,
+          error instanceof Error ? error.message : String(error),
+          job.attemptsMade
+        );
+
+        jobLogger.error({ err: error, errorType }, 'Permanent failure, moved to DLQ');
+        return { failed: true, movedToDLQ: true };
+      }
+
+      throw error;
+    }
+  },
+  {
+    connection: getRedisConnection(),
+    ...workerOptions,
+    concurrency: 5,
+  }
+);
+
+// ============================================================================
+// WORKER EVENTS
+// ============================================================================
+
+missedMedicationWorker.on('completed', (job, result) => {
+  const jobLogger = createJobLogger(logger, job.id || 'unknown', 'missed-medication');
+  jobLogger.debug({ result }, 'Job completed');
+});
+
+missedMedicationWorker.on('failed', (job, err) => {
+  const jobLogger = createJobLogger(logger, job?.id || 'unknown', 'missed-medication');
+  jobLogger.error({ err, attemptsMade: job?.attemptsMade }, 'Job failed');
+});
+
+missedMedicationWorker.on('error', (err) => {
+  logger.error({ err }, 'Worker error');
+});
@@ -184,6 +184,32 @@ export const RefillAlertJobSchema = z.object({
 
 export type RefillAlertJob = z.infer<typeof RefillAlertJobSchema>;
 
+/**
+ * Missed Medication Job Schema
+ * CAREGIVER stage marks the dose MISSED and alerts the on-duty caregiver;
+ * ADMIN stage escalates an unresolved MISSED dose to family admins.
+ */
+export const MissedMedicationJobSchema = z.object({
+  medicationId: z.string().uuid('Invalid medicationId'),
+  careRecipientId: z.string().uuid('Invalid careRecipientId'),
+  scheduledTime: z.string().datetime('Invalid scheduledTime format'),
+  stage: z.enum(['CAREGIVER', 'ADMIN']),
+});
+
+export type MissedMedicationJob = z.infer<typeof MissedMedicationJobSchema>;
+
+/**
+ * Coverage Gap Job Schema
+ * An upcoming interval of required coverage with no shift scheduled.
+ */
+export const CoverageGapJobSchema = z.object({
+  careRecipientId: z.string().uuid('Invalid careRecipientId'),
+  gapStart: z.string().datetime('Invalid gapStart format'),
+  gapEnd: z.string().datetime('Invalid gapEnd format'),
+});
+
+export type CoverageGapJob = z.infer<typeof CoverageGapJobSchema>;
+
 // ============================================================================
 // CONFIG SINGLETON
 // ============================================================================
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "MedicationSchedulePhase" (
+    "id" TEXT NOT NULL,
+    "medicationId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL DEFAULT 0,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "recurrenceRule" TEXT NOT NULL,
+    "times" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dosage" TEXT,
+    "doseQuantity" INTEGER NOT NULL DEFAULT 1,
+    "cycleDaysOn" INTEGER,
+    "cycleDaysOff" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MedicationSchedulePhase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MedicationSchedulePhase_medicationId_sequence_idx" ON "MedicationSchedulePhase"("medicationId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "MedicationSchedulePhase" ADD CONSTRAINT "MedicationSchedulePhase_medicationId_fkey" FOREIGN KEY ("medicationId") REFERENCES "Medication"("id") ON DELETE CASCADE ON UPDATE CASCADE;
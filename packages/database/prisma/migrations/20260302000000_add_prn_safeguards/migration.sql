@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Medication" ADD COLUMN "doseMg" DOUBLE PRECISION;
+ALTER TABLE "Medication" ADD COLUMN "prnMinIntervalHours" DOUBLE PRECISION;
+ALTER TABLE "Medication" ADD COLUMN "prnMaxDosesPer24h" INTEGER;
+ALTER TABLE "Medication" ADD COLUMN "prnMaxMgPer24h" DOUBLE PRECISION;
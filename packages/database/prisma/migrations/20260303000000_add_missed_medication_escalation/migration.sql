@@ -0,0 +1,9 @@
+-- DropForeignKey
+ALTER TABLE "MedicationLog" DROP CONSTRAINT "MedicationLog_givenById_fkey";
+
+-- AlterTable
+ALTER TABLE "MedicationLog" ALTER COLUMN "givenById" DROP NOT NULL;
+ALTER TABLE "MedicationLog" ADD COLUMN "escalatedAt" TIMESTAMP(3);
+
+-- AddForeignKey
+ALTER TABLE "MedicationLog" ADD CONSTRAINT "MedicationLog_givenById_fkey" FOREIGN KEY ("givenById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
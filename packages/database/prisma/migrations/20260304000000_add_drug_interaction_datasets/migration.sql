@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "InteractionSeverity" AS ENUM ('MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED');
+
+-- CreateTable
+CREATE TABLE "DrugInteractionDataset" (
+    "id" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "interactionCount" INTEGER NOT NULL DEFAULT 0,
+    "aliasCount" INTEGER NOT NULL DEFAULT 0,
+    "importedById" TEXT,
+    "importedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DrugInteractionDataset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DrugInteractionRecord" (
+    "id" TEXT NOT NULL,
+    "datasetId" TEXT NOT NULL,
+    "drug1" TEXT NOT NULL,
+    "drug2" TEXT NOT NULL,
+    "severity" "InteractionSeverity" NOT NULL,
+    "description" TEXT NOT NULL,
+    "mechanism" TEXT,
+    "clinicalEffects" TEXT,
+    "management" TEXT,
+    "externalId" TEXT,
+
+    CONSTRAINT "DrugInteractionRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DrugNameAlias" (
+    "id" TEXT NOT NULL,
+    "datasetId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "genericName" TEXT NOT NULL,
+
+    CONSTRAINT "DrugNameAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrugInteractionDataset_version_key" ON "DrugInteractionDataset"("version");
+
+-- CreateIndex
+CREATE INDEX "DrugInteractionDataset_isActive_idx" ON "DrugInteractionDataset"("isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrugInteractionRecord_datasetId_drug1_drug2_key" ON "DrugInteractionRecord"("datasetId", "drug1", "drug2");
+
+-- CreateIndex
+CREATE INDEX "DrugInteractionRecord_datasetId_drug2_idx" ON "DrugInteractionRecord"("datasetId", "drug2");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrugNameAlias_datasetId_alias_key" ON "DrugNameAlias"("datasetId", "alias");
+
+-- AddForeignKey
+ALTER TABLE "DrugInteractionRecord" ADD CONSTRAINT "DrugInteractionRecord_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "DrugInteractionDataset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DrugNameAlias" ADD CONSTRAINT "DrugNameAlias_datasetId_fkey" FOREIGN KEY ("datasetId") REFERENCES "DrugInteractionDataset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REFILL_PICKUP';
+
+-- CreateEnum
+CREATE TYPE "MedicationRefillStatus" AS ENUM ('REQUESTED', 'ORDERED', 'READY_FOR_PICKUP', 'PICKED_UP', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "MedicationRefill" (
+    "id" TEXT NOT NULL,
+    "medicationId" TEXT NOT NULL,
+    "status" "MedicationRefillStatus" NOT NULL DEFAULT 'REQUESTED',
+    "quantity" INTEGER,
+    "pharmacy" TEXT,
+    "notes" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "assignedToId" TEXT,
+    "pickupDueAt" TIMESTAMP(3),
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "orderedAt" TIMESTAMP(3),
+    "readyAt" TIMESTAMP(3),
+    "pickedUpAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "lastReminderAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MedicationRefill_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MedicationRefill_medicationId_status_idx" ON "MedicationRefill"("medicationId", "status");
+
+-- CreateIndex
+CREATE INDEX "MedicationRefill_assignedToId_status_idx" ON "MedicationRefill"("assignedToId", "status");
+
+-- AddForeignKey
+ALTER TABLE "MedicationRefill" ADD CONSTRAINT "MedicationRefill_medicationId_fkey" FOREIGN KEY ("medicationId") REFERENCES "Medication"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationRefill" ADD CONSTRAINT "MedicationRefill_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MedicationRefill" ADD CONSTRAINT "MedicationRefill_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,169 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'VITALS_ALERT';
+
+-- CreateEnum
+CREATE TYPE "VitalType" AS ENUM ('BLOOD_PRESSURE', 'HEART_RATE', 'TEMPERATURE', 'BLOOD_SUGAR', 'OXYGEN_LEVEL', 'WEIGHT');
+
+-- CreateEnum
+CREATE TYPE "VitalSource" AS ENUM ('MANUAL', 'DEVICE', 'IMPORT');
+
+-- CreateTable
+CREATE TABLE "VitalReading" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "timelineEntryId" TEXT,
+    "recordedById" TEXT,
+    "type" "VitalType" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "secondaryValue" DOUBLE PRECISION,
+    "unit" TEXT NOT NULL,
+    "source" "VitalSource" NOT NULL DEFAULT 'MANUAL',
+    "deviceName" TEXT,
+    "isOutOfRange" BOOLEAN NOT NULL DEFAULT false,
+    "measuredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VitalReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VitalRange" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "type" "VitalType" NOT NULL,
+    "min" DOUBLE PRECISION,
+    "max" DOUBLE PRECISION,
+    "secondaryMin" DOUBLE PRECISION,
+    "secondaryMax" DOUBLE PRECISION,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VitalRange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VitalReading_careRecipientId_type_measuredAt_idx" ON "VitalReading"("careRecipientId", "type", "measuredAt");
+
+-- CreateIndex
+CREATE INDEX "VitalReading_timelineEntryId_idx" ON "VitalReading"("timelineEntryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VitalRange_careRecipientId_type_key" ON "VitalRange"("careRecipientId", "type");
+
+-- AddForeignKey
+ALTER TABLE "VitalReading" ADD CONSTRAINT "VitalReading_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalReading" ADD CONSTRAINT "VitalReading_timelineEntryId_fkey" FOREIGN KEY ("timelineEntryId") REFERENCES "TimelineEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalReading" ADD CONSTRAINT "VitalReading_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalRange" ADD CONSTRAINT "VitalRange_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VitalRange" ADD CONSTRAINT "VitalRange_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill readings from vitals already logged on timeline entries, parsed the
+-- way VitalsHelper.parse does: values that aren't numbers are skipped, as are
+-- vitals with an unknown unit. No family has set target ranges yet, so
+-- out-of-range flags use the adult defaults.
+-- Numbers too large for a double are Infinity in JS and skipped there too
+CREATE FUNCTION pg_temp.vital_number(value JSONB) RETURNS DOUBLE PRECISION AS $$
+    SELECT CASE WHEN abs(n) < 1e300 THEN n::DOUBLE PRECISION END
+    FROM (
+        SELECT CASE
+            WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::NUMERIC
+            WHEN jsonb_typeof(value) = 'string' AND btrim(value #>> '{}') ~ '^-?([0-9]+(\.[0-9]*)?|\.[0-9]+)$'
+                THEN btrim(value #>> '{}')::NUMERIC
+        END AS n
+    ) parsed
+$$ LANGUAGE SQL IMMUTABLE;
+
+WITH entries AS (
+    SELECT
+        e."id",
+        e."careRecipientId",
+        e."createdById",
+        e."occurredAt",
+        e."vitals" AS v,
+        CASE WHEN e."vitals"->>'source' IN ('MANUAL', 'DEVICE', 'IMPORT') THEN e."vitals"->>'source' ELSE 'MANUAL' END AS source,
+        CASE WHEN jsonb_typeof(e."vitals"->'deviceName') = 'string' THEN NULLIF(btrim(e."vitals"->>'deviceName'), '') END AS "deviceName"
+    FROM "TimelineEntry" e
+    WHERE jsonb_typeof(e."vitals") = 'object'
+),
+measurements AS (
+    -- Structured systolic/diastolic win over the legacy "120/80" string
+    SELECT e.*, 'BLOOD_PRESSURE' AS type,
+        CASE WHEN bp.s IS NOT NULL AND bp.d IS NOT NULL THEN bp.s ELSE bp.m[1]::DOUBLE PRECISION END AS value,
+        CASE WHEN bp.s IS NOT NULL AND bp.d IS NOT NULL THEN bp.d ELSE bp.m[2]::DOUBLE PRECISION END AS "secondaryValue",
+        'mmHg' AS unit
+    FROM entries e
+    CROSS JOIN LATERAL (
+        SELECT
+            pg_temp.vital_number(COALESCE(NULLIF(e.v->'systolic', 'null'), e.v->'bloodPressureSystolic')) AS s,
+            pg_temp.vital_number(COALESCE(NULLIF(e.v->'diastolic', 'null'), e.v->'bloodPressureDiastolic')) AS d,
+            CASE WHEN jsonb_typeof(e.v->'bloodPressure') = 'string'
+                THEN regexp_match(e.v->>'bloodPressure', '^\s*(\d{2,3})\s*/\s*(\d{2,3})\s*$')
+            END AS m
+    ) bp
+    UNION ALL
+    SELECT e.*, 'HEART_RATE', pg_temp.vital_number(e.v->'heartRate'), NULL, 'bpm' FROM entries e
+    UNION ALL
+    SELECT e.*, 'OXYGEN_LEVEL', pg_temp.vital_number(e.v->'oxygenLevel'), NULL, '%' FROM entries e
+    UNION ALL
+    SELECT e.*, 'TEMPERATURE',
+        CASE WHEN e.v->>'temperatureUnit' = 'C' THEN pg_temp.vital_number(e.v->'temperature') * 1.8 + 32
+            ELSE pg_temp.vital_number(e.v->'temperature') END,
+        NULL, '°F'
+    FROM entries e
+    WHERE COALESCE(e.v->>'temperatureUnit', '') IN ('', 'F', 'C')
+    UNION ALL
+    SELECT e.*, 'BLOOD_SUGAR',
+        CASE WHEN e.v->>'bloodSugarUnit' = 'mmol/L' THEN pg_temp.vital_number(e.v->'bloodSugar') * 18
+            ELSE pg_temp.vital_number(e.v->'bloodSugar') END,
+        NULL, 'mg/dL'
+    FROM entries e
+    WHERE COALESCE(e.v->>'bloodSugarUnit', '') IN ('', 'mg/dL', 'mmol/L')
+    UNION ALL
+    SELECT e.*, 'WEIGHT',
+        CASE WHEN e.v->>'weightUnit' = 'kg' THEN pg_temp.vital_number(e.v->'weight') * 2.20462
+            ELSE pg_temp.vital_number(e.v->'weight') END,
+        NULL, 'lb'
+    FROM entries e
+    WHERE COALESCE(e.v->>'weightUnit', '') IN ('', 'lb', 'kg')
+),
+defaults ("type", "min", "max", "secondaryMin", "secondaryMax") AS (
+    VALUES
+        ('BLOOD_PRESSURE', 90, 140, 60, 90),
+        ('HEART_RATE', 50, 100, NULL, NULL),
+        ('TEMPERATURE', 95, 100.4, NULL, NULL),
+        ('BLOOD_SUGAR', 70, 180, NULL, NULL),
+        ('OXYGEN_LEVEL', 92, NULL, NULL, NULL),
+        ('WEIGHT', NULL, NULL, NULL, NULL)
+)
+INSERT INTO "VitalReading" ("id", "careRecipientId", "timelineEntryId", "recordedById", "type", "value", "secondaryValue", "unit", "source", "deviceName", "isOutOfRange", "measuredAt")
+SELECT
+    gen_random_uuid()::text,
+    r."careRecipientId",
+    r."id",
+    r."createdById",
+    r.type::"VitalType",
+    r.rounded,
+    r."secondaryValue",
+    r.unit,
+    r.source::"VitalSource",
+    r."deviceName",
+    COALESCE(r.rounded < d."min", false) OR COALESCE(r.rounded > d."max", false)
+        OR COALESCE(r."secondaryValue" < d."secondaryMin", false) OR COALESCE(r."secondaryValue" > d."secondaryMax", false),
+    r."occurredAt"
+FROM (
+    SELECT m.*, (round((m.value * 10)::NUMERIC) / 10)::DOUBLE PRECISION AS rounded
+    FROM measurements m
+    WHERE m.value IS NOT NULL
+) r
+JOIN defaults d ON d."type" = r.type;
+
+DROP FUNCTION pg_temp.vital_number(JSONB);
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "CaregiverShift" ADD COLUMN "seriesId" TEXT;
+ALTER TABLE "CaregiverShift" ADD COLUMN "occurrenceStart" TIMESTAMP(3);
+ALTER TABLE "CaregiverShift" ADD COLUMN "isSeriesException" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ShiftSeries" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "caregiverId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "recurrenceRule" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "notes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "materializedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CaregiverShift_seriesId_occurrenceStart_key" ON "CaregiverShift"("seriesId", "occurrenceStart");
+
+-- CreateIndex
+CREATE INDEX "ShiftSeries_careRecipientId_idx" ON "ShiftSeries"("careRecipientId");
+
+-- CreateIndex
+CREATE INDEX "ShiftSeries_isActive_materializedUntil_idx" ON "ShiftSeries"("isActive", "materializedUntil");
+
+-- AddForeignKey
+ALTER TABLE "CaregiverShift" ADD CONSTRAINT "CaregiverShift_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "ShiftSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSeries" ADD CONSTRAINT "ShiftSeries_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSeries" ADD CONSTRAINT "ShiftSeries_caregiverId_fkey" FOREIGN KEY ("caregiverId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSeries" ADD CONSTRAINT "ShiftSeries_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'SHIFT_SWAP';
+
+-- CreateEnum
+CREATE TYPE "ShiftSwapStatus" AS ENUM ('OPEN', 'CLAIMED', 'APPROVED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ShiftSwapRequest" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "status" "ShiftSwapStatus" NOT NULL DEFAULT 'OPEN',
+    "reason" TEXT,
+    "claimedById" TEXT,
+    "tradeShiftId" TEXT,
+    "claimNote" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftSwapRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_shiftId_status_idx" ON "ShiftSwapRequest"("shiftId", "status");
+
+-- CreateIndex
+CREATE INDEX "ShiftSwapRequest_status_idx" ON "ShiftSwapRequest"("status");
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CaregiverShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_tradeShiftId_fkey" FOREIGN KEY ("tradeShiftId") REFERENCES "CaregiverShift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_claimedById_fkey" FOREIGN KEY ("claimedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftSwapRequest" ADD CONSTRAINT "ShiftSwapRequest_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
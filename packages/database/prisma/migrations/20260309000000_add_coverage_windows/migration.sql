@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'COVERAGE_GAP';
+
+-- AlterTable
+ALTER TABLE "CareRecipient" ADD COLUMN "coverageAlertDays" INTEGER NOT NULL DEFAULT 2;
+
+-- CreateTable
+CREATE TABLE "CoverageWindow" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "label" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CoverageWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CoverageWindow_careRecipientId_idx" ON "CoverageWindow"("careRecipientId");
+
+-- AddForeignKey
+ALTER TABLE "CoverageWindow" ADD CONSTRAINT "CoverageWindow_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
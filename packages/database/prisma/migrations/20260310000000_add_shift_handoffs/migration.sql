@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "ShiftHandoff" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "nextShiftId" TEXT,
+    "summary" JSONB NOT NULL,
+    "notes" TEXT,
+    "todos" JSONB NOT NULL DEFAULT '[]',
+    "acknowledgedById" TEXT,
+    "acknowledgedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShiftHandoff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShiftHandoff_shiftId_key" ON "ShiftHandoff"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "ShiftHandoff_careRecipientId_createdAt_idx" ON "ShiftHandoff"("careRecipientId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ShiftHandoff_nextShiftId_idx" ON "ShiftHandoff"("nextShiftId");
+
+-- AddForeignKey
+ALTER TABLE "ShiftHandoff" ADD CONSTRAINT "ShiftHandoff_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CaregiverShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftHandoff" ADD CONSTRAINT "ShiftHandoff_nextShiftId_fkey" FOREIGN KEY ("nextShiftId") REFERENCES "CaregiverShift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftHandoff" ADD CONSTRAINT "ShiftHandoff_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftHandoff" ADD CONSTRAINT "ShiftHandoff_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftHandoff" ADD CONSTRAINT "ShiftHandoff_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TIME_CORRECTION';
+
+-- CreateEnum
+CREATE TYPE "TimeCorrectionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ShiftTimeCorrection" (
+    "id" TEXT NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "status" "TimeCorrectionStatus" NOT NULL DEFAULT 'PENDING',
+    "originalCheckedInAt" TIMESTAMP(3),
+    "originalCheckedOutAt" TIMESTAMP(3),
+    "checkedInAt" TIMESTAMP(3) NOT NULL,
+    "checkedOutAt" TIMESTAMP(3),
+    "reason" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "reviewNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShiftTimeCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShiftTimeCorrection_shiftId_status_idx" ON "ShiftTimeCorrection"("shiftId", "status");
+
+-- CreateIndex
+CREATE INDEX "ShiftTimeCorrection_status_idx" ON "ShiftTimeCorrection"("status");
+
+-- AddForeignKey
+ALTER TABLE "ShiftTimeCorrection" ADD CONSTRAINT "ShiftTimeCorrection_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "CaregiverShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftTimeCorrection" ADD CONSTRAINT "ShiftTimeCorrection_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShiftTimeCorrection" ADD CONSTRAINT "ShiftTimeCorrection_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "FamilyMember" ADD COLUMN "maxHoursPerWeek" INTEGER;
+
+-- CreateTable
+CREATE TABLE "AvailabilityWindow" (
+    "id" TEXT NOT NULL,
+    "familyMemberId" TEXT NOT NULL,
+    "daysOfWeek" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AvailabilityWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AvailabilityBlackout" (
+    "id" TEXT NOT NULL,
+    "familyMemberId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityBlackout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AvailabilityWindow_familyMemberId_idx" ON "AvailabilityWindow"("familyMemberId");
+
+-- CreateIndex
+CREATE INDEX "AvailabilityBlackout_familyMemberId_endDate_idx" ON "AvailabilityBlackout"("familyMemberId", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityWindow" ADD CONSTRAINT "AvailabilityWindow_familyMemberId_fkey" FOREIGN KEY ("familyMemberId") REFERENCES "FamilyMember"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityBlackout" ADD CONSTRAINT "AvailabilityBlackout_familyMemberId_fkey" FOREIGN KEY ("familyMemberId") REFERENCES "FamilyMember"("id") ON DELETE CASCADE ON UPDATE CASCADE;
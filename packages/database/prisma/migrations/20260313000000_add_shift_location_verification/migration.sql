@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "LocationVerification" AS ENUM ('VERIFIED', 'OUTSIDE_RADIUS', 'NOT_PROVIDED');
+
+-- AlterTable
+ALTER TABLE "CareRecipient" ADD COLUMN "homeLatitude" DOUBLE PRECISION,
+ADD COLUMN "homeLongitude" DOUBLE PRECISION,
+ADD COLUMN "checkInRadiusMeters" INTEGER NOT NULL DEFAULT 150;
+
+-- AlterTable
+ALTER TABLE "CaregiverShift" ADD COLUMN "checkInLatitude" DOUBLE PRECISION,
+ADD COLUMN "checkInLongitude" DOUBLE PRECISION,
+ADD COLUMN "checkInDistanceMeters" INTEGER,
+ADD COLUMN "checkInLocation" "LocationVerification",
+ADD COLUMN "checkOutLatitude" DOUBLE PRECISION,
+ADD COLUMN "checkOutLongitude" DOUBLE PRECISION,
+ADD COLUMN "checkOutDistanceMeters" INTEGER,
+ADD COLUMN "checkOutLocation" "LocationVerification",
+ADD COLUMN "locationFlagged" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "locationReviewedById" TEXT,
+ADD COLUMN "locationReviewedAt" TIMESTAMP(3),
+ADD COLUMN "locationReviewNote" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CaregiverShift_careRecipientId_locationFlagged_idx" ON "CaregiverShift"("careRecipientId", "locationFlagged");
+
+-- AddForeignKey
+ALTER TABLE "CaregiverShift" ADD CONSTRAINT "CaregiverShift_locationReviewedById_fkey" FOREIGN KEY ("locationReviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "icsUid" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Appointment_careRecipientId_icsUid_idx" ON "Appointment"("careRecipientId", "icsUid");
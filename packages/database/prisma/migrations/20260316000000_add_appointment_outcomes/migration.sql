@@ -0,0 +1,44 @@
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'DRAFT' BEFORE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN "followUpOfId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AppointmentOutcome" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "timelineEntryId" TEXT,
+    "doctorNotes" TEXT,
+    "diagnoses" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "medicationChanges" JSONB NOT NULL DEFAULT '[]',
+    "orderedLabs" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "labsDueDate" TIMESTAMP(3),
+    "nextVisitDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AppointmentOutcome_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_followUpOfId_idx" ON "Appointment"("followUpOfId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentOutcome_appointmentId_key" ON "AppointmentOutcome"("appointmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentOutcome_timelineEntryId_key" ON "AppointmentOutcome"("timelineEntryId");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_followUpOfId_fkey" FOREIGN KEY ("followUpOfId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentOutcome" ADD CONSTRAINT "AppointmentOutcome_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentOutcome" ADD CONSTRAINT "AppointmentOutcome_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentOutcome" ADD CONSTRAINT "AppointmentOutcome_timelineEntryId_fkey" FOREIGN KEY ("timelineEntryId") REFERENCES "TimelineEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "EmergencyAlert" ADD COLUMN "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN "acknowledgedById" TEXT,
+ADD COLUMN "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "escalations" JSONB NOT NULL DEFAULT '[]';
+
+-- CreateTable
+CREATE TABLE "EmergencyEscalationPolicy" (
+    "id" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmergencyEscalationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmergencyEscalationPolicy_familyId_key" ON "EmergencyEscalationPolicy"("familyId");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyEscalationPolicy" ADD CONSTRAINT "EmergencyEscalationPolicy_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "Family"("id") ON DELETE CASCADE ON UPDATE CASCADE;
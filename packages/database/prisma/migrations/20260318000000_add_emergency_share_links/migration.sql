@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "EmergencyShareLink" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "hiddenFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "accessCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmergencyShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmergencyShareLink_token_key" ON "EmergencyShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "EmergencyShareLink_careRecipientId_idx" ON "EmergencyShareLink"("careRecipientId");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyShareLink" ADD CONSTRAINT "EmergencyShareLink_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyShareLink" ADD CONSTRAINT "EmergencyShareLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
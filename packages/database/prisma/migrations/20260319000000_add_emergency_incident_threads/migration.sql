@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "EmergencyUpdateType" AS ENUM ('RESPONDING', 'STATUS', 'PHOTO', 'HOSPITAL', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "EmergencyAlert" ADD COLUMN "hospitalName" TEXT,
+ADD COLUMN "hospitalAddress" TEXT,
+ADD COLUMN "timelineEntryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "EmergencyAlertUpdate" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "type" "EmergencyUpdateType" NOT NULL,
+    "message" TEXT,
+    "etaMinutes" INTEGER,
+    "photoUrl" TEXT,
+    "photoKey" TEXT,
+    "hospitalName" TEXT,
+    "hospitalAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmergencyAlertUpdate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmergencyAlert_timelineEntryId_key" ON "EmergencyAlert"("timelineEntryId");
+
+-- CreateIndex
+CREATE INDEX "EmergencyAlertUpdate_alertId_createdAt_idx" ON "EmergencyAlertUpdate"("alertId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlert" ADD CONSTRAINT "EmergencyAlert_timelineEntryId_fkey" FOREIGN KEY ("timelineEntryId") REFERENCES "TimelineEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertUpdate" ADD CONSTRAINT "EmergencyAlertUpdate_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "EmergencyAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EmergencyAlertUpdate" ADD CONSTRAINT "EmergencyAlertUpdate_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "HospitalStay" (
+    "id" TEXT NOT NULL,
+    "careRecipientId" TEXT NOT NULL,
+    "recordedById" TEXT NOT NULL,
+    "facility" TEXT NOT NULL,
+    "ward" TEXT,
+    "room" TEXT,
+    "reason" TEXT NOT NULL,
+    "attendingDoctor" TEXT,
+    "admittedAt" TIMESTAMP(3) NOT NULL,
+    "dischargedAt" TIMESTAMP(3),
+    "dischargedById" TEXT,
+    "dischargeInstructions" TEXT,
+    "medicationSnapshot" JSONB NOT NULL DEFAULT '[]',
+    "reconciliation" JSONB,
+    "reconciledAt" TIMESTAMP(3),
+    "reconciledById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HospitalStay_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HospitalStay_careRecipientId_admittedAt_idx" ON "HospitalStay"("careRecipientId", "admittedAt");
+
+-- CreateIndex
+CREATE INDEX "HospitalStay_dischargedAt_idx" ON "HospitalStay"("dischargedAt");
+
+-- AddForeignKey
+ALTER TABLE "HospitalStay" ADD CONSTRAINT "HospitalStay_careRecipientId_fkey" FOREIGN KEY ("careRecipientId") REFERENCES "CareRecipient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HospitalStay" ADD CONSTRAINT "HospitalStay_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HospitalStay" ADD CONSTRAINT "HospitalStay_dischargedById_fkey" FOREIGN KEY ("dischargedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HospitalStay" ADD CONSTRAINT "HospitalStay_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
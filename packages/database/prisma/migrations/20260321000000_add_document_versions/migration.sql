@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "DocumentVersion" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "uploadedById" TEXT NOT NULL,
+    "s3Key" TEXT,
+    "url" TEXT,
+    "mimeType" TEXT NOT NULL,
+    "sizeBytes" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "restoredFromVersion" INTEGER,
+    "supersededAt" TIMESTAMP(3),
+    "supersededById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentVersion_documentId_versionNumber_key" ON "DocumentVersion"("documentId", "versionNumber");
+
+-- AddForeignKey
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_supersededById_fkey" FOREIGN KEY ("supersededById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing documents become version 1 of themselves
+INSERT INTO "DocumentVersion" ("id", "documentId", "versionNumber", "uploadedById", "s3Key", "url", "mimeType", "sizeBytes", "expiresAt", "notes", "createdAt")
+SELECT gen_random_uuid()::text, d."id", 1, d."uploadedById", d."s3Key", d."url", d."mimeType", d."sizeBytes", d."expiresAt", d."notes", d."createdAt"
+FROM "Document" d
+WHERE EXISTS (SELECT 1 FROM "User" u WHERE u."id" = d."uploadedById");
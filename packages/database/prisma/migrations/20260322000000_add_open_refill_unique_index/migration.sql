@@ -0,0 +1,14 @@
+-- Keep only the newest open refill per medication before adding the index
+UPDATE "MedicationRefill" r
+SET "status" = 'CANCELLED', "cancelledAt" = CURRENT_TIMESTAMP
+WHERE r."status" IN ('REQUESTED', 'ORDERED', 'READY_FOR_PICKUP')
+  AND EXISTS (
+    SELECT 1 FROM "MedicationRefill" o
+    WHERE o."medicationId" = r."medicationId"
+      AND o."status" IN ('REQUESTED', 'ORDERED', 'READY_FOR_PICKUP')
+      AND (o."requestedAt", o."id") > (r."requestedAt", r."id")
+  );
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "MedicationRefill_medicationId_open_key" ON "MedicationRefill"("medicationId")
+WHERE "status" IN ('REQUESTED', 'ORDERED', 'READY_FOR_PICKUP');
@@ -0,0 +1,19 @@
+-- Close all but the latest open stay per care recipient before adding the index
+UPDATE "HospitalStay" h
+SET "dischargedAt" = (
+  SELECT MIN(o."admittedAt") FROM "HospitalStay" o
+  WHERE o."careRecipientId" = h."careRecipientId"
+    AND o."dischargedAt" IS NULL
+    AND (o."admittedAt", o."id") > (h."admittedAt", h."id")
+)
+WHERE h."dischargedAt" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "HospitalStay" o
+    WHERE o."careRecipientId" = h."careRecipientId"
+      AND o."dischargedAt" IS NULL
+      AND (o."admittedAt", o."id") > (h."admittedAt", h."id")
+  );
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "HospitalStay_careRecipientId_open_key" ON "HospitalStay"("careRecipientId")
+WHERE "dischargedAt" IS NULL;
@@ -0,0 +1,14 @@
+-- Keep only the newest pending correction per shift before adding the index
+UPDATE "ShiftTimeCorrection" c
+SET "status" = 'REJECTED', "reviewedAt" = CURRENT_TIMESTAMP, "reviewNote" = 'Superseded by a newer correction'
+WHERE c."status" = 'PENDING'
+  AND EXISTS (
+    SELECT 1 FROM "ShiftTimeCorrection" o
+    WHERE o."shiftId" = c."shiftId"
+      AND o."status" = 'PENDING'
+      AND (o."createdAt", o."id") > (c."createdAt", c."id")
+  );
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "ShiftTimeCorrection_shiftId_pending_key" ON "ShiftTimeCorrection"("shiftId")
+WHERE "status" = 'PENDING';
@@ -0,0 +1,159 @@
+/**
+ * Coverage intervals
+ *
+ * Expands a care recipient's required coverage windows (e.g. 24/7, or
+ * 08:00-22:00 on weekdays) into concrete intervals and finds the parts no
+ * shift covers. Window times are wall-clock times, like medication schedule
+ * times.
+ */
+
+import { addDays, startOfDay } from 'date-fns';
+import { atTime } from './time';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The fields of a CoverageWindow (or availability window) row the expansion reads */
+export interface CoverageWindowTimes {
+  daysOfWeek: number[]; // 0 = Sunday; empty means every day
+  startTime: string;
+  endTime: string;
+}
+
+export interface CoverageInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface CoverageGap extends CoverageInterval {
+  durationMinutes: number;
+}
+
+/** Shift statuses that count toward coverage; past shifts stay COMPLETED */
+export const COVERING_SHIFT_STATUSES: Array<'SCHEDULED' | 'CONFIRMED' | 'IN_PROGRESS' | 'COMPLETED'> = [
+  'SCHEDULED',
+  'CONFIRMED',
+  'IN_PROGRESS',
+  'COMPLETED',
+];
+
+// ============================================================================
+// INTERVALS
+// ============================================================================
+
+/**
+ * Sort intervals and join any that overlap or touch
+ */
+export function mergeIntervals(intervals: CoverageInterval[]): CoverageInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: CoverageInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Required intervals between `from` and `until`, clipped to the range and
+ * merged, so a daily 00:00-00:00 window becomes one continuous interval
+ */
+export function getRequiredIntervals(
+  windows: CoverageWindowTimes[],
+  from: Date,
+  until: Date
+): CoverageInterval[] {
+  const intervals: CoverageInterval[] = [];
+
+  // Start a day early to pick up overnight windows that began yesterday
+  for (let day = startOfDay(addDays(from, -1)); day < until; day = addDays(day, 1)) {
+    for (const window of windows) {
+      if (window.daysOfWeek.length > 0 && !window.daysOfWeek.includes(day.getDay())) {
+        continue;
+      }
+
+      const start = atTime(day, window.startTime);
+      let end = atTime(day, window.endTime);
+      if (end <= start) {
+        end = addDays(end, 1);
+      }
+
+      if (end > from && start < until) {
+        intervals.push({
+          start: start < from ? from : start,
+          end: end > until ? until : end,
+        });
+      }
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+/**
+ * Parts of the required intervals not covered by any shift, ignoring gaps
+ * shorter than `minMinutes`
+ */
+export function findUncovered(
+  required: CoverageInterval[],
+  shifts: CoverageInterval[],
+  minMinutes = 0
+): CoverageGap[] {
+  const covered = mergeIntervals(shifts);
+  const gaps: CoverageGap[] = [];
+
+  const addGap = (start: Date, end: Date) => {
+    const durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    if (durationMinutes > 0 && durationMinutes >= minMinutes) {
+      gaps.push({ start, end, durationMinutes });
+    }
+  };
+
+  for (const interval of required) {
+    let cursor = interval.start;
+
+    for (const shift of covered) {
+      if (shift.end <= cursor) {
+        continue;
+      }
+      if (shift.start >= interval.end) {
+        break;
+      }
+      if (shift.start > cursor) {
+        addGap(cursor, shift.start);
+      }
+      cursor = shift.end;
+      if (cursor >= interval.end) {
+        break;
+      }
+    }
+
+    if (cursor < interval.end) {
+      addGap(cursor, interval.end);
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Uncovered parts of the required windows between `from` and `until`
+ */
+export function findCoverageGaps(
+  windows: CoverageWindowTimes[],
+  shifts: CoverageInterval[],
+  from: Date,
+  until: Date,
+  minMinutes = 0
+): CoverageGap[] {
+  return findUncovered(getRequiredIntervals(windows, from, until), shifts, minMinutes);
+}
@@ -0,0 +1,13 @@
+/**
+ * @carecircle/scheduling - Schedule expansion shared by the API and workers
+ *
+ * Features:
+ * - Medication schedule phases (tapers, every N hours, on/off cycles) expanded into doses
+ * - Required coverage windows expanded into intervals, and the gaps shifts leave in them
+ *
+ * Reminders, missed-dose checks, coverage alerts and the schedule views all
+ * go through here so they can't disagree.
+ */
+
+export * from './medication-schedule';
+export * from './coverage';
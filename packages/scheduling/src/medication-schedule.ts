@@ -0,0 +1,276 @@
+/**
+ * Medication schedule expansion
+ *
+ * Turns a medication's schedule phases (RRULE + times + dose) into the
+ * concrete doses due on a given day. Medications without phases keep the
+ * legacy behaviour: one dose per entry in `scheduledTimes`, every day between
+ * startDate and endDate.
+ */
+
+import { addDays, differenceInCalendarDays, endOfDay, startOfDay } from 'date-fns';
+import { Frequency, RRule } from 'rrule';
+import { atTime, formatTime } from './time';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The fields of a MedicationSchedulePhase row the expansion reads */
+export interface SchedulePhase {
+  id: string;
+  startDate: Date;
+  endDate: Date | null;
+  recurrenceRule: string;
+  times: string[];
+  dosage: string | null;
+  doseQuantity: number;
+  cycleDaysOn: number | null;
+  cycleDaysOff: number | null;
+}
+
+/** The fields of a Medication row the expansion reads */
+export interface ScheduledMedication {
+  dosage: string;
+  frequency: string;
+  scheduledTimes: string[];
+  startDate: Date;
+  endDate: Date | null;
+  schedulePhases?: SchedulePhase[];
+}
+
+/** A hospital stay; an open stay has no dischargedAt yet */
+export interface StayWindow {
+  admittedAt: Date;
+  dischargedAt: Date | null;
+}
+
+export interface ScheduledDose {
+  scheduledTime: Date;
+  time: string; // HH:mm
+  dosage: string;
+  doseQuantity: number;
+  phaseId: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toUtcDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+function byTime(a: ScheduledDose, b: ScheduledDose): number {
+  return a.scheduledTime.getTime() - b.scheduledTime.getTime();
+}
+
+function isCycleOnDay(phase: SchedulePhase, dayStart: Date): boolean {
+  if (!phase.cycleDaysOn || !phase.cycleDaysOff) {
+    return true;
+  }
+
+  const dayIndex = differenceInCalendarDays(dayStart, startOfDay(phase.startDate));
+  return dayIndex % (phase.cycleDaysOn + phase.cycleDaysOff) < phase.cycleDaysOn;
+}
+
+function getPhaseTimesForDay(
+  phase: SchedulePhase,
+  medication: ScheduledMedication,
+  dayStart: Date,
+  dayEnd: Date
+): Date[] {
+  const options = RRule.parseString(phase.recurrenceRule);
+
+  // Interval rules (every N hours) are anchored at the phase start instant
+  if (options.freq === Frequency.HOURLY) {
+    return new RRule({ ...options, dtstart: phase.startDate }).between(dayStart, dayEnd, true);
+  }
+
+  // Day-level rules only decide whether the day matches. rrule works in UTC,
+  // so compare calendar dates as UTC midnights to keep BYDAY stable.
+  const rule = new RRule({ ...options, dtstart: toUtcDate(phase.startDate) });
+  const utcDay = toUtcDate(dayStart);
+  if (rule.between(utcDay, new Date(utcDay.getTime() + 86399999), true).length === 0) {
+    return [];
+  }
+
+  const times = phase.times.length > 0 ? phase.times : medication.scheduledTimes;
+  return times.map((time) => atTime(dayStart, time));
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Get all doses due on the calendar day containing `date`, earliest first
+ */
+export function getDosesForDay(medication: ScheduledMedication, date: Date): ScheduledDose[] {
+  const dayStart = startOfDay(date);
+  const dayEnd = endOfDay(date);
+
+  if (medication.startDate > dayEnd || (medication.endDate && medication.endDate < dayStart)) {
+    return [];
+  }
+
+  const phases = medication.schedulePhases || [];
+
+  if (phases.length === 0) {
+    if (medication.frequency === 'AS_NEEDED') {
+      return [];
+    }
+
+    return medication.scheduledTimes
+      .map((time) => ({
+        scheduledTime: atTime(dayStart, time),
+        time,
+        dosage: medication.dosage,
+        doseQuantity: 1,
+        phaseId: null,
+      }))
+      .sort(byTime);
+  }
+
+  const doses: ScheduledDose[] = [];
+
+  for (const phase of phases) {
+    if (phase.startDate > dayEnd || (phase.endDate && phase.endDate <= dayStart)) {
+      continue;
+    }
+
+    if (!isCycleOnDay(phase, dayStart)) {
+      continue;
+    }
+
+    for (const scheduledTime of getPhaseTimesForDay(phase, medication, dayStart, dayEnd)) {
+      // Clip to the phase window so a taper step ends exactly where the next begins
+      if (scheduledTime < phase.startDate || (phase.endDate && scheduledTime >= phase.endDate)) {
+        continue;
+      }
+
+      doses.push({
+        scheduledTime,
+        time: formatTime(scheduledTime),
+        dosage: phase.dosage || medication.dosage,
+        doseQuantity: phase.doseQuantity,
+        phaseId: phase.id,
+      });
+    }
+  }
+
+  return doses.sort(byTime);
+}
+
+/**
+ * Doses on the day containing `date` that someone could have given: a
+ * medication recorded at 10:00 (or starting at 10:00) today doesn't owe its
+ * 08:00 dose, so missed-dose checks must not flag it. The schedule itself
+ * still lists that dose so it can be logged if it was given.
+ */
+export function getMissableDosesForDay(
+  medication: ScheduledMedication & { createdAt: Date },
+  date: Date
+): ScheduledDose[] {
+  return getDosesForDay(medication, date).filter(
+    (dose) => dose.scheduledTime >= medication.createdAt && dose.scheduledTime >= medication.startDate
+  );
+}
+
+/**
+ * Get all doses between two dates (inclusive, day granularity)
+ */
+export function getDosesBetween(medication: ScheduledMedication, from: Date, to: Date): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    doses.push(
+      ...getDosesForDay(medication, day).filter((dose) => dose.scheduledTime >= from && dose.scheduledTime <= to)
+    );
+  }
+
+  return doses;
+}
+
+/**
+ * Doses between two dates that someone at home could have given: the
+ * getMissableDosesForDay rules, less doses that fell during a hospital stay
+ * (those were the hospital's to give). Missed-dose checks, adherence and the
+ * MAR all count MISSED from this so they agree.
+ */
+export function getMissableDosesBetween(
+  medication: ScheduledMedication & { createdAt: Date },
+  from: Date,
+  to: Date,
+  stays: StayWindow[] = []
+): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    doses.push(
+      ...getMissableDosesForDay(medication, day).filter(
+        (dose) =>
+          dose.scheduledTime >= from &&
+          dose.scheduledTime <= to &&
+          !stays.some(
+            (stay) =>
+              dose.scheduledTime >= stay.admittedAt && (!stay.dischargedAt || dose.scheduledTime <= stay.dischargedAt)
+          )
+      )
+    );
+  }
+
+  return doses;
+}
+
+/**
+ * Find the scheduled dose matching a given time, if any
+ */
+export function findDose(medication: ScheduledMedication, scheduledTime: Date): ScheduledDose | null {
+  return (
+    getDosesForDay(medication, scheduledTime).find(
+      (dose) => dose.scheduledTime.getTime() === scheduledTime.getTime()
+    ) || null
+  );
+}
+
+/**
+ * Units taken from supply for a dose at the given time.
+ * Falls back to the active phase's quantity for unscheduled (e.g. early/late) logs.
+ */
+export function getDoseQuantity(medication: ScheduledMedication, scheduledTime: Date): number {
+  const dose = findDose(medication, scheduledTime);
+  if (dose) {
+    return dose.doseQuantity;
+  }
+
+  const activePhase = (medication.schedulePhases || []).find(
+    (phase) => phase.startDate <= scheduledTime && (!phase.endDate || phase.endDate > scheduledTime)
+  );
+
+  return activePhase?.doseQuantity ?? 1;
+}
+
+/** Shortest gap allowed between doses of an every-N-hours rule */
+export const MIN_DOSE_INTERVAL_HOURS = 2;
+
+const DAY_LEVEL_FREQUENCIES = [Frequency.DAILY, Frequency.WEEKLY, Frequency.MONTHLY];
+
+/**
+ * Validate an RRULE string (without DTSTART). Only day-level rules and
+ * every-N-hours rules of MIN_DOSE_INTERVAL_HOURS to 24 hours are allowed, so
+ * a phase can't expand into hundreds of doses a day.
+ */
+export function isValidRule(rule: string): boolean {
+  try {
+    const options = RRule.parseString(rule);
+
+    if (options.freq === Frequency.HOURLY) {
+      const interval = options.interval ?? 1;
+      return interval >= MIN_DOSE_INTERVAL_HOURS && interval <= 24;
+    }
+
+    return options.freq !== undefined && DAY_LEVEL_FREQUENCIES.includes(options.freq);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Wall-clock time helpers shared by the medication and coverage schedules
+ */
+
+/**
+ * `day` at the given HH:mm, in local time
+ */
+export function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes || 0, 0, 0);
+  return result;
+}
+
+export function formatTime(date: Date): string {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+}